@@ -2,6 +2,11 @@ import { Request, Response } from 'express';
 import { ApiKeyService } from '../services/apiKey.service';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { logger } from '../utils/logger';
+import {
+  canGrantPermissions,
+  isValidPermission,
+  PERMISSION_RESOURCES,
+} from '../utils/permissions';
 
 export class ApiKeyController {
   /**
@@ -16,6 +21,30 @@ export class ApiKeyController {
         return res.status(400).json({ message: 'API key name is required' });
       }
 
+      if (permissions !== undefined && !Array.isArray(permissions)) {
+        return res
+          .status(400)
+          .json({ message: 'permissions must be an array of strings' });
+      }
+      const invalid = (permissions || []).filter(
+        (p: unknown) => !isValidPermission(p),
+      );
+      if (invalid.length > 0) {
+        return res
+          .status(400)
+          .json({ message: `Invalid permissions: ${invalid.join(', ')}` });
+      }
+
+      // A scoped key cannot create a key with more access than it has
+      if (
+        req.isApiKeyAuth &&
+        !canGrantPermissions(req.apiKeyPermissions, permissions)
+      ) {
+        return res.status(403).json({
+          message: 'Cannot grant permissions beyond those of the current key',
+        });
+      }
+
       const apiKey = await ApiKeyService.createApiKey({
         name,
         userId: req.user!._id.toString(),
@@ -37,6 +66,14 @@ export class ApiKeyController {
     }
   }
 
+  /**
+   * List the permissions API keys can be scoped to
+   * @route GET /api/keys/permissions
+   */
+  static listPermissions(_req: AuthenticatedRequest, res: Response) {
+    res.json({ resources: PERMISSION_RESOURCES });
+  }
+
   /**
    * List all API keys for the authenticated user
    * @route GET /api/keys
@@ -81,9 +81,49 @@ import promptHistoryRouter from './routes/prompt-history.routes';
 import unifiedWorkspaceRouter from './routes/unified-workspace.routes';
 import mcpRouter from './routes/mcp.routes';
 import oauthMcpRouter from './routes/oauth-mcp.routes';
-import { getBaseUrl } from './services/oauth-mcp.service';
+import {
+  getBaseUrl,
+  isOAuthAccessToken,
+  validateAccessToken,
+} from './services/oauth-mcp.service';
+import oauthClientsRouter from './routes/oauth-clients.routes';
 import uiStateRouter from './routes/ui-state.routes';
 import { inviteRouter } from './routes/invite.routes';
+import llmProviderRouter from './routes/llm-provider.routes';
+import scheduledJobRouter from './routes/scheduled-job.routes';
+import delegationRouter from './routes/delegation.routes';
+import workflowRouter from './routes/workflow.routes';
+import budgetRouter from './routes/budget.routes';
+import speechRouter from './routes/speech.routes';
+import {
+  startWorkflowRuntime,
+  stopWorkflowRuntime,
+} from './services/workflow/workflow.service';
+import { startScheduler, stopScheduler } from './services/scheduler.service';
+import {
+  startInboxEscalation,
+  stopInboxEscalation,
+} from './services/inbox.service';
+import {
+  startDelegationRecovery,
+  stopDelegationRecovery,
+} from './services/delegation.service';
+import webhookRouter from './routes/webhook.routes';
+import {
+  startWebhookDispatcher,
+  stopWebhookDispatcher,
+} from './services/webhook.service';
+import inboundTriggerRouter from './routes/inbound-trigger.routes';
+import evalRouter from './routes/eval.routes';
+import inboundHookRouter from './routes/inbound-hook.routes';
+import { captureRawBody } from './middleware/raw-body.middleware';
+import {
+  requirePermission,
+  requireResourcePermission,
+  requireWorkspacePermission,
+  requireAnyWorkspacePermission,
+} from './middleware/permission.middleware';
+import twilioMessagingRouter from './routes/omni_channel/omni.twilio.messaging.routes';
 
 // Read package.json at startup
 let packageJson: { version: string; name: string };
@@ -105,8 +145,10 @@ const server = http.createServer(app);
 // Initialize WebSocket service
 const io = initializeWebSocket(server);
 
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
-app.use(express.json({ limit: '50mb' }));
+app.use(
+  express.urlencoded({ extended: true, limit: '50mb', verify: captureRawBody }),
+);
+app.use(express.json({ limit: '50mb', verify: captureRawBody }));
 app.use(cors());
 
 // Apply rate limiting globally for API key requests
@@ -132,6 +174,8 @@ import compression from 'compression'; // Added for SSE Step 2
 // Public routes
 app.use('/auth', authRouter);
 app.use('/policy', policyRouter);
+app.use('/hooks', inboundHookRouter); // Inbound triggers, verified per trigger
+app.use('/omni/twilio', twilioMessagingRouter); // Verified by Twilio signature
 
 // OAuth endpoints for MCP - public (no auth required)
 app.use('/', oauthMcpRouter);
@@ -163,28 +207,154 @@ app.use('/assistant/user-input', (req, res, next) => {
 // Routes that require company-specific access
 // Note: Specific routes must come before generic /api route
 app.use('/assistant', verifyTokenMiddleware, verifyAccess(), assistantRouter);
-app.use('/company', verifyTokenMiddleware, verifyAccess(), companyRouter);
-app.use('/user', verifyTokenMiddleware, verifyAccess(), userRouter);
+app.use(
+  '/company',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('company'),
+  companyRouter,
+);
+app.use(
+  '/user',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('company'),
+  userRouter,
+);
 // Removed redundant file/content routes - using unified file manager only
-app.use('/inbox', verifyTokenMiddleware, verifyAccess(), inboxRouter);
-app.use('/action', verifyTokenMiddleware, verifyAccess(), actionRouter);
-app.use('/session', verifyTokenMiddleware, verifyAccess(), sessionRouter);
-app.use('/files', verifyTokenMiddleware, verifyAccess(), filesRouter); // Unified file management
-app.use('/api/keys', verifyTokenMiddleware, verifyAccess(), apiKeyRouter); // API key management (before generic /api)
+app.use(
+  '/inbox',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('inbox'),
+  inboxRouter,
+);
+app.use(
+  '/action',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('integrations', 'manage'),
+  actionRouter,
+);
+app.use(
+  '/session',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('sessions'),
+  sessionRouter,
+);
+app.use(
+  '/files',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireWorkspacePermission(),
+  filesRouter,
+); // Unified file management
+app.use(
+  '/api/keys',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requirePermission('keys:manage'),
+  apiKeyRouter,
+); // API key management (before generic /api)
+app.use(
+  '/api/oauth/clients',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requirePermission('keys:manage'),
+  oauthClientsRouter,
+); // Authorized MCP clients (before generic /api)
 app.use(
   '/api/costs',
   verifyTokenMiddleware,
   verifyAccess(),
+  requireResourcePermission('costs'),
   costTrackingRouter,
 ); // Cost tracking (before generic /api)
 app.use(
   '/api/workspace',
   verifyTokenMiddleware,
   verifyAccess(),
+  requireAnyWorkspacePermission(),
   unifiedWorkspaceRouter,
 ); // Unified Workspace (before generic /api)
-app.use('/api/ui-state', verifyTokenMiddleware, verifyAccess(), uiStateRouter); // UI State tracking (before generic /api)
-app.use('/api/invites', verifyTokenMiddleware, verifyAccess(), inviteRouter); // User invite system
+app.use(
+  '/api/ui-state',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('sessions'),
+  uiStateRouter,
+); // UI State tracking (before generic /api)
+app.use(
+  '/api/invites',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('company'),
+  inviteRouter,
+); // User invite system
+app.use(
+  '/api/llm-providers',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('company'),
+  llmProviderRouter,
+); // Custom LLM provider registry (before generic /api)
+app.use(
+  '/api/scheduled-jobs',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('schedules'),
+  scheduledJobRouter,
+); // Scheduled agent runs (before generic /api)
+app.use(
+  '/api/delegations',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('sessions'),
+  delegationRouter,
+); // Agent-to-agent delegation trees (before generic /api)
+app.use(
+  '/api/workflows',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('workflows'),
+  workflowRouter,
+); // Declarative multi-step workflows (before generic /api)
+app.use(
+  '/api/budgets',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('budgets'),
+  budgetRouter,
+); // Spend budgets and limits (before generic /api)
+app.use(
+  '/api/speech',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('sessions'),
+  speechRouter,
+); // Speech-to-text (before generic /api)
+app.use(
+  '/api/webhooks',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('webhooks'),
+  webhookRouter,
+); // Outbound webhooks (before generic /api)
+app.use(
+  '/api/triggers',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('triggers'),
+  inboundTriggerRouter,
+); // Inbound webhook triggers (before generic /api)
+app.use(
+  '/api/evals',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('evals'),
+  evalRouter,
+); // Eval suites (before generic /api)
 // MCP Server - custom auth that attempts to authenticate but doesn't block on failure
 // The MCP handler returns proper JSON-RPC format 401 errors itself
 app.use(
@@ -217,12 +387,24 @@ app.use(
           if (result) {
             (req as any).user = result.user;
             (req as any).company = result.company;
+            (req as any).apiKeyId = result.apiKeyDoc._id;
+            (req as any).isApiKeyAuth = true;
+            (req as any).apiKeyPermissions = result.apiKeyDoc.permissions || [];
+          }
+        } else if (isOAuthAccessToken(authHeader.substring(7))) {
+          // OAuth access token, scoped like an API key
+          const result = await validateAccessToken(authHeader.substring(7));
+          if (result) {
+            (req as any).user = result.user;
+            (req as any).company = result.company;
+            (req as any).apiKeyId = result.apiKeyId;
+            (req as any).isApiKeyAuth = true;
+            (req as any).apiKeyPermissions = result.permissions;
           }
         } else {
           // Try JWT auth
-          const { extractTokenFromHeader, verifyToken } = await import(
-            './services/token.service'
-          );
+          const { extractTokenFromHeader, verifyToken } =
+            await import('./services/token.service');
           const token = extractTokenFromHeader(authHeader);
           const { user, company } = await verifyToken(token);
           if (user && company) {
@@ -239,17 +421,42 @@ app.use(
   mcpRouter,
 ); // MCP Server (before generic /api)
 app.use('/api', verifyTokenMiddleware, verifyAccess(), verificationRouter);
-app.use('/onboarding', verifyTokenMiddleware, verifyAccess(), onboardingRouter);
+app.use(
+  '/onboarding',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('company'),
+  onboardingRouter,
+);
 // Removed content and content-type routes - using unified workspace only
 app.use(
   '/integrations',
   verifyTokenMiddleware,
   verifyAccess(),
+  requireResourcePermission('integrations', 'manage'),
   integrationRouter,
 );
-app.use('/teams', verifyTokenMiddleware, verifyAccess(), teamRouter);
-app.use('/workspace', verifyTokenMiddleware, verifyAccess(), workspaceRouter); // Now requires authentication (was public, but not used by frontend)
-app.use('/memory', verifyTokenMiddleware, verifyAccess(), memoryRouter); // Added memory router
+app.use(
+  '/teams',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireResourcePermission('company'),
+  teamRouter,
+);
+app.use(
+  '/workspace',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireWorkspacePermission(),
+  workspaceRouter,
+); // Now requires authentication (was public, but not used by frontend)
+app.use(
+  '/memory',
+  verifyTokenMiddleware,
+  verifyAccess(),
+  requireWorkspacePermission(),
+  memoryRouter,
+); // Added memory router
 app.use('/api', verifyTokenMiddleware, verifyAccess(), promptHistoryRouter); // Prompt history
 
 // Admin-only routes - to be added later
@@ -267,12 +474,25 @@ if (process.env.NODE_ENV !== 'test') {
     logger.info(
       `WebSocket server is available at ws://localhost:${port}/realtime`,
     );
+    startScheduler();
+    startWorkflowRuntime();
+    startWebhookDispatcher();
+    startInboxEscalation();
+    startDelegationRecovery();
   });
 
   // Cleanup handlers for graceful shutdown
   const gracefulShutdown = async () => {
     logger.info('Shutting down gracefully...');
 
+    // Stop picking up scheduled jobs, workflow runs, webhook retries, inbox
+    // escalations and orphaned delegation tasks
+    stopScheduler();
+    stopWorkflowRuntime();
+    stopWebhookDispatcher();
+    stopInboxEscalation();
+    stopDelegationRecovery();
+
     // Cleanup OpenAI Code Executor resources
     // TODO: Re-enable when openai-code-execution.service is implemented
     // try {
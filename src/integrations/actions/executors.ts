@@ -5,8 +5,13 @@ import {
   ActionContext,
   FunctionCall,
   ActionInfo,
+  ActionMessageStatus,
   ExecutionDetails,
 } from './types';
+import {
+  isApprovalRequired,
+  requestActionApproval,
+} from '../../services/action-approval.service';
 import { processTemplate } from '../../services/template.service';
 import { discoverActionById } from '../../services/integration.service';
 import {
@@ -31,7 +36,7 @@ const isValidObjectId = (id: string): boolean => {
 
 const sendActionUpdate = async (
   sessionId: string,
-  status: 'started' | 'completed' | 'failed',
+  status: ActionMessageStatus,
   executionDetails: ExecutionDetails,
 ) => {
   // Send via Pusher only - this ensures consistent format with messages endpoint
@@ -57,13 +62,18 @@ interface ActionResult {
   error?: string;
 }
 
+export interface ExecuteOptions {
+  skipApproval?: boolean; // The call was already approved by a human
+  executionId?: string; // Reuse an existing action message id
+}
+
 const prepareActionExecution = async (
   functionName: string,
   args: Record<string, unknown>,
   sessionId: string,
   sessionLanguage: SupportedLanguage,
+  executionId: string = uuidv4(),
 ): Promise<PreparedAction> => {
-  const executionId = uuidv4();
   const convertedActionId = convertOpenAIFunctionName(functionName);
   const actionInfo = await discoverActionById(
     convertedActionId,
@@ -108,11 +118,13 @@ const prepareActionExecution = async (
 /**
  * Execute a function call with an explicit ActionContext.
  * This is the primary execution path - context is passed directly, no session lookup needed.
+ * Actions that require approval are paused and return a pending_approval result instead.
  */
 export const executeFunctionCallWithContext = async (
   call: FunctionCall,
   context: ActionContext,
   allowedActions: string[],
+  options: ExecuteOptions = {},
 ): Promise<{ result?: unknown; error?: DetailedError }> => {
   console.log(
     `[executeFunctionCallWithContext] Starting execution with context:`,
@@ -171,6 +183,7 @@ export const executeFunctionCallWithContext = async (
           args,
           activeSessionId,
           sessionLanguage,
+          options.executionId,
         );
 
       const input = Object.keys(processedArgs).length > 0 ? processedArgs : {};
@@ -188,6 +201,20 @@ export const executeFunctionCallWithContext = async (
         input,
       };
 
+      if (
+        !options.skipApproval &&
+        (await isApprovalRequired(convertedActionId, context))
+      ) {
+        if (context.isStateless) {
+          return {
+            result: `Error: ${convertedActionId} requires human approval, which is not available in stateless execution`,
+          };
+        }
+        return {
+          result: await requestActionApproval(call, context, executionDetails),
+        };
+      }
+
       // Only send Pusher updates for non-stateless sessions
       if (!context.isStateless) {
         console.log(
@@ -1,8 +1,9 @@
 import { Message } from '../../models/Message';
 import { publishSessionMessage } from '../../services/session-messaging.service';
-import { ExecutionDetails } from './types';
+import { ActionMessageStatus, ExecutionDetails } from './types';
 import { Session } from '../../models/Session';
 import mongoose from 'mongoose';
+import { emitWebhookEvent } from '../../services/webhook.service';
 
 const generateMessageId = (): string => {
   return `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -88,7 +89,7 @@ const truncateForPusher = (data: any, maxSize: number = 4000): any => {
 
 export const publishActionMessage = async (
   sessionId: string,
-  status: 'started' | 'completed' | 'failed',
+  status: ActionMessageStatus,
   executionDetails: ExecutionDetails,
 ): Promise<void> => {
   try {
@@ -146,6 +147,20 @@ export const publishActionMessage = async (
       `Action message saved with ID: ${actionMessage._id}, messageType: ${actionMessage.messageType}`,
     );
 
+    if (status === 'started' || status === 'completed' || status === 'failed') {
+      emitWebhookEvent(
+        session.companyId,
+        `action.${status}`,
+        {
+          sessionId,
+          assistantId: session.assistantId?.toString(),
+          userId: session.userId?.toString(),
+          ...messageData,
+        },
+        session.assistantId,
+      );
+    }
+
     // Create the complete message structure with truncated data for Pusher
     // Also truncate input if it's too large
     const truncatedMessageData = {
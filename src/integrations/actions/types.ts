@@ -52,6 +52,9 @@ export interface ActionInfo {
   icon?: string;
 }
 
+export type ActionMessageStatus =
+  'started' | 'completed' | 'failed' | 'pending_approval' | 'rejected';
+
 export interface ExecutionDetails {
   id: string;
   actionId: string;
@@ -15,7 +15,14 @@ import {
   getAssistantsByTeam as getAssistantsByTeamService,
   getAssistantById as getAssistantByIdService, // Import the new service function
 } from './assistant.service';
+import {
+  cancelDelegationTask,
+  createDelegationTask,
+  getCurrentDelegationTaskId,
+  waitForDelegationTask,
+} from '../../services/delegation.service';
 import { IAssistant, IIdentifier } from '../../models/Assistant';
+import { IDelegationTask } from '../../models/DelegationTask';
 import { ITeam } from '../../models/Team';
 
 // Define data types for StandardActionResult payloads
@@ -28,9 +35,27 @@ type AskAssistantData = any;
 type GetTeamsData = ITeam[];
 type GetAssistantsByTeamData = Partial<IAssistant>[] | IAssistant[];
 type GetAssistantByIdData = IAssistant; // New data type for getAssistantById
+type DelegationResultData = ReturnType<typeof toDelegationResult>;
 
 const ASSISTANT_SERVICE_NAME = 'AssistantService';
 
+// Longest an action blocks waiting for a delegated task
+const MAX_DELEGATION_WAIT_SECONDS = 120;
+
+const toDelegationResult = (task: IDelegationTask) => ({
+  task_id: task._id.toString(),
+  assistant_id: task.assistantId.toString(),
+  title: task.title,
+  status: task.status,
+  output: task.output,
+  output_text: task.output === undefined ? task.outputText : undefined,
+  error: task.error,
+  cost: task.cost,
+});
+
+const waitSeconds = (seconds?: number) =>
+  Math.min(Math.max(seconds || 0, 0), MAX_DELEGATION_WAIT_SECONDS) * 1000;
+
 const createAssistantActions = (context: ActionContext): FunctionFactory => ({
   getAssistants: {
     description:
@@ -267,8 +292,8 @@ const createAssistantActions = (context: ActionContext): FunctionFactory => ({
         },
         llm_provider: {
           type: 'string',
-          enum: ['openai', 'google', 'anthropic'],
-          description: 'AI provider for the model',
+          description:
+            'AI provider for the model: "openai", "google", "anthropic", or the key of a custom provider registered by the company',
         },
         llm_prompt: {
           type: 'string',
@@ -286,7 +311,7 @@ const createAssistantActions = (context: ActionContext): FunctionFactory => ({
       name?: string;
       description?: string;
       llm_model?: string;
-      llm_provider?: 'openai' | 'google' | 'anthropic';
+      llm_provider?: string;
       llm_prompt?: string;
     }): Promise<StandardActionResult<UpdateAssistantData>> => {
       const { assistant_id, ...updateData } = params;
@@ -370,6 +395,196 @@ const createAssistantActions = (context: ActionContext): FunctionFactory => ({
     },
   },
 
+  delegateTask: {
+    description:
+      'Delegate a task to another assistant and run it in the background. Pass structured input and, to get JSON back, an output JSON schema; the result is validated against it. A budget (cost, tokens, time) caps the task and anything it delegates further. Returns a task_id to poll with getDelegationResult, or waits up to wait_seconds for the result.',
+    parameters: {
+      type: 'object',
+      properties: {
+        assistant_id: {
+          type: 'string',
+          description: 'The unique identifier of the assistant to delegate to',
+          pattern: '^[a-f0-9]{24}$',
+        },
+        title: {
+          type: 'string',
+          description: 'Short name for the task, shown in the delegation tree',
+          maxLength: 200,
+        },
+        instructions: {
+          type: 'string',
+          description:
+            'What the assistant should do. Be specific about the expected result.',
+          minLength: 1,
+        },
+        input: {
+          type: 'object',
+          description: 'Structured data the assistant needs for the task',
+        },
+        output_schema: {
+          type: 'object',
+          description:
+            'JSON schema the result must match (e.g. {"type":"object","properties":{"summary":{"type":"string"}},"required":["summary"]})',
+        },
+        max_cost: {
+          type: 'number',
+          description: 'Maximum spend in USD for the task and its sub-tasks',
+        },
+        max_tokens: {
+          type: 'number',
+          description: 'Maximum tokens for the task and its sub-tasks',
+        },
+        timeout_seconds: {
+          type: 'number',
+          description: 'Maximum run time in seconds (default 300)',
+        },
+        wait_seconds: {
+          type: 'number',
+          description: `Seconds to wait for the result before returning (0-${MAX_DELEGATION_WAIT_SECONDS}, default 0)`,
+          default: 0,
+        },
+      },
+      required: ['assistant_id', 'instructions'],
+      additionalProperties: false,
+    },
+    function: async (args: {
+      assistant_id: string;
+      title?: string;
+      instructions: string;
+      input?: Record<string, unknown>;
+      output_schema?: Record<string, unknown>;
+      max_cost?: number;
+      max_tokens?: number;
+      timeout_seconds?: number;
+      wait_seconds?: number;
+    }): Promise<StandardActionResult<DelegationResultData>> => {
+      return executeAction<DelegationResultData>(
+        'delegateTask',
+        async () => {
+          let task = await createDelegationTask(
+            context.companyId,
+            {
+              assistantId: args.assistant_id,
+              title: args.title,
+              instructions: args.instructions,
+              input: args.input,
+              outputSchema: args.output_schema,
+              budget: {
+                maxCost: args.max_cost,
+                maxTokens: args.max_tokens,
+                timeoutMs: args.timeout_seconds
+                  ? args.timeout_seconds * 1000
+                  : undefined,
+              },
+              sessionId: context.isStateless ? undefined : context.sessionId,
+              parentAssistantId: context.assistantId,
+              parentTaskId: getCurrentDelegationTaskId(),
+            },
+            context.userId,
+          );
+          if (args.wait_seconds) {
+            task = await waitForDelegationTask(
+              context.companyId,
+              task._id.toString(),
+              waitSeconds(args.wait_seconds),
+            );
+          }
+          return { success: true, data: toDelegationResult(task) };
+        },
+        {
+          serviceName: ASSISTANT_SERVICE_NAME,
+          successMessage: 'Task delegated successfully.',
+          dataExtractor: (result) => result.data,
+        },
+      );
+    },
+  },
+
+  getDelegationResult: {
+    description:
+      'Get the status and result of a task started with delegateTask, optionally waiting up to wait_seconds for it to finish. Statuses: queued, running, succeeded, failed, cancelled, budget_exceeded.',
+    parameters: {
+      type: 'object',
+      properties: {
+        task_id: {
+          type: 'string',
+          description: 'The task_id returned by delegateTask',
+          pattern: '^[a-f0-9]{24}$',
+        },
+        wait_seconds: {
+          type: 'number',
+          description: `Seconds to wait for the task to finish (0-${MAX_DELEGATION_WAIT_SECONDS}, default 0)`,
+          default: 0,
+        },
+      },
+      required: ['task_id'],
+      additionalProperties: false,
+    },
+    function: async ({
+      task_id,
+      wait_seconds,
+    }: {
+      task_id: string;
+      wait_seconds?: number;
+    }): Promise<StandardActionResult<DelegationResultData>> => {
+      return executeAction<DelegationResultData>(
+        'getDelegationResult',
+        async () => ({
+          success: true,
+          data: toDelegationResult(
+            await waitForDelegationTask(
+              context.companyId,
+              task_id,
+              waitSeconds(wait_seconds),
+            ),
+          ),
+        }),
+        {
+          serviceName: ASSISTANT_SERVICE_NAME,
+          successMessage: 'Delegation result retrieved successfully.',
+          dataExtractor: (result) => result.data,
+        },
+      );
+    },
+  },
+
+  cancelDelegation: {
+    description:
+      'Cancel a task started with delegateTask, together with any tasks it delegated that have not finished.',
+    parameters: {
+      type: 'object',
+      properties: {
+        task_id: {
+          type: 'string',
+          description: 'The task_id returned by delegateTask',
+          pattern: '^[a-f0-9]{24}$',
+        },
+      },
+      required: ['task_id'],
+      additionalProperties: false,
+    },
+    function: async ({
+      task_id,
+    }: {
+      task_id: string;
+    }): Promise<StandardActionResult<DelegationResultData>> => {
+      return executeAction<DelegationResultData>(
+        'cancelDelegation',
+        async () => ({
+          success: true,
+          data: toDelegationResult(
+            await cancelDelegationTask(context.companyId, task_id),
+          ),
+        }),
+        {
+          serviceName: ASSISTANT_SERVICE_NAME,
+          successMessage: 'Delegated task cancelled.',
+          dataExtractor: (result) => result.data,
+        },
+      );
+    },
+  },
+
   listTeams: {
     description:
       'Retrieve all teams within your company. Teams are used to organize assistants into groups. Returns an array of team objects with their IDs and names.',
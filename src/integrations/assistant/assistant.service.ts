@@ -115,7 +115,7 @@ export const updateAssistantById = async (
     name?: string;
     description?: string;
     llmModel?: string;
-    llmProvider?: 'openai' | 'google' | 'anthropic';
+    llmProvider?: string;
     llmPrompt?: string;
   },
 ): Promise<{ success: boolean; description: string; data?: any }> => {
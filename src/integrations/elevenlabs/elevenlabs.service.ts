@@ -49,10 +49,13 @@ export const generateAudio = async (
   }
 };
 
-export const generateSpeech = async (
+/**
+ * Speak text as MP3 audio, without uploading it
+ */
+export const synthesizeSpeech = async (
   config: ElevenLabsConfig,
-  options: GenerateSpeechOptions,
-): Promise<string> => {
+  options: Omit<GenerateSpeechOptions, 'filename'>,
+): Promise<Buffer> => {
   const {
     text,
     voiceId = '21m00Tcm4TlvDq8ikWAM', // Default voice - Rachel
@@ -61,28 +64,32 @@ export const generateSpeech = async (
 
   const client = new ElevenLabsClient({ apiKey: config.apiKey });
 
-  try {
-    // Changed to use client.textToSpeech.stream() based on common SDK patterns
-    // and persistent errors with client.generate()
-    const audioStream = await client.textToSpeech.stream(voiceId, {
-      text,
-      modelId: modelId, // Corrected from model_id to modelId
-      voiceSettings: {
-        // Corrected from voice_settings to voiceSettings
-        stability: 0.5,
-        similarityBoost: 0.5, // Corrected from similarity_boost to similarityBoost
-      },
-    });
+  // Changed to use client.textToSpeech.stream() based on common SDK patterns
+  // and persistent errors with client.generate()
+  const audioStream = await client.textToSpeech.stream(voiceId, {
+    text,
+    modelId: modelId, // Corrected from model_id to modelId
+    voiceSettings: {
+      // Corrected from voice_settings to voiceSettings
+      stability: 0.5,
+      similarityBoost: 0.5, // Corrected from similarity_boost to similarityBoost
+    },
+  });
 
-    // The SDK returns a ReadableStream, we need to convert it to a buffer then base64
-    const chunks = [];
-    for await (const chunk of audioStream as any) {
-      // Corrected typo: audio -> audioStream
-      chunks.push(chunk);
-    }
-    const buffer = Buffer.concat(chunks);
-    // const audioBase64 = buffer.toString('base64');
-    // const audioUrl = `data:audio/mpeg;base64,${audioBase64}`; // We will upload instead
+  // The SDK returns a ReadableStream, we need to convert it to a buffer
+  const chunks = [];
+  for await (const chunk of audioStream as any) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+export const generateSpeech = async (
+  config: ElevenLabsConfig,
+  options: GenerateSpeechOptions,
+): Promise<string> => {
+  try {
+    const buffer = await synthesizeSpeech(config, options);
 
     const fileName = options.filename
       ? `${options.filename}.mp3`
@@ -12,7 +12,7 @@ export const createFileProcessingActions = (
 ): FunctionFactory => ({
   processFile: {
     description:
-      'Processes a file and returns its content. Supports text files and Excel spreadsheets. For external files, use the full HTTP/HTTPS URL exactly as provided (e.g., http://localhost:3004/file.csv). For uploaded files in the system, use just the filename.',
+      'Processes a file and returns its content. Supports PDF, Word (DOCX), PowerPoint (PPTX), HTML, Markdown and text files, which are converted to text with page/section markers and markdown tables, and Excel spreadsheets. For external files, use the full HTTP/HTTPS URL exactly as provided (e.g., http://localhost:3004/file.csv). For uploaded files in the system, use just the filename.',
     parameters: {
       type: 'object',
       properties: {
@@ -24,14 +24,17 @@ export const createFileProcessingActions = (
         fileType: {
           type: 'string',
           description:
-            'The type of file to process. Currently supports "text" and "excel". Defaults to "text".',
-          enum: ['text', 'excel'],
+            'How to process the file. "document" detects PDF, DOCX, PPTX, HTML, Markdown or text and extracts structured text, "text" returns the raw content and "excel" reads spreadsheets. Defaults to "document".',
+          enum: ['document', 'text', 'excel'],
         },
       },
       required: ['url'],
       additionalProperties: false,
     },
-    function: async (params: { url: string; fileType?: 'text' | 'excel' }) => {
+    function: async (params: {
+      url: string;
+      fileType?: 'text' | 'excel' | 'document';
+    }) => {
       const actionName = 'processFile';
 
       if (!params.url) {
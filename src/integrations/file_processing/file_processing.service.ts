@@ -1,10 +1,14 @@
 import { downloadFile } from '../../services/file-downloader.service';
 import { getWorkspaceService } from '../../services/unified-workspace.service';
 import xlsx from 'node-xlsx';
+import {
+  DocumentFormat,
+  extractDocument,
+} from '../../services/document-extraction/document-extractor';
 
 export interface ProcessFileRequest {
   url: string;
-  fileType?: 'text' | 'excel';
+  fileType?: 'text' | 'excel' | 'document';
 }
 
 export interface ProcessFileResponse {
@@ -14,6 +18,11 @@ export interface ProcessFileResponse {
   metadata?: {
     totalSheets?: number;
     totalRows?: number;
+    format?: DocumentFormat;
+    title?: string;
+    pageCount?: number;
+    sectionCount?: number;
+    tableCount?: number;
   };
 }
 
@@ -82,19 +91,22 @@ export const processFile = async (
     } else {
       // Download from HTTP/HTTPS URL
       fileBuffer = await downloadFile(request.url);
+      filename = new URL(request.url).pathname;
     }
 
     // Process based on file type
     if (request.fileType === 'excel') {
       return processExcelFile(fileBuffer, filename);
-    } else {
-      // Default to text processing
+    } else if (request.fileType === 'text') {
       const content = fileBuffer.toString('utf-8');
       const response: ProcessFileResponse = {
         content,
         size: fileBuffer.length,
       };
       return { success: true, data: response };
+    } else {
+      // Default to document extraction, which also handles plain text
+      return processDocumentFile(fileBuffer, filename);
     }
   } catch (error: any) {
     console.error('Error in processFile:', error);
@@ -108,6 +120,35 @@ export const processFile = async (
 
 // Removed downloadContentFileBuffer - now using file-manager service directly
 
+/**
+ * Extracts structured text from PDF, DOCX, PPTX, HTML, Markdown or plain
+ * text files
+ */
+async function processDocumentFile(
+  buffer: Buffer,
+  filename: string,
+): Promise<{
+  success: boolean;
+  data?: ProcessFileResponse;
+  error?: string;
+}> {
+  const document = await extractDocument(buffer, { fileName: filename });
+
+  const response: ProcessFileResponse = {
+    content: document.text,
+    size: buffer.length,
+    metadata: {
+      format: document.format,
+      title: document.metadata.title,
+      pageCount: document.metadata.pageCount,
+      sectionCount: document.sections.length,
+      tableCount: document.tables.length,
+    },
+  };
+
+  return { success: true, data: response };
+}
+
 /**
  * Processes an Excel file and converts it to text format
  */
@@ -50,7 +50,8 @@ export const createSessionQueryActions = (
         },
         messageType: {
           type: 'string',
-          description: 'Filter by message type (e.g., "text", "tool_calls")',
+          description:
+            'Filter by message type (e.g., "text", "tool_calls", "summary" for rolling conversation summaries)',
         },
         includeToolCalls: {
           type: 'boolean',
@@ -115,6 +116,7 @@ export const createSessionQueryActions = (
             : msg.data
               ? { ...msg.data, tool_calls: undefined }
               : undefined,
+          toolParts: includeToolCalls ? msg.toolParts : undefined,
         }));
 
         logger.info(
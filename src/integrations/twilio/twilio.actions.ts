@@ -0,0 +1,138 @@
+import {
+  ActionContext,
+  FunctionFactory,
+  StandardActionResult,
+} from '../actions/types';
+import {
+  sendTwilioMessage,
+  fetchTwilioAccount,
+  TwilioChannel,
+} from './twilio.service';
+import { executeAction } from '../actions/executor';
+import { ActionValidationError } from '../../utils/actionErrors';
+import { TestConnectionResult } from '../../services/integration-config.service';
+
+/**
+ * Validate Twilio credentials by fetching the account
+ */
+export async function validateConnection(
+  apiKeys: Record<string, string>,
+): Promise<TestConnectionResult> {
+  const accountSid = apiKeys.twilio_account_sid;
+  const authToken = apiKeys.twilio_auth_token;
+
+  if (!accountSid || !authToken) {
+    return {
+      success: false,
+      error: 'Twilio account SID and auth token are required',
+    };
+  }
+
+  try {
+    const account = await fetchTwilioAccount(accountSid, authToken);
+    return {
+      success: true,
+      message: `Connected to Twilio account ${account.friendly_name || accountSid}`,
+    };
+  } catch (error: any) {
+    if (error.response?.status === 401) {
+      return {
+        success: false,
+        error:
+          'Invalid credentials. Please check your Account SID and Auth Token.',
+      };
+    }
+    return {
+      success: false,
+      error:
+        error.response?.data?.message ||
+        error.message ||
+        'Failed to connect to Twilio',
+    };
+  }
+}
+
+interface SendMessageArgs {
+  to: string;
+  body: string;
+  channel?: TwilioChannel;
+}
+
+// R type for StandardActionResult<R>
+interface SendMessageResponseData {
+  messageSids: string[];
+}
+
+// S type for serviceCall lambda's response
+interface ServiceCallLambdaResponse {
+  success: boolean;
+  data: SendMessageResponseData;
+}
+
+const SERVICE_NAME = 'twilioService';
+const E164_REGEX = /^\+[1-9]\d{6,14}$/;
+
+export const createTwilioActions = (
+  context: ActionContext,
+): FunctionFactory => ({
+  sendMessage: {
+    description: 'Send an SMS or WhatsApp message using Twilio',
+    strict: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        to: {
+          type: 'string',
+          description:
+            'The recipient phone number in E.164 format (e.g. +15551234567)',
+        },
+        body: {
+          type: 'string',
+          description: 'The message text',
+        },
+        channel: {
+          type: 'string',
+          enum: ['sms', 'whatsapp'],
+          description: 'Channel to send on. Default: sms',
+        },
+      },
+      required: ['to', 'body', 'channel'],
+      additionalProperties: false,
+    },
+    function: async (
+      args: SendMessageArgs,
+    ): Promise<StandardActionResult<SendMessageResponseData>> => {
+      const { to, body, channel = 'sms' } = args;
+
+      if (!context.companyId) {
+        throw new ActionValidationError('Company ID is missing from context.');
+      }
+      if (typeof to !== 'string' || !E164_REGEX.test(to)) {
+        throw new ActionValidationError(
+          'The recipient must be a phone number in E.164 format.',
+        );
+      }
+      if (typeof body !== 'string' || body.trim().length === 0) {
+        throw new ActionValidationError(
+          'The message body must be a non-empty string.',
+        );
+      }
+      if (channel !== 'sms' && channel !== 'whatsapp') {
+        throw new ActionValidationError('The channel must be sms or whatsapp.');
+      }
+
+      return executeAction<SendMessageResponseData, ServiceCallLambdaResponse>(
+        'sendMessage',
+        async (): Promise<ServiceCallLambdaResponse> => {
+          const messageSids = await sendTwilioMessage(context.companyId!, {
+            to,
+            body,
+            channel,
+          });
+          return { success: true, data: { messageSids } };
+        },
+        { serviceName: SERVICE_NAME },
+      );
+    },
+  },
+});
@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { getApiKey } from '../../services/api.key.service';
+
+// Overridable so the messaging flow can run against a mock Twilio server
+const getTwilioApiBaseUrl = () =>
+  process.env.TWILIO_API_BASE_URL || 'https://api.twilio.com';
+
+// Twilio rejects message bodies longer than this
+export const MAX_MESSAGE_LENGTH = 1600;
+
+export type TwilioChannel = 'sms' | 'whatsapp';
+
+export interface TwilioCredentials {
+  accountSid: string;
+  authToken: string;
+  phoneNumber?: string;
+  whatsappNumber?: string;
+}
+
+export interface SendTwilioMessageParams {
+  to: string; // E.164 number, without the whatsapp: prefix
+  body: string;
+  channel: TwilioChannel;
+  mediaUrls?: string[];
+}
+
+export const getTwilioCredentials = async (
+  companyId: string,
+): Promise<TwilioCredentials> => {
+  const [accountSid, authToken, phoneNumber, whatsappNumber] =
+    await Promise.all([
+      getApiKey(companyId, 'twilio_account_sid'),
+      getApiKey(companyId, 'twilio_auth_token'),
+      getApiKey(companyId, 'twilio_phone_number'),
+      getApiKey(companyId, 'twilio_whatsapp_number'),
+    ]);
+
+  if (!accountSid || !authToken) {
+    throw new Error('Twilio account SID and auth token are not configured');
+  }
+
+  return {
+    accountSid,
+    authToken,
+    phoneNumber: phoneNumber || undefined,
+    whatsappNumber: whatsappNumber || undefined,
+  };
+};
+
+/**
+ * Compute the X-Twilio-Signature for a webhook request: HMAC-SHA1 over the
+ * full URL followed by the POST params sorted by name, base64 encoded.
+ */
+export const computeTwilioSignature = (
+  authToken: string,
+  url: string,
+  params: Record<string, unknown>,
+): string => {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => {
+      const value = params[key];
+      const values = Array.isArray(value) ? value : [value];
+      return acc + values.map((v) => `${key}${v ?? ''}`).join('');
+    }, url);
+
+  return crypto.createHmac('sha1', authToken).update(data).digest('base64');
+};
+
+export const validateTwilioSignature = (
+  authToken: string,
+  signature: string | undefined,
+  url: string,
+  params: Record<string, unknown>,
+): boolean => {
+  if (!signature) {
+    return false;
+  }
+  const expected = Buffer.from(computeTwilioSignature(authToken, url, params));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  );
+};
+
+/**
+ * Split text into chunks Twilio accepts, preferring paragraph, line and
+ * word boundaries
+ */
+export const splitMessageBody = (
+  body: string,
+  maxLength: number = MAX_MESSAGE_LENGTH,
+): string[] => {
+  const chunks: string[] = [];
+  let remaining = body.trim();
+
+  while (remaining.length > maxLength) {
+    const window = remaining.slice(0, maxLength);
+    const breakAt = Math.max(
+      window.lastIndexOf('\n\n'),
+      window.lastIndexOf('\n'),
+      window.lastIndexOf(' '),
+    );
+    const cut = breakAt > maxLength / 2 ? breakAt : maxLength;
+    chunks.push(remaining.slice(0, cut).trim());
+    remaining = remaining.slice(cut).trim();
+  }
+
+  if (remaining) {
+    chunks.push(remaining);
+  }
+  return chunks;
+};
+
+const toAddress = (number: string, channel: TwilioChannel) =>
+  channel === 'whatsapp' ? `whatsapp:${number}` : number;
+
+/**
+ * Send an SMS or WhatsApp message through the Twilio REST API. Long bodies
+ * are sent as several messages; media is attached to the first one.
+ * Returns the Twilio message SIDs.
+ */
+export const sendTwilioMessage = async (
+  companyId: string,
+  params: SendTwilioMessageParams,
+): Promise<string[]> => {
+  const credentials = await getTwilioCredentials(companyId);
+  const from =
+    params.channel === 'whatsapp'
+      ? credentials.whatsappNumber
+      : credentials.phoneNumber;
+  if (!from) {
+    throw new Error(`No Twilio ${params.channel} sender number is configured`);
+  }
+
+  const chunks = splitMessageBody(params.body);
+  if (chunks.length === 0 && !params.mediaUrls?.length) {
+    throw new Error('Message body is empty');
+  }
+
+  const url = `${getTwilioApiBaseUrl()}/2010-04-01/Accounts/${credentials.accountSid}/Messages.json`;
+  const sids: string[] = [];
+
+  for (let i = 0; i < Math.max(chunks.length, 1); i++) {
+    const form = new URLSearchParams({
+      From: toAddress(from, params.channel),
+      To: toAddress(params.to, params.channel),
+    });
+    if (chunks[i]) {
+      form.append('Body', chunks[i]);
+    }
+    if (i === 0) {
+      params.mediaUrls?.forEach((mediaUrl) =>
+        form.append('MediaUrl', mediaUrl),
+      );
+    }
+
+    const response = await axios.post(url, form.toString(), {
+      auth: {
+        username: credentials.accountSid,
+        password: credentials.authToken,
+      },
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 15000,
+    });
+    sids.push(response.data?.sid);
+  }
+
+  return sids;
+};
+
+/**
+ * Download media attached to an incoming message. Twilio media URLs may
+ * require the account credentials.
+ */
+export const downloadTwilioMedia = async (
+  credentials: TwilioCredentials,
+  mediaUrl: string,
+): Promise<Buffer> => {
+  const response = await axios.get(mediaUrl, {
+    auth: {
+      username: credentials.accountSid,
+      password: credentials.authToken,
+    },
+    responseType: 'arraybuffer',
+    maxContentLength: 20 * 1024 * 1024,
+    timeout: 30000,
+  });
+  return Buffer.from(response.data);
+};
+
+/**
+ * Check credentials by fetching the account
+ */
+export const fetchTwilioAccount = async (
+  accountSid: string,
+  authToken: string,
+): Promise<{ friendly_name?: string; status?: string }> => {
+  const response = await axios.get(
+    `${getTwilioApiBaseUrl()}/2010-04-01/Accounts/${accountSid}.json`,
+    {
+      auth: { username: accountSid, password: authToken },
+      timeout: 10000,
+    },
+  );
+  return response.data;
+};
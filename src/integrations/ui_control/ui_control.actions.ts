@@ -54,7 +54,7 @@ export const createUIControlActions = (
 
         // Get UI state to find the user
         const uiState =
-          uiSessionStateService.getUIStateBySession(targetSessionId);
+          await uiSessionStateService.getUIStateBySession(targetSessionId);
 
         if (!uiState) {
           throw new Error(
@@ -134,7 +134,7 @@ export const createUIControlActions = (
         }
 
         const uiState =
-          uiSessionStateService.getUIStateBySession(targetSessionId);
+          await uiSessionStateService.getUIStateBySession(targetSessionId);
 
         if (!uiState) {
           throw new Error(
@@ -232,7 +232,7 @@ export const createUIControlActions = (
         }
 
         const uiState =
-          uiSessionStateService.getUIStateBySession(targetSessionId);
+          await uiSessionStateService.getUIStateBySession(targetSessionId);
 
         if (!uiState) {
           throw new Error(
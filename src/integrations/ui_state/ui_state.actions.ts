@@ -46,7 +46,7 @@ export const createUIStateActions = (
 
         // Get UI state from service
         const uiState =
-          uiSessionStateService.getUIStateBySession(targetSessionId);
+          await uiSessionStateService.getUIStateBySession(targetSessionId);
 
         if (!uiState) {
           return {
@@ -118,7 +118,7 @@ export const createUIStateActions = (
         }
 
         const uiState =
-          uiSessionStateService.getUIStateBySession(targetSessionId);
+          await uiSessionStateService.getUIStateBySession(targetSessionId);
 
         if (!uiState?.openWorkspaceDocument) {
           return {
@@ -187,7 +187,7 @@ export const createUIStateActions = (
         }
 
         const uiState =
-          uiSessionStateService.getUIStateBySession(targetSessionId);
+          await uiSessionStateService.getUIStateBySession(targetSessionId);
 
         if (!uiState) {
           return {
@@ -245,7 +245,7 @@ export const createUIStateActions = (
     },
     function: async (): Promise<StandardActionResult> => {
       try {
-        const stats = uiSessionStateService.getStats();
+        const stats = await uiSessionStateService.getStats();
 
         logger.info('Retrieved UI state statistics', stats);
 
@@ -256,7 +256,7 @@ export const createUIStateActions = (
             activeUsers: stats.activeUsers,
             activeSessions: stats.activeSessions,
             listeners: stats.listeners,
-            sessions: uiSessionStateService.getActiveSessions(),
+            sessions: await uiSessionStateService.getActiveSessions(),
           },
         };
       } catch (error: any) {
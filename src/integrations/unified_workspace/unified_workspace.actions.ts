@@ -5,8 +5,15 @@ import {
 } from '../actions/types';
 import { logger } from '../../utils/logger';
 import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
-import { UnifiedWorkspaceService } from '../../services/unified-workspace.service';
+import {
+  UnifiedWorkspaceService,
+  WorkspaceVersionAuthor,
+} from '../../services/unified-workspace.service';
 import { getVectorSearchService } from '../../services/vector-search.service';
+import {
+  createWorkspaceAccessChecker,
+  WorkspacePrincipal,
+} from '../../services/workspace-acl.service';
 import { Message } from '../../models/Message';
 import mongoose from 'mongoose';
 
@@ -45,6 +52,97 @@ async function resolveAgentId(
   }
 }
 
+// Validate a scope and resolve the agent ID when the scope is agent
+async function resolveScopeAgentId(
+  scope: string,
+  agentId: string | undefined,
+  context: ActionContext,
+): Promise<string | undefined> {
+  if (scope !== 'session' && scope !== 'agent' && scope !== 'company') {
+    throw new Error('Scope must be "session", "agent", or "company"');
+  }
+  if (scope === 'company' && !context?.companyId) {
+    throw new Error('Company ID is required for company scope');
+  }
+  if (scope !== 'agent') {
+    return undefined;
+  }
+
+  // Auto-inject current assistant's ID if not provided
+  const agentIdentifier = agentId || context?.assistantId;
+  if (!agentIdentifier) {
+    throw new Error(
+      'agentId is required when scope is "agent" (or must be executing within an assistant context)',
+    );
+  }
+  const resolved = await resolveAgentId(agentIdentifier, context?.companyId);
+  if (!resolved) {
+    throw new Error(`Could not find agent with identifier: ${agentIdentifier}`);
+  }
+  return resolved;
+}
+
+// Writes made by actions are attributed to the executing assistant
+const getActionAuthor = (context: ActionContext): WorkspaceVersionAuthor =>
+  context?.assistantId
+    ? { type: 'assistant', id: context.assistantId }
+    : { type: 'user', id: context?.userId };
+
+// Workspace ACLs apply to the executing assistant, or the user without one
+const getActionPrincipal = (
+  context: ActionContext,
+): WorkspacePrincipal | undefined => {
+  if (!context?.companyId) {
+    return undefined;
+  }
+  if (context.assistantId) {
+    return {
+      type: 'assistant',
+      id: context.assistantId,
+      companyId: context.companyId,
+    };
+  }
+  return context.userId
+    ? { type: 'user', id: context.userId, companyId: context.companyId }
+    : undefined;
+};
+
+// Drop search results the caller may not read
+const filterReadableResults = async <
+  T extends { path: string; scope: string; scopeId: string },
+>(
+  results: T[],
+  context: ActionContext,
+): Promise<T[]> => {
+  const principal = getActionPrincipal(context);
+  if (!principal) {
+    return results;
+  }
+  const checker = await createWorkspaceAccessChecker(principal);
+  return checker.filter(
+    results,
+    'read',
+    (result) => `/${result.scope}/${result.scopeId}/${result.path}`,
+  );
+};
+
+const versionScopeParameters = {
+  path: {
+    type: 'string',
+    description: 'Path of the stored content',
+  },
+  scope: {
+    type: 'string',
+    enum: ['session', 'agent', 'company'],
+    description: 'Storage scope - session, agent, or company',
+  },
+  agentId: {
+    type: 'string',
+    description:
+      'Agent ID (optional - will auto-use current assistant if omitted when scope is "agent")',
+  },
+};
+
 // Helper function to get the last user message from a session
 async function getLastUserMessage(sessionId: string): Promise<{
   content?: string;
@@ -180,6 +278,8 @@ export const createWorkspaceActions = (
             agentId: scope === 'agent' ? resolvedAgentId : undefined,
             companyId: context?.companyId,
             creationContext: creationContext || undefined,
+            author: getActionAuthor(context),
+            principal: getActionPrincipal(context),
           },
         );
 
@@ -286,7 +386,11 @@ export const createWorkspaceActions = (
           sessionId,
           path,
           scope === 'agent' ? resolvedAgentId : undefined,
-          { scope, companyId: context?.companyId },
+          {
+            scope,
+            companyId: context?.companyId,
+            principal: getActionPrincipal(context),
+          },
         );
 
         if (!result.found) {
@@ -404,7 +508,11 @@ export const createWorkspaceActions = (
           sessionId,
           prefix,
           scope === 'agent' ? resolvedAgentId : undefined,
-          { scope, companyId: context?.companyId },
+          {
+            scope,
+            companyId: context?.companyId,
+            principal: getActionPrincipal(context),
+          },
         );
 
         logger.info(
@@ -513,7 +621,11 @@ export const createWorkspaceActions = (
           sessionId,
           path,
           scope === 'agent' ? resolvedAgentId : undefined,
-          { scope, companyId: context?.companyId },
+          {
+            scope,
+            companyId: context?.companyId,
+            principal: getActionPrincipal(context),
+          },
         );
 
         logger.info(`Workspace: Deleted content at ${path} in ${scope} scope`, {
@@ -547,6 +659,152 @@ export const createWorkspaceActions = (
     },
   },
 
+  // Version history of stored content
+  listVersions: {
+    description:
+      'List the version history of stored content (newest first). Every write creates a version with its author, timestamp and size.',
+    parameters: {
+      type: 'object',
+      properties: versionScopeParameters,
+      required: ['path', 'scope'],
+      additionalProperties: false,
+    },
+    function: async ({
+      path,
+      scope,
+      agentId,
+    }: any): Promise<StandardActionResult> => {
+      const resolvedAgentId = await resolveScopeAgentId(
+        scope,
+        agentId,
+        context,
+      );
+      const versions = await workspaceService.listVersions(
+        context?.sessionId || 'default',
+        path,
+        {
+          scope,
+          agentId: resolvedAgentId,
+          companyId: context?.companyId,
+          principal: getActionPrincipal(context),
+        },
+      );
+
+      return {
+        success: true,
+        message: `Found ${versions.length} versions of ${path}`,
+        data: { path, scope, versions, count: versions.length },
+      };
+    },
+  },
+
+  diffVersions: {
+    description:
+      'Show a line diff (unified format) between two versions of stored content. Compares against the latest version when toVersion is omitted.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...versionScopeParameters,
+        fromVersion: {
+          type: 'number',
+          description: 'Version to compare from',
+        },
+        toVersion: {
+          type: 'number',
+          description: 'Version to compare to (default: latest)',
+        },
+      },
+      required: ['path', 'scope', 'fromVersion'],
+      additionalProperties: false,
+    },
+    function: async ({
+      path,
+      scope,
+      agentId,
+      fromVersion,
+      toVersion,
+    }: any): Promise<StandardActionResult> => {
+      const resolvedAgentId = await resolveScopeAgentId(
+        scope,
+        agentId,
+        context,
+      );
+      const diff = await workspaceService.diffVersions(
+        context?.sessionId || 'default',
+        path,
+        fromVersion,
+        toVersion,
+        {
+          scope,
+          agentId: resolvedAgentId,
+          companyId: context?.companyId,
+          principal: getActionPrincipal(context),
+        },
+      );
+
+      return {
+        success: true,
+        message: diff.changed
+          ? `Version ${diff.fromVersion} -> ${diff.toVersion}: +${diff.additions} -${diff.deletions} lines`
+          : `Versions ${diff.fromVersion} and ${diff.toVersion} are identical`,
+        data: { ...diff, path, scope },
+      };
+    },
+  },
+
+  restoreVersion: {
+    description:
+      'Restore a previous version of stored content. The restored content is saved as a new version, so no history is lost.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...versionScopeParameters,
+        version: {
+          type: 'number',
+          description: 'Version to restore',
+        },
+      },
+      required: ['path', 'scope', 'version'],
+      additionalProperties: false,
+    },
+    function: async ({
+      path,
+      scope,
+      agentId,
+      version,
+    }: any): Promise<StandardActionResult> => {
+      const resolvedAgentId = await resolveScopeAgentId(
+        scope,
+        agentId,
+        context,
+      );
+      const restored = await workspaceService.restoreVersion(
+        context?.sessionId || 'default',
+        path,
+        version,
+        {
+          scope,
+          agentId: resolvedAgentId,
+          companyId: context?.companyId,
+          author: getActionAuthor(context),
+          principal: getActionPrincipal(context),
+        },
+      );
+
+      logger.info(`Workspace: Restored ${path} to version ${version}`, {
+        companyId: context?.companyId,
+        scope,
+        newVersion: restored.version,
+      });
+
+      return {
+        success: true,
+        message: `Restored version ${version} of ${path} as version ${restored.version}`,
+        data: { path, scope, version: restored.version, restoredFrom: version },
+      };
+    },
+  },
+
   // Vector search across workspace (enhanced with multi-scope support)
   vectorSearch: {
     description:
@@ -627,15 +885,18 @@ export const createWorkspaceActions = (
           const searchScopes = scopes || defaultScopes;
           const searchLimit = limit || 20;
 
-          const results = await vectorSearch.searchMultiScope(query, {
-            scopes: searchScopes,
-            agentIds: searchAllAgents ? 'all' : undefined,
-            teamIds: searchAllTeams ? 'all' : undefined,
-            limit: searchLimit,
-            minScore,
-            companyId: context.companyId,
-            userId: context?.userId,
-          });
+          const results = await filterReadableResults(
+            await vectorSearch.searchMultiScope(query, {
+              scopes: searchScopes,
+              agentIds: searchAllAgents ? 'all' : undefined,
+              teamIds: searchAllTeams ? 'all' : undefined,
+              limit: searchLimit,
+              minScore,
+              companyId: context.companyId,
+              userId: context?.userId,
+            }),
+            context,
+          );
 
           logger.info(
             `Workspace: Multi-scope vector search found ${results.length} results for query "${query}"`,
@@ -661,6 +922,7 @@ export const createWorkspaceActions = (
                 contentType: r.metadata.contentType,
                 size: r.metadata.size,
                 createdAt: r.metadata.createdAt,
+                chunks: r.chunks,
               })),
               count: results.length,
               scopes: searchScopes,
@@ -710,13 +972,16 @@ export const createWorkspaceActions = (
         }
 
         const searchLimit = limit || 10;
-        const results = await vectorSearch.search(query, {
-          scope,
-          scopeId,
-          limit: searchLimit,
-          minScore,
-          companyId: context.companyId,
-        });
+        const results = await filterReadableResults(
+          await vectorSearch.search(query, {
+            scope,
+            scopeId,
+            limit: searchLimit,
+            minScore,
+            companyId: context.companyId,
+          }),
+          context,
+        );
 
         logger.info(
           `Workspace: Vector search found ${results.length} results for query "${query}" in ${scope} scope`,
@@ -743,6 +1008,7 @@ export const createWorkspaceActions = (
               contentType: r.metadata.contentType,
               size: r.metadata.size,
               createdAt: r.metadata.createdAt,
+              chunks: r.chunks,
             })),
             count: results.length,
             scope,
@@ -759,4 +1025,165 @@ export const createWorkspaceActions = (
       }
     },
   },
+
+  // Hybrid keyword + semantic search with optional reranking
+  hybridSearch: {
+    description:
+      'Search the workspace combining exact keyword matching with semantic similarity. Use this to find exact identifiers (ticket keys, SKU codes, error codes) as well as related content. Supports filters by content type, tags and creation date.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description:
+            'Search query - keywords, identifiers (e.g., "PROJ-123") or natural language',
+        },
+        scopes: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['company', 'agent', 'team', 'session'],
+          },
+          description:
+            'Scopes to search (default: the whole company workspace). Session scope searches the current session.',
+        },
+        agentIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Agent IDs or names to search when scopes includes "agent" (default: all agents)',
+        },
+        contentTypes: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Only include these content types (e.g., "text/markdown")',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only include documents tagged with all of these tags',
+        },
+        createdAfter: {
+          type: 'string',
+          description:
+            'Only include documents created on or after this ISO date',
+        },
+        createdBefore: {
+          type: 'string',
+          description:
+            'Only include documents created on or before this ISO date',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results to return (default: 10)',
+        },
+        rerank: {
+          type: 'boolean',
+          description:
+            'Rerank the top results by relevance with an LLM (slower, default: false)',
+        },
+      },
+      required: ['query'],
+      additionalProperties: false,
+    },
+    function: async ({
+      query,
+      scopes,
+      agentIds,
+      contentTypes,
+      tags,
+      createdAfter,
+      createdBefore,
+      limit = 10,
+      rerank = false,
+    }: any): Promise<StandardActionResult> => {
+      try {
+        if (!context?.companyId) {
+          throw new Error('Company ID is required for hybrid search');
+        }
+
+        const parseDate = (value: string | undefined, name: string) => {
+          if (!value) return undefined;
+          const date = new Date(value);
+          if (isNaN(date.getTime())) {
+            throw new Error(`${name} must be a valid ISO date`);
+          }
+          return date;
+        };
+
+        let resolvedAgentIds: string[] | undefined;
+        if (agentIds?.length) {
+          resolvedAgentIds = [];
+          for (const agentIdentifier of agentIds) {
+            const resolved = await resolveAgentId(
+              agentIdentifier,
+              context.companyId,
+            );
+            if (!resolved) {
+              throw new Error(
+                `Could not find agent with identifier: ${agentIdentifier}`,
+              );
+            }
+            resolvedAgentIds.push(resolved);
+          }
+        }
+
+        const results = await filterReadableResults(
+          await getVectorSearchService().hybridSearch(query, {
+            companyId: context.companyId,
+            userId: context.userId,
+            scopes,
+            agentIds: resolvedAgentIds,
+            sessionId: context.sessionId,
+            contentTypes,
+            tags,
+            createdAfter: parseDate(createdAfter, 'createdAfter'),
+            createdBefore: parseDate(createdBefore, 'createdBefore'),
+            limit,
+            rerank,
+          }),
+          context,
+        );
+
+        logger.info(
+          `Workspace: Hybrid search found ${results.length} results for query "${query}"`,
+          {
+            companyId: context.companyId,
+            userId: context.userId,
+            query,
+            resultsCount: results.length,
+          },
+        );
+
+        return {
+          success: true,
+          message: `Found ${results.length} results for "${query}"`,
+          data: {
+            query,
+            results: results.map((r) => ({
+              path: r.path,
+              score: r.score,
+              ...(r.rerankScore !== undefined && {
+                rerankScore: r.rerankScore,
+              }),
+              scope: r.scope,
+              scopeId: r.scopeId,
+              contentType: r.metadata.contentType,
+              tags: r.metadata.tags,
+              createdAt: r.metadata.createdAt,
+              chunks: r.chunks,
+            })),
+            count: results.length,
+          },
+        };
+      } catch (error: any) {
+        logger.error('Failed to perform hybrid search', {
+          error: error.message,
+          query,
+        });
+        throw error;
+      }
+    },
+  },
 });
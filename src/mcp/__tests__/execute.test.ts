@@ -0,0 +1,72 @@
+import mongoose from 'mongoose';
+import { Budget } from '../../models/Budget';
+import { CostTracking } from '../../models/CostTracking';
+import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
+import { execute } from '../tools/execute';
+
+jest.mock('../../services/assistant/assistant-resolver.service', () => ({
+  resolveAssistantIdentifier: jest.fn(),
+}));
+jest.mock('../../services/webhook.service', () => ({
+  emitWebhookEvent: jest.fn(),
+}));
+jest.mock('../../services/sendgrid.service', () => ({ sendEmail: jest.fn() }));
+
+const companyId = '64b000000000000000000001';
+const userId = '64b0000000000000000000b1';
+const apiKeyId = '64b0000000000000000000c1';
+
+describe('MCP execute tool', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("blocks keys over their budget's hard limit", async () => {
+    (resolveAssistantIdentifier as jest.Mock).mockResolvedValue({
+      _id: new mongoose.Types.ObjectId(),
+      name: 'Helper',
+      teams: [],
+    });
+    const keyBudget = {
+      _id: new mongoose.Types.ObjectId(),
+      companyId: new mongoose.Types.ObjectId(companyId),
+      name: 'Key',
+      scope: 'api_key',
+      targetId: new mongoose.Types.ObjectId(apiKeyId),
+      period: 'monthly',
+      hardLimit: 10,
+      hardLimitAction: 'block',
+      notify: { inbox: false, emails: [] },
+    };
+    // The key's budget only applies when the key is passed on
+    const find = jest
+      .spyOn(Budget, 'find')
+      .mockImplementation(((query: any) =>
+        Promise.resolve(
+          query.$or.some(
+            (target: any) =>
+              target.scope === 'api_key' && target.targetId === apiKeyId,
+          )
+            ? [keyBudget]
+            : [],
+        )) as never);
+    jest
+      .spyOn(CostTracking, 'aggregate')
+      .mockResolvedValue([{ totalCost: 12 }] as any);
+    jest
+      .spyOn(Budget, 'updateOne')
+      .mockResolvedValue({ modifiedCount: 0 } as any);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await execute(
+      { assistantId: 'Helper', userInput: 'Hi', includeToolCalls: true },
+      companyId,
+      userId,
+      apiKeyId,
+    );
+
+    expect(find).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      error: true,
+      message: expect.stringContaining('Budget "Key" has reached'),
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { Session } from '../../models/Session';
+import { findMissingToolPermission } from '../tool-permissions';
+
+jest.mock('../../services/assistant/assistant-resolver.service', () => ({
+  resolveAssistantIdentifier: jest.fn(async (identifier: string) =>
+    identifier === 'Support'
+      ? { _id: { toString: () => 'aaaaaaaaaaaaaaaaaaaaaaaa' } }
+      : null,
+  ),
+}));
+
+const assistantA = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+const assistantB = 'bbbbbbbbbbbbbbbbbbbbbbbb';
+const sessionId = 'cccccccccccccccccccccccc';
+const granted = ['sessions:write', `assistants:execute:${assistantA}`];
+
+describe('tool-permissions', () => {
+  it('requires executing the assistant a session is created with', async () => {
+    await expect(
+      findMissingToolPermission(
+        granted,
+        'create_session',
+        { agentId: 'Support' },
+        'company-1',
+      ),
+    ).resolves.toBeNull();
+    await expect(
+      findMissingToolPermission(
+        granted,
+        'create_session',
+        { agentId: assistantB },
+        'company-1',
+      ),
+    ).resolves.toBe(`assistants:execute:${assistantB}`);
+  });
+
+  it('requires executing the assistant of the session messaged', async () => {
+    const findOne = jest.spyOn(Session, 'findOne').mockReturnValue({
+      select: () => ({ lean: async () => ({ assistantId: assistantB }) }),
+    } as never);
+
+    await expect(
+      findMissingToolPermission(
+        granted,
+        'send_message',
+        { sessionId, message: 'Hi' },
+        'company-1',
+      ),
+    ).resolves.toBe(`assistants:execute:${assistantB}`);
+    expect(findOne).toHaveBeenCalledWith({
+      _id: sessionId,
+      companyId: 'company-1',
+    });
+
+    // Sessions of other companies resolve to no assistant
+    findOne.mockReturnValue({
+      select: () => ({ lean: async () => null }),
+    } as never);
+    await expect(
+      findMissingToolPermission(
+        granted,
+        'send_message',
+        { sessionId, message: 'Hi' },
+        'company-1',
+      ),
+    ).resolves.toBe('assistants:execute:*');
+    await expect(
+      findMissingToolPermission(
+        ['sessions:write', 'assistants:execute'],
+        'send_message',
+        { sessionId, message: 'Hi' },
+        'company-1',
+      ),
+    ).resolves.toBeNull();
+  });
+});
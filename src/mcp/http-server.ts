@@ -262,6 +262,95 @@ import {
   type GetPromptVersionInput,
 } from './tools/prompt-history';
 
+import {
+  listScheduledJobsTool,
+  listScheduledJobsSchema,
+  listScheduledJobs,
+  type ListScheduledJobsInput,
+  createScheduledJobTool,
+  createScheduledJobSchema,
+  createScheduledJob,
+  type CreateScheduledJobInput,
+  updateScheduledJobTool,
+  updateScheduledJobSchema,
+  updateScheduledJob,
+  type UpdateScheduledJobInput,
+  deleteScheduledJobTool,
+  deleteScheduledJobSchema,
+  deleteScheduledJob,
+  type DeleteScheduledJobInput,
+  runScheduledJobTool,
+  runScheduledJobSchema,
+  runScheduledJob,
+  type RunScheduledJobInput,
+} from './tools/scheduled-jobs';
+
+import {
+  listWorkflowsTool,
+  listWorkflowsSchema,
+  listWorkflows,
+  type ListWorkflowsInput,
+  createWorkflowTool,
+  createWorkflowSchema,
+  createWorkflow,
+  type CreateWorkflowInput,
+  updateWorkflowTool,
+  updateWorkflowSchema,
+  updateWorkflow,
+  type UpdateWorkflowInput,
+  deleteWorkflowTool,
+  deleteWorkflowSchema,
+  deleteWorkflow,
+  type DeleteWorkflowInput,
+  runWorkflowTool,
+  runWorkflowSchema,
+  runWorkflow,
+  type RunWorkflowInput,
+  getWorkflowRunTool,
+  getWorkflowRunSchema,
+  getWorkflowRun,
+  type GetWorkflowRunInput,
+  cancelWorkflowRunTool,
+  cancelWorkflowRunSchema,
+  cancelWorkflowRun,
+  type CancelWorkflowRunInput,
+  decideWorkflowStepTool,
+  decideWorkflowStepSchema,
+  decideWorkflowStep,
+  type DecideWorkflowStepInput,
+} from './tools/workflows';
+
+import {
+  listEvalSuitesTool,
+  listEvalSuitesSchema,
+  listEvalSuites,
+  type ListEvalSuitesInput,
+  createEvalSuiteTool,
+  createEvalSuiteSchema,
+  createEvalSuite,
+  type CreateEvalSuiteInput,
+  updateEvalSuiteTool,
+  updateEvalSuiteSchema,
+  updateEvalSuite,
+  type UpdateEvalSuiteInput,
+  deleteEvalSuiteTool,
+  deleteEvalSuiteSchema,
+  deleteEvalSuite,
+  type DeleteEvalSuiteInput,
+  runEvalSuiteTool,
+  runEvalSuiteSchema,
+  runEvalSuite,
+  type RunEvalSuiteInput,
+  getEvalRunTool,
+  getEvalRunSchema,
+  getEvalRun,
+  type GetEvalRunInput,
+  compareEvalVersionsTool,
+  compareEvalVersionsSchema,
+  compareEvalVersions,
+  type CompareEvalVersionsInput,
+} from './tools/evals';
+
 import {
   getDailyCostsTool_metadata,
   getDailyCostsSchema,
@@ -311,6 +400,8 @@ import {
   deleteSession,
   type DeleteSessionInput,
 } from './tools/delete-session';
+import { findMissingToolPermission } from './tool-permissions';
+import { getSharedState } from '../services/shared-state/shared-state';
 
 // Session data stored per session ID
 interface MCPSession {
@@ -319,8 +410,9 @@ interface MCPSession {
   companyId?: string;
 }
 
-// Global session store (survives MCPHttpServer recreation)
-const activeSessions = new Map<string, MCPSession>();
+// Sessions live in the shared-state store so that any API instance can
+// serve a session's requests
+const SESSION_NAMESPACE = 'mcp-sessions';
 
 // Session expiry time (1 hour)
 const SESSION_TTL_MS = 60 * 60 * 1000;
@@ -352,60 +444,44 @@ export class MCPHttpServer {
     );
 
     this.setupHandlers();
-
-    // Clean up expired sessions every 5 minutes
-    setInterval(() => this.cleanupExpiredSessions(), 5 * 60 * 1000);
   }
 
   /**
    * Create a new session and return the session ID
    */
-  createSession(userId?: string, companyId?: string): string {
+  async createSession(userId?: string, companyId?: string): Promise<string> {
     const sessionId = `mcp_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-    activeSessions.set(sessionId, {
-      createdAt: Date.now(),
-      userId,
-      companyId,
-    });
+    await getSharedState().set<MCPSession>(
+      SESSION_NAMESPACE,
+      sessionId,
+      {
+        createdAt: Date.now(),
+        userId,
+        companyId,
+      },
+      SESSION_TTL_MS,
+    );
     return sessionId;
   }
 
   /**
-   * Check if a session ID is valid
+   * Check if a session ID is valid. Expired sessions are gone from the
+   * store.
    */
-  isValidSession(sessionId: string): boolean {
+  async isValidSession(sessionId: string): Promise<boolean> {
     if (!sessionId) return false;
-    const session = activeSessions.get(sessionId);
-    if (!session) {
-      return false;
-    }
-    // Check if session has expired
-    if (Date.now() - session.createdAt > SESSION_TTL_MS) {
-      activeSessions.delete(sessionId);
-      return false;
-    }
-    return true;
+    return (await this.getSession(sessionId)) !== undefined;
   }
 
   /**
    * Get session data
    */
-  getSession(sessionId: string): MCPSession | undefined {
-    return activeSessions.get(sessionId);
-  }
-
-  /**
-   * Remove expired sessions
-   */
-  private cleanupExpiredSessions(): void {
-    const now = Date.now();
-    let cleaned = 0;
-    for (const [id, session] of activeSessions.entries()) {
-      if (now - session.createdAt > SESSION_TTL_MS) {
-        activeSessions.delete(id);
-        cleaned++;
-      }
-    }
+  async getSession(sessionId: string): Promise<MCPSession | undefined> {
+    const session = await getSharedState().get<MCPSession>(
+      SESSION_NAMESPACE,
+      sessionId,
+    );
+    return session ?? undefined;
   }
 
   /**
@@ -601,6 +677,106 @@ export class MCPHttpServer {
           description: getPromptVersionTool.description,
           inputSchema: getPromptVersionSchema,
         },
+        {
+          name: listScheduledJobsTool.name,
+          description: listScheduledJobsTool.description,
+          inputSchema: listScheduledJobsSchema,
+        },
+        {
+          name: createScheduledJobTool.name,
+          description: createScheduledJobTool.description,
+          inputSchema: createScheduledJobSchema,
+        },
+        {
+          name: updateScheduledJobTool.name,
+          description: updateScheduledJobTool.description,
+          inputSchema: updateScheduledJobSchema,
+        },
+        {
+          name: deleteScheduledJobTool.name,
+          description: deleteScheduledJobTool.description,
+          inputSchema: deleteScheduledJobSchema,
+        },
+        {
+          name: runScheduledJobTool.name,
+          description: runScheduledJobTool.description,
+          inputSchema: runScheduledJobSchema,
+        },
+        {
+          name: listWorkflowsTool.name,
+          description: listWorkflowsTool.description,
+          inputSchema: listWorkflowsSchema,
+        },
+        {
+          name: createWorkflowTool.name,
+          description: createWorkflowTool.description,
+          inputSchema: createWorkflowSchema,
+        },
+        {
+          name: updateWorkflowTool.name,
+          description: updateWorkflowTool.description,
+          inputSchema: updateWorkflowSchema,
+        },
+        {
+          name: deleteWorkflowTool.name,
+          description: deleteWorkflowTool.description,
+          inputSchema: deleteWorkflowSchema,
+        },
+        {
+          name: runWorkflowTool.name,
+          description: runWorkflowTool.description,
+          inputSchema: runWorkflowSchema,
+        },
+        {
+          name: getWorkflowRunTool.name,
+          description: getWorkflowRunTool.description,
+          inputSchema: getWorkflowRunSchema,
+        },
+        {
+          name: cancelWorkflowRunTool.name,
+          description: cancelWorkflowRunTool.description,
+          inputSchema: cancelWorkflowRunSchema,
+        },
+        {
+          name: decideWorkflowStepTool.name,
+          description: decideWorkflowStepTool.description,
+          inputSchema: decideWorkflowStepSchema,
+        },
+        {
+          name: listEvalSuitesTool.name,
+          description: listEvalSuitesTool.description,
+          inputSchema: listEvalSuitesSchema,
+        },
+        {
+          name: createEvalSuiteTool.name,
+          description: createEvalSuiteTool.description,
+          inputSchema: createEvalSuiteSchema,
+        },
+        {
+          name: updateEvalSuiteTool.name,
+          description: updateEvalSuiteTool.description,
+          inputSchema: updateEvalSuiteSchema,
+        },
+        {
+          name: deleteEvalSuiteTool.name,
+          description: deleteEvalSuiteTool.description,
+          inputSchema: deleteEvalSuiteSchema,
+        },
+        {
+          name: runEvalSuiteTool.name,
+          description: runEvalSuiteTool.description,
+          inputSchema: runEvalSuiteSchema,
+        },
+        {
+          name: getEvalRunTool.name,
+          description: getEvalRunTool.description,
+          inputSchema: getEvalRunSchema,
+        },
+        {
+          name: compareEvalVersionsTool.name,
+          description: compareEvalVersionsTool.description,
+          inputSchema: compareEvalVersionsSchema,
+        },
         {
           name: getDailyCostsTool_metadata.name,
           description: getDailyCostsTool_metadata.description,
@@ -683,6 +859,8 @@ export class MCPHttpServer {
       // Get user context from Express middleware
       const companyId = (req as any).company?.id;
       const userId = (req as any).user?.id;
+      // Set for API key and OAuth requests; their spend counts against the key's budgets
+      const apiKeyId: string | undefined = (req as any).apiKeyId?.toString();
 
       // Session validation - be lenient during initialization handshake
       // The handshake methods (initialize, notifications/initialized, tools/list) don't require valid sessions
@@ -697,11 +875,11 @@ export class MCPHttpServer {
       );
 
       if (!isHandshakeMethod) {
-        if (sessionId && !this.isValidSession(sessionId)) {
+        if (sessionId && !(await this.isValidSession(sessionId))) {
           // Session is stale - if authenticated, auto-create a new session
           // This handles clients like Claude Code that may send stale session IDs
           if (companyId && userId) {
-            const newSessionId = this.createSession(userId, companyId);
+            const newSessionId = await this.createSession(userId, companyId);
             res.setHeader('Mcp-Session-Id', newSessionId);
             // Continue processing with the new session
           } else {
@@ -727,7 +905,7 @@ export class MCPHttpServer {
 
         // Create and store a new session
         // Per MCP spec: include Mcp-Session-Id header on InitializeResult response
-        const sessionId = this.createSession(userId, companyId);
+        const sessionId = await this.createSession(userId, companyId);
         res.setHeader('Mcp-Session-Id', sessionId);
         res.setHeader('X-MCP-Tools-Version', TOOLS_VERSION);
 
@@ -1000,6 +1178,146 @@ export class MCPHttpServer {
               reused: 'inline',
             }),
           },
+          {
+            name: listScheduledJobsTool.name,
+            description: listScheduledJobsTool.description,
+            inputSchema: z.toJSONSchema(listScheduledJobsSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: createScheduledJobTool.name,
+            description: createScheduledJobTool.description,
+            inputSchema: z.toJSONSchema(createScheduledJobSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: updateScheduledJobTool.name,
+            description: updateScheduledJobTool.description,
+            inputSchema: z.toJSONSchema(updateScheduledJobSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: deleteScheduledJobTool.name,
+            description: deleteScheduledJobTool.description,
+            inputSchema: z.toJSONSchema(deleteScheduledJobSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: runScheduledJobTool.name,
+            description: runScheduledJobTool.description,
+            inputSchema: z.toJSONSchema(runScheduledJobSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: listWorkflowsTool.name,
+            description: listWorkflowsTool.description,
+            inputSchema: z.toJSONSchema(listWorkflowsSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: createWorkflowTool.name,
+            description: createWorkflowTool.description,
+            inputSchema: z.toJSONSchema(createWorkflowSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: updateWorkflowTool.name,
+            description: updateWorkflowTool.description,
+            inputSchema: z.toJSONSchema(updateWorkflowSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: deleteWorkflowTool.name,
+            description: deleteWorkflowTool.description,
+            inputSchema: z.toJSONSchema(deleteWorkflowSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: runWorkflowTool.name,
+            description: runWorkflowTool.description,
+            inputSchema: z.toJSONSchema(runWorkflowSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: getWorkflowRunTool.name,
+            description: getWorkflowRunTool.description,
+            inputSchema: z.toJSONSchema(getWorkflowRunSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: cancelWorkflowRunTool.name,
+            description: cancelWorkflowRunTool.description,
+            inputSchema: z.toJSONSchema(cancelWorkflowRunSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: decideWorkflowStepTool.name,
+            description: decideWorkflowStepTool.description,
+            inputSchema: z.toJSONSchema(decideWorkflowStepSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: listEvalSuitesTool.name,
+            description: listEvalSuitesTool.description,
+            inputSchema: z.toJSONSchema(listEvalSuitesSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: createEvalSuiteTool.name,
+            description: createEvalSuiteTool.description,
+            inputSchema: z.toJSONSchema(createEvalSuiteSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: updateEvalSuiteTool.name,
+            description: updateEvalSuiteTool.description,
+            inputSchema: z.toJSONSchema(updateEvalSuiteSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: deleteEvalSuiteTool.name,
+            description: deleteEvalSuiteTool.description,
+            inputSchema: z.toJSONSchema(deleteEvalSuiteSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: runEvalSuiteTool.name,
+            description: runEvalSuiteTool.description,
+            inputSchema: z.toJSONSchema(runEvalSuiteSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: getEvalRunTool.name,
+            description: getEvalRunTool.description,
+            inputSchema: z.toJSONSchema(getEvalRunSchema, {
+              reused: 'inline',
+            }),
+          },
+          {
+            name: compareEvalVersionsTool.name,
+            description: compareEvalVersionsTool.description,
+            inputSchema: z.toJSONSchema(compareEvalVersionsSchema, {
+              reused: 'inline',
+            }),
+          },
           {
             name: getDailyCostsTool_metadata.name,
             description: getDailyCostsTool_metadata.description,
@@ -1120,6 +1438,27 @@ export class MCPHttpServer {
         const toolName = jsonRpcRequest.params?.name;
         const toolArgs = jsonRpcRequest.params?.arguments;
 
+        // Scoped API keys may only call tools their permissions cover
+        if ((req as any).isApiKeyAuth) {
+          const missing = await findMissingToolPermission(
+            (req as any).apiKeyPermissions,
+            toolName,
+            toolArgs,
+            companyId,
+          );
+          if (missing) {
+            res.status(403).json({
+              jsonrpc: '2.0',
+              error: {
+                code: -32600,
+                message: `API key lacks permission: ${missing}`,
+              },
+              id: jsonRpcRequest.id,
+            });
+            return;
+          }
+        }
+
         try {
           let result;
 
@@ -1135,6 +1474,7 @@ export class MCPHttpServer {
                 parseResult.data as ExecuteInput,
                 companyId,
                 userId,
+                apiKeyId,
               );
               break;
             }
@@ -1219,6 +1559,7 @@ export class MCPHttpServer {
               result = await listWorkspaceItems(
                 parseResult.data as ListWorkspaceItemsInput,
                 companyId,
+                userId,
               );
               break;
             }
@@ -1233,6 +1574,7 @@ export class MCPHttpServer {
               result = await getWorkspaceItem(
                 parseResult.data as GetWorkspaceItemInput,
                 companyId,
+                userId,
               );
               break;
             }
@@ -1401,6 +1743,7 @@ export class MCPHttpServer {
               result = await addWorkspaceItem(
                 parseResult.data as AddWorkspaceItemInput,
                 companyId,
+                userId,
               );
               break;
             }
@@ -1415,6 +1758,7 @@ export class MCPHttpServer {
               result = await deleteWorkspaceItem(
                 parseResult.data as DeleteWorkspaceItemInput,
                 companyId,
+                userId,
               );
               break;
             }
@@ -1429,6 +1773,7 @@ export class MCPHttpServer {
               result = await moveWorkspaceItem(
                 parseResult.data as MoveWorkspaceItemInput,
                 companyId,
+                userId,
               );
               break;
             }
@@ -1444,6 +1789,7 @@ export class MCPHttpServer {
               result = await vectorSearchWorkspace(
                 parseResult.data as VectorSearchWorkspaceInput,
                 companyId,
+                userId,
               );
               break;
             }
@@ -1615,6 +1961,292 @@ export class MCPHttpServer {
               break;
             }
 
+            case 'list_scheduled_jobs': {
+              const parseResult = listScheduledJobsSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await listScheduledJobs(
+                parseResult.data as ListScheduledJobsInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'create_scheduled_job': {
+              const parseResult = createScheduledJobSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await createScheduledJob(
+                parseResult.data as CreateScheduledJobInput,
+                companyId,
+                userId,
+              );
+              break;
+            }
+
+            case 'update_scheduled_job': {
+              const parseResult = updateScheduledJobSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await updateScheduledJob(
+                parseResult.data as UpdateScheduledJobInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'delete_scheduled_job': {
+              const parseResult = deleteScheduledJobSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await deleteScheduledJob(
+                parseResult.data as DeleteScheduledJobInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'run_scheduled_job': {
+              const parseResult = runScheduledJobSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await runScheduledJob(
+                parseResult.data as RunScheduledJobInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'list_workflows': {
+              const parseResult = listWorkflowsSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await listWorkflows(
+                parseResult.data as ListWorkflowsInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'create_workflow': {
+              const parseResult = createWorkflowSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await createWorkflow(
+                parseResult.data as CreateWorkflowInput,
+                companyId,
+                userId,
+              );
+              break;
+            }
+
+            case 'update_workflow': {
+              const parseResult = updateWorkflowSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await updateWorkflow(
+                parseResult.data as UpdateWorkflowInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'delete_workflow': {
+              const parseResult = deleteWorkflowSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await deleteWorkflow(
+                parseResult.data as DeleteWorkflowInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'run_workflow': {
+              const parseResult = runWorkflowSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await runWorkflow(
+                parseResult.data as RunWorkflowInput,
+                companyId,
+                userId,
+              );
+              break;
+            }
+
+            case 'get_workflow_run': {
+              const parseResult = getWorkflowRunSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await getWorkflowRun(
+                parseResult.data as GetWorkflowRunInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'cancel_workflow_run': {
+              const parseResult = cancelWorkflowRunSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await cancelWorkflowRun(
+                parseResult.data as CancelWorkflowRunInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'decide_workflow_step': {
+              const parseResult = decideWorkflowStepSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await decideWorkflowStep(
+                parseResult.data as DecideWorkflowStepInput,
+                companyId,
+                userId,
+              );
+              break;
+            }
+
+            case 'list_eval_suites': {
+              const parseResult = listEvalSuitesSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await listEvalSuites(
+                parseResult.data as ListEvalSuitesInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'create_eval_suite': {
+              const parseResult = createEvalSuiteSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await createEvalSuite(
+                parseResult.data as CreateEvalSuiteInput,
+                companyId,
+                userId,
+              );
+              break;
+            }
+
+            case 'update_eval_suite': {
+              const parseResult = updateEvalSuiteSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await updateEvalSuite(
+                parseResult.data as UpdateEvalSuiteInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'delete_eval_suite': {
+              const parseResult = deleteEvalSuiteSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await deleteEvalSuite(
+                parseResult.data as DeleteEvalSuiteInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'run_eval_suite': {
+              const parseResult = runEvalSuiteSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await runEvalSuite(
+                parseResult.data as RunEvalSuiteInput,
+                companyId,
+                userId,
+              );
+              break;
+            }
+
+            case 'get_eval_run': {
+              const parseResult = getEvalRunSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await getEvalRun(
+                parseResult.data as GetEvalRunInput,
+                companyId,
+              );
+              break;
+            }
+
+            case 'compare_eval_versions': {
+              const parseResult = compareEvalVersionsSchema.safeParse(toolArgs);
+              if (!parseResult.success) {
+                throw new Error(
+                  `Invalid parameters: ${parseResult.error.message}`,
+                );
+              }
+              result = await compareEvalVersions(
+                parseResult.data as CompareEvalVersionsInput,
+                companyId,
+              );
+              break;
+            }
+
             case 'get_daily_costs': {
               const parseResult = getDailyCostsSchema.safeParse(toolArgs);
               if (!parseResult.success) {
@@ -1656,6 +2288,7 @@ export class MCPHttpServer {
                 parseResult.data as SendMessageInput,
                 companyId,
                 userId,
+                apiKeyId,
               );
               break;
             }
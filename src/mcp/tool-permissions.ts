@@ -0,0 +1,177 @@
+/**
+ * API key permissions required by each MCP tool
+ */
+
+import mongoose from 'mongoose';
+import { Session } from '../models/Session';
+import { resolveAssistantIdentifier } from '../services/assistant/assistant-resolver.service';
+import { hasPermission, permission } from '../utils/permissions';
+
+type ToolArgs = Record<string, any> | undefined;
+
+type ToolPermissionResolver = (
+  args: ToolArgs,
+  companyId: string,
+) => string[] | Promise<string[]>;
+
+/**
+ * `assistants:execute` for the assistant of the session a message goes to
+ */
+const sessionAssistantExecute = async (
+  args: ToolArgs,
+  companyId: string,
+): Promise<string> => {
+  const sessionId = args?.sessionId;
+  const session =
+    typeof sessionId === 'string' && mongoose.Types.ObjectId.isValid(sessionId)
+      ? await Session.findOne({ _id: sessionId, companyId })
+          .select('assistantId')
+          .lean()
+      : null;
+  return permission(
+    'assistants',
+    'execute',
+    session?.assistantId?.toString() || '*',
+  );
+};
+
+const TOOL_PERMISSIONS: Record<string, ToolPermissionResolver> = {
+  execute: (args) => [
+    permission('assistants', 'execute', args?.assistantId || '*'),
+  ],
+
+  list_agents: () => ['assistants:read'],
+  list_agents_by_team: () => ['assistants:read'],
+  get_agent_prompt: () => ['assistants:read'],
+  get_agent_info: () => ['assistants:read'],
+  list_models: () => ['assistants:read'],
+  list_prompt_history: () => ['assistants:read'],
+  get_prompt_version: () => ['assistants:read'],
+  create_agent: () => ['assistants:write'],
+  update_agent: () => ['assistants:write'],
+  update_agent_prompt: () => ['assistants:write'],
+  update_agent_actions: () => ['assistants:write'],
+  delete_agent: () => ['assistants:write'],
+  assign_agent_to_team: () => ['assistants:write'],
+  remove_agent_from_team: () => ['assistants:write'],
+
+  list_teams: () => ['company:read'],
+  get_team: () => ['company:read'],
+  create_team: () => ['company:write'],
+  update_team: () => ['company:write'],
+  delete_team: () => ['company:write'],
+
+  list_workspace_items: (args) => [
+    permission('workspace', 'read', args?.scope || 'agent'),
+  ],
+  get_workspace_item: (args) => [
+    permission('workspace', 'read', args?.scope || 'agent'),
+  ],
+  vector_search_workspace: (args) => [
+    permission('workspace', 'read', args?.scope || 'agent'),
+  ],
+  add_workspace_item: (args) => [
+    permission('workspace', 'write', args?.scope || 'agent'),
+  ],
+  delete_workspace_item: (args) => [
+    permission('workspace', 'write', args?.scope || 'agent'),
+  ],
+  move_workspace_item: (args) => {
+    const fromScope = args?.fromScope || 'agent';
+    return [
+      permission('workspace', 'write', fromScope),
+      permission('workspace', 'write', args?.toScope || fromScope),
+    ];
+  },
+
+  get_ui_context: () => ['sessions:read'],
+  open_workspace_file: () => ['sessions:write'],
+  navigate_to_page: () => ['sessions:write'],
+  show_notification: () => ['sessions:write'],
+
+  get_cost_summary: () => ['costs:read'],
+  get_daily_costs: () => ['costs:read'],
+
+  list_integrations: () => ['integrations:read'],
+  get_integration_details: () => ['integrations:read'],
+  check_integration_status: () => ['integrations:read'],
+  trigger_integration_action: () => ['integrations:execute'],
+
+  list_scheduled_jobs: () => ['schedules:read'],
+  create_scheduled_job: () => ['schedules:write'],
+  update_scheduled_job: () => ['schedules:write'],
+  delete_scheduled_job: () => ['schedules:write'],
+  run_scheduled_job: () => ['schedules:write'],
+
+  list_workflows: () => ['workflows:read'],
+  create_workflow: () => ['workflows:write'],
+  update_workflow: () => ['workflows:write'],
+  delete_workflow: () => ['workflows:write'],
+  run_workflow: () => ['workflows:write'],
+  get_workflow_run: () => ['workflows:read'],
+  cancel_workflow_run: () => ['workflows:write'],
+  decide_workflow_step: () => ['workflows:write'],
+
+  list_eval_suites: () => ['evals:read'],
+  get_eval_run: () => ['evals:read'],
+  compare_eval_versions: () => ['evals:read'],
+  create_eval_suite: () => ['evals:write'],
+  update_eval_suite: () => ['evals:write'],
+  delete_eval_suite: () => ['evals:write'],
+  run_eval_suite: () => ['evals:write'],
+
+  list_sessions: () => ['sessions:read'],
+  get_session_messages: () => ['sessions:read'],
+  // Both make the session's assistant answer, so they need to execute it
+  create_session: (args) => [
+    'sessions:write',
+    permission('assistants', 'execute', args?.agentId || '*'),
+  ],
+  send_message: async (args, companyId) => [
+    'sessions:write',
+    await sessionAssistantExecute(args, companyId),
+  ],
+  clear_session: () => ['sessions:write'],
+  delete_session: () => ['sessions:write'],
+};
+
+/**
+ * Permissions a tool call needs. Unknown tools need full access.
+ */
+export const getToolPermissions = async (
+  toolName: string,
+  args: ToolArgs,
+  companyId: string,
+): Promise<string[]> =>
+  (await TOOL_PERMISSIONS[toolName]?.(args, companyId)) ?? ['*'];
+
+/**
+ * The first permission a key is missing for a tool call, or null when the
+ * call is allowed. Assistant names are resolved to IDs for
+ * assistant-scoped permissions.
+ */
+export const findMissingToolPermission = async (
+  granted: string[] | undefined,
+  toolName: string,
+  args: ToolArgs,
+  companyId: string,
+): Promise<string | null> => {
+  for (let required of await getToolPermissions(toolName, args, companyId)) {
+    const [resource, action, qualifier] = required.split(':');
+    if (
+      resource === 'assistants' &&
+      qualifier &&
+      qualifier !== '*' &&
+      !mongoose.Types.ObjectId.isValid(qualifier)
+    ) {
+      const assistant = await resolveAssistantIdentifier(qualifier, companyId);
+      if (assistant) {
+        required = permission('assistants', action, assistant._id.toString());
+      }
+    }
+    if (!hasPermission(granted, required)) {
+      return required;
+    }
+  }
+  return null;
+};
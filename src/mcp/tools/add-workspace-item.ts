@@ -9,7 +9,7 @@ import axios from 'axios';
 import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
 import { validateSessionOwnership } from '../../services/session/session-resolver.service';
 import { getWorkspaceService } from '../../services/unified-workspace.service';
-import { getVectorSearchService } from '../../services/vector-search.service';
+import { assertWorkspaceAccess } from '../../services/workspace-acl.service';
 
 /**
  * Input schema for the add_workspace_item tool
@@ -60,6 +60,7 @@ export type AddWorkspaceItemInput = z.infer<typeof addWorkspaceItemSchema>;
 export async function addWorkspaceItem(
   input: AddWorkspaceItemInput,
   companyId: string,
+  userId?: string,
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
   try {
     // Validate that either content or fileUrl is provided
@@ -119,6 +120,15 @@ export async function addWorkspaceItem(
         break;
     }
 
+    // Enforce workspace ACLs for the calling user
+    if (userId) {
+      await assertWorkspaceAccess(
+        { type: 'user', id: userId, companyId },
+        fullPath,
+        'write',
+      );
+    }
+
     // If fileUrl is provided, download and store file reference
     if (input.fileUrl) {
       let buffer: Buffer;
@@ -199,19 +209,6 @@ export async function addWorkspaceItem(
 
       await workspace.set(fullPath, fileReference, metadata);
 
-      // Trigger async embedding for vector search
-      setImmediate(() => {
-        const vectorSearch = getVectorSearchService();
-        const namespace = 'unified-workspace';
-        const fullKey = `${namespace}:${fullPath}`;
-        vectorSearch.embedDocument(fullKey, companyId).catch((error) => {
-          console.error('Async embedding failed for file:', {
-            fullKey,
-            error: error.message,
-          });
-        });
-      });
-
       return {
         content: [
           {
@@ -249,19 +246,6 @@ export async function addWorkspaceItem(
     // Store the item
     await workspace.set(fullPath, input.content, metadata);
 
-    // Trigger async embedding for vector search
-    setImmediate(() => {
-      const vectorSearch = getVectorSearchService();
-      const namespace = 'unified-workspace';
-      const fullKey = `${namespace}:${fullPath}`;
-      vectorSearch.embedDocument(fullKey, companyId).catch((error) => {
-        console.error('Async embedding failed:', {
-          fullKey,
-          error: error.message,
-        });
-      });
-    });
-
     return {
       content: [
         {
@@ -17,8 +17,10 @@ export const createAgentSchema = z.object({
     .optional()
     .describe("Description of the agent's purpose"),
   llmProvider: z
-    .enum(['openai', 'google', 'anthropic'])
-    .describe('LLM provider (openai, google, or anthropic)'),
+    .string()
+    .describe(
+      'LLM provider (openai, google, anthropic, or the key of a custom provider registered by the company)',
+    ),
   llmModel: z
     .string()
     .describe(
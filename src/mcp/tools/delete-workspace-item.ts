@@ -8,6 +8,7 @@ import { z } from 'zod';
 import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
 import { validateSessionOwnership } from '../../services/session/session-resolver.service';
 import { getWorkspaceService } from '../../services/unified-workspace.service';
+import { assertWorkspaceAccess } from '../../services/workspace-acl.service';
 
 /**
  * Input schema for the delete_workspace_item tool
@@ -42,6 +43,7 @@ export type DeleteWorkspaceItemInput = z.infer<
 export async function deleteWorkspaceItem(
   input: DeleteWorkspaceItemInput,
   companyId: string,
+  userId?: string,
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
   try {
     const scope = input.scope || 'agent';
@@ -91,6 +93,15 @@ export async function deleteWorkspaceItem(
     }
 
     // Check if item exists
+    // Enforce workspace ACLs for the calling user
+    if (userId) {
+      await assertWorkspaceAccess(
+        { type: 'user', id: userId, companyId },
+        fullPath,
+        'delete',
+      );
+    }
+
     const exists = await workspace.exists(fullPath);
     if (!exists) {
       return {
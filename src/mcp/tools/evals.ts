@@ -0,0 +1,504 @@
+/**
+ * Eval Tools
+ *
+ * MCP tools for managing agent eval suites and scoring prompt versions.
+ */
+
+import { z } from 'zod';
+import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
+import {
+  listEvalSuites as listSuites,
+  getEvalSuite,
+  createEvalSuite as createSuite,
+  updateEvalSuite as updateSuite,
+  deleteEvalSuite as deleteSuite,
+  listEvalRuns,
+  getEvalRun as getRun,
+  startEvalRun,
+  compareEvalVersions as compareVersions,
+  getPromptEvalStatus,
+  EvalSuiteInput,
+} from '../../services/eval.service';
+
+type ToolResult = { content: Array<{ type: string; text: string }> };
+
+function toolResponse(payload: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }],
+  };
+}
+
+function toolError(error: unknown, fallback: string): ToolResult {
+  return toolResponse({
+    error: true,
+    message: error instanceof Error ? error.message : fallback,
+  });
+}
+
+const assertionSchema = z.object({
+  type: z
+    .enum(['contains', 'regex', 'json_schema', 'llm_judge'])
+    .describe('Assertion type'),
+  value: z.string().optional().describe('Text to look for (contains)'),
+  caseSensitive: z
+    .boolean()
+    .optional()
+    .describe('Case-sensitive match (contains, default: false)'),
+  pattern: z.string().optional().describe('Regular expression (regex)'),
+  flags: z.string().optional().describe('Regular expression flags (regex)'),
+  negate: z
+    .boolean()
+    .optional()
+    .describe('Pass when the text/pattern is NOT found (contains, regex)'),
+  schema: z
+    .record(z.string(), z.any())
+    .optional()
+    .describe('JSON schema the output must validate against (json_schema)'),
+  rubric: z
+    .string()
+    .optional()
+    .describe('What a good response looks like (llm_judge)'),
+  threshold: z
+    .number()
+    .optional()
+    .describe('Minimum judge score from 0 to 1 (llm_judge, default: 0.7)'),
+  model: z
+    .string()
+    .optional()
+    .describe('OpenAI model used as judge (llm_judge, default: gpt-4o-mini)'),
+});
+
+const caseSchema = z.object({
+  _id: z
+    .string()
+    .optional()
+    .describe('Existing case ID, to keep results comparable when updating'),
+  name: z.string().describe('Case name'),
+  input: z.string().describe('Message sent to the agent'),
+  expectedToolCalls: z
+    .array(
+      z.object({
+        name: z
+          .string()
+          .describe('Tool name or action ID, e.g. "sendgrid.sendEmail"'),
+        arguments: z
+          .record(z.string(), z.any())
+          .optional()
+          .describe('Arguments the call must include'),
+      }),
+    )
+    .optional()
+    .describe('Tools the agent is expected to call'),
+  assertions: z
+    .array(assertionSchema)
+    .optional()
+    .describe('Checks applied to the agent output'),
+});
+
+/**
+ * Input schema for the list_eval_suites tool
+ */
+export const listEvalSuitesSchema = z.object({
+  agentId: z
+    .string()
+    .optional()
+    .describe('Only list suites of this agent (ID or name)'),
+  suiteId: z
+    .string()
+    .optional()
+    .describe('Return a single suite with its cases and recent runs'),
+});
+
+export type ListEvalSuitesInput = z.infer<typeof listEvalSuitesSchema>;
+
+/**
+ * List eval suites, or get one suite with its run history
+ */
+export async function listEvalSuites(
+  input: ListEvalSuitesInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    if (input.suiteId) {
+      const suite = await getEvalSuite(companyId, input.suiteId);
+      if (!suite) {
+        return toolResponse({
+          error: true,
+          message: `Eval suite not found: ${input.suiteId}`,
+        });
+      }
+      const runs = await listEvalRuns(companyId, input.suiteId, 10);
+      return toolResponse({
+        success: true,
+        suite,
+        runs: runs.map((run) => ({
+          id: run._id.toString(),
+          promptVersion: run.promptVersion,
+          draft: run.draft,
+          status: run.status,
+          score: run.score,
+          passRate: run.passRate,
+          passed: run.passed,
+          startedAt: run.startedAt,
+        })),
+      });
+    }
+
+    let assistantId: string | undefined;
+    if (input.agentId) {
+      const agent = await resolveAssistantIdentifier(input.agentId, companyId);
+      if (!agent) {
+        return toolResponse({
+          error: true,
+          message: `Agent not found: ${input.agentId}`,
+        });
+      }
+      assistantId = agent._id.toString();
+    }
+
+    const suites = await listSuites(companyId, assistantId);
+    return toolResponse({
+      success: true,
+      suites: suites.map((suite) => ({
+        id: suite._id.toString(),
+        name: suite.name,
+        assistantId: suite.assistantId.toString(),
+        cases: suite.cases.length,
+        minPassRate: suite.minPassRate,
+      })),
+      count: suites.length,
+    });
+  } catch (error) {
+    console.error('MCP list eval suites error:', error);
+    return toolError(error, 'Failed to list eval suites');
+  }
+}
+
+/**
+ * Input schema for the create_eval_suite tool
+ */
+export const createEvalSuiteSchema = z.object({
+  agentId: z.string().describe('The ID or name of the agent under test'),
+  name: z.string().describe('Suite name'),
+  description: z.string().optional().describe('What the suite covers'),
+  cases: z.array(caseSchema).describe('Test cases'),
+  minPassRate: z
+    .number()
+    .optional()
+    .describe(
+      'Share of cases (0-1) that must pass for a run to pass (default: 1)',
+    ),
+});
+
+export type CreateEvalSuiteInput = z.infer<typeof createEvalSuiteSchema>;
+
+/**
+ * Create an eval suite
+ */
+export async function createEvalSuite(
+  input: CreateEvalSuiteInput,
+  companyId: string,
+  userId: string,
+): Promise<ToolResult> {
+  try {
+    const { agentId, ...fields } = input;
+    const agent = await resolveAssistantIdentifier(agentId, companyId);
+    if (!agent) {
+      return toolResponse({
+        error: true,
+        message: `Agent not found: ${agentId}`,
+      });
+    }
+
+    const suite = await createSuite(
+      companyId,
+      { ...fields, assistantId: agent._id.toString() } as EvalSuiteInput,
+      userId,
+    );
+
+    return toolResponse({
+      success: true,
+      suite: {
+        id: suite._id.toString(),
+        name: suite.name,
+        cases: suite.cases.length,
+        minPassRate: suite.minPassRate,
+      },
+      message: `Eval suite "${suite.name}" created for agent ${agent.name}`,
+    });
+  } catch (error) {
+    console.error('MCP create eval suite error:', error);
+    return toolError(error, 'Failed to create eval suite');
+  }
+}
+
+/**
+ * Input schema for the update_eval_suite tool
+ */
+export const updateEvalSuiteSchema = z.object({
+  suiteId: z.string().describe('The ID of the suite to update'),
+  name: z.string().optional().describe('New suite name'),
+  description: z.string().optional().describe('New description'),
+  cases: z
+    .array(caseSchema)
+    .optional()
+    .describe('Replaces the case list; pass _id to keep existing cases'),
+  minPassRate: z.number().optional().describe('New minimum pass rate (0-1)'),
+});
+
+export type UpdateEvalSuiteInput = z.infer<typeof updateEvalSuiteSchema>;
+
+/**
+ * Update an eval suite
+ */
+export async function updateEvalSuite(
+  input: UpdateEvalSuiteInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    const { suiteId, ...fields } = input;
+    const suite = await updateSuite(
+      companyId,
+      suiteId,
+      fields as EvalSuiteInput,
+    );
+
+    return toolResponse({
+      success: true,
+      suite: {
+        id: suite._id.toString(),
+        name: suite.name,
+        cases: suite.cases.length,
+        minPassRate: suite.minPassRate,
+      },
+      updatedFields: Object.keys(fields).filter(
+        (key) => fields[key as keyof typeof fields] !== undefined,
+      ),
+    });
+  } catch (error) {
+    console.error('MCP update eval suite error:', error);
+    return toolError(error, 'Failed to update eval suite');
+  }
+}
+
+/**
+ * Input schema for the delete_eval_suite tool
+ */
+export const deleteEvalSuiteSchema = z.object({
+  suiteId: z.string().describe('The ID of the suite to delete'),
+});
+
+export type DeleteEvalSuiteInput = z.infer<typeof deleteEvalSuiteSchema>;
+
+/**
+ * Delete an eval suite and its runs
+ */
+export async function deleteEvalSuite(
+  input: DeleteEvalSuiteInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    const deleted = await deleteSuite(companyId, input.suiteId);
+    if (!deleted) {
+      return toolResponse({
+        error: true,
+        message: `Eval suite not found: ${input.suiteId}`,
+      });
+    }
+    return toolResponse({
+      success: true,
+      message: `Eval suite ${input.suiteId} deleted`,
+    });
+  } catch (error) {
+    console.error('MCP delete eval suite error:', error);
+    return toolError(error, 'Failed to delete eval suite');
+  }
+}
+
+/**
+ * Input schema for the run_eval_suite tool
+ */
+export const runEvalSuiteSchema = z.object({
+  suiteId: z.string().describe('The ID of the suite to run'),
+  promptVersion: z
+    .number()
+    .optional()
+    .describe('Prompt history version to evaluate (default: latest)'),
+  promptContent: z
+    .string()
+    .optional()
+    .describe('Evaluate this draft prompt instead of a saved version'),
+});
+
+export type RunEvalSuiteInput = z.infer<typeof runEvalSuiteSchema>;
+
+/**
+ * Start a suite run
+ */
+export async function runEvalSuite(
+  input: RunEvalSuiteInput,
+  companyId: string,
+  userId: string,
+): Promise<ToolResult> {
+  try {
+    const { suiteId, ...options } = input;
+    const run = await startEvalRun(companyId, suiteId, options, userId);
+    return toolResponse({
+      success: true,
+      runId: run._id.toString(),
+      promptVersion: run.promptVersion,
+      draft: run.draft,
+      status: run.status,
+      message: 'Run started. Use get_eval_run with this runId for the results.',
+    });
+  } catch (error) {
+    console.error('MCP run eval suite error:', error);
+    return toolError(error, 'Failed to run eval suite');
+  }
+}
+
+/**
+ * Input schema for the get_eval_run tool
+ */
+export const getEvalRunSchema = z.object({
+  runId: z.string().describe('The ID of the run'),
+});
+
+export type GetEvalRunInput = z.infer<typeof getEvalRunSchema>;
+
+/**
+ * Get a run with its case results
+ */
+export async function getEvalRun(
+  input: GetEvalRunInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    const run = await getRun(companyId, input.runId);
+    if (!run) {
+      return toolResponse({
+        error: true,
+        message: `Eval run not found: ${input.runId}`,
+      });
+    }
+    return toolResponse({ success: true, run });
+  } catch (error) {
+    console.error('MCP get eval run error:', error);
+    return toolError(error, 'Failed to get eval run');
+  }
+}
+
+/**
+ * Input schema for the compare_eval_versions tool
+ */
+export const compareEvalVersionsSchema = z.object({
+  suiteId: z
+    .string()
+    .optional()
+    .describe('Compare the runs of this suite for two prompt versions'),
+  baseVersion: z.number().optional().describe('Baseline prompt version'),
+  candidateVersion: z.number().describe('Prompt version being evaluated'),
+  agentId: z
+    .string()
+    .optional()
+    .describe(
+      'Instead of suiteId: check whether candidateVersion passes all suites of this agent (ID or name)',
+    ),
+});
+
+export type CompareEvalVersionsInput = z.infer<
+  typeof compareEvalVersionsSchema
+>;
+
+/**
+ * Compare two prompt versions on a suite, or check a version against all
+ * of an agent's suites
+ */
+export async function compareEvalVersions(
+  input: CompareEvalVersionsInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    if (input.agentId) {
+      const agent = await resolveAssistantIdentifier(input.agentId, companyId);
+      if (!agent) {
+        return toolResponse({
+          error: true,
+          message: `Agent not found: ${input.agentId}`,
+        });
+      }
+      const status = await getPromptEvalStatus(
+        companyId,
+        agent._id.toString(),
+        input.candidateVersion,
+      );
+      return toolResponse({ success: true, ...status });
+    }
+
+    if (!input.suiteId || input.baseVersion === undefined) {
+      return toolResponse({
+        error: true,
+        message: 'Provide suiteId and baseVersion, or agentId',
+      });
+    }
+
+    const comparison = await compareVersions(
+      companyId,
+      input.suiteId,
+      input.baseVersion,
+      input.candidateVersion,
+    );
+    return toolResponse({ success: true, ...comparison });
+  } catch (error) {
+    console.error('MCP compare eval versions error:', error);
+    return toolError(error, 'Failed to compare eval versions');
+  }
+}
+
+export const listEvalSuitesTool = {
+  name: 'list_eval_suites',
+  description:
+    'List agent eval suites. Pass a suiteId to get one suite with its test cases and recent runs (prompt version, score, pass rate).',
+  inputSchema: listEvalSuitesSchema,
+};
+
+export const createEvalSuiteTool = {
+  name: 'create_eval_suite',
+  description:
+    'Create an eval suite for an agent. Each case has an input message, expected tool calls and assertions on the output: contains, regex, json_schema or llm_judge (a rubric scored by a grader model).',
+  inputSchema: createEvalSuiteSchema,
+};
+
+export const updateEvalSuiteTool = {
+  name: 'update_eval_suite',
+  description:
+    'Update an eval suite. Only the provided fields change; cases replaces the whole case list.',
+  inputSchema: updateEvalSuiteSchema,
+};
+
+export const deleteEvalSuiteTool = {
+  name: 'delete_eval_suite',
+  description: 'Delete an eval suite and its run history.',
+  inputSchema: deleteEvalSuiteSchema,
+};
+
+export const runEvalSuiteTool = {
+  name: 'run_eval_suite',
+  description:
+    "Run an eval suite against a prompt version (default: latest) or a draft prompt. The agent's tools really execute. Returns once the run has started.",
+  inputSchema: runEvalSuiteSchema,
+};
+
+export const getEvalRunTool = {
+  name: 'get_eval_run',
+  description:
+    'Get an eval run with per-case output, tool calls, check results and scores.',
+  inputSchema: getEvalRunSchema,
+};
+
+export const compareEvalVersionsTool = {
+  name: 'compare_eval_versions',
+  description:
+    "Compare two prompt versions on an eval suite (regressions and fixes per case), or pass agentId to check whether a prompt version passes all of the agent's suites before rolling it out.",
+  inputSchema: compareEvalVersionsSchema,
+};
@@ -89,12 +89,14 @@ interface ToolCallInfo {
 }
 
 /**
- * Execute an AI assistant using direct service integration
+ * Execute an AI assistant using direct service integration. `apiKeyId` is
+ * the key the MCP request was authenticated with, for its budgets.
  */
 export async function execute(
   input: ExecuteInput,
   companyId: string,
   userId: string,
+  apiKeyId?: string,
 ): Promise<{
   content: Array<{ type: string; text: string }>;
   toolCalls?: ToolCallInfo[];
@@ -131,6 +133,7 @@ export async function execute(
       input.responseFormat as any, // responseFormat for JSON mode (json_object only via MCP)
       input.sessionId ? { sessionId: input.sessionId } : undefined,
       input.systemPromptOverride,
+      apiKeyId ? { apiKeyId } : undefined,
     );
 
     // Extract tool calls and errors if present
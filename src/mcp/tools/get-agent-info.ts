@@ -62,10 +62,15 @@ export async function getAgentInfo(
               llmProvider: agent.llmProvider,
               llmModel: agent.llmModel,
               maxTokens: agent.maxTokens,
+              fallbackModels: agent.fallbackModels || [],
+              contextMode: agent.contextMode || 'truncate',
               voice: agent.voice,
               language: agent.language,
               teams: agent.teams?.map((t) => t.toString()) || [],
               allowedActions: agent.allowedActions || [],
+              approvalRequiredActions: agent.approvalRequiredActions || [],
+              actionApprovers:
+                agent.actionApprovers?.map((id) => id.toString()) || [],
               avatarImage: agent.avatarImage,
               lastAccessedAt: agent.lastAccessedAt,
             },
@@ -8,6 +8,7 @@ import { z } from 'zod';
 import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
 import { validateSessionOwnership } from '../../services/session/session-resolver.service';
 import { getWorkspaceService } from '../../services/unified-workspace.service';
+import { assertWorkspaceAccess } from '../../services/workspace-acl.service';
 
 /**
  * Input schema for the get_workspace_item tool
@@ -40,6 +41,7 @@ export type GetWorkspaceItemInput = z.infer<typeof getWorkspaceItemSchema>;
 export async function getWorkspaceItem(
   input: GetWorkspaceItemInput,
   companyId: string,
+  userId?: string,
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
   try {
     const scope = input.scope || 'agent';
@@ -93,6 +95,15 @@ export async function getWorkspaceItem(
         break;
     }
 
+    // Enforce workspace ACLs for the calling user
+    if (userId) {
+      await assertWorkspaceAccess(
+        { type: 'user', id: userId, companyId },
+        fullPath,
+        'read',
+      );
+    }
+
     // Get the workspace item
     const item = await workspace.get(fullPath);
 
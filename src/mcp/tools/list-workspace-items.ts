@@ -8,6 +8,7 @@ import { z } from 'zod';
 import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
 import { validateSessionOwnership } from '../../services/session/session-resolver.service';
 import { getWorkspaceService } from '../../services/unified-workspace.service';
+import { createWorkspaceAccessChecker } from '../../services/workspace-acl.service';
 
 /**
  * Input schema for the list_workspace_items tool
@@ -41,6 +42,7 @@ export type ListWorkspaceItemsInput = z.infer<typeof listWorkspaceItemsSchema>;
 export async function listWorkspaceItems(
   input: ListWorkspaceItemsInput,
   companyId: string,
+  userId?: string,
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
   try {
     const scope = input.scope || 'agent';
@@ -92,7 +94,17 @@ export async function listWorkspaceItems(
     const fullPrefix = input.prefix ? `${basePath}${input.prefix}` : basePath;
 
     // List all workspace items with the prefix
-    const items = await workspace.list(fullPrefix);
+    let items = await workspace.list(fullPrefix);
+
+    // Hide items the calling user may not read
+    if (userId) {
+      const checker = await createWorkspaceAccessChecker({
+        type: 'user',
+        id: userId,
+        companyId,
+      });
+      items = checker.filter(items, 'read');
+    }
 
     // Remove the base path prefix from results for cleaner display
     const cleanedItems = items.map((item) => {
@@ -8,6 +8,7 @@ import { z } from 'zod';
 import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
 import { validateSessionOwnership } from '../../services/session/session-resolver.service';
 import { getWorkspaceService } from '../../services/unified-workspace.service';
+import { assertWorkspaceAccess } from '../../services/workspace-acl.service';
 
 /**
  * Input schema for the move_workspace_item tool
@@ -49,6 +50,7 @@ export type MoveWorkspaceItemInput = z.infer<typeof moveWorkspaceItemSchema>;
 export async function moveWorkspaceItem(
   input: MoveWorkspaceItemInput,
   companyId: string,
+  userId?: string,
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
   try {
     const fromScope = input.fromScope || 'agent';
@@ -143,6 +145,15 @@ export async function moveWorkspaceItem(
         break;
     }
 
+    // Enforce workspace ACLs for the calling user: moving reads and
+    // deletes the source and writes the destination
+    if (userId) {
+      const principal = { type: 'user' as const, id: userId, companyId };
+      await assertWorkspaceAccess(principal, fromFullPath, 'read');
+      await assertWorkspaceAccess(principal, fromFullPath, 'delete');
+      await assertWorkspaceAccess(principal, toFullPath, 'write');
+    }
+
     // Check if source item exists
     const exists = await workspace.exists(fromFullPath);
     if (!exists) {
@@ -0,0 +1,360 @@
+/**
+ * Scheduled Job Tools
+ *
+ * MCP tools for managing recurring agent runs.
+ */
+
+import { z } from 'zod';
+import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
+import {
+  listScheduledJobs as listJobs,
+  getScheduledJob,
+  createScheduledJob as createJob,
+  updateScheduledJob as updateJob,
+  deleteScheduledJob as deleteJob,
+  listScheduledJobRuns,
+  triggerScheduledJob,
+  ScheduledJobInput,
+} from '../../services/scheduler.service';
+
+type ToolResult = { content: Array<{ type: string; text: string }> };
+
+function toolResponse(payload: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }],
+  };
+}
+
+function toolError(error: unknown, fallback: string): ToolResult {
+  return toolResponse({
+    error: true,
+    message: error instanceof Error ? error.message : fallback,
+  });
+}
+
+const workspaceInputSchema = z.object({
+  scope: z
+    .enum(['company', 'agent'])
+    .optional()
+    .default('agent')
+    .describe('Workspace scope the path belongs to (default: agent)'),
+  path: z.string().describe('Workspace path, e.g. "/notes/sources.md"'),
+});
+
+const outputSchema = z.object({
+  type: z
+    .enum(['none', 'workspace', 'inbox', 'email'])
+    .describe('Where to deliver the run output'),
+  scope: z
+    .enum(['company', 'agent'])
+    .optional()
+    .describe('Workspace scope for workspace output'),
+  path: z
+    .string()
+    .optional()
+    .describe(
+      'Workspace path for workspace output. "{date}" is replaced with the run date (e.g. "/reports/{date}.md")',
+    ),
+  to: z.array(z.string()).optional().describe('Recipients for email output'),
+  subject: z
+    .string()
+    .optional()
+    .describe('Email subject (defaults to the job name)'),
+});
+
+/**
+ * Input schema for the list_scheduled_jobs tool
+ */
+export const listScheduledJobsSchema = z.object({
+  agentId: z
+    .string()
+    .optional()
+    .describe('Only list jobs of this agent (ID or name)'),
+  jobId: z
+    .string()
+    .optional()
+    .describe('Return a single job together with its recent runs'),
+});
+
+export type ListScheduledJobsInput = z.infer<typeof listScheduledJobsSchema>;
+
+/**
+ * List scheduled jobs, or get one job with its run history
+ */
+export async function listScheduledJobs(
+  input: ListScheduledJobsInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    if (input.jobId) {
+      const job = await getScheduledJob(companyId, input.jobId);
+      if (!job) {
+        return toolResponse({
+          error: true,
+          message: `Scheduled job not found: ${input.jobId}`,
+        });
+      }
+      const runs = await listScheduledJobRuns(companyId, input.jobId, 10);
+      return toolResponse({ success: true, job, runs });
+    }
+
+    let assistantId: string | undefined;
+    if (input.agentId) {
+      const agent = await resolveAssistantIdentifier(input.agentId, companyId);
+      if (!agent) {
+        return toolResponse({
+          error: true,
+          message: `Agent not found: ${input.agentId}`,
+        });
+      }
+      assistantId = agent._id.toString();
+    }
+
+    const jobs = await listJobs(companyId, assistantId);
+    return toolResponse({
+      success: true,
+      jobs: jobs.map((job) => ({
+        id: job._id.toString(),
+        name: job.name,
+        assistantId: job.assistantId.toString(),
+        schedule: job.schedule,
+        timezone: job.timezone,
+        enabled: job.enabled,
+        output: job.output?.type,
+        nextRunAt: job.nextRunAt,
+        lastRunAt: job.lastRunAt,
+        lastRunStatus: job.lastRunStatus,
+      })),
+      count: jobs.length,
+    });
+  } catch (error) {
+    console.error('MCP list scheduled jobs error:', error);
+    return toolError(error, 'Failed to list scheduled jobs');
+  }
+}
+
+/**
+ * Input schema for the create_scheduled_job tool
+ */
+export const createScheduledJobSchema = z.object({
+  agentId: z.string().describe('The ID or name of the agent that runs the job'),
+  name: z.string().describe('Job name'),
+  description: z.string().optional().describe('What the job is for'),
+  schedule: z
+    .string()
+    .describe(
+      'Cron expression (minute hour day-of-month month day-of-week) or alias, e.g. "0 9 * * 1-5" or "@daily"',
+    ),
+  timezone: z
+    .string()
+    .optional()
+    .describe('IANA time zone for the schedule (default: UTC)'),
+  prompt: z.string().describe('Instruction sent to the agent on every run'),
+  workspaceInputs: z
+    .array(workspaceInputSchema)
+    .optional()
+    .describe('Workspace items appended to the prompt as context'),
+  output: outputSchema.optional().describe('Output destination'),
+  enabled: z
+    .boolean()
+    .optional()
+    .describe('Whether the job runs (default: true)'),
+  maxRetries: z
+    .number()
+    .optional()
+    .describe('Retries after a failed run, 0-5 (default: 2)'),
+});
+
+export type CreateScheduledJobInput = z.infer<typeof createScheduledJobSchema>;
+
+/**
+ * Create a scheduled job
+ */
+export async function createScheduledJob(
+  input: CreateScheduledJobInput,
+  companyId: string,
+  userId: string,
+): Promise<ToolResult> {
+  try {
+    const { agentId, ...fields } = input;
+    const agent = await resolveAssistantIdentifier(agentId, companyId);
+    if (!agent) {
+      return toolResponse({
+        error: true,
+        message: `Agent not found: ${agentId}`,
+      });
+    }
+
+    const job = await createJob(
+      companyId,
+      { ...fields, assistantId: agent._id.toString() } as ScheduledJobInput,
+      userId,
+    );
+
+    return toolResponse({
+      success: true,
+      job: {
+        id: job._id.toString(),
+        name: job.name,
+        schedule: job.schedule,
+        timezone: job.timezone,
+        nextRunAt: job.nextRunAt,
+      },
+      message: `Scheduled job "${job.name}" created for agent ${agent.name}`,
+    });
+  } catch (error) {
+    console.error('MCP create scheduled job error:', error);
+    return toolError(error, 'Failed to create scheduled job');
+  }
+}
+
+/**
+ * Input schema for the update_scheduled_job tool
+ */
+export const updateScheduledJobSchema = z.object({
+  jobId: z.string().describe('The ID of the job to update'),
+  name: z.string().optional().describe('New job name'),
+  description: z.string().optional().describe('New description'),
+  schedule: z.string().optional().describe('New cron expression or alias'),
+  timezone: z.string().optional().describe('New IANA time zone'),
+  prompt: z.string().optional().describe('New prompt'),
+  workspaceInputs: z
+    .array(workspaceInputSchema)
+    .optional()
+    .describe('Replaces the workspace inputs'),
+  output: outputSchema.optional().describe('Replaces the output destination'),
+  enabled: z.boolean().optional().describe('Enable or pause the job'),
+  maxRetries: z.number().optional().describe('Retries after a failed run'),
+});
+
+export type UpdateScheduledJobInput = z.infer<typeof updateScheduledJobSchema>;
+
+/**
+ * Update a scheduled job
+ */
+export async function updateScheduledJob(
+  input: UpdateScheduledJobInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    const { jobId, ...fields } = input;
+    const job = await updateJob(companyId, jobId, fields as ScheduledJobInput);
+
+    return toolResponse({
+      success: true,
+      job: {
+        id: job._id.toString(),
+        name: job.name,
+        schedule: job.schedule,
+        timezone: job.timezone,
+        enabled: job.enabled,
+        nextRunAt: job.nextRunAt,
+      },
+      updatedFields: Object.keys(fields).filter(
+        (key) => fields[key as keyof typeof fields] !== undefined,
+      ),
+    });
+  } catch (error) {
+    console.error('MCP update scheduled job error:', error);
+    return toolError(error, 'Failed to update scheduled job');
+  }
+}
+
+/**
+ * Input schema for the delete_scheduled_job tool
+ */
+export const deleteScheduledJobSchema = z.object({
+  jobId: z.string().describe('The ID of the job to delete'),
+});
+
+export type DeleteScheduledJobInput = z.infer<typeof deleteScheduledJobSchema>;
+
+/**
+ * Delete a scheduled job and its run history
+ */
+export async function deleteScheduledJob(
+  input: DeleteScheduledJobInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    const deleted = await deleteJob(companyId, input.jobId);
+    if (!deleted) {
+      return toolResponse({
+        error: true,
+        message: `Scheduled job not found: ${input.jobId}`,
+      });
+    }
+    return toolResponse({
+      success: true,
+      message: `Scheduled job ${input.jobId} deleted`,
+    });
+  } catch (error) {
+    console.error('MCP delete scheduled job error:', error);
+    return toolError(error, 'Failed to delete scheduled job');
+  }
+}
+
+/**
+ * Input schema for the run_scheduled_job tool
+ */
+export const runScheduledJobSchema = z.object({
+  jobId: z.string().describe('The ID of the job to run now'),
+});
+
+export type RunScheduledJobInput = z.infer<typeof runScheduledJobSchema>;
+
+/**
+ * Start a job run immediately
+ */
+export async function runScheduledJob(
+  input: RunScheduledJobInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    const run = await triggerScheduledJob(companyId, input.jobId);
+    return toolResponse({
+      success: true,
+      runId: run._id.toString(),
+      status: run.status,
+      message:
+        'Run started. Use list_scheduled_jobs with this jobId to check its outcome.',
+    });
+  } catch (error) {
+    console.error('MCP run scheduled job error:', error);
+    return toolError(error, 'Failed to run scheduled job');
+  }
+}
+
+export const listScheduledJobsTool = {
+  name: 'list_scheduled_jobs',
+  description:
+    'List scheduled (recurring) agent jobs with their schedule, next run and last status. Pass a jobId to get one job with its recent runs, including output, delivery and cost.',
+  inputSchema: listScheduledJobsSchema,
+};
+
+export const createScheduledJobTool = {
+  name: 'create_scheduled_job',
+  description:
+    'Schedule an agent to run a prompt on a cron schedule. Workspace items can be attached as inputs, and output can be written to the workspace, posted to the inbox or emailed.',
+  inputSchema: createScheduledJobSchema,
+};
+
+export const updateScheduledJobTool = {
+  name: 'update_scheduled_job',
+  description:
+    'Update a scheduled job. Only the provided fields change; set enabled to false to pause it.',
+  inputSchema: updateScheduledJobSchema,
+};
+
+export const deleteScheduledJobTool = {
+  name: 'delete_scheduled_job',
+  description: 'Delete a scheduled job and its run history.',
+  inputSchema: deleteScheduledJobSchema,
+};
+
+export const runScheduledJobTool = {
+  name: 'run_scheduled_job',
+  description:
+    'Run a scheduled job immediately, outside its schedule. Returns once the run has started.',
+  inputSchema: runScheduledJobSchema,
+};
@@ -49,12 +49,14 @@ export const sendMessageSchema = z.object({
 export type SendMessageInput = z.infer<typeof sendMessageSchema>;
 
 /**
- * Send a message to a session and optionally wait for response
+ * Send a message to a session and optionally wait for response. `apiKeyId`
+ * is the key the MCP request was authenticated with, for its budgets.
  */
 export async function sendMessage(
   input: SendMessageInput,
   companyId: string,
   _userId: string,
+  apiKeyId?: string,
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
   try {
     // Validate session ownership
@@ -79,7 +81,7 @@ export async function sendMessage(
     const result = await handleSessionMessage(
       input.message,
       input.sessionId,
-      undefined, // No streaming metadata
+      apiKeyId ? { apiKeyId } : undefined, // No streaming metadata
       attachments,
     );
 
@@ -5,6 +5,7 @@
  * Supports lookup by agent ID or name
  */
 
+import mongoose from 'mongoose';
 import { z } from 'zod';
 import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
 import promptHistoryService from '../../services/prompt-history.service';
@@ -28,9 +29,11 @@ export const updateAgentSchema = z.object({
     .optional()
     .describe('New system prompt/instructions for the agent'),
   llmProvider: z
-    .enum(['openai', 'google', 'anthropic'])
+    .string()
     .optional()
-    .describe('LLM provider (openai, google, or anthropic)'),
+    .describe(
+      'LLM provider (openai, google, anthropic, or the key of a custom provider registered by the company)',
+    ),
   llmModel: z
     .string()
     .optional()
@@ -41,6 +44,77 @@ export const updateAgentSchema = z.object({
     .number()
     .optional()
     .describe('Maximum tokens for model output (default: 25000)'),
+  fallbackModels: z
+    .array(
+      z.object({
+        llmProvider: z.string().describe('Provider of the fallback model'),
+        llmModel: z.string().describe('Fallback model name'),
+      }),
+    )
+    .optional()
+    .describe(
+      'Ordered models to try when the primary model fails (rate limit, 5xx, context overflow). Pass [] to clear.',
+    ),
+  modelRetryPolicy: z
+    .object({
+      maxRetries: z.number().int().min(0).max(5).optional(),
+      initialDelayMs: z.number().min(0).optional(),
+      maxDelayMs: z.number().min(0).optional(),
+      backoffMultiplier: z.number().min(1).optional(),
+    })
+    .optional()
+    .describe('Retry/backoff applied to each model before falling over'),
+  contextMode: z
+    .enum(['truncate', 'summarize'])
+    .optional()
+    .describe(
+      'How history beyond maxTokens is handled: truncate drops old messages, summarize compacts them into a stored summary',
+    ),
+  summaryLlmProvider: z
+    .string()
+    .optional()
+    .describe('Provider of the summary model (defaults to llmProvider)'),
+  summaryLlmModel: z
+    .string()
+    .optional()
+    .describe(
+      'Model used to write conversation summaries (defaults to a cheap model of the summary provider)',
+    ),
+  toolHistoryPolicy: z
+    .object({
+      mode: z
+        .enum(['none', 'calls', 'full'])
+        .optional()
+        .describe(
+          'none: replay text only; calls: replay tool calls without outputs; full: replay calls and outputs',
+        ),
+      maxOutputChars: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe('Maximum characters kept per replayed tool output'),
+      maxTurns: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe('Number of recent turns whose tool activity is replayed'),
+    })
+    .optional()
+    .describe('How tool calls and results from earlier turns are replayed'),
+  approvalRequiredActions: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Actions that wait for human approval in the inbox before running, e.g. "jira.deleteTicket", "jira.*" or "*"',
+    ),
+  actionApprovers: z
+    .array(z.string().regex(/^[0-9a-f]{24}$/i, 'Invalid user ID'))
+    .optional()
+    .describe(
+      'IDs of users besides company admins who may approve those actions',
+    ),
 });
 
 export type UpdateAgentInput = z.infer<typeof updateAgentSchema>;
@@ -108,6 +182,48 @@ export async function updateAgent(
       updates.push('maxTokens');
     }
 
+    if (input.fallbackModels !== undefined) {
+      agent.fallbackModels = input.fallbackModels;
+      updates.push('fallbackModels');
+    }
+
+    if (input.modelRetryPolicy !== undefined) {
+      agent.modelRetryPolicy = input.modelRetryPolicy;
+      updates.push('modelRetryPolicy');
+    }
+
+    if (input.contextMode !== undefined) {
+      agent.contextMode = input.contextMode;
+      updates.push('contextMode');
+    }
+
+    if (input.summaryLlmProvider !== undefined) {
+      agent.summaryLlmProvider = input.summaryLlmProvider;
+      updates.push('summaryLlmProvider');
+    }
+
+    if (input.summaryLlmModel !== undefined) {
+      agent.summaryLlmModel = input.summaryLlmModel;
+      updates.push('summaryLlmModel');
+    }
+
+    if (input.toolHistoryPolicy !== undefined) {
+      agent.toolHistoryPolicy = input.toolHistoryPolicy;
+      updates.push('toolHistoryPolicy');
+    }
+
+    if (input.approvalRequiredActions !== undefined) {
+      agent.approvalRequiredActions = input.approvalRequiredActions;
+      updates.push('approvalRequiredActions');
+    }
+
+    if (input.actionApprovers !== undefined) {
+      agent.actionApprovers = input.actionApprovers.map(
+        (id) => new mongoose.Types.ObjectId(id),
+      );
+      updates.push('actionApprovers');
+    }
+
     // Save the agent if any updates were made
     if (updates.length === 0) {
       return {
@@ -160,6 +276,14 @@ export async function updateAgent(
                 llmProvider: agent.llmProvider,
                 llmModel: agent.llmModel,
                 maxTokens: agent.maxTokens,
+                fallbackModels: agent.fallbackModels,
+                modelRetryPolicy: agent.modelRetryPolicy,
+                contextMode: agent.contextMode,
+                summaryLlmProvider: agent.summaryLlmProvider,
+                summaryLlmModel: agent.summaryLlmModel,
+                toolHistoryPolicy: agent.toolHistoryPolicy,
+                approvalRequiredActions: agent.approvalRequiredActions,
+                actionApprovers: agent.actionApprovers,
                 prompt: agent.llmPrompt,
               },
               updatedFields: updates,
@@ -202,6 +326,6 @@ export async function updateAgent(
 export const updateAgentTool = {
   name: 'update_agent',
   description:
-    "Update an AI agent's core metadata including name, description, system prompt, LLM provider, model, and max tokens. Supports lookup by agent ID or name. Only updates the fields provided.",
+    "Update an AI agent's core metadata including name, description, system prompt, LLM provider, model, fallback models, context mode, and max tokens. Supports lookup by agent ID or name. Only updates the fields provided.",
   inputSchema: updateAgentSchema,
 };
@@ -7,6 +7,7 @@
 import { z } from 'zod';
 import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
 import { getVectorSearchService } from '../../services/vector-search.service';
+import { createWorkspaceAccessChecker } from '../../services/workspace-acl.service';
 
 /**
  * Input schema for the vector_search_workspace tool
@@ -54,6 +55,7 @@ export type VectorSearchWorkspaceInput = z.infer<
 export async function vectorSearchWorkspace(
   input: VectorSearchWorkspaceInput,
   companyId: string,
+  userId?: string,
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
   try {
     const scope = input.scope || 'agent';
@@ -73,7 +75,7 @@ export async function vectorSearchWorkspace(
     }
 
     // Perform vector search
-    const results = await vectorSearch.search(input.query, {
+    let results = await vectorSearch.search(input.query, {
       scope,
       scopeId: resolvedScopeId,
       limit,
@@ -81,6 +83,20 @@ export async function vectorSearchWorkspace(
       companyId,
     });
 
+    // Hide results the calling user may not read
+    if (userId) {
+      const checker = await createWorkspaceAccessChecker({
+        type: 'user',
+        id: userId,
+        companyId,
+      });
+      results = checker.filter(
+        results,
+        'read',
+        (result) => `/${result.scope}/${result.scopeId}/${result.path}`,
+      );
+    }
+
     // Format results for MCP response
     const formattedResults = results.map((result) => ({
       path: result.path,
@@ -90,6 +106,7 @@ export async function vectorSearchWorkspace(
       contentType: result.metadata?.contentType,
       size: result.metadata?.size,
       createdAt: result.metadata?.createdAt,
+      chunks: result.chunks,
     }));
 
     return {
@@ -0,0 +1,403 @@
+/**
+ * Workflow Tools
+ *
+ * MCP tools for defining multi-step workflows and following their runs.
+ */
+
+import { z } from 'zod';
+import {
+  listWorkflows as listAll,
+  getWorkflow,
+  createWorkflow as create,
+  updateWorkflow as update,
+  deleteWorkflow as remove,
+  startWorkflowRun,
+  getWorkflowRun as getRun,
+  listWorkflowRuns,
+  cancelWorkflowRun as cancelRun,
+  decideWorkflowApproval,
+} from '../../services/workflow/workflow.service';
+
+type ToolResult = { content: Array<{ type: string; text: string }> };
+
+function toolResponse(payload: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }],
+  };
+}
+
+function toolError(error: unknown, fallback: string): ToolResult {
+  return toolResponse({
+    error: true,
+    message: error instanceof Error ? error.message : fallback,
+  });
+}
+
+const definitionDescription =
+  'Workflow definition as JSON or YAML text: { inputSchema?, steps: [...], output? }. Step types: assistant (assistantId, prompt, outputSchema?), action (action "<integration>.<action>", args?), condition (if, then, else?), parallel (branches), loop (over, steps) and approval (message). Strings may reference "{{input.x}}", "{{steps.<id>.output}}" and, inside loops, "{{item}}" and "{{index}}".';
+
+/**
+ * Input schema for the list_workflows tool
+ */
+export const listWorkflowsSchema = z.object({
+  workflowId: z
+    .string()
+    .optional()
+    .describe('Return a single workflow with its definition and recent runs'),
+});
+
+export type ListWorkflowsInput = z.infer<typeof listWorkflowsSchema>;
+
+/**
+ * List workflows, or get one workflow with its run history
+ */
+export async function listWorkflows(
+  input: ListWorkflowsInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    if (input.workflowId) {
+      const workflow = await getWorkflow(companyId, input.workflowId);
+      if (!workflow) {
+        return toolResponse({
+          error: true,
+          message: `Workflow not found: ${input.workflowId}`,
+        });
+      }
+      const runs = await listWorkflowRuns(companyId, {
+        workflowId: input.workflowId,
+        limit: 10,
+      });
+      return toolResponse({ success: true, workflow, runs });
+    }
+
+    const workflows = await listAll(companyId);
+    return toolResponse({
+      success: true,
+      workflows: workflows.map((workflow) => ({
+        id: workflow._id.toString(),
+        name: workflow.name,
+        description: workflow.description,
+        version: workflow.version,
+        steps: workflow.definition.steps.length,
+      })),
+      count: workflows.length,
+    });
+  } catch (error) {
+    console.error('MCP list workflows error:', error);
+    return toolError(error, 'Failed to list workflows');
+  }
+}
+
+/**
+ * Input schema for the create_workflow tool
+ */
+export const createWorkflowSchema = z.object({
+  name: z.string().describe('Workflow name, unique within the company'),
+  description: z.string().optional().describe('What the workflow does'),
+  source: z.string().describe(definitionDescription),
+});
+
+export type CreateWorkflowInput = z.infer<typeof createWorkflowSchema>;
+
+/**
+ * Create a workflow
+ */
+export async function createWorkflow(
+  input: CreateWorkflowInput,
+  companyId: string,
+  userId: string,
+): Promise<ToolResult> {
+  try {
+    const workflow = await create(companyId, input, userId);
+    return toolResponse({
+      success: true,
+      workflow: {
+        id: workflow._id.toString(),
+        name: workflow.name,
+        format: workflow.format,
+        version: workflow.version,
+      },
+      message: `Workflow "${workflow.name}" created`,
+    });
+  } catch (error) {
+    console.error('MCP create workflow error:', error);
+    return toolError(error, 'Failed to create workflow');
+  }
+}
+
+/**
+ * Input schema for the update_workflow tool
+ */
+export const updateWorkflowSchema = z.object({
+  workflowId: z.string().describe('The ID of the workflow to update'),
+  name: z.string().optional().describe('New workflow name'),
+  description: z.string().optional().describe('New description'),
+  source: z
+    .string()
+    .optional()
+    .describe('Replaces the definition (JSON or YAML); bumps the version'),
+});
+
+export type UpdateWorkflowInput = z.infer<typeof updateWorkflowSchema>;
+
+/**
+ * Update a workflow
+ */
+export async function updateWorkflow(
+  input: UpdateWorkflowInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    const { workflowId, ...fields } = input;
+    const workflow = await update(companyId, workflowId, fields);
+    return toolResponse({
+      success: true,
+      workflow: {
+        id: workflow._id.toString(),
+        name: workflow.name,
+        version: workflow.version,
+      },
+      updatedFields: Object.keys(fields).filter(
+        (key) => fields[key as keyof typeof fields] !== undefined,
+      ),
+    });
+  } catch (error) {
+    console.error('MCP update workflow error:', error);
+    return toolError(error, 'Failed to update workflow');
+  }
+}
+
+/**
+ * Input schema for the delete_workflow tool
+ */
+export const deleteWorkflowSchema = z.object({
+  workflowId: z.string().describe('The ID of the workflow to delete'),
+});
+
+export type DeleteWorkflowInput = z.infer<typeof deleteWorkflowSchema>;
+
+/**
+ * Delete a workflow and its run history
+ */
+export async function deleteWorkflow(
+  input: DeleteWorkflowInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    const deleted = await remove(companyId, input.workflowId);
+    if (!deleted) {
+      return toolResponse({
+        error: true,
+        message: `Workflow not found: ${input.workflowId}`,
+      });
+    }
+    return toolResponse({
+      success: true,
+      message: `Workflow ${input.workflowId} deleted`,
+    });
+  } catch (error) {
+    console.error('MCP delete workflow error:', error);
+    return toolError(error, 'Failed to delete workflow');
+  }
+}
+
+/**
+ * Input schema for the run_workflow tool
+ */
+export const runWorkflowSchema = z.object({
+  workflowId: z.string().describe('The ID of the workflow to run'),
+  input: z
+    .record(z.string(), z.unknown())
+    .optional()
+    .describe("Run input, validated against the workflow's inputSchema"),
+});
+
+export type RunWorkflowInput = z.infer<typeof runWorkflowSchema>;
+
+/**
+ * Start a workflow run
+ */
+export async function runWorkflow(
+  input: RunWorkflowInput,
+  companyId: string,
+  userId: string,
+): Promise<ToolResult> {
+  try {
+    const run = await startWorkflowRun(
+      companyId,
+      input.workflowId,
+      input.input,
+      userId,
+    );
+    return toolResponse({
+      success: true,
+      runId: run._id.toString(),
+      status: run.status,
+      message:
+        'Run started. Use get_workflow_run with this runId to follow it.',
+    });
+  } catch (error) {
+    console.error('MCP run workflow error:', error);
+    return toolError(error, 'Failed to run workflow');
+  }
+}
+
+/**
+ * Input schema for the get_workflow_run tool
+ */
+export const getWorkflowRunSchema = z.object({
+  runId: z.string().describe('The ID of the run'),
+});
+
+export type GetWorkflowRunInput = z.infer<typeof getWorkflowRunSchema>;
+
+/**
+ * Get a run with the state of each step
+ */
+export async function getWorkflowRun(
+  input: GetWorkflowRunInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    const run = await getRun(companyId, input.runId);
+    if (!run) {
+      return toolResponse({
+        error: true,
+        message: `Workflow run not found: ${input.runId}`,
+      });
+    }
+    return toolResponse({ success: true, run });
+  } catch (error) {
+    console.error('MCP get workflow run error:', error);
+    return toolError(error, 'Failed to get workflow run');
+  }
+}
+
+/**
+ * Input schema for the cancel_workflow_run tool
+ */
+export const cancelWorkflowRunSchema = z.object({
+  runId: z.string().describe('The ID of the run to cancel'),
+});
+
+export type CancelWorkflowRunInput = z.infer<typeof cancelWorkflowRunSchema>;
+
+/**
+ * Cancel a running or paused run
+ */
+export async function cancelWorkflowRun(
+  input: CancelWorkflowRunInput,
+  companyId: string,
+): Promise<ToolResult> {
+  try {
+    const run = await cancelRun(companyId, input.runId);
+    return toolResponse({
+      success: true,
+      runId: input.runId,
+      status: run.status,
+    });
+  } catch (error) {
+    console.error('MCP cancel workflow run error:', error);
+    return toolError(error, 'Failed to cancel workflow run');
+  }
+}
+
+/**
+ * Input schema for the decide_workflow_step tool
+ */
+export const decideWorkflowStepSchema = z.object({
+  runId: z.string().describe('The ID of the run'),
+  step: z
+    .string()
+    .describe(
+      'Key of the approval step in the run\'s steps (e.g. "review" or "each#2/review")',
+    ),
+  approved: z.boolean().describe('Approve (true) or reject (false) the step'),
+  reason: z.string().optional().describe('Reason recorded with the decision'),
+});
+
+export type DecideWorkflowStepInput = z.infer<typeof decideWorkflowStepSchema>;
+
+/**
+ * Approve or reject a step waiting for approval
+ */
+export async function decideWorkflowStep(
+  input: DecideWorkflowStepInput,
+  companyId: string,
+  userId: string,
+): Promise<ToolResult> {
+  try {
+    const run = await decideWorkflowApproval(
+      companyId,
+      input.runId,
+      input.step,
+      input.approved,
+      userId,
+      input.reason,
+    );
+    return toolResponse({
+      success: true,
+      runId: input.runId,
+      status: run.status,
+      step: run.steps[input.step],
+    });
+  } catch (error) {
+    console.error('MCP decide workflow step error:', error);
+    return toolError(error, 'Failed to decide workflow step');
+  }
+}
+
+export const listWorkflowsTool = {
+  name: 'list_workflows',
+  description:
+    'List multi-step workflows. Pass a workflowId to get one workflow with its definition and recent runs.',
+  inputSchema: listWorkflowsSchema,
+};
+
+export const createWorkflowTool = {
+  name: 'create_workflow',
+  description:
+    'Create a workflow that chains agents and integration actions with conditions, parallel branches, loops and human approval steps.',
+  inputSchema: createWorkflowSchema,
+};
+
+export const updateWorkflowTool = {
+  name: 'update_workflow',
+  description:
+    'Update a workflow. Only the provided fields change; runs in progress keep their definition.',
+  inputSchema: updateWorkflowSchema,
+};
+
+export const deleteWorkflowTool = {
+  name: 'delete_workflow',
+  description: 'Delete a workflow and its run history.',
+  inputSchema: deleteWorkflowSchema,
+};
+
+export const runWorkflowTool = {
+  name: 'run_workflow',
+  description:
+    'Start a workflow run. Returns once the run has started; steps execute in the background.',
+  inputSchema: runWorkflowSchema,
+};
+
+export const getWorkflowRunTool = {
+  name: 'get_workflow_run',
+  description:
+    'Get a workflow run with its status, output, cost and the state of each step, including approvals waiting for a decision.',
+  inputSchema: getWorkflowRunSchema,
+};
+
+export const cancelWorkflowRunTool = {
+  name: 'cancel_workflow_run',
+  description: 'Cancel a workflow run that is running or waiting for approval.',
+  inputSchema: cancelWorkflowRunSchema,
+};
+
+export const decideWorkflowStepTool = {
+  name: 'decide_workflow_step',
+  description:
+    'Approve or reject an approval step of a workflow run. Approving resumes the run; rejecting fails it.',
+  inputSchema: decideWorkflowStepSchema,
+};
@@ -1,9 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
-import NodeCache from 'node-cache';
 import { logger } from '../utils/logger';
+import { getSharedState } from '../services/shared-state/shared-state';
 
-// Create a cache instance for rate limiting
-const rateLimitCache = new NodeCache({ stdTTL: 60 }); // 60 second window
+// Request counters per API key and window, shared by all API instances
+const RATE_LIMIT_NAMESPACE = 'rate-limit';
 
 interface RateLimitConfig {
   windowMs?: number; // Time window in milliseconds (default: 60000 = 1 minute)
@@ -14,7 +14,7 @@ interface RateLimitConfig {
 export const apiKeyRateLimit = (config: RateLimitConfig = {}) => {
   const { windowMs = 60000, maxRequests = 100, skipJWT = true } = config;
 
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     // Skip rate limiting if it's JWT auth and skipJWT is true
     if (skipJWT && !(req as any).isApiKeyAuth) {
       return next();
@@ -30,13 +30,23 @@ export const apiKeyRateLimit = (config: RateLimitConfig = {}) => {
       return next();
     }
 
-    const key = `rate_limit_${apiKeyId}`;
-    const currentCount = rateLimitCache.get<number>(key) || 0;
+    let count: number;
+    try {
+      count = await getSharedState().increment(
+        RATE_LIMIT_NAMESPACE,
+        apiKeyId.toString(),
+        windowMs,
+      );
+    } catch (error) {
+      // Fail open: an unavailable store must not take the API down
+      logger.error('API key rate limit check failed', { apiKeyId, error });
+      return next();
+    }
 
-    if (currentCount >= maxRequests) {
+    if (count > maxRequests) {
       logger.warn('API key rate limit exceeded', {
         apiKeyId,
-        currentCount,
+        currentCount: count - 1,
         maxRequests,
       });
 
@@ -46,15 +56,9 @@ export const apiKeyRateLimit = (config: RateLimitConfig = {}) => {
       });
     }
 
-    // Increment the counter
-    rateLimitCache.set(key, currentCount + 1, Math.ceil(windowMs / 1000));
-
     // Add rate limit headers
     res.setHeader('X-RateLimit-Limit', maxRequests.toString());
-    res.setHeader(
-      'X-RateLimit-Remaining',
-      (maxRequests - currentCount - 1).toString(),
-    );
+    res.setHeader('X-RateLimit-Remaining', (maxRequests - count).toString());
     res.setHeader(
       'X-RateLimit-Reset',
       new Date(Date.now() + windowMs).toISOString(),
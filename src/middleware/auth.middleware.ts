@@ -10,6 +10,8 @@ import { AuthenticationError } from '../utils/errors';
 export interface AuthenticatedRequest extends Request {
   user?: IUser;
   company?: any;
+  isApiKeyAuth?: boolean;
+  apiKeyPermissions?: string[]; // Empty for unrestricted keys
 }
 
 export const verifyTokenMiddleware = async (
@@ -36,6 +38,7 @@ export const verifyTokenMiddleware = async (
       req.company = result.company;
       (req as any).apiKeyId = result.apiKeyDoc._id;
       (req as any).isApiKeyAuth = true;
+      req.apiKeyPermissions = result.apiKeyDoc.permissions || [];
     } else {
       const token = extractTokenFromHeader(authHeader);
       const { user, company } = await verifyToken(token);
@@ -1,7 +1,7 @@
 // src/middleware/errorHandler.middleware.ts
 
 import { Request, Response, NextFunction } from 'express';
-import { CustomError } from '../utils/errors';
+import { BudgetExceededError, CustomError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
 export const errorHandler = (
@@ -27,6 +27,14 @@ export const errorHandler = (
     });
   }
 
+  if (err instanceof BudgetExceededError) {
+    return res.status(err.statusCode).json({
+      message: err.message,
+      code: err.code,
+      budget: err.details,
+    });
+  }
+
   if (err instanceof CustomError) {
     return res.status(err.statusCode).json({
       message: err.message,
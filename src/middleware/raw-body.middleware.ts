@@ -0,0 +1,25 @@
+// file path: /src/middleware/raw-body.middleware.ts
+import { IncomingMessage, ServerResponse } from 'http';
+import { Request } from 'express';
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+// Requests whose unparsed body is kept for signature verification
+const RAW_BODY_PATH_PREFIXES = ['/hooks/'];
+
+/**
+ * `verify` option for the express body parsers. Keeps the exact request
+ * bytes of inbound webhook requests, since senders sign the raw body.
+ */
+export const captureRawBody = (
+  req: IncomingMessage,
+  _res: ServerResponse,
+  buf: Buffer,
+): void => {
+  const url = (req as Request).originalUrl || req.url || '';
+  if (RAW_BODY_PATH_PREFIXES.some((prefix) => url.startsWith(prefix))) {
+    (req as RawBodyRequest).rawBody = buf;
+  }
+};
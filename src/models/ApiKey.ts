@@ -10,7 +10,7 @@ export interface IApiKey extends Document {
   lastUsed?: Date;
   expiresAt: Date;
   isActive: boolean;
-  permissions?: string[];
+  permissions?: string[]; // See utils/permissions; empty means unrestricted
   createdAt: Date;
   updatedAt: Date;
 }
@@ -32,7 +32,7 @@ const ApiKeySchema: Schema = new Schema(
     lastUsed: { type: Date },
     expiresAt: { type: Date, required: true },
     isActive: { type: Boolean, default: true },
-    permissions: [{ type: String }], // For future use - specific API permissions
+    permissions: [{ type: String }], // Scoped permissions, enforced per route and MCP tool
   },
   { timestamps: true },
 );
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { ProviderKey } from '../types/assistant.types';
 
 export interface IIdentifier {
   key: string;
@@ -10,6 +11,45 @@ export const IdentifierSchema: Schema = new Schema({
   value: { type: String, required: false, default: '' },
 });
 
+export interface IFallbackModel {
+  llmProvider: ProviderKey;
+  llmModel: string;
+}
+
+export const FallbackModelSchema: Schema = new Schema(
+  {
+    llmProvider: { type: String, required: true },
+    llmModel: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+export interface IModelRetryPolicy {
+  maxRetries?: number; // Retries per model before falling over
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffMultiplier?: number;
+}
+
+/**
+ * How tool activity from earlier turns is replayed into the model context.
+ * - none: only the assistant's text is replayed
+ * - calls: tool calls are replayed, outputs are replaced by a placeholder
+ * - full: tool calls and outputs are replayed (outputs capped at maxOutputChars)
+ */
+export interface IToolHistoryPolicy {
+  mode?: 'none' | 'calls' | 'full';
+  maxOutputChars?: number; // Per tool result
+  maxTurns?: number; // Only the most recent turns with tool activity are replayed
+}
+
+/**
+ * How history that exceeds maxTokens is handled.
+ * - truncate: drop the oldest messages
+ * - summarize: compact older turns into a stored summary message
+ */
+export type ContextMode = 'truncate' | 'summarize';
+
 export interface IAssistant extends Document {
   assistantId: string;
   name: string;
@@ -19,10 +59,18 @@ export interface IAssistant extends Document {
   language: string;
   llmModel: string; // Existing field, will now be the primary model identifier
   llmPrompt: string;
-  llmProvider: 'openai' | 'google' | 'anthropic'; // New field for provider
+  llmProvider: ProviderKey; // Built-in provider or key of a company-registered LlmProvider
   maxTokens?: number; // Token limit for input/prompt window
+  fallbackModels?: IFallbackModel[]; // Tried in order when the primary model fails
+  modelRetryPolicy?: IModelRetryPolicy;
+  contextMode?: ContextMode;
+  summaryLlmProvider?: ProviderKey; // Defaults to llmProvider
+  summaryLlmModel?: string; // Defaults to a cheap model of the summary provider
+  toolHistoryPolicy?: IToolHistoryPolicy;
   companyId: string;
   allowedActions: string[];
+  approvalRequiredActions?: string[]; // Actions that wait for human approval ("jira.deleteTicket", "jira.*" or "*")
+  actionApprovers?: mongoose.Types.ObjectId[]; // Users besides company admins who may approve those actions
   avatarImage?: string;
   teams?: mongoose.Schema.Types.ObjectId[];
   lastAccessedAt?: Date;
@@ -42,15 +90,37 @@ const AssistantSchema: Schema = new Schema({
   llmModel: { type: String, required: false }, // Existing field, will store model name like 'gpt-4.1-mini'
   llmPrompt: { type: String, required: false },
   llmProvider: {
-    // New field for provider
+    // Built-in provider ('openai' | 'google' | 'anthropic') or a custom LlmProvider key
     type: String,
-    enum: ['openai', 'google', 'anthropic'],
     default: 'openai', // Default provider
     required: true,
   },
   maxTokens: { type: Number, required: false, default: 25000 }, // Default to 25k tokens
+  fallbackModels: { type: [FallbackModelSchema], required: false, default: [] },
+  modelRetryPolicy: {
+    maxRetries: { type: Number, min: 0, max: 5 },
+    initialDelayMs: { type: Number, min: 0 },
+    maxDelayMs: { type: Number, min: 0 },
+    backoffMultiplier: { type: Number, min: 1 },
+  },
+  contextMode: {
+    type: String,
+    enum: ['truncate', 'summarize'],
+    default: 'truncate',
+  },
+  summaryLlmProvider: { type: String, required: false },
+  summaryLlmModel: { type: String, required: false },
+  toolHistoryPolicy: {
+    mode: { type: String, enum: ['none', 'calls', 'full'] },
+    maxOutputChars: { type: Number, min: 0 },
+    maxTurns: { type: Number, min: 0 },
+  },
   companyId: { type: mongoose.Schema.Types.ObjectId, ref: 'Company' },
   allowedActions: [{ type: String, required: false }],
+  approvalRequiredActions: [{ type: String, required: false }],
+  actionApprovers: [
+    { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: false },
+  ],
   avatarImage: { type: String, required: false, default: 'default-avatar' },
   teams: [
     { type: mongoose.Schema.Types.ObjectId, ref: 'Team', required: false },
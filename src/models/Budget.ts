@@ -0,0 +1,99 @@
+// file path: /src/models/Budget.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * What a budget limits. `company` covers all spend of the company; the
+ * other scopes cover spend attributed to `targetId` (for teams: spend of
+ * the team's assistants).
+ */
+export type BudgetScope = 'company' | 'team' | 'assistant' | 'user' | 'api_key';
+
+/**
+ * Budget windows, in UTC: the current day or the current calendar month
+ */
+export type BudgetPeriod = 'daily' | 'monthly';
+
+/**
+ * What happens once the hard limit is reached.
+ * - block: requests are refused with a BUDGET_EXCEEDED error
+ * - downgrade: requests are answered by `downgradeModel` instead
+ */
+export type BudgetHardLimitAction = 'block' | 'downgrade';
+
+export interface IBudgetNotify {
+  inbox: boolean; // Post an inbox notification
+  emails: string[]; // Addresses emailed via SendGrid
+}
+
+/**
+ * A spend limit in USD over a daily or monthly window. Soft limits notify,
+ * hard limits are enforced before the provider is called.
+ */
+export interface IBudget extends Document {
+  companyId: mongoose.Types.ObjectId;
+  name: string;
+  scope: BudgetScope;
+  targetId?: mongoose.Types.ObjectId; // Unset for company budgets
+  period: BudgetPeriod;
+  softLimit?: number;
+  hardLimit?: number;
+  hardLimitAction: BudgetHardLimitAction;
+  downgradeModel?: { llmProvider: string; llmModel: string };
+  notify: IBudgetNotify;
+  enabled: boolean;
+  softNotifiedFor?: Date; // Window start of the last soft limit notification
+  hardNotifiedFor?: Date; // Window start of the last hard limit notification
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BudgetSchema = new Schema<IBudget>(
+  {
+    companyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    name: { type: String, required: true },
+    scope: {
+      type: String,
+      enum: ['company', 'team', 'assistant', 'user', 'api_key'],
+      required: true,
+    },
+    targetId: { type: Schema.Types.ObjectId },
+    period: { type: String, enum: ['daily', 'monthly'], required: true },
+    softLimit: { type: Number, min: 0 },
+    hardLimit: { type: Number, min: 0 },
+    hardLimitAction: {
+      type: String,
+      enum: ['block', 'downgrade'],
+      default: 'block',
+    },
+    downgradeModel: {
+      type: new Schema(
+        {
+          llmProvider: { type: String, required: true },
+          llmModel: { type: String, required: true },
+        },
+        { _id: false },
+      ),
+    },
+    notify: {
+      inbox: { type: Boolean, default: true },
+      emails: { type: [String], default: [] },
+    },
+    enabled: { type: Boolean, default: true },
+    softNotifiedFor: { type: Date },
+    hardNotifiedFor: { type: Date },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  },
+  { timestamps: true },
+);
+
+BudgetSchema.index(
+  { companyId: 1, scope: 1, targetId: 1, period: 1 },
+  { unique: true },
+);
+
+export const Budget = mongoose.model<IBudget>('Budget', BudgetSchema);
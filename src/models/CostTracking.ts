@@ -5,7 +5,7 @@ export interface ICostTracking extends Document {
   assistantId: mongoose.Types.ObjectId;
   sessionId?: mongoose.Types.ObjectId;
   userId: mongoose.Types.ObjectId;
-  provider: 'openai' | 'anthropic' | 'google';
+  provider: string; // Built-in provider or custom LlmProvider key
   modelName: string;
   inputTokens: number;
   outputTokens: number;
@@ -17,6 +17,11 @@ export interface ICostTracking extends Document {
   toolCalls: number;
   cached: boolean;
   requestType: 'streaming' | 'non-streaming' | 'stateless';
+  status: 'success' | 'failed';
+  attempt?: number; // 1-based attempt within the model fallback chain
+  fallbackFrom?: string; // Primary model when a fallback model made this attempt
+  errorType?: string; // Failure classification for failed attempts
+  errorMessage?: string;
   timestamp: Date;
   metadata?: Record<string, any>;
 }
@@ -49,7 +54,6 @@ const CostTrackingSchema: Schema = new Schema(
     },
     provider: {
       type: String,
-      enum: ['openai', 'anthropic', 'google'],
       required: true,
     },
     modelName: {
@@ -107,6 +111,27 @@ const CostTrackingSchema: Schema = new Schema(
       enum: ['streaming', 'non-streaming', 'stateless'],
       default: 'non-streaming',
     },
+    status: {
+      type: String,
+      enum: ['success', 'failed'],
+      default: 'success',
+    },
+    attempt: {
+      type: Number,
+      required: false,
+    },
+    fallbackFrom: {
+      type: String,
+      required: false,
+    },
+    errorType: {
+      type: String,
+      required: false,
+    },
+    errorMessage: {
+      type: String,
+      required: false,
+    },
     timestamp: {
       type: Date,
       required: true,
@@ -128,6 +153,13 @@ CostTrackingSchema.index({ companyId: 1, timestamp: -1 });
 CostTrackingSchema.index({ companyId: 1, assistantId: 1, timestamp: -1 });
 CostTrackingSchema.index({ companyId: 1, modelName: 1, timestamp: -1 });
 CostTrackingSchema.index({ companyId: 1, provider: 1, timestamp: -1 });
+CostTrackingSchema.index({ 'metadata.scheduledJobRunId': 1 }, { sparse: true });
+CostTrackingSchema.index({ 'metadata.delegationPath': 1 }, { sparse: true });
+CostTrackingSchema.index({ 'metadata.workflowRunId': 1 }, { sparse: true });
+CostTrackingSchema.index(
+  { 'metadata.apiKeyId': 1, timestamp: -1 },
+  { sparse: true },
+);
 
 export const CostTracking = mongoose.model<ICostTracking>(
   'CostTracking',
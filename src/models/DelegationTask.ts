@@ -0,0 +1,121 @@
+// file path: /src/models/DelegationTask.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import { IJobRunCost } from './ScheduledJobRun';
+
+export type DelegationTaskStatus =
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled'
+  | 'budget_exceeded';
+
+export const TERMINAL_DELEGATION_STATUSES: DelegationTaskStatus[] = [
+  'succeeded',
+  'failed',
+  'cancelled',
+  'budget_exceeded',
+];
+
+/**
+ * Limits for a task and everything it delegates further
+ */
+export interface IDelegationBudget {
+  maxCost?: number; // USD
+  maxTokens?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * A task handed from one agent to another. Tasks a child delegates while
+ * working form a tree under the root task.
+ */
+export interface IDelegationTask extends Document {
+  companyId: mongoose.Types.ObjectId;
+  sessionId?: string; // Session the root task was delegated from
+  parentTaskId?: mongoose.Types.ObjectId;
+  ancestorIds: mongoose.Types.ObjectId[]; // Root first, empty on root tasks
+  parentAssistantId?: mongoose.Types.ObjectId;
+  assistantId: mongoose.Types.ObjectId;
+  createdBy?: mongoose.Types.ObjectId;
+  title: string;
+  instructions: string;
+  input?: unknown;
+  outputSchema?: Record<string, unknown>; // JSON schema of the expected output
+  budget: IDelegationBudget;
+  status: DelegationTaskStatus;
+  output?: unknown; // Parsed JSON when an output schema is set
+  outputText?: string;
+  error?: string;
+  cost: IJobRunCost; // This task's own model usage, excluding children
+  startedAt?: Date;
+  finishedAt?: Date;
+  duration?: number; // in milliseconds
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DelegationTaskSchema = new Schema<IDelegationTask>(
+  {
+    companyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    sessionId: { type: String },
+    parentTaskId: { type: Schema.Types.ObjectId, ref: 'DelegationTask' },
+    ancestorIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'DelegationTask' }],
+      default: [],
+    },
+    parentAssistantId: { type: Schema.Types.ObjectId, ref: 'Assistant' },
+    assistantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Assistant',
+      required: true,
+    },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    title: { type: String, required: true },
+    instructions: { type: String, required: true },
+    input: { type: Schema.Types.Mixed },
+    outputSchema: { type: Schema.Types.Mixed },
+    budget: {
+      maxCost: { type: Number },
+      maxTokens: { type: Number },
+      timeoutMs: { type: Number },
+    },
+    status: {
+      type: String,
+      enum: [
+        'queued',
+        'running',
+        'succeeded',
+        'failed',
+        'cancelled',
+        'budget_exceeded',
+      ],
+      default: 'queued',
+    },
+    output: { type: Schema.Types.Mixed },
+    outputText: { type: String },
+    error: { type: String },
+    cost: {
+      inputTokens: { type: Number, default: 0 },
+      outputTokens: { type: Number, default: 0 },
+      totalTokens: { type: Number, default: 0 },
+      totalCost: { type: Number, default: 0 },
+    },
+    startedAt: { type: Date },
+    finishedAt: { type: Date },
+    duration: { type: Number },
+  },
+  { timestamps: true },
+);
+
+DelegationTaskSchema.index({ companyId: 1, sessionId: 1, createdAt: 1 });
+DelegationTaskSchema.index({ ancestorIds: 1 });
+
+export const DelegationTask = mongoose.model<IDelegationTask>(
+  'DelegationTask',
+  DelegationTaskSchema,
+);
@@ -0,0 +1,111 @@
+// file path: /src/models/EvalRun.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import { EvalAssertionType } from './EvalSuite';
+
+export type EvalRunStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * Outcome of one assertion or expected tool call
+ */
+export interface IEvalCheckResult {
+  type: EvalAssertionType | 'tool_call';
+  passed: boolean;
+  score: number; // 0-1
+  reason?: string;
+}
+
+export interface IEvalCaseResult {
+  caseId: mongoose.Types.ObjectId;
+  name: string;
+  passed: boolean;
+  score: number; // Mean of the check scores
+  output?: string;
+  toolCalls: { name: string; arguments?: Record<string, any> }[];
+  checks: IEvalCheckResult[];
+  duration?: number; // in milliseconds
+  error?: string;
+}
+
+/**
+ * One run of an eval suite against a prompt. `promptVersion` links to
+ * PromptHistory.version; it is unset for draft prompts passed in directly.
+ */
+export interface IEvalRun extends Document {
+  suiteId: mongoose.Types.ObjectId;
+  companyId: mongoose.Types.ObjectId;
+  assistantId: mongoose.Types.ObjectId;
+  promptVersion?: number;
+  draft: boolean;
+  status: EvalRunStatus;
+  results: IEvalCaseResult[];
+  score?: number; // Mean case score
+  passRate?: number; // Share of passing cases
+  passed?: boolean; // passRate reached the suite's minPassRate
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  triggeredBy?: mongoose.Types.ObjectId;
+}
+
+const EvalCheckResultSchema = new Schema(
+  {
+    type: { type: String, required: true },
+    passed: { type: Boolean, required: true },
+    score: { type: Number, required: true },
+    reason: { type: String },
+  },
+  { _id: false },
+);
+
+const EvalCaseResultSchema = new Schema(
+  {
+    caseId: { type: mongoose.Schema.Types.ObjectId, required: true },
+    name: { type: String, required: true },
+    passed: { type: Boolean, required: true },
+    score: { type: Number, required: true },
+    output: { type: String },
+    toolCalls: { type: [Schema.Types.Mixed], default: [] },
+    checks: { type: [EvalCheckResultSchema], default: [] },
+    duration: { type: Number },
+    error: { type: String },
+  },
+  { _id: false },
+);
+
+const EvalRunSchema = new Schema({
+  suiteId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'EvalSuite',
+    required: true,
+  },
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true,
+  },
+  assistantId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Assistant',
+    required: true,
+  },
+  promptVersion: { type: Number },
+  draft: { type: Boolean, default: false },
+  status: {
+    type: String,
+    enum: ['running', 'completed', 'failed'],
+    default: 'running',
+  },
+  results: { type: [EvalCaseResultSchema], default: [] },
+  score: { type: Number },
+  passRate: { type: Number },
+  passed: { type: Boolean },
+  error: { type: String },
+  startedAt: { type: Date, default: Date.now },
+  finishedAt: { type: Date },
+  triggeredBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+});
+
+EvalRunSchema.index({ suiteId: 1, startedAt: -1 });
+EvalRunSchema.index({ assistantId: 1, promptVersion: 1, startedAt: -1 });
+
+export const EvalRun = mongoose.model<IEvalRun>('EvalRun', EvalRunSchema);
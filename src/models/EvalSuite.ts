@@ -0,0 +1,128 @@
+// file path: /src/models/EvalSuite.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A check applied to the assistant's output for a test case.
+ * - contains: the output contains `value`
+ * - regex: the output matches `pattern` (with `flags`)
+ * - json_schema: the output (or the JSON inside it) validates against `schema`
+ * - llm_judge: a grader model scores the output 0-1 against `rubric`;
+ *   passes at `threshold` (default 0.7)
+ * `negate` inverts contains and regex.
+ */
+export type EvalAssertionType =
+  'contains' | 'regex' | 'json_schema' | 'llm_judge';
+
+export interface IEvalAssertion {
+  type: EvalAssertionType;
+  value?: string;
+  caseSensitive?: boolean;
+  pattern?: string;
+  flags?: string;
+  negate?: boolean;
+  schema?: Record<string, any>;
+  rubric?: string;
+  threshold?: number;
+  model?: string;
+}
+
+/**
+ * A tool the assistant is expected to call. `arguments` must be a subset
+ * of the actual call's arguments.
+ */
+export interface IEvalExpectedToolCall {
+  name: string;
+  arguments?: Record<string, any>;
+}
+
+export interface IEvalCase {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  input: string;
+  expectedToolCalls: IEvalExpectedToolCall[];
+  assertions: IEvalAssertion[];
+}
+
+/**
+ * A set of test cases for an assistant. Runs score the cases against a
+ * prompt version; a run passes when the share of passing cases reaches
+ * `minPassRate`.
+ */
+export interface IEvalSuite extends Document {
+  companyId: mongoose.Types.ObjectId;
+  assistantId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  cases: IEvalCase[];
+  minPassRate: number; // 0-1
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EvalAssertionSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ['contains', 'regex', 'json_schema', 'llm_judge'],
+      required: true,
+    },
+    value: { type: String },
+    caseSensitive: { type: Boolean },
+    pattern: { type: String },
+    flags: { type: String },
+    negate: { type: Boolean },
+    schema: { type: Schema.Types.Mixed },
+    rubric: { type: String },
+    threshold: { type: Number, min: 0, max: 1 },
+    model: { type: String },
+  },
+  { _id: false },
+);
+
+const EvalExpectedToolCallSchema = new Schema(
+  {
+    name: { type: String, required: true },
+    arguments: { type: Schema.Types.Mixed },
+  },
+  { _id: false },
+);
+
+const EvalCaseSchema = new Schema({
+  name: { type: String, required: true },
+  input: { type: String, required: true },
+  expectedToolCalls: { type: [EvalExpectedToolCallSchema], default: [] },
+  assertions: { type: [EvalAssertionSchema], default: [] },
+});
+
+const EvalSuiteSchema = new Schema(
+  {
+    companyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    assistantId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Assistant',
+      required: true,
+    },
+    name: { type: String, required: true },
+    description: { type: String },
+    cases: { type: [EvalCaseSchema], default: [] },
+    minPassRate: { type: Number, min: 0, max: 1, default: 1 },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  { timestamps: true },
+);
+
+EvalSuiteSchema.index({ companyId: 1, assistantId: 1 });
+
+export const EvalSuite = mongoose.model<IEvalSuite>(
+  'EvalSuite',
+  EvalSuiteSchema,
+);
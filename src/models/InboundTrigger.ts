@@ -0,0 +1,113 @@
+// file path: /src/models/InboundTrigger.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import { IWebhookSecret } from './Webhook';
+
+/**
+ * How an inbound request proves it comes from the expected sender.
+ * - none: the unguessable URL token is the only check
+ * - token: the secret is sent as-is in `header` (or the ?token= query param)
+ * - hmac_sha256: HMAC-SHA256 of the raw body in `header`, hex or base64
+ * - github: X-Hub-Signature-256
+ * - stripe: Stripe-Signature (timestamped, `toleranceSeconds`)
+ */
+export type TriggerVerificationType =
+  'none' | 'token' | 'hmac_sha256' | 'github' | 'stripe';
+
+export interface ITriggerVerification {
+  type: TriggerVerificationType;
+  header?: string;
+  encoding?: 'hex' | 'base64';
+  toleranceSeconds?: number;
+  secret?: IWebhookSecret; // Encrypted
+}
+
+/**
+ * - sync: the request waits for the assistant and gets its output
+ * - async: the request is acknowledged with 202 and the run continues
+ */
+export type TriggerResponseMode = 'sync' | 'async';
+
+/**
+ * A public URL (`/hooks/:token`) that turns incoming requests into
+ * stateless runs of an assistant. `template` is a Handlebars template
+ * rendered with { body, query, headers, method, trigger, receivedAt }
+ * to produce the assistant's input.
+ */
+export interface IInboundTrigger extends Document {
+  companyId: mongoose.Types.ObjectId;
+  assistantId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  token: string;
+  template: string;
+  responseMode: TriggerResponseMode;
+  verification: ITriggerVerification;
+  enabled: boolean;
+  lastTriggeredAt?: Date;
+  createdBy: mongoose.Types.ObjectId; // Runs execute on behalf of this user
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TriggerSecretSchema = new Schema(
+  {
+    value: { type: String, required: true },
+    iv: { type: String, required: true },
+    tag: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+const TriggerVerificationSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ['none', 'token', 'hmac_sha256', 'github', 'stripe'],
+      default: 'none',
+    },
+    header: { type: String },
+    encoding: { type: String, enum: ['hex', 'base64'] },
+    toleranceSeconds: { type: Number },
+    secret: { type: TriggerSecretSchema, select: false },
+  },
+  { _id: false },
+);
+
+const InboundTriggerSchema = new Schema(
+  {
+    companyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    assistantId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Assistant',
+      required: true,
+    },
+    name: { type: String, required: true },
+    description: { type: String },
+    token: { type: String, required: true, unique: true },
+    template: { type: String, required: true },
+    responseMode: { type: String, enum: ['sync', 'async'], default: 'async' },
+    verification: {
+      type: TriggerVerificationSchema,
+      default: () => ({ type: 'none' }),
+    },
+    enabled: { type: Boolean, default: true },
+    lastTriggeredAt: { type: Date },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  { timestamps: true },
+);
+
+InboundTriggerSchema.index({ companyId: 1 });
+
+export const InboundTrigger = mongoose.model<IInboundTrigger>(
+  'InboundTrigger',
+  InboundTriggerSchema,
+);
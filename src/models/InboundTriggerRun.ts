@@ -0,0 +1,56 @@
+// file path: /src/models/InboundTriggerRun.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type TriggerRunStatus = 'running' | 'succeeded' | 'failed';
+
+/**
+ * One request received by an inbound trigger and the run it started
+ */
+export interface IInboundTriggerRun extends Document {
+  triggerId: mongoose.Types.ObjectId;
+  companyId: mongoose.Types.ObjectId;
+  assistantId: mongoose.Types.ObjectId;
+  status: TriggerRunStatus;
+  input?: string; // Rendered template, truncated
+  output?: string; // Truncated
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  duration?: number; // in milliseconds
+}
+
+const InboundTriggerRunSchema = new Schema({
+  triggerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'InboundTrigger',
+    required: true,
+  },
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true,
+  },
+  assistantId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Assistant',
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['running', 'succeeded', 'failed'],
+    default: 'running',
+  },
+  input: { type: String },
+  output: { type: String },
+  error: { type: String },
+  startedAt: { type: Date, default: Date.now },
+  finishedAt: { type: Date },
+  duration: { type: Number },
+});
+
+InboundTriggerRunSchema.index({ triggerId: 1, startedAt: -1 });
+
+export const InboundTriggerRun = mongoose.model<IInboundTriggerRun>(
+  'InboundTriggerRun',
+  InboundTriggerRunSchema,
+);
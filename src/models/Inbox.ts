@@ -1,20 +1,157 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export type ActionApprovalStatus =
+  'pending' | 'approved' | 'rejected' | 'executed' | 'failed';
+
+/**
+ * An action call paused until a human approves or rejects it.
+ * Holds everything needed to run the call later with the original context.
+ */
+export interface IActionApproval {
+  actionId: string; // Dotted action name, e.g. "jira.deleteTicket"
+  functionName: string; // Tool name the model called, e.g. "jira_deleteTicket"
+  actionTitle?: string;
+  args: Record<string, unknown>; // Proposed arguments, after template processing
+  executionId: string; // Action message id, reused when the call runs
+  status: ActionApprovalStatus;
+  language: string;
+  userId?: string;
+  decidedBy?: mongoose.Types.ObjectId;
+  decidedAt?: Date;
+  reason?: string; // Rejection reason
+  result?: any;
+  error?: string;
+}
+
+export type InboxPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export const INBOX_PRIORITIES: InboxPriority[] = [
+  'low',
+  'normal',
+  'high',
+  'urgent',
+];
+
+/**
+ * A message in an item's thread. Internal notes are only shown to
+ * operators; other replies by a user who took over the session were also
+ * delivered to the session.
+ */
+export interface IInboxReply {
+  _id: mongoose.Types.ObjectId;
+  authorType: 'user' | 'assistant' | 'customer';
+  authorId?: mongoose.Types.ObjectId; // User or assistant; unset for customers
+  message: string;
+  internal: boolean;
+  createdAt: Date;
+}
+
+/**
+ * A user or team the item is assigned to (at most one of each)
+ */
+export interface IInboxAssignee {
+  userId?: mongoose.Types.ObjectId;
+  teamId?: mongoose.Types.ObjectId;
+  assignedBy?: mongoose.Types.ObjectId;
+  assignedAt: Date;
+}
+
+/**
+ * A human operator answering the session in place of the assistant
+ */
+export interface IInboxHandoff {
+  active: boolean;
+  userId: mongoose.Types.ObjectId;
+  startedAt: Date;
+  endedAt?: Date;
+  summary?: string; // Handed to the assistant when control returns
+}
+
 export interface IInbox extends Document {
-  sessionId: mongoose.Schema.Types.ObjectId;
+  sessionId?: mongoose.Schema.Types.ObjectId; // Unset for items not tied to a conversation (e.g. scheduled job output)
   senderId: mongoose.Schema.Types.ObjectId;
   companyId: mongoose.Schema.Types.ObjectId;
-  type: 'human_agent_request' | 'human_agent_response' | 'notification';
+  type:
+    | 'human_agent_request'
+    | 'human_agent_response'
+    | 'notification'
+    | 'action_approval';
   status: 'open' | 'in_progress' | 'closed';
   message: string;
+  approval?: IActionApproval; // Only for type 'action_approval'
+  priority: InboxPriority;
+  assignee?: IInboxAssignee;
+  slaDueAt?: Date; // First human response is due; unset for notifications
+  firstResponseAt?: Date;
+  escalationLevel: number; // Times the SLA was missed and the item escalated
+  escalatedAt?: Date;
+  replies: IInboxReply[];
+  handoff?: IInboxHandoff;
   createdAt: Date;
+  updatedAt?: Date;
 }
 
+const ActionApprovalSchema: Schema = new Schema(
+  {
+    actionId: { type: String, required: true },
+    functionName: { type: String, required: true },
+    actionTitle: { type: String },
+    args: { type: Schema.Types.Mixed, default: {} },
+    executionId: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected', 'executed', 'failed'],
+      default: 'pending',
+    },
+    language: { type: String, required: true },
+    userId: { type: String },
+    decidedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    decidedAt: { type: Date },
+    reason: { type: String },
+    result: { type: Schema.Types.Mixed },
+    error: { type: String },
+  },
+  { _id: false },
+);
+
+const InboxReplySchema: Schema = new Schema({
+  authorType: {
+    type: String,
+    enum: ['user', 'assistant', 'customer'],
+    required: true,
+  },
+  authorId: { type: mongoose.Schema.Types.ObjectId },
+  message: { type: String, required: true },
+  internal: { type: Boolean, default: false },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const InboxAssigneeSchema: Schema = new Schema(
+  {
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    teamId: { type: mongoose.Schema.Types.ObjectId, ref: 'Team' },
+    assignedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    assignedAt: { type: Date, default: Date.now },
+  },
+  { _id: false },
+);
+
+const InboxHandoffSchema: Schema = new Schema(
+  {
+    active: { type: Boolean, default: true },
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    startedAt: { type: Date, default: Date.now },
+    endedAt: { type: Date },
+    summary: { type: String },
+  },
+  { _id: false },
+);
+
 const InboxSchema: Schema = new Schema({
   sessionId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Session',
-    required: true,
+    required: false,
   },
   senderId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -28,7 +165,12 @@ const InboxSchema: Schema = new Schema({
   },
   type: {
     type: String,
-    enum: ['human_agent_request', 'human_agent_response', 'notification'],
+    enum: [
+      'human_agent_request',
+      'human_agent_response',
+      'notification',
+      'action_approval',
+    ],
     required: true,
   },
   status: {
@@ -40,10 +182,41 @@ const InboxSchema: Schema = new Schema({
     type: String,
     required: true,
   },
+  approval: {
+    type: ActionApprovalSchema,
+    required: false,
+  },
+  priority: {
+    type: String,
+    enum: INBOX_PRIORITIES,
+    default: 'normal',
+  },
+  assignee: {
+    type: InboxAssigneeSchema,
+    required: false,
+  },
+  slaDueAt: { type: Date },
+  firstResponseAt: { type: Date },
+  escalationLevel: { type: Number, default: 0 },
+  escalatedAt: { type: Date },
+  replies: { type: [InboxReplySchema], default: [] },
+  handoff: {
+    type: InboxHandoffSchema,
+    required: false,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
   },
+  updatedAt: { type: Date },
 });
 
+InboxSchema.index({ companyId: 1, type: 1, 'approval.status': 1 });
+// Queue views: by status and assignee, in SLA order
+InboxSchema.index({ companyId: 1, status: 1, slaDueAt: 1 });
+InboxSchema.index({ companyId: 1, 'assignee.userId': 1, status: 1 });
+InboxSchema.index({ companyId: 1, 'assignee.teamId': 1, status: 1 });
+// Escalation sweep
+InboxSchema.index({ status: 1, firstResponseAt: 1, slaDueAt: 1 });
+
 export const Inbox = mongoose.model<IInbox>('Inbox', InboxSchema);
@@ -24,6 +24,7 @@ export interface IIntegrationConfig extends Document {
   enabled: boolean;
   configuredAt: Date;
   configuredBy?: mongoose.Types.ObjectId; // User who configured
+  approvalRequiredActions: string[]; // Actions of this integration that wait for human approval ("deleteTicket" or "*")
   updatedAt: Date;
   createdAt: Date;
 }
@@ -66,6 +67,10 @@ const IntegrationConfigSchema = new Schema(
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
     },
+    approvalRequiredActions: {
+      type: [String],
+      default: [],
+    },
   },
   { timestamps: true },
 );
@@ -0,0 +1,69 @@
+// file path: /src/models/LlmProvider.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Wire protocol spoken by a custom provider.
+ * - openai-compatible: any endpoint implementing the OpenAI chat completions API
+ *   (vLLM, Ollama, LM Studio, local stub servers, ...)
+ * - azure-openai: Azure OpenAI v1 endpoint, authenticated with an `api-key` header
+ */
+export type LlmProviderType = 'openai-compatible' | 'azure-openai';
+
+/**
+ * A company-registered LLM provider.
+ * Assistants select it by setting `llmProvider` to the provider `key`.
+ * The provider's API key (if any) is stored encrypted in IntegrationConfig
+ * under the integration ID returned by getLlmProviderIntegrationId().
+ */
+export interface ILlmProvider extends Document {
+  companyId: mongoose.Types.ObjectId;
+  key: string; // Slug referenced by Assistant.llmProvider (e.g., "ollama-local")
+  name: string; // Display name
+  type: LlmProviderType;
+  baseUrl: string;
+  models: string[]; // Advertised model IDs (informational, not enforced)
+  headers?: Record<string, string>; // Extra non-secret headers sent on every request
+  enabled: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LlmProviderSchema = new Schema(
+  {
+    companyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+      match: /^[a-z0-9][a-z0-9_-]{1,48}$/,
+    },
+    name: { type: String, required: true },
+    type: {
+      type: String,
+      enum: ['openai-compatible', 'azure-openai'],
+      default: 'openai-compatible',
+      required: true,
+    },
+    baseUrl: { type: String, required: true },
+    models: { type: [String], default: [] },
+    headers: { type: Map, of: String, required: false },
+    enabled: { type: Boolean, default: true },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  { timestamps: true },
+);
+
+// One provider per key per company
+LlmProviderSchema.index({ companyId: 1, key: 1 }, { unique: true });
+
+export const LlmProvider = mongoose.model<ILlmProvider>(
+  'LlmProvider',
+  LlmProviderSchema,
+);
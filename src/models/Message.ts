@@ -1,5 +1,33 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+/**
+ * A tool call or tool result made while producing an assistant message.
+ * Parts are ordered and grouped by the generation step they belong to,
+ * so they can be replayed as assistant tool-call / tool messages.
+ */
+export interface IToolPart {
+  type: 'tool-call' | 'tool-result';
+  step: number;
+  toolCallId: string;
+  toolName: string;
+  input?: any; // tool-call arguments
+  output?: any; // tool-result output (string or JSON)
+  isError?: boolean; // tool-result came from a failed execution
+}
+
+export const ToolPartSchema: Schema = new Schema(
+  {
+    type: { type: String, enum: ['tool-call', 'tool-result'], required: true },
+    step: { type: Number, required: true, default: 0 },
+    toolCallId: { type: String, required: true },
+    toolName: { type: String, required: true },
+    input: { type: Schema.Types.Mixed },
+    output: { type: Schema.Types.Mixed },
+    isError: { type: Boolean },
+  },
+  { _id: false },
+);
+
 export interface IMessage extends Document {
   sessionId: mongoose.Types.ObjectId;
   sender: 'user' | 'assistant' | 'system' | 'agent';
@@ -9,6 +37,7 @@ export interface IMessage extends Document {
   userId: mongoose.Types.ObjectId;
   messageType: string; // Now a flexible string
   data?: any; // Additional data for custom message types
+  toolParts?: IToolPart[]; // Tool activity behind an assistant message
   openAIMessageId?: string;
 }
 
@@ -33,6 +62,7 @@ const MessageSchema: Schema = new Schema({
   userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
   messageType: { type: String, required: true },
   data: { type: Schema.Types.Mixed }, // Can store any type of data
+  toolParts: { type: [ToolPartSchema], default: undefined },
   openAIMessageId: { type: String },
 });
 
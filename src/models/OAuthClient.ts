@@ -0,0 +1,49 @@
+// file path: /src/models/OAuthClient.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * How a client authenticates at the token endpoint. Public clients (`none`)
+ * rely on PKCE; confidential clients post the secret issued at registration.
+ */
+export type OAuthClientAuthMethod = 'none' | 'client_secret_post';
+
+/**
+ * An MCP client registered through dynamic client registration (RFC 7591).
+ * Clients are not bound to a company: users of any company can authorize
+ * them, and the resulting grants carry the company.
+ */
+export interface IOAuthClient extends Document {
+  clientId: string;
+  clientSecretHash?: string; // sha256 of the secret, confidential clients only
+  clientName: string;
+  clientUri?: string;
+  redirectUris: string[]; // Exact-match allowlist for authorization requests
+  grantTypes: string[];
+  scopes: string[]; // Scopes the client may request, see oauth-mcp.service
+  tokenEndpointAuthMethod: OAuthClientAuthMethod;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OAuthClientSchema = new Schema<IOAuthClient>(
+  {
+    clientId: { type: String, required: true, unique: true },
+    clientSecretHash: { type: String },
+    clientName: { type: String, required: true },
+    clientUri: { type: String },
+    redirectUris: { type: [String], default: [] },
+    grantTypes: { type: [String], default: [] },
+    scopes: { type: [String], default: [] },
+    tokenEndpointAuthMethod: {
+      type: String,
+      enum: ['none', 'client_secret_post'],
+      default: 'none',
+    },
+  },
+  { timestamps: true },
+);
+
+export const OAuthClient = mongoose.model<IOAuthClient>(
+  'OAuthClient',
+  OAuthClientSchema,
+);
@@ -0,0 +1,42 @@
+// file path: /src/models/OAuthGrant.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A user's authorization of an OAuth client. The user approves the client
+ * with one of their API keys; tokens issued under the grant act with the
+ * intersection of the granted scopes and that key's permissions, and stop
+ * working once the grant is revoked or the key is revoked or expires.
+ */
+export interface IOAuthGrant extends Document {
+  clientId: string;
+  userId: mongoose.Types.ObjectId;
+  companyId: mongoose.Types.ObjectId;
+  apiKeyId: mongoose.Types.ObjectId;
+  scopes: string[];
+  permissions: string[]; // See utils/permissions; never empty
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OAuthGrantSchema = new Schema<IOAuthGrant>(
+  {
+    clientId: { type: String, required: true },
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    companyId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+    apiKeyId: { type: Schema.Types.ObjectId, ref: 'ApiKey', required: true },
+    scopes: { type: [String], default: [] },
+    permissions: { type: [String], default: [] },
+    lastUsedAt: { type: Date },
+    revokedAt: { type: Date },
+  },
+  { timestamps: true },
+);
+
+OAuthGrantSchema.index({ userId: 1, clientId: 1, revokedAt: 1 });
+
+export const OAuthGrant = mongoose.model<IOAuthGrant>(
+  'OAuthGrant',
+  OAuthGrantSchema,
+);
@@ -0,0 +1,61 @@
+// file path: /src/models/OAuthToken.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * - authorization_code: single use, exchanged for the first token pair
+ * - access_token: short-lived bearer token for the MCP endpoint
+ * - refresh_token: single use, rotated on every refresh
+ */
+export type OAuthTokenType =
+  'authorization_code' | 'access_token' | 'refresh_token';
+
+/**
+ * A code or token issued under a grant. Only a sha256 hash of the value is
+ * stored. Used codes and rotated refresh tokens are kept until they expire
+ * so that replaying them can be detected.
+ */
+export interface IOAuthToken extends Document {
+  tokenHash: string;
+  type: OAuthTokenType;
+  grantId: mongoose.Types.ObjectId;
+  clientId: string;
+  expiresAt: Date;
+  usedAt?: Date; // Codes and refresh tokens: when they were exchanged
+  revokedAt?: Date;
+  // Authorization codes only
+  redirectUri?: string;
+  codeChallenge?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OAuthTokenSchema = new Schema<IOAuthToken>(
+  {
+    tokenHash: { type: String, required: true, unique: true },
+    type: {
+      type: String,
+      enum: ['authorization_code', 'access_token', 'refresh_token'],
+      required: true,
+    },
+    grantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'OAuthGrant',
+      required: true,
+    },
+    clientId: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date },
+    revokedAt: { type: Date },
+    redirectUri: { type: String },
+    codeChallenge: { type: String },
+  },
+  { timestamps: true },
+);
+
+OAuthTokenSchema.index({ grantId: 1 });
+OAuthTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OAuthToken = mongoose.model<IOAuthToken>(
+  'OAuthToken',
+  OAuthTokenSchema,
+);
@@ -0,0 +1,131 @@
+// file path: /src/models/ScheduledJob.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Workspace scopes a job can read inputs from or write output to
+ */
+export type JobWorkspaceScope = 'company' | 'agent';
+
+/**
+ * A workspace item whose content is appended to the job prompt
+ */
+export interface IJobWorkspaceInput {
+  scope: JobWorkspaceScope;
+  path: string;
+}
+
+/**
+ * Where a run's output is delivered.
+ * - none: kept in run history only
+ * - workspace: written to `path` ("{date}" is replaced with the run date)
+ * - inbox: posted as an inbox notification
+ * - email: sent via SendGrid to `to`
+ */
+export type JobOutputType = 'none' | 'workspace' | 'inbox' | 'email';
+
+export interface IJobOutput {
+  type: JobOutputType;
+  scope?: JobWorkspaceScope; // workspace
+  path?: string; // workspace
+  to?: string[]; // email
+  subject?: string; // email, defaults to the job name
+}
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+/**
+ * A recurring assistant run.
+ * Runs are stateless executions of the assistant with `prompt` as user input,
+ * executed on behalf of `createdBy`.
+ */
+export interface IScheduledJob extends Document {
+  companyId: mongoose.Types.ObjectId;
+  assistantId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  schedule: string; // 5-field cron expression or alias (e.g. "0 9 * * 1-5", "@daily")
+  timezone: string; // IANA time zone the schedule is evaluated in
+  prompt: string;
+  workspaceInputs: IJobWorkspaceInput[];
+  output: IJobOutput;
+  enabled: boolean;
+  maxRetries: number; // Extra attempts after a failed run
+  retryDelayMs: number;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastRunStatus?: JobRunStatus;
+  lockedUntil?: Date; // Set while an instance is running the job
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobWorkspaceInputSchema = new Schema(
+  {
+    scope: { type: String, enum: ['company', 'agent'], default: 'agent' },
+    path: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+const JobOutputSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ['none', 'workspace', 'inbox', 'email'],
+      default: 'none',
+    },
+    scope: { type: String, enum: ['company', 'agent'] },
+    path: { type: String },
+    to: { type: [String], default: undefined },
+    subject: { type: String },
+  },
+  { _id: false },
+);
+
+const ScheduledJobSchema = new Schema(
+  {
+    companyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    assistantId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Assistant',
+      required: true,
+    },
+    name: { type: String, required: true },
+    description: { type: String },
+    schedule: { type: String, required: true },
+    timezone: { type: String, default: 'UTC' },
+    prompt: { type: String, required: true },
+    workspaceInputs: { type: [JobWorkspaceInputSchema], default: [] },
+    output: { type: JobOutputSchema, default: () => ({ type: 'none' }) },
+    enabled: { type: Boolean, default: true },
+    maxRetries: { type: Number, default: 2, min: 0, max: 5 },
+    retryDelayMs: { type: Number, default: 60000, min: 0 },
+    nextRunAt: { type: Date },
+    lastRunAt: { type: Date },
+    lastRunStatus: {
+      type: String,
+      enum: ['running', 'succeeded', 'failed'],
+    },
+    lockedUntil: { type: Date },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  { timestamps: true },
+);
+
+// Due-job polling
+ScheduledJobSchema.index({ enabled: 1, nextRunAt: 1 });
+ScheduledJobSchema.index({ companyId: 1 });
+
+export const ScheduledJob = mongoose.model<IScheduledJob>(
+  'ScheduledJob',
+  ScheduledJobSchema,
+);
@@ -0,0 +1,95 @@
+// file path: /src/models/ScheduledJobRun.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import { JobOutputType, JobRunStatus } from './ScheduledJob';
+
+export interface IJobRunDelivery {
+  type: JobOutputType;
+  status: 'delivered' | 'failed' | 'skipped';
+  location?: string; // Workspace path, inbox item id or recipients
+  error?: string;
+}
+
+/**
+ * Cost of a run, summed from the CostTracking records it produced
+ */
+export interface IJobRunCost {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  totalCost: number;
+}
+
+/**
+ * One execution of a scheduled job, including its retries
+ */
+export interface IScheduledJobRun extends Document {
+  jobId: mongoose.Types.ObjectId;
+  companyId: mongoose.Types.ObjectId;
+  assistantId: mongoose.Types.ObjectId;
+  trigger: 'schedule' | 'manual';
+  status: JobRunStatus;
+  attempts: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  duration?: number; // in milliseconds
+  output?: string;
+  error?: string;
+  delivery?: IJobRunDelivery;
+  cost?: IJobRunCost;
+}
+
+const ScheduledJobRunSchema = new Schema({
+  jobId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ScheduledJob',
+    required: true,
+  },
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true,
+  },
+  assistantId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Assistant',
+    required: true,
+  },
+  trigger: {
+    type: String,
+    enum: ['schedule', 'manual'],
+    default: 'schedule',
+  },
+  status: {
+    type: String,
+    enum: ['running', 'succeeded', 'failed'],
+    default: 'running',
+  },
+  attempts: { type: Number, default: 0 },
+  startedAt: { type: Date, default: Date.now },
+  finishedAt: { type: Date },
+  duration: { type: Number },
+  output: { type: String },
+  error: { type: String },
+  delivery: {
+    type: {
+      type: String,
+      enum: ['none', 'workspace', 'inbox', 'email'],
+    },
+    status: { type: String, enum: ['delivered', 'failed', 'skipped'] },
+    location: { type: String },
+    error: { type: String },
+  },
+  cost: {
+    inputTokens: { type: Number },
+    outputTokens: { type: Number },
+    totalTokens: { type: Number },
+    totalCost: { type: Number },
+  },
+});
+
+ScheduledJobRunSchema.index({ jobId: 1, startedAt: -1 });
+
+export const ScheduledJobRun = mongoose.model<IScheduledJobRun>(
+  'ScheduledJobRun',
+  ScheduledJobRunSchema,
+);
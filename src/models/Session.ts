@@ -8,6 +8,12 @@ export interface ISession extends Document {
   companyId: string;
   createdAt: Date;
   language: string;
+  // Set while a human operator answers in place of the assistant
+  handoff?: {
+    inboxId: mongoose.Types.ObjectId;
+    userId: mongoose.Types.ObjectId;
+    startedAt: Date;
+  };
 }
 
 export interface ISessionExtended extends ISession {
@@ -24,6 +30,17 @@ export const SessionSchema: Schema = new Schema({
   companyId: { type: mongoose.Schema.Types.ObjectId, ref: 'Company' },
   createdAt: { type: Date, default: Date.now },
   language: { type: String, required: true, default: 'en' },
+  handoff: {
+    type: new Schema(
+      {
+        inboxId: { type: mongoose.Schema.Types.ObjectId, ref: 'Inbox' },
+        userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+        startedAt: { type: Date, default: Date.now },
+      },
+      { _id: false },
+    ),
+    required: false,
+  },
 });
 
 SessionSchema.index(
@@ -0,0 +1,34 @@
+// file path: /src/models/SharedStateEntry.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A key/value entry of the Mongo shared-state store, shared by all API
+ * instances. Expired entries are removed by the TTL index and ignored on
+ * read until then.
+ */
+export interface ISharedStateEntry extends Document {
+  namespace: string;
+  key: string;
+  value: any;
+  expiresAt?: Date;
+  updatedAt: Date;
+}
+
+const SharedStateEntrySchema = new Schema<ISharedStateEntry>(
+  {
+    namespace: { type: String, required: true },
+    key: { type: String, required: true },
+    value: { type: Schema.Types.Mixed },
+    expiresAt: { type: Date },
+  },
+  { timestamps: { createdAt: false, updatedAt: true }, minimize: false },
+);
+
+SharedStateEntrySchema.index({ namespace: 1, key: 1 }, { unique: true });
+SharedStateEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SharedStateEntry = mongoose.model<ISharedStateEntry>(
+  'SharedStateEntry',
+  SharedStateEntrySchema,
+  'shared_state',
+);
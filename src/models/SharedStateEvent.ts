@@ -0,0 +1,34 @@
+// file path: /src/models/SharedStateEvent.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A message published to the other API instances. The collection is capped
+ * so that instances can follow it with a tailable cursor; old messages are
+ * overwritten once it is full.
+ */
+export interface ISharedStateEvent extends Document {
+  channel: string;
+  message: any;
+  origin: string; // Node ID of the publishing instance
+  createdAt: Date;
+}
+
+const SharedStateEventSchema = new Schema<ISharedStateEvent>(
+  {
+    channel: { type: String, required: true },
+    message: { type: Schema.Types.Mixed },
+    origin: { type: String, required: true },
+    createdAt: { type: Date, default: Date.now },
+  },
+  {
+    capped: { size: 32 * 1024 * 1024, max: 100000 },
+    versionKey: false,
+    minimize: false,
+  },
+);
+
+export const SharedStateEvent = mongoose.model<ISharedStateEvent>(
+  'SharedStateEvent',
+  SharedStateEventSchema,
+  'shared_state_events',
+);
@@ -0,0 +1,83 @@
+// file path: /src/models/Webhook.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Events that can be delivered to outbound webhooks
+ */
+export const WEBHOOK_EVENTS = [
+  'message.created',
+  'action.started',
+  'action.completed',
+  'action.failed',
+  'session.ended',
+  'cost.recorded',
+  'budget.soft_limit_reached',
+  'budget.hard_limit_reached',
+  'inbox.escalated',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/**
+ * Signing secret, encrypted with the same AES-256-GCM format as API keys
+ */
+export interface IWebhookSecret {
+  value: string;
+  iv: string;
+  tag: string;
+}
+
+/**
+ * An endpoint a company registered to receive events.
+ * `events` may contain "*" to receive every event type.
+ */
+export interface IWebhook extends Document {
+  companyId: mongoose.Types.ObjectId;
+  name: string;
+  url: string;
+  secret: IWebhookSecret;
+  events: string[];
+  assistantId?: mongoose.Types.ObjectId; // Only events produced by this assistant
+  active: boolean;
+  lastDeliveryAt?: Date;
+  lastDeliveryStatus?: 'succeeded' | 'failed';
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookSecretSchema = new Schema(
+  {
+    value: { type: String, required: true },
+    iv: { type: String, required: true },
+    tag: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+const WebhookSchema = new Schema(
+  {
+    companyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    name: { type: String, required: true },
+    url: { type: String, required: true },
+    secret: { type: WebhookSecretSchema, required: true, select: false },
+    events: { type: [String], required: true },
+    assistantId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Assistant',
+    },
+    active: { type: Boolean, default: true },
+    lastDeliveryAt: { type: Date },
+    lastDeliveryStatus: { type: String, enum: ['succeeded', 'failed'] },
+    createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  },
+  { timestamps: true },
+);
+
+WebhookSchema.index({ companyId: 1, active: 1 });
+
+export const Webhook = mongoose.model<IWebhook>('Webhook', WebhookSchema);
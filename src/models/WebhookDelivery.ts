@@ -0,0 +1,70 @@
+// file path: /src/models/WebhookDelivery.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * One event sent (or being sent) to a webhook, with its attempt log.
+ * Pending deliveries are retried at `nextAttemptAt` until they succeed
+ * or run out of attempts.
+ */
+export interface IWebhookDelivery extends Document {
+  webhookId: mongoose.Types.ObjectId;
+  companyId: mongoose.Types.ObjectId;
+  event: string;
+  payload: Record<string, any>; // Event envelope, sent as the request body
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  responseStatus?: number;
+  responseBody?: string; // Truncated
+  error?: string;
+  duration?: number; // Last attempt, in milliseconds
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookDeliverySchema = new Schema(
+  {
+    webhookId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Webhook',
+      required: true,
+    },
+    companyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    event: { type: String, required: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: {
+      type: String,
+      enum: ['pending', 'succeeded', 'failed'],
+      default: 'pending',
+    },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date },
+    responseStatus: { type: Number },
+    responseBody: { type: String },
+    error: { type: String },
+    duration: { type: Number },
+    deliveredAt: { type: Date },
+  },
+  { timestamps: true },
+);
+
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+// Retry polling
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+// Delivery logs are kept for 30 days
+WebhookDeliverySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60 },
+);
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>(
+  'WebhookDelivery',
+  WebhookDeliverySchema,
+);
@@ -0,0 +1,111 @@
+// file path: /src/models/Workflow.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Step types a workflow is built from.
+ * - assistant: run an assistant on a prompt
+ * - action: call an integration action directly
+ * - condition: run `then` or `else` depending on earlier outputs
+ * - parallel: run branches concurrently
+ * - loop: run `steps` once per item of an array
+ * - approval: pause until a person approves or rejects
+ */
+export type WorkflowStepType =
+  'assistant' | 'action' | 'condition' | 'parallel' | 'loop' | 'approval';
+
+export type WorkflowConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'exists'
+  | 'not_exists'
+  | 'greater_than'
+  | 'less_than'
+  | 'contains';
+
+/**
+ * Compares the value at `path` (e.g. "steps.classify.output.priority")
+ * with `value`. `all`/`any` combine nested conditions instead.
+ */
+export interface IWorkflowCondition {
+  path?: string;
+  operator?: WorkflowConditionOperator;
+  value?: unknown;
+  all?: IWorkflowCondition[];
+  any?: IWorkflowCondition[];
+}
+
+/**
+ * A workflow step. Strings in `prompt`, `args`, `message` and `over` may
+ * reference the workflow input and earlier outputs with `{{input.x}}`,
+ * `{{steps.<id>.output.y}}` and, inside loops, `{{item}}` / `{{index}}`.
+ */
+export interface IWorkflowStep {
+  id: string; // Unique within the workflow
+  type: WorkflowStepType;
+  name?: string;
+  // assistant
+  assistantId?: string;
+  prompt?: string;
+  outputSchema?: Record<string, unknown>; // Parse and validate JSON output
+  // action
+  action?: string; // Dotted action name, e.g. "jira.createTicket"
+  args?: Record<string, unknown>;
+  // condition
+  if?: IWorkflowCondition;
+  then?: IWorkflowStep[];
+  else?: IWorkflowStep[];
+  // parallel
+  branches?: IWorkflowStep[][];
+  // loop
+  over?: string; // Template resolving to an array
+  steps?: IWorkflowStep[];
+  // approval
+  message?: string;
+}
+
+export interface IWorkflowDefinition {
+  inputSchema?: Record<string, unknown>; // JSON schema of the run input
+  steps: IWorkflowStep[];
+  output?: unknown; // Template for the run output, defaults to the last step's
+}
+
+export type WorkflowSourceFormat = 'json' | 'yaml';
+
+/**
+ * A company's workflow. `source` keeps the definition as written; `definition`
+ * is the parsed, validated form runs are started from.
+ */
+export interface IWorkflow extends Document {
+  companyId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  format: WorkflowSourceFormat;
+  source: string;
+  definition: IWorkflowDefinition;
+  version: number; // Incremented on each definition change
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkflowSchema = new Schema<IWorkflow>(
+  {
+    companyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    name: { type: String, required: true, trim: true },
+    description: { type: String },
+    format: { type: String, enum: ['json', 'yaml'], default: 'json' },
+    source: { type: String, required: true },
+    definition: { type: Schema.Types.Mixed, required: true },
+    version: { type: Number, default: 1 },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  },
+  { timestamps: true },
+);
+
+WorkflowSchema.index({ companyId: 1, name: 1 }, { unique: true });
+
+export const Workflow = mongoose.model<IWorkflow>('Workflow', WorkflowSchema);
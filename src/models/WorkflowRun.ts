@@ -0,0 +1,101 @@
+// file path: /src/models/WorkflowRun.ts
+import mongoose, { Document, Schema } from 'mongoose';
+import { IWorkflowDefinition } from './Workflow';
+import { IJobRunCost } from './ScheduledJobRun';
+
+export type WorkflowRunStatus =
+  'running' | 'waiting_approval' | 'succeeded' | 'failed' | 'cancelled';
+
+export type WorkflowStepStatus =
+  'running' | 'succeeded' | 'failed' | 'skipped' | 'waiting_approval';
+
+/**
+ * Persisted state of one step execution. Keys in `IWorkflowRun.steps` are
+ * the step id, prefixed inside loops with the loop id and iteration
+ * (`each#2/summarize`).
+ */
+export interface IWorkflowStepState {
+  status: WorkflowStepStatus;
+  type: string;
+  output?: unknown;
+  error?: string;
+  message?: string; // Approval request shown to the reviewer
+  decidedBy?: string;
+  decidedAt?: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * One execution of a workflow. The definition is copied at start so edits
+ * do not affect runs in progress; finished steps are never re-run when a
+ * run resumes.
+ */
+export interface IWorkflowRun extends Document {
+  companyId: mongoose.Types.ObjectId;
+  workflowId: mongoose.Types.ObjectId;
+  workflowName: string;
+  workflowVersion: number;
+  definition: IWorkflowDefinition;
+  input?: unknown;
+  status: WorkflowRunStatus;
+  steps: Record<string, IWorkflowStepState>;
+  output?: unknown;
+  error?: string;
+  cost?: IJobRunCost;
+  lockedUntil?: Date; // Lease held by the instance executing the run
+  createdBy: mongoose.Types.ObjectId;
+  startedAt: Date;
+  finishedAt?: Date;
+  duration?: number; // in milliseconds
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkflowRunSchema = new Schema<IWorkflowRun>(
+  {
+    companyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    workflowId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workflow',
+      required: true,
+    },
+    workflowName: { type: String, required: true },
+    workflowVersion: { type: Number, required: true },
+    definition: { type: Schema.Types.Mixed, required: true },
+    input: { type: Schema.Types.Mixed },
+    status: {
+      type: String,
+      enum: ['running', 'waiting_approval', 'succeeded', 'failed', 'cancelled'],
+      default: 'running',
+    },
+    steps: { type: Schema.Types.Mixed, default: {} },
+    output: { type: Schema.Types.Mixed },
+    error: { type: String },
+    cost: {
+      inputTokens: { type: Number },
+      outputTokens: { type: Number },
+      totalTokens: { type: Number },
+      totalCost: { type: Number },
+    },
+    lockedUntil: { type: Date },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    startedAt: { type: Date, default: Date.now },
+    finishedAt: { type: Date },
+    duration: { type: Number },
+  },
+  { timestamps: true, minimize: false },
+);
+
+WorkflowRunSchema.index({ workflowId: 1, startedAt: -1 });
+WorkflowRunSchema.index({ companyId: 1, status: 1, startedAt: -1 });
+WorkflowRunSchema.index({ status: 1, lockedUntil: 1 });
+
+export const WorkflowRun = mongoose.model<IWorkflowRun>(
+  'WorkflowRun',
+  WorkflowRunSchema,
+);
@@ -0,0 +1,57 @@
+// file path: /src/models/WorkspaceAcl.ts
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const WORKSPACE_ACCESS_LEVELS = ['read', 'write', 'delete'] as const;
+
+export type WorkspaceAccess = (typeof WORKSPACE_ACCESS_LEVELS)[number];
+
+export type WorkspaceAclPrincipalType = 'user' | 'team' | 'assistant';
+
+/**
+ * A grant on a workspace path prefix (e.g. `/agent/<id>/reports`). Once a
+ * prefix has entries, only the principals listed there can access it.
+ */
+export interface IWorkspaceAcl extends Document {
+  companyId: mongoose.Types.ObjectId;
+  pathPrefix: string;
+  principalType: WorkspaceAclPrincipalType;
+  principalId: string;
+  permissions: WorkspaceAccess[];
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceAclSchema = new Schema<IWorkspaceAcl>(
+  {
+    companyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    pathPrefix: { type: String, required: true },
+    principalType: {
+      type: String,
+      enum: ['user', 'team', 'assistant'],
+      required: true,
+    },
+    principalId: { type: String, required: true },
+    permissions: {
+      type: [String],
+      enum: WORKSPACE_ACCESS_LEVELS,
+      default: [],
+    },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  { timestamps: true },
+);
+
+WorkspaceAclSchema.index(
+  { companyId: 1, pathPrefix: 1, principalType: 1, principalId: 1 },
+  { unique: true },
+);
+
+export const WorkspaceAcl = mongoose.model<IWorkspaceAcl>(
+  'WorkspaceAcl',
+  WorkspaceAclSchema,
+);
@@ -0,0 +1,86 @@
+// file path: /src/models/WorkspaceChunk.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * One embedded chunk of a workspace entry. `key` is the entry's full
+ * workspace key (e.g. `unified-workspace:/agent/<id>/docs/guide.md`) and
+ * `start`/`end` are character offsets into the entry's text.
+ */
+export interface IWorkspaceChunk extends Document {
+  key: string;
+  companyId: mongoose.Types.ObjectId;
+  chunkIndex: number;
+  text: string;
+  start: number;
+  end: number;
+  heading?: string;
+  embedding: number[];
+  contentType?: string;
+  size?: number;
+  tags?: string[];
+  sourceCreatedAt?: Date;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceChunkSchema = new Schema<IWorkspaceChunk>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    companyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+      index: true,
+    },
+    chunkIndex: {
+      type: Number,
+      required: true,
+    },
+    text: {
+      type: String,
+      required: true,
+    },
+    start: {
+      type: Number,
+      required: true,
+    },
+    end: {
+      type: Number,
+      required: true,
+    },
+    heading: String,
+    embedding: {
+      type: [Number],
+      required: true,
+    },
+    contentType: String,
+    size: Number,
+    tags: [String],
+    sourceCreatedAt: Date,
+    expiresAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: 'workspace_chunks',
+  },
+);
+
+WorkspaceChunkSchema.index({ key: 1, chunkIndex: 1 });
+
+// Keyword side of hybrid search. No language, so identifiers and
+// non-English text are matched as written rather than stemmed.
+WorkspaceChunkSchema.index({ text: 'text' }, { default_language: 'none' });
+
+// Chunks of entries with a TTL expire with the entry
+WorkspaceChunkSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const WorkspaceChunk = mongoose.model<IWorkspaceChunk>(
+  'WorkspaceChunk',
+  WorkspaceChunkSchema,
+);
+
+export default WorkspaceChunk;
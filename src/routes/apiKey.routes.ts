@@ -13,6 +13,9 @@ router.use(verifyTokenMiddleware);
 // Create a new API key
 router.post('/', verifyAccess(), ApiKeyController.createApiKey);
 
+// List the permissions keys can be scoped to
+router.get('/permissions', verifyAccess(), ApiKeyController.listPermissions);
+
 // List all API keys for the authenticated user
 router.get('/', verifyAccess(), ApiKeyController.listApiKeys);
 
@@ -6,20 +6,30 @@ import { executeHandler } from './assistant/execute.routes'; // Import the handl
 import workspaceExecuteRouter from './assistant/workspace-execute.routes'; // Import workspace execute router
 import { validateApiKeys } from '../services/api.key.service';
 import { validateObjectId } from '../utils/validation';
+import {
+  requirePermission,
+  requireResourcePermission,
+  requireAssistantPermission,
+} from '../middleware/permission.middleware';
 
 const router = express.Router();
 
 // Mount specific routes from threadRouter
-router.post('/user-input', threadRouter);
+router.post('/user-input', requirePermission('sessions:write'), threadRouter);
 
 // Mount other routes
-router.use('/thread', threadRouter);
-router.use('/completion', completionRouter);
+router.use('/thread', requireResourcePermission('sessions'), threadRouter);
+router.use(
+  '/completion',
+  requirePermission('assistants:execute'),
+  completionRouter,
+);
 
 // Execute handler with proper parameter handling
 // Removed validateObjectId since we now accept names too
 router.post(
   '/:assistantId/execute',
+  requireAssistantPermission('execute', 'assistantId'),
   validateApiKeys(['openai_api_key']),
   executeHandler,
 );
@@ -28,6 +38,6 @@ router.post(
 router.use('/', workspaceExecuteRouter);
 
 // This should be last to avoid catching other routes
-router.use('/', assistantRouter); // Handles routes like /assistant, /assistant/:id
+router.use('/', requireResourcePermission('assistants'), assistantRouter); // Handles routes like /assistant, /assistant/:id
 
 export { router as assistantRouter };
@@ -4,6 +4,7 @@ import { Assistant } from '../../models/Assistant';
 import mongoose from 'mongoose';
 import { isValidObjectId } from '../../utils/validation';
 import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
+import { BudgetExceededError } from '../../utils/errors';
 
 // Helper function to generate unique message IDs
 const generateMessageId = (): string => {
@@ -70,6 +71,9 @@ export const executeHandler = async (req: AuthenticatedRequest, res: any) => {
     // Execute assistant message without session
     const companyId = req.company._id.toString();
     const userId = req.user._id.toString(); // Now safe to access after the check
+    // Spend of API key requests counts against the key's budgets
+    const apiKeyId = (req as any).apiKeyId?.toString();
+    const costMetadata = apiKeyId ? { apiKeyId } : undefined;
 
     if (clientWantsSSE) {
       // SSE Logic
@@ -106,6 +110,7 @@ export const executeHandler = async (req: AuthenticatedRequest, res: any) => {
         undefined, // responseFormat is undefined for SSE
         { 'X-Experimental-Stream': 'true' }, // metadata
         promptOverride, // Pass promptOverride
+        costMetadata,
       );
 
       if (
@@ -152,6 +157,7 @@ export const executeHandler = async (req: AuthenticatedRequest, res: any) => {
         responseFormat, // Pass responseFormat
         undefined, // metadata
         promptOverride, // Pass promptOverride
+        costMetadata,
       );
 
       // Handle structured response
@@ -216,10 +222,22 @@ export const executeHandler = async (req: AuthenticatedRequest, res: any) => {
       res.write(
         `event:error\ndata:${JSON.stringify({
           type: 'error',
-          errorDetails: { message: err.message || 'An unknown error occurred' },
+          errorDetails: {
+            message: err.message || 'An unknown error occurred',
+            ...(error instanceof BudgetExceededError && {
+              code: error.code,
+              budget: error.details,
+            }),
+          },
         })}\n\n`,
       );
       res.end();
+    } else if (!res.headersSent && error instanceof BudgetExceededError) {
+      res.status(error.statusCode).json({
+        error: error.message,
+        code: error.code,
+        budget: error.details,
+      });
     } else if (!res.headersSent) {
       res.status(500).json({
         error:
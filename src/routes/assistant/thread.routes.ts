@@ -6,6 +6,7 @@ import { validateApiKeys } from '../../services/api.key.service';
 import { Session, ISession } from '../../models/Session'; // ISession added
 import { Message } from '../../models/Message'; // Added for Step 5
 import { handleSessionMessage } from '../../services/assistant.service';
+import { BudgetExceededError } from '../../utils/errors';
 import { getSessionOrCreate } from '../../services/session.service'; // Added
 import {
   getMessagesBySessionId,
@@ -107,6 +108,10 @@ threadRouter.post(
       // If clientWantsSSE is true, we attempt to stream.
       const wantsSSE = clientWantsSSE;
 
+      // Spend of API key requests counts against the key's budgets
+      const apiKeyId = (req as any).apiKeyId?.toString();
+      const apiKeyMetadata = apiKeyId ? { apiKeyId } : undefined;
+
       if (wantsSSE) {
         // SSE Logic
         res.set({
@@ -136,7 +141,7 @@ threadRouter.post(
         const result = await handleSessionMessage(
           userInput,
           activeSessionId, // Use the retrieved/created active session ID
-          { 'X-Experimental-Stream': 'true' }, // Inform service that SSE is expected
+          { 'X-Experimental-Stream': 'true', ...apiKeyMetadata }, // Inform service that SSE is expected
           attachments, // Pass attachments
         );
 
@@ -267,6 +272,13 @@ threadRouter.post(
 
           // Removed Message.create from here as it's handled in message-handling.service.ts
           // The console.log for "Assistant SSE reply persisted" is also removed as the save happens elsewhere.
+        } else if (result === '') {
+          // A human operator took over the session; their replies arrive
+          // over the session's WebSocket channel
+          if (!res.writableEnded) {
+            res.write(`data:${JSON.stringify({ type: 'done' })}\n\n`);
+            res.end();
+          }
         } else {
           console.error(
             'handleSessionMessage did not return a valid textStream for SSE. Result:',
@@ -295,7 +307,7 @@ threadRouter.post(
         const result = await handleSessionMessage(
           userInput,
           activeSessionId,
-          undefined, // No streaming metadata
+          apiKeyMetadata, // No streaming metadata
           attachments, // Pass attachments
         );
 
@@ -343,10 +355,20 @@ threadRouter.post(
             errorDetails: {
               message:
                 err.message || 'An unknown error occurred during streaming.',
+              ...(error instanceof BudgetExceededError && {
+                code: error.code,
+                budget: error.details,
+              }),
             },
           })}\n\n`,
         );
         res.end();
+      } else if (!res.headersSent && error instanceof BudgetExceededError) {
+        res.status(error.statusCode).json({
+          error: error.message,
+          code: error.code,
+          budget: error.details,
+        });
       } else if (!res.headersSent) {
         res.status(500).json({
           error:
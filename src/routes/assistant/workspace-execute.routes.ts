@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { verifyTokenMiddleware } from '../../middleware/auth.middleware';
+import { requireAssistantPermission } from '../../middleware/permission.middleware';
 import { executeAssistantStateless } from '../../services/assistant/stateless-execution.service';
 import { resolveAssistantIdentifier } from '../../services/assistant/assistant-resolver.service';
 
@@ -12,6 +13,7 @@ const router = Router();
 router.post(
   '/:id/workspace-execute',
   verifyTokenMiddleware,
+  requireAssistantPermission('execute'),
   async (req: Request, res: Response) => {
     try {
       const { id: assistantId } = req.params;
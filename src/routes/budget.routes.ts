@@ -0,0 +1,152 @@
+// file path: /src/routes/budget.routes.ts
+import express from 'express';
+import {
+  AuthenticatedRequest,
+  verifyAccess,
+} from '../middleware/auth.middleware';
+import {
+  listBudgets,
+  getBudgetWithStatus,
+  createBudget,
+  updateBudget,
+  deleteBudget,
+  BudgetInput,
+  BudgetStatus,
+} from '../services/budget.service';
+import { CustomError } from '../utils/errors';
+
+const router = express.Router();
+
+const toBudgetResponse = ({ budget, ...status }: BudgetStatus) => ({
+  ...budget.toObject(),
+  ...status,
+});
+
+/**
+ * GET /api/budgets
+ * List the company's budgets with their spend in the current window
+ */
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const budgets = await listBudgets(companyId);
+    res.json(budgets.map(toBudgetResponse));
+  } catch (error) {
+    console.error('Error listing budgets:', error);
+    res.status(500).json({ error: 'Failed to list budgets' });
+  }
+});
+
+/**
+ * GET /api/budgets/:id
+ * Get a budget with its spend in the current window
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const status = await getBudgetWithStatus(companyId, req.params.id);
+    if (!status) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    res.json(toBudgetResponse(status));
+  } catch (error) {
+    console.error('Error getting budget:', error);
+    res.status(500).json({ error: 'Failed to get budget' });
+  }
+});
+
+/**
+ * POST /api/budgets
+ * Create a budget (admin)
+ */
+router.post('/', verifyAccess(true), async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    const userId = req.user?._id?.toString();
+    if (!companyId || !userId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const budget = await createBudget(
+      companyId,
+      req.body as BudgetInput,
+      userId,
+    );
+    res.status(201).json(budget);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error creating budget:', error);
+    res.status(500).json({ error: 'Failed to create budget' });
+  }
+});
+
+/**
+ * PUT /api/budgets/:id
+ * Update a budget's name, limits, action, notifications or enabled flag
+ * (admin)
+ */
+router.put(
+  '/:id',
+  verifyAccess(true),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const companyId = req.company?._id?.toString();
+      if (!companyId) {
+        return res.status(400).json({ error: 'Company ID required' });
+      }
+
+      const budget = await updateBudget(
+        companyId,
+        req.params.id,
+        req.body as BudgetInput,
+      );
+      res.json(budget);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error updating budget:', error);
+      res.status(500).json({ error: 'Failed to update budget' });
+    }
+  },
+);
+
+/**
+ * DELETE /api/budgets/:id
+ * Delete a budget (admin)
+ */
+router.delete(
+  '/:id',
+  verifyAccess(true),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const companyId = req.company?._id?.toString();
+      if (!companyId) {
+        return res.status(400).json({ error: 'Company ID required' });
+      }
+
+      const deleted = await deleteBudget(companyId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Budget not found' });
+      }
+
+      res.json({ message: 'Budget deleted' });
+    } catch (error) {
+      console.error('Error deleting budget:', error);
+      res.status(500).json({ error: 'Failed to delete budget' });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,126 @@
+// file path: /src/routes/delegation.routes.ts
+import express from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/permission.middleware';
+import {
+  cancelDelegationTask,
+  createDelegationTask,
+  DelegationTaskInput,
+  getDelegationSubtree,
+  getSessionDelegationTree,
+} from '../services/delegation.service';
+import { CustomError } from '../utils/errors';
+import { permission } from '../utils/permissions';
+
+const router = express.Router();
+
+/**
+ * GET /api/delegations?sessionId=
+ * Delegation trees started from a session, with per-task and total cost
+ */
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+    const sessionId = req.query.sessionId as string | undefined;
+    if (!sessionId) {
+      return res.status(400).json({ error: 'sessionId is required' });
+    }
+
+    const tree = await getSessionDelegationTree(companyId, sessionId);
+    res.json(tree);
+  } catch (error) {
+    console.error('Error getting delegation tree:', error);
+    res.status(500).json({ error: 'Failed to get delegation tree' });
+  }
+});
+
+/**
+ * POST /api/delegations
+ * Delegate a task to an assistant. Responds once the task is queued; poll
+ * GET /api/delegations/:id for its outcome. API keys need
+ * `assistants:execute` for the delegate.
+ */
+router.post(
+  '/',
+  requirePermission((req) =>
+    permission(
+      'assistants',
+      'execute',
+      typeof req.body?.assistantId === 'string'
+        ? req.body.assistantId
+        : undefined,
+    ),
+  ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const companyId = req.company?._id?.toString();
+      const userId = req.user?._id?.toString();
+      if (!companyId || !userId) {
+        return res.status(400).json({ error: 'Company ID required' });
+      }
+
+      // Child tasks are only created by running tasks
+      const task = await createDelegationTask(
+        companyId,
+        { ...(req.body as DelegationTaskInput), parentTaskId: undefined },
+        userId,
+      );
+      res.status(202).json(task);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error creating delegation task:', error);
+      res.status(500).json({ error: 'Failed to create delegation task' });
+    }
+  },
+);
+
+/**
+ * GET /api/delegations/:id
+ * A task with its descendants, per-task cost and subtree cost
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const tree = await getDelegationSubtree(companyId, req.params.id);
+    res.json(tree);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error getting delegation task:', error);
+    res.status(500).json({ error: 'Failed to get delegation task' });
+  }
+});
+
+/**
+ * POST /api/delegations/:id/cancel
+ * Cancel a task and its unfinished descendants
+ */
+router.post('/:id/cancel', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const task = await cancelDelegationTask(companyId, req.params.id);
+    res.json(task);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error cancelling delegation task:', error);
+    res.status(500).json({ error: 'Failed to cancel delegation task' });
+  }
+});
+
+export default router;
@@ -0,0 +1,298 @@
+// file path: /src/routes/eval.routes.ts
+import express from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+  listEvalSuites,
+  getEvalSuite,
+  createEvalSuite,
+  updateEvalSuite,
+  deleteEvalSuite,
+  startEvalRun,
+  listEvalRuns,
+  getEvalRun,
+  compareEvalVersions,
+  getPromptEvalStatus,
+  EvalSuiteInput,
+} from '../services/eval.service';
+import { CustomError } from '../utils/errors';
+
+const router = express.Router();
+
+const parseVersion = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : NaN;
+};
+
+/**
+ * GET /api/evals/suites
+ * List the company's eval suites (optionally ?assistantId=)
+ */
+router.get('/suites', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const suites = await listEvalSuites(
+      companyId,
+      req.query.assistantId as string | undefined,
+    );
+    res.json(suites);
+  } catch (error) {
+    console.error('Error listing eval suites:', error);
+    res.status(500).json({ error: 'Failed to list eval suites' });
+  }
+});
+
+/**
+ * GET /api/evals/suites/:id
+ * Get an eval suite
+ */
+router.get('/suites/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const suite = await getEvalSuite(companyId, req.params.id);
+    if (!suite) {
+      return res.status(404).json({ error: 'Eval suite not found' });
+    }
+
+    res.json(suite);
+  } catch (error) {
+    console.error('Error getting eval suite:', error);
+    res.status(500).json({ error: 'Failed to get eval suite' });
+  }
+});
+
+/**
+ * POST /api/evals/suites
+ * Create an eval suite
+ */
+router.post('/suites', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    const userId = req.user?._id?.toString();
+    if (!companyId || !userId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const suite = await createEvalSuite(
+      companyId,
+      req.body as EvalSuiteInput,
+      userId,
+    );
+    res.status(201).json(suite);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error creating eval suite:', error);
+    res.status(500).json({ error: 'Failed to create eval suite' });
+  }
+});
+
+/**
+ * PUT /api/evals/suites/:id
+ * Update an eval suite. `cases` replaces the case list.
+ */
+router.put('/suites/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const suite = await updateEvalSuite(
+      companyId,
+      req.params.id,
+      req.body as EvalSuiteInput,
+    );
+    res.json(suite);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error updating eval suite:', error);
+    res.status(500).json({ error: 'Failed to update eval suite' });
+  }
+});
+
+/**
+ * DELETE /api/evals/suites/:id
+ * Delete an eval suite and its runs
+ */
+router.delete('/suites/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const deleted = await deleteEvalSuite(companyId, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Eval suite not found' });
+    }
+
+    res.json({ message: 'Eval suite deleted' });
+  } catch (error) {
+    console.error('Error deleting eval suite:', error);
+    res.status(500).json({ error: 'Failed to delete eval suite' });
+  }
+});
+
+/**
+ * POST /api/evals/suites/:id/runs
+ * Run a suite against a prompt version ({ promptVersion }, default latest)
+ * or a draft prompt ({ promptContent }). Responds 202 with the run; poll
+ * GET /api/evals/runs/:runId for results.
+ */
+router.post('/suites/:id/runs', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    const userId = req.user?._id?.toString();
+    if (!companyId || !userId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const promptVersion = parseVersion(req.body?.promptVersion);
+    if (Number.isNaN(promptVersion)) {
+      return res
+        .status(400)
+        .json({ error: 'promptVersion must be a positive integer' });
+    }
+
+    const run = await startEvalRun(
+      companyId,
+      req.params.id,
+      { promptVersion, promptContent: req.body?.promptContent },
+      userId,
+    );
+    res.status(202).json(run);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error starting eval run:', error);
+    res.status(500).json({ error: 'Failed to start eval run' });
+  }
+});
+
+/**
+ * GET /api/evals/suites/:id/runs
+ * Run history without case outputs (?limit=, default 20)
+ */
+router.get('/suites/:id/runs', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    const runs = await listEvalRuns(companyId, req.params.id, limit);
+    res.json(runs);
+  } catch (error) {
+    console.error('Error listing eval runs:', error);
+    res.status(500).json({ error: 'Failed to list eval runs' });
+  }
+});
+
+/**
+ * GET /api/evals/suites/:id/compare?base=&candidate=
+ * Case-by-case comparison of the latest completed runs for two prompt
+ * versions
+ */
+router.get('/suites/:id/compare', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const base = parseVersion(req.query.base);
+    const candidate = parseVersion(req.query.candidate);
+    if (!base || !candidate) {
+      return res
+        .status(400)
+        .json({ error: 'base and candidate prompt versions are required' });
+    }
+
+    const comparison = await compareEvalVersions(
+      companyId,
+      req.params.id,
+      base,
+      candidate,
+    );
+    res.json(comparison);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error comparing eval runs:', error);
+    res.status(500).json({ error: 'Failed to compare eval runs' });
+  }
+});
+
+/**
+ * GET /api/evals/runs/:runId
+ * Get a run with its case results
+ */
+router.get('/runs/:runId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const run = await getEvalRun(companyId, req.params.runId);
+    if (!run) {
+      return res.status(404).json({ error: 'Eval run not found' });
+    }
+
+    res.json(run);
+  } catch (error) {
+    console.error('Error getting eval run:', error);
+    res.status(500).json({ error: 'Failed to get eval run' });
+  }
+});
+
+/**
+ * GET /api/evals/assistants/:assistantId/status?version=
+ * Whether a prompt version passes all of the assistant's suites. Use it
+ * to gate prompt updates.
+ */
+router.get(
+  '/assistants/:assistantId/status',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const companyId = req.company?._id?.toString();
+      if (!companyId) {
+        return res.status(400).json({ error: 'Company ID required' });
+      }
+
+      const version = parseVersion(req.query.version);
+      if (!version) {
+        return res.status(400).json({ error: 'version is required' });
+      }
+
+      const status = await getPromptEvalStatus(
+        companyId,
+        req.params.assistantId,
+        version,
+      );
+      res.json(status);
+    } catch (error) {
+      console.error('Error getting prompt eval status:', error);
+      res.status(500).json({ error: 'Failed to get prompt eval status' });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,49 @@
+// file path: /src/routes/inbound-hook.routes.ts
+import express from 'express';
+import {
+  captureRawBody,
+  RawBodyRequest,
+} from '../middleware/raw-body.middleware';
+import { handleInboundRequest } from '../services/inbound-trigger.service';
+import { CustomError } from '../utils/errors';
+
+// Public: requests are authenticated by the trigger token and, when
+// configured, the trigger's signature verification
+const router = express.Router();
+
+// JSON and form bodies are parsed (with the raw body kept) globally;
+// plain text payloads are handled here
+router.use(express.text({ type: 'text/*', verify: captureRawBody }));
+
+/**
+ * POST /hooks/:token
+ * Start a run of the trigger's assistant. Sync triggers respond with the
+ * output; async triggers respond 202 with the run ID.
+ */
+router.post('/:token', async (req: RawBodyRequest, res) => {
+  try {
+    const { mode, run } = await handleInboundRequest(req.params.token, {
+      method: req.method,
+      headers: req.headers,
+      query: req.query as Record<string, unknown>,
+      body: req.body,
+      rawBody: req.rawBody,
+    });
+
+    if (mode === 'async') {
+      return res.status(202).json({ runId: run._id, status: run.status });
+    }
+    if (run.status === 'failed') {
+      return res.status(500).json({ runId: run._id, error: run.error });
+    }
+    res.json({ runId: run._id, status: run.status, output: run.output });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error handling inbound trigger request:', error);
+    res.status(500).json({ error: 'Failed to handle request' });
+  }
+});
+
+export default router;
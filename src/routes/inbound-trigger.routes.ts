@@ -0,0 +1,221 @@
+// file path: /src/routes/inbound-trigger.routes.ts
+import express from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+  listInboundTriggers,
+  getInboundTrigger,
+  createInboundTrigger,
+  updateInboundTrigger,
+  deleteInboundTrigger,
+  rotateInboundTriggerSecret,
+  listInboundTriggerRuns,
+  previewInboundTrigger,
+  InboundTriggerInput,
+} from '../services/inbound-trigger.service';
+import { IInboundTrigger } from '../models/InboundTrigger';
+import { getBaseUrl } from '../services/oauth-mcp.service';
+import { CustomError } from '../utils/errors';
+
+const router = express.Router();
+
+/**
+ * Add the public URL senders POST to
+ */
+const withUrl = (req: express.Request, trigger: IInboundTrigger) => {
+  const data =
+    typeof trigger.toJSON === 'function' ? trigger.toJSON() : trigger;
+  return { ...data, url: `${getBaseUrl(req)}/hooks/${trigger.token}` };
+};
+
+/**
+ * GET /api/triggers
+ * List the company's inbound triggers (optionally ?assistantId=)
+ */
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const triggers = await listInboundTriggers(
+      companyId,
+      req.query.assistantId as string | undefined,
+    );
+    res.json(triggers.map((trigger) => withUrl(req, trigger)));
+  } catch (error) {
+    console.error('Error listing inbound triggers:', error);
+    res.status(500).json({ error: 'Failed to list inbound triggers' });
+  }
+});
+
+/**
+ * GET /api/triggers/:id
+ * Get an inbound trigger
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const trigger = await getInboundTrigger(companyId, req.params.id);
+    if (!trigger) {
+      return res.status(404).json({ error: 'Trigger not found' });
+    }
+
+    res.json(withUrl(req, trigger));
+  } catch (error) {
+    console.error('Error getting inbound trigger:', error);
+    res.status(500).json({ error: 'Failed to get inbound trigger' });
+  }
+});
+
+/**
+ * POST /api/triggers
+ * Create an inbound trigger. A generated verification secret is included
+ * in the response and not returned again.
+ */
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    const userId = req.user?._id?.toString();
+    if (!companyId || !userId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const { trigger, secret } = await createInboundTrigger(
+      companyId,
+      req.body as InboundTriggerInput,
+      userId,
+    );
+    res.status(201).json({ ...withUrl(req, trigger), secret });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error creating inbound trigger:', error);
+    res.status(500).json({ error: 'Failed to create inbound trigger' });
+  }
+});
+
+/**
+ * PUT /api/triggers/:id
+ * Update an inbound trigger
+ */
+router.put('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const { trigger, secret } = await updateInboundTrigger(
+      companyId,
+      req.params.id,
+      req.body as InboundTriggerInput,
+    );
+    res.json({ ...withUrl(req, trigger), secret });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error updating inbound trigger:', error);
+    res.status(500).json({ error: 'Failed to update inbound trigger' });
+  }
+});
+
+/**
+ * DELETE /api/triggers/:id
+ * Delete an inbound trigger and its run history
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const deleted = await deleteInboundTrigger(companyId, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Trigger not found' });
+    }
+
+    res.json({ message: 'Trigger deleted' });
+  } catch (error) {
+    console.error('Error deleting inbound trigger:', error);
+    res.status(500).json({ error: 'Failed to delete inbound trigger' });
+  }
+});
+
+/**
+ * POST /api/triggers/:id/rotate-secret
+ * Replace the verification secret with a generated one
+ */
+router.post('/:id/rotate-secret', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const secret = await rotateInboundTriggerSecret(companyId, req.params.id);
+    res.json({ secret });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error rotating inbound trigger secret:', error);
+    res.status(500).json({ error: 'Failed to rotate trigger secret' });
+  }
+});
+
+/**
+ * POST /api/triggers/:id/preview
+ * Render the template for a sample request ({ body, query, headers })
+ * without running the assistant
+ */
+router.post('/:id/preview', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const input = await previewInboundTrigger(companyId, req.params.id, {
+      body: req.body?.body,
+      query: req.body?.query,
+      headers: req.body?.headers,
+    });
+    res.json({ input });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error previewing inbound trigger:', error);
+    res.status(500).json({ error: 'Failed to preview inbound trigger' });
+  }
+});
+
+/**
+ * GET /api/triggers/:id/runs
+ * Run history (?limit=, default 20)
+ */
+router.get('/:id/runs', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    const runs = await listInboundTriggerRuns(companyId, req.params.id, limit);
+    res.json(runs);
+  } catch (error) {
+    console.error('Error listing inbound trigger runs:', error);
+    res.status(500).json({ error: 'Failed to list inbound trigger runs' });
+  }
+});
+
+export default router;
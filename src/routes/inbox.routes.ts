@@ -1,17 +1,272 @@
 /// file_path: src/routes/inbox.routes.ts
 import express from 'express';
 import {
+  addInboxReply,
   addMessageToInbox,
+  assignInboxItem,
+  getCompanyInboxItem,
   getInboxMessages,
+  InboxQueueFilter,
+  listInboxQueue,
+  setInboxPriority,
+  setInboxStatus,
   updateInboxMessageStatus,
 } from '../services/inbox.service';
+import {
+  releaseSession,
+  sendHandoffReply,
+  takeOverSession,
+} from '../services/session-handoff.service';
+import {
+  approveAction,
+  getActionApprovals,
+  rejectAction,
+} from '../services/action-approval.service';
 import { handleSessionMessage } from '../services/assistant.service';
 import { Session } from '../models/Session';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { getApiKey } from '../services/api.key.service';
+import { IActionApproval, InboxPriority } from '../models/Inbox';
+import { AuthorizationError, CustomError } from '../utils/errors';
 
 const inboxRouter = express.Router();
 
+// Queue filters from the query string; assignedTo=me is the current user
+const parseQueueFilter = (req: AuthenticatedRequest): InboxQueueFilter => {
+  const { status, type, priority, assignedTo, teamId } = req.query;
+  return {
+    status: status as InboxQueueFilter['status'],
+    type: type as InboxQueueFilter['type'],
+    priority: priority as InboxPriority | undefined,
+    assignedTo:
+      assignedTo === 'me' ? req.user?._id?.toString() : (assignedTo as string),
+    teamId: teamId as string | undefined,
+  };
+};
+
+// Handoffs act as a user, which API keys without one cannot
+const requireUserId = (req: AuthenticatedRequest): string => {
+  const userId = req.user?._id?.toString();
+  if (!userId) {
+    throw new AuthorizationError('Session handoff requires a user');
+  }
+  return userId;
+};
+
+const sendError = (res: express.Response, error: unknown, message: string) => {
+  if (error instanceof CustomError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  res.status(500).json({ message, error });
+};
+
+// List action approval requests, optionally filtered by approval status
+inboxRouter.get('/approvals', async (req: AuthenticatedRequest, res) => {
+  try {
+    const approvals = await getActionApprovals(
+      req.company._id,
+      req.query.status as IActionApproval['status'] | undefined,
+    );
+    res.json(approvals);
+  } catch (error) {
+    res.status(500).json({ message: 'Error retrieving approvals', error });
+  }
+});
+
+// Human operator approves a paused action; it runs with the proposed arguments
+inboxRouter.post(
+  '/approvals/:approvalId/approve',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const approval = await approveAction(
+        req.params.approvalId,
+        req.company._id.toString(),
+        req.user?._id?.toString(),
+      );
+      res.json(approval);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Error approving action', error });
+    }
+  },
+);
+
+// Human operator rejects a paused action; it is never run
+inboxRouter.post(
+  '/approvals/:approvalId/reject',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const approval = await rejectAction(
+        req.params.approvalId,
+        req.company._id.toString(),
+        req.user?._id?.toString(),
+        req.body?.reason,
+      );
+      res.json(approval);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Error rejecting action', error });
+    }
+  },
+);
+
+// Handoff queue: human agent requests in SLA order, filtered and paginated
+inboxRouter.get('/queue', async (req: AuthenticatedRequest, res) => {
+  try {
+    const queue = await listInboxQueue(req.company._id.toString(), {
+      ...parseQueueFilter(req),
+      page: Number(req.query.page) || undefined,
+      limit: Number(req.query.limit) || undefined,
+    });
+    res.json(queue);
+  } catch (error) {
+    sendError(res, error, 'Error retrieving inbox queue');
+  }
+});
+
+// A single inbox item with its thread
+inboxRouter.get('/items/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const item = await getCompanyInboxItem(
+      req.params.id,
+      req.company._id.toString(),
+    );
+    res.json(item);
+  } catch (error) {
+    sendError(res, error, 'Error retrieving inbox item');
+  }
+});
+
+// Assign an item to a user and/or team; an empty body unassigns it
+inboxRouter.post(
+  '/items/:id/assign',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = await assignInboxItem(
+        req.params.id,
+        req.company._id.toString(),
+        { userId: req.body?.userId, teamId: req.body?.teamId },
+        req.user?._id?.toString(),
+      );
+      res.json(item);
+    } catch (error) {
+      sendError(res, error, 'Error assigning inbox item');
+    }
+  },
+);
+
+inboxRouter.post(
+  '/items/:id/priority',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = await setInboxPriority(
+        req.params.id,
+        req.company._id.toString(),
+        req.body?.priority,
+      );
+      res.json(item);
+    } catch (error) {
+      sendError(res, error, 'Error updating inbox item priority');
+    }
+  },
+);
+
+inboxRouter.post(
+  '/items/:id/status',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = await setInboxStatus(
+        req.params.id,
+        req.company._id.toString(),
+        req.body?.status,
+      );
+      res.json(item);
+    } catch (error) {
+      sendError(res, error, 'Error updating inbox item status');
+    }
+  },
+);
+
+// Reply in the item's thread, or add an internal note with internal: true.
+// Use /handoff/messages to write to the user of a taken-over session.
+inboxRouter.post(
+  '/items/:id/replies',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = await addInboxReply(
+        req.params.id,
+        req.company._id.toString(),
+        {
+          authorType: 'user',
+          authorId: req.user?._id?.toString(),
+          message: req.body?.message,
+          internal: req.body?.internal === true,
+        },
+      );
+      res.json(item);
+    } catch (error) {
+      sendError(res, error, 'Error adding reply');
+    }
+  },
+);
+
+// Take over the item's session; the assistant pauses until it is released
+inboxRouter.post(
+  '/items/:id/handoff',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = await takeOverSession(
+        req.params.id,
+        req.company._id.toString(),
+        requireUserId(req),
+      );
+      res.json(item);
+    } catch (error) {
+      sendError(res, error, 'Error taking over session');
+    }
+  },
+);
+
+// Write to the user of a taken-over session
+inboxRouter.post(
+  '/items/:id/handoff/messages',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = await sendHandoffReply(
+        req.params.id,
+        req.company._id.toString(),
+        requireUserId(req),
+        req.body?.message,
+      );
+      res.json(item);
+    } catch (error) {
+      sendError(res, error, 'Error sending message to session');
+    }
+  },
+);
+
+// Hand the session back to the assistant with an optional summary
+inboxRouter.post(
+  '/items/:id/handoff/release',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = await releaseSession(
+        req.params.id,
+        req.company._id.toString(),
+        requireUserId(req),
+        req.body?.summary,
+      );
+      res.json(item);
+    } catch (error) {
+      sendError(res, error, 'Error releasing session');
+    }
+  },
+);
+
 // AI agent sends a message to the inbox
 inboxRouter.post('/:sessionId', async (req: AuthenticatedRequest, res) => {
   const { message } = req.body;
@@ -77,10 +332,13 @@ inboxRouter.post(
 // Get inbox messages for the company
 inboxRouter.get('/', async (req: AuthenticatedRequest, res) => {
   try {
-    const messages = await getInboxMessages(req.company._id);
+    const messages = await getInboxMessages(
+      req.company._id.toString(),
+      parseQueueFilter(req),
+    );
     res.json(messages);
   } catch (error) {
-    res.status(500).json({ message: 'Error retrieving inbox messages', error });
+    sendError(res, error, 'Error retrieving inbox messages');
   }
 });
 
@@ -9,6 +9,7 @@ import {
   getIntegrationConfigStatuses,
   getIntegrationApiKey,
   testIntegrationConnection,
+  setApprovalRequiredActions,
   ApiKeyInput,
 } from '../services/integration-config.service';
 import { discoveryService } from '../services/discovery.service';
@@ -45,6 +46,7 @@ router.get('/configs', async (req: AuthenticatedRequest, res) => {
         enabled: status?.enabled ?? false,
         configuredAt: status?.configuredAt,
         configuredKeys: status?.configuredKeys ?? [],
+        approvalRequiredActions: status?.approvalRequiredActions ?? [],
       };
     });
 
@@ -76,6 +78,7 @@ router.get('/:id/config', async (req: AuthenticatedRequest, res) => {
         configured: false,
         enabled: false,
         configuredKeys: [],
+        approvalRequiredActions: [],
       });
     }
 
@@ -86,6 +89,7 @@ router.get('/:id/config', async (req: AuthenticatedRequest, res) => {
       enabled: config.enabled,
       configuredAt: config.configuredAt,
       configuredKeys: config.apiKeys.map((k) => k.key),
+      approvalRequiredActions: config.approvalRequiredActions ?? [],
     });
   } catch (error) {
     console.error('Error getting integration config:', error);
@@ -146,6 +150,47 @@ router.put('/:id/config', async (req: AuthenticatedRequest, res) => {
   }
 });
 
+/**
+ * PUT /api/integrations/:id/config/approvals
+ * Set which actions of the integration require human approval
+ */
+router.put('/:id/config/approvals', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    const { id: integrationId } = req.params;
+    const { approvalRequiredActions } = req.body as {
+      approvalRequiredActions: string[];
+    };
+
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    if (
+      !Array.isArray(approvalRequiredActions) ||
+      approvalRequiredActions.some((a) => typeof a !== 'string' || !a)
+    ) {
+      return res
+        .status(400)
+        .json({ error: 'approvalRequiredActions array of strings required' });
+    }
+
+    const config = await setApprovalRequiredActions(
+      companyId,
+      integrationId,
+      approvalRequiredActions,
+    );
+
+    res.json({
+      integrationId: config.integrationId,
+      approvalRequiredActions: config.approvalRequiredActions,
+    });
+  } catch (error) {
+    console.error('Error saving approval settings:', error);
+    res.status(500).json({ error: 'Failed to save approval settings' });
+  }
+});
+
 /**
  * GET /api/integrations/:id/config/keys/:keyName
  * Get a specific decrypted API key value (for preview)
@@ -0,0 +1,201 @@
+// file path: /src/routes/llm-provider.routes.ts
+import express from 'express';
+import {
+  AuthenticatedRequest,
+  verifyAccess,
+} from '../middleware/auth.middleware';
+import {
+  listLlmProviders,
+  getLlmProvider,
+  createLlmProvider,
+  updateLlmProvider,
+  deleteLlmProvider,
+  testLlmProviderConnection,
+  validateLlmProviderInput,
+  LlmProviderInput,
+} from '../services/llm-provider.service';
+import { BUILT_IN_PROVIDERS } from '../types/assistant.types';
+import { Assistant } from '../models/Assistant';
+
+const router = express.Router();
+
+/**
+ * GET /api/llm-providers
+ * List built-in providers and the company's registered providers
+ */
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const custom = await listLlmProviders(companyId);
+    res.json({ builtIn: BUILT_IN_PROVIDERS, custom });
+  } catch (error) {
+    console.error('Error listing LLM providers:', error);
+    res.status(500).json({ error: 'Failed to list LLM providers' });
+  }
+});
+
+/**
+ * GET /api/llm-providers/:key
+ * Get a registered provider
+ */
+router.get('/:key', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const provider = await getLlmProvider(companyId, req.params.key);
+    if (!provider) {
+      return res.status(404).json({ error: 'LLM provider not found' });
+    }
+
+    res.json(provider);
+  } catch (error) {
+    console.error('Error getting LLM provider:', error);
+    res.status(500).json({ error: 'Failed to get LLM provider' });
+  }
+});
+
+/**
+ * POST /api/llm-providers
+ * Register a new OpenAI-compatible provider (admins only)
+ */
+router.post('/', verifyAccess(true), async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    const userId = req.user?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const input = req.body as LlmProviderInput;
+    const validationError = validateLlmProviderInput(input, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const provider = await createLlmProvider(companyId, input, userId);
+    res.status(201).json(provider);
+  } catch (error: any) {
+    console.error('Error creating LLM provider:', error);
+    if (error.message?.includes('already exists')) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.message?.includes('built-in')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to create LLM provider' });
+  }
+});
+
+/**
+ * PUT /api/llm-providers/:key
+ * Update a provider (admins only). Send apiKey: "" to remove the stored key.
+ */
+router.put(
+  '/:key',
+  verifyAccess(true),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const companyId = req.company?._id?.toString();
+      const userId = req.user?._id?.toString();
+      if (!companyId) {
+        return res.status(400).json({ error: 'Company ID required' });
+      }
+
+      // The key identifies the provider and cannot be changed
+      const input: Partial<LlmProviderInput> = { ...req.body };
+      delete input.key;
+      const validationError = validateLlmProviderInput(input, false);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const provider = await updateLlmProvider(
+        companyId,
+        req.params.key,
+        input,
+        userId,
+      );
+      if (!provider) {
+        return res.status(404).json({ error: 'LLM provider not found' });
+      }
+
+      res.json(provider);
+    } catch (error) {
+      console.error('Error updating LLM provider:', error);
+      res.status(500).json({ error: 'Failed to update LLM provider' });
+    }
+  },
+);
+
+/**
+ * POST /api/llm-providers/:key/test
+ * Check that the provider endpoint is reachable with the stored credentials
+ * (admins only; the server calls the endpoint)
+ */
+router.post(
+  '/:key/test',
+  verifyAccess(true),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const companyId = req.company?._id?.toString();
+      if (!companyId) {
+        return res.status(400).json({ error: 'Company ID required' });
+      }
+
+      const result = await testLlmProviderConnection(companyId, req.params.key);
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error: any) {
+      console.error('Error testing LLM provider:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to test LLM provider',
+      });
+    }
+  },
+);
+
+/**
+ * DELETE /api/llm-providers/:key
+ * Remove a provider (admins only). Fails while assistants still reference it.
+ */
+router.delete(
+  '/:key',
+  verifyAccess(true),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const companyId = req.company?._id?.toString();
+      if (!companyId) {
+        return res.status(400).json({ error: 'Company ID required' });
+      }
+
+      const inUse = await Assistant.countDocuments({
+        companyId,
+        llmProvider: req.params.key,
+      });
+      if (inUse > 0) {
+        return res.status(409).json({
+          error: `Provider is used by ${inUse} assistant(s). Reassign them first.`,
+        });
+      }
+
+      const deleted = await deleteLlmProvider(companyId, req.params.key);
+      if (!deleted) {
+        return res.status(404).json({ error: 'LLM provider not found' });
+      }
+
+      res.json({ message: 'LLM provider deleted' });
+    } catch (error) {
+      console.error('Error deleting LLM provider:', error);
+      res.status(500).json({ error: 'Failed to delete LLM provider' });
+    }
+  },
+);
+
+export default router;
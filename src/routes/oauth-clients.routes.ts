@@ -0,0 +1,55 @@
+// file path: /src/routes/oauth-clients.routes.ts
+import express from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+  listAuthorizedClients,
+  revokeClientAuthorization,
+} from '../services/oauth-mcp.service';
+
+const router = express.Router();
+
+/**
+ * GET /api/oauth/clients
+ * List the MCP clients the current user has authorized
+ */
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?._id?.toString();
+    if (!userId) {
+      return res.status(400).json({ error: 'User ID required' });
+    }
+
+    res.json(await listAuthorizedClients(userId));
+  } catch (error) {
+    console.error('Error listing authorized clients:', error);
+    res.status(500).json({ error: 'Failed to list authorized clients' });
+  }
+});
+
+/**
+ * DELETE /api/oauth/clients/:clientId
+ * Revoke the current user's authorization of a client with all its tokens
+ */
+router.delete('/:clientId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?._id?.toString();
+    if (!userId) {
+      return res.status(400).json({ error: 'User ID required' });
+    }
+
+    const revoked = await revokeClientAuthorization(
+      userId,
+      req.params.clientId,
+    );
+    if (!revoked) {
+      return res.status(404).json({ error: 'Authorized client not found' });
+    }
+
+    res.json({ message: 'Client authorization revoked' });
+  } catch (error) {
+    console.error('Error revoking client authorization:', error);
+    res.status(500).json({ error: 'Failed to revoke client authorization' });
+  }
+});
+
+export default router;
@@ -5,12 +5,15 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { OAuthError } from '../utils/errors';
 import {
   getProtectedResourceMetadata,
   getAuthorizationServerMetadata,
   registerClient,
   handleAuthorization,
   handleTokenRequest,
+  handleRevocation,
+  handleIntrospection,
 } from '../services/oauth-mcp.service';
 
 const router = Router();
@@ -45,30 +48,35 @@ router.get(
  * Dynamic Client Registration (RFC 7591)
  * Public endpoint - no auth required
  */
-router.post('/oauth/register', (req: Request, res: Response) => {
+router.post('/oauth/register', async (req: Request, res: Response) => {
   try {
-    const clientInfo = registerClient(req);
+    const clientInfo = await registerClient(req.body || {});
     res.status(201).json(clientInfo);
   } catch (error) {
+    if (error instanceof OAuthError) {
+      return res.status(error.statusCode).json({
+        error: error.code,
+        error_description: error.message,
+      });
+    }
     console.error('Client registration error:', error);
-    res.status(400).json({
-      error: 'invalid_client_metadata',
-      error_description:
-        error instanceof Error ? error.message : 'Registration failed',
+    res.status(500).json({
+      error: 'server_error',
+      error_description: 'Registration failed',
     });
   }
 });
 
 /**
  * GET /oauth/authorize
- * Authorization endpoint - shows API key form
+ * Authorization endpoint - shows the consent form with the requested scopes
  * Public endpoint - handles authorization flow
  */
 router.get('/oauth/authorize', handleAuthorization);
 
 /**
  * POST /oauth/authorize
- * Authorization endpoint - processes API key submission
+ * Authorization endpoint - processes the user's decision and API key
  * Public endpoint - handles authorization flow
  */
 router.post('/oauth/authorize', handleAuthorization);
@@ -76,10 +84,22 @@ router.post('/oauth/authorize', handleAuthorization);
 /**
  * POST /oauth/token
  * Token endpoint
- * Public endpoint - exchanges code/credentials for token
+ * Public endpoint - exchanges codes, refresh tokens and API keys for tokens
  */
-router.post('/oauth/token', (req: Request, res: Response) => {
-  handleTokenRequest(req, res);
-});
+router.post('/oauth/token', handleTokenRequest);
+
+/**
+ * POST /oauth/revoke
+ * Token revocation (RFC 7009)
+ * Public endpoint - authenticates the client
+ */
+router.post('/oauth/revoke', handleRevocation);
+
+/**
+ * POST /oauth/introspect
+ * Token introspection (RFC 7662)
+ * Public endpoint - authenticates the client
+ */
+router.post('/oauth/introspect', handleIntrospection);
 
 export default router;
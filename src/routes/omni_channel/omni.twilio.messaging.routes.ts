@@ -0,0 +1,59 @@
+// file path: /src/routes/omni_channel/omni.twilio.messaging.routes.ts
+import express from 'express';
+import mongoose from 'mongoose';
+import { getApiKey } from '../../services/api.key.service';
+import { getBaseUrl } from '../../services/oauth-mcp.service';
+import {
+  handleIncomingTwilioMessage,
+  TwilioInboundMessage,
+} from '../../services/twilio-messaging.service';
+import { validateTwilioSignature } from '../../integrations/twilio/twilio.service';
+
+// Public: requests are authenticated by the X-Twilio-Signature header,
+// signed with the company's Twilio auth token
+const router = express.Router();
+
+const EMPTY_TWIML =
+  '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+/**
+ * POST /omni/twilio/messaging/:companyId
+ * Twilio webhook for incoming SMS and WhatsApp messages. The request is
+ * acknowledged with empty TwiML right away; the assistant's reply is sent
+ * through the REST API once it is ready.
+ */
+router.post('/messaging/:companyId', async (req, res) => {
+  try {
+    const { companyId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(companyId)) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const authToken = await getApiKey(companyId, 'twilio_auth_token');
+    if (!authToken) {
+      return res.status(404).json({ error: 'Twilio is not configured' });
+    }
+
+    const url = `${getBaseUrl(req)}${req.originalUrl}`;
+    const signature = req.header('X-Twilio-Signature');
+    if (!validateTwilioSignature(authToken, signature, url, req.body || {})) {
+      return res.status(403).json({ error: 'Invalid signature' });
+    }
+
+    const message = req.body as TwilioInboundMessage;
+    if (!message.From) {
+      return res.status(400).json({ error: 'From is required' });
+    }
+
+    res.type('text/xml').send(EMPTY_TWIML);
+
+    handleIncomingTwilioMessage(companyId, message).catch((error) =>
+      console.error('[Twilio] Error handling incoming message:', error),
+    );
+  } catch (error) {
+    console.error('Error handling Twilio webhook:', error);
+    res.status(500).json({ error: 'Failed to handle Twilio webhook' });
+  }
+});
+
+export default router;
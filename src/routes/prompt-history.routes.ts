@@ -5,9 +5,12 @@ import { promptHistoryService } from '../services/prompt-history.service';
 import { Assistant } from '../models/Assistant';
 import { logger } from '../utils/logger';
 import { resolveAssistantIdentifier } from '../services/assistant/assistant-resolver.service';
+import { requireAssistantPermission } from '../middleware/permission.middleware';
 
 const router = Router();
 
+router.use('/assistants/:id/prompt-history', requireAssistantPermission());
+
 // Get prompt history for an assistant
 router.get(
   '/assistants/:id/prompt-history',
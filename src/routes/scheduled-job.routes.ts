@@ -0,0 +1,182 @@
+// file path: /src/routes/scheduled-job.routes.ts
+import express from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+  listScheduledJobs,
+  getScheduledJob,
+  createScheduledJob,
+  updateScheduledJob,
+  deleteScheduledJob,
+  listScheduledJobRuns,
+  triggerScheduledJob,
+  ScheduledJobInput,
+} from '../services/scheduler.service';
+import { CustomError } from '../utils/errors';
+
+const router = express.Router();
+
+/**
+ * GET /api/scheduled-jobs
+ * List the company's scheduled jobs (optionally ?assistantId=)
+ */
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const jobs = await listScheduledJobs(
+      companyId,
+      req.query.assistantId as string | undefined,
+    );
+    res.json(jobs);
+  } catch (error) {
+    console.error('Error listing scheduled jobs:', error);
+    res.status(500).json({ error: 'Failed to list scheduled jobs' });
+  }
+});
+
+/**
+ * GET /api/scheduled-jobs/:id
+ * Get a scheduled job
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const job = await getScheduledJob(companyId, req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Scheduled job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error getting scheduled job:', error);
+    res.status(500).json({ error: 'Failed to get scheduled job' });
+  }
+});
+
+/**
+ * POST /api/scheduled-jobs
+ * Create a scheduled job
+ */
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    const userId = req.user?._id?.toString();
+    if (!companyId || !userId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const job = await createScheduledJob(
+      companyId,
+      req.body as ScheduledJobInput,
+      userId,
+    );
+    res.status(201).json(job);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error creating scheduled job:', error);
+    res.status(500).json({ error: 'Failed to create scheduled job' });
+  }
+});
+
+/**
+ * PUT /api/scheduled-jobs/:id
+ * Update a scheduled job
+ */
+router.put('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const job = await updateScheduledJob(
+      companyId,
+      req.params.id,
+      req.body as ScheduledJobInput,
+    );
+    res.json(job);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error updating scheduled job:', error);
+    res.status(500).json({ error: 'Failed to update scheduled job' });
+  }
+});
+
+/**
+ * DELETE /api/scheduled-jobs/:id
+ * Delete a scheduled job and its run history
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const deleted = await deleteScheduledJob(companyId, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Scheduled job not found' });
+    }
+
+    res.json({ message: 'Scheduled job deleted' });
+  } catch (error) {
+    console.error('Error deleting scheduled job:', error);
+    res.status(500).json({ error: 'Failed to delete scheduled job' });
+  }
+});
+
+/**
+ * POST /api/scheduled-jobs/:id/run
+ * Run a job now. Responds once the run has started; poll the runs endpoint
+ * for its outcome.
+ */
+router.post('/:id/run', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const run = await triggerScheduledJob(companyId, req.params.id);
+    res.status(202).json(run);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error running scheduled job:', error);
+    res.status(500).json({ error: 'Failed to run scheduled job' });
+  }
+});
+
+/**
+ * GET /api/scheduled-jobs/:id/runs
+ * Run history with output, delivery and cost (?limit=, default 20)
+ */
+router.get('/:id/runs', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    const runs = await listScheduledJobRuns(companyId, req.params.id, limit);
+    res.json(runs);
+  } catch (error) {
+    console.error('Error listing scheduled job runs:', error);
+    res.status(500).json({ error: 'Failed to list scheduled job runs' });
+  }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+// file path: /src/routes/speech.routes.ts
+import express from 'express';
+import multer from 'multer';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { transcribeAudio } from '../services/speech.recognition.service';
+import { STTFactory } from '../services/speech/stt.factory';
+import { CustomError } from '../utils/errors';
+
+const router = express.Router();
+
+// The largest upload the hosted transcription APIs accept
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 25 * 1024 * 1024 },
+});
+
+/**
+ * GET /api/speech/stt-providers
+ * Speech-to-text providers that can be requested, and the default
+ */
+router.get('/stt-providers', (_req, res) => {
+  res.json({
+    providers: STTFactory.getProviderNames(),
+    default: STTFactory.getDefaultProvider(),
+  });
+});
+
+/**
+ * POST /api/speech/transcriptions
+ * Transcribe an uploaded audio `file`. Optional fields: provider, language
+ * (detected when unset), wordTimestamps, diarization, speakerCount and
+ * sampleRate (raw PCM only).
+ */
+router.post(
+  '/transcriptions',
+  upload.single('file'),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const companyId = req.company?._id?.toString();
+      if (!companyId) {
+        return res.status(400).json({ error: 'Company ID required' });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: 'No audio file uploaded' });
+      }
+
+      const { provider, language, speakerCount, sampleRate } = req.body;
+      const result = await transcribeAudio(companyId, req.file.buffer, {
+        provider,
+        language,
+        mimeType: req.file.mimetype,
+        filename: req.file.originalname,
+        sampleRate: sampleRate ? Number(sampleRate) : undefined,
+        wordTimestamps: req.body.wordTimestamps === 'true',
+        diarization: req.body.diarization === 'true',
+        speakerCount: speakerCount ? Number(speakerCount) : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error transcribing audio:', error);
+      res.status(500).json({ error: 'Failed to transcribe audio' });
+    }
+  },
+);
+
+export default router;
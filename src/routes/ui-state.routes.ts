@@ -71,7 +71,7 @@ router.post('/update', async (req, res) => {
     }
 
     // Update UI state in service
-    uiSessionStateService.updateUIState(userId, stateUpdate);
+    await uiSessionStateService.updateUIState(userId, stateUpdate);
 
     logger.debug('UI state updated', {
       userId,
@@ -109,7 +109,7 @@ router.get('/', async (req, res) => {
       });
     }
 
-    const uiState = uiSessionStateService.getUIState(userId);
+    const uiState = await uiSessionStateService.getUIState(userId);
 
     if (!uiState) {
       return res.status(404).json({
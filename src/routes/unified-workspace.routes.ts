@@ -2,10 +2,24 @@ import { Router, Response } from 'express';
 import { getWorkspaceService } from '../services/unified-workspace.service';
 import { getVectorSearchService } from '../services/vector-search.service';
 import { logger } from '../utils/logger';
-import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+  AuthenticatedRequest,
+  verifyAccess,
+} from '../middleware/auth.middleware';
+import { requireResourcePermission } from '../middleware/permission.middleware';
 import { singleUpload } from '../middleware/file-upload.middleware';
 import { resolveAssistantIdentifier } from '../services/assistant/assistant-resolver.service';
 import { validateSessionOwnership } from '../services/session/session-resolver.service';
+import {
+  createWorkspaceAccessChecker,
+  deleteWorkspaceAcl,
+  getEffectiveWorkspacePermissions,
+  listWorkspaceAcls,
+  setWorkspaceAcl,
+  WorkspaceAccessChecker,
+} from '../services/workspace-acl.service';
+import { WorkspaceAccess } from '../models/WorkspaceAcl';
+import { BadRequestError } from '../utils/errors';
 import fs from 'fs/promises';
 
 const router = Router();
@@ -76,6 +90,87 @@ function stripScopePrefix(path: string, scopePrefix: string): string {
   return path;
 }
 
+/**
+ * Helper function to load the workspace ACLs that apply to the requesting user,
+ * limited to the API key's workspace scopes for key requests
+ */
+function getAccessChecker(
+  req: AuthenticatedRequest,
+): Promise<WorkspaceAccessChecker> {
+  return createWorkspaceAccessChecker(
+    {
+      type: 'user',
+      id: String(req.user?._id),
+      companyId: req.company._id.toString(),
+    },
+    req.isApiKeyAuth ? req.apiKeyPermissions : undefined,
+  );
+}
+
+/**
+ * Helper function to enforce a workspace ACL for the requesting user
+ * @throws AuthorizationError if the user lacks the access
+ */
+async function authorizePath(
+  req: AuthenticatedRequest,
+  path: string,
+  access: WorkspaceAccess,
+): Promise<void> {
+  (await getAccessChecker(req)).assert(path, access);
+}
+
+/**
+ * Helper function to resolve a path within a scope to its full workspace path
+ * @throws BadRequestError if the scope is invalid or its identifier is missing
+ */
+async function resolveScopedPath(
+  req: AuthenticatedRequest,
+  path: string,
+  params: { scope?: string; agentId?: string; teamId?: string },
+): Promise<string> {
+  const { scope = 'company', agentId, teamId } = params;
+
+  switch (scope) {
+    case 'company':
+      return `/company/${req.company._id}/${path}`;
+    case 'session': {
+      const sessionId = req.headers['x-session-id'] as string;
+      if (!sessionId) {
+        throw new BadRequestError('Session ID is required for session scope');
+      }
+      await validateSessionOwnership(sessionId, req.company._id.toString());
+      return `/session/${sessionId}/${path}`;
+    }
+    case 'agent': {
+      const agentIdentifier = agentId || (req.headers['x-agent-id'] as string);
+      if (!agentIdentifier) {
+        throw new BadRequestError('Agent ID is required for agent scope');
+      }
+      const resolvedAgentId = await resolveAgentId(
+        agentIdentifier,
+        req.company?._id?.toString(),
+      );
+      if (!resolvedAgentId) {
+        throw new BadRequestError(
+          `Could not resolve agent: ${agentIdentifier}`,
+        );
+      }
+      return `/agent/${resolvedAgentId}/${path}`;
+    }
+    case 'team': {
+      const teamIdentifier = teamId || (req.headers['x-team-id'] as string);
+      if (!teamIdentifier) {
+        throw new BadRequestError('Team ID is required for team scope');
+      }
+      return `/team/${teamIdentifier}/${path}`;
+    }
+    default:
+      throw new BadRequestError(
+        'Invalid scope. Must be: company, session, agent, or team',
+      );
+  }
+}
+
 /**
  * Unified Workspace REST API
  * Provides a complete virtual filesystem for AI agents
@@ -153,6 +248,7 @@ router.post('/set', async (req: AuthenticatedRequest, res: Response) => {
       createdAt: new Date(),
     };
 
+    await authorizePath(req, scopedPath, 'write');
     await workspace.set(scopedPath, content, enrichedMetadata);
 
     res.json({
@@ -162,7 +258,7 @@ router.post('/set', async (req: AuthenticatedRequest, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Workspace set error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
@@ -243,6 +339,7 @@ router.post(
       }
 
       // Store the file reference
+      await authorizePath(req, scopedPath, 'write');
       await workspace.set(scopedPath, fileInfo, {
         scope,
         companyId: req.company?._id?.toString(),
@@ -263,7 +360,7 @@ router.post(
       });
     } catch (error: any) {
       logger.error('File upload error:', error);
-      res.status(500).json({
+      res.status(error.statusCode || 500).json({
         success: false,
         error: error.message,
       });
@@ -296,6 +393,7 @@ router.get(
       }
 
       // Get the first matching file
+      await authorizePath(req, matchingPaths[0], 'read');
       const fileInfo = await workspace.get(matchingPaths[0]);
 
       if (!fileInfo) {
@@ -354,7 +452,7 @@ router.get(
       });
     } catch (error: any) {
       logger.error('File download error:', error);
-      res.status(500).json({
+      res.status(error.statusCode || 500).json({
         success: false,
         error: error.message,
       });
@@ -412,6 +510,7 @@ router.get('/raw', async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const workspace = getWorkspaceService();
+    await authorizePath(req, scopedPath, 'read');
     const content = await workspace.get(scopedPath);
 
     if (content === undefined) {
@@ -459,7 +558,7 @@ router.get('/raw', async (req: AuthenticatedRequest, res: Response) => {
     }
   } catch (error: any) {
     logger.error('Raw file get error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
@@ -527,6 +626,7 @@ router.get('/get', async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const workspace = getWorkspaceService();
+    await authorizePath(req, scopedPath, 'read');
     const content = await workspace.get(scopedPath);
 
     if (content === undefined) {
@@ -586,7 +686,7 @@ router.get('/get', async (req: AuthenticatedRequest, res: Response) => {
     res.json(responseData);
   } catch (error: any) {
     logger.error('Workspace get error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
@@ -667,11 +767,16 @@ router.get('/list', async (req: AuthenticatedRequest, res: Response) => {
     const scopedPrefix = `${scopePrefix}${prefix || ''}`;
 
     const workspace = getWorkspaceService();
+    const checker = await getAccessChecker(req);
     const t2 = Date.now();
 
     if (includeMetadata) {
       // Use listWithMetadata to get timestamps
-      const items = await workspace.listWithMetadata(scopedPrefix);
+      const items = checker.filter(
+        await workspace.listWithMetadata(scopedPrefix),
+        'read',
+        (item) => item.path,
+      );
       logger.debug(`Workspace listWithMetadata took ${Date.now() - t2}ms`);
 
       // Strip the scope prefix from returned paths for cleaner display
@@ -692,7 +797,7 @@ router.get('/list', async (req: AuthenticatedRequest, res: Response) => {
       });
     } else {
       // Original behavior: return only paths
-      const paths = await workspace.list(scopedPrefix);
+      const paths = checker.filter(await workspace.list(scopedPrefix), 'read');
       logger.debug(`Workspace list took ${Date.now() - t2}ms`);
 
       // Strip the scope prefix from returned paths for cleaner display
@@ -709,7 +814,7 @@ router.get('/list', async (req: AuthenticatedRequest, res: Response) => {
     }
   } catch (error: any) {
     logger.error('Workspace list error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
@@ -889,20 +994,28 @@ router.get('/search', async (req: AuthenticatedRequest, res: Response) => {
       logger.debug(`Session search took ${Date.now() - t4}ms`);
     }
 
+    // Hide items the user may not read
+    const checker = await getAccessChecker(req);
+    const readable = checker.filter(
+      results,
+      'read',
+      (item) => `/${item.scope}/${item.scopeId}/${item.path}`,
+    );
+
     const totalTime = Date.now() - startTime;
     logger.debug(
-      `Total multi-scope search took ${totalTime}ms, found ${results.length} items`,
+      `Total multi-scope search took ${totalTime}ms, found ${readable.length} items`,
     );
 
     res.json({
       success: true,
-      items: results,
-      count: results.length,
+      items: readable,
+      count: readable.length,
       executionTimeMs: totalTime,
     });
   } catch (error: any) {
     logger.error('Workspace search error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
@@ -946,15 +1059,20 @@ router.post(
       const userId = req.user?._id?.toString();
 
       // Use new multi-scope search method (with parallel execution)
-      const results = await vectorSearch.searchMultiScope(query, {
-        scopes,
-        agentIds,
-        teamIds,
-        limit,
-        minScore,
-        companyId,
-        userId,
-      });
+      const checker = await getAccessChecker(req);
+      const results = checker.filter(
+        await vectorSearch.searchMultiScope(query, {
+          scopes,
+          agentIds,
+          teamIds,
+          limit,
+          minScore,
+          companyId,
+          userId,
+        }),
+        'read',
+        (result) => `/${result.scope}/${result.scopeId}/${result.path}`,
+      );
 
       res.json({
         success: true,
@@ -979,7 +1097,7 @@ router.post(
         });
       }
 
-      res.status(500).json({
+      res.status(error.statusCode || 500).json({
         success: false,
         message: 'Vector search failed',
         error: error.message,
@@ -988,6 +1106,129 @@ router.post(
   },
 );
 
+/**
+ * @route POST /api/workspace/hybrid-search
+ * @desc Hybrid keyword + semantic search with reciprocal-rank fusion
+ * @body {
+ *   query: string,                                   // Required: search query
+ *   scopes?: ['company', 'agent', 'team', 'session'], // Optional: default whole company
+ *   agentIds?: string[] | 'all',                     // Optional: agent IDs/names (default: 'all')
+ *   teamIds?: string[] | 'all',                      // Optional: team IDs (default: 'all')
+ *   contentTypes?: string[],                         // Optional: e.g. ['text/markdown']
+ *   tags?: string[],                                 // Optional: documents must carry all tags
+ *   createdAfter?: string, createdBefore?: string,   // Optional: ISO dates
+ *   limit?: number,                                  // Optional: max results (default: 10)
+ *   minScore?: number,                               // Optional: vector similarity threshold (default: 0.5)
+ *   rerank?: boolean                                 // Optional: rerank top results with an LLM
+ * }
+ * Session scope uses the X-Session-Id header.
+ */
+router.post(
+  '/hybrid-search',
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const {
+        query,
+        scopes,
+        agentIds = 'all',
+        teamIds = 'all',
+        contentTypes,
+        tags,
+        createdAfter,
+        createdBefore,
+        limit = 10,
+        minScore = 0.5,
+        rerank = false,
+      } = req.body;
+
+      if (!query || typeof query !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'Query string is required',
+        });
+      }
+
+      const dates: Record<string, Date | undefined> = {};
+      for (const [name, value] of Object.entries({
+        createdAfter,
+        createdBefore,
+      })) {
+        if (value === undefined) continue;
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return res.status(400).json({
+            success: false,
+            message: `${name} must be a valid date`,
+          });
+        }
+        dates[name] = date;
+      }
+
+      const companyId = req.company._id.toString();
+      const sessionId = req.headers['x-session-id'] as string | undefined;
+      if (scopes?.includes('session')) {
+        if (!sessionId) {
+          return res.status(400).json({
+            success: false,
+            message: 'Session ID is required for session scope',
+          });
+        }
+        await validateSessionOwnership(sessionId, companyId);
+      }
+
+      const resolvedAgentIds =
+        agentIds === 'all'
+          ? 'all'
+          : (
+              await Promise.all(
+                (agentIds as string[]).map((id) =>
+                  resolveAgentId(id, companyId),
+                ),
+              )
+            ).filter((id): id is string => !!id);
+
+      const checker = await getAccessChecker(req);
+      const results = checker.filter(
+        await getVectorSearchService().hybridSearch(query, {
+          companyId,
+          userId: req.user?._id?.toString(),
+          scopes,
+          agentIds: resolvedAgentIds,
+          teamIds,
+          sessionId,
+          contentTypes,
+          tags,
+          createdAfter: dates.createdAfter,
+          createdBefore: dates.createdBefore,
+          limit,
+          minScore,
+          rerank,
+        }),
+        'read',
+        (result) => `/${result.scope}/${result.scopeId}/${result.path}`,
+      );
+
+      res.json({
+        success: true,
+        query,
+        results,
+        count: results.length,
+      });
+    } catch (error: any) {
+      logger.error('Hybrid search failed', {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: 'Hybrid search failed',
+        error: error.message,
+      });
+    }
+  },
+);
+
 /**
  * @route POST /api/workspace/embed-documents
  * @desc Trigger embedding for existing documents
@@ -1009,9 +1250,10 @@ router.post(
       const workspace = getWorkspaceService();
       const companyId = req.company._id.toString();
 
-      // Get all documents for the scope
+      // Get all readable documents for the scope
       const prefix = `/${scope}/${scopeId}/`;
-      const paths = await workspace.list(prefix);
+      const checker = await getAccessChecker(req);
+      const paths = checker.filter(await workspace.list(prefix), 'read');
 
       logger.info(`Found ${paths.length} documents to embed in ${prefix}`);
 
@@ -1114,6 +1356,7 @@ router.delete('/delete', async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const workspace = getWorkspaceService();
+    await authorizePath(req, scopedPath, 'delete');
     const deleted = await workspace.delete(scopedPath);
 
     if (!deleted) {
@@ -1130,7 +1373,7 @@ router.delete('/delete', async (req: AuthenticatedRequest, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Workspace delete error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
@@ -1198,6 +1441,7 @@ router.get('/exists', async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const workspace = getWorkspaceService();
+    await authorizePath(req, scopedPath, 'read');
     const exists = await workspace.exists(scopedPath);
 
     res.json({
@@ -1207,7 +1451,7 @@ router.get('/exists', async (req: AuthenticatedRequest, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Workspace exists error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
@@ -1231,6 +1475,13 @@ router.delete('/clear', async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const workspace = getWorkspaceService();
+
+    // The prefix and every entry being cleared must be deletable
+    const checker = await getAccessChecker(req);
+    checker.assert(prefix || '/', 'delete');
+    (await workspace.list(prefix)).forEach((path) =>
+      checker.assert(path, 'delete'),
+    );
     await workspace.clear(prefix);
 
     res.json({
@@ -1242,7 +1493,7 @@ router.delete('/clear', async (req: AuthenticatedRequest, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Workspace clear error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
@@ -1258,7 +1509,12 @@ router.post('/export', async (req: AuthenticatedRequest, res: Response) => {
     const { prefix } = req.body;
 
     const workspace = getWorkspaceService();
-    const data = await workspace.export(prefix);
+    const checker = await getAccessChecker(req);
+    const data = Object.fromEntries(
+      Object.entries(await workspace.export(prefix)).filter(([path]) =>
+        checker.can(path, 'read'),
+      ),
+    );
 
     res.json({
       success: true,
@@ -1268,7 +1524,7 @@ router.post('/export', async (req: AuthenticatedRequest, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Workspace export error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
@@ -1291,6 +1547,8 @@ router.post('/import', async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const workspace = getWorkspaceService();
+    const checker = await getAccessChecker(req);
+    Object.keys(data).forEach((path) => checker.assert(path, 'write'));
     await workspace.import(data);
 
     res.json({
@@ -1300,7 +1558,7 @@ router.post('/import', async (req: AuthenticatedRequest, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Workspace import error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
@@ -1347,6 +1605,11 @@ router.post('/move', async (req: AuthenticatedRequest, res: Response) => {
 
     const workspace = getWorkspaceService();
 
+    const checker = await getAccessChecker(req);
+    checker.assert(fromPath, 'read');
+    checker.assert(fromPath, 'delete');
+    checker.assert(toPath, 'write');
+
     // Get content from old path
     const content = await workspace.get(fromPath);
     if (content === undefined) {
@@ -1370,7 +1633,7 @@ router.post('/move', async (req: AuthenticatedRequest, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Workspace move error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
@@ -1394,6 +1657,10 @@ router.post('/copy', async (req: AuthenticatedRequest, res: Response) => {
 
     const workspace = getWorkspaceService();
 
+    const checker = await getAccessChecker(req);
+    checker.assert(fromPath, 'read');
+    checker.assert(toPath, 'write');
+
     // Get content from source path
     const content = await workspace.get(fromPath);
     if (content === undefined) {
@@ -1414,13 +1681,321 @@ router.post('/copy', async (req: AuthenticatedRequest, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Workspace copy error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * @route GET /api/workspace/versions
+ * @desc List the version history of a path (newest first)
+ */
+router.get('/versions', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { path, scope, agentId, teamId } = req.query as Record<
+      string,
+      string
+    >;
+
+    if (!path) {
+      return res.status(400).json({
+        success: false,
+        error: 'Path is required',
+      });
+    }
+
+    const scopedPath = await resolveScopedPath(req, path, {
+      scope,
+      agentId,
+      teamId,
+    });
+    await authorizePath(req, scopedPath, 'read');
+    const versions = await getWorkspaceService().listVersions(scopedPath);
+
+    res.json({
+      success: true,
+      path,
+      versions,
+      count: versions.length,
+    });
+  } catch (error: any) {
+    logger.error('Workspace list versions error:', error);
+    res.status(error.statusCode || 500).json({
       success: false,
       error: error.message,
     });
   }
 });
 
+/**
+ * @route GET /api/workspace/versions/diff
+ * @desc Diff two versions of a path (`to` defaults to the latest version)
+ */
+router.get(
+  '/versions/diff',
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { path, scope, agentId, teamId, from, to } = req.query as Record<
+        string,
+        string
+      >;
+      const fromVersion = Number(from);
+      const toVersion = to === undefined ? undefined : Number(to);
+
+      if (!path) {
+        return res.status(400).json({
+          success: false,
+          error: 'Path is required',
+        });
+      }
+      if (
+        !Number.isInteger(fromVersion) ||
+        (toVersion !== undefined && !Number.isInteger(toVersion))
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: 'from and to must be version numbers',
+        });
+      }
+
+      const scopedPath = await resolveScopedPath(req, path, {
+        scope,
+        agentId,
+        teamId,
+      });
+      await authorizePath(req, scopedPath, 'read');
+      const diff = await getWorkspaceService().diffVersions(
+        scopedPath,
+        fromVersion,
+        toVersion,
+      );
+
+      res.json({
+        success: true,
+        ...diff,
+        path,
+      });
+    } catch (error: any) {
+      logger.error('Workspace diff versions error:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  },
+);
+
+/**
+ * @route POST /api/workspace/versions/restore
+ * @desc Restore a previous version of a path as a new version
+ */
+router.post(
+  '/versions/restore',
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { path, version, scope, agentId, teamId } = req.body;
+
+      if (!path || !Number.isInteger(version)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Path and version are required',
+        });
+      }
+
+      const scopedPath = await resolveScopedPath(req, path, {
+        scope,
+        agentId,
+        teamId,
+      });
+      await authorizePath(req, scopedPath, 'write');
+      const restored = await getWorkspaceService().restoreVersion(
+        scopedPath,
+        version,
+        { author: { type: 'user', id: req.user?._id?.toString() } },
+      );
+
+      logger.info(
+        `Workspace: Restored ${scopedPath} to version ${version} as version ${restored.version}`,
+      );
+
+      res.json({
+        success: true,
+        message: `Restored version ${version} of ${path}`,
+        path,
+        version: restored,
+      });
+    } catch (error: any) {
+      logger.error('Workspace restore version error:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  },
+);
+
+/**
+ * @route GET /api/workspace/acl
+ * @desc List workspace ACL entries, optionally under a path prefix (admin)
+ */
+router.get(
+  '/acl',
+  verifyAccess(true),
+  requireResourcePermission('company'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const entries = await listWorkspaceAcls(
+        req.company._id.toString(),
+        req.query.pathPrefix as string | undefined,
+      );
+
+      res.json({
+        success: true,
+        entries,
+        count: entries.length,
+      });
+    } catch (error: any) {
+      logger.error('Workspace ACL list error:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  },
+);
+
+/**
+ * @route PUT /api/workspace/acl
+ * @desc Grant a user, team or assistant permissions on a path prefix (admin).
+ * Replaces the principal's existing entry on the prefix.
+ */
+router.put(
+  '/acl',
+  verifyAccess(true),
+  requireResourcePermission('company'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { pathPrefix, principalType, principalId, permissions } = req.body;
+
+      const entry = await setWorkspaceAcl(
+        req.company._id.toString(),
+        { pathPrefix, principalType, principalId, permissions },
+        req.user?._id?.toString(),
+      );
+
+      logger.info(
+        `Workspace: Set ACL on ${entry.pathPrefix} for ${principalType} ${principalId}: ${entry.permissions.join(',') || 'none'}`,
+      );
+
+      res.json({
+        success: true,
+        entry,
+      });
+    } catch (error: any) {
+      logger.error('Workspace ACL set error:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  },
+);
+
+/**
+ * @route GET /api/workspace/acl/effective
+ * @desc Effective permissions of a user or assistant on a path (admin).
+ * `path` is a full workspace path unless `scope` is given.
+ */
+router.get(
+  '/acl/effective',
+  verifyAccess(true),
+  requireResourcePermission('company'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const {
+        path,
+        scope,
+        agentId,
+        teamId,
+        principalType = 'user',
+        principalId,
+      } = req.query as Record<string, string>;
+
+      if (!path) {
+        return res.status(400).json({
+          success: false,
+          error: 'Path is required',
+        });
+      }
+      if (principalType !== 'user' && principalType !== 'assistant') {
+        return res.status(400).json({
+          success: false,
+          error: 'principalType must be "user" or "assistant"',
+        });
+      }
+
+      const companyId = req.company._id.toString();
+      const fullPath = scope
+        ? await resolveScopedPath(req, path, { scope, agentId, teamId })
+        : path;
+      const id =
+        principalType === 'assistant'
+          ? await resolveAgentId(principalId, companyId)
+          : principalId || req.user?._id?.toString();
+      if (!id) {
+        return res.status(400).json({
+          success: false,
+          error: 'principalId is required for assistants',
+        });
+      }
+
+      const effective = await getEffectiveWorkspacePermissions(
+        { type: principalType, id, companyId },
+        fullPath,
+      );
+
+      res.json({
+        success: true,
+        ...effective,
+      });
+    } catch (error: any) {
+      logger.error('Workspace effective permissions error:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  },
+);
+
+/**
+ * @route DELETE /api/workspace/acl/:id
+ * @desc Delete a workspace ACL entry (admin)
+ */
+router.delete(
+  '/acl/:id',
+  verifyAccess(true),
+  requireResourcePermission('company'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await deleteWorkspaceAcl(req.company._id.toString(), req.params.id);
+
+      res.json({
+        success: true,
+        message: 'ACL entry deleted',
+      });
+    } catch (error: any) {
+      logger.error('Workspace ACL delete error:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  },
+);
+
 /**
  * @route DELETE /api/workspace/clear-scope
  * @desc Clear all content for a specific scope
@@ -1495,6 +2070,11 @@ router.delete(
       const filesBeforeClearing = await workspace.list(prefix);
       const fileCount = filesBeforeClearing.length;
 
+      // The scope and every entry being cleared must be deletable
+      const checker = await getAccessChecker(req);
+      checker.assert(prefix, 'delete');
+      filesBeforeClearing.forEach((path) => checker.assert(path, 'delete'));
+
       // Clear the scope
       await workspace.clear(prefix);
 
@@ -1511,7 +2091,7 @@ router.delete(
       });
     } catch (error: any) {
       logger.error('Workspace clear scope error:', error);
-      res.status(500).json({
+      res.status(error.statusCode || 500).json({
         success: false,
         error: error.message,
       });
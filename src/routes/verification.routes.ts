@@ -1,20 +1,25 @@
 // routes/verification.routes.ts
 import express from 'express';
 import { verifyApiKey } from '../services/verification.service'; // This service will be created in step 2
+import { requirePermission } from '../middleware/permission.middleware';
 
 const verificationRouter = express.Router();
 
-verificationRouter.post('/verify-api-key', async (req, res) => {
-  const { apiKey, apiKeyId } = req.body;
+verificationRouter.post(
+  '/verify-api-key',
+  requirePermission('integrations:manage'),
+  async (req, res) => {
+    const { apiKey, apiKeyId } = req.body;
 
-  try {
-    const isValid = await verifyApiKey(apiKey, apiKeyId);
-    res.json({ apiKeyId, isValid });
-  } catch (error: any) {
-    res
-      .status(500)
-      .send({ message: `Error verifying API key: ${error.message}` });
-  }
-});
+    try {
+      const isValid = await verifyApiKey(apiKey, apiKeyId);
+      res.json({ apiKeyId, isValid });
+    } catch (error: any) {
+      res
+        .status(500)
+        .send({ message: `Error verifying API key: ${error.message}` });
+    }
+  },
+);
 
 export { verificationRouter };
@@ -0,0 +1,242 @@
+// file path: /src/routes/webhook.routes.ts
+import express from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+  listWebhooks,
+  getWebhook,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  rotateWebhookSecret,
+  listWebhookDeliveries,
+  sendTestWebhook,
+  redeliverWebhookDelivery,
+  WebhookInput,
+} from '../services/webhook.service';
+import { WEBHOOK_EVENTS } from '../models/Webhook';
+import { WebhookDeliveryStatus } from '../models/WebhookDelivery';
+import { CustomError } from '../utils/errors';
+
+const router = express.Router();
+
+/**
+ * GET /api/webhooks/events
+ * Event types webhooks can subscribe to
+ */
+router.get('/events', (_req, res) => {
+  res.json({ events: WEBHOOK_EVENTS });
+});
+
+/**
+ * GET /api/webhooks
+ * List the company's webhooks
+ */
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const webhooks = await listWebhooks(companyId);
+    res.json(webhooks);
+  } catch (error) {
+    console.error('Error listing webhooks:', error);
+    res.status(500).json({ error: 'Failed to list webhooks' });
+  }
+});
+
+/**
+ * GET /api/webhooks/:id
+ * Get a webhook
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const webhook = await getWebhook(companyId, req.params.id);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    res.json(webhook);
+  } catch (error) {
+    console.error('Error getting webhook:', error);
+    res.status(500).json({ error: 'Failed to get webhook' });
+  }
+});
+
+/**
+ * POST /api/webhooks
+ * Register a webhook. The response contains the signing secret, which is
+ * not returned again.
+ */
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const { webhook, secret } = await createWebhook(
+      companyId,
+      req.body as WebhookInput,
+      req.user?._id?.toString(),
+    );
+    res.status(201).json({ ...webhook.toJSON(), secret });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+/**
+ * PUT /api/webhooks/:id
+ * Update a webhook
+ */
+router.put('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const webhook = await updateWebhook(
+      companyId,
+      req.params.id,
+      req.body as WebhookInput,
+    );
+    res.json(webhook);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ * Delete a webhook and its delivery log
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const deleted = await deleteWebhook(companyId, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    res.json({ message: 'Webhook deleted' });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/rotate-secret
+ * Replace the signing secret and return the new one
+ */
+router.post('/:id/rotate-secret', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const secret = await rotateWebhookSecret(companyId, req.params.id);
+    res.json({ secret });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error rotating webhook secret:', error);
+    res.status(500).json({ error: 'Failed to rotate webhook secret' });
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/test
+ * Send a webhook.test event and return the delivery outcome
+ */
+router.post('/:id/test', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const delivery = await sendTestWebhook(companyId, req.params.id);
+    res.json(delivery);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error sending test webhook:', error);
+    res.status(500).json({ error: 'Failed to send test webhook' });
+  }
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * Delivery log, newest first (?status=pending|succeeded|failed, ?limit=)
+ */
+router.get('/:id/deliveries', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const deliveries = await listWebhookDeliveries(companyId, req.params.id, {
+      status: req.query.status as WebhookDeliveryStatus | undefined,
+      limit: Math.min(Number(req.query.limit) || 50, 200),
+    });
+    res.json(deliveries);
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error);
+    res.status(500).json({ error: 'Failed to list webhook deliveries' });
+  }
+});
+
+/**
+ * POST /api/webhooks/deliveries/:deliveryId/redeliver
+ * Send a succeeded or failed delivery again
+ */
+router.post(
+  '/deliveries/:deliveryId/redeliver',
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const companyId = req.company?._id?.toString();
+      if (!companyId) {
+        return res.status(400).json({ error: 'Company ID required' });
+      }
+
+      const delivery = await redeliverWebhookDelivery(
+        companyId,
+        req.params.deliveryId,
+      );
+      res.json(delivery);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error redelivering webhook:', error);
+      res.status(500).json({ error: 'Failed to redeliver webhook' });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,296 @@
+// file path: /src/routes/workflow.routes.ts
+import express from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+  listWorkflows,
+  getWorkflow,
+  createWorkflow,
+  updateWorkflow,
+  deleteWorkflow,
+  startWorkflowRun,
+  getWorkflowRun,
+  listWorkflowRuns,
+  cancelWorkflowRun,
+  decideWorkflowApproval,
+  WorkflowInput,
+} from '../services/workflow/workflow.service';
+import { WorkflowRunStatus } from '../models/WorkflowRun';
+import { CustomError } from '../utils/errors';
+
+const router = express.Router();
+
+/**
+ * GET /api/workflows
+ * List the company's workflows
+ */
+router.get('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const workflows = await listWorkflows(companyId);
+    res.json(workflows);
+  } catch (error) {
+    console.error('Error listing workflows:', error);
+    res.status(500).json({ error: 'Failed to list workflows' });
+  }
+});
+
+/**
+ * GET /api/workflows/runs
+ * Recent runs across workflows (?status=, ?limit=, default 20)
+ */
+router.get('/runs', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const runs = await listWorkflowRuns(companyId, {
+      status: req.query.status as WorkflowRunStatus | undefined,
+      limit: Number(req.query.limit) || undefined,
+    });
+    res.json(runs);
+  } catch (error) {
+    console.error('Error listing workflow runs:', error);
+    res.status(500).json({ error: 'Failed to list workflow runs' });
+  }
+});
+
+/**
+ * GET /api/workflows/runs/:runId
+ * A run with the state and output of each step
+ */
+router.get('/runs/:runId', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const run = await getWorkflowRun(companyId, req.params.runId);
+    if (!run) {
+      return res.status(404).json({ error: 'Workflow run not found' });
+    }
+
+    res.json(run);
+  } catch (error) {
+    console.error('Error getting workflow run:', error);
+    res.status(500).json({ error: 'Failed to get workflow run' });
+  }
+});
+
+/**
+ * POST /api/workflows/runs/:runId/cancel
+ * Cancel a run that is running or waiting for approval
+ */
+router.post('/runs/:runId/cancel', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const run = await cancelWorkflowRun(companyId, req.params.runId);
+    res.json(run);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error cancelling workflow run:', error);
+    res.status(500).json({ error: 'Failed to cancel workflow run' });
+  }
+});
+
+/**
+ * POST /api/workflows/runs/:runId/approval
+ * Decide an approval step: { step, approved, reason? }. `step` is the step
+ * key from the run's `steps`.
+ */
+router.post('/runs/:runId/approval', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    const userId = req.user?._id?.toString();
+    if (!companyId || !userId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+    const { step, approved, reason } = req.body || {};
+    if (typeof step !== 'string' || typeof approved !== 'boolean') {
+      return res
+        .status(400)
+        .json({ error: 'step and approved (boolean) are required' });
+    }
+
+    const run = await decideWorkflowApproval(
+      companyId,
+      req.params.runId,
+      step,
+      approved,
+      userId,
+      reason,
+    );
+    res.json(run);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error deciding workflow approval:', error);
+    res.status(500).json({ error: 'Failed to decide workflow approval' });
+  }
+});
+
+/**
+ * GET /api/workflows/:id
+ * Get a workflow
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const workflow = await getWorkflow(companyId, req.params.id);
+    if (!workflow) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    res.json(workflow);
+  } catch (error) {
+    console.error('Error getting workflow:', error);
+    res.status(500).json({ error: 'Failed to get workflow' });
+  }
+});
+
+/**
+ * POST /api/workflows
+ * Create a workflow from `definition` (object) or `source` (JSON/YAML text)
+ */
+router.post('/', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    const userId = req.user?._id?.toString();
+    if (!companyId || !userId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const workflow = await createWorkflow(
+      companyId,
+      req.body as WorkflowInput,
+      userId,
+    );
+    res.status(201).json(workflow);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error creating workflow:', error);
+    res.status(500).json({ error: 'Failed to create workflow' });
+  }
+});
+
+/**
+ * PUT /api/workflows/:id
+ * Update a workflow
+ */
+router.put('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const workflow = await updateWorkflow(
+      companyId,
+      req.params.id,
+      req.body as WorkflowInput,
+    );
+    res.json(workflow);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error updating workflow:', error);
+    res.status(500).json({ error: 'Failed to update workflow' });
+  }
+});
+
+/**
+ * DELETE /api/workflows/:id
+ * Delete a workflow and its run history
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const deleted = await deleteWorkflow(companyId, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    res.json({ message: 'Workflow deleted' });
+  } catch (error) {
+    console.error('Error deleting workflow:', error);
+    res.status(500).json({ error: 'Failed to delete workflow' });
+  }
+});
+
+/**
+ * POST /api/workflows/:id/runs
+ * Start a run with `input`. Responds once the run has started; poll
+ * GET /api/workflows/runs/:runId for its progress.
+ */
+router.post('/:id/runs', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    const userId = req.user?._id?.toString();
+    if (!companyId || !userId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const run = await startWorkflowRun(
+      companyId,
+      req.params.id,
+      req.body?.input,
+      userId,
+    );
+    res.status(202).json(run);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error starting workflow run:', error);
+    res.status(500).json({ error: 'Failed to start workflow run' });
+  }
+});
+
+/**
+ * GET /api/workflows/:id/runs
+ * Run history of a workflow (?status=, ?limit=, default 20)
+ */
+router.get('/:id/runs', async (req: AuthenticatedRequest, res) => {
+  try {
+    const companyId = req.company?._id?.toString();
+    if (!companyId) {
+      return res.status(400).json({ error: 'Company ID required' });
+    }
+
+    const runs = await listWorkflowRuns(companyId, {
+      workflowId: req.params.id,
+      status: req.query.status as WorkflowRunStatus | undefined,
+      limit: Number(req.query.limit) || undefined,
+    });
+    res.json(runs);
+  } catch (error) {
+    console.error('Error listing workflow runs:', error);
+    res.status(500).json({ error: 'Failed to list workflow runs' });
+  }
+});
+
+export default router;
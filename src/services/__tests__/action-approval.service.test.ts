@@ -0,0 +1,231 @@
+import mongoose from 'mongoose';
+import {
+  approveAction,
+  isApprovalRequired,
+  matchesApprovalRule,
+  rejectAction,
+} from '../action-approval.service';
+import { Assistant } from '../../models/Assistant';
+import { Inbox } from '../../models/Inbox';
+import { Message } from '../../models/Message';
+import { Session } from '../../models/Session';
+import { User } from '../../models/User';
+import { executeFunctionCallWithContext } from '../../integrations/actions/executors';
+import { handleSessionMessage } from '../assistant/message-handling.service';
+import { AuthorizationError } from '../../utils/errors';
+import { getIntegrationConfig } from '../integration-config.service';
+import { ActionContext } from '../../integrations/actions/types';
+
+jest.mock('../../integrations/actions/executors', () => ({
+  executeFunctionCallWithContext: jest.fn(),
+}));
+
+jest.mock('../../integrations/actions/publishers', () => ({
+  publishActionMessage: jest.fn(),
+}));
+
+jest.mock('../assistant/message-handling.service', () => ({
+  handleSessionMessage: jest.fn(),
+}));
+
+jest.mock('../integration-config.service', () => ({
+  getIntegrationConfig: jest.fn(),
+}));
+
+jest.mock('../../models/Assistant', () => ({
+  Assistant: { findById: jest.fn() },
+}));
+
+const mockGetIntegrationConfig = getIntegrationConfig as jest.MockedFunction<
+  typeof getIntegrationConfig
+>;
+const mockFindById = Assistant.findById as jest.Mock;
+
+const context: ActionContext = {
+  sessionId: '64b7f0c2a1b2c3d4e5f60718',
+  companyId: '64b7f0c2a1b2c3d4e5f60719',
+  assistantId: '64b7f0c2a1b2c3d4e5f6071a',
+  language: 'en',
+};
+
+const withAssistantRules = (rules: string[]) =>
+  mockFindById.mockReturnValue({
+    select: () => ({ lean: async () => ({ approvalRequiredActions: rules }) }),
+  });
+
+describe('action-approval.service', () => {
+  describe('matchesApprovalRule', () => {
+    it('matches exact names, integration wildcards and "*"', () => {
+      expect(
+        matchesApprovalRule('jira.deleteTicket', ['jira.deleteTicket']),
+      ).toBe(true);
+      expect(
+        matchesApprovalRule('jira.deleteTicket', ['jira_deleteTicket']),
+      ).toBe(true);
+      expect(matchesApprovalRule('jira.deleteTicket', ['jira.*'])).toBe(true);
+      expect(matchesApprovalRule('jira.deleteTicket', ['*'])).toBe(true);
+      expect(matchesApprovalRule('jira.getTicket', ['jira.deleteTicket'])).toBe(
+        false,
+      );
+      expect(matchesApprovalRule('jira.deleteTicket', ['sendgrid.*'])).toBe(
+        false,
+      );
+      expect(matchesApprovalRule('jira.deleteTicket')).toBe(false);
+    });
+  });
+
+  describe('isApprovalRequired', () => {
+    beforeEach(() => {
+      mockGetIntegrationConfig.mockReset();
+      mockGetIntegrationConfig.mockResolvedValue(null);
+      mockFindById.mockReset();
+      withAssistantRules([]);
+    });
+
+    it('uses the assistant rules', async () => {
+      withAssistantRules(['sendgrid.sendEmail']);
+
+      await expect(
+        isApprovalRequired('sendgrid.sendEmail', context),
+      ).resolves.toBe(true);
+      await expect(isApprovalRequired('jira.getTicket', context)).resolves.toBe(
+        false,
+      );
+    });
+
+    it('uses the integration config rules, with or without prefix', async () => {
+      mockGetIntegrationConfig.mockResolvedValue({
+        approvalRequiredActions: ['deleteTicket'],
+      } as any);
+
+      await expect(
+        isApprovalRequired('jira.deleteTicket', context),
+      ).resolves.toBe(true);
+      await expect(isApprovalRequired('jira.getTicket', context)).resolves.toBe(
+        false,
+      );
+
+      mockGetIntegrationConfig.mockResolvedValue({
+        approvalRequiredActions: ['*'],
+      } as any);
+      await expect(isApprovalRequired('jira.getTicket', context)).resolves.toBe(
+        true,
+      );
+      expect(mockGetIntegrationConfig).toHaveBeenCalledWith(
+        context.companyId,
+        'jira',
+      );
+    });
+  });
+
+  describe('deciding approvals', () => {
+    const approvalId = '64b7f0c2a1b2c3d4e5f6071b';
+    const requesterId = '64b7f0c2a1b2c3d4e5f6071c';
+    const approverId = '64b7f0c2a1b2c3d4e5f6071d';
+    const inboxItem = {
+      _id: new mongoose.Types.ObjectId(approvalId),
+      sessionId: new mongoose.Types.ObjectId(context.sessionId),
+      senderId: new mongoose.Types.ObjectId(context.assistantId),
+      approval: {
+        actionId: 'jira.deleteTicket',
+        functionName: 'jira_deleteTicket',
+        actionTitle: 'Delete ticket',
+        args: { key: 'OPS-1' },
+        executionId: 'exec-1',
+        status: 'pending',
+        language: 'en',
+        userId: requesterId,
+      },
+    };
+    const withRole = (role: string) =>
+      jest.spyOn(User, 'findById').mockReturnValue({
+        select: () => ({ lean: async () => ({ role }) }),
+      } as never);
+
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      (handleSessionMessage as jest.Mock).mockReset().mockResolvedValue('');
+      (executeFunctionCallWithContext as jest.Mock)
+        .mockReset()
+        .mockResolvedValue({
+          result: 'Deleted',
+        });
+      mockFindById.mockReset().mockReturnValue({
+        select: () => ({
+          lean: async () => ({ actionApprovers: [approverId] }),
+        }),
+        allowedActions: ['jira.deleteTicket'],
+      });
+      jest.spyOn(Inbox, 'findOne').mockReturnValue({
+        select: () => ({ lean: async () => inboxItem }),
+      } as never);
+      jest.spyOn(Inbox, 'findOneAndUpdate').mockResolvedValue({
+        ...inboxItem,
+        approval: { ...inboxItem.approval },
+      } as never);
+      jest
+        .spyOn(Inbox, 'findByIdAndUpdate')
+        .mockResolvedValue(inboxItem as never);
+      jest
+        .spyOn(Session, 'findById')
+        .mockResolvedValue({ _id: inboxItem.sessionId } as never);
+      jest.spyOn(Message.prototype, 'save').mockResolvedValue({} as never);
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    it('never lets the requester approve, even as an admin', async () => {
+      withRole('Admin');
+
+      await expect(
+        approveAction(approvalId, context.companyId, requesterId),
+      ).rejects.toThrow(AuthorizationError);
+      expect(Inbox.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(executeFunctionCallWithContext).not.toHaveBeenCalled();
+    });
+
+    it('only lets admins and named approvers decide', async () => {
+      withRole('CompanyUser');
+
+      await expect(
+        approveAction(
+          approvalId,
+          context.companyId,
+          '64b7f0c2a1b2c3d4e5f6071e',
+        ),
+      ).rejects.toThrow(AuthorizationError);
+      await expect(
+        rejectAction(approvalId, context.companyId, '64b7f0c2a1b2c3d4e5f6071e'),
+      ).rejects.toThrow(AuthorizationError);
+      await expect(
+        approveAction(approvalId, context.companyId),
+      ).rejects.toThrow(AuthorizationError);
+      expect(Inbox.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('runs an approved action and resumes the assistant', async () => {
+      withRole('CompanyUser');
+
+      await approveAction(approvalId, context.companyId, approverId);
+
+      expect(executeFunctionCallWithContext).toHaveBeenCalledTimes(1);
+      expect(handleSessionMessage).toHaveBeenCalledWith(
+        expect.stringContaining('Delete ticket was approved and completed.'),
+        context.sessionId,
+        { message_type: 'action-approval-outcome' },
+      );
+    });
+
+    it('lets the requester reject and resumes the assistant', async () => {
+      await rejectAction(approvalId, context.companyId, requesterId, 'Not now');
+
+      expect(executeFunctionCallWithContext).not.toHaveBeenCalled();
+      expect(handleSessionMessage).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Delete ticket was not run. Rejected by a human reviewer: Not now.',
+        ),
+        context.sessionId,
+        { message_type: 'action-approval-outcome' },
+      );
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import mongoose from 'mongoose';
+import { Budget } from '../../models/Budget';
+import { CostTracking } from '../../models/CostTracking';
+import {
+  buildBudgetCostMetadata,
+  enforceBudgets,
+  getPeriodEnd,
+  getPeriodStart,
+} from '../budget.service';
+import { BudgetExceededError } from '../../utils/errors';
+
+jest.mock('../webhook.service', () => ({ emitWebhookEvent: jest.fn() }));
+jest.mock('../sendgrid.service', () => ({ sendEmail: jest.fn() }));
+
+const companyId = '64b000000000000000000001';
+const assistantId = '64b0000000000000000000a1';
+
+const budget = (fields: Record<string, unknown>) => ({
+  _id: new mongoose.Types.ObjectId(),
+  companyId: new mongoose.Types.ObjectId(companyId),
+  name: 'Budget',
+  scope: 'company',
+  period: 'monthly',
+  hardLimitAction: 'block',
+  notify: { inbox: false, emails: [] },
+  ...fields,
+});
+
+const mockBudgets = (budgets: unknown[], spent: number) => {
+  jest.spyOn(Budget, 'find').mockResolvedValue(budgets as any);
+  jest
+    .spyOn(CostTracking, 'aggregate')
+    .mockResolvedValue([{ totalCost: spent }] as any);
+  jest
+    .spyOn(Budget, 'updateOne')
+    .mockResolvedValue({ modifiedCount: 0 } as any);
+};
+
+describe('budget.service', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('computes UTC daily and monthly windows', () => {
+    const now = new Date('2026-03-31T22:15:00Z');
+
+    expect(getPeriodStart('daily', now).toISOString()).toBe(
+      '2026-03-31T00:00:00.000Z',
+    );
+    expect(getPeriodEnd('daily', now).toISOString()).toBe(
+      '2026-04-01T00:00:00.000Z',
+    );
+    expect(getPeriodStart('monthly', now).toISOString()).toBe(
+      '2026-03-01T00:00:00.000Z',
+    );
+    expect(getPeriodEnd('monthly', now).toISOString()).toBe(
+      '2026-04-01T00:00:00.000Z',
+    );
+  });
+
+  it('lets requests through below the hard limit', async () => {
+    mockBudgets([budget({ softLimit: 5, hardLimit: 10 })], 7);
+
+    await expect(enforceBudgets({ companyId, assistantId })).resolves.toEqual(
+      {},
+    );
+    expect(Budget.updateOne).toHaveBeenCalledTimes(1); // Soft limit notification
+  });
+
+  it('refuses requests over a blocking hard limit', async () => {
+    mockBudgets([budget({ name: 'Company', hardLimit: 10 })], 12.5);
+
+    const error = await enforceBudgets({ companyId, assistantId }).catch(
+      (e) => e,
+    );
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.code).toBe('BUDGET_EXCEEDED');
+    expect(error.statusCode).toBe(402);
+    expect(error.details).toMatchObject({ limit: 10, spent: 12.5 });
+  });
+
+  it('downgrades the model over a downgrading hard limit', async () => {
+    const downgrading = budget({
+      scope: 'assistant',
+      targetId: new mongoose.Types.ObjectId(assistantId),
+      hardLimit: 10,
+      hardLimitAction: 'downgrade',
+      downgradeModel: { llmProvider: 'openai', llmModel: 'gpt-4.1-nano' },
+    });
+    mockBudgets([downgrading], 11);
+
+    const decision = await enforceBudgets({ companyId, assistantId });
+    expect(decision).toEqual({
+      downgradeModel: { llmProvider: 'openai', llmModel: 'gpt-4.1-nano' },
+      budgetId: downgrading._id.toString(),
+    });
+    expect(
+      buildBudgetCostMetadata('key-1', decision, { scheduledJobRunId: 'r' }),
+    ).toEqual({
+      scheduledJobRunId: 'r',
+      apiKeyId: 'key-1',
+      downgradedByBudget: downgrading._id.toString(),
+    });
+    expect(buildBudgetCostMetadata(undefined, {})).toBeUndefined();
+  });
+});
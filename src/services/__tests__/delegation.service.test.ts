@@ -0,0 +1,243 @@
+import mongoose from 'mongoose';
+import { Assistant } from '../../models/Assistant';
+import { CostTracking } from '../../models/CostTracking';
+import { DelegationTask, IDelegationTask } from '../../models/DelegationTask';
+import { executeAssistantStateless } from '../assistant/stateless-execution.service';
+import {
+  buildDelegationPrompt,
+  buildDelegationTree,
+  parseDelegationOutput,
+  recoverOrphanedDelegationTasks,
+  resolveChildBudget,
+} from '../delegation.service';
+
+jest.mock('../assistant/stateless-execution.service', () => ({
+  executeAssistantStateless: jest.fn(),
+  statelessResponseToText: jest.fn(),
+}));
+
+const mockExecuteAssistant = executeAssistantStateless as jest.Mock;
+
+const cost = (totalCost: number, totalTokens = 0) => ({
+  inputTokens: totalTokens,
+  outputTokens: 0,
+  totalTokens,
+  totalCost,
+});
+
+const task = (id: string, parentId?: string) =>
+  ({
+    _id: new mongoose.Types.ObjectId(id),
+    parentTaskId: parentId ? new mongoose.Types.ObjectId(parentId) : undefined,
+  }) as IDelegationTask;
+
+describe('delegation.service', () => {
+  it('builds the prompt from instructions, input and output schema', () => {
+    const prompt = buildDelegationPrompt({
+      instructions: 'Summarize the ticket.',
+      input: { ticket: 'ABC-1' },
+      outputSchema: { type: 'object' },
+    });
+
+    expect(prompt).toContain('Summarize the ticket.');
+    expect(prompt).toContain('# Input\n```json\n{\n  "ticket": "ABC-1"\n}');
+    expect(prompt).toContain('matches this JSON schema');
+    expect(buildDelegationPrompt({ instructions: 'Hi' })).toBe('Hi');
+  });
+
+  it('validates output against the schema', () => {
+    const schema = {
+      type: 'object',
+      properties: { summary: { type: 'string' } },
+      required: ['summary'],
+    };
+
+    expect(
+      parseDelegationOutput('Done:\n```json\n{"summary":"ok"}\n```', schema),
+    ).toEqual({ summary: 'ok' });
+    expect(() => parseDelegationOutput('{"summary": 1}', schema)).toThrow(
+      /summary/,
+    );
+    expect(() => parseDelegationOutput('no json here', schema)).toThrow(
+      'valid JSON',
+    );
+  });
+
+  it('fits child budgets into what the parent has left', () => {
+    const parent = {
+      budget: { maxCost: 1, timeoutMs: 60000 },
+      spent: cost(0.4),
+      elapsedMs: 20000,
+    };
+
+    expect(resolveChildBudget(parent)).toEqual({
+      maxCost: 0.6,
+      maxTokens: undefined,
+      timeoutMs: 40000,
+    });
+    expect(
+      resolveChildBudget(parent, { maxCost: 0.1, maxTokens: 500 }),
+    ).toEqual({ maxCost: 0.1, maxTokens: 500, timeoutMs: 40000 });
+    expect(() => resolveChildBudget(parent, { maxCost: 0.7 })).toThrow(
+      'exceeds',
+    );
+    expect(() =>
+      resolveChildBudget({ ...parent, spent: cost(1.2) }, { maxCost: 0.1 }),
+    ).toThrow('no maxCost budget left');
+  });
+
+  it('nests tasks and sums subtree cost', () => {
+    const root = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+    const child = 'bbbbbbbbbbbbbbbbbbbbbbbb';
+    const grandchild = 'cccccccccccccccccccccccc';
+    const other = 'dddddddddddddddddddddddd';
+
+    const tree = buildDelegationTree([
+      { task: task(root), cost: cost(0.5, 100) },
+      { task: task(child, root), cost: cost(0.25, 50) },
+      { task: task(grandchild, child), cost: cost(0.125, 10) },
+      { task: task(other), cost: cost(0) },
+    ]);
+
+    expect(tree).toHaveLength(2);
+    expect(tree[0].children[0].children[0].task._id.toString()).toBe(
+      grandchild,
+    );
+    expect(tree[0].cost.totalCost).toBe(0.5);
+    expect(tree[0].totalCost).toEqual(cost(0.875, 160));
+    expect(tree[0].children[0].totalCost.totalCost).toBe(0.375);
+    expect(tree[1].children).toEqual([]);
+  });
+
+  it('re-runs lost queued tasks and fails running ones past their timeout', async () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    const minutesAgo = (minutes: number) =>
+      new Date(now.getTime() - minutes * 60 * 1000);
+    const queued = task('aaaaaaaaaaaaaaaaaaaaaaaa');
+    const running = [
+      // Past its 1 minute timeout and the grace period
+      { _id: 'r1', startedAt: minutesAgo(3), budget: { timeoutMs: 60000 } },
+      // Within its timeout, possibly running on another instance
+      { _id: 'r2', startedAt: minutesAgo(3), budget: { timeoutMs: 600000 } },
+      // Default timeout of 5 minutes
+      { _id: 'r3', startedAt: minutesAgo(10), budget: {} },
+    ];
+
+    const find = jest
+      .spyOn(DelegationTask, 'find')
+      .mockResolvedValueOnce([queued] as never)
+      .mockReturnValueOnce({
+        select: () => ({ lean: async () => running }),
+      } as never);
+    // Another instance claimed the queued task first
+    const claim = jest
+      .spyOn(DelegationTask, 'findOneAndUpdate')
+      .mockResolvedValue(null);
+    const updateMany = jest
+      .spyOn(DelegationTask, 'updateMany')
+      .mockResolvedValue({ modifiedCount: 2 } as never);
+
+    await expect(recoverOrphanedDelegationTasks(now)).resolves.toEqual({
+      requeued: 1,
+      failed: 2,
+    });
+    expect(find).toHaveBeenNthCalledWith(1, {
+      status: 'queued',
+      createdAt: { $lte: minutesAgo(1) },
+    });
+    expect(claim).toHaveBeenCalledWith(
+      { _id: queued._id, status: 'queued' },
+      expect.anything(),
+      expect.anything(),
+    );
+    expect(updateMany).toHaveBeenCalledWith(
+      { _id: { $in: ['r1', 'r3'] }, status: 'running' },
+      {
+        $set: expect.objectContaining({ status: 'failed', finishedAt: now }),
+      },
+    );
+  });
+
+  describe('running a task', () => {
+    const taskId = 'eeeeeeeeeeeeeeeeeeeeeeee';
+
+    // Runs a queued task through recovery and resolves with what it stored
+    const runTask = (budget: IDelegationTask['budget']) => {
+      jest
+        .spyOn(DelegationTask, 'find')
+        .mockResolvedValueOnce([task(taskId)] as never)
+        .mockReturnValueOnce({
+          select: () => ({ lean: async () => [] }),
+        } as never);
+      jest.spyOn(DelegationTask, 'findOneAndUpdate').mockResolvedValue({
+        _id: new mongoose.Types.ObjectId(taskId),
+        companyId: new mongoose.Types.ObjectId(),
+        assistantId: new mongoose.Types.ObjectId(),
+        ancestorIds: [],
+        title: 'Research',
+        instructions: 'Look it up',
+        budget,
+      } as never);
+      jest.spyOn(Assistant, 'findOne').mockResolvedValue({} as never);
+      return new Promise<any>((resolve) => {
+        jest.spyOn(DelegationTask, 'updateOne').mockImplementation(((
+          _filter: unknown,
+          update: any,
+        ) => {
+          resolve(update.$set);
+          return Promise.resolve({ modifiedCount: 1 });
+        }) as never);
+        void recoverOrphanedDelegationTasks();
+      });
+    };
+
+    beforeEach(() => {
+      mockExecuteAssistant.mockReset();
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('aborts the model call when the task times out', async () => {
+      jest.spyOn(CostTracking, 'aggregate').mockResolvedValue([]);
+      let signal: AbortSignal | undefined;
+      mockExecuteAssistant.mockImplementation(((...args: any[]) => {
+        signal = args[9].abortSignal;
+        return new Promise(() => undefined);
+      }) as never);
+
+      const stored = await runTask({ timeoutMs: 20 });
+
+      expect(stored).toMatchObject({
+        status: 'failed',
+        error: 'Task timed out after 20ms',
+      });
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('stops before a model step once the subtree spent its budget', async () => {
+      // Earlier calls in the subtree used 900 tokens
+      jest
+        .spyOn(CostTracking, 'aggregate')
+        .mockResolvedValue([{ _id: taskId, ...cost(0, 900) }]);
+      mockExecuteAssistant.mockImplementation((async (...args: any[]) => {
+        const { beforeStep } = args[9];
+        await beforeStep({ model: 'gpt-4.1', inputTokens: 0, outputTokens: 0 });
+        await beforeStep({
+          model: 'gpt-4.1',
+          inputTokens: 120,
+          outputTokens: 30,
+        });
+        return 'unreachable';
+      }) as never);
+
+      const stored = await runTask({ maxTokens: 1000 });
+
+      expect(stored).toMatchObject({
+        status: 'budget_exceeded',
+        error: 'Used 1050 of a 1000 token budget',
+      });
+      expect(stored.outputText).toBeUndefined();
+    });
+  });
+});
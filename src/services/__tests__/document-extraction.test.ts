@@ -0,0 +1,233 @@
+import * as XLSX from 'xlsx';
+import {
+  detectDocumentFormat,
+  extractDocument,
+} from '../document-extraction/document-extractor';
+
+const DOCX_MIME =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const buildZip = (parts: Record<string, string>): Buffer => {
+  const container = XLSX.CFB.utils.cfb_new();
+  for (const [partPath, content] of Object.entries(parts)) {
+    XLSX.CFB.utils.cfb_add(container, `/${partPath}`, Buffer.from(content));
+  }
+  return Buffer.from(
+    XLSX.CFB.write(container, { type: 'buffer', fileType: 'zip' }),
+  );
+};
+
+/**
+ * Minimal PDF with one Helvetica text run per [x, y, text] entry
+ */
+const buildPdf = (pages: [number, number, string][][]): Buffer => {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds
+    .map((id) => `${id} 0 R`)
+    .join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  pages.forEach((runs, i) => {
+    const stream = runs
+      .map(
+        ([x, y, text]) => `BT /F1 12 Tf 1 0 0 1 ${x} ${y} Tm (${text}) Tj ET`,
+      )
+      .join('\n');
+    objects[pageIds[i]] =
+      '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] ' +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] =
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return Buffer.from(pdf, 'latin1');
+};
+
+describe('document extraction', () => {
+  it('detects formats from content, MIME type and file name', () => {
+    const docx = buildZip({ 'word/document.xml': '<w:document/>' });
+
+    expect(detectDocumentFormat(Buffer.from('%PDF-1.7 ...'))).toBe('pdf');
+    expect(detectDocumentFormat(docx)).toBe('docx');
+    expect(
+      detectDocumentFormat(Buffer.from('<p>hi</p>'), { fileName: 'a.HTML' }),
+    ).toBe('html');
+    expect(detectDocumentFormat(Buffer.from('plain text'))).toBe('text');
+    expect(
+      detectDocumentFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 1]), {
+        mimeType: 'image/png',
+      }),
+    ).toBeUndefined();
+  });
+
+  it('extracts headings, lists and tables from DOCX', async () => {
+    const paragraph = (text: string, properties = '') =>
+      `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t>${text}</w:t></w:r></w:p>`;
+    const cell = (text: string) => `<w:tc>${paragraph(text)}</w:tc>`;
+    const docx = buildZip({
+      'word/document.xml': `<w:document xmlns:w="w"><w:body>
+        ${paragraph('Onboarding', '<w:pStyle w:val="Titre1"/>')}
+        ${paragraph('Welcome aboard.')}
+        ${paragraph('Laptop', '<w:numPr><w:ilvl w:val="0"/></w:numPr>')}
+        ${paragraph('Badge', '<w:numPr><w:ilvl w:val="0"/></w:numPr>')}
+        ${paragraph('Contacts', '<w:pStyle w:val="Heading2"/>')}
+        <w:tbl>
+          <w:tr>${cell('Team')}${cell('Email')}</w:tr>
+          <w:tr>${cell('IT')}${cell('it@example.com')}</w:tr>
+        </w:tbl>
+      </w:body></w:document>`,
+      'word/styles.xml': `<w:styles xmlns:w="w">
+        <w:style w:styleId="Titre1"><w:name w:val="heading 1"/></w:style>
+      </w:styles>`,
+    });
+
+    const document = await extractDocument(docx, { mimeType: DOCX_MIME });
+
+    expect(document.format).toBe('docx');
+    expect(document.text).toBe(
+      [
+        '# Onboarding',
+        'Welcome aboard.',
+        '- Laptop\n- Badge',
+        '## Contacts',
+        '| Team | Email |\n| --- | --- |\n| IT | it@example.com |',
+      ].join('\n\n'),
+    );
+    expect(document.sections.map((section) => section.title)).toEqual([
+      'Onboarding',
+      'Contacts',
+    ]);
+    expect(document.tables).toEqual([
+      {
+        section: 'Contacts',
+        rows: [
+          ['Team', 'Email'],
+          ['IT', 'it@example.com'],
+        ],
+      },
+    ]);
+    expect(document.metadata.title).toBe('Onboarding');
+  });
+
+  it('extracts slides in presentation order from PPTX', async () => {
+    const slide = (title: string, body: string) =>
+      `<p:sld xmlns:p="p" xmlns:a="a"><p:cSld><p:spTree>
+        <p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr>
+          <p:txBody><a:p><a:r><a:t>${title}</a:t></a:r></a:p></p:txBody></p:sp>
+        <p:sp><p:txBody><a:p><a:r><a:t>${body}</a:t></a:r></a:p></p:txBody></p:sp>
+      </p:spTree></p:cSld></p:sld>`;
+    const pptx = buildZip({
+      'ppt/presentation.xml': `<p:presentation xmlns:p="p" xmlns:r="r">
+        <p:sldIdLst><p:sldId r:id="rId2"/><p:sldId r:id="rId1"/></p:sldIdLst>
+      </p:presentation>`,
+      'ppt/_rels/presentation.xml.rels': `<Relationships>
+        <Relationship Id="rId1" Target="slides/slide1.xml"/>
+        <Relationship Id="rId2" Target="slides/slide2.xml"/>
+      </Relationships>`,
+      'ppt/slides/slide1.xml': slide('Roadmap', 'Ship v2 in Q3'),
+      'ppt/slides/slide2.xml': slide('Agenda', 'Intro and roadmap'),
+    });
+
+    const document = await extractDocument(pptx);
+
+    expect(document.text).toBe(
+      '--- Slide 1: Agenda ---\nIntro and roadmap\n\n' +
+        '--- Slide 2: Roadmap ---\nShip v2 in Q3',
+    );
+    expect(document.metadata).toEqual({ title: 'Agenda', pageCount: 2 });
+  });
+
+  it('extracts HTML without scripts and with tables', async () => {
+    const html = `<html><head><title>Pricing</title><script>track()</script></head>
+      <body><nav>Home</nav><h1>Plans</h1><p>Pick a <b>plan</b>.</p>
+      <ul><li>Monthly</li><li>Yearly</li></ul>
+      <table><tr><th>Plan</th><th>Price</th></tr><tr><td>Pro</td><td>$10</td></tr></table>
+      </body></html>`;
+
+    const document = await extractDocument(Buffer.from(html), {
+      mimeType: 'text/html; charset=utf-8',
+    });
+
+    expect(document.text).toBe(
+      [
+        'Home',
+        '# Plans',
+        'Pick a plan.',
+        '- Monthly\n- Yearly',
+        '| Plan | Price |\n| --- | --- |\n| Pro | $10 |',
+      ].join('\n\n'),
+    );
+    expect(document.metadata.title).toBe('Pricing');
+    expect(document.tables[0].section).toBe('Plans');
+  });
+
+  it('keeps markdown text and collects sections and tables', async () => {
+    const markdown = [
+      '# Guide',
+      'Intro',
+      '```',
+      '# not a heading',
+      '```',
+      '## Limits',
+      '| Plan | Calls |',
+      '| --- | ---: |',
+      '| Free | 100 |',
+    ].join('\n');
+
+    const document = await extractDocument(Buffer.from(markdown), {
+      fileName: 'guide.md',
+    });
+
+    expect(document.text).toBe(markdown);
+    expect(document.sections.map((section) => section.title)).toEqual([
+      'Guide',
+      'Limits',
+    ]);
+    expect(document.tables[0].rows).toEqual([
+      ['Plan', 'Calls'],
+      ['Free', '100'],
+    ]);
+  });
+
+  it('extracts PDF pages with markers and column-aligned tables', async () => {
+    const pdf = buildPdf([
+      [[72, 720, 'Quarterly report']],
+      [
+        [72, 700, 'Region'],
+        [300, 700, 'Revenue'],
+        [72, 680, 'EMEA'],
+        [300, 680, '120'],
+      ],
+    ]);
+
+    const document = await extractDocument(pdf);
+
+    expect(document.metadata.pageCount).toBe(2);
+    expect(document.text).toBe(
+      '--- Page 1 ---\nQuarterly report\n\n' +
+        '--- Page 2 ---\n| Region | Revenue |\n| --- | --- |\n| EMEA | 120 |',
+    );
+    expect(document.tables).toEqual([
+      {
+        page: 2,
+        rows: [
+          ['Region', 'Revenue'],
+          ['EMEA', '120'],
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  checkToolCalls,
+  evaluateAssertion,
+  extractJson,
+  scoreCase,
+} from '../eval.service';
+
+const mockCreate = jest.fn();
+
+jest.mock('openai', () =>
+  jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: mockCreate } },
+  })),
+);
+
+jest.mock('../assistant/stateless-execution.service', () => ({
+  executeAssistantStateless: jest.fn(),
+  statelessResponseToText: jest.fn(),
+}));
+
+jest.mock('../api.key.service', () => ({
+  getApiKey: jest.fn(async () => 'sk-test'),
+}));
+
+const companyId = '64b000000000000000000001';
+
+describe('eval.service', () => {
+  it('checks contains and regex assertions', async () => {
+    const output = 'Your order #4521 ships on Monday.';
+
+    await expect(
+      evaluateAssertion(
+        companyId,
+        { type: 'contains', value: 'ORDER #4521' },
+        'Where is my order?',
+        output,
+      ),
+    ).resolves.toMatchObject({ passed: true, score: 1 });
+    await expect(
+      evaluateAssertion(
+        companyId,
+        { type: 'regex', pattern: 'refund', flags: 'i', negate: true },
+        'Where is my order?',
+        output,
+      ),
+    ).resolves.toMatchObject({ passed: true });
+    await expect(
+      evaluateAssertion(
+        companyId,
+        { type: 'regex', pattern: '#\\d{5}' },
+        'Where is my order?',
+        output,
+      ),
+    ).resolves.toMatchObject({ passed: false, score: 0 });
+  });
+
+  it('validates JSON output against a schema', async () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        intent: { type: 'string', enum: ['refund', 'status'] },
+        orderId: { type: 'string' },
+      },
+      required: ['intent', 'orderId'],
+    };
+
+    expect(extractJson('Here you go:\n```json\n{"a": 1}\n```')).toEqual({
+      a: 1,
+    });
+    await expect(
+      evaluateAssertion(
+        companyId,
+        { type: 'json_schema', schema },
+        'Classify',
+        '```json\n{"intent": "status", "orderId": "4521"}\n```',
+      ),
+    ).resolves.toMatchObject({ passed: true });
+
+    const invalid = await evaluateAssertion(
+      companyId,
+      { type: 'json_schema', schema },
+      'Classify',
+      '{"intent": "cancel"}',
+    );
+    expect(invalid.passed).toBe(false);
+    expect(invalid.reason).toMatch(/intent|orderId/);
+  });
+
+  it('scores LLM judge assertions against the threshold', async () => {
+    mockCreate.mockResolvedValueOnce({
+      choices: [
+        { message: { content: '{"score": 0.6, "reason": "Too terse"}' } },
+      ],
+    });
+
+    const judged = await evaluateAssertion(
+      companyId,
+      { type: 'llm_judge', rubric: 'Polite and complete', threshold: 0.5 },
+      'Hi',
+      'Hello.',
+    );
+    expect(judged).toEqual({
+      type: 'llm_judge',
+      passed: true,
+      score: 0.6,
+      reason: 'Too terse',
+    });
+  });
+
+  it('matches expected tool calls by name and argument subset', () => {
+    const actual = [
+      {
+        name: 'sendgrid_sendEmail',
+        arguments: { to: 'a@example.com', subject: 'Hi', text: 'Body' },
+      },
+    ];
+
+    const checks = checkToolCalls(
+      [
+        { name: 'sendgrid.sendEmail', arguments: { to: 'a@example.com' } },
+        { name: 'sendgrid_sendEmail', arguments: { to: 'b@example.com' } },
+        { name: 'twilio.sendMessage' },
+      ],
+      actual,
+    );
+    expect(checks.map((check) => check.passed)).toEqual([true, false, false]);
+    expect(scoreCase(checks)).toEqual({ passed: false, score: 1 / 3 });
+  });
+});
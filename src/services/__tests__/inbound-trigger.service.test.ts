@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import {
+  buildTemplateData,
+  InboundRequest,
+  verifyInboundRequest,
+} from '../inbound-trigger.service';
+import { renderTemplate } from '../template.service';
+
+jest.mock('../assistant/stateless-execution.service', () => ({
+  executeAssistantStateless: jest.fn(),
+  statelessResponseToText: jest.fn(),
+}));
+
+jest.mock('../session-context.service', () => ({
+  getSessionContextData: jest.fn(),
+}));
+
+const secret = 'test-secret';
+const rawBody = Buffer.from('{"action":"opened","number":7}');
+
+const request = (
+  headers: InboundRequest['headers'],
+  query: Record<string, unknown> = {},
+): InboundRequest => ({
+  method: 'POST',
+  headers,
+  query,
+  body: JSON.parse(rawBody.toString()),
+  rawBody,
+});
+
+const hmac = (payload: string | Buffer) =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+describe('inbound-trigger.service', () => {
+  describe('verifyInboundRequest', () => {
+    it('accepts any request when verification is off', () => {
+      expect(
+        verifyInboundRequest({ type: 'none' }, undefined, request({})),
+      ).toBeNull();
+    });
+
+    it('checks shared tokens from the header or query', () => {
+      const verification = { type: 'token' as const };
+      expect(
+        verifyInboundRequest(
+          verification,
+          secret,
+          request({ 'x-trigger-token': secret }),
+        ),
+      ).toBeNull();
+      expect(
+        verifyInboundRequest(
+          verification,
+          secret,
+          request({}, { token: secret }),
+        ),
+      ).toBeNull();
+      expect(
+        verifyInboundRequest(
+          verification,
+          secret,
+          request({ 'x-trigger-token': 'wrong' }),
+        ),
+      ).toBe('Invalid token');
+    });
+
+    it('verifies GitHub and generic HMAC signatures over the raw body', () => {
+      expect(
+        verifyInboundRequest(
+          { type: 'github' },
+          secret,
+          request({ 'x-hub-signature-256': `sha256=${hmac(rawBody)}` }),
+        ),
+      ).toBeNull();
+      expect(
+        verifyInboundRequest(
+          { type: 'hmac_sha256', header: 'X-Custom-Signature' },
+          secret,
+          request({ 'x-custom-signature': hmac('tampered') }),
+        ),
+      ).toBe('Invalid signature');
+      expect(
+        verifyInboundRequest({ type: 'github' }, secret, request({})),
+      ).toMatch(/Missing/);
+    });
+
+    it('verifies Stripe signatures within the tolerance window', () => {
+      const now = new Date('2026-10-19T12:00:00Z');
+      const timestamp = Math.floor(now.getTime() / 1000);
+      const header = `t=${timestamp},v1=${hmac(`${timestamp}.${rawBody}`)}`;
+
+      expect(
+        verifyInboundRequest(
+          { type: 'stripe' },
+          secret,
+          request({ 'stripe-signature': header }),
+          now,
+        ),
+      ).toBeNull();
+      expect(
+        verifyInboundRequest(
+          { type: 'stripe' },
+          secret,
+          request({ 'stripe-signature': header }),
+          new Date(now.getTime() + 10 * 60 * 1000),
+        ),
+      ).toMatch(/tolerance/);
+    });
+  });
+
+  it('renders templates without exposing secrets', () => {
+    const trigger = {
+      _id: new mongoose.Types.ObjectId(),
+      name: 'GitHub PRs',
+      verification: { type: 'token' as const },
+    };
+    const data = buildTemplateData(
+      trigger as any,
+      request(
+        { 'x-trigger-token': secret, 'x-github-event': 'pull_request' },
+        { token: secret, repo: 'api' },
+      ),
+    );
+
+    expect(data.headers).toEqual({ 'x-github-event': 'pull_request' });
+    expect(data.query).toEqual({ repo: 'api' });
+    expect(
+      renderTemplate(
+        'PR #{{body.number}} {{body.action}} in {{query.repo}} ({{trigger.name}})',
+        data,
+      ),
+    ).toBe('PR #7 opened in api (GitHub PRs)');
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  computeSlaDueAt,
+  MAX_ESCALATION_LEVEL,
+  nextEscalation,
+} from '../inbox.service';
+import { withHandoffSummary } from '../session-handoff.service';
+
+jest.mock('../websocket', () => ({
+  emitToUser: jest.fn(),
+}));
+
+const createdAt = new Date('2026-03-02T09:00:00Z');
+const minutesLater = (minutes: number) =>
+  new Date(createdAt.getTime() + minutes * 60 * 1000);
+
+describe('inbox.service', () => {
+  describe('computeSlaDueAt', () => {
+    it('gives more urgent items less time', () => {
+      expect(computeSlaDueAt('urgent', createdAt)).toEqual(minutesLater(15));
+      expect(computeSlaDueAt('high', createdAt)).toEqual(minutesLater(60));
+      expect(computeSlaDueAt('normal', createdAt)).toEqual(minutesLater(240));
+      expect(computeSlaDueAt('low', createdAt)).toEqual(minutesLater(1440));
+    });
+  });
+
+  describe('nextEscalation', () => {
+    const item = {
+      status: 'open' as const,
+      priority: 'normal' as const,
+      slaDueAt: minutesLater(240),
+      escalationLevel: 0,
+    };
+
+    it('waits for the SLA to pass', () => {
+      expect(nextEscalation(item, minutesLater(239))).toBeNull();
+    });
+
+    it('raises the priority and restarts the timer once it has passed', () => {
+      const now = minutesLater(241);
+      expect(nextEscalation(item, now)).toEqual({
+        priority: 'high',
+        slaDueAt: new Date(now.getTime() + 60 * 60 * 1000),
+        escalationLevel: 1,
+      });
+      expect(
+        nextEscalation(
+          { ...item, priority: 'urgent', escalationLevel: 1 },
+          now,
+        ),
+      ).toMatchObject({ priority: 'urgent', escalationLevel: 2 });
+    });
+
+    it('stops for answered, closed and fully escalated items', () => {
+      const now = minutesLater(300);
+      expect(
+        nextEscalation({ ...item, firstResponseAt: minutesLater(10) }, now),
+      ).toBeNull();
+      expect(nextEscalation({ ...item, status: 'closed' }, now)).toBeNull();
+      expect(
+        nextEscalation({ ...item, escalationLevel: MAX_ESCALATION_LEVEL }, now),
+      ).toBeNull();
+      expect(nextEscalation({ ...item, slaDueAt: undefined }, now)).toBeNull();
+    });
+  });
+
+  describe('withHandoffSummary', () => {
+    it('appends the latest handoff summary to the system prompt', () => {
+      const prompt = withHandoffSummary('You are helpful.', [
+        { messageType: 'handoff_summary', content: 'Refund requested.' },
+        { messageType: 'text', content: 'Hello' },
+        { messageType: 'handoff_summary', content: 'Refund issued.' },
+      ]);
+      expect(prompt).toMatch(/^You are helpful\.\n\n/);
+      expect(prompt).toMatch(/Refund issued\.$/);
+      expect(prompt).not.toContain('Refund requested.');
+    });
+
+    it('leaves the prompt alone without a handoff', () => {
+      expect(
+        withHandoffSummary('You are helpful.', [
+          { messageType: 'text', content: 'Hello' },
+        ]),
+      ).toBe('You are helpful.');
+    });
+  });
+});
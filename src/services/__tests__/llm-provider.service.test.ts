@@ -0,0 +1,119 @@
+import { IntegrationConfig } from '../../models/IntegrationConfig';
+import { LlmProvider } from '../../models/LlmProvider';
+import {
+  createLlmProvider,
+  getLlmProviderApiKey,
+  validateLlmProviderInput,
+} from '../llm-provider.service';
+
+const companyId = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+
+describe('llm-provider.service', () => {
+  describe('validateLlmProviderInput', () => {
+    const valid = {
+      key: 'ollama-local',
+      name: 'Ollama',
+      baseUrl: 'http://localhost:11434/v1',
+    };
+
+    it('requires key, name and baseUrl on create', () => {
+      expect(validateLlmProviderInput(valid, true)).toBeNull();
+      expect(validateLlmProviderInput({ ...valid, key: '' }, true)).toBe(
+        'key is required',
+      );
+      expect(
+        validateLlmProviderInput({ ...valid, key: 'Ollama Local' }, true),
+      ).toMatch(/lowercase/);
+      expect(
+        validateLlmProviderInput({ ...valid, name: undefined }, true),
+      ).toBe('name is required');
+      expect(
+        validateLlmProviderInput({ ...valid, baseUrl: undefined }, true),
+      ).toBe('baseUrl is required');
+      // Updates only check what they change
+      expect(validateLlmProviderInput({ name: 'Renamed' }, false)).toBeNull();
+    });
+
+    it('only accepts http(s) base URLs and known types', () => {
+      expect(validateLlmProviderInput({ baseUrl: 'not a url' }, false)).toBe(
+        'baseUrl must be a valid URL',
+      );
+      expect(
+        validateLlmProviderInput({ baseUrl: 'file:///etc/passwd' }, false),
+      ).toBe('baseUrl must be an http(s) URL');
+      expect(
+        validateLlmProviderInput({ type: 'grpc' as 'azure-openai' }, false),
+      ).toMatch(/type must be one of/);
+      expect(
+        validateLlmProviderInput(
+          { models: 'gpt-4' as unknown as string[] },
+          false,
+        ),
+      ).toBe('models must be an array of model IDs');
+    });
+  });
+
+  describe('createLlmProvider', () => {
+    beforeAll(() => {
+      process.env.ENCRYPTION_KEY = 'ab'.repeat(32);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('stores the API key encrypted, apart from the provider', async () => {
+      let storedConfig: any;
+      jest.spyOn(LlmProvider, 'findOne').mockResolvedValue(null);
+      const create = jest
+        .spyOn(LlmProvider, 'create')
+        .mockImplementation((async (doc: any) => ({
+          toObject: () => doc,
+        })) as never);
+      jest
+        .spyOn(IntegrationConfig, 'findOneAndUpdate')
+        .mockImplementation((async (filter: any, update: any) => {
+          storedConfig = { ...filter, ...update.$set };
+          return storedConfig;
+        }) as never);
+      jest
+        .spyOn(IntegrationConfig, 'findOne')
+        .mockImplementation(
+          () => ({ lean: async () => storedConfig }) as never,
+        );
+
+      const view = await createLlmProvider(companyId, {
+        key: 'vllm',
+        name: 'vLLM',
+        baseUrl: 'https://llm.example.com/v1/',
+        apiKey: 'sk-secret',
+      });
+
+      expect(create).toHaveBeenCalledWith(
+        expect.not.objectContaining({ apiKey: expect.anything() }),
+      );
+      expect(view).toMatchObject({
+        baseUrl: 'https://llm.example.com/v1',
+        hasApiKey: true,
+      });
+      expect(view).not.toHaveProperty('apiKey');
+
+      expect(storedConfig.integrationId).toBe('llm_provider:vllm');
+      expect(storedConfig.apiKeys[0].key).toBe('api_key');
+      expect(storedConfig.apiKeys[0].value).not.toContain('sk-secret');
+      await expect(getLlmProviderApiKey(companyId, 'vllm')).resolves.toBe(
+        'sk-secret',
+      );
+    });
+
+    it('rejects built-in provider keys', async () => {
+      await expect(
+        createLlmProvider(companyId, {
+          key: 'openai',
+          name: 'OpenAI',
+          baseUrl: 'https://api.openai.com/v1',
+        }),
+      ).rejects.toThrow('built-in');
+    });
+  });
+});
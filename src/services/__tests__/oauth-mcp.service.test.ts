@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import {
+  isSupportedScope,
+  isValidRedirectUri,
+  matchesRedirectUri,
+  parseScope,
+  scopesToPermissions,
+  verifyPkce,
+} from '../oauth-mcp.service';
+
+describe('oauth-mcp.service', () => {
+  it('accepts https, loopback http and private-use redirect URIs', () => {
+    expect(isValidRedirectUri('https://client.example.com/callback')).toBe(
+      true,
+    );
+    expect(isValidRedirectUri('http://localhost:33418/callback')).toBe(true);
+    expect(isValidRedirectUri('http://127.0.0.1/callback')).toBe(true);
+    expect(isValidRedirectUri('cursor://anysphere.cursor-mcp/oauth')).toBe(
+      true,
+    );
+
+    expect(isValidRedirectUri('http://client.example.com/callback')).toBe(
+      false,
+    );
+    expect(isValidRedirectUri('https://client.example.com/cb#frag')).toBe(
+      false,
+    );
+    expect(isValidRedirectUri('javascript:alert(1)')).toBe(false);
+    expect(isValidRedirectUri('not a url')).toBe(false);
+    expect(isValidRedirectUri(undefined)).toBe(false);
+  });
+
+  it('matches redirect URIs exactly, except for loopback ports', () => {
+    const registered = [
+      'https://client.example.com/callback',
+      'http://localhost:8080/callback',
+    ];
+
+    expect(
+      matchesRedirectUri(registered, 'https://client.example.com/callback'),
+    ).toBe(true);
+    expect(
+      matchesRedirectUri(registered, 'http://localhost:51234/callback'),
+    ).toBe(true);
+
+    expect(
+      matchesRedirectUri(registered, 'https://client.example.com/callback/x'),
+    ).toBe(false);
+    expect(
+      matchesRedirectUri(
+        registered,
+        'https://client.example.com:8443/callback',
+      ),
+    ).toBe(false);
+    expect(matchesRedirectUri(registered, 'http://localhost:51234/other')).toBe(
+      false,
+    );
+  });
+
+  it('maps scopes to API key permissions', () => {
+    expect(parseScope('mcp:read  mcp:read mcp:execute')).toEqual([
+      'mcp:read',
+      'mcp:execute',
+    ]);
+    expect(parseScope(undefined)).toEqual([]);
+
+    expect(isSupportedScope('mcp:write')).toBe(true);
+    expect(isSupportedScope('workflows:read')).toBe(true);
+    expect(isSupportedScope('mcp:admin')).toBe(false);
+
+    expect(scopesToPermissions(['mcp:execute', 'sessions:write'])).toEqual([
+      'assistants:execute',
+      'sessions:write',
+    ]);
+    expect(
+      scopesToPermissions(['assistants:execute:64b000000000000000000001']),
+    ).toEqual(['assistants:execute:64b000000000000000000001']);
+  });
+
+  it('verifies S256 PKCE code verifiers', () => {
+    const verifier = crypto.randomBytes(32).toString('base64url');
+    const challenge = crypto
+      .createHash('sha256')
+      .update(verifier)
+      .digest('base64url');
+
+    expect(verifyPkce(verifier, challenge)).toBe(true);
+    expect(verifyPkce(`${verifier}x`, challenge)).toBe(false);
+    expect(verifyPkce('short', challenge)).toBe(false);
+    expect(verifyPkce(undefined, challenge)).toBe(false);
+  });
+});
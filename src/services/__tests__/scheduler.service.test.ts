@@ -0,0 +1,249 @@
+import mongoose from 'mongoose';
+import { Assistant } from '../../models/Assistant';
+import { CostTracking } from '../../models/CostTracking';
+import { IScheduledJob, ScheduledJob } from '../../models/ScheduledJob';
+import { ScheduledJobRun } from '../../models/ScheduledJobRun';
+import {
+  executeAssistantStateless,
+  statelessResponseToText,
+} from '../assistant/stateless-execution.service';
+import { processDueJobs, triggerScheduledJob } from '../scheduler.service';
+
+jest.mock('../assistant/stateless-execution.service', () => ({
+  executeAssistantStateless: jest.fn(),
+  statelessResponseToText: jest.fn(),
+}));
+jest.mock('../unified-workspace.service', () => ({
+  getWorkspaceService: jest.fn(),
+}));
+jest.mock('../sendgrid.service', () => ({ sendEmail: jest.fn() }));
+
+const mockExecute = executeAssistantStateless as jest.MockedFunction<
+  typeof executeAssistantStateless
+>;
+const mockToText = statelessResponseToText as jest.MockedFunction<
+  typeof statelessResponseToText
+>;
+
+const NOW = new Date('2026-10-19T09:00:30Z');
+const LOCKED_UNTIL = new Date(NOW.getTime() + 30 * 60 * 1000);
+
+const makeJob = (overrides: Partial<IScheduledJob> = {}) =>
+  new ScheduledJob({
+    companyId: new mongoose.Types.ObjectId(),
+    assistantId: new mongoose.Types.ObjectId(),
+    createdBy: new mongoose.Types.ObjectId(),
+    name: 'Daily digest',
+    prompt: 'Summarize yesterday',
+    schedule: '0 9 * * *',
+    timezone: 'UTC',
+    enabled: true,
+    nextRunAt: new Date('2026-10-19T09:00:00Z'),
+    maxRetries: 2,
+    retryDelayMs: 1000,
+    ...overrides,
+  });
+
+describe('scheduler.service', () => {
+  let runs: any[];
+  let claim: jest.SpyInstance;
+  let finish: jest.SpyInstance;
+  let aggregate: jest.SpyInstance;
+
+  /**
+   * Serve `jobs` as the due candidates, one per query, then none. Each is
+   * claimed unless a test makes the claim fail.
+   */
+  const dueJobs = (...jobs: IScheduledJob[]) => {
+    const find = jest.spyOn(ScheduledJob, 'findOne');
+    for (const job of jobs) {
+      find.mockReturnValueOnce({ sort: async () => job } as never);
+      claim.mockResolvedValueOnce(job);
+    }
+    find.mockReturnValue({ sort: async () => null } as never);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    mockExecute.mockReset();
+    mockToText.mockReset().mockReturnValue('Digest');
+    runs = [];
+    jest
+      .spyOn(ScheduledJobRun.prototype, 'save')
+      .mockImplementation(async function (this: any) {
+        if (!runs.includes(this)) {
+          runs.push(this);
+        }
+        return this;
+      });
+    jest
+      .spyOn(Assistant, 'findOne')
+      .mockResolvedValue({ _id: 'assistant' } as never);
+    claim = jest.spyOn(ScheduledJob, 'findOneAndUpdate');
+    finish = jest
+      .spyOn(ScheduledJob, 'updateOne')
+      .mockResolvedValue({} as never);
+    aggregate = jest.spyOn(CostTracking, 'aggregate').mockResolvedValue([
+      {
+        inputTokens: 120,
+        outputTokens: 30,
+        totalTokens: 150,
+        totalCost: 0.0042,
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('claims a due job atomically and schedules its next run', async () => {
+    const job = makeJob();
+    dueJobs(job);
+    // The claimed document, as returned with { new: true }
+    claim
+      .mockReset()
+      .mockResolvedValueOnce(
+        Object.assign(makeJob(), { _id: job._id, lockedUntil: LOCKED_UNTIL }),
+      );
+    mockExecute.mockResolvedValue({} as never);
+
+    await expect(processDueJobs()).resolves.toBe(1);
+
+    // The claim only matches while nextRunAt is unchanged, so a second
+    // instance polling the same occurrence gets nothing
+    expect(claim).toHaveBeenCalledWith(
+      { _id: job._id, nextRunAt: job.nextRunAt },
+      {
+        $set: {
+          nextRunAt: new Date('2026-10-20T09:00:00Z'),
+          lockedUntil: LOCKED_UNTIL,
+          lastRunStatus: 'running',
+        },
+      },
+      { new: true },
+    );
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({
+      status: 'succeeded',
+      attempts: 1,
+      output: 'Digest',
+      trigger: 'schedule',
+    });
+    expect(finish).toHaveBeenCalledWith(
+      { _id: job._id },
+      { $set: { lastRunAt: runs[0].startedAt, lastRunStatus: 'succeeded' } },
+    );
+    // Only the lock this run claimed is released
+    expect(finish).toHaveBeenCalledWith(
+      { _id: job._id, lockedUntil: LOCKED_UNTIL },
+      { $unset: { lockedUntil: 1 } },
+    );
+  });
+
+  it('does not run an occurrence another instance claimed', async () => {
+    dueJobs(makeJob());
+    claim.mockReset().mockResolvedValue(null);
+
+    await expect(processDueJobs()).resolves.toBe(0);
+    expect(claim).toHaveBeenCalledTimes(1);
+    expect(runs).toHaveLength(0);
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  it('retries failed attempts with exponential backoff', async () => {
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+    dueJobs(makeJob());
+    mockExecute
+      .mockRejectedValueOnce(new Error('rate limited'))
+      .mockRejectedValueOnce(new Error('rate limited'))
+      .mockResolvedValue({} as never);
+
+    const processing = processDueJobs();
+    await jest.runAllTimersAsync();
+    await expect(processing).resolves.toBe(1);
+
+    expect(setTimeoutSpy.mock.calls.map(([, ms]) => ms)).toEqual([1000, 2000]);
+    expect(runs[0]).toMatchObject({ status: 'succeeded', attempts: 3 });
+  });
+
+  it('fails the run once retries are exhausted', async () => {
+    dueJobs(makeJob({ maxRetries: 1 }));
+    mockExecute.mockRejectedValue(new Error('model unavailable'));
+
+    const processing = processDueJobs();
+    await jest.runAllTimersAsync();
+    await processing;
+
+    expect(mockExecute).toHaveBeenCalledTimes(2);
+    expect(runs[0]).toMatchObject({
+      status: 'failed',
+      attempts: 2,
+      error: 'model unavailable',
+    });
+    expect(finish).toHaveBeenCalledWith(expect.anything(), {
+      $set: expect.objectContaining({ lastRunStatus: 'failed' }),
+    });
+  });
+
+  it('does not retry a failure after tools ran', async () => {
+    dueJobs(makeJob());
+    mockExecute.mockImplementation((async (...args: any[]) => {
+      args[9].onToolCalls();
+      throw new Error('connection reset');
+    }) as never);
+
+    const processing = processDueJobs();
+    await jest.runAllTimersAsync();
+    await processing;
+
+    expect(mockExecute).toHaveBeenCalledTimes(1);
+    expect(runs[0]).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      error: 'connection reset',
+    });
+  });
+
+  it('leaves the lock of a scheduled run to that run', async () => {
+    const job = makeJob({ lockedUntil: LOCKED_UNTIL });
+    jest.spyOn(ScheduledJob, 'findOne').mockResolvedValue(job);
+    mockExecute.mockResolvedValue({} as never);
+    const finished = new Promise((resolve) =>
+      finish.mockImplementation(async (...args: unknown[]) => resolve(args)),
+    );
+
+    await triggerScheduledJob(job.companyId.toString(), job._id.toString());
+
+    await expect(finished).resolves.toEqual([
+      { _id: job._id },
+      {
+        $set: { lastRunAt: runs[0].startedAt, lastRunStatus: 'succeeded' },
+      },
+    ]);
+    expect(runs[0].trigger).toBe('manual');
+    expect(finish).toHaveBeenCalledTimes(1);
+  });
+
+  it('totals the cost records tagged with the run', async () => {
+    dueJobs(makeJob());
+    mockExecute.mockResolvedValue({} as never);
+
+    await processDueJobs();
+
+    const runId = runs[0]._id.toString();
+    expect(mockExecute.mock.calls[0][8]).toEqual(
+      expect.objectContaining({ scheduledJobRunId: runId }),
+    );
+    expect(aggregate.mock.calls[0][0][0]).toEqual({
+      $match: { 'metadata.scheduledJobRunId': runId },
+    });
+    expect(runs[0].cost).toMatchObject({
+      inputTokens: 120,
+      outputTokens: 30,
+      totalTokens: 150,
+      totalCost: 0.0042,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { MemorySharedStateStore } from '../shared-state/memory-shared-state.store';
+import { createSharedStateStore } from '../shared-state/shared-state';
+
+describe('MemorySharedStateStore', () => {
+  let store: MemorySharedStateStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    store = new MemorySharedStateStore('node-1');
+  });
+
+  afterEach(async () => {
+    await store.close();
+    jest.useRealTimers();
+  });
+
+  it('stores copies of values per namespace until they expire', async () => {
+    const value = { route: '/admin', at: new Date('2026-01-01T00:00:00Z') };
+    await store.set('ui', 'u1', value, 1000);
+    await store.set('other', 'u1', 'unrelated');
+    value.route = '/changed';
+
+    expect(await store.get('ui', 'u1')).toEqual({
+      route: '/admin',
+      at: new Date('2026-01-01T00:00:00Z'),
+    });
+    expect(await store.entries('ui')).toHaveLength(1);
+
+    jest.advanceTimersByTime(1001);
+    expect(await store.get('ui', 'u1')).toBeNull();
+    expect(await store.entries('ui')).toEqual([]);
+    expect(await store.get('other', 'u1')).toBe('unrelated');
+
+    await store.delete('other', 'u1');
+    expect(await store.get('other', 'u1')).toBeNull();
+  });
+
+  it('counts in fixed windows', async () => {
+    expect(await store.increment('rate', 'key', 1000)).toBe(1);
+    expect(await store.increment('rate', 'key', 1000)).toBe(2);
+
+    jest.advanceTimersByTime(600);
+    expect(await store.increment('rate', 'key', 1000)).toBe(3);
+
+    jest.advanceTimersByTime(500);
+    expect(await store.increment('rate', 'key', 1000)).toBe(1);
+  });
+
+  it('delivers published messages to subscribers with their origin', async () => {
+    const received: Array<[unknown, string]> = [];
+    const unsubscribe = store.subscribe('channel', (message, origin) =>
+      received.push([message, origin]),
+    );
+
+    await store.publish('channel', { key: 'a' });
+    await store.publish('elsewhere', { key: 'b' });
+    await new Promise((resolve) => setImmediate(resolve));
+    unsubscribe();
+    await store.publish('channel', { key: 'c' });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(received).toEqual([[{ key: 'a' }, 'node-1']]);
+  });
+});
+
+describe('createSharedStateStore', () => {
+  const original = process.env.SHARED_STATE;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.SHARED_STATE;
+    } else {
+      process.env.SHARED_STATE = original;
+    }
+  });
+
+  it('uses the in-memory store unless Mongo is selected', async () => {
+    delete process.env.SHARED_STATE;
+    const store = createSharedStateStore();
+    expect(store).toBeInstanceOf(MemorySharedStateStore);
+    expect(store.distributed).toBe(false);
+    await store.close?.();
+
+    process.env.SHARED_STATE = 'redis';
+    const fallback = createSharedStateStore();
+    expect(fallback.name).toBe(store.name);
+    await fallback.close?.();
+  });
+});
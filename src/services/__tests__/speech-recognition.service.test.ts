@@ -0,0 +1,114 @@
+import { transcribeAudio } from '../speech.recognition.service';
+import { prepareAudio, sniffAudioFormat } from '../speech/audio-format';
+import { STTFactory } from '../speech/stt.factory';
+import { getApiKey } from '../api.key.service';
+import { pcm16ToWav } from '../voice/wav';
+import { BadRequestError } from '../../utils/errors';
+
+jest.mock('../api.key.service', () => ({
+  getApiKey: jest.fn(),
+}));
+
+const mockGetApiKey = getApiKey as jest.MockedFunction<typeof getApiKey>;
+
+const bytes = (...values: Array<number | string>) =>
+  Buffer.concat(
+    values.map((value) =>
+      typeof value === 'string'
+        ? Buffer.from(value, 'latin1')
+        : Buffer.from([value]),
+    ),
+  );
+
+describe('speech.recognition.service', () => {
+  describe('sniffAudioFormat', () => {
+    it('recognizes containers by their first bytes', () => {
+      expect(sniffAudioFormat(pcm16ToWav(Buffer.alloc(4), 16000))).toBe('wav');
+      expect(sniffAudioFormat(bytes('OggS', 0, 2))).toBe('ogg');
+      expect(sniffAudioFormat(bytes('fLaC', 0))).toBe('flac');
+      expect(sniffAudioFormat(bytes(0, 0, 0, 0x20, 'ftypM4A '))).toBe('mp4');
+      expect(sniffAudioFormat(bytes(0x1a, 0x45, 0xdf, 0xa3, 0x9f))).toBe(
+        'webm',
+      );
+      expect(sniffAudioFormat(bytes('ID3', 4, 0))).toBe('mp3');
+      expect(sniffAudioFormat(bytes(0xff, 0xfb, 0x90, 0x64))).toBe('mp3');
+      expect(sniffAudioFormat(bytes('hello'))).toBeNull();
+    });
+  });
+
+  describe('prepareAudio', () => {
+    it('falls back to the MIME type and file name', () => {
+      const audio = bytes('unknown');
+      expect(
+        prepareAudio(audio, { mimeType: 'audio/ogg; codecs=opus' }),
+      ).toEqual({ audio, format: 'ogg' });
+      expect(prepareAudio(audio, { filename: 'note.M4A' }).format).toBe('mp4');
+      expect(() => prepareAudio(audio, {})).toThrow(BadRequestError);
+    });
+
+    it('wraps raw PCM in WAV', () => {
+      // A first sample of -1 would otherwise sniff as an MP3 frame sync
+      const { audio, format } = prepareAudio(Buffer.alloc(320, 0xff), {
+        mimeType: 'audio/l16;rate=8000',
+      });
+      expect(format).toBe('wav');
+      expect(audio.readUInt32LE(24)).toBe(8000);
+      expect(audio.length).toBe(44 + 320);
+    });
+  });
+
+  describe('transcribeAudio', () => {
+    const transcribe = jest.fn();
+
+    beforeAll(() => {
+      STTFactory.registerProvider('test', {
+        create: (apiKey) => ({
+          name: 'test',
+          features: {
+            wordTimestamps: false,
+            diarization: false,
+            languageDetection: true,
+          },
+          transcribe: (audio, options) => transcribe(apiKey, audio, options),
+        }),
+        apiKeyType: 'openai_api_key',
+      });
+    });
+
+    beforeEach(() => {
+      transcribe.mockReset();
+      mockGetApiKey.mockReset();
+    });
+
+    it("uses the requested provider with the company's key", async () => {
+      mockGetApiKey.mockResolvedValue('sk-company');
+      transcribe.mockResolvedValue({ text: 'hello', provider: 'test' });
+      const audio = bytes('OggS', 0);
+
+      await expect(
+        transcribeAudio('company-1', audio, {
+          provider: 'test',
+          language: 'de',
+        }),
+      ).resolves.toEqual({ text: 'hello', provider: 'test' });
+      expect(mockGetApiKey).toHaveBeenCalledWith('company-1', 'openai_api_key');
+      expect(transcribe).toHaveBeenCalledWith(
+        'sk-company',
+        audio,
+        expect.objectContaining({ language: 'de' }),
+      );
+    });
+
+    it('rejects unknown providers and missing keys', async () => {
+      await expect(
+        transcribeAudio('company-1', Buffer.alloc(0), { provider: 'nope' }),
+      ).rejects.toThrow(/Unsupported speech-to-text provider: nope/);
+
+      mockGetApiKey.mockResolvedValue(null);
+      await expect(
+        transcribeAudio('company-1', Buffer.alloc(0), { provider: 'test' }),
+      ).rejects.toThrow(/No API key configured/);
+      expect(transcribe).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import axios from 'axios';
+import {
+  computeTwilioSignature,
+  splitMessageBody,
+  validateTwilioSignature,
+} from '../../integrations/twilio/twilio.service';
+import { handleIncomingTwilioMessage } from '../twilio-messaging.service';
+import { handleSessionMessage } from '../assistant/message-handling.service';
+import { findUserByIdentifierAndCompany } from '../user.service';
+
+jest.mock('axios', () => ({ post: jest.fn(), get: jest.fn() }));
+
+jest.mock('../api.key.service', () => ({
+  getApiKey: jest.fn(
+    async (_companyId: string, key: string) =>
+      ({
+        twilio_account_sid: 'AC123',
+        twilio_auth_token: 'auth-token',
+        twilio_phone_number: '+15550000000',
+        twilio_whatsapp_number: '+15551111111',
+        openai_api_key: 'sk-test',
+      })[key],
+  ),
+}));
+
+jest.mock('../user.service', () => ({
+  findUserByIdentifierAndCompany: jest.fn(),
+}));
+
+jest.mock('../session.service', () => ({
+  getSessionOrCreate: jest.fn(async () => ({ _id: 'session-1' })),
+}));
+
+jest.mock('../assistant/message-handling.service', () => ({
+  handleSessionMessage: jest.fn(),
+}));
+
+const mockPost = axios.post as jest.Mock;
+const mockGet = axios.get as jest.Mock;
+const mockHandle = handleSessionMessage as jest.Mock;
+const mockFindUser = findUserByIdentifierAndCompany as jest.Mock;
+
+const companyId = '64b000000000000000000001';
+const messagesUrl =
+  'https://twilio.mock/2010-04-01/Accounts/AC123/Messages.json';
+
+const sentForms = () =>
+  mockPost.mock.calls.map(([url, form]) => ({
+    url,
+    form: Object.fromEntries(new URLSearchParams(form)),
+  }));
+
+describe('twilio messaging', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.TWILIO_API_BASE_URL = 'https://twilio.mock';
+    mockPost.mockResolvedValue({ data: { sid: 'SM1' } });
+    mockFindUser.mockResolvedValue({ _id: 'user-1' });
+  });
+
+  afterAll(() => {
+    delete process.env.TWILIO_API_BASE_URL;
+  });
+
+  it('validates webhook signatures over the URL and sorted params', () => {
+    const url = 'https://api.example.com/omni/twilio/messaging/1';
+    const params = { From: '+15552223333', Body: 'Hi', NumMedia: '0' };
+    const signature = computeTwilioSignature('auth-token', url, params);
+
+    expect(validateTwilioSignature('auth-token', signature, url, params)).toBe(
+      true,
+    );
+    expect(
+      validateTwilioSignature('auth-token', signature, url, {
+        ...params,
+        Body: 'Tampered',
+      }),
+    ).toBe(false);
+    expect(validateTwilioSignature('auth-token', undefined, url, params)).toBe(
+      false,
+    );
+  });
+
+  it('splits long replies on word boundaries', () => {
+    const chunks = splitMessageBody('word '.repeat(500), 1600);
+    expect(chunks.length).toBe(2);
+    expect(chunks.every((chunk) => chunk.length <= 1600)).toBe(true);
+    expect(chunks.join(' ')).toBe('word '.repeat(500).trim());
+  });
+
+  it('routes WhatsApp messages with media to the session and replies', async () => {
+    mockGet.mockResolvedValue({ data: Buffer.from('image-bytes') });
+    mockHandle.mockResolvedValue('Nice photo!');
+
+    await handleIncomingTwilioMessage(companyId, {
+      MessageSid: 'MM1',
+      From: 'whatsapp:+15552223333',
+      To: 'whatsapp:+15551111111',
+      Body: 'What is this?',
+      NumMedia: '1',
+      MediaUrl0: 'https://twilio.mock/media/ME1',
+      MediaContentType0: 'image/jpeg',
+    });
+
+    expect(mockFindUser).toHaveBeenCalledWith(
+      'phone',
+      '+15552223333',
+      companyId,
+    );
+    expect(mockHandle).toHaveBeenCalledWith(
+      'What is this?',
+      'session-1',
+      { channel: 'whatsapp', from: '+15552223333' },
+      [
+        {
+          url: 'https://twilio.mock/media/ME1',
+          data: Buffer.from('image-bytes').toString('base64'),
+          mimeType: 'image/jpeg',
+          fileName: 'MM1-0.jpeg',
+        },
+      ],
+    );
+    expect(sentForms()).toEqual([
+      {
+        url: messagesUrl,
+        form: {
+          From: 'whatsapp:+15551111111',
+          To: 'whatsapp:+15552223333',
+          Body: 'Nice photo!',
+        },
+      },
+    ]);
+  });
+
+  it('replies to unknown numbers without running the assistant', async () => {
+    mockFindUser.mockResolvedValue(null);
+
+    await handleIncomingTwilioMessage(companyId, {
+      From: '+15559998888',
+      Body: 'Hello',
+    });
+
+    expect(mockHandle).not.toHaveBeenCalled();
+    expect(sentForms()[0].form).toMatchObject({
+      From: '+15550000000',
+      To: '+15559998888',
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createWorkspaceService } from '../unified-workspace.service';
+
+jest.mock('../vector-search.service', () => ({
+  getVectorSearchService: jest.fn(),
+}));
+
+describe('workspace version history', () => {
+  let dataDir: string;
+
+  beforeAll(() => {
+    // The file store writes to .workspace-data in the working directory
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-versions-'));
+    jest.spyOn(process, 'cwd').mockReturnValue(dataDir);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const createWorkspace = () =>
+    createWorkspaceService({
+      namespace: `versions-${Date.now()}-${Math.random()}`,
+      versionRetention: { session: { maxVersions: 3 } },
+    });
+
+  it('records a version with author and size for every write', async () => {
+    const workspace = createWorkspace();
+    await workspace.set('/company/c1/notes.md', 'first', {
+      userId: 'u1',
+    });
+    await workspace.set('/company/c1/notes.md', 'second draft', {
+      author: { type: 'assistant', id: 'a1' },
+    });
+
+    const versions = await workspace.listVersions('/company/c1/notes.md');
+
+    expect(versions.map((v) => v.version)).toEqual([2, 1]);
+    expect(versions[0].author).toEqual({ type: 'assistant', id: 'a1' });
+    expect(versions[0].size).toBe('second draft'.length);
+    expect(versions[1].author).toEqual({ type: 'user', id: 'u1' });
+    expect(await workspace.getVersion('/company/c1/notes.md', 1)).toBe('first');
+  });
+
+  it('diffs versions and restores an old version as a new one', async () => {
+    const workspace = createWorkspace();
+    await workspace.set('/agent/a1/plan.txt', 'step one\nstep two');
+    await workspace.set('/agent/a1/plan.txt', 'step one\nstep 2\nstep three');
+
+    const diff = await workspace.diffVersions('/agent/a1/plan.txt', 1);
+
+    expect(diff).toMatchObject({
+      fromVersion: 1,
+      toVersion: 2,
+      changed: true,
+      binary: false,
+      additions: 2,
+      deletions: 1,
+    });
+    expect(diff.diff).toContain('-step two\n+step 2\n+step three');
+
+    const restored = await workspace.restoreVersion('/agent/a1/plan.txt', 1, {
+      author: { type: 'user', id: 'u1' },
+    });
+
+    expect(restored).toMatchObject({ version: 3, restoredFrom: 1 });
+    expect(await workspace.get('/agent/a1/plan.txt')).toBe(
+      'step one\nstep two',
+    );
+    await expect(
+      workspace.diffVersions('/agent/a1/plan.txt', 9),
+    ).rejects.toThrow('not found');
+  });
+
+  it('prunes versions beyond the scope retention policy', async () => {
+    const workspace = createWorkspace();
+    for (let i = 1; i <= 5; i++) {
+      await workspace.set('/session/s1/draft.json', { revision: i });
+    }
+
+    const versions = await workspace.listVersions('/session/s1/draft.json');
+
+    expect(versions.map((v) => v.version)).toEqual([5, 4, 3]);
+    expect(
+      await workspace.getVersion('/session/s1/draft.json', 1),
+    ).toBeUndefined();
+  });
+});
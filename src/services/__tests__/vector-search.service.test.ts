@@ -0,0 +1,132 @@
+import { VectorSearchService } from '../vector-search.service';
+import { LocalVectorStore } from '../vector-stores/local-vector.store';
+import { LocalEmbedder } from '../embedders/local.embedder';
+
+jest.mock('../api.key.service', () => ({
+  getApiKey: jest.fn(),
+}));
+
+const companyId = '64b000000000000000000001';
+const otherCompanyId = '64b000000000000000000002';
+const agentId = '64b0000000000000000000a1';
+
+const refundPolicy = [
+  '# Policies',
+  '## Refunds',
+  'Customers can request a refund within 30 days of purchase. Refunds are issued to the original payment method.',
+  '## Shipping',
+  'Orders ship within two business days. International shipping takes up to two weeks.',
+].join('\n');
+
+describe('VectorSearchService with local backends', () => {
+  let service: VectorSearchService;
+
+  beforeEach(async () => {
+    service = new VectorSearchService(
+      new LocalVectorStore(),
+      new LocalEmbedder(),
+    );
+    await service.indexText(
+      `unified-workspace:/agent/${agentId}/policies.md`,
+      refundPolicy,
+      companyId,
+      { contentType: 'text/markdown', size: refundPolicy.length },
+    );
+    await service.indexText(
+      `unified-workspace:/company/${companyId}/menu.txt`,
+      'Lunch menu: soup, salad and sandwiches served daily.',
+      companyId,
+    );
+    await service.indexText(
+      `unified-workspace:/company/${companyId}/tickets/outage.md`,
+      'Incident PROJ-4821: checkout latency spiked after the cache deploy.',
+      companyId,
+      {
+        contentType: 'text/markdown',
+        tags: ['incident'],
+        createdAt: new Date('2024-03-01'),
+      },
+    );
+    await service.indexText(
+      `unified-workspace:/company/${otherCompanyId}/refunds.txt`,
+      'Refund requests are handled within 30 days.',
+      otherCompanyId,
+    );
+  });
+
+  it('embeds text deterministically', async () => {
+    const embedder = new LocalEmbedder(64);
+    const [a, b] = await embedder.embed(
+      ['Refund policy', 'Refund policy'],
+      companyId,
+    );
+
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b);
+  });
+
+  it('returns matching documents with chunk snippets and offsets', async () => {
+    const results = await service.search('how do I request a refund', {
+      companyId,
+      minScore: 0.55,
+    });
+
+    expect(results[0]).toMatchObject({
+      path: 'policies.md',
+      scope: 'agent',
+      scopeId: agentId,
+      metadata: { contentType: 'text/markdown' },
+    });
+    const [best] = results[0].chunks;
+    expect(refundPolicy.slice(best.start, best.end)).toBe(best.snippet);
+    expect(best.snippet).toContain('refund');
+    expect(results.map((result) => result.path)).not.toContain('refunds.txt');
+  });
+
+  it('finds exact identifiers with hybrid search', async () => {
+    const results = await service.hybridSearch('PROJ-4821', {
+      companyId,
+      minScore: 0.9,
+    });
+
+    expect(results[0].path).toBe('tickets/outage.md');
+    expect(results[0].chunks[0].keywordScore).toBeGreaterThan(0);
+  });
+
+  it('applies metadata filters to hybrid search', async () => {
+    const search = (options: object) =>
+      service
+        .hybridSearch('refund checkout latency', {
+          companyId,
+          minScore: 0,
+          ...options,
+        })
+        .then((results) => results.map((result) => result.path));
+
+    expect(await search({ tags: ['incident'] })).toEqual(['tickets/outage.md']);
+    expect(await search({ contentTypes: ['text/markdown'] })).toEqual(
+      expect.arrayContaining(['tickets/outage.md', 'policies.md']),
+    );
+    expect(await search({ createdAfter: new Date('2024-06-01') })).toEqual([]);
+    expect(await search({ scopes: ['agent'] })).toEqual(['policies.md']);
+  });
+
+  it('filters by scope and forgets removed documents', async () => {
+    const scoped = await service.search('refund', {
+      companyId,
+      scope: 'company',
+      scopeId: companyId,
+      minScore: 0,
+    });
+    expect(scoped.map((result) => result.path)).toEqual(
+      expect.arrayContaining(['menu.txt']),
+    );
+    expect(scoped.map((result) => result.path)).not.toContain('policies.md');
+
+    await service.removeDocument(
+      `unified-workspace:/agent/${agentId}/policies.md`,
+    );
+    const results = await service.search('refund', { companyId, minScore: 0 });
+    expect(results.map((result) => result.path)).not.toContain('policies.md');
+  });
+});
@@ -0,0 +1,184 @@
+import { Socket } from 'socket.io';
+import { SentenceChunker } from '../voice/sentence-chunker';
+import { pcm16Level, TurnDetector } from '../voice/turn-detector';
+import { registerVoiceHandlers } from '../voice/voice-session';
+import { pcm16ToWav } from '../voice/wav';
+
+jest.mock('../../models/Assistant', () => ({
+  Assistant: {
+    findById: () => ({
+      select: () => ({ lean: async () => ({ voice: 'alloy' }) }),
+    }),
+  },
+}));
+jest.mock('../api.key.service', () => ({
+  getApiKey: jest.fn().mockResolvedValue('key'),
+}));
+jest.mock('../session.service', () => ({
+  getSessionOrCreate: jest
+    .fn()
+    .mockResolvedValue({ _id: 'session-1', assistantId: 'assistant-1' }),
+}));
+jest.mock('../speech/speech.factory', () => ({
+  SpeechFactory: {
+    providerForVoice: () => 'openai',
+    getApiKeyType: () => 'openai_api_key',
+    getProvider: () => ({}),
+  },
+}));
+jest.mock('../speech.recognition.service', () => ({
+  transcribeAudio: jest.fn().mockResolvedValue({ text: '' }),
+}));
+jest.mock('../assistant/message-handling.service', () => ({
+  handleSessionMessage: jest.fn(),
+}));
+
+// 20 ms of 16 kHz mono PCM at a constant amplitude
+const frame = (amplitude: number) => {
+  const buffer = Buffer.alloc(320 * 2);
+  for (let i = 0; i < 320; i++) {
+    buffer.writeInt16LE(
+      Math.round(amplitude * 32767) * (i % 2 ? 1 : -1),
+      i * 2,
+    );
+  }
+  return buffer;
+};
+
+const pushFrames = (
+  detector: TurnDetector,
+  amplitude: number,
+  count: number,
+) => {
+  const events = [];
+  for (let i = 0; i < count; i++) {
+    const event = detector.push(frame(amplitude));
+    if (event) {
+      events.push(event);
+    }
+  }
+  return events;
+};
+
+describe('voice', () => {
+  describe('TurnDetector', () => {
+    it('measures PCM levels', () => {
+      expect(pcm16Level(frame(0))).toBe(0);
+      expect(pcm16Level(frame(0.5))).toBeCloseTo(0.5, 2);
+    });
+
+    it('starts a turn after enough speech and ends it after silence', () => {
+      const detector = new TurnDetector({ minSpeechMs: 100, silenceMs: 200 });
+
+      expect(pushFrames(detector, 0.3, 4)).toEqual([]);
+      expect(pushFrames(detector, 0.3, 1)).toEqual(['speech_start']);
+      expect(detector.inTurn).toBe(true);
+
+      // Short pauses inside a turn do not end it
+      expect(pushFrames(detector, 0, 5)).toEqual([]);
+      expect(pushFrames(detector, 0.3, 1)).toEqual([]);
+      expect(pushFrames(detector, 0, 10)).toEqual(['speech_end']);
+      expect(detector.inTurn).toBe(false);
+    });
+
+    it('ignores short noise and ends turns that run too long', () => {
+      const detector = new TurnDetector({ minSpeechMs: 100, maxTurnMs: 400 });
+
+      expect(pushFrames(detector, 0.3, 3)).toEqual([]);
+      expect(pushFrames(detector, 0, 1)).toEqual([]);
+      expect(pushFrames(detector, 0.3, 3)).toEqual([]);
+
+      expect(pushFrames(detector, 0.3, 20)).toEqual([
+        'speech_start',
+        'speech_end',
+      ]);
+    });
+  });
+
+  describe('SentenceChunker', () => {
+    it('emits complete sentences as text streams in', () => {
+      const chunker = new SentenceChunker(10);
+
+      expect(chunker.push('Hello there, how')).toEqual([]);
+      expect(chunker.push(' are you today? I am ')).toEqual([
+        'Hello there, how are you today?',
+      ]);
+      // "Thanks!" is too short on its own and waits for more text
+      expect(chunker.push('fine. Thanks! And the weather')).toEqual([
+        'I am fine.',
+      ]);
+      expect(chunker.flush()).toBe('Thanks! And the weather');
+      expect(chunker.flush()).toBeNull();
+    });
+
+    it('splits on line breaks', () => {
+      const chunker = new SentenceChunker(5);
+      expect(chunker.push('- first item\n- second item\n')).toEqual([
+        '- first item',
+        '- second item',
+      ]);
+    });
+  });
+
+  describe('pcm16ToWav', () => {
+    it('adds a WAV header describing the audio', () => {
+      const pcm = frame(0.1);
+      const wav = pcm16ToWav(pcm, 16000);
+
+      expect(wav.length).toBe(44 + pcm.length);
+      expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+      expect(wav.toString('ascii', 8, 12)).toBe('WAVE');
+      expect(wav.readUInt32LE(24)).toBe(16000);
+      expect(wav.readUInt32LE(40)).toBe(pcm.length);
+      expect(wav.subarray(44).equals(pcm)).toBe(true);
+    });
+  });
+
+  describe('registerVoiceHandlers', () => {
+    const connect = () => {
+      const handlers: Record<string, (...args: unknown[]) => unknown> = {};
+      const socket = {
+        on: (event: string, handler: (...args: unknown[]) => unknown) => {
+          handlers[event] = handler;
+        },
+        emit: jest.fn(),
+      };
+      registerVoiceHandlers(socket as unknown as Socket, {
+        userId: 'user-1',
+        companyId: 'company-1',
+      });
+      return { handlers, emit: socket.emit };
+    };
+
+    it('drops audio frames that are not binary', async () => {
+      const { handlers } = connect();
+      await handlers['voice:start']({});
+
+      for (const frame of [undefined, null, 42, 'audio', { length: 2 }]) {
+        expect(() => handlers['voice:audio'](frame)).not.toThrow();
+      }
+      expect(() =>
+        handlers['voice:audio'](new Uint8Array(frame(0.1))),
+      ).not.toThrow();
+    });
+
+    it('clamps the sample rate and turn detector options', async () => {
+      const { handlers, emit } = connect();
+      await handlers['voice:start']({
+        sampleRate: 1e9,
+        vad: { silenceMs: 1e9, maxTurnMs: 1e9, sampleRate: 1 },
+      });
+      expect(emit).toHaveBeenCalledWith(
+        'voice:started',
+        expect.objectContaining({ sampleRate: 48000 }),
+      );
+
+      // 20 ms frames at 16 kHz last 6.7 ms at 48 kHz: a turn of continuous
+      // speech ends at the 60 s maximum
+      for (let i = 0; i < 9100; i++) {
+        handlers['voice:audio'](frame(0.5));
+      }
+      expect(emit).toHaveBeenCalledWith('voice:speech_stopped', {});
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import {
+  matchesWebhook,
+  processPendingDeliveries,
+  signWebhookPayload,
+} from '../webhook.service';
+import { Webhook } from '../../models/Webhook';
+import { WebhookDelivery } from '../../models/WebhookDelivery';
+
+jest.mock('axios', () => ({ post: jest.fn() }));
+
+jest.mock('../encryption.service', () => ({
+  encryptData: jest.fn(),
+  decryptData: jest.fn(() => 'whsec_test'),
+}));
+
+jest.mock('../../models/Webhook', () => ({
+  WEBHOOK_EVENTS: [],
+  Webhook: { findById: jest.fn(), updateOne: jest.fn() },
+}));
+
+jest.mock('../../models/WebhookDelivery', () => ({
+  WebhookDelivery: { findOneAndUpdate: jest.fn() },
+}));
+
+const mockPost = axios.post as jest.Mock;
+const mockClaim = WebhookDelivery.findOneAndUpdate as jest.Mock;
+
+const webhookId = new mongoose.Types.ObjectId();
+const assistantId = new mongoose.Types.ObjectId();
+
+const makeDelivery = (attempts: number): any => ({
+  _id: new mongoose.Types.ObjectId(),
+  webhookId,
+  event: 'message.created',
+  payload: { id: 'evt_1', type: 'message.created', data: { text: 'hi' } },
+  status: 'pending',
+  attempts,
+  save: jest.fn(async function (this: unknown) {
+    return this;
+  }),
+});
+
+describe('webhook.service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Webhook.findById as jest.Mock).mockReturnValue({
+      select: async () => ({
+        _id: webhookId,
+        url: 'https://example.com/hook',
+        active: true,
+        secret: {},
+      }),
+    });
+  });
+
+  it('matches subscribed events and the assistant filter', () => {
+    const webhook = { events: ['action.failed'], assistantId };
+    expect(
+      matchesWebhook(webhook, 'action.failed', assistantId.toString()),
+    ).toBe(true);
+    expect(matchesWebhook(webhook, 'action.failed', 'other')).toBe(false);
+    expect(
+      matchesWebhook(webhook, 'action.completed', assistantId.toString()),
+    ).toBe(false);
+    expect(matchesWebhook({ events: ['*'] }, 'cost.recorded')).toBe(true);
+  });
+
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const expected = crypto
+      .createHmac('sha256', 'secret')
+      .update('1700000000.{"a":1}')
+      .digest('hex');
+    expect(signWebhookPayload('secret', '1700000000', '{"a":1}')).toBe(
+      expected,
+    );
+  });
+
+  it('reschedules a failed attempt with backoff', async () => {
+    const delivery = makeDelivery(1);
+    mockClaim.mockResolvedValueOnce(delivery).mockResolvedValueOnce(null);
+    mockPost.mockResolvedValue({ status: 503, data: 'unavailable' });
+
+    const before = Date.now();
+    await processPendingDeliveries();
+
+    expect(delivery.attempts).toBe(2);
+    expect(delivery.status).toBe('pending');
+    expect(delivery.responseStatus).toBe(503);
+    const delay = delivery.nextAttemptAt.getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(60 * 1000);
+    expect(Webhook.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('sends signed headers and records success', async () => {
+    const delivery = makeDelivery(0);
+    mockClaim.mockResolvedValueOnce(delivery).mockResolvedValueOnce(null);
+    mockPost.mockResolvedValue({ status: 200, data: 'ok' });
+
+    await processPendingDeliveries();
+
+    const [url, body, config] = mockPost.mock.calls[0];
+    expect(url).toBe('https://example.com/hook');
+    const timestamp = config.headers['X-Webhook-Timestamp'];
+    expect(config.headers['X-Webhook-Signature']).toBe(
+      `sha256=${signWebhookPayload('whsec_test', timestamp, body)}`,
+    );
+    expect(delivery.status).toBe('succeeded');
+    expect(delivery.nextAttemptAt).toBeUndefined();
+    expect(Webhook.updateOne).toHaveBeenCalled();
+  });
+
+  it('gives up after the last attempt', async () => {
+    const delivery = makeDelivery(5);
+    mockClaim.mockResolvedValueOnce(delivery).mockResolvedValueOnce(null);
+    mockPost.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await processPendingDeliveries();
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.error).toBe('ECONNREFUSED');
+  });
+});
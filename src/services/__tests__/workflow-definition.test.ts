@@ -0,0 +1,116 @@
+import {
+  evaluateCondition,
+  parseWorkflowSource,
+  resolveTemplate,
+  WorkflowScope,
+} from '../workflow/workflow-definition';
+import { BadRequestError } from '../../utils/errors';
+
+const scope: WorkflowScope = {
+  input: { ticket: 'ABC-1', priority: 3 },
+  steps: {
+    triage: {
+      status: 'succeeded',
+      output: { severity: 'high', tags: ['billing', 'urgent'] },
+    },
+  },
+};
+
+describe('workflow-definition', () => {
+  it('parses YAML and JSON sources', () => {
+    const yamlSource = [
+      'steps:',
+      '  - id: review',
+      '    type: approval',
+      '    message: "Ship {{input.ticket}}?"',
+    ].join('\n');
+
+    const parsed = parseWorkflowSource(yamlSource);
+    expect(parsed.format).toBe('yaml');
+    expect(parsed.source).toBe(yamlSource);
+    expect(parsed.definition.steps[0]).toEqual({
+      id: 'review',
+      type: 'approval',
+      message: 'Ship {{input.ticket}}?',
+    });
+
+    const json = parseWorkflowSource(JSON.stringify(parsed.definition));
+    expect(json.format).toBe('json');
+    expect(json.definition).toEqual(parsed.definition);
+  });
+
+  it('rejects invalid definitions with the offending step', () => {
+    expect(() => parseWorkflowSource('steps: [')).toThrow(
+      /Invalid workflow YAML/,
+    );
+    expect(() => parseWorkflowSource({ steps: [] })).toThrow(BadRequestError);
+    expect(() =>
+      parseWorkflowSource({
+        steps: [{ id: 'send', type: 'action', action: 'sendMessage' }],
+      }),
+    ).toThrow('Step "send": action must be "<integration>.<action>"');
+    expect(() =>
+      parseWorkflowSource({
+        steps: [
+          {
+            id: 'each',
+            type: 'loop',
+            over: '{{input.items}}',
+            steps: [{ id: 'each', type: 'approval', message: 'ok?' }],
+          },
+        ],
+      }),
+    ).toThrow('duplicate step id "each"');
+  });
+
+  it('resolves templates, keeping the type of single references', () => {
+    expect(resolveTemplate('{{steps.triage.output.tags}}', scope)).toEqual([
+      'billing',
+      'urgent',
+    ]);
+    expect(
+      resolveTemplate(
+        { text: '{{input.ticket}} is {{steps.triage.output.severity}}' },
+        scope,
+      ),
+    ).toEqual({ text: 'ABC-1 is high' });
+    expect(resolveTemplate('missing: {{input.nothing}}', scope)).toBe(
+      'missing: ',
+    );
+  });
+
+  it('evaluates conditions', () => {
+    expect(
+      evaluateCondition(
+        { path: 'steps.triage.output.severity', value: 'high' },
+        scope,
+      ),
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        {
+          all: [
+            { path: 'input.priority', operator: 'greater_than', value: 2 },
+            {
+              path: 'steps.triage.output.tags',
+              operator: 'contains',
+              value: 'urgent',
+            },
+          ],
+        },
+        scope,
+      ),
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        {
+          any: [
+            { path: 'input.assignee', operator: 'exists' },
+            { path: 'input.priority', operator: 'less_than', value: 2 },
+          ],
+        },
+        scope,
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+import mongoose from 'mongoose';
+import { Assistant } from '../../models/Assistant';
+import { CostTracking } from '../../models/CostTracking';
+import { IWorkflowStep } from '../../models/Workflow';
+import {
+  IWorkflowStepState,
+  WorkflowRun,
+  WorkflowRunStatus,
+} from '../../models/WorkflowRun';
+import { executeFunctionCallWithContext } from '../../integrations/actions/executors';
+import { executeAssistantStateless } from '../assistant/stateless-execution.service';
+import { executeWorkflowRun } from '../workflow/workflow-runtime';
+
+jest.mock('../assistant/stateless-execution.service', () => ({
+  executeAssistantStateless: jest.fn(),
+  statelessResponseToText: (response: unknown) => String(response),
+}));
+
+jest.mock('../../integrations/actions/executors', () => ({
+  executeFunctionCallWithContext: jest.fn(),
+}));
+
+const mockExecuteAssistant = executeAssistantStateless as jest.Mock;
+const mockExecuteAction = executeFunctionCallWithContext as jest.Mock;
+
+const runId = '64b000000000000000000e01';
+
+// The stored run, updated the way MongoDB would apply the runtime's writes
+let stored: {
+  status: WorkflowRunStatus;
+  steps: Record<string, IWorkflowStepState>;
+  output?: unknown;
+  error?: string;
+};
+
+const applyUpdate = (update: any) => {
+  for (const [path, value] of Object.entries(update.$set || {})) {
+    if (path.startsWith('steps.')) {
+      stored.steps[path.slice('steps.'.length)] = value as IWorkflowStepState;
+    } else {
+      (stored as any)[path] = value;
+    }
+  }
+};
+
+const startRun = (
+  steps: IWorkflowStep[],
+  existing: Record<string, IWorkflowStepState> = {},
+) => {
+  stored = { status: 'running', steps: { ...existing } };
+  jest.spyOn(WorkflowRun, 'findOneAndUpdate').mockImplementation((async () =>
+    stored.status === 'running'
+      ? {
+          _id: new mongoose.Types.ObjectId(runId),
+          companyId: new mongoose.Types.ObjectId(),
+          createdBy: new mongoose.Types.ObjectId(),
+          workflowName: 'Test',
+          startedAt: new Date(),
+          definition: { steps },
+          input: { topic: 'pricing' },
+          status: stored.status,
+          steps: { ...stored.steps },
+        }
+      : null) as never);
+  jest.spyOn(WorkflowRun, 'updateOne').mockImplementation((async (
+    filter: any,
+    update: any,
+  ) => {
+    if (filter.status && filter.status !== stored.status) {
+      return { matchedCount: 0 };
+    }
+    applyUpdate(update);
+    return { matchedCount: 1 };
+  }) as never);
+  jest
+    .spyOn(WorkflowRun, 'findById')
+    .mockReturnValue({ lean: async () => stored } as never);
+};
+
+const succeeded = (output: unknown): IWorkflowStepState => ({
+  status: 'succeeded',
+  type: 'assistant',
+  output,
+  startedAt: new Date(),
+  finishedAt: new Date(),
+});
+
+describe('workflow-runtime', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    mockExecuteAssistant.mockReset().mockResolvedValue('draft');
+    mockExecuteAction.mockReset().mockResolvedValue({ result: 'posted' });
+    jest.spyOn(Assistant, 'findOne').mockResolvedValue({ _id: 'a1' } as never);
+    jest.spyOn(CostTracking, 'aggregate').mockResolvedValue([] as never);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('reuses finished steps when a run resumes', async () => {
+    startRun(
+      [
+        { id: 'write', type: 'assistant', assistantId: 'a1', prompt: 'Write' },
+        {
+          id: 'post',
+          type: 'action',
+          action: 'slack.postMessage',
+          args: { text: '{{steps.write.output}}' },
+        },
+      ],
+      { write: succeeded('earlier draft') },
+    );
+
+    await executeWorkflowRun(runId);
+
+    expect(mockExecuteAssistant).not.toHaveBeenCalled();
+    expect(mockExecuteAction).toHaveBeenCalledTimes(1);
+    expect(
+      JSON.parse(mockExecuteAction.mock.calls[0][0].function.arguments),
+    ).toEqual({ text: 'earlier draft' });
+    expect(stored).toMatchObject({ status: 'succeeded', output: 'posted' });
+  });
+
+  it('pauses a parallel step for an approval and resumes once decided', async () => {
+    startRun([
+      {
+        id: 'review',
+        type: 'parallel',
+        branches: [
+          [{ id: 'approve', type: 'approval', message: 'Publish?' }],
+          [{ id: 'draft', type: 'assistant', assistantId: 'a1', prompt: 'Go' }],
+        ],
+      },
+    ]);
+
+    await executeWorkflowRun(runId);
+
+    // The other branch kept running while the approval waited
+    expect(stored.status).toBe('waiting_approval');
+    expect(stored.steps.approve.status).toBe('waiting_approval');
+    expect(stored.steps.draft).toMatchObject({
+      status: 'succeeded',
+      output: 'draft',
+    });
+    expect(stored.steps.review.status).toBe('running');
+
+    // Deciding the approval sets the step and resumes the run
+    stored.steps.approve = {
+      ...succeeded({ approved: true }),
+      type: 'approval',
+    };
+    stored.status = 'running';
+    await executeWorkflowRun(runId);
+
+    expect(mockExecuteAssistant).toHaveBeenCalledTimes(1);
+    expect(stored).toMatchObject({
+      status: 'succeeded',
+      output: [{ approved: true }, 'draft'],
+    });
+  });
+
+  it('resumes a parallel step whose approval was decided while it ran', async () => {
+    startRun([
+      {
+        id: 'review',
+        type: 'parallel',
+        branches: [
+          [{ id: 'approve', type: 'approval', message: 'Publish?' }],
+          [{ id: 'draft', type: 'assistant', assistantId: 'a1', prompt: 'Go' }],
+        ],
+      },
+    ]);
+    mockExecuteAssistant.mockImplementation(async () => {
+      stored.steps.approve = {
+        ...succeeded({ approved: true }),
+        type: 'approval',
+      };
+      return 'draft';
+    });
+
+    await executeWorkflowRun(runId);
+
+    expect(mockExecuteAssistant).toHaveBeenCalledTimes(1);
+    expect(stored.status).toBe('succeeded');
+  });
+
+  it('stops without finishing a run cancelled while a step ran', async () => {
+    startRun([
+      { id: 'write', type: 'assistant', assistantId: 'a1', prompt: 'Write' },
+      { id: 'post', type: 'action', action: 'slack.postMessage' },
+    ]);
+    mockExecuteAssistant.mockImplementation(async () => {
+      stored.status = 'cancelled';
+      return 'draft';
+    });
+
+    await executeWorkflowRun(runId);
+
+    expect(mockExecuteAction).not.toHaveBeenCalled();
+    expect(stored.status).toBe('cancelled');
+    expect(stored.steps.write.status).toBe('running');
+    expect(stored.error).toBeUndefined();
+    expect(console.log).toHaveBeenCalledWith(`[WORKFLOW] Run ${runId} stopped`);
+  });
+});
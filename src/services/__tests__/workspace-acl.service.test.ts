@@ -0,0 +1,195 @@
+import {
+  createWorkspaceAccessChecker,
+  deleteWorkspaceAcl,
+  evaluateWorkspaceAccess,
+  normalizeWorkspacePath,
+  ResolvedWorkspacePrincipal,
+  WorkspaceAclRule,
+} from '../workspace-acl.service';
+import { WorkspaceAcl } from '../../models/WorkspaceAcl';
+
+const mockSharedState = {
+  distributed: true,
+  publish: jest.fn(async () => undefined),
+  subscribe: jest.fn(),
+};
+jest.mock('../shared-state/shared-state', () => ({
+  nodeId: 'this-node',
+  getSharedState: () => mockSharedState,
+}));
+
+const companyId = '64b000000000000000000001';
+const agentId = '64b0000000000000000000a1';
+const teamId = '64b0000000000000000000f1';
+
+const user = (id: string, isAdmin = false): ResolvedWorkspacePrincipal => ({
+  type: 'user',
+  id,
+  companyId,
+  isAdmin,
+  teamIds: [],
+});
+
+const assistant = (id: string, teamIds: string[] = []) =>
+  ({
+    type: 'assistant',
+    id,
+    companyId,
+    isAdmin: false,
+    teamIds,
+  }) as ResolvedWorkspacePrincipal;
+
+const rules: WorkspaceAclRule[] = [
+  {
+    pathPrefix: `/company/${companyId}/hr`,
+    principalType: 'user',
+    principalId: 'alice',
+    permissions: ['read'],
+  },
+  {
+    pathPrefix: `/company/${companyId}/hr`,
+    principalType: 'team',
+    principalId: teamId,
+    permissions: ['write', 'delete'],
+  },
+  {
+    pathPrefix: `/company/${companyId}/hr/salaries`,
+    principalType: 'user',
+    principalId: 'bob',
+    permissions: ['read'],
+  },
+];
+
+describe('workspace ACLs', () => {
+  it('normalizes paths for segment-wise prefix matching', () => {
+    expect(normalizeWorkspacePath('agent//a1/notes/')).toBe('/agent/a1/notes');
+    expect(normalizeWorkspacePath('/')).toBe('/');
+  });
+
+  it('allows everyone on paths without entries', () => {
+    const effective = evaluateWorkspaceAccess(
+      rules,
+      user('carol'),
+      `/company/${companyId}/hr-archive/old.md`,
+    );
+
+    expect(effective.source).toBe('default');
+    expect(effective.permissions).toEqual({
+      read: true,
+      write: true,
+      delete: true,
+    });
+  });
+
+  it('grants only the principals listed on the covering prefix', () => {
+    const path = `company/${companyId}/hr/policy.md`;
+
+    expect(evaluateWorkspaceAccess(rules, user('alice'), path)).toMatchObject({
+      source: 'acl',
+      matchedPrefix: `/company/${companyId}/hr`,
+      permissions: { read: true, write: false, delete: false },
+    });
+    expect(
+      evaluateWorkspaceAccess(rules, user('carol'), path).permissions.read,
+    ).toBe(false);
+    // Team grants apply to the team's assistants, and write implies read
+    expect(
+      evaluateWorkspaceAccess(rules, assistant(agentId, [teamId]), path)
+        .permissions,
+    ).toEqual({ read: true, write: true, delete: true });
+  });
+
+  it('lets the most specific prefix decide', () => {
+    const path = `/company/${companyId}/hr/salaries/2024.csv`;
+
+    expect(
+      evaluateWorkspaceAccess(rules, user('bob'), path).permissions.read,
+    ).toBe(true);
+    expect(
+      evaluateWorkspaceAccess(rules, user('alice'), path).permissions.read,
+    ).toBe(false);
+  });
+
+  it('always allows admins and assistants in their own scope', () => {
+    const protectedRules: WorkspaceAclRule[] = [
+      {
+        pathPrefix: `/agent/${agentId}`,
+        principalType: 'user',
+        principalId: 'alice',
+        permissions: [],
+      },
+    ];
+    const path = `/agent/${agentId}/memory.json`;
+
+    expect(
+      evaluateWorkspaceAccess(protectedRules, user('root', true), path).source,
+    ).toBe('admin');
+    expect(
+      evaluateWorkspaceAccess(protectedRules, assistant(agentId), path),
+    ).toMatchObject({ source: 'owner', permissions: { write: true } });
+    expect(
+      evaluateWorkspaceAccess(protectedRules, user('alice'), path).permissions
+        .read,
+    ).toBe(false);
+  });
+
+  it('limits API keys to the scopes of the paths they touch', async () => {
+    jest
+      .spyOn(WorkspaceAcl, 'find')
+      .mockReturnValue({ select: () => ({ lean: async () => [] }) } as never);
+    const checker = await createWorkspaceAccessChecker(
+      { type: 'user', id: 'carol', companyId },
+      ['workspace:write:agent', 'workspace:read:company'],
+    );
+    const agentPath = `/agent/${agentId}/notes.md`;
+    const companyPath = `/company/${companyId}/notes.md`;
+
+    expect(checker.can(agentPath, 'delete')).toBe(true);
+    expect(checker.can(companyPath, 'read')).toBe(true);
+    expect(checker.can(companyPath, 'write')).toBe(false);
+    expect(() => checker.assert(companyPath, 'delete')).toThrow(
+      'API key lacks permission: workspace:write:company',
+    );
+    // The root belongs to no scope
+    expect(() => checker.assert('/', 'delete')).toThrow(
+      'API key lacks permission: workspace:write:*',
+    );
+    expect(checker.filter([agentPath, `/session/s1/log.md`], 'read')).toEqual([
+      agentPath,
+    ]);
+  });
+
+  it('drops cached rules on every instance when they change', async () => {
+    const otherCompanyId = '64b000000000000000000002';
+    const principal = {
+      type: 'user' as const,
+      id: 'carol',
+      companyId: otherCompanyId,
+    };
+    const find = jest
+      .spyOn(WorkspaceAcl, 'find')
+      .mockReturnValue({ select: () => ({ lean: async () => [] }) } as never);
+    find.mockClear();
+
+    await createWorkspaceAccessChecker(principal);
+    await createWorkspaceAccessChecker(principal);
+    expect(find).toHaveBeenCalledTimes(1);
+
+    // A change on another instance
+    const [[channel, onMessage]] = mockSharedState.subscribe.mock.calls;
+    onMessage({ companyId: otherCompanyId }, 'other-node');
+    await createWorkspaceAccessChecker(principal);
+    expect(find).toHaveBeenCalledTimes(2);
+
+    // A change here
+    jest
+      .spyOn(WorkspaceAcl, 'findOneAndDelete')
+      .mockResolvedValue({ _id: 'acl-1' } as never);
+    await deleteWorkspaceAcl(otherCompanyId, '64b0000000000000000000d1');
+    expect(mockSharedState.publish).toHaveBeenCalledWith(channel, {
+      companyId: otherCompanyId,
+    });
+    await createWorkspaceAccessChecker(principal);
+    expect(find).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,459 @@
+import mongoose from 'mongoose';
+import { Assistant } from '../models/Assistant';
+import { IActionApproval, IInbox, Inbox } from '../models/Inbox';
+import { Message } from '../models/Message';
+import { Session } from '../models/Session';
+import { User } from '../models/User';
+import {
+  ActionContext,
+  ExecutionDetails,
+  FunctionCall,
+} from '../integrations/actions/types';
+import { sanitizeFunctionName } from '../integrations/actions/utils';
+import { executeFunctionCallWithContext } from '../integrations/actions/executors';
+import { publishActionMessage } from '../integrations/actions/publishers';
+import { SupportedLanguage } from './discovery.service';
+import { getIntegrationConfig } from './integration-config.service';
+import { handleSessionMessage } from './assistant/message-handling.service';
+import {
+  AuthorizationError,
+  BadRequestError,
+  NotFoundError,
+} from '../utils/errors';
+
+export const ACTION_APPROVAL_MESSAGE_TYPE = 'action_approval';
+
+/**
+ * Returned to the model in place of the action result while the call waits
+ */
+export interface PendingApprovalResult {
+  status: 'pending_approval';
+  approvalId: string;
+  message: string;
+}
+
+/**
+ * Check an action against approval rules. A rule is a dotted action name
+ * ("jira.deleteTicket"), an integration wildcard ("jira.*") or "*".
+ */
+export function matchesApprovalRule(
+  actionId: string,
+  rules: string[] = [],
+): boolean {
+  const integrationId = actionId.split('.')[0];
+  const functionName = sanitizeFunctionName(actionId);
+  return rules.some(
+    (rule) =>
+      rule === '*' ||
+      rule === `${integrationId}.*` ||
+      sanitizeFunctionName(rule) === functionName,
+  );
+}
+
+/**
+ * Whether an action call must wait for human approval, either because the
+ * executing assistant flags it or the company's integration config does.
+ * Integration config rules may omit the integration prefix.
+ */
+export async function isApprovalRequired(
+  actionId: string,
+  context: ActionContext,
+): Promise<boolean> {
+  const integrationId = actionId.split('.')[0];
+
+  const [assistant, config] = await Promise.all([
+    context.assistantId && mongoose.Types.ObjectId.isValid(context.assistantId)
+      ? Assistant.findById(context.assistantId)
+          .select('approvalRequiredActions')
+          .lean()
+      : null,
+    getIntegrationConfig(context.companyId, integrationId),
+  ]);
+
+  if (matchesApprovalRule(actionId, assistant?.approvalRequiredActions)) {
+    return true;
+  }
+
+  const integrationRules = (config?.approvalRequiredActions || []).map(
+    (rule) => (rule.includes('.') ? rule : `${integrationId}.${rule}`),
+  );
+  return matchesApprovalRule(actionId, integrationRules);
+}
+
+/**
+ * Pause an action call: store it as an `action_approval` inbox item and
+ * mark the action message as pending in the session.
+ */
+export async function requestActionApproval(
+  call: FunctionCall,
+  context: ActionContext,
+  executionDetails: ExecutionDetails,
+): Promise<PendingApprovalResult> {
+  const approval: IActionApproval = {
+    actionId: executionDetails.actionId,
+    functionName: call.function.name,
+    actionTitle: executionDetails.actionTitle,
+    args: executionDetails.args,
+    executionId: executionDetails.id,
+    status: 'pending',
+    language: context.language,
+    userId: context.userId,
+  };
+
+  const inboxItem = await new Inbox({
+    sessionId: context.sessionId,
+    senderId: context.assistantId,
+    companyId: context.companyId,
+    type: 'action_approval',
+    status: 'open',
+    message: `Approval required for ${executionDetails.actionTitle} (${
+      executionDetails.actionId
+    }) with arguments: ${JSON.stringify(executionDetails.args)}`,
+    approval,
+  }).save();
+
+  try {
+    await publishActionMessage(context.sessionId, 'pending_approval', {
+      ...executionDetails,
+      output: { approvalId: inboxItem._id.toString() },
+    });
+  } catch (error) {
+    console.error('Pusher error (non-critical):', error);
+  }
+
+  console.log(
+    `[ACTION_APPROVAL] ${executionDetails.actionId} in session ${context.sessionId} is waiting for approval ${inboxItem._id}`,
+  );
+
+  return {
+    status: 'pending_approval',
+    approvalId: inboxItem._id.toString(),
+    message: `${executionDetails.actionTitle} requires human approval and has not run yet. Tell the user it was submitted for approval; the outcome will be added to the conversation once a person approves or rejects it.`,
+  };
+}
+
+/**
+ * List approval requests for a company, newest first
+ */
+export async function getActionApprovals(
+  companyId: string,
+  status?: IActionApproval['status'],
+): Promise<IInbox[]> {
+  return Inbox.find({
+    companyId,
+    type: 'action_approval',
+    ...(status && { 'approval.status': status }),
+  })
+    .sort({ createdAt: -1 })
+    .lean<IInbox[]>();
+}
+
+/**
+ * Only company admins and the assistant's named approvers may decide an
+ * approval. The user whose conversation requested the action may reject it
+ * but never approve it.
+ */
+async function assertCanDecide(
+  approvalId: string,
+  companyId: string,
+  decision: 'approved' | 'rejected',
+  decidedBy?: string,
+): Promise<void> {
+  if (!mongoose.Types.ObjectId.isValid(approvalId)) {
+    throw new NotFoundError('Approval');
+  }
+  const inboxItem = await Inbox.findOne({
+    _id: approvalId,
+    companyId,
+    type: 'action_approval',
+  })
+    .select('senderId approval.userId')
+    .lean<IInbox>();
+  if (!inboxItem) {
+    throw new NotFoundError('Approval');
+  }
+  if (!decidedBy || !mongoose.Types.ObjectId.isValid(decidedBy)) {
+    throw new AuthorizationError('Deciding an approval requires a user');
+  }
+
+  const isRequester = inboxItem.approval?.userId === decidedBy;
+  if (isRequester && decision === 'approved') {
+    throw new AuthorizationError(
+      'Actions cannot be approved by the user who requested them',
+    );
+  }
+  if (isRequester) {
+    return;
+  }
+
+  const [user, assistant] = await Promise.all([
+    User.findById(decidedBy).select('role').lean(),
+    Assistant.findById(inboxItem.senderId).select('actionApprovers').lean(),
+  ]);
+  const isApprover = (assistant?.actionApprovers || []).some(
+    (approver) => approver.toString() === decidedBy,
+  );
+  if (user?.role !== 'Admin' && !isApprover) {
+    throw new AuthorizationError(
+      "Only admins and the assistant's approvers can decide approvals",
+    );
+  }
+}
+
+/**
+ * Atomically move a pending approval to its decision so it is decided once
+ */
+async function claimPendingApproval(
+  approvalId: string,
+  companyId: string,
+  decision: 'approved' | 'rejected',
+  decidedBy?: string,
+  reason?: string,
+): Promise<IInbox> {
+  if (!mongoose.Types.ObjectId.isValid(approvalId)) {
+    throw new NotFoundError('Approval');
+  }
+
+  const claimed = await Inbox.findOneAndUpdate(
+    {
+      _id: approvalId,
+      companyId,
+      type: 'action_approval',
+      'approval.status': 'pending',
+    },
+    {
+      $set: {
+        'approval.status': decision,
+        'approval.decidedAt': new Date(),
+        ...(decidedBy && { 'approval.decidedBy': decidedBy }),
+        ...(reason && { 'approval.reason': reason }),
+        status: decision === 'approved' ? 'in_progress' : 'closed',
+      },
+    },
+    { new: true },
+  );
+
+  if (claimed) {
+    return claimed;
+  }
+
+  const existing = await Inbox.findOne({
+    _id: approvalId,
+    companyId,
+    type: 'action_approval',
+  });
+  if (!existing) {
+    throw new NotFoundError('Approval');
+  }
+  throw new BadRequestError(
+    `Approval has already been decided (${existing.approval?.status})`,
+  );
+}
+
+/**
+ * Store the outcome as an assistant message whose tool parts replay the
+ * call and its result in later history
+ */
+async function saveApprovalOutcome(
+  inboxItem: IInbox,
+  content: string,
+  output: unknown,
+  isError: boolean,
+): Promise<void> {
+  const approval = inboxItem.approval!;
+  const session = await Session.findById(inboxItem.sessionId);
+  if (!session) {
+    console.error(
+      `[ACTION_APPROVAL] Session ${inboxItem.sessionId} not found, outcome of ${inboxItem._id} not recorded`,
+    );
+    return;
+  }
+
+  const toolCallId = `approval_${inboxItem._id}`;
+  await new Message({
+    sessionId: session._id,
+    sender: 'assistant',
+    content,
+    assistantId: inboxItem.senderId,
+    userId: session.userId,
+    timestamp: new Date(),
+    messageType: ACTION_APPROVAL_MESSAGE_TYPE,
+    data: {
+      approvalId: inboxItem._id.toString(),
+      actionId: approval.actionId,
+      status: approval.status,
+    },
+    toolParts: [
+      {
+        type: 'tool-call',
+        step: 0,
+        toolCallId,
+        toolName: approval.functionName,
+        input: approval.args,
+      },
+      {
+        type: 'tool-result',
+        step: 0,
+        toolCallId,
+        toolName: approval.functionName,
+        output,
+        ...(isError && { isError }),
+      },
+    ],
+  }).save();
+}
+
+/**
+ * Continue the turn the approval paused: the assistant answers with the
+ * outcome in its history. Runs in the background so the decision returns
+ * right away; the reply reaches the session like any other.
+ */
+function resumeAssistantTurn(inboxItem: IInbox, outcome: string): void {
+  const sessionId = inboxItem.sessionId.toString();
+  handleSessionMessage(
+    `[system]: ${outcome} Continue the conversation with the user, taking this outcome into account.`,
+    sessionId,
+    { message_type: 'action-approval-outcome' },
+  ).catch((error) =>
+    console.error(
+      `[ACTION_APPROVAL] Failed to resume session ${sessionId} after ${inboxItem._id}:`,
+      error,
+    ),
+  );
+}
+
+const isErrorResult = (result: unknown): boolean =>
+  typeof result === 'string' && result.startsWith('Error:');
+
+/**
+ * Approve a pending action and run it with the arguments and context it was
+ * proposed with, then resume the assistant. The assistant's current
+ * allowedActions still apply.
+ */
+export async function approveAction(
+  approvalId: string,
+  companyId: string,
+  decidedBy?: string,
+): Promise<IInbox> {
+  await assertCanDecide(approvalId, companyId, 'approved', decidedBy);
+  const inboxItem = await claimPendingApproval(
+    approvalId,
+    companyId,
+    'approved',
+    decidedBy,
+  );
+  const approval = inboxItem.approval!;
+
+  const assistant = await Assistant.findById(inboxItem.senderId);
+  const context: ActionContext = {
+    sessionId: inboxItem.sessionId.toString(),
+    companyId,
+    language: approval.language as SupportedLanguage,
+    userId: approval.userId,
+    assistantId: inboxItem.senderId.toString(),
+    isStateless: false,
+  };
+
+  let result: unknown;
+  let error: string | undefined;
+  if (!assistant) {
+    error = 'Assistant not found';
+  } else {
+    const execution = await executeFunctionCallWithContext(
+      {
+        function: {
+          name: approval.functionName,
+          arguments: JSON.stringify(approval.args),
+        },
+      },
+      context,
+      assistant.allowedActions,
+      { skipApproval: true, executionId: approval.executionId },
+    );
+    result = execution.result;
+    if (execution.error) {
+      error = execution.error.message;
+    } else if (isErrorResult(result)) {
+      error = result as string;
+    }
+  }
+
+  const status = error ? 'failed' : 'executed';
+  const updated = await Inbox.findByIdAndUpdate(
+    inboxItem._id,
+    {
+      $set: {
+        'approval.status': status,
+        ...(error
+          ? { 'approval.error': error }
+          : { 'approval.result': result }),
+        status: 'closed',
+      },
+    },
+    { new: true },
+  );
+
+  const title = approval.actionTitle || approval.actionId;
+  const outcome = error
+    ? `${title} was approved but failed: ${error}`
+    : `${title} was approved and completed.`;
+  await saveApprovalOutcome(updated!, outcome, error ?? result, !!error);
+  resumeAssistantTurn(updated!, outcome);
+
+  console.log(
+    `[ACTION_APPROVAL] Approval ${approvalId} for ${approval.actionId} ${status}`,
+  );
+
+  return updated!;
+}
+
+/**
+ * Reject a pending action. The action never runs; the rejection is recorded
+ * as its result and the assistant resumes with it.
+ */
+export async function rejectAction(
+  approvalId: string,
+  companyId: string,
+  decidedBy?: string,
+  reason?: string,
+): Promise<IInbox> {
+  await assertCanDecide(approvalId, companyId, 'rejected', decidedBy);
+  const inboxItem = await claimPendingApproval(
+    approvalId,
+    companyId,
+    'rejected',
+    decidedBy,
+    reason,
+  );
+  const approval = inboxItem.approval!;
+  const title = approval.actionTitle || approval.actionId;
+  const rejection = `Rejected by a human reviewer${reason ? `: ${reason}` : ''}`;
+
+  try {
+    await publishActionMessage(inboxItem.sessionId.toString(), 'rejected', {
+      id: approval.executionId,
+      actionId: approval.actionId,
+      serviceName: approval.actionId.split('.')[0],
+      actionTitle: title,
+      actionDescription: '',
+      icon: '',
+      args: approval.args,
+      originalActionId: approval.functionName,
+      language: approval.language,
+      input: approval.args,
+      output: { approvalId, reason },
+    });
+  } catch (error) {
+    console.error('Pusher error (non-critical):', error);
+  }
+
+  const outcome = `${title} was not run. ${rejection}.`;
+  await saveApprovalOutcome(inboxItem, outcome, rejection, true);
+  resumeAssistantTurn(inboxItem, outcome);
+
+  console.log(
+    `[ACTION_APPROVAL] Approval ${approvalId} for ${approval.actionId} rejected`,
+  );
+
+  return inboxItem;
+}
@@ -32,6 +32,10 @@ const API_KEY_TO_INTEGRATION: Record<string, string> = {
   nylas_grant_id: 'nylas',
   roomboss_username: 'roomboss',
   roomboss_password: 'roomboss',
+  twilio_account_sid: 'twilio',
+  twilio_auth_token: 'twilio',
+  twilio_phone_number: 'twilio',
+  twilio_whatsapp_number: 'twilio',
 };
 
 export type ApiKeyType =
@@ -56,7 +60,11 @@ export type ApiKeyType =
   | 'nylas_api_key'
   | 'nylas_grant_id'
   | 'roomboss_username'
-  | 'roomboss_password';
+  | 'roomboss_password'
+  | 'twilio_account_sid'
+  | 'twilio_auth_token'
+  | 'twilio_phone_number'
+  | 'twilio_whatsapp_number';
 
 // Initialize cache with a 15-minute TTL (time to live)
 const apiKeyCache = new NodeCache({ stdTTL: 900 });
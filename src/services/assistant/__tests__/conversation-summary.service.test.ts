@@ -0,0 +1,188 @@
+import mongoose from 'mongoose';
+import { ModelMessage } from 'ai';
+import {
+  compactSessionHistory,
+  SUMMARY_MESSAGE_TYPE,
+} from '../conversation-summary.service';
+import { executeWithModelFallback } from '../model-fallback.service';
+import { HistoryEntry } from '../tool-history.service';
+import { IAssistant } from '../../../models/Assistant';
+import { IMessage, Message } from '../../../models/Message';
+import { ISession } from '../../../models/Session';
+import { logCostTracking } from '../../../utils/cost-tracking';
+
+jest.mock('../model-fallback.service', () => ({
+  buildModelChain: () => [],
+  normalizeModelIdentifier: (_provider: string, model: string) => model,
+  executeWithModelFallback: jest.fn(),
+}));
+
+jest.mock('../../../utils/cost-tracking', () => ({
+  calculateCost: () => ({ inputCost: 0.01, outputCost: 0.02, totalCost: 0.03 }),
+  logCostTracking: jest.fn(),
+}));
+
+const mockExecuteWithModelFallback = executeWithModelFallback as jest.Mock;
+const mockLogCostTracking = logCostTracking as jest.Mock;
+
+const session = {
+  _id: new mongoose.Types.ObjectId(),
+  companyId: new mongoose.Types.ObjectId(),
+  userId: new mongoose.Types.ObjectId(),
+} as unknown as ISession;
+
+const assistant = {
+  _id: new mongoose.Types.ObjectId(),
+  llmProvider: 'openai',
+  llmModel: 'gpt-5',
+} as unknown as IAssistant;
+
+// One stored message per minute, each about 30 tokens long
+const turn = (minute: number, role: 'user' | 'assistant'): HistoryEntry => ({
+  source: {
+    _id: new mongoose.Types.ObjectId(),
+    timestamp: new Date(Date.UTC(2026, 0, 1, 12, minute)),
+  } as IMessage,
+  messages: [{ role, content: `turn ${minute} `.repeat(10) } as ModelMessage],
+});
+
+const turns = [1, 2, 3, 4, 5].map((minute) =>
+  turn(minute, minute % 2 ? 'user' : 'assistant'),
+);
+
+const storedSummary = (content: string, summarizedUntil: Date) =>
+  ({
+    _id: new mongoose.Types.ObjectId(),
+    messageType: SUMMARY_MESSAGE_TYPE,
+    content,
+    data: { summarizedUntil },
+  }) as unknown as IMessage;
+
+describe('conversation-summary.service', () => {
+  let saved: any[];
+
+  beforeEach(() => {
+    saved = [];
+    jest.spyOn(Message.prototype, 'save').mockImplementation(function (
+      this: unknown,
+    ) {
+      saved.push(this);
+      return Promise.resolve(this);
+    } as never);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockLogCostTracking.mockReset();
+    mockExecuteWithModelFallback.mockReset().mockResolvedValue({
+      result: {
+        result: {
+          text: 'They discussed turns 1 to 4.',
+          usage: { inputTokens: 120, outputTokens: 10, totalTokens: 130 },
+        },
+        duration: 5,
+      },
+      candidate: { provider: 'openai', model: 'gpt-4.1-mini' },
+      attempt: 1,
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('leaves history that fits in the window alone', async () => {
+    const compacted = await compactSessionHistory(
+      session,
+      assistant,
+      [],
+      turns,
+      1000,
+    );
+
+    expect(compacted.history).toHaveLength(5);
+    expect(compacted.summaryMessages).toEqual([]);
+    expect(mockExecuteWithModelFallback).not.toHaveBeenCalled();
+  });
+
+  it('summarizes the oldest turns once the window is exceeded', async () => {
+    const compacted = await compactSessionHistory(
+      session,
+      assistant,
+      [],
+      turns,
+      100,
+      { apiKeyId: 'key-1', workflowRunId: 'run-1' },
+    );
+
+    // The summary stands in for turns 1-4 and precedes the recent turn
+    expect(compacted.summaryMessages).toEqual([
+      {
+        role: 'system',
+        content:
+          'Summary of the earlier conversation:\nThey discussed turns 1 to 4.',
+      },
+    ]);
+    expect(compacted.history).toEqual(turns[4].messages);
+
+    expect(saved).toHaveLength(1);
+    expect(saved[0].messageType).toBe(SUMMARY_MESSAGE_TYPE);
+    expect(saved[0].data).toMatchObject({
+      summarizedUntil: turns[3].source.timestamp,
+      summarizedThroughMessageId: turns[3].source._id.toString(),
+      summarizedMessageCount: 4,
+    });
+
+    // The summary's cost is attributed like the turn that triggered it
+    expect(mockLogCostTracking).toHaveBeenCalledWith(
+      expect.objectContaining({
+        totalCost: 0.03,
+        metadata: { apiKeyId: 'key-1', workflowRunId: 'run-1' },
+      }),
+    );
+  });
+
+  it('reuses the stored summary on later turns', async () => {
+    const summary = storedSummary(
+      'They discussed turns 1 and 2.',
+      turns[1].source.timestamp,
+    );
+
+    const compacted = await compactSessionHistory(
+      session,
+      assistant,
+      [summary],
+      turns,
+      1000,
+    );
+
+    expect(compacted.summaryMessages).toEqual([
+      {
+        role: 'system',
+        content:
+          'Summary of the earlier conversation:\nThey discussed turns 1 and 2.',
+      },
+    ]);
+    expect(compacted.history).toEqual(
+      turns.slice(2).flatMap((entry) => entry.messages),
+    );
+    expect(mockExecuteWithModelFallback).not.toHaveBeenCalled();
+  });
+
+  it('folds the stored summary into the next one', async () => {
+    const summary = storedSummary(
+      'They discussed turn 1.',
+      turns[0].source.timestamp,
+    );
+
+    const compacted = await compactSessionHistory(
+      session,
+      assistant,
+      [summary],
+      turns,
+      100,
+    );
+
+    expect(compacted.history).toEqual(turns[4].messages);
+    expect(saved[0].data).toMatchObject({
+      summarizedThroughMessageId: turns[3].source._id.toString(),
+      summarizedMessageCount: 3,
+      previousSummaryId: summary._id.toString(),
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { APICallError } from 'ai';
+import {
+  buildModelChain,
+  classifyModelError,
+  executeWithModelFallback,
+  ModelRetryPolicy,
+} from '../model-fallback.service';
+import { resolveProviderModel } from '../provider.service';
+import { logCostTracking } from '../../../utils/cost-tracking';
+
+jest.mock('../provider.service', () => ({
+  resolveProviderModel: jest.fn(),
+}));
+
+jest.mock('../../../utils/cost-tracking', () => ({
+  logCostTracking: jest.fn(),
+}));
+
+const mockResolveProviderModel = resolveProviderModel as jest.MockedFunction<
+  typeof resolveProviderModel
+>;
+const mockLogCostTracking = logCostTracking as jest.MockedFunction<
+  typeof logCostTracking
+>;
+
+const apiError = (statusCode: number, message = 'error') =>
+  new APICallError({
+    message,
+    url: 'https://example.test/v1/chat/completions',
+    requestBodyValues: {},
+    statusCode,
+  });
+
+const noDelay: ModelRetryPolicy = {
+  maxRetries: 1,
+  initialDelayMs: 0,
+  maxDelayMs: 0,
+  backoffMultiplier: 1,
+};
+
+const chain = [
+  { provider: 'anthropic', model: 'claude-sonnet-4-5' },
+  { provider: 'openai', model: 'gpt-5-mini' },
+];
+
+describe('model-fallback.service', () => {
+  beforeEach(() => {
+    mockResolveProviderModel.mockReset();
+    mockResolveProviderModel.mockImplementation(
+      async (_companyId, _provider, model) => model as any,
+    );
+    mockLogCostTracking.mockReset();
+  });
+
+  describe('classifyModelError', () => {
+    it('classifies provider errors', () => {
+      expect(classifyModelError(apiError(429))).toBe('rate_limit');
+      expect(classifyModelError(apiError(503))).toBe('server_error');
+      expect(
+        classifyModelError(
+          apiError(400, "This model's maximum context length is 128000 tokens"),
+        ),
+      ).toBe('context_overflow');
+      expect(
+        classifyModelError(new Error('openai API key not found for company.')),
+      ).toBe('provider_unavailable');
+      expect(classifyModelError(apiError(401, 'Invalid API key'))).toBe(
+        'fatal',
+      );
+    });
+  });
+
+  describe('buildModelChain', () => {
+    it('puts the primary model first and skips duplicates', () => {
+      expect(
+        buildModelChain({
+          llmProvider: 'anthropic',
+          llmModel: 'claude-sonnet-4-5',
+          fallbackModels: [
+            { llmProvider: 'anthropic', llmModel: 'claude-sonnet-4-5' },
+            { llmProvider: 'openai', llmModel: 'gpt-5-mini' },
+            { llmProvider: 'google', llmModel: 'gemini-2.5-flash' },
+          ],
+        }),
+      ).toEqual([
+        { provider: 'anthropic', model: 'claude-sonnet-4-5' },
+        { provider: 'openai', model: 'gpt-5-mini' },
+        { provider: 'google', model: 'models/gemini-2.5-flash' },
+      ]);
+    });
+  });
+
+  describe('executeWithModelFallback', () => {
+    it('retries, then falls over and records each failed attempt', async () => {
+      const run = jest.fn(async (_llm: any, candidate: any) => {
+        if (candidate.provider === 'anthropic') {
+          throw apiError(429, 'Rate limit exceeded');
+        }
+        return 'answer';
+      });
+
+      const fallback = await executeWithModelFallback({
+        companyId: 'company',
+        chain,
+        policy: noDelay,
+        costContext: {
+          companyId: 'company',
+          assistantId: 'assistant',
+          sessionId: 'stateless',
+          userId: 'user',
+        },
+        run,
+      });
+
+      expect(fallback.result).toBe('answer');
+      expect(fallback.candidate.model).toBe('gpt-5-mini');
+      expect(fallback.attempt).toBe(3);
+      expect(fallback.fallbackFrom).toBe('claude-sonnet-4-5');
+      expect(mockLogCostTracking).toHaveBeenCalledTimes(2);
+      expect(mockLogCostTracking.mock.calls[0][0]).toMatchObject({
+        status: 'failed',
+        attempt: 1,
+        model: 'claude-sonnet-4-5',
+        errorType: 'rate_limit',
+      });
+    });
+
+    it('does not fall over on fatal errors', async () => {
+      const run = jest.fn(async () => {
+        throw apiError(401, 'Invalid API key');
+      });
+
+      await expect(
+        executeWithModelFallback({
+          companyId: 'company',
+          chain,
+          policy: noDelay,
+          run,
+        }),
+      ).rejects.toThrow('Invalid API key');
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not fall over once the attempt is committed', async () => {
+      const run = jest.fn(async (_llm: any, _candidate: any, context: any) => {
+        context.markCommitted();
+        throw apiError(503, 'Service unavailable');
+      });
+
+      await expect(
+        executeWithModelFallback({
+          companyId: 'company',
+          chain,
+          policy: noDelay,
+          run,
+        }),
+      ).rejects.toThrow('Service unavailable');
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { getApiKey } from '../../api.key.service';
+import {
+  getLlmProvider,
+  getLlmProviderApiKey,
+  LlmProviderLean,
+} from '../../llm-provider.service';
+import {
+  registerProviderType,
+  resolveProviderModel,
+} from '../provider.service';
+
+jest.mock('../../api.key.service', () => ({
+  getApiKey: jest.fn(),
+}));
+
+jest.mock('../../llm-provider.service', () => ({
+  getLlmProvider: jest.fn(),
+  getLlmProviderApiKey: jest.fn(),
+  buildLlmProviderHeaders: jest.fn(() => ({})),
+}));
+
+const mockGetApiKey = getApiKey as jest.MockedFunction<typeof getApiKey>;
+const mockGetLlmProvider = getLlmProvider as jest.MockedFunction<
+  typeof getLlmProvider
+>;
+const mockGetLlmProviderApiKey = getLlmProviderApiKey as jest.MockedFunction<
+  typeof getLlmProviderApiKey
+>;
+
+const provider = (overrides: Partial<LlmProviderLean> = {}) =>
+  ({
+    key: 'ollama-local',
+    name: 'Ollama',
+    type: 'openai-compatible',
+    baseUrl: 'http://localhost:11434/v1',
+    models: [],
+    enabled: true,
+    ...overrides,
+  }) as LlmProviderLean;
+
+describe('provider.service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("uses the company's key for built-in providers", async () => {
+    mockGetApiKey.mockResolvedValue('sk-openai');
+    const model = await resolveProviderModel('company-1', 'openai', 'gpt-5');
+
+    expect(mockGetApiKey).toHaveBeenCalledWith('company-1', 'openai_api_key');
+    expect(model).toMatchObject({ modelId: 'gpt-5' });
+    expect(mockGetLlmProvider).not.toHaveBeenCalled();
+
+    mockGetApiKey.mockResolvedValue(null);
+    await expect(
+      resolveProviderModel('company-1', 'anthropic', 'claude-sonnet-4-5'),
+    ).rejects.toThrow('anthropic API key not found');
+  });
+
+  it('resolves registered providers through their type', async () => {
+    mockGetLlmProvider.mockResolvedValue(provider());
+    mockGetLlmProviderApiKey.mockResolvedValue(null);
+
+    const model = await resolveProviderModel(
+      'company-1',
+      'ollama-local',
+      'llama3.1',
+    );
+    expect(model).toMatchObject({ modelId: 'llama3.1' });
+    expect(mockGetLlmProvider).toHaveBeenCalledWith(
+      'company-1',
+      'ollama-local',
+    );
+  });
+
+  it('plugs in new provider types', async () => {
+    const factory = jest.fn(() => 'custom-model' as never);
+    registerProviderType('test-protocol', factory);
+    const registered = provider({
+      type: 'test-protocol' as LlmProviderLean['type'],
+    });
+    mockGetLlmProvider.mockResolvedValue(registered);
+    mockGetLlmProviderApiKey.mockResolvedValue('sk-custom');
+
+    await expect(
+      resolveProviderModel('company-1', 'ollama-local', 'm1'),
+    ).resolves.toBe('custom-model');
+    expect(factory).toHaveBeenCalledWith(registered, 'sk-custom', 'm1');
+  });
+
+  it('rejects unknown, disabled and unsupported providers', async () => {
+    mockGetLlmProvider.mockResolvedValue(null);
+    await expect(
+      resolveProviderModel('company-1', 'missing', 'm1'),
+    ).rejects.toThrow('"missing" is not registered');
+
+    mockGetLlmProvider.mockResolvedValue(provider({ enabled: false }));
+    await expect(
+      resolveProviderModel('company-1', 'ollama-local', 'm1'),
+    ).rejects.toThrow('is disabled');
+
+    mockGetLlmProvider.mockResolvedValue(
+      provider({ type: 'grpc' as LlmProviderLean['type'] }),
+    );
+    await expect(
+      resolveProviderModel('company-1', 'ollama-local', 'm1'),
+    ).rejects.toThrow('Unsupported LLM provider type "grpc"');
+  });
+});
@@ -0,0 +1,108 @@
+import { IMessage } from '../../../models/Message';
+import {
+  buildHistoryEntries,
+  extractToolParts,
+  DEFAULT_TOOL_HISTORY_POLICY,
+} from '../tool-history.service';
+
+const message = (fields: Partial<IMessage>): IMessage =>
+  ({ timestamp: new Date(), ...fields }) as IMessage;
+
+const steps = [
+  {
+    content: [
+      {
+        type: 'tool-call',
+        toolCallId: 'call_1',
+        toolName: 'getWeather',
+        input: { city: 'Paris' },
+      },
+      {
+        type: 'tool-result',
+        toolCallId: 'call_1',
+        toolName: 'getWeather',
+        output: { tempC: 21 },
+      },
+    ],
+  },
+  { content: [{ type: 'text', text: 'It is 21°C in Paris.' }] },
+];
+
+describe('tool-history.service', () => {
+  it('extracts tool calls and results per step', () => {
+    expect(extractToolParts(steps)).toEqual([
+      {
+        type: 'tool-call',
+        step: 0,
+        toolCallId: 'call_1',
+        toolName: 'getWeather',
+        input: { city: 'Paris' },
+      },
+      {
+        type: 'tool-result',
+        step: 0,
+        toolCallId: 'call_1',
+        toolName: 'getWeather',
+        output: { tempC: 21 },
+      },
+    ]);
+  });
+
+  it('replays tool activity as tool-call and tool messages', () => {
+    const dbMessages = [
+      message({ sender: 'user', content: 'Weather in Paris?' }),
+      message({
+        sender: 'assistant',
+        content: 'It is 21°C in Paris.',
+        toolParts: extractToolParts(steps),
+      }),
+    ];
+
+    const history = buildHistoryEntries(dbMessages, {
+      policy: DEFAULT_TOOL_HISTORY_POLICY,
+      availableTools: new Set(['getWeather']),
+    }).flatMap((entry) => entry.messages);
+
+    expect(history.map((m) => m.role)).toEqual([
+      'user',
+      'assistant',
+      'tool',
+      'assistant',
+    ]);
+    expect(history[2].content).toEqual([
+      {
+        type: 'tool-result',
+        toolCallId: 'call_1',
+        toolName: 'getWeather',
+        output: { type: 'json', value: { tempC: 21 } },
+      },
+    ]);
+  });
+
+  it('applies the policy and skips tools that are no longer available', () => {
+    const dbMessages = [
+      message({
+        sender: 'assistant',
+        content: 'It is 21°C in Paris.',
+        toolParts: extractToolParts(steps),
+      }),
+    ];
+
+    const callsOnly = buildHistoryEntries(dbMessages, {
+      policy: { ...DEFAULT_TOOL_HISTORY_POLICY, mode: 'calls' },
+      availableTools: new Set(['getWeather']),
+    })[0].messages;
+    expect((callsOnly[1].content as any[])[0].output).toEqual({
+      type: 'text',
+      value: '[output omitted]',
+    });
+
+    const unavailable = buildHistoryEntries(dbMessages, {
+      policy: DEFAULT_TOOL_HISTORY_POLICY,
+      availableTools: new Set(),
+    })[0].messages;
+    expect(unavailable).toEqual([
+      { role: 'assistant', content: 'It is 21°C in Paris.' },
+    ]);
+  });
+});
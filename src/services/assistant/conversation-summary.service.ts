@@ -0,0 +1,311 @@
+import mongoose from 'mongoose';
+import { generateText, ModelMessage } from 'ai';
+import { IAssistant } from '../../models/Assistant';
+import { IMessage, Message } from '../../models/Message';
+import { ISession } from '../../models/Session';
+import { ProviderKey } from '../../types/assistant.types';
+import { countMessageTokens, splitForSummary } from '../../utils/tokenWindow';
+import {
+  calculateCost,
+  logCostTracking,
+  CostTrackingInfo,
+} from '../../utils/cost-tracking';
+import {
+  buildModelChain,
+  executeWithModelFallback,
+  normalizeModelIdentifier,
+  ModelCandidate,
+} from './model-fallback.service';
+import { HistoryEntry } from './tool-history.service';
+
+export const SUMMARY_MESSAGE_TYPE = 'summary';
+
+// Share of the window kept verbatim after compaction. The rest of the
+// budget leaves room to grow before the next summary is needed.
+const RECENT_WINDOW_RATIO = 0.5;
+
+const SUMMARY_MAX_OUTPUT_TOKENS = 1024;
+
+// Tool output is abbreviated in the summarization prompt
+const SUMMARY_TOOL_OUTPUT_CHARS = 500;
+
+// Cheap models used when the assistant has no summaryLlmModel
+const DEFAULT_SUMMARY_MODELS: Record<string, string> = {
+  openai: 'gpt-4.1-mini',
+  anthropic: 'claude-haiku-4-5',
+  google: 'gemini-2.5-flash-lite',
+};
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+Merge the previous summary (if any) with the new conversation turns into one updated summary.
+Keep facts, names, numbers, decisions, user preferences, commitments and open questions.
+Drop greetings and small talk. Write in the conversation's language, in concise plain prose or bullet points.
+Return only the summary.`;
+
+/**
+ * Stored in Message.data of a summary message
+ */
+export interface SummaryMessageData {
+  summarizedUntil: Date; // Timestamp of the last message folded into the summary
+  summarizedThroughMessageId: string;
+  summarizedMessageCount: number; // Messages folded in by this compaction
+  previousSummaryId?: string;
+  provider: ProviderKey;
+  model: string;
+}
+
+export interface CompactedHistory {
+  history: ModelMessage[]; // Turns not covered by the summary
+  summaryMessages: ModelMessage[]; // Summary to prepend to the window (empty if none)
+}
+
+function toSummaryModelMessage(summary: string): ModelMessage {
+  return {
+    role: 'system',
+    content: `Summary of the earlier conversation:\n${summary}`,
+  };
+}
+
+function formatMessage(message: ModelMessage): string {
+  if (typeof message.content === 'string') {
+    return `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`;
+  }
+  return message.content
+    .map((part: any) => {
+      if (part.type === 'tool-call') {
+        return `Assistant called ${part.toolName}(${JSON.stringify(part.input)})`;
+      }
+      if (part.type === 'tool-result') {
+        const value =
+          typeof part.output?.value === 'string'
+            ? part.output.value
+            : JSON.stringify(part.output?.value ?? '');
+        return `Result of ${part.toolName}: ${value.slice(0, SUMMARY_TOOL_OUTPUT_CHARS)}`;
+      }
+      return part.type === 'text' ? part.text : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+function formatTurns(entries: HistoryEntry[]): string {
+  return entries
+    .flatMap((entry) => entry.messages)
+    .map(formatMessage)
+    .join('\n\n');
+}
+
+/**
+ * Model chain used for summaries: the configured summary model (or the
+ * provider's cheap default), then the assistant's own chain as fallback.
+ */
+function buildSummaryChain(assistant: IAssistant): ModelCandidate[] {
+  const provider = assistant.summaryLlmProvider || assistant.llmProvider;
+  const model =
+    assistant.summaryLlmModel ||
+    DEFAULT_SUMMARY_MODELS[provider] ||
+    assistant.llmModel;
+
+  const chain: ModelCandidate[] = [];
+  if (model) {
+    chain.push({ provider, model: normalizeModelIdentifier(provider, model) });
+  }
+  for (const candidate of buildModelChain(assistant)) {
+    const duplicate = chain.some(
+      (c) => c.provider === candidate.provider && c.model === candidate.model,
+    );
+    if (!duplicate) {
+      chain.push(candidate);
+    }
+  }
+  return chain;
+}
+
+async function summarizeTurns(
+  session: ISession,
+  assistant: IAssistant,
+  previousSummary: string | undefined,
+  entries: HistoryEntry[],
+  costMetadata?: Record<string, any>,
+): Promise<{ text: string; candidate: ModelCandidate }> {
+  const companyId = session.companyId.toString();
+  const costContext = {
+    companyId,
+    assistantId: assistant._id.toString(),
+    sessionId: session._id.toString(),
+    userId: session.userId?.toString() || 'unknown',
+    requestType: 'non-streaming' as const,
+    metadata: costMetadata,
+  };
+
+  const prompt = [
+    previousSummary ? `Previous summary:\n${previousSummary}` : null,
+    `New conversation turns:\n${formatTurns(entries)}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const fallback = await executeWithModelFallback({
+    companyId,
+    chain: buildSummaryChain(assistant),
+    costContext,
+    logPrefix: '[CONVERSATION_SUMMARY]',
+    run: async (llm) => {
+      const startTime = Date.now();
+      const result = await generateText({
+        model: llm,
+        system: SUMMARY_SYSTEM_PROMPT,
+        prompt,
+        maxRetries: 0,
+        maxOutputTokens: SUMMARY_MAX_OUTPUT_TOKENS,
+      });
+      return { result, duration: Date.now() - startTime };
+    },
+  });
+
+  const { result, duration } = fallback.result;
+  if (result.usage) {
+    const costs = calculateCost(
+      fallback.candidate.model,
+      result.usage.inputTokens || 0,
+      result.usage.outputTokens || 0,
+    );
+    const costInfo: CostTrackingInfo = {
+      ...costContext,
+      provider: fallback.candidate.provider,
+      model: fallback.candidate.model,
+      inputTokens: result.usage.inputTokens || 0,
+      outputTokens: result.usage.outputTokens || 0,
+      totalTokens:
+        result.usage.totalTokens ||
+        (result.usage.inputTokens || 0) + (result.usage.outputTokens || 0),
+      inputCost: costs.inputCost,
+      outputCost: costs.outputCost,
+      totalCost: costs.totalCost,
+      timestamp: new Date(),
+      duration,
+      attempt: fallback.attempt,
+      fallbackFrom: fallback.fallbackFrom,
+    };
+    await logCostTracking(costInfo);
+  }
+
+  const text = result.text.trim();
+  if (!text) {
+    throw new Error('Summary model returned an empty response');
+  }
+  return { text, candidate: fallback.candidate };
+}
+
+/**
+ * Build the history for an assistant in `summarize` context mode.
+ * Turns already covered by the latest stored summary are replaced by that
+ * summary. When the remaining turns no longer fit in maxTokens, the oldest
+ * ones are compacted into a new summary message stored on the session.
+ * If summarization fails, the uncompacted history is returned and the
+ * caller's trimToWindow truncates it as in `truncate` mode. The summary's
+ * cost is recorded with the caller's `costMetadata`, like the turn's own.
+ */
+export async function compactSessionHistory(
+  session: ISession,
+  assistant: IAssistant,
+  dbMessages: IMessage[],
+  historyEntries: HistoryEntry[],
+  maxTokens: number,
+  costMetadata?: Record<string, any>,
+): Promise<CompactedHistory> {
+  const latestSummary = [...dbMessages]
+    .reverse()
+    .find((msg) => msg.messageType === SUMMARY_MESSAGE_TYPE);
+  const summarizedUntil = latestSummary?.data?.summarizedUntil
+    ? new Date(latestSummary.data.summarizedUntil)
+    : undefined;
+
+  const entries = historyEntries.filter(
+    (entry) => !summarizedUntil || entry.source.timestamp > summarizedUntil,
+  );
+  const history = entries.flatMap((entry) => entry.messages);
+
+  const currentSummary = latestSummary?.content;
+  const summaryMessages = currentSummary
+    ? [toSummaryModelMessage(currentSummary)]
+    : [];
+
+  const totalTokens = [...summaryMessages, ...history].reduce(
+    (sum, m) => sum + countMessageTokens(m),
+    0,
+  );
+  if (totalTokens <= maxTokens) {
+    return { history, summaryMessages };
+  }
+
+  const { older } = splitForSummary(
+    history,
+    Math.floor(maxTokens * RECENT_WINDOW_RATIO),
+  );
+
+  // Snap the split to a stored-message boundary so a tool call is never
+  // separated from its result
+  let olderEntryCount = 0;
+  let olderMessageCount = 0;
+  while (
+    olderEntryCount < entries.length - 1 &&
+    olderMessageCount < older.length
+  ) {
+    olderMessageCount += entries[olderEntryCount].messages.length;
+    olderEntryCount++;
+  }
+  if (olderEntryCount === 0) {
+    return { history, summaryMessages };
+  }
+
+  const olderEntries = entries.slice(0, olderEntryCount);
+  const recent = entries
+    .slice(olderEntryCount)
+    .flatMap((entry) => entry.messages);
+  const lastSummarized = olderEntries[olderEntries.length - 1].source;
+
+  try {
+    const { text, candidate } = await summarizeTurns(
+      session,
+      assistant,
+      currentSummary,
+      olderEntries,
+      costMetadata,
+    );
+
+    const data: SummaryMessageData = {
+      summarizedUntil: lastSummarized.timestamp,
+      summarizedThroughMessageId: lastSummarized._id.toString(),
+      summarizedMessageCount: olderEntries.length,
+      previousSummaryId: latestSummary?._id.toString(),
+      provider: candidate.provider,
+      model: candidate.model,
+    };
+
+    await new Message({
+      sessionId: new mongoose.Types.ObjectId(String(session._id)),
+      sender: 'system',
+      content: text,
+      assistantId: new mongoose.Types.ObjectId(String(assistant._id)),
+      userId: new mongoose.Types.ObjectId(String(session.userId)),
+      timestamp: new Date(),
+      messageType: SUMMARY_MESSAGE_TYPE,
+      data,
+    }).save();
+
+    console.log(
+      `[CONVERSATION_SUMMARY] Compacted ${olderEntries.length} messages for session ${session._id} using ${candidate.provider}/${candidate.model}`,
+    );
+
+    return {
+      history: recent,
+      summaryMessages: [toSummaryModelMessage(text)],
+    };
+  } catch (error: any) {
+    console.error(
+      `[CONVERSATION_SUMMARY] Failed to summarize session ${session._id}, falling back to truncation: ${error.message}`,
+    );
+    return { history, summaryMessages };
+  }
+}
@@ -8,8 +8,12 @@ import { getMessagesBySessionId } from '../../services/message.service';
 import { createFunctionFactory } from '../../integrations/actions/loaders';
 import { executeFunctionCall } from '../../integrations/actions/executors';
 import { FunctionCall } from '../../integrations/actions/types';
-import { getApiKey } from '../api.key.service';
 import { downloadFile } from '../file-downloader.service';
+import { transcribeAudio } from '../speech.recognition.service';
+import {
+  detectDocumentFormat,
+  extractDocument,
+} from '../document-extraction/document-extractor';
 import axios from 'axios'; // Added axios for fetching image data
 import {
   calculateCost,
@@ -31,14 +35,37 @@ import {
   Output,
 } from 'ai';
 import { z, ZodType } from 'zod';
-import { trimToWindow } from '../../utils/tokenWindow';
-import { getProvider, MODEL_CONFIGS } from './provider.service';
+import { trimToWindow, countMessageTokens } from '../../utils/tokenWindow';
+import { compactSessionHistory } from './conversation-summary.service';
+import { emitMessageCreated } from '../webhook.service';
+import {
+  buildHistoryEntries,
+  extractToolParts,
+  getToolHistoryPolicy,
+} from './tool-history.service';
+import { MODEL_CONFIGS } from './provider.service';
+import {
+  buildModelChain,
+  getModelRetryPolicy,
+  executeWithModelFallback,
+  waitForStreamStart,
+  ModelCandidate,
+  ModelAttemptCostContext,
+} from './model-fallback.service';
+import { ProviderKey } from '../../types/assistant.types';
+import { buildBudgetCostMetadata, enforceBudgets } from '../budget.service';
+import {
+  forwardToHandoff,
+  withHandoffSummary,
+} from '../session-handoff.service';
 // import util from 'node:util'; // No longer needed after debug log removal
 
 // In-memory cache for toolsForSdk
 // Key format: `${assistantId}-${userId}-${allowedActionsHash}`
 // userId is included because tools close over the ActionContext at creation time,
 // so each user needs their own cached tools with their own context.
+// Stays per instance (tools are closures and cannot be shared); the key covers
+// everything the tools depend on, so instances never serve conflicting tools.
 const toolsCache = new Map<string, Record<string, Tool<any, any>>>();
 const TOOLS_CACHE_MAX_SIZE = 500; // Limit cache size to prevent unbounded memory growth
 
@@ -188,6 +215,21 @@ export const handleSessionMessage = async (
     `[handleSessionMessage] Session ${sessionId} fetched successfully.`,
   );
 
+  // While a human operator has taken over, the assistant stays silent and
+  // the message goes to the operator; their replies reach the session directly
+  if (session.handoff) {
+    await forwardToHandoff(session, userInput, {
+      ...(metadata || {}),
+      attachments: attachments?.map((att) => ({
+        fileName: att.fileName,
+        mimeType: att.mimeType,
+        fileId: att.fileId,
+        url: att.url,
+      })),
+    });
+    return '';
+  }
+
   console.log(
     `[handleSessionMessage] About to fetch assistant ${session.assistantId}`,
   );
@@ -212,6 +254,20 @@ export const handleSessionMessage = async (
   console.log(
     `[handleSessionMessage] Assistant ${assistant._id} fetched successfully. Provider='${assistant.llmProvider}', Model='${assistant.llmModel}'`,
   );
+
+  // Hard budget limits are enforced before anything is stored or sent to
+  // a provider; `apiKeyId` is set by routes authenticated with an API key
+  const budgetDecision = await enforceBudgets({
+    companyId: session.companyId.toString(),
+    assistantId: assistant._id.toString(),
+    userId: session.userId?.toString(),
+    teamIds: assistant.teams?.map(String),
+    apiKeyId: metadata?.apiKeyId,
+  });
+  const costMetadata = buildBudgetCostMetadata(
+    metadata?.apiKeyId,
+    budgetDecision,
+  );
   // console.log(`Fetched assistant details: Provider='${assistant.llmProvider}', Model='${assistant.llmModel}'`);
   const providerKey = assistant.llmProvider;
   let processedUserInput = userInput;
@@ -262,33 +318,58 @@ export const handleSessionMessage = async (
           (userMessageContentParts[0] as TextPart).text +=
             `\n\n[Could not load image: ${attachment.fileName}]`;
         }
+      } else if (
+        attachment.mimeType.startsWith('audio/') &&
+        (attachment.url || attachment.data)
+      ) {
+        // Voice notes and recordings are passed on as their transcript
+        try {
+          const audioBuffer = attachment.data
+            ? Buffer.from(attachment.data, 'base64')
+            : await downloadFile(attachment.url!);
+          const transcript = await transcribeAudio(
+            session.companyId.toString(),
+            audioBuffer,
+            { mimeType: attachment.mimeType, filename: attachment.fileName },
+          );
+          console.log(
+            `[AUDIO_TRANSCRIBED] ${attachment.fileName}: ${transcript.text.length} chars via ${transcript.provider}`,
+          );
+          (userMessageContentParts[0] as TextPart).text +=
+            `\n\n--- Transcript of ${attachment.fileName} ---\n${transcript.text}\n--- End of Transcript: ${attachment.fileName} ---`;
+        } catch (error) {
+          console.error(
+            `[AUDIO_TRANSCRIPTION_FAILED] ${attachment.fileName}:`,
+            error,
+          );
+          (userMessageContentParts[0] as TextPart).text +=
+            `\n\n[Could not transcribe audio attachment: ${attachment.fileName}]`;
+        }
       } else if (attachment.url || attachment.data) {
         // Other non-image files (TXT, CSV, PDF, etc.)
         const isCSV =
           attachment.mimeType.includes('csv') ||
           attachment.fileName.toLowerCase().endsWith('.csv');
         console.log(
-          `[FILE_TYPE] Processing ${isCSV ? 'CSV' : 'text'} file: ${
+          `[FILE_TYPE] Processing ${isCSV ? 'CSV' : 'document'} file: ${
             attachment.fileName
           }`,
         );
 
         try {
-          let fileContent: string;
+          let fileBuffer: Buffer;
           const downloadStart = Date.now();
 
           if (attachment.data) {
             // Handle base64 encoded file data
-            const fileBuffer = Buffer.from(attachment.data, 'base64');
-            fileContent = fileBuffer.toString('utf-8');
+            fileBuffer = Buffer.from(attachment.data, 'base64');
             console.log(
               `[FILE_DECODED] Decoded base64 data: ${fileBuffer.length} bytes`,
             );
           } else if (attachment.url) {
             // Handle URL-based file (existing behavior)
             console.log(`[FILE_DOWNLOAD_START] Downloading from URL...`);
-            const fileBuffer = await downloadFile(attachment.url);
-            fileContent = fileBuffer.toString('utf-8');
+            fileBuffer = await downloadFile(attachment.url);
             console.log(
               `[FILE_DOWNLOADED] Downloaded ${fileBuffer.length} bytes in ${
                 Date.now() - downloadStart
@@ -298,6 +379,23 @@ export const handleSessionMessage = async (
             throw new Error('File attachment must have either data or url');
           }
 
+          // Convert PDF/DOCX/PPTX/HTML to text instead of decoding binary
+          // content as UTF-8
+          const documentSource = {
+            fileName: attachment.fileName,
+            mimeType: attachment.mimeType,
+          };
+          if (!detectDocumentFormat(fileBuffer, documentSource)) {
+            (userMessageContentParts[0] as TextPart).text +=
+              `\n\n[Unsupported file type for attached file: ${attachment.fileName}]`;
+            continue;
+          }
+          const document = await extractDocument(fileBuffer, documentSource);
+          const fileContent = document.text;
+          console.log(
+            `[FILE_EXTRACTED] Format: ${document.format}, Sections: ${document.sections.length}, Tables: ${document.tables.length}`,
+          );
+
           if (fileContent) {
             const contentLength = fileContent.length;
             const lineCount = fileContent.split('\n').length;
@@ -370,6 +468,7 @@ export const handleSessionMessage = async (
   console.log(
     `[handleSessionMessage] User message saved for session ${sessionId}`,
   );
+  emitMessageCreated(session.companyId, userMessage);
 
   console.log(
     `[handleSessionMessage] About to fetch DB messages for session ${sessionId}`,
@@ -378,16 +477,6 @@ export const handleSessionMessage = async (
   console.log(
     `[handleSessionMessage] Fetched ${dbMessages.length} DB messages for session ${sessionId}`,
   );
-  const history: ModelMessage[] = dbMessages
-    .filter(
-      (msg) =>
-        (msg.sender === 'user' || msg.sender === 'assistant') &&
-        typeof msg.content === 'string',
-    )
-    .map((msg: IMessage) => ({
-      role: msg.sender as 'user' | 'assistant',
-      content: msg.content as string,
-    }));
 
   // ActionContext must include userId - tools like getCurrentUser depend on it
   const actionContext = {
@@ -626,30 +715,55 @@ export const handleSessionMessage = async (
     toolsCache.set(cacheKey, toolsForSdk);
   }
 
-  let modelIdentifier = assistant.llmModel || 'gpt-4.1-mini';
-  console.log(
-    `[handleSessionMessage] About to get API key for provider ${providerKey} and company ${session.companyId.toString()}`,
-  );
-  const llmApiKey = await getApiKey(
-    session.companyId.toString(),
-    `${providerKey}_api_key`,
+  // Replay text turns plus recent tool calls/results per the assistant's policy
+  const historyEntries = buildHistoryEntries(dbMessages, {
+    policy: getToolHistoryPolicy(assistant),
+    availableTools: new Set(Object.keys(toolsForSdk)),
+  });
+  let history: ModelMessage[] = historyEntries.flatMap(
+    (entry) => entry.messages,
   );
-  if (!llmApiKey) {
-    console.error(
-      `[handleSessionMessage] ${providerKey} API key not found for company ${session.companyId.toString()}.`,
+
+  // Use the assistant's configured maxTokens for input window
+  const maxPromptTokens: number = assistant.maxTokens || 25000;
+
+  // In summarize mode older turns are replaced by a stored rolling summary
+  let summaryMessages: ModelMessage[] = [];
+  if (assistant.contextMode === 'summarize') {
+    const compacted = await compactSessionHistory(
+      session,
+      assistant,
+      dbMessages,
+      historyEntries,
+      maxPromptTokens,
+      costMetadata,
     );
-    throw new Error(`${providerKey} API key not found for company.`);
+    history = compacted.history;
+    summaryMessages = compacted.summaryMessages;
   }
-  console.log(`[handleSessionMessage] API key for ${providerKey} obtained.`);
 
-  if (
-    providerKey === 'google' &&
-    modelIdentifier &&
-    !modelIdentifier.startsWith('models/')
-  ) {
-    modelIdentifier = `models/${modelIdentifier}`;
-    // console.log(`Prefixed Google model ID: ${modelIdentifier}`);
-  }
+  // Configured model first, then the assistant's fallback models.
+  // Providers are resolved per attempt inside executeWithModelFallback.
+  // A budget over its hard limit may swap in a cheaper model instead.
+  const modelChain = buildModelChain(
+    budgetDecision.downgradeModel
+      ? { ...budgetDecision.downgradeModel, fallbackModels: [] }
+      : assistant,
+  );
+  const retryPolicy = getModelRetryPolicy(assistant);
+  const costContext: ModelAttemptCostContext = {
+    companyId: session.companyId?.toString() || 'unknown',
+    assistantId: assistant._id.toString(),
+    sessionId: sessionId.toString(),
+    userId: session.userId?.toString() || 'unknown',
+    metadata: costMetadata,
+  };
+
+  // Updated once a model answers
+  let modelIdentifier = modelChain[0].model;
+  let answeringProvider: ProviderKey = providerKey;
+  let modelAttempt = 1;
+  let fallbackFrom: string | undefined;
 
   // console.log(`Using LLM provider: ${providerKey}, model: ${modelIdentifier} for session ${sessionId}`);
   const shouldStream = metadata?.['X-Experimental-Stream'] === 'true';
@@ -660,9 +774,9 @@ export const handleSessionMessage = async (
   console.log(
     `[handleSessionMessage] About to process system prompt template for session ${sessionId}`,
   );
-  const systemPrompt = await processTemplate(
-    assistant.llmPrompt,
-    sessionId.toString(),
+  const systemPrompt = withHandoffSummary(
+    await processTemplate(assistant.llmPrompt, sessionId.toString()),
+    dbMessages,
   );
   console.log(
     `[handleSessionMessage] System prompt processed for session ${sessionId}`,
@@ -706,19 +820,21 @@ export const handleSessionMessage = async (
   //   }))
   // );
 
-  // Use the assistant's configured maxTokens for input window
-  const maxPromptTokens: number = assistant.maxTokens || 25000;
+  const summaryTokens = summaryMessages.reduce(
+    (sum, m) => sum + countMessageTokens(m),
+    0,
+  );
 
   console.log(
     `[TOKEN_WINDOW] Starting token window trimming. Max tokens: ${maxPromptTokens}, Messages: ${messagesForLlm.length}`,
   );
   const trimStart = Date.now();
 
-  const {
-    trimmedMessages: baseTrimmedMessages,
-    tokensInPrompt: actualTokensInPrompt,
-  } = trimToWindow(messagesForLlm, maxPromptTokens);
-  let trimmedMessages = baseTrimmedMessages;
+  const { trimmedMessages, tokensInPrompt: windowTokens } = trimToWindow(
+    messagesForLlm,
+    maxPromptTokens - summaryTokens,
+  );
+  const actualTokensInPrompt = windowTokens + summaryTokens;
 
   console.log(
     `[TOKEN_WINDOW_COMPLETE] Trimming took ${
@@ -752,13 +868,16 @@ export const handleSessionMessage = async (
 
   // console.log(`Manual trim: Target tokens: ${maxPromptTokens}, Actual: ${actualTokensInPrompt}, Original msgs: ${messagesForLlm.length}, Trimmed msgs: ${trimmedMessages.length}`);
 
-  if (providerKey === 'anthropic') {
-    // console.log('Anthropic provider: Prepending system prompt to messages array as well.');
-    trimmedMessages = [
-      { role: 'system', content: systemPrompt },
-      ...trimmedMessages.filter((m) => m.role !== 'system'),
-    ];
-  }
+  // Anthropic also gets the system prompt prepended to the messages array.
+  // The conversation summary (summarize mode) follows the system prompt.
+  const messagesForCandidate = (candidate: ModelCandidate): ModelMessage[] =>
+    candidate.provider === 'anthropic'
+      ? [
+          { role: 'system', content: systemPrompt },
+          ...summaryMessages,
+          ...trimmedMessages.filter((m) => m.role !== 'system'),
+        ]
+      : [...summaryMessages, ...trimmedMessages];
 
   let aggregatedResponse = '';
   let finalLlmResult: Awaited<ReturnType<typeof generateText>> | undefined;
@@ -772,8 +891,6 @@ export const handleSessionMessage = async (
           : 'DISABLED (check metadata or diagnostic override)'
       }`,
     );
-    const llm = getProvider(providerKey, modelIdentifier, llmApiKey as string);
-
     const slimToolsForIntent = (
       input: string,
       allTools: Record<string, Tool<any, any>>,
@@ -788,23 +905,6 @@ export const handleSessionMessage = async (
     );
 
     if (shouldStream) {
-      const streamCallOptions: Parameters<typeof streamText>[0] = {
-        model: llm,
-        messages: trimmedMessages, // This now contains correctly formatted multimodal messages
-        tools: relevantTools,
-        maxRetries: 2,
-        stopWhen: stepCountIs(10), // Stop after 10 tool steps
-      };
-      if (systemPrompt !== undefined) {
-        streamCallOptions.system = systemPrompt;
-      }
-
-      // Add provider-specific options from model config
-      const modelConfig = MODEL_CONFIGS[modelIdentifier];
-      if (modelConfig?.providerOptions) {
-        Object.assign(streamCallOptions, modelConfig.providerOptions);
-      }
-
       let streamResult: any;
       let streamErrorOccurred = false;
       let streamErrorMessage = '';
@@ -819,12 +919,48 @@ export const handleSessionMessage = async (
         );
 
         const streamStartTime = Date.now();
-        streamResult = await streamText(streamCallOptions);
+        // Retries are handled by the fallback chain, not the SDK. Each attempt
+        // waits for the stream's first output so a failing model can be
+        // replaced before anything reaches the client.
+        const fallback = await executeWithModelFallback({
+          companyId: session.companyId.toString(),
+          chain: modelChain,
+          policy: retryPolicy,
+          costContext: { ...costContext, requestType: 'streaming' },
+          logPrefix: '[handleSessionMessage]',
+          run: async (llm, candidate) => {
+            const streamCallOptions: Parameters<typeof streamText>[0] = {
+              model: llm,
+              messages: messagesForCandidate(candidate), // This now contains correctly formatted multimodal messages
+              tools: relevantTools,
+              maxRetries: 0,
+              stopWhen: stepCountIs(10), // Stop after 10 tool steps
+            };
+            if (systemPrompt !== undefined) {
+              streamCallOptions.system = systemPrompt;
+            }
+
+            // Add provider-specific options from model config
+            const modelConfig = MODEL_CONFIGS[candidate.model];
+            if (modelConfig?.providerOptions) {
+              Object.assign(streamCallOptions, modelConfig.providerOptions);
+            }
+
+            const attemptStream = streamText(streamCallOptions);
+            await waitForStreamStart(attemptStream);
+            return attemptStream;
+          },
+        });
+        streamResult = fallback.result;
+        modelIdentifier = fallback.candidate.model;
+        answeringProvider = fallback.candidate.provider;
+        modelAttempt = fallback.attempt;
+        fallbackFrom = fallback.fallbackFrom;
 
         console.log(
-          `[AI_STREAM_INITIATED] Stream created in ${
+          `[AI_STREAM_INITIATED] Stream started in ${
             Date.now() - streamStartTime
-          }ms. Waiting for response...`,
+          }ms | Model: ${modelIdentifier}. Waiting for response...`,
         );
 
         // Monitor stream progress for O3 and other slow models
@@ -967,6 +1103,7 @@ export const handleSessionMessage = async (
           const finalText = await streamResult.text;
           const toolCalls = await streamResult.toolCalls;
           const toolResults = await streamResult.toolResults;
+          const steps = await streamResult.steps;
 
           // Get usage data for cost tracking
           let usage: any;
@@ -999,7 +1136,7 @@ export const handleSessionMessage = async (
               assistantId: assistant._id.toString(),
               sessionId: sessionId.toString(),
               userId: session.userId?.toString() || 'unknown',
-              provider: providerKey,
+              provider: answeringProvider,
               model: modelIdentifier,
               inputTokens: usage.inputTokens || 0,
               outputTokens: usage.outputTokens || 0,
@@ -1014,6 +1151,9 @@ export const handleSessionMessage = async (
               toolCalls: toolCalls?.length || 0,
               cached: false, // Can be enhanced later if SDK provides cached token info
               requestType: 'streaming' as any,
+              attempt: modelAttempt,
+              fallbackFrom,
+              metadata: costMetadata,
             };
 
             await logCostTracking(costInfo);
@@ -1127,8 +1267,15 @@ export const handleSessionMessage = async (
             };
           }
 
+          // Structured tool activity across all steps, replayed in later turns
+          const toolParts = extractToolParts(steps);
+          if (toolParts.length > 0) {
+            assistantMessageData.toolParts = toolParts;
+          }
+
           const assistantMessage = new Message(assistantMessageData);
           await assistantMessage.save();
+          emitMessageCreated(session.companyId, assistantMessage);
           // console.log('Assistant message from streamed response (with potential tool data) saved to DB.');
         } catch (dbError) {
           console.error(
@@ -1233,7 +1380,7 @@ export const handleSessionMessage = async (
         });
 
       // Attach provider information to the stream result
-      (streamResult as any).provider = providerKey;
+      (streamResult as any).provider = answeringProvider;
 
       const totalDuration = Date.now() - requestStartTime;
       console.log(
@@ -1242,35 +1389,58 @@ export const handleSessionMessage = async (
 
       return streamResult;
     } else {
-      const generateCallOptions: Parameters<typeof generateText>[0] = {
-        model: llm,
-        messages: trimmedMessages, // This now contains correctly formatted multimodal messages
-        tools: relevantTools,
-        maxRetries: 2,
-        stopWhen: stepCountIs(10), // Stop after 10 tool steps
-      };
-      if (systemPrompt !== undefined) {
-        generateCallOptions.system = systemPrompt;
-      }
-
-      // Add provider-specific options from model config (non-streaming)
-      const modelConfigNonStream = MODEL_CONFIGS[modelIdentifier];
-      if (modelConfigNonStream?.providerOptions) {
-        Object.assign(
-          generateCallOptions,
-          modelConfigNonStream.providerOptions,
-        );
-      }
-      // No separate experimental_attachments or attachments field needed here
       console.log(
         `[AI_GENERATE_START] Model: ${modelIdentifier} | Provider: ${providerKey} | Tools: ${
           Object.keys(relevantTools).length
         } | Messages: ${trimmedMessages.length}`,
       );
 
-      const startTime = Date.now();
-      const result = await generateText(generateCallOptions);
-      const duration = Date.now() - startTime;
+      const fallback = await executeWithModelFallback({
+        companyId: session.companyId.toString(),
+        chain: modelChain,
+        policy: retryPolicy,
+        costContext: { ...costContext, requestType: 'non-streaming' },
+        logPrefix: '[handleSessionMessage]',
+        run: async (llm, candidate, attemptContext) => {
+          const generateCallOptions: Parameters<typeof generateText>[0] = {
+            model: llm,
+            messages: messagesForCandidate(candidate), // This now contains correctly formatted multimodal messages
+            tools: relevantTools,
+            maxRetries: 0,
+            stopWhen: stepCountIs(10), // Stop after 10 tool steps
+            // Tools have side effects; never replay them on another model
+            onStepFinish: (step) => {
+              if (step.toolCalls.length > 0) {
+                attemptContext.markCommitted();
+              }
+            },
+          };
+          if (systemPrompt !== undefined) {
+            generateCallOptions.system = systemPrompt;
+          }
+
+          // Add provider-specific options from model config (non-streaming)
+          const modelConfigNonStream = MODEL_CONFIGS[candidate.model];
+          if (modelConfigNonStream?.providerOptions) {
+            Object.assign(
+              generateCallOptions,
+              modelConfigNonStream.providerOptions,
+            );
+          }
+
+          const attemptStartTime = Date.now();
+          const attemptResult = await generateText(generateCallOptions);
+          return {
+            result: attemptResult,
+            duration: Date.now() - attemptStartTime,
+          };
+        },
+      });
+      const { result, duration } = fallback.result;
+      modelIdentifier = fallback.candidate.model;
+      answeringProvider = fallback.candidate.provider;
+      modelAttempt = fallback.attempt;
+      fallbackFrom = fallback.fallbackFrom;
 
       console.log(
         `[AI_GENERATE_COMPLETE] Duration: ${duration}ms | Response length: ${
@@ -1294,7 +1464,7 @@ export const handleSessionMessage = async (
           assistantId: assistant._id.toString(),
           sessionId: sessionId.toString(),
           userId: session.userId?.toString() || 'unknown',
-          provider: providerKey,
+          provider: answeringProvider,
           model: modelIdentifier,
           inputTokens: result.usage.inputTokens || 0,
           outputTokens: result.usage.outputTokens || 0,
@@ -1309,6 +1479,9 @@ export const handleSessionMessage = async (
           toolCalls: finalLlmResult.toolCalls?.length || 0,
           cached: false,
           requestType: 'non-streaming' as any,
+          attempt: modelAttempt,
+          fallbackFrom,
+          metadata: costMetadata,
         };
 
         await logCostTracking(costInfo);
@@ -1429,8 +1602,15 @@ export const handleSessionMessage = async (
       };
     }
 
+    // Structured tool activity across all steps, replayed in later turns
+    const toolParts = extractToolParts(finalLlmResult.steps);
+    if (toolParts.length > 0) {
+      assistantMessageData.toolParts = toolParts;
+    }
+
     const assistantMessage = new Message(assistantMessageData);
     await assistantMessage.save();
+    emitMessageCreated(session.companyId, assistantMessage);
 
     const totalDuration = Date.now() - requestStartTime;
     console.log(
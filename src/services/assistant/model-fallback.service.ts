@@ -0,0 +1,424 @@
+import { APICallError, RetryError, LanguageModel } from 'ai';
+import { IAssistant } from '../../models/Assistant';
+import { ProviderKey } from '../../types/assistant.types';
+import { logCostTracking, CostTrackingInfo } from '../../utils/cost-tracking';
+import { resolveProviderModel } from './provider.service';
+
+/**
+ * A provider/model pair that can answer a request
+ */
+export interface ModelCandidate {
+  provider: ProviderKey;
+  model: string; // Normalized model identifier (Google models are prefixed with `models/`)
+}
+
+/**
+ * Retry/backoff policy applied to each model in the chain
+ */
+export interface ModelRetryPolicy {
+  maxRetries: number; // Retries on the same model before falling over to the next one
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+}
+
+export const DEFAULT_MODEL_RETRY_POLICY: ModelRetryPolicy = {
+  maxRetries: 2,
+  initialDelayMs: 1000,
+  maxDelayMs: 10000,
+  backoffMultiplier: 2,
+};
+
+/**
+ * Why a model call failed.
+ * - rate_limit, server_error, timeout, network: retried with backoff, then fall over
+ * - context_overflow, provider_unavailable: fall over immediately (retrying won't help)
+ * - fatal: surfaced to the caller unchanged (bad request, invalid API key, ...)
+ */
+export type ModelErrorType =
+  | 'rate_limit'
+  | 'server_error'
+  | 'timeout'
+  | 'network'
+  | 'context_overflow'
+  | 'provider_unavailable'
+  | 'fatal';
+
+export interface ModelAttempt {
+  attempt: number; // 1-based across the whole chain
+  provider: ProviderKey;
+  model: string;
+  success: boolean;
+  errorType?: ModelErrorType;
+  error?: string;
+  duration: number;
+}
+
+export interface ModelFallbackResult<T> {
+  result: T;
+  candidate: ModelCandidate;
+  attempt: number;
+  attempts: ModelAttempt[];
+  fallbackFrom?: string; // Primary model, set when a fallback model answered
+}
+
+/**
+ * Passed to each attempt. Call markCommitted() once the attempt has done
+ * something that must not be repeated (e.g. executed tools or started
+ * streaming to the client); errors after that point are not retried.
+ */
+export interface ModelAttemptContext {
+  attempt: number;
+  markCommitted: () => void;
+}
+
+/**
+ * Identity used to record failed attempts in CostTracking
+ */
+export type ModelAttemptCostContext = Pick<
+  CostTrackingInfo,
+  | 'companyId'
+  | 'assistantId'
+  | 'sessionId'
+  | 'userId'
+  | 'requestType'
+  | 'metadata'
+>;
+
+const CONTEXT_OVERFLOW_PATTERNS = [
+  'context length',
+  'context_length_exceeded',
+  'context window',
+  'maximum context',
+  'prompt is too long',
+  'input is too long',
+  'too many tokens',
+  'exceeds the maximum number of tokens',
+  'token limit',
+];
+
+const PROVIDER_UNAVAILABLE_PATTERNS = [
+  'api key not found for company',
+  'is not registered',
+  'is disabled',
+  'unsupported llm provider type',
+];
+
+const NETWORK_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+];
+
+function getStatusCode(error: any): number | undefined {
+  if (APICallError.isInstance(error)) {
+    return error.statusCode;
+  }
+  return error?.statusCode ?? error?.status ?? error?.response?.status;
+}
+
+/**
+ * Classify a model error to decide whether to retry, fall over or give up
+ */
+export function classifyModelError(error: unknown): ModelErrorType {
+  // The SDK wraps exhausted retries; classify the underlying error
+  const err: any = RetryError.isInstance(error) ? error.lastError : error;
+  const statusCode = getStatusCode(err);
+  const text = [
+    err?.message,
+    APICallError.isInstance(err) ? err.responseBody : undefined,
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+  if (
+    statusCode === 413 ||
+    CONTEXT_OVERFLOW_PATTERNS.some((pattern) => text.includes(pattern))
+  ) {
+    return 'context_overflow';
+  }
+  if (PROVIDER_UNAVAILABLE_PATTERNS.some((pattern) => text.includes(pattern))) {
+    return 'provider_unavailable';
+  }
+  if (statusCode === 429 || text.includes('rate limit')) {
+    return 'rate_limit';
+  }
+  if (
+    (statusCode !== undefined && statusCode >= 500) ||
+    text.includes('overloaded')
+  ) {
+    return 'server_error';
+  }
+  if (
+    statusCode === 408 ||
+    err?.name === 'TimeoutError' ||
+    err?.code === 'ETIMEDOUT' ||
+    text.includes('timed out')
+  ) {
+    return 'timeout';
+  }
+  const code = err?.code ?? err?.cause?.code;
+  if (NETWORK_ERROR_CODES.includes(code) || text.includes('fetch failed')) {
+    return 'network';
+  }
+  return 'fatal';
+}
+
+function isRetryable(type: ModelErrorType): boolean {
+  return (
+    type === 'rate_limit' ||
+    type === 'server_error' ||
+    type === 'timeout' ||
+    type === 'network'
+  );
+}
+
+/**
+ * Delay before the next retry. Honors the provider's retry-after header
+ * when present, capped at the policy's maxDelayMs.
+ */
+export function getRetryDelay(
+  error: unknown,
+  retry: number,
+  policy: ModelRetryPolicy,
+): number {
+  const err: any = RetryError.isInstance(error) ? error.lastError : error;
+  const retryAfter = APICallError.isInstance(err)
+    ? Number(err.responseHeaders?.['retry-after'])
+    : NaN;
+  const delay = Number.isFinite(retryAfter)
+    ? retryAfter * 1000
+    : policy.initialDelayMs * Math.pow(policy.backoffMultiplier, retry);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Normalize a model identifier for its provider
+ */
+export function normalizeModelIdentifier(
+  provider: ProviderKey,
+  model: string,
+): string {
+  if (provider === 'google' && model && !model.startsWith('models/')) {
+    return `models/${model}`;
+  }
+  return model;
+}
+
+/**
+ * Build the ordered model chain for an assistant: its configured model
+ * followed by its fallback models, without duplicates.
+ */
+export function buildModelChain(
+  assistant: Pick<IAssistant, 'llmProvider' | 'llmModel' | 'fallbackModels'>,
+): ModelCandidate[] {
+  const entries = [
+    {
+      llmProvider: assistant.llmProvider,
+      llmModel: assistant.llmModel || 'gpt-4.1-mini',
+    },
+    ...(assistant.fallbackModels || []),
+  ];
+
+  const chain: ModelCandidate[] = [];
+  for (const entry of entries) {
+    if (!entry.llmProvider || !entry.llmModel) continue;
+    const candidate = {
+      provider: entry.llmProvider,
+      model: normalizeModelIdentifier(entry.llmProvider, entry.llmModel),
+    };
+    const duplicate = chain.some(
+      (c) => c.provider === candidate.provider && c.model === candidate.model,
+    );
+    if (!duplicate) {
+      chain.push(candidate);
+    }
+  }
+  return chain;
+}
+
+/**
+ * Resolve an assistant's retry policy, falling back to the defaults
+ */
+export function getModelRetryPolicy(
+  assistant: Pick<IAssistant, 'modelRetryPolicy'>,
+): ModelRetryPolicy {
+  const configured = assistant.modelRetryPolicy || {};
+  return {
+    maxRetries: configured.maxRetries ?? DEFAULT_MODEL_RETRY_POLICY.maxRetries,
+    initialDelayMs:
+      configured.initialDelayMs ?? DEFAULT_MODEL_RETRY_POLICY.initialDelayMs,
+    maxDelayMs: configured.maxDelayMs ?? DEFAULT_MODEL_RETRY_POLICY.maxDelayMs,
+    backoffMultiplier:
+      configured.backoffMultiplier ??
+      DEFAULT_MODEL_RETRY_POLICY.backoffMultiplier,
+  };
+}
+
+async function recordFailedAttempt(
+  costContext: ModelAttemptCostContext,
+  attempt: ModelAttempt,
+  primaryModel: string,
+): Promise<void> {
+  await logCostTracking({
+    ...costContext,
+    provider: attempt.provider,
+    model: attempt.model,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    inputCost: 0,
+    outputCost: 0,
+    totalCost: 0,
+    timestamp: new Date(),
+    duration: attempt.duration,
+    status: 'failed',
+    attempt: attempt.attempt,
+    fallbackFrom: attempt.model !== primaryModel ? primaryModel : undefined,
+    errorType: attempt.errorType,
+    errorMessage: attempt.error,
+  });
+}
+
+/**
+ * Run a model call against an ordered chain of models.
+ * Retryable errors are retried with backoff on the same model, then the next
+ * model in the chain is tried. Fatal errors, errors after the attempt was
+ * committed and the last model's error are rethrown; the thrown error carries
+ * the `modelAttempts` made. Each failed attempt is recorded in CostTracking
+ * when a cost context is given.
+ */
+export async function executeWithModelFallback<T>(options: {
+  companyId: string;
+  chain: ModelCandidate[];
+  policy?: ModelRetryPolicy;
+  costContext?: ModelAttemptCostContext;
+  logPrefix?: string;
+  run: (
+    llm: LanguageModel,
+    candidate: ModelCandidate,
+    context: ModelAttemptContext,
+  ) => Promise<T>;
+}): Promise<ModelFallbackResult<T>> {
+  const { companyId, chain, costContext, run } = options;
+  const policy = options.policy || DEFAULT_MODEL_RETRY_POLICY;
+  const logPrefix = options.logPrefix || '[MODEL_FALLBACK]';
+
+  if (chain.length === 0) {
+    throw new Error('No model configured for assistant.');
+  }
+
+  const primaryModel = chain[0].model;
+  const attempts: ModelAttempt[] = [];
+
+  for (let index = 0; index < chain.length; index++) {
+    const candidate = chain[index];
+    const isLastCandidate = index === chain.length - 1;
+
+    for (let retry = 0; retry <= policy.maxRetries; retry++) {
+      const attemptNumber = attempts.length + 1;
+      const startTime = Date.now();
+      let committed = false;
+
+      try {
+        const llm = await resolveProviderModel(
+          companyId,
+          candidate.provider,
+          candidate.model,
+        );
+        const result = await run(llm, candidate, {
+          attempt: attemptNumber,
+          markCommitted: () => {
+            committed = true;
+          },
+        });
+
+        attempts.push({
+          attempt: attemptNumber,
+          provider: candidate.provider,
+          model: candidate.model,
+          success: true,
+          duration: Date.now() - startTime,
+        });
+        if (index > 0) {
+          console.log(
+            `${logPrefix} ${candidate.provider}/${candidate.model} answered after ${attemptNumber - 1} failed attempt(s)`,
+          );
+        }
+
+        return {
+          result,
+          candidate,
+          attempt: attemptNumber,
+          attempts,
+          fallbackFrom: index > 0 ? primaryModel : undefined,
+        };
+      } catch (error: any) {
+        const errorType = classifyModelError(error);
+        const failedAttempt: ModelAttempt = {
+          attempt: attemptNumber,
+          provider: candidate.provider,
+          model: candidate.model,
+          success: false,
+          errorType,
+          error: error?.message,
+          duration: Date.now() - startTime,
+        };
+        attempts.push(failedAttempt);
+
+        if (costContext) {
+          await recordFailedAttempt(costContext, failedAttempt, primaryModel);
+        }
+
+        const canRetry =
+          !committed && isRetryable(errorType) && retry < policy.maxRetries;
+        const canFallOver =
+          !committed && errorType !== 'fatal' && !isLastCandidate;
+
+        console.warn(
+          `${logPrefix} Attempt ${attemptNumber} with ${candidate.provider}/${candidate.model} failed (${errorType}): ${error?.message}`,
+        );
+
+        if (canRetry) {
+          await sleep(getRetryDelay(error, retry, policy));
+          continue;
+        }
+        if (canFallOver) {
+          break;
+        }
+
+        if (error && typeof error === 'object') {
+          error.modelAttempts = attempts;
+        }
+        throw error;
+      }
+    }
+  }
+
+  // Unreachable: the last candidate either returns or throws
+  throw new Error('Model fallback chain exhausted.');
+}
+
+/**
+ * Wait until a streamText result produces its first output.
+ * Provider errors only surface inside the stream, so this lets a stream
+ * that fails before emitting anything fall over to the next model.
+ * Reading fullStream tees the stream; other consumers still see every part.
+ */
+export async function waitForStreamStart(streamResult: {
+  fullStream: AsyncIterable<{ type: string; error?: unknown }>;
+}): Promise<void> {
+  for await (const part of streamResult.fullStream) {
+    if (part.type === 'error') {
+      throw part.error;
+    }
+    if (part.type !== 'start' && part.type !== 'start-step') {
+      return;
+    }
+  }
+}
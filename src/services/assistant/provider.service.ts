@@ -1,7 +1,16 @@
 import { createOpenAI } from '@ai-sdk/openai';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createAnthropic } from '@ai-sdk/anthropic';
-import { ProviderKey } from '../../types/assistant.types';
+import { LanguageModel } from 'ai';
+import { ProviderKey, isBuiltInProvider } from '../../types/assistant.types';
+import { LlmProviderType } from '../../models/LlmProvider';
+import { getApiKey } from '../api.key.service';
+import {
+  getLlmProvider,
+  getLlmProviderApiKey,
+  buildLlmProviderHeaders,
+  LlmProviderLean,
+} from '../llm-provider.service';
 
 // Model configurations - Updated January 2026
 // Based on latest available models from OpenAI, Anthropic, and Google
@@ -108,3 +117,79 @@ export function getProvider(pk: ProviderKey, model: string, key: string) {
 
 // Export model configs for use in message handling
 export { MODEL_CONFIGS };
+
+/**
+ * Factory that turns a company-registered provider into a language model.
+ * Keyed by provider type so new wire protocols can be plugged in.
+ */
+export type CustomProviderFactory = (
+  provider: LlmProviderLean,
+  apiKey: string | null,
+  model: string,
+) => LanguageModel;
+
+const CUSTOM_PROVIDER_FACTORIES = new Map<string, CustomProviderFactory>();
+
+export function registerProviderType(
+  type: LlmProviderType | string,
+  factory: CustomProviderFactory,
+): void {
+  CUSTOM_PROVIDER_FACTORIES.set(type, factory);
+}
+
+// OpenAI-compatible servers (vLLM, Ollama, LM Studio) only implement the
+// chat completions API, so always use .chat() rather than the Responses API.
+registerProviderType('openai-compatible', (provider, apiKey, model) =>
+  createOpenAI({
+    name: provider.key,
+    baseURL: provider.baseUrl,
+    // Local servers often run without auth; the SDK still requires a value
+    apiKey: apiKey || 'not-needed',
+    headers: buildLlmProviderHeaders(provider, apiKey),
+  }).chat(model),
+);
+
+// Azure OpenAI v1 endpoint authenticates with an `api-key` header
+registerProviderType('azure-openai', (provider, apiKey, model) =>
+  createOpenAI({
+    name: provider.key,
+    baseURL: provider.baseUrl,
+    apiKey: apiKey || '',
+    headers: buildLlmProviderHeaders(provider, apiKey),
+  }).chat(model),
+);
+
+/**
+ * Resolve the language model for an assistant's provider within a company.
+ * Built-in providers use the company's `<provider>_api_key`; any other key is
+ * looked up in the company's registered LlmProviders.
+ */
+export async function resolveProviderModel(
+  companyId: string,
+  providerKey: ProviderKey,
+  model: string,
+): Promise<LanguageModel> {
+  if (isBuiltInProvider(providerKey)) {
+    const apiKey = await getApiKey(companyId, `${providerKey}_api_key`);
+    if (!apiKey) {
+      throw new Error(`${providerKey} API key not found for company.`);
+    }
+    return getProvider(providerKey, model, apiKey);
+  }
+
+  const provider = await getLlmProvider(companyId, providerKey);
+  if (!provider) {
+    throw new Error(`LLM provider "${providerKey}" is not registered.`);
+  }
+  if (!provider.enabled) {
+    throw new Error(`LLM provider "${providerKey}" is disabled.`);
+  }
+
+  const factory = CUSTOM_PROVIDER_FACTORIES.get(provider.type);
+  if (!factory) {
+    throw new Error(`Unsupported LLM provider type "${provider.type}".`);
+  }
+
+  const apiKey = await getLlmProviderApiKey(companyId, providerKey);
+  return factory(provider, apiKey, model);
+}
@@ -1,7 +1,8 @@
 import { IAssistant } from '../../models/Assistant';
 import { SupportedLanguage } from '../discovery.service';
 import { createFunctionFactory } from '../../integrations/actions/loaders';
-import { getApiKey } from '../api.key.service';
+import { convertOpenAIFunctionName } from '../../integrations/actions/utils';
+import { isApprovalRequired } from '../action-approval.service';
 import { downloadFile } from '../file-downloader.service';
 import axios from 'axios';
 import {
@@ -23,7 +24,16 @@ import {
 } from 'ai';
 import { z, ZodType } from 'zod';
 import { trimToWindow } from '../../utils/tokenWindow';
-import { getProvider } from './provider.service';
+import { buildBudgetCostMetadata, enforceBudgets } from '../budget.service';
+import {
+  buildModelChain,
+  getModelRetryPolicy,
+  executeWithModelFallback,
+  waitForStreamStart,
+  ModelCandidate,
+  ModelAttemptContext,
+  ModelAttemptCostContext,
+} from './model-fallback.service';
 // import { getSessionOrStatelessContext } from '../session.service'; // This utility was merged into getSessionById
 
 // Helper function to clean action annotations from text
@@ -154,6 +164,26 @@ interface Attachment {
   fileName: string;
 }
 
+/**
+ * Token usage of a call's finished model steps
+ */
+export interface StatelessStepUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Controls for callers that run an assistant in the background
+ */
+export interface StatelessRunOptions {
+  abortSignal?: AbortSignal; // Stops the model call, e.g. once the caller gave up
+  // Called before each model step; throw to stop the call
+  beforeStep?: (usage: StatelessStepUsage) => Promise<void>;
+  // Called once a step ran tools, whose side effects a retry would repeat
+  onToolCalls?: () => void;
+}
+
 interface ActionResult {
   success: boolean;
   data?: any;
@@ -172,6 +202,8 @@ export const executeAssistantStateless = async (
   responseFormat?: ResponseFormat, // Add responseFormat parameter
   metadata?: Record<string, string>,
   promptOverride?: string, // Add promptOverride parameter
+  costMetadata?: Record<string, any>, // Stored on cost records for attribution
+  runOptions?: StatelessRunOptions,
 ): Promise<
   | string
   | StreamTextResult<
@@ -184,7 +216,21 @@ export const executeAssistantStateless = async (
     `Executing stateless assistant ${assistant.name} (ID: ${assistant._id}) for company ${companyId}`,
   );
 
-  const providerKey = assistant.llmProvider;
+  // Hard budget limits are enforced before any provider call. Callers
+  // authenticated with an API key pass it as `costMetadata.apiKeyId`.
+  const budgetDecision = await enforceBudgets({
+    companyId,
+    assistantId: assistant._id.toString(),
+    userId,
+    teamIds: assistant.teams?.map(String),
+    apiKeyId: costMetadata?.apiKeyId,
+  });
+  costMetadata = buildBudgetCostMetadata(
+    costMetadata?.apiKeyId,
+    budgetDecision,
+    costMetadata,
+  );
+
   const userMessageContentParts: (TextPart | ImagePart)[] = [
     { type: 'text', text: userInput },
   ];
@@ -484,6 +530,13 @@ export const executeAssistantStateless = async (
             return { success: false, error: errorMessage };
           }
 
+          // There is no session to resume, so actions gated behind human
+          // approval cannot run here
+          const actionId = convertOpenAIFunctionName(currentFuncName);
+          if (await isApprovalRequired(actionId, actionContext)) {
+            return `Error: ${actionId} requires human approval, which is not available in stateless execution`;
+          }
+
           // Directly use the functionFactory created with the stateless actionContext
           const factoryForStateless = await createFunctionFactory(
             actionContext,
@@ -544,18 +597,22 @@ export const executeAssistantStateless = async (
     toolsCache.set(cacheKey, toolsForSdk);
   }
 
-  let modelIdentifier = assistant.llmModel || 'gpt-4.1-mini';
-  const llmApiKey = await getApiKey(companyId, `${providerKey}_api_key`);
-  if (!llmApiKey)
-    throw new Error(`${providerKey} API key not found for company.`);
-
-  if (
-    providerKey === 'google' &&
-    modelIdentifier &&
-    !modelIdentifier.startsWith('models/')
-  ) {
-    modelIdentifier = `models/${modelIdentifier}`;
-  }
+  // Configured model first, then the assistant's fallback models
+  // A budget over its hard limit may swap in a cheaper model instead
+  const modelChain = buildModelChain(
+    budgetDecision.downgradeModel
+      ? { ...budgetDecision.downgradeModel, fallbackModels: [] }
+      : assistant,
+  );
+  const retryPolicy = getModelRetryPolicy(assistant);
+  const costContext: ModelAttemptCostContext = {
+    companyId: companyId?.toString() || 'unknown',
+    assistantId: assistant._id.toString(),
+    sessionId: 'stateless',
+    userId: userId || 'unknown',
+    requestType: 'stateless',
+    metadata: costMetadata,
+  };
 
   const shouldStream = metadata?.['X-Experimental-Stream'] === 'true';
 
@@ -586,7 +643,7 @@ export const executeAssistantStateless = async (
     `[Stateless Execution] Using max prompt tokens: ${maxPromptTokens} for assistant ${assistant.name}`,
   );
 
-  let { trimmedMessages } = trimToWindow(messagesForLlm, maxPromptTokens);
+  const { trimmedMessages } = trimToWindow(messagesForLlm, maxPromptTokens);
 
   // If after trimming, messagesForLlm is empty, it means the initial content was too large.
   // This can happen if userInput + appended files exceed maxPromptTokens significantly.
@@ -599,29 +656,85 @@ export const executeAssistantStateless = async (
     );
   }
 
-  if (providerKey === 'anthropic') {
-    trimmedMessages = [
-      { role: 'system', content: systemPrompt },
-      ...trimmedMessages.filter((m) => m.role !== 'system'),
-    ];
-  }
+  // Anthropic gets the system prompt in the messages instead of `system`
+  const messagesForCandidate = (candidate: ModelCandidate): ModelMessage[] =>
+    candidate.provider === 'anthropic'
+      ? [
+          { role: 'system', content: systemPrompt },
+          ...trimmedMessages.filter((m) => m.role !== 'system'),
+        ]
+      : trimmedMessages;
+  const systemForCandidate = (candidate: ModelCandidate) =>
+    candidate.provider !== 'anthropic' ? systemPrompt : undefined;
+
+  // Abort signal and per-step hook of the caller, for each generate call
+  const stepControls = (candidate: ModelCandidate) => {
+    const beforeStep = runOptions?.beforeStep;
+    return {
+      abortSignal: runOptions?.abortSignal,
+      prepareStep: beforeStep
+        ? async ({
+            steps,
+          }: {
+            steps: Array<{
+              usage: { inputTokens?: number; outputTokens?: number };
+            }>;
+          }) => {
+            await beforeStep({
+              model: candidate.model,
+              inputTokens: steps.reduce(
+                (sum, step) => sum + (step.usage.inputTokens || 0),
+                0,
+              ),
+              outputTokens: steps.reduce(
+                (sum, step) => sum + (step.usage.outputTokens || 0),
+                0,
+              ),
+            });
+            return undefined;
+          }
+        : undefined,
+    };
+  };
+
+  // Tools have side effects; never replay them on another model
+  const commitOnToolCalls =
+    (attemptContext: ModelAttemptContext) =>
+    (step: { toolCalls: unknown[] }) => {
+      if (step.toolCalls.length > 0) {
+        attemptContext.markCommitted();
+        runOptions?.onToolCalls?.();
+      }
+    };
 
   try {
-    const llm = getProvider(providerKey, modelIdentifier, llmApiKey as string);
     const relevantTools = toolsForSdk; // For stateless, all tools of the assistant are relevant
 
     if (shouldStream) {
-      const streamCallOptions: Parameters<typeof streamText>[0] = {
-        model: llm,
-        messages: trimmedMessages,
-        tools: relevantTools,
-        stopWhen: stepCountIs(3), // Consider making this configurable per assistant or request
-      };
-      if (systemPrompt !== undefined && providerKey !== 'anthropic') {
-        // Anthropic handles system prompt in messages
-        streamCallOptions.system = systemPrompt;
-      }
-      const streamResult = await streamText(streamCallOptions);
+      const { result: streamResult } = await executeWithModelFallback({
+        companyId,
+        chain: modelChain,
+        policy: retryPolicy,
+        costContext,
+        logPrefix: '[Stateless Execution]',
+        run: async (llm, candidate, attemptContext) => {
+          const streamCallOptions: Parameters<typeof streamText>[0] = {
+            model: llm,
+            messages: messagesForCandidate(candidate),
+            tools: relevantTools,
+            maxRetries: 0,
+            stopWhen: stepCountIs(3), // Consider making this configurable per assistant or request
+            onStepFinish: commitOnToolCalls(attemptContext),
+            ...stepControls(candidate),
+          };
+          // Anthropic handles system prompt in messages
+          streamCallOptions.system = systemForCandidate(candidate);
+          const attemptStream = streamText(streamCallOptions);
+          // Fall over before anything reaches the client
+          await waitForStreamStart(attemptStream);
+          return attemptStream;
+        },
+      });
       // The route handler will process the stream. We just return it.
       // We also need to return tool calls and results if any, for the route to save.
       // This requires a slight modification to how streamResult is consumed or what this function returns.
@@ -631,13 +744,25 @@ export const executeAssistantStateless = async (
       // Use generateText with Output.object() for structured JSON output
       if (responseFormat.type === 'json_schema' && responseFormat.schema) {
         // Use provided schema with Output.object()
-        const { output } = await generateText({
-          model: llm,
-          messages: trimmedMessages,
-          output: Output.object({
-            schema: responseFormat.schema,
-          }),
-          system: providerKey !== 'anthropic' ? systemPrompt : undefined,
+        const {
+          result: { output },
+        } = await executeWithModelFallback({
+          companyId,
+          chain: modelChain,
+          policy: retryPolicy,
+          costContext: { ...costContext, sessionId: 'stateless-json' },
+          logPrefix: '[Stateless Execution]',
+          run: (llm, candidate) =>
+            generateText({
+              model: llm,
+              messages: messagesForCandidate(candidate),
+              output: Output.object({
+                schema: responseFormat.schema,
+              }),
+              maxRetries: 0,
+              system: systemForCandidate(candidate),
+              ...stepControls(candidate),
+            }),
         });
 
         return {
@@ -656,31 +781,47 @@ export const executeAssistantStateless = async (
         };
       } else {
         // Use json mode (less strict, but ensures valid JSON)
-        const generateTextOptions: Parameters<typeof generateText>[0] = {
-          model: llm,
-          messages: trimmedMessages,
-          tools: relevantTools,
-          stopWhen: stepCountIs(3),
-          system: providerKey !== 'anthropic' ? systemPrompt : undefined,
-        };
-
-        if (providerKey === 'openai') {
-          // @ts-expect-error TODO: Properly type OpenAI-specific params if not in generic GenerateTextOptions
-          generateTextOptions.response_format = { type: 'json_object' };
-        }
-        // For other providers like Google or Anthropic, specific JSON mode flags might differ
-        // or might need to be set when the model instance `llm` is created in `getProvider`.
-        // Anthropic typically uses tool calling for structured JSON, which `generateObject` handles.
-        // Google's Gemini can be instructed via prompt or might have a responseMimeType config.
-
-        const startTime = Date.now();
-        const result = await generateText(generateTextOptions);
-        const duration = Date.now() - startTime;
+        const fallback = await executeWithModelFallback({
+          companyId,
+          chain: modelChain,
+          policy: retryPolicy,
+          costContext: { ...costContext, sessionId: 'stateless-json' },
+          logPrefix: '[Stateless Execution]',
+          run: async (llm, candidate, attemptContext) => {
+            const generateTextOptions: Parameters<typeof generateText>[0] = {
+              model: llm,
+              messages: messagesForCandidate(candidate),
+              tools: relevantTools,
+              maxRetries: 0,
+              stopWhen: stepCountIs(3),
+              system: systemForCandidate(candidate),
+              onStepFinish: commitOnToolCalls(attemptContext),
+              ...stepControls(candidate),
+            };
+
+            if (candidate.provider === 'openai') {
+              // @ts-expect-error TODO: Properly type OpenAI-specific params if not in generic GenerateTextOptions
+              generateTextOptions.response_format = { type: 'json_object' };
+            }
+            // For other providers like Google or Anthropic, specific JSON mode flags might differ
+            // or might need to be set when the model instance `llm` is created in `getProvider`.
+            // Anthropic typically uses tool calling for structured JSON, which `generateObject` handles.
+            // Google's Gemini can be instructed via prompt or might have a responseMimeType config.
+
+            const attemptStartTime = Date.now();
+            const attemptResult = await generateText(generateTextOptions);
+            return {
+              result: attemptResult,
+              duration: Date.now() - attemptStartTime,
+            };
+          },
+        });
+        const { result, duration } = fallback.result;
 
         // Log cost tracking for JSON format
         if (result.usage) {
           const costs = calculateCost(
-            modelIdentifier,
+            fallback.candidate.model,
             result.usage.inputTokens || 0,
             result.usage.outputTokens || 0,
           );
@@ -690,8 +831,8 @@ export const executeAssistantStateless = async (
             assistantId: assistant._id.toString(),
             sessionId: 'stateless-json',
             userId: userId || 'unknown',
-            provider: providerKey,
-            model: modelIdentifier,
+            provider: fallback.candidate.provider,
+            model: fallback.candidate.model,
             inputTokens: result.usage.inputTokens || 0,
             outputTokens: result.usage.outputTokens || 0,
             totalTokens:
@@ -706,6 +847,9 @@ export const executeAssistantStateless = async (
             toolCalls: 0,
             cached: false,
             requestType: 'stateless',
+            attempt: fallback.attempt,
+            fallbackFrom: fallback.fallbackFrom,
+            metadata: costMetadata,
           };
 
           await logCostTracking(costInfo);
@@ -765,23 +909,36 @@ export const executeAssistantStateless = async (
         };
       }
     } else {
-      const generateCallOptions: Parameters<typeof generateText>[0] = {
-        model: llm,
-        messages: trimmedMessages,
-        tools: relevantTools,
-        stopWhen: stepCountIs(3),
-      };
-      if (systemPrompt !== undefined && providerKey !== 'anthropic') {
-        generateCallOptions.system = systemPrompt;
-      }
-      const startTime = Date.now();
-      const result = await generateText(generateCallOptions);
-      const duration = Date.now() - startTime;
+      const fallback = await executeWithModelFallback({
+        companyId,
+        chain: modelChain,
+        policy: retryPolicy,
+        costContext,
+        logPrefix: '[Stateless Execution]',
+        run: async (llm, candidate, attemptContext) => {
+          const attemptStartTime = Date.now();
+          const attemptResult = await generateText({
+            model: llm,
+            messages: messagesForCandidate(candidate),
+            tools: relevantTools,
+            maxRetries: 0,
+            stopWhen: stepCountIs(3),
+            system: systemForCandidate(candidate),
+            onStepFinish: commitOnToolCalls(attemptContext),
+            ...stepControls(candidate),
+          });
+          return {
+            result: attemptResult,
+            duration: Date.now() - attemptStartTime,
+          };
+        },
+      });
+      const { result, duration } = fallback.result;
 
       // Log cost tracking for stateless execution
       if (result.usage) {
         const costs = calculateCost(
-          modelIdentifier,
+          fallback.candidate.model,
           result.usage.inputTokens || 0,
           result.usage.outputTokens || 0,
         );
@@ -801,8 +958,8 @@ export const executeAssistantStateless = async (
           assistantId: assistant._id.toString(),
           sessionId: 'stateless',
           userId: userId || 'unknown',
-          provider: providerKey,
-          model: modelIdentifier,
+          provider: fallback.candidate.provider,
+          model: fallback.candidate.model,
           inputTokens: result.usage.inputTokens || 0,
           outputTokens: result.usage.outputTokens || 0,
           totalTokens:
@@ -816,6 +973,9 @@ export const executeAssistantStateless = async (
           toolCalls: totalToolCallCount,
           cached: false,
           requestType: 'stateless',
+          attempt: fallback.attempt,
+          fallbackFrom: fallback.fallbackFrom,
+          metadata: costMetadata,
         };
 
         await logCostTracking(costInfo);
@@ -880,3 +1040,24 @@ export const executeAssistantStateless = async (
     throw error;
   }
 };
+
+/**
+ * Text of a non-streaming stateless response. JSON responses are
+ * pretty-printed.
+ */
+export function statelessResponseToText(response: unknown): string {
+  if (typeof response === 'string') {
+    return response;
+  }
+  const payload = response as any;
+  if (payload?.data?.json !== undefined) {
+    return JSON.stringify(payload.data.json, null, 2);
+  }
+  if (Array.isArray(payload?.content)) {
+    return payload.content
+      .map((part: any) => part?.text?.value ?? '')
+      .join('\n')
+      .trim();
+  }
+  return JSON.stringify(response, null, 2);
+}
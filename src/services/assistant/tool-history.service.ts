@@ -0,0 +1,230 @@
+import { ModelMessage, ToolCallPart, ToolResultPart } from 'ai';
+import { IAssistant, IToolHistoryPolicy } from '../../models/Assistant';
+import { IMessage, IToolPart } from '../../models/Message';
+
+export type ToolHistoryPolicy = Required<IToolHistoryPolicy>;
+
+export const DEFAULT_TOOL_HISTORY_POLICY: ToolHistoryPolicy = {
+  mode: 'full',
+  maxOutputChars: 4000,
+  maxTurns: 5,
+};
+
+// Hard cap on a single stored tool output, independent of the replay policy
+const MAX_STORED_OUTPUT_CHARS = 50000;
+
+const OMITTED_OUTPUT = '[output omitted]';
+const MISSING_OUTPUT = '[no result recorded]';
+
+/**
+ * A stored message and the model messages it replays as
+ */
+export interface HistoryEntry {
+  source: IMessage;
+  messages: ModelMessage[];
+}
+
+export interface HistoryOptions {
+  policy: ToolHistoryPolicy;
+  // Tools the model can currently call. Calls to other tools are not
+  // replayed; some providers reject history that references unknown tools.
+  availableTools: Set<string>;
+}
+
+/**
+ * Resolve an assistant's tool history policy, falling back to the defaults
+ */
+export function getToolHistoryPolicy(
+  assistant: Pick<IAssistant, 'toolHistoryPolicy'>,
+): ToolHistoryPolicy {
+  const configured = assistant.toolHistoryPolicy || {};
+  return {
+    mode: configured.mode ?? DEFAULT_TOOL_HISTORY_POLICY.mode,
+    maxOutputChars:
+      configured.maxOutputChars ?? DEFAULT_TOOL_HISTORY_POLICY.maxOutputChars,
+    maxTurns: configured.maxTurns ?? DEFAULT_TOOL_HISTORY_POLICY.maxTurns,
+  };
+}
+
+function serialize(value: unknown): string {
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value) ?? '';
+  } catch {
+    return String(value);
+  }
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}... [truncated ${text.length - maxChars} chars]`;
+}
+
+function toStoredOutput(output: unknown): unknown {
+  const serialized = serialize(output);
+  if (serialized.length <= MAX_STORED_OUTPUT_CHARS) {
+    return output;
+  }
+  return truncate(serialized, MAX_STORED_OUTPUT_CHARS);
+}
+
+/**
+ * Extract tool calls and results from generation steps, in order.
+ * Failed tool executions are stored as error results.
+ */
+export function extractToolParts(
+  steps: ReadonlyArray<{ content: ReadonlyArray<any> }> | undefined,
+): IToolPart[] {
+  const parts: IToolPart[] = [];
+  (steps || []).forEach((step, stepIndex) => {
+    for (const part of step.content) {
+      if (part.type === 'tool-call') {
+        parts.push({
+          type: 'tool-call',
+          step: stepIndex,
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          input: part.input,
+        });
+      } else if (part.type === 'tool-result') {
+        parts.push({
+          type: 'tool-result',
+          step: stepIndex,
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          output: toStoredOutput(part.output),
+        });
+      } else if (part.type === 'tool-error') {
+        parts.push({
+          type: 'tool-result',
+          step: stepIndex,
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          output: truncate(
+            serialize(part.error?.message ?? part.error),
+            MAX_STORED_OUTPUT_CHARS,
+          ),
+          isError: true,
+        });
+      }
+    }
+  });
+  return parts;
+}
+
+function toResultOutput(
+  result: IToolPart | undefined,
+  policy: ToolHistoryPolicy,
+): ToolResultPart['output'] {
+  if (!result) {
+    return { type: 'text', value: MISSING_OUTPUT };
+  }
+  if (policy.mode === 'calls') {
+    return { type: 'text', value: OMITTED_OUTPUT };
+  }
+  if (result.isError) {
+    return {
+      type: 'error-text',
+      value: truncate(serialize(result.output), policy.maxOutputChars),
+    };
+  }
+  if (typeof result.output === 'string') {
+    return {
+      type: 'text',
+      value: truncate(result.output, policy.maxOutputChars),
+    };
+  }
+  const serialized = serialize(result.output);
+  if (serialized.length <= policy.maxOutputChars) {
+    return { type: 'json', value: result.output ?? null };
+  }
+  return { type: 'text', value: truncate(serialized, policy.maxOutputChars) };
+}
+
+/**
+ * Replay tool parts as alternating assistant tool-call and tool messages,
+ * one pair per generation step
+ */
+function toolPartsToModelMessages(
+  toolParts: IToolPart[],
+  options: HistoryOptions,
+): ModelMessage[] {
+  const steps = Array.from(new Set(toolParts.map((p) => p.step))).sort(
+    (a, b) => a - b,
+  );
+  const messages: ModelMessage[] = [];
+
+  for (const step of steps) {
+    const calls = toolParts.filter(
+      (p) =>
+        p.step === step &&
+        p.type === 'tool-call' &&
+        options.availableTools.has(p.toolName),
+    );
+    if (calls.length === 0) continue;
+
+    const callParts: ToolCallPart[] = calls.map((call) => ({
+      type: 'tool-call',
+      toolCallId: call.toolCallId,
+      toolName: call.toolName,
+      input: call.input ?? {},
+    }));
+    const resultParts: ToolResultPart[] = calls.map((call) => ({
+      type: 'tool-result',
+      toolCallId: call.toolCallId,
+      toolName: call.toolName,
+      output: toResultOutput(
+        toolParts.find(
+          (p) => p.type === 'tool-result' && p.toolCallId === call.toolCallId,
+        ),
+        options.policy,
+      ),
+    }));
+
+    messages.push({ role: 'assistant', content: callParts });
+    messages.push({ role: 'tool', content: resultParts });
+  }
+
+  return messages;
+}
+
+/**
+ * Convert stored session messages into history entries.
+ * User and assistant text is always replayed; tool activity is replayed for
+ * the most recent `maxTurns` assistant messages, according to the policy.
+ */
+export function buildHistoryEntries(
+  dbMessages: IMessage[],
+  options: HistoryOptions,
+): HistoryEntry[] {
+  const turns = dbMessages.filter(
+    (msg) =>
+      (msg.sender === 'user' || msg.sender === 'assistant') &&
+      typeof msg.content === 'string',
+  );
+
+  const replayToolsFor = new Set<IMessage>();
+  if (options.policy.mode !== 'none') {
+    const withTools = turns.filter(
+      (msg) => msg.sender === 'assistant' && msg.toolParts?.length,
+    );
+    withTools
+      .slice(Math.max(withTools.length - options.policy.maxTurns, 0))
+      .forEach((msg) => replayToolsFor.add(msg));
+  }
+
+  return turns.map((msg) => {
+    const toolMessages = replayToolsFor.has(msg)
+      ? toolPartsToModelMessages(msg.toolParts!, options)
+      : [];
+    const messages: ModelMessage[] = [...toolMessages];
+    // Tool-only turns have no final text; don't replay an empty message
+    if ((msg.content as string).length > 0 || toolMessages.length === 0) {
+      messages.push({
+        role: msg.sender as 'user' | 'assistant',
+        content: msg.content as string,
+      });
+    }
+    return { source: msg, messages };
+  });
+}
@@ -0,0 +1,549 @@
+import mongoose from 'mongoose';
+import {
+  Budget,
+  BudgetPeriod,
+  BudgetScope,
+  IBudget,
+  IBudgetNotify,
+} from '../models/Budget';
+import { CostTracking } from '../models/CostTracking';
+import { Assistant } from '../models/Assistant';
+import { Team } from '../models/Team';
+import { User } from '../models/User';
+import { ApiKey } from '../models/ApiKey';
+import { Inbox } from '../models/Inbox';
+import { emitWebhookEvent } from './webhook.service';
+import { sendEmail } from './sendgrid.service';
+import {
+  BadRequestError,
+  BudgetExceededError,
+  NotFoundError,
+} from '../utils/errors';
+
+/**
+ * Fields accepted when creating or updating a budget
+ */
+export interface BudgetInput {
+  name?: string;
+  scope?: BudgetScope;
+  targetId?: string;
+  period?: BudgetPeriod;
+  softLimit?: number | null;
+  hardLimit?: number | null;
+  hardLimitAction?: IBudget['hardLimitAction'];
+  downgradeModel?: { llmProvider: string; llmModel: string } | null;
+  notify?: Partial<IBudgetNotify>;
+  enabled?: boolean;
+}
+
+const BUDGET_INPUT_FIELDS: (keyof BudgetInput)[] = [
+  'name',
+  'scope',
+  'targetId',
+  'period',
+  'softLimit',
+  'hardLimit',
+  'hardLimitAction',
+  'downgradeModel',
+  'notify',
+  'enabled',
+];
+
+/**
+ * Who a model request is made for. Every budget covering one of these is
+ * checked.
+ */
+export interface BudgetContext {
+  companyId: string;
+  assistantId: string;
+  userId?: string;
+  teamIds?: string[];
+  apiKeyId?: string;
+}
+
+/**
+ * Outcome of a budget check that lets the request through. When set,
+ * `downgradeModel` replaces the assistant's model chain.
+ */
+export interface BudgetDecision {
+  downgradeModel?: { llmProvider: string; llmModel: string };
+  budgetId?: string;
+}
+
+/**
+ * A budget with its spend in the current window
+ */
+export interface BudgetStatus {
+  budget: IBudget;
+  spent: number;
+  periodStart: Date;
+  resetsAt: Date;
+  softLimitReached: boolean;
+  hardLimitReached: boolean;
+}
+
+type BudgetLimitLevel = 'soft' | 'hard';
+
+/**
+ * Start of the window containing `now`, in UTC
+ */
+export function getPeriodStart(period: BudgetPeriod, now = new Date()): Date {
+  return period === 'daily'
+    ? new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+      )
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Start of the window after the one containing `now`
+ */
+export function getPeriodEnd(period: BudgetPeriod, now = new Date()): Date {
+  const start = getPeriodStart(period, now);
+  return period === 'daily'
+    ? new Date(start.getTime() + 24 * 60 * 60 * 1000)
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Keep only the fields callers may set
+ */
+function pickBudgetInput(input: BudgetInput): BudgetInput {
+  return Object.fromEntries(
+    BUDGET_INPUT_FIELDS.filter((field) => input[field] !== undefined).map(
+      (field) => [field, input[field]],
+    ),
+  );
+}
+
+const TARGET_MODELS: Record<
+  Exclude<BudgetScope, 'company'>,
+  {
+    exists: (filter: Record<string, unknown>) => Promise<unknown>;
+    label: string;
+  }
+> = {
+  team: { exists: (filter) => Team.exists(filter), label: 'Team' },
+  assistant: {
+    exists: (filter) => Assistant.exists(filter),
+    label: 'Assistant',
+  },
+  user: { exists: (filter) => User.exists(filter), label: 'User' },
+  api_key: { exists: (filter) => ApiKey.exists(filter), label: 'API key' },
+};
+
+async function validateBudget(
+  companyId: string,
+  budget: Pick<
+    IBudget,
+    | 'scope'
+    | 'period'
+    | 'softLimit'
+    | 'hardLimit'
+    | 'hardLimitAction'
+    | 'downgradeModel'
+  > & { targetId?: unknown },
+): Promise<void> {
+  if (!['daily', 'monthly'].includes(budget.period)) {
+    throw new BadRequestError('period must be daily or monthly');
+  }
+  if (budget.scope === 'company') {
+    if (budget.targetId) {
+      throw new BadRequestError('Company budgets do not take a targetId');
+    }
+  } else {
+    const target = TARGET_MODELS[budget.scope];
+    if (!target) {
+      throw new BadRequestError(
+        'scope must be one of: company, team, assistant, user, api_key',
+      );
+    }
+    const targetId = budget.targetId?.toString();
+    const exists =
+      targetId &&
+      mongoose.Types.ObjectId.isValid(targetId) &&
+      (await target.exists({ _id: targetId, companyId }));
+    if (!exists) {
+      throw new NotFoundError(target.label);
+    }
+  }
+
+  if (budget.softLimit == null && budget.hardLimit == null) {
+    throw new BadRequestError('softLimit or hardLimit is required');
+  }
+  if (
+    budget.softLimit != null &&
+    budget.hardLimit != null &&
+    budget.softLimit > budget.hardLimit
+  ) {
+    throw new BadRequestError('softLimit cannot exceed hardLimit');
+  }
+  if (
+    budget.hardLimitAction === 'downgrade' &&
+    (!budget.downgradeModel?.llmProvider || !budget.downgradeModel?.llmModel)
+  ) {
+    throw new BadRequestError(
+      'downgradeModel (llmProvider and llmModel) is required to downgrade',
+    );
+  }
+}
+
+/**
+ * Sum the cost recorded against a budget since the start of its window
+ */
+export async function getBudgetSpend(
+  budget: Pick<IBudget, 'companyId' | 'scope' | 'targetId'>,
+  since: Date,
+): Promise<number> {
+  const match: Record<string, unknown> = {
+    companyId: new mongoose.Types.ObjectId(budget.companyId.toString()),
+    timestamp: { $gte: since },
+  };
+  switch (budget.scope) {
+    case 'team':
+      match.assistantId = {
+        $in: await Assistant.find({
+          companyId: budget.companyId,
+          teams: budget.targetId,
+        }).distinct('_id'),
+      };
+      break;
+    case 'assistant':
+      match.assistantId = budget.targetId;
+      break;
+    case 'user':
+      match.userId = budget.targetId;
+      break;
+    case 'api_key':
+      match['metadata.apiKeyId'] = budget.targetId?.toString();
+      break;
+  }
+
+  const [totals] = await CostTracking.aggregate([
+    { $match: match },
+    { $group: { _id: null, totalCost: { $sum: '$totalCost' } } },
+  ]);
+  return totals?.totalCost || 0;
+}
+
+async function getBudgetStatus(
+  budget: IBudget,
+  now = new Date(),
+): Promise<BudgetStatus> {
+  const periodStart = getPeriodStart(budget.period, now);
+  const spent = await getBudgetSpend(budget, periodStart);
+  return {
+    budget,
+    spent,
+    periodStart,
+    resetsAt: getPeriodEnd(budget.period, now),
+    softLimitReached: budget.softLimit != null && spent >= budget.softLimit,
+    hardLimitReached: budget.hardLimit != null && spent >= budget.hardLimit,
+  };
+}
+
+/**
+ * List a company's budgets with their spend in the current window
+ */
+export async function listBudgets(companyId: string): Promise<BudgetStatus[]> {
+  const budgets = await Budget.find({ companyId }).sort({ createdAt: 1 });
+  return Promise.all(budgets.map((budget) => getBudgetStatus(budget)));
+}
+
+/**
+ * Get a budget, scoped to the company
+ */
+export async function getBudget(
+  companyId: string,
+  budgetId: string,
+): Promise<IBudget | null> {
+  if (!mongoose.Types.ObjectId.isValid(budgetId)) {
+    return null;
+  }
+  return Budget.findOne({ _id: budgetId, companyId });
+}
+
+/**
+ * Get a budget with its spend in the current window
+ */
+export async function getBudgetWithStatus(
+  companyId: string,
+  budgetId: string,
+): Promise<BudgetStatus | null> {
+  const budget = await getBudget(companyId, budgetId);
+  return budget ? getBudgetStatus(budget) : null;
+}
+
+/**
+ * Create a budget. There is at most one budget per target and period.
+ */
+export async function createBudget(
+  companyId: string,
+  input: BudgetInput,
+  userId: string,
+): Promise<IBudget> {
+  input = pickBudgetInput(input);
+  if (!input.name || !input.scope || !input.period) {
+    throw new BadRequestError('name, scope and period are required');
+  }
+
+  const budget = new Budget({
+    ...input,
+    hardLimitAction: input.hardLimitAction || 'block',
+    companyId,
+    createdBy: userId,
+  });
+  await validateBudget(companyId, budget);
+  if (
+    await Budget.exists({
+      companyId,
+      scope: budget.scope,
+      targetId: budget.targetId,
+      period: budget.period,
+    })
+  ) {
+    throw new BadRequestError(
+      `A ${budget.period} budget already exists for this ${budget.scope}`,
+    );
+  }
+
+  return budget.save();
+}
+
+/**
+ * Update a budget. Changing a limit re-arms its notification for the
+ * current window.
+ */
+export async function updateBudget(
+  companyId: string,
+  budgetId: string,
+  input: BudgetInput,
+): Promise<IBudget> {
+  input = pickBudgetInput(input);
+  const budget = await getBudget(companyId, budgetId);
+  if (!budget) {
+    throw new NotFoundError('Budget');
+  }
+  if (input.scope !== undefined || input.targetId !== undefined) {
+    throw new BadRequestError(
+      'scope and targetId cannot be changed; create a new budget instead',
+    );
+  }
+
+  const { notify, ...fields } = input;
+  budget.set(fields);
+  if (notify) {
+    budget.set('notify', { ...budget.toObject().notify, ...notify });
+  }
+  if (input.softLimit !== undefined) {
+    budget.softNotifiedFor = undefined;
+  }
+  if (input.hardLimit !== undefined) {
+    budget.hardNotifiedFor = undefined;
+  }
+  await validateBudget(companyId, budget);
+
+  return budget.save();
+}
+
+/**
+ * Delete a budget
+ */
+export async function deleteBudget(
+  companyId: string,
+  budgetId: string,
+): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(budgetId)) {
+    return false;
+  }
+  const result = await Budget.deleteOne({ _id: budgetId, companyId });
+  return result.deletedCount > 0;
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Notify once per window that a budget reached a limit: webhook event,
+ * inbox notification and emails. The window marker is claimed atomically
+ * so concurrent requests notify once.
+ */
+async function notifyBudgetLimit(
+  status: BudgetStatus,
+  level: BudgetLimitLevel,
+  context: BudgetContext,
+): Promise<void> {
+  const { budget, spent, periodStart, resetsAt } = status;
+  const marker = level === 'soft' ? 'softNotifiedFor' : 'hardNotifiedFor';
+  const claimed = await Budget.updateOne(
+    { _id: budget._id, [marker]: { $ne: periodStart } },
+    { $set: { [marker]: periodStart } },
+  );
+  if (claimed.modifiedCount === 0) {
+    return;
+  }
+
+  const limit = (level === 'soft' ? budget.softLimit : budget.hardLimit)!;
+  const consequence =
+    level === 'soft'
+      ? ''
+      : budget.hardLimitAction === 'downgrade'
+        ? ` Requests now use ${budget.downgradeModel!.llmModel} until ${resetsAt.toISOString()}.`
+        : ` Requests are blocked until ${resetsAt.toISOString()}.`;
+  const message = `Budget "${budget.name}" reached its ${level} limit: ${formatUsd(
+    spent,
+  )} of ${formatUsd(limit)} this ${budget.period === 'daily' ? 'day' : 'month'}.${consequence}`;
+
+  emitWebhookEvent(
+    budget.companyId,
+    level === 'soft'
+      ? 'budget.soft_limit_reached'
+      : 'budget.hard_limit_reached',
+    {
+      budgetId: budget._id.toString(),
+      name: budget.name,
+      scope: budget.scope,
+      targetId: budget.targetId?.toString(),
+      period: budget.period,
+      limit,
+      spent,
+      hardLimitAction: level === 'hard' ? budget.hardLimitAction : undefined,
+      periodStart,
+      resetsAt,
+    },
+    context.assistantId,
+  );
+
+  if (budget.notify?.inbox) {
+    await new Inbox({
+      senderId: context.assistantId,
+      companyId: budget.companyId,
+      type: 'notification',
+      message,
+    }).save();
+  }
+
+  for (const to of budget.notify?.emails || []) {
+    const result = await sendEmail(budget.companyId.toString(), {
+      to,
+      subject: `Budget "${budget.name}" reached its ${level} limit`,
+      text: message,
+      html: `<p>${message
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')}</p>`,
+    });
+    if (!result.success) {
+      console.error(
+        `[BUDGET] Failed to email ${to} about budget ${budget._id}:`,
+        result.error,
+      );
+    }
+  }
+}
+
+/**
+ * Metadata for the cost records of a request: the API key it was made
+ * with and the budget that downgraded its model, if any
+ */
+export function buildBudgetCostMetadata(
+  apiKeyId: string | undefined,
+  decision: BudgetDecision,
+  base?: Record<string, any>,
+): Record<string, any> | undefined {
+  const metadata = {
+    ...base,
+    ...(apiKeyId && { apiKeyId }),
+    ...(decision.budgetId && { downgradedByBudget: decision.budgetId }),
+  };
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
+
+/**
+ * Check every enabled budget covering a request before the provider is
+ * called. Soft limits only notify. A reached hard limit either downgrades
+ * the request to the budget's model or refuses it.
+ * @throws BudgetExceededError when a blocking hard limit is reached
+ */
+export async function enforceBudgets(
+  context: BudgetContext,
+): Promise<BudgetDecision> {
+  if (!mongoose.Types.ObjectId.isValid(context.companyId)) {
+    return {};
+  }
+
+  const targets = [
+    { scope: 'assistant', id: context.assistantId },
+    { scope: 'user', id: context.userId },
+    { scope: 'api_key', id: context.apiKeyId },
+    ...(context.teamIds || []).map((id) => ({ scope: 'team', id })),
+  ].filter(
+    (target): target is { scope: string; id: string } =>
+      !!target.id && mongoose.Types.ObjectId.isValid(target.id),
+  );
+  const budgets = await Budget.find({
+    companyId: context.companyId,
+    enabled: true,
+    $or: [
+      { scope: 'company' },
+      ...targets.map((target) => ({
+        scope: target.scope,
+        targetId: target.id,
+      })),
+    ],
+  });
+  if (budgets.length === 0) {
+    return {};
+  }
+
+  const statuses = await Promise.all(
+    budgets.map((budget) => getBudgetStatus(budget)),
+  );
+  const notify = (status: BudgetStatus, level: BudgetLimitLevel) =>
+    notifyBudgetLimit(status, level, context).catch((error) =>
+      console.error(
+        `[BUDGET] Failed to send ${level} limit notification for budget ${status.budget._id}:`,
+        error,
+      ),
+    );
+
+  let decision: BudgetDecision = {};
+  for (const status of statuses) {
+    if (status.softLimitReached) {
+      notify(status, 'soft');
+    }
+    if (!status.hardLimitReached) {
+      continue;
+    }
+    notify(status, 'hard');
+
+    const { budget } = status;
+    if (budget.hardLimitAction === 'block' || !budget.downgradeModel) {
+      throw new BudgetExceededError(
+        `Budget "${budget.name}" has reached its ${budget.period} limit of ${formatUsd(
+          budget.hardLimit!,
+        )}`,
+        {
+          budgetId: budget._id.toString(),
+          scope: budget.scope,
+          targetId: budget.targetId?.toString(),
+          period: budget.period,
+          limit: budget.hardLimit,
+          spent: status.spent,
+          resetsAt: status.resetsAt,
+        },
+      );
+    }
+    decision = decision.downgradeModel
+      ? decision
+      : {
+          downgradeModel: {
+            llmProvider: budget.downgradeModel.llmProvider,
+            llmModel: budget.downgradeModel.llmModel,
+          },
+          budgetId: budget._id.toString(),
+        };
+  }
+  return decision;
+}
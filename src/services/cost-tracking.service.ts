@@ -1,6 +1,7 @@
 import { CostTracking, ICostTracking } from '../models/CostTracking';
 import mongoose from 'mongoose';
 import { CostTrackingInfo } from '../utils/cost-tracking';
+import { emitWebhookEvent } from './webhook.service';
 
 /**
  * Helper function to safely extract assistant ID and name from a record
@@ -124,10 +125,37 @@ export async function saveCostTracking(
         costInfo.sessionId === 'stateless-json'
           ? 'stateless'
           : 'non-streaming'),
+      status: costInfo.status || 'success',
+      attempt: costInfo.attempt,
+      fallbackFrom: costInfo.fallbackFrom,
+      errorType: costInfo.errorType,
+      errorMessage: costInfo.errorMessage,
+      metadata: costInfo.metadata,
       timestamp: costInfo.timestamp,
     });
 
     const saved = await costRecord.save();
+    emitWebhookEvent(
+      costInfo.companyId,
+      'cost.recorded',
+      {
+        costId: saved._id.toString(),
+        assistantId: costInfo.assistantId,
+        sessionId: saved.sessionId?.toString(),
+        userId: costInfo.userId,
+        provider: saved.provider,
+        model: saved.modelName,
+        inputTokens: saved.inputTokens,
+        outputTokens: saved.outputTokens,
+        totalTokens: saved.totalTokens,
+        totalCost: saved.totalCost,
+        requestType: saved.requestType,
+        status: saved.status,
+        metadata: saved.metadata,
+        timestamp: saved.timestamp,
+      },
+      costInfo.assistantId,
+    );
     // Cost tracking saved successfully
     return saved;
   } catch (error) {
@@ -215,8 +243,10 @@ export async function getCostSummary(
   endDate?: Date,
   provider?: string,
 ): Promise<CostSummary> {
+  // Failed model attempts carry no cost and would inflate request counts
   const filter: any = {
     companyId: new mongoose.Types.ObjectId(companyId),
+    status: { $ne: 'failed' },
   };
 
   if (startDate || endDate) {
@@ -328,6 +358,7 @@ export async function getDailyCosts(
   // Build match filter
   const matchFilter: any = {
     companyId: new mongoose.Types.ObjectId(companyId),
+    status: { $ne: 'failed' },
   };
 
   // Use provided dates or default to last N days
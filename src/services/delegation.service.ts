@@ -0,0 +1,746 @@
+// file path: /src/services/delegation.service.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import {
+  DelegationTask,
+  IDelegationBudget,
+  IDelegationTask,
+  TERMINAL_DELEGATION_STATUSES,
+} from '../models/DelegationTask';
+import { IJobRunCost } from '../models/ScheduledJobRun';
+import { Assistant } from '../models/Assistant';
+import { CostTracking } from '../models/CostTracking';
+import { Session } from '../models/Session';
+import {
+  executeAssistantStateless,
+  StatelessStepUsage,
+  statelessResponseToText,
+} from './assistant/stateless-execution.service';
+import { extractJson } from './eval.service';
+import { calculateCost } from '../utils/cost-tracking';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+
+/**
+ * Agent-to-agent delegation.
+ *
+ * A parent agent hands a task with structured input, an optional output
+ * JSON schema and a budget to another assistant. Tasks run in the
+ * background; the parent polls or awaits the result. Tasks a child
+ * delegates while running become its children, so each root task grows a
+ * tree whose cost is tracked per node.
+ *
+ * Every cost record a task produces carries its `delegationPath` (ancestor
+ * ids and its own id), so the spend of any subtree is one indexed query.
+ * Budgets are checked when a child is spawned (it must fit in what the
+ * parent has left), before each model step of a task and when it finishes.
+ * A task that times out has its model call aborted.
+ */
+
+// Levels of tasks below a root task's parent agent, root included
+const MAX_DELEGATION_DEPTH = 3;
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Stored output text is capped; structured output is stored in full
+const MAX_STORED_OUTPUT_CHARS = 20000;
+
+const WAIT_POLL_INTERVAL_MS = 1000;
+
+// Tasks only run in the process that created them. A task still running
+// this long after its timeout, or still queued this long after creation,
+// lost that process.
+const ORPHAN_GRACE_MS = 60 * 1000;
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+
+let recoveryTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Task being executed in the current async context. Assistant tools are
+ * cached per assistant, so this is how a delegation made from inside a
+ * running task finds its parent.
+ */
+const delegationScope = new AsyncLocalStorage<{ taskId: string }>();
+
+export const getCurrentDelegationTaskId = (): string | undefined =>
+  delegationScope.getStore()?.taskId;
+
+export interface DelegationTaskInput {
+  assistantId: string;
+  title?: string;
+  instructions: string;
+  input?: unknown;
+  outputSchema?: Record<string, unknown>;
+  budget?: IDelegationBudget;
+  sessionId?: string; // Ignored for child tasks, which use the root's
+  parentAssistantId?: string;
+  parentTaskId?: string;
+}
+
+export interface DelegationTreeNode {
+  task: IDelegationTask;
+  cost: IJobRunCost; // The task's own usage
+  totalCost: IJobRunCost; // The task and all its descendants
+  children: DelegationTreeNode[];
+}
+
+export interface DelegationTree {
+  sessionId: string;
+  totalCost: IJobRunCost;
+  tasks: DelegationTreeNode[];
+}
+
+const emptyCost = (): IJobRunCost => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  totalCost: 0,
+});
+
+const addCosts = (a: IJobRunCost, b: IJobRunCost): IJobRunCost => ({
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+  totalCost: a.totalCost + b.totalCost,
+});
+
+export const isTerminalDelegationStatus = (
+  status: IDelegationTask['status'],
+): boolean => TERMINAL_DELEGATION_STATUSES.includes(status);
+
+/**
+ * Message sent to the delegate: the instructions, the input as JSON and
+ * the schema the answer must follow
+ */
+export function buildDelegationPrompt(
+  task: Pick<IDelegationTask, 'instructions' | 'input' | 'outputSchema'>,
+): string {
+  const sections = [task.instructions.trim()];
+  if (task.input !== undefined) {
+    sections.push(
+      `# Input\n\`\`\`json\n${JSON.stringify(task.input, null, 2)}\n\`\`\``,
+    );
+  }
+  if (task.outputSchema) {
+    sections.push(
+      '# Output\nRespond with only a JSON value that matches this JSON schema:\n' +
+        `\`\`\`json\n${JSON.stringify(task.outputSchema, null, 2)}\n\`\`\``,
+    );
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Parse a delegate's answer against the expected output schema
+ * @throws Error listing the schema violations
+ */
+export function parseDelegationOutput(
+  text: string,
+  schema: Record<string, unknown>,
+): unknown {
+  const parsed = z.fromJSONSchema(schema).safeParse(extractJson(text));
+  if (!parsed.success) {
+    throw new Error(
+      `Output does not match the output schema: ${parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '$'}: ${issue.message}`)
+        .join('; ')}`,
+    );
+  }
+  return parsed.data;
+}
+
+function validateBudget(budget: IDelegationBudget = {}): IDelegationBudget {
+  const limits: IDelegationBudget = {};
+  for (const key of ['maxCost', 'maxTokens', 'timeoutMs'] as const) {
+    const value = budget[key];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (typeof value !== 'number' || !(value > 0)) {
+      throw new BadRequestError(`budget.${key} must be a positive number`);
+    }
+    limits[key] = value;
+  }
+  if (limits.timeoutMs !== undefined && limits.timeoutMs > MAX_TIMEOUT_MS) {
+    throw new BadRequestError(
+      `budget.timeoutMs cannot exceed ${MAX_TIMEOUT_MS}`,
+    );
+  }
+  return limits;
+}
+
+/**
+ * Budget of a child task: each limit must fit in what the parent has left
+ * and defaults to it
+ * @throws BadRequestError when the parent's budget is used up or too small
+ */
+export function resolveChildBudget(
+  parent: { budget: IDelegationBudget; spent: IJobRunCost; elapsedMs: number },
+  requested: IDelegationBudget = {},
+): IDelegationBudget {
+  const remaining: IDelegationBudget = {
+    maxCost:
+      parent.budget.maxCost !== undefined
+        ? parent.budget.maxCost - parent.spent.totalCost
+        : undefined,
+    maxTokens:
+      parent.budget.maxTokens !== undefined
+        ? parent.budget.maxTokens - parent.spent.totalTokens
+        : undefined,
+    timeoutMs:
+      parent.budget.timeoutMs !== undefined
+        ? parent.budget.timeoutMs - parent.elapsedMs
+        : undefined,
+  };
+
+  const budget: IDelegationBudget = {};
+  for (const key of ['maxCost', 'maxTokens', 'timeoutMs'] as const) {
+    const left = remaining[key];
+    if (left === undefined) {
+      budget[key] = requested[key];
+      continue;
+    }
+    if (left <= 0) {
+      throw new BadRequestError(`Parent task has no ${key} budget left`);
+    }
+    if (requested[key] !== undefined && requested[key] > left) {
+      throw new BadRequestError(
+        `budget.${key} exceeds the parent task's remaining ${key} (${left})`,
+      );
+    }
+    budget[key] = requested[key] ?? left;
+  }
+  return budget;
+}
+
+/**
+ * Arrange tasks into trees under the tasks whose parent is not in the list
+ */
+export function buildDelegationTree(
+  tasks: { task: IDelegationTask; cost: IJobRunCost }[],
+): DelegationTreeNode[] {
+  const nodes = new Map<string, DelegationTreeNode>(
+    tasks.map(({ task, cost }) => [
+      task._id.toString(),
+      { task, cost, totalCost: cost, children: [] },
+    ]),
+  );
+
+  const roots: DelegationTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.task.parentTaskId
+      ? nodes.get(node.task.parentTaskId.toString())
+      : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const total = (node: DelegationTreeNode): IJobRunCost => {
+    node.totalCost = node.children.reduce(
+      (sum, child) => addCosts(sum, total(child)),
+      node.cost,
+    );
+    return node.totalCost;
+  };
+  roots.forEach(total);
+  return roots;
+}
+
+/**
+ * Sum the cost records matching a filter, per delegation task
+ */
+async function getCostsByTask(
+  match: Record<string, unknown>,
+): Promise<Map<string, IJobRunCost>> {
+  const rows = await CostTracking.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: '$metadata.delegationTaskId',
+        inputTokens: { $sum: '$inputTokens' },
+        outputTokens: { $sum: '$outputTokens' },
+        totalTokens: { $sum: '$totalTokens' },
+        totalCost: { $sum: '$totalCost' },
+      },
+    },
+  ]);
+  return new Map(
+    rows.map(({ _id, ...cost }) => [String(_id), { ...emptyCost(), ...cost }]),
+  );
+}
+
+/**
+ * Usage of a task and all its descendants so far
+ */
+async function getSubtreeCost(taskId: string): Promise<IJobRunCost> {
+  const costs = await getCostsByTask({ 'metadata.delegationPath': taskId });
+  return [...costs.values()].reduce(addCosts, emptyCost());
+}
+
+async function assertAssistantInCompany(
+  assistantId: string,
+  companyId: string,
+): Promise<void> {
+  const exists =
+    mongoose.Types.ObjectId.isValid(assistantId) &&
+    (await Assistant.exists({ _id: assistantId, companyId }));
+  if (!exists) {
+    throw new NotFoundError('Assistant');
+  }
+}
+
+const withTimeout = async <T>(
+  promise: Promise<T>,
+  ms: number,
+  onTimeout: () => void,
+): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          onTimeout();
+          reject(new Error(`Task timed out after ${ms}ms`));
+        }, ms);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Thrown before a model step once the task's subtree spent its budget
+ */
+class DelegationBudgetExceeded extends Error {}
+
+/**
+ * Why spending exceeds a budget, if it does
+ */
+function describeBudgetOverrun(
+  budget: IDelegationBudget,
+  spent: Pick<IJobRunCost, 'totalCost' | 'totalTokens'>,
+): string | undefined {
+  const { maxCost, maxTokens } = budget;
+  if (maxCost !== undefined && spent.totalCost > maxCost) {
+    return `Spent $${spent.totalCost.toFixed(4)} of a $${maxCost} budget`;
+  }
+  if (maxTokens !== undefined && spent.totalTokens > maxTokens) {
+    return `Used ${spent.totalTokens} of a ${maxTokens} token budget`;
+  }
+  return undefined;
+}
+
+/**
+ * Run a task: call the delegate, validate its output, then record the
+ * outcome and cost. A task cancelled meanwhile keeps its cancelled status.
+ */
+async function executeTask(task: IDelegationTask): Promise<void> {
+  const taskId = task._id.toString();
+  const startedAt = new Date();
+  const started = await DelegationTask.findOneAndUpdate(
+    { _id: task._id, status: 'queued' },
+    { $set: { status: 'running', startedAt } },
+    { new: true },
+  );
+  if (!started) {
+    return; // Cancelled before it started
+  }
+
+  let outputText: string | undefined;
+  let output: unknown;
+  let error: string | undefined;
+  let budgetExceeded = false;
+  try {
+    const assistant = await Assistant.findOne({
+      _id: started.assistantId,
+      companyId: started.companyId,
+    });
+    if (!assistant) {
+      throw new Error('Assistant not found');
+    }
+
+    const delegationPath = [
+      ...started.ancestorIds.map((id) => id.toString()),
+      taskId,
+    ];
+    // Recorded subtree spend plus the running call's steps, which are
+    // only recorded once the call returns
+    const beforeStep = async (usage: StatelessStepUsage) => {
+      if (
+        started.budget.maxCost === undefined &&
+        started.budget.maxTokens === undefined
+      ) {
+        return;
+      }
+      const recorded = await getSubtreeCost(taskId);
+      const overrun = describeBudgetOverrun(started.budget, {
+        totalCost:
+          recorded.totalCost +
+          calculateCost(usage.model, usage.inputTokens, usage.outputTokens)
+            .totalCost,
+        totalTokens:
+          recorded.totalTokens + usage.inputTokens + usage.outputTokens,
+      });
+      if (overrun) {
+        throw new DelegationBudgetExceeded(overrun);
+      }
+    };
+    const abort = new AbortController();
+    const response = await withTimeout(
+      delegationScope.run({ taskId }, () =>
+        executeAssistantStateless(
+          assistant,
+          buildDelegationPrompt(started),
+          started.companyId.toString(),
+          started.createdBy?.toString(),
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { delegationTaskId: taskId, delegationPath },
+          { abortSignal: abort.signal, beforeStep },
+        ),
+      ),
+      started.budget.timeoutMs || DEFAULT_TIMEOUT_MS,
+      () => abort.abort(),
+    );
+    outputText = statelessResponseToText(response);
+    if (started.outputSchema) {
+      output = parseDelegationOutput(outputText, started.outputSchema);
+    }
+  } catch (err: any) {
+    error = err.message || String(err);
+    budgetExceeded = err instanceof DelegationBudgetExceeded;
+  }
+
+  const [ownCost, subtreeCost] = await Promise.all([
+    getCostsByTask({
+      'metadata.delegationPath': taskId,
+      'metadata.delegationTaskId': taskId,
+    }).then((costs) => costs.get(taskId) || emptyCost()),
+    getSubtreeCost(taskId),
+  ]);
+
+  let status: IDelegationTask['status'] = error ? 'failed' : 'succeeded';
+  const overrun = error
+    ? undefined
+    : describeBudgetOverrun(started.budget, subtreeCost);
+  if (budgetExceeded || overrun) {
+    status = 'budget_exceeded';
+    error = error || overrun;
+  }
+
+  const finishedAt = new Date();
+  await DelegationTask.updateOne(
+    { _id: task._id, status: 'running' },
+    {
+      $set: {
+        status,
+        output,
+        outputText: outputText?.slice(0, MAX_STORED_OUTPUT_CHARS),
+        error,
+        cost: ownCost,
+        finishedAt,
+        duration: finishedAt.getTime() - startedAt.getTime(),
+      },
+    },
+  );
+
+  console.log(
+    `[DELEGATION] Task ${taskId} (${started.title}) ${status}, subtree cost $${subtreeCost.totalCost.toFixed(4)}`,
+  );
+}
+
+/**
+ * Delegate a task to an assistant. Returns the queued task; it runs in the
+ * background and its document is updated when it finishes.
+ */
+export async function createDelegationTask(
+  companyId: string,
+  input: DelegationTaskInput,
+  userId?: string,
+): Promise<IDelegationTask> {
+  if (!input.assistantId || !input.instructions?.trim()) {
+    throw new BadRequestError('assistantId and instructions are required');
+  }
+  await assertAssistantInCompany(input.assistantId, companyId);
+
+  if (input.outputSchema) {
+    try {
+      z.fromJSONSchema(input.outputSchema);
+    } catch {
+      throw new BadRequestError('outputSchema is not a valid JSON schema');
+    }
+  }
+
+  let budget = validateBudget(input.budget);
+  let parent: IDelegationTask | null = null;
+  if (input.parentTaskId) {
+    parent = await getDelegationTask(companyId, input.parentTaskId);
+    if (!parent) {
+      throw new NotFoundError('Parent delegation task');
+    }
+    if (parent.status !== 'running') {
+      throw new BadRequestError('Parent delegation task is not running');
+    }
+    if (parent.ancestorIds.length + 1 >= MAX_DELEGATION_DEPTH) {
+      throw new BadRequestError(
+        `Delegation is limited to ${MAX_DELEGATION_DEPTH} levels`,
+      );
+    }
+    budget = resolveChildBudget(
+      {
+        budget: parent.budget,
+        spent: await getSubtreeCost(parent._id.toString()),
+        elapsedMs: Date.now() - (parent.startedAt?.getTime() ?? Date.now()),
+      },
+      budget,
+    );
+  }
+
+  let createdBy = userId || parent?.createdBy?.toString();
+  if (
+    !createdBy &&
+    input.sessionId &&
+    mongoose.Types.ObjectId.isValid(input.sessionId)
+  ) {
+    const session = await Session.findById(input.sessionId)
+      .select('userId')
+      .lean();
+    createdBy = session?.userId?.toString();
+  }
+
+  const task = await new DelegationTask({
+    companyId,
+    sessionId: parent ? parent.sessionId : input.sessionId,
+    parentTaskId: parent?._id,
+    ancestorIds: parent ? [...parent.ancestorIds, parent._id] : [],
+    parentAssistantId: input.parentAssistantId,
+    assistantId: input.assistantId,
+    createdBy,
+    title: input.title?.trim() || input.instructions.trim().slice(0, 80),
+    instructions: input.instructions,
+    input: input.input,
+    outputSchema: input.outputSchema,
+    budget: {
+      ...budget,
+      timeoutMs: Math.min(
+        budget.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        MAX_TIMEOUT_MS,
+      ),
+    },
+    status: 'queued',
+  }).save();
+
+  executeTask(task).catch((error) =>
+    console.error(`[DELEGATION] Task ${task._id} failed:`, error),
+  );
+  return task;
+}
+
+/**
+ * Get a delegation task, scoped to the company
+ */
+export async function getDelegationTask(
+  companyId: string,
+  taskId: string,
+): Promise<IDelegationTask | null> {
+  if (!mongoose.Types.ObjectId.isValid(taskId)) {
+    return null;
+  }
+  return DelegationTask.findOne({ _id: taskId, companyId });
+}
+
+/**
+ * Wait until a task finishes or `timeoutMs` passes, then return it in
+ * whatever state it is
+ */
+export async function waitForDelegationTask(
+  companyId: string,
+  taskId: string,
+  timeoutMs: number,
+): Promise<IDelegationTask> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const task = await getDelegationTask(companyId, taskId);
+    if (!task) {
+      throw new NotFoundError('Delegation task');
+    }
+    if (isTerminalDelegationStatus(task.status) || Date.now() >= deadline) {
+      return task;
+    }
+    await new Promise((r) =>
+      setTimeout(r, Math.min(WAIT_POLL_INTERVAL_MS, deadline - Date.now())),
+    );
+  }
+}
+
+/**
+ * Cancel a task and its unfinished descendants. Work already in flight
+ * completes, but its result is discarded.
+ */
+export async function cancelDelegationTask(
+  companyId: string,
+  taskId: string,
+): Promise<IDelegationTask> {
+  const task = await getDelegationTask(companyId, taskId);
+  if (!task) {
+    throw new NotFoundError('Delegation task');
+  }
+  if (isTerminalDelegationStatus(task.status)) {
+    throw new BadRequestError(`Delegation task is already ${task.status}`);
+  }
+
+  const finishedAt = new Date();
+  await DelegationTask.updateMany(
+    {
+      companyId,
+      $or: [{ _id: task._id }, { ancestorIds: task._id }],
+      status: { $in: ['queued', 'running'] },
+    },
+    { $set: { status: 'cancelled', finishedAt } },
+  );
+  return (await getDelegationTask(companyId, taskId)) as IDelegationTask;
+}
+
+/**
+ * Load tasks with their live cost, which includes usage of tasks still
+ * running
+ */
+async function loadTree(
+  tasks: IDelegationTask[],
+  costMatch: Record<string, unknown>,
+): Promise<DelegationTreeNode[]> {
+  const costs = await getCostsByTask(costMatch);
+  return buildDelegationTree(
+    tasks.map((task) => ({
+      task,
+      cost: costs.get(task._id.toString()) || emptyCost(),
+    })),
+  );
+}
+
+/**
+ * All delegation trees started from a session, with per-task and total cost
+ */
+export async function getSessionDelegationTree(
+  companyId: string,
+  sessionId: string,
+): Promise<DelegationTree> {
+  const tasks = await DelegationTask.find({ companyId, sessionId }).sort({
+    createdAt: 1,
+  });
+  const tree = await loadTree(tasks, {
+    'metadata.delegationPath': {
+      $in: tasks.map((task) => task._id.toString()),
+    },
+  });
+  return {
+    sessionId,
+    totalCost: tree.reduce(
+      (sum, node) => addCosts(sum, node.totalCost),
+      emptyCost(),
+    ),
+    tasks: tree,
+  };
+}
+
+/**
+ * A task with all its descendants
+ */
+export async function getDelegationSubtree(
+  companyId: string,
+  taskId: string,
+): Promise<DelegationTreeNode> {
+  const task = await getDelegationTask(companyId, taskId);
+  if (!task) {
+    throw new NotFoundError('Delegation task');
+  }
+  const descendants = await DelegationTask.find({
+    companyId,
+    ancestorIds: task._id,
+  }).sort({ createdAt: 1 });
+  const [root] = await loadTree([task, ...descendants], {
+    'metadata.delegationPath': taskId,
+  });
+  return root;
+}
+
+/**
+ * Settle tasks whose process went away: queued tasks that were never
+ * started are run here, running tasks past their timeout are failed
+ */
+export async function recoverOrphanedDelegationTasks(
+  now: Date = new Date(),
+): Promise<{ requeued: number; failed: number }> {
+  const queued = await DelegationTask.find({
+    status: 'queued',
+    createdAt: { $lte: new Date(now.getTime() - ORPHAN_GRACE_MS) },
+  });
+  for (const task of queued) {
+    executeTask(task).catch((error) =>
+      console.error(`[DELEGATION] Task ${task._id} failed:`, error),
+    );
+  }
+
+  const running = await DelegationTask.find({ status: 'running' })
+    .select('startedAt budget')
+    .lean();
+  const orphaned = running
+    .filter(
+      (task) =>
+        (task.startedAt?.getTime() ?? 0) +
+          (task.budget?.timeoutMs || DEFAULT_TIMEOUT_MS) +
+          ORPHAN_GRACE_MS <=
+        now.getTime(),
+    )
+    .map((task) => task._id);
+  const { modifiedCount } = orphaned.length
+    ? await DelegationTask.updateMany(
+        { _id: { $in: orphaned }, status: 'running' },
+        {
+          $set: {
+            status: 'failed',
+            error: 'Interrupted: the process running the task stopped',
+            finishedAt: now,
+          },
+        },
+      )
+    : { modifiedCount: 0 };
+
+  if (queued.length || modifiedCount) {
+    console.log(
+      `[DELEGATION] Recovered ${queued.length} queued and failed ${modifiedCount} interrupted tasks`,
+    );
+  }
+  return { requeued: queued.length, failed: modifiedCount };
+}
+
+/**
+ * Start recovering orphaned tasks, beginning with those left by the last
+ * shutdown
+ */
+export function startDelegationRecovery(): void {
+  if (recoveryTimer) {
+    return;
+  }
+  const poll = () =>
+    recoverOrphanedDelegationTasks().catch((error) =>
+      console.error('[DELEGATION] Error recovering tasks:', error),
+    );
+  void poll();
+  recoveryTimer = setInterval(poll, RECOVERY_INTERVAL_MS);
+}
+
+export function stopDelegationRecovery(): void {
+  if (recoveryTimer) {
+    clearInterval(recoveryTimer);
+    recoveryTimer = null;
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  DocumentFormat,
+  DocumentSection,
+  DocumentTable,
+  ExtractedDocument,
+} from './document-extractor';
+
+/**
+ * Intermediate representation shared by the extractors: a flat sequence
+ * of headings, paragraphs and tables in reading order
+ */
+export type DocumentBlock =
+  | { type: 'heading'; text: string; level: number }
+  | { type: 'text'; text: string }
+  | { type: 'table'; rows: string[][] };
+
+export const collapseWhitespace = (text: string): string =>
+  text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Render rows as a markdown table. The first row is used as the header and
+ * short rows are padded.
+ */
+export const formatTable = (rows: string[][]): string => {
+  const width = Math.max(...rows.map((row) => row.length));
+  const formatRow = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) =>
+      (row[i] ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' '),
+    ).join(' | ')} |`;
+
+  return [
+    formatRow(rows[0]),
+    formatRow(new Array(width).fill('---')),
+    ...rows.slice(1).map(formatRow),
+  ].join('\n');
+};
+
+/**
+ * Drop empty rows and columns so layout tables don't produce noise
+ */
+export const cleanTableRows = (rows: string[][]): string[][] => {
+  const nonEmptyRows = rows.filter((row) => row.some((cell) => cell));
+  const width = Math.max(0, ...nonEmptyRows.map((row) => row.length));
+  const usedColumns = Array.from({ length: width }, (_, i) => i).filter((i) =>
+    nonEmptyRows.some((row) => row[i]),
+  );
+  return nonEmptyRows.map((row) => usedColumns.map((i) => row[i] ?? ''));
+};
+
+export const renderBlock = (block: DocumentBlock): string => {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(Math.min(block.level, 6))} ${block.text}`;
+    case 'table':
+      return formatTable(block.rows);
+    default:
+      return block.text;
+  }
+};
+
+/**
+ * Build a document from blocks. Each heading starts a new section titled
+ * with the heading; content before the first heading forms an untitled
+ * section.
+ */
+export const blocksToDocument = (
+  format: DocumentFormat,
+  blocks: DocumentBlock[],
+  metadata: ExtractedDocument['metadata'] = {},
+): ExtractedDocument => {
+  const sections: DocumentSection[] = [];
+  const tables: DocumentTable[] = [];
+  let current: DocumentSection | undefined;
+  let parts: string[] = [];
+
+  const closeSection = () => {
+    if (current && (current.title || parts.length > 0)) {
+      sections.push({ ...current, text: parts.join('\n\n') });
+    }
+    parts = [];
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      closeSection();
+      current = { title: block.text, level: block.level, text: '' };
+      continue;
+    }
+    current = current ?? { text: '' };
+    if (block.type === 'table') {
+      tables.push({ section: current.title, rows: block.rows });
+    }
+    parts.push(renderBlock(block));
+  }
+  closeSection();
+
+  return {
+    format,
+    text: blocks.map(renderBlock).join('\n\n'),
+    sections,
+    tables,
+    metadata: {
+      ...metadata,
+      title:
+        metadata.title ??
+        blocks.find(
+          (block): block is Extract<DocumentBlock, { type: 'heading' }> =>
+            block.type === 'heading' && block.level === 1,
+        )?.text,
+    },
+  };
+};
@@ -0,0 +1,176 @@
+import { extractDocx } from './docx.extractor';
+import { extractHtml } from './html.extractor';
+import { extractMarkdown } from './markdown.extractor';
+import { extractPdf } from './pdf.extractor';
+import { extractPptx } from './pptx.extractor';
+import { blocksToDocument } from './blocks';
+import { openPackage } from './ooxml';
+
+export type DocumentFormat =
+  'pdf' | 'docx' | 'pptx' | 'html' | 'markdown' | 'text';
+
+export interface DocumentSection {
+  title?: string;
+  level?: number; // Heading level, 1 = top level
+  page?: number; // PDF page or PPTX slide number
+  text: string;
+}
+
+export interface DocumentTable {
+  page?: number;
+  section?: string;
+  rows: string[][]; // First row is the header
+}
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  /** Full text with page/slide markers, markdown headings and tables */
+  text: string;
+  sections: DocumentSection[];
+  tables: DocumentTable[];
+  metadata: {
+    title?: string;
+    pageCount?: number;
+  };
+}
+
+export interface DocumentSource {
+  fileName?: string;
+  mimeType?: string;
+}
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+    'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation':
+    'pptx',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  html: 'html',
+  htm: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+};
+
+const TEXT_MIME_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/x-yaml',
+];
+
+const isZip = (buffer: Buffer) =>
+  buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50;
+
+/**
+ * Heuristic for untyped content: valid UTF-8 without NUL bytes
+ */
+const looksLikeText = (buffer: Buffer): boolean => {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.includes(0)) {
+    return false;
+  }
+  try {
+    // Streaming mode tolerates a character cut off at the sample boundary
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const detectPackageFormat = (buffer: Buffer): DocumentFormat | undefined => {
+  try {
+    const { partPaths } = openPackage(buffer);
+    if (partPaths.includes('word/document.xml')) {
+      return 'docx';
+    }
+    if (partPaths.includes('ppt/presentation.xml')) {
+      return 'pptx';
+    }
+  } catch {
+    // Not a readable ZIP archive
+  }
+  return undefined;
+};
+
+/**
+ * Work out how a file should be extracted from its content, MIME type and
+ * file name. Returns undefined for binary formats that carry no
+ * extractable text (images, archives, ...).
+ */
+export const detectDocumentFormat = (
+  buffer: Buffer,
+  source: DocumentSource = {},
+): DocumentFormat | undefined => {
+  const mimeType = source.mimeType?.split(';')[0].trim().toLowerCase();
+  const extension = source.fileName?.split('.').pop()?.toLowerCase();
+  const declared =
+    (mimeType && MIME_FORMATS[mimeType]) ||
+    (extension && EXTENSION_FORMATS[extension]);
+
+  if (buffer.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'pdf';
+  }
+  if (isZip(buffer)) {
+    return declared === 'docx' || declared === 'pptx'
+      ? declared
+      : detectPackageFormat(buffer);
+  }
+  if (declared && declared !== 'pdf') {
+    return declared;
+  }
+  if (
+    mimeType?.startsWith('text/') ||
+    (mimeType && TEXT_MIME_TYPES.includes(mimeType)) ||
+    looksLikeText(buffer)
+  ) {
+    return 'text';
+  }
+  return undefined;
+};
+
+/**
+ * Convert a document into structured text. Headings become markdown
+ * headings, PDF pages and slides get `--- Page N ---` style markers and
+ * tables are rendered as markdown tables.
+ * @throws Error if the content has no extractable text
+ */
+export const extractDocument = async (
+  buffer: Buffer,
+  source: DocumentSource = {},
+): Promise<ExtractedDocument> => {
+  const format = detectDocumentFormat(buffer, source);
+
+  switch (format) {
+    case 'pdf':
+      return extractPdf(buffer);
+    case 'docx':
+      return extractDocx(buffer);
+    case 'pptx':
+      return extractPptx(buffer);
+    case 'html':
+      return extractHtml(buffer.toString('utf-8'));
+    case 'markdown':
+      return extractMarkdown(buffer.toString('utf-8'));
+    case 'text':
+      return blocksToDocument('text', [
+        { type: 'text', text: buffer.toString('utf-8') },
+      ]);
+    default:
+      throw new Error(
+        `Unsupported document type: ${
+          source.mimeType || source.fileName || 'unknown'
+        }`,
+      );
+  }
+};
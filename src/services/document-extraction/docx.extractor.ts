@@ -0,0 +1,160 @@
+import { CheerioAPI } from 'cheerio';
+import { ExtractedDocument } from './document-extractor';
+import { blocksToDocument, cleanTableRows, DocumentBlock } from './blocks';
+import { loadXml, openPackage, OoxmlPackage, readCoreTitle } from './ooxml';
+
+/**
+ * Heading levels by paragraph style ID. Style IDs are localized, so they
+ * are resolved through the style names ("heading 1", "Title").
+ */
+const readHeadingStyles = (pkg: OoxmlPackage): Map<string, number> => {
+  const levels = new Map<string, number>();
+  const xml = pkg.readPart('word/styles.xml');
+  if (!xml) {
+    return levels;
+  }
+
+  const $ = loadXml(xml);
+  $('w\\:style').each((_, style) => {
+    const styleId = $(style).attr('w:styleId');
+    const name = $(style).children('w\\:name').attr('w:val')?.toLowerCase();
+    const heading = name?.match(/^heading (\d)$/);
+    if (styleId && heading) {
+      levels.set(styleId, Number(heading[1]));
+    } else if (styleId && name === 'title') {
+      levels.set(styleId, 1);
+    }
+  });
+  return levels;
+};
+
+const paragraphText = ($: CheerioAPI, paragraph: any): string =>
+  $(paragraph)
+    .find('w\\:t, w\\:tab, w\\:br, w\\:cr')
+    .map((_, node) => {
+      const name = (node as any).tagName;
+      if (name === 'w:t') {
+        return $(node).text();
+      }
+      return name === 'w:tab' ? '\t' : '\n';
+    })
+    .get()
+    .join('')
+    .trim();
+
+const headingLevel = (
+  $: CheerioAPI,
+  paragraph: any,
+  headingStyles: Map<string, number>,
+): number | undefined => {
+  const properties = $(paragraph).children('w\\:pPr');
+  const styleId = properties.children('w\\:pStyle').attr('w:val');
+  if (styleId && headingStyles.has(styleId)) {
+    return headingStyles.get(styleId);
+  }
+  const heading = styleId?.match(/^Heading(\d)$/);
+  if (heading) {
+    return Number(heading[1]);
+  }
+  const outlineLevel = properties.children('w\\:outlineLvl').attr('w:val');
+  return outlineLevel !== undefined && Number(outlineLevel) < 9
+    ? Number(outlineLevel) + 1
+    : undefined;
+};
+
+const tableRows = ($: CheerioAPI, table: any): string[][] =>
+  $(table)
+    .children('w\\:tr')
+    .map((_, row) => [
+      $(row)
+        .children('w\\:tc')
+        .map((_, cell) =>
+          $(cell)
+            .find('w\\:p')
+            .map((_, paragraph) => paragraphText($, paragraph))
+            .get()
+            .filter(Boolean)
+            .join('\n'),
+        )
+        .get(),
+    ])
+    .get();
+
+/**
+ * Extract a Word document: paragraphs in reading order, heading styles as
+ * markdown headings, list items as bullets and tables as markdown tables
+ */
+export const extractDocx = async (
+  buffer: Buffer,
+): Promise<ExtractedDocument> => {
+  const pkg = openPackage(buffer);
+  const xml = pkg.readPart('word/document.xml');
+  if (!xml) {
+    throw new Error('Invalid DOCX file: word/document.xml not found');
+  }
+
+  const $ = loadXml(xml);
+  const headingStyles = readHeadingStyles(pkg);
+  const blocks: DocumentBlock[] = [];
+  let inList = false;
+
+  const visit = (element: any) => {
+    const name = element.tagName;
+    if (name === 'w:sdt') {
+      // Content controls wrap ordinary body content
+      $(element)
+        .children('w\\:sdtContent')
+        .children()
+        .each((_, child) => {
+          visit(child);
+        });
+      return;
+    }
+
+    if (name === 'w:tbl') {
+      const rows = cleanTableRows(tableRows($, element));
+      if (rows.length > 0) {
+        blocks.push({ type: 'table', rows });
+      }
+      inList = false;
+      return;
+    }
+
+    if (name !== 'w:p') {
+      return;
+    }
+
+    const text = paragraphText($, element);
+    if (!text) {
+      return;
+    }
+
+    const level = headingLevel($, element, headingStyles);
+    const numbering = $(element).children('w\\:pPr').children('w\\:numPr');
+    if (level) {
+      blocks.push({ type: 'heading', text, level });
+      inList = false;
+    } else if (numbering.length > 0) {
+      const depth = Number(numbering.children('w\\:ilvl').attr('w:val') || 0);
+      const item = `${'  '.repeat(depth)}- ${text}`;
+      const previous = blocks[blocks.length - 1];
+      if (inList && previous?.type === 'text') {
+        previous.text += `\n${item}`;
+      } else {
+        blocks.push({ type: 'text', text: item });
+      }
+      inList = true;
+    } else {
+      blocks.push({ type: 'text', text });
+      inList = false;
+    }
+  };
+
+  $('w\\:body')
+    .children()
+    .each((_, element) => {
+      visit(element);
+    });
+
+  return blocksToDocument('docx', blocks, { title: readCoreTitle(pkg) });
+};
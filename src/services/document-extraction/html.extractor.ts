@@ -0,0 +1,180 @@
+import * as cheerio from 'cheerio';
+import { ExtractedDocument } from './document-extractor';
+import {
+  blocksToDocument,
+  cleanTableRows,
+  collapseWhitespace,
+  DocumentBlock,
+} from './blocks';
+
+const SKIPPED_TAGS = new Set([
+  'head',
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'canvas',
+  'iframe',
+  'button',
+  'select',
+]);
+
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'body',
+  'dd',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'header',
+  'hr',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'section',
+  'summary',
+  'ul',
+]);
+
+const HEADING = /^h([1-6])$/;
+
+/**
+ * Extract an HTML page into headings, paragraphs, bullet lists and tables.
+ * Scripts, styles and form controls are dropped.
+ */
+export const extractHtml = async (html: string): Promise<ExtractedDocument> => {
+  const $ = cheerio.load(html);
+  const blocks: DocumentBlock[] = [];
+  let inline = '';
+
+  const flush = (prefix = '') => {
+    const text = inline
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .join('\n');
+    if (text) {
+      blocks.push({ type: 'text', text: prefix + text });
+    }
+    inline = '';
+  };
+
+  const visit = (node: any, listDepth: number) => {
+    if (node.type === 'text') {
+      inline += node.data.replace(/\s+/g, ' ');
+      return;
+    }
+    if (node.type !== 'tag' && node.type !== 'root') {
+      return;
+    }
+
+    const name: string = node.name ?? '';
+    if (SKIPPED_TAGS.has(name)) {
+      return;
+    }
+
+    const heading = name.match(HEADING);
+    if (heading) {
+      flush();
+      const text = collapseWhitespace($(node).text());
+      if (text) {
+        blocks.push({ type: 'heading', text, level: Number(heading[1]) });
+      }
+      return;
+    }
+
+    if (name === 'table') {
+      flush();
+      const rows = cleanTableRows(
+        $(node)
+          .find('tr')
+          .filter((_, row) => $(row).closest('table').is(node))
+          .map((_, row) => [
+            $(row)
+              .children('th, td')
+              .map((_, cell) => collapseWhitespace($(cell).text()))
+              .get(),
+          ])
+          .get(),
+      );
+      if (rows.length > 0) {
+        blocks.push({ type: 'table', rows });
+      }
+      return;
+    }
+
+    if (name === 'pre') {
+      flush();
+      const text = $(node).text().replace(/\n+$/, '');
+      if (text.trim()) {
+        blocks.push({ type: 'text', text: `\`\`\`\n${text}\n\`\`\`` });
+      }
+      return;
+    }
+
+    if (name === 'br') {
+      inline += '\n';
+      return;
+    }
+
+    if (name === 'li') {
+      flush();
+      const indent = '  '.repeat(Math.max(listDepth - 1, 0));
+      for (const child of node.children ?? []) {
+        if (child.name === 'ul' || child.name === 'ol') {
+          flush(`${indent}- `);
+          visit(child, listDepth + 1);
+        } else {
+          visit(child, listDepth);
+        }
+      }
+      flush(`${indent}- `);
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(name);
+    if (isBlock) {
+      flush();
+    }
+    const depth = name === 'ul' || name === 'ol' ? listDepth + 1 : listDepth;
+    for (const child of node.children ?? []) {
+      visit(child, depth);
+    }
+    if (isBlock) {
+      flush();
+    }
+  };
+
+  visit($.root()[0], 0);
+  flush();
+
+  // Keep consecutive list items together in one block
+  const merged = blocks.reduce<DocumentBlock[]>((result, block) => {
+    const previous = result[result.length - 1];
+    if (
+      block.type === 'text' &&
+      previous?.type === 'text' &&
+      /^\s*- /.test(block.text) &&
+      /^\s*- /.test(previous.text.split('\n').pop() ?? '')
+    ) {
+      previous.text += `\n${block.text}`;
+    } else {
+      result.push(block);
+    }
+    return result;
+  }, []);
+
+  const title = collapseWhitespace($('head > title').text());
+  return blocksToDocument('html', merged, { title: title || undefined });
+};
@@ -0,0 +1,88 @@
+import { ExtractedDocument } from './document-extractor';
+import { blocksToDocument, DocumentBlock } from './blocks';
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string): string[] =>
+  line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+
+/**
+ * Parse markdown into sections at ATX headings and collect pipe tables.
+ * The text is returned unchanged since it is already markdown.
+ */
+export const extractMarkdown = async (
+  markdown: string,
+): Promise<ExtractedDocument> => {
+  const lines = markdown.split(/\r?\n/);
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+  let fence: string | undefined;
+
+  const flush = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) {
+      blocks.push({ type: 'text', text });
+    }
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(FENCE);
+
+    if (fence) {
+      paragraph.push(line);
+      if (fenceMatch?.[1] === fence) {
+        fence = undefined;
+        flush();
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      paragraph.push(line);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      blocks.push({
+        type: 'heading',
+        text: heading[2],
+        level: heading[1].length,
+      });
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_SEPARATOR.test(lines[i + 1] ?? '')) {
+      flush();
+      const rows = [splitTableRow(line)];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'table', rows });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return { ...blocksToDocument('markdown', blocks), text: markdown };
+};
@@ -0,0 +1,85 @@
+import * as cheerio from 'cheerio';
+import * as XLSX from 'xlsx';
+
+/**
+ * Helpers for Office Open XML (DOCX/PPTX) packages. The ZIP container is
+ * read with the CFB reader bundled in `xlsx`.
+ */
+
+export interface OoxmlPackage {
+  /** Read a part as a string, undefined if it doesn't exist */
+  readPart: (partPath: string) => string | undefined;
+  partPaths: string[];
+}
+
+export const openPackage = (buffer: Buffer): OoxmlPackage => {
+  const container = XLSX.CFB.read(buffer, { type: 'buffer' });
+  const root = container.FullPaths[0];
+
+  return {
+    readPart: (partPath: string) => {
+      const entry = XLSX.CFB.find(container, `/${partPath}`);
+      return entry?.content
+        ? Buffer.from(entry.content).toString('utf-8')
+        : undefined;
+    },
+    partPaths: container.FullPaths.filter(
+      (fullPath: string) => !fullPath.endsWith('/'),
+    ).map((fullPath: string) => fullPath.slice(root.length)),
+  };
+};
+
+export const loadXml = (xml: string) => cheerio.load(xml, { xml: true });
+
+/**
+ * Map of relationship IDs to target part paths for a part, resolved
+ * relative to the part's directory
+ */
+export const readRelationships = (
+  pkg: OoxmlPackage,
+  partPath: string,
+): Map<string, string> => {
+  const slash = partPath.lastIndexOf('/');
+  const directory = partPath.slice(0, slash + 1);
+  const xml = pkg.readPart(
+    `${directory}_rels/${partPath.slice(slash + 1)}.rels`,
+  );
+  const relationships = new Map<string, string>();
+  if (!xml) {
+    return relationships;
+  }
+
+  const $ = loadXml(xml);
+  $('Relationship').each((_, element) => {
+    const id = $(element).attr('Id');
+    const target = $(element).attr('Target');
+    if (id && target && $(element).attr('TargetMode') !== 'External') {
+      relationships.set(id, resolvePartPath(directory, target));
+    }
+  });
+  return relationships;
+};
+
+const resolvePartPath = (directory: string, target: string): string => {
+  if (target.startsWith('/')) {
+    return target.slice(1);
+  }
+  const segments = directory.split('/').filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+};
+
+/**
+ * Document title from the package's core properties
+ */
+export const readCoreTitle = (pkg: OoxmlPackage): string | undefined => {
+  const xml = pkg.readPart('docProps/core.xml');
+  const title = xml && loadXml(xml)('dc\\:title').first().text().trim();
+  return title || undefined;
+};
@@ -0,0 +1,144 @@
+import pdfParse from 'pdf-parse';
+import {
+  DocumentSection,
+  DocumentTable,
+  ExtractedDocument,
+} from './document-extractor';
+import { formatTable } from './blocks';
+
+interface TextItem {
+  str: string;
+  width: number;
+  height: number;
+  transform: number[]; // [scaleX, skewY, skewX, scaleY, x, y]
+}
+
+interface PageLine {
+  y: number;
+  cells: string[];
+}
+
+// Horizontal gap (relative to font size) that separates table columns
+const COLUMN_GAP = 2;
+
+/**
+ * Group a page's text items into lines. Items on a line separated by a
+ * wide gap are kept as separate cells so tables can be recovered.
+ */
+const groupLines = (items: TextItem[]): PageLine[] => {
+  const lines: PageLine[] = [];
+  let previous: TextItem | undefined;
+
+  for (const item of items) {
+    const [, , , scaleY, x, y] = item.transform;
+    const fontSize = Math.abs(scaleY) || item.height || 10;
+    const line = lines[lines.length - 1];
+
+    if (!line || !previous || Math.abs(line.y - y) > fontSize / 2) {
+      lines.push({ y, cells: [item.str] });
+    } else {
+      const gap = x - (previous.transform[4] + previous.width);
+      const cells = line.cells;
+      if (gap > fontSize * COLUMN_GAP) {
+        cells.push(item.str);
+      } else {
+        const separator =
+          gap > fontSize * 0.15 && !/\s$/.test(cells[cells.length - 1])
+            ? ' '
+            : '';
+        cells[cells.length - 1] += separator + item.str;
+      }
+    }
+    previous = item;
+  }
+
+  return lines
+    .map((line) => ({
+      ...line,
+      cells: line.cells.map((cell) => cell.trim()).filter(Boolean),
+    }))
+    .filter((line) => line.cells.length > 0);
+};
+
+/**
+ * Render page lines, turning runs of at least two multi-cell lines with
+ * the same number of cells into tables
+ */
+const renderPage = (
+  lines: PageLine[],
+  page: number,
+  tables: DocumentTable[],
+): string => {
+  const parts: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const width = lines[index].cells.length;
+    let end = index;
+    while (
+      width > 1 &&
+      end + 1 < lines.length &&
+      lines[end + 1].cells.length === width
+    ) {
+      end++;
+    }
+
+    if (end > index) {
+      const rows = lines.slice(index, end + 1).map((line) => line.cells);
+      tables.push({ page, rows });
+      parts.push(formatTable(rows));
+    } else {
+      parts.push(lines[index].cells.join(' '));
+    }
+    index = end + 1;
+  }
+
+  return parts.join('\n');
+};
+
+/**
+ * Extract a PDF page by page. Each page becomes a section marked
+ * `--- Page N ---`. PDFs carry no table structure, so tables are
+ * recovered from column-aligned lines.
+ */
+export const extractPdf = async (
+  buffer: Buffer,
+): Promise<ExtractedDocument> => {
+  const pages = new Map<number, PageLine[]>();
+
+  const data = await pdfParse(buffer, {
+    pagerender: async (pageData: any) => {
+      const content = await pageData.getTextContent({
+        normalizeWhitespace: true,
+        disableCombineTextItems: false,
+      });
+      pages.set(pageData.pageNumber, groupLines(content.items));
+      return '';
+    },
+  });
+
+  const tables: DocumentTable[] = [];
+  const sections: DocumentSection[] = [];
+  for (let page = 1; page <= data.numpages; page++) {
+    sections.push({
+      page,
+      text: renderPage(pages.get(page) ?? [], page, tables),
+    });
+  }
+
+  const title =
+    typeof data.info?.Title === 'string' ? data.info.Title.trim() : '';
+
+  return {
+    format: 'pdf',
+    text: sections
+      .map(({ page, text }) => [`--- Page ${page} ---`, text].join('\n'))
+      .join('\n\n'),
+    sections,
+    tables,
+    metadata: {
+      title: title || undefined,
+      pageCount: data.numpages,
+    },
+  };
+};
@@ -0,0 +1,133 @@
+import { CheerioAPI } from 'cheerio';
+import {
+  DocumentSection,
+  DocumentTable,
+  ExtractedDocument,
+} from './document-extractor';
+import { cleanTableRows, formatTable } from './blocks';
+import {
+  loadXml,
+  openPackage,
+  OoxmlPackage,
+  readCoreTitle,
+  readRelationships,
+} from './ooxml';
+
+const SLIDE_PATH = /^ppt\/slides\/slide(\d+)\.xml$/;
+
+/**
+ * Slide part paths in presentation order, falling back to file name order
+ * when the presentation part can't be resolved
+ */
+const getSlidePaths = (pkg: OoxmlPackage): string[] => {
+  const presentation = pkg.readPart('ppt/presentation.xml');
+  if (presentation) {
+    const relationships = readRelationships(pkg, 'ppt/presentation.xml');
+    const $ = loadXml(presentation);
+    const ordered = $('p\\:sldIdLst > p\\:sldId')
+      .map((_, slide) => relationships.get($(slide).attr('r:id') ?? ''))
+      .get()
+      .filter((slidePath) => slidePath && pkg.readPart(slidePath));
+    if (ordered.length > 0) {
+      return ordered;
+    }
+  }
+
+  return pkg.partPaths
+    .filter((partPath) => SLIDE_PATH.test(partPath))
+    .sort(
+      (a, b) =>
+        Number(a.match(SLIDE_PATH)![1]) - Number(b.match(SLIDE_PATH)![1]),
+    );
+};
+
+const shapeText = ($: CheerioAPI, shape: any): string =>
+  $(shape)
+    .find('a\\:p')
+    .map((_, paragraph) =>
+      $(paragraph)
+        .find('a\\:t, a\\:br')
+        .map((_, node) =>
+          (node as any).tagName === 'a:br' ? '\n' : $(node).text(),
+        )
+        .get()
+        .join('')
+        .trim(),
+    )
+    .get()
+    .filter(Boolean)
+    .join('\n');
+
+const isTitleShape = ($: CheerioAPI, shape: any): boolean => {
+  const placeholder = $(shape).find('p\\:nvSpPr p\\:ph').attr('type');
+  return placeholder === 'title' || placeholder === 'ctrTitle';
+};
+
+/**
+ * Extract a PowerPoint deck slide by slide. Each slide becomes a section
+ * marked `--- Slide N: Title ---`; tables are rendered as markdown tables.
+ */
+export const extractPptx = async (
+  buffer: Buffer,
+): Promise<ExtractedDocument> => {
+  const pkg = openPackage(buffer);
+  const sections: DocumentSection[] = [];
+  const tables: DocumentTable[] = [];
+
+  getSlidePaths(pkg).forEach((slidePath, index) => {
+    const page = index + 1;
+    const $ = loadXml(pkg.readPart(slidePath) ?? '');
+    let title: string | undefined;
+    const parts: string[] = [];
+
+    $('p\\:sp, a\\:tbl').each((_, element) => {
+      if ((element as any).tagName === 'a:tbl') {
+        const rows = cleanTableRows(
+          $(element)
+            .children('a\\:tr')
+            .map((_, row) => [
+              $(row)
+                .children('a\\:tc')
+                .map((_, cell) => shapeText($, cell))
+                .get(),
+            ])
+            .get(),
+        );
+        if (rows.length > 0) {
+          tables.push({ page, section: title, rows });
+          parts.push(formatTable(rows));
+        }
+        return;
+      }
+
+      const text = shapeText($, element);
+      if (!text) {
+        return;
+      }
+      if (!title && isTitleShape($, element)) {
+        title = text.replace(/\s+/g, ' ');
+      } else {
+        parts.push(text);
+      }
+    });
+
+    sections.push({ title, page, text: parts.join('\n\n') });
+  });
+
+  return {
+    format: 'pptx',
+    text: sections
+      .map(({ title, page, text }) =>
+        [`--- Slide ${page}${title ? `: ${title}` : ''} ---`, text]
+          .filter(Boolean)
+          .join('\n'),
+      )
+      .join('\n\n'),
+    sections,
+    tables,
+    metadata: {
+      title: readCoreTitle(pkg) ?? sections[0]?.title,
+      pageCount: sections.length,
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import { logger } from '../../utils/logger';
+import { LocalEmbedder } from './local.embedder';
+import { OpenAIEmbedder } from './openai.embedder';
+
+export interface Embedder {
+  readonly model: string; // Part of embedding cache keys
+  readonly dimensions: number;
+  // One embedding per text, in input order
+  embed(texts: string[], companyId: string): Promise<number[][]>;
+}
+
+/**
+ * Create the embedder selected by EMBEDDING_PROVIDER ('openai' or 'local').
+ * The local embedder is deterministic and needs no API key, which suits
+ * tests and offline development; it only captures lexical similarity.
+ */
+export function createEmbedder(): Embedder {
+  const provider = process.env.EMBEDDING_PROVIDER || 'openai';
+
+  if (provider === 'local') {
+    logger.info('Vector search: Using local embedder');
+    return new LocalEmbedder();
+  }
+
+  if (provider !== 'openai') {
+    logger.warn(`Unknown EMBEDDING_PROVIDER "${provider}", using openai`);
+  }
+  return new OpenAIEmbedder();
+}
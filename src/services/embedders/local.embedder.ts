@@ -0,0 +1,54 @@
+import { Embedder } from './embedder';
+
+const DEFAULT_DIMENSIONS = 256;
+
+// 32-bit FNV-1a
+const hash = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Deterministic embedder using feature hashing of words and word pairs.
+ * Needs no network or API key; similar texts share words, so cosine
+ * similarity reflects lexical overlap.
+ */
+export class LocalEmbedder implements Embedder {
+  readonly model: string;
+
+  constructor(readonly dimensions: number = DEFAULT_DIMENSIONS) {
+    this.model = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[], _companyId: string): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+
+    const addFeature = (feature: string, weight: number) => {
+      const h = hash(feature);
+      // The top bit picks the sign so collisions tend to cancel out
+      vector[h % this.dimensions] += h & 0x80000000 ? -weight : weight;
+    };
+
+    tokens.forEach((token, i) => {
+      addFeature(token, 1);
+      if (i > 0) {
+        addFeature(`${tokens[i - 1]} ${token}`, 0.5);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm ? vector.map((v) => v / norm) : vector;
+  }
+}
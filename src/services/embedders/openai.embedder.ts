@@ -0,0 +1,34 @@
+import OpenAI from 'openai';
+import { getApiKey } from '../api.key.service';
+import { Embedder } from './embedder';
+
+const BATCH_SIZE = 100;
+
+/**
+ * OpenAI embeddings using the company's OpenAI API key
+ */
+export class OpenAIEmbedder implements Embedder {
+  readonly model = 'text-embedding-3-small';
+  readonly dimensions = 1536;
+
+  async embed(texts: string[], companyId: string): Promise<number[][]> {
+    const apiKey = await getApiKey(companyId, 'openai_api_key');
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured for this company');
+    }
+    const openai = new OpenAI({ apiKey });
+
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const response = await openai.embeddings.create({
+        model: this.model,
+        input: texts.slice(i, i + BATCH_SIZE),
+        encoding_format: 'float',
+      });
+      for (const item of response.data) {
+        embeddings[i + item.index] = item.embedding;
+      }
+    }
+    return embeddings;
+  }
+}
@@ -0,0 +1,784 @@
+// file path: /src/services/eval.service.ts
+import mongoose from 'mongoose';
+import OpenAI from 'openai';
+import { z } from 'zod';
+import {
+  EvalSuite,
+  IEvalSuite,
+  IEvalCase,
+  IEvalAssertion,
+  IEvalExpectedToolCall,
+} from '../models/EvalSuite';
+import {
+  EvalRun,
+  IEvalRun,
+  IEvalCaseResult,
+  IEvalCheckResult,
+} from '../models/EvalRun';
+import { Assistant, IAssistant } from '../models/Assistant';
+import PromptHistory from '../models/PromptHistory';
+import {
+  executeAssistantStateless,
+  statelessResponseToText,
+} from './assistant/stateless-execution.service';
+import { getApiKey } from './api.key.service';
+import { convertOpenAIFunctionName } from '../integrations/actions/utils';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+
+const DEFAULT_JUDGE_MODEL = 'gpt-4o-mini';
+const DEFAULT_JUDGE_THRESHOLD = 0.7;
+
+// Stored case output is capped
+const MAX_STORED_OUTPUT_CHARS = 10000;
+
+export interface EvalCaseInput {
+  _id?: string; // Keeps an existing case's ID
+  name?: string;
+  input?: string;
+  expectedToolCalls?: IEvalExpectedToolCall[];
+  assertions?: IEvalAssertion[];
+}
+
+/**
+ * Fields accepted when creating or updating a suite
+ */
+export interface EvalSuiteInput {
+  assistantId?: string;
+  name?: string;
+  description?: string;
+  cases?: EvalCaseInput[];
+  minPassRate?: number;
+}
+
+/**
+ * Which prompt a run evaluates: a PromptHistory version, or a draft prompt
+ * that has not been saved yet. Defaults to the latest version.
+ */
+export interface EvalRunOptions {
+  promptVersion?: number;
+  promptContent?: string;
+}
+
+export interface EvalToolCall {
+  name: string;
+  arguments?: Record<string, any>;
+}
+
+async function assertAssistantInCompany(
+  assistantId: string,
+  companyId: string,
+): Promise<void> {
+  const exists =
+    mongoose.Types.ObjectId.isValid(assistantId) &&
+    (await Assistant.exists({ _id: assistantId, companyId }));
+  if (!exists) {
+    throw new NotFoundError('Assistant');
+  }
+}
+
+function validateAssertion(assertion: IEvalAssertion, label: string): void {
+  switch (assertion?.type) {
+    case 'contains':
+      if (!assertion.value) {
+        throw new BadRequestError(`${label}: value is required for contains`);
+      }
+      return;
+    case 'regex':
+      if (!assertion.pattern) {
+        throw new BadRequestError(`${label}: pattern is required for regex`);
+      }
+      try {
+        new RegExp(assertion.pattern, assertion.flags);
+      } catch {
+        throw new BadRequestError(`${label}: invalid regex pattern`);
+      }
+      return;
+    case 'json_schema':
+      if (!assertion.schema || typeof assertion.schema !== 'object') {
+        throw new BadRequestError(
+          `${label}: schema is required for json_schema`,
+        );
+      }
+      try {
+        z.fromJSONSchema(assertion.schema);
+      } catch {
+        throw new BadRequestError(`${label}: invalid JSON schema`);
+      }
+      return;
+    case 'llm_judge':
+      if (!assertion.rubric) {
+        throw new BadRequestError(`${label}: rubric is required for llm_judge`);
+      }
+      return;
+    default:
+      throw new BadRequestError(
+        `${label}: type must be one of: contains, regex, json_schema, llm_judge`,
+      );
+  }
+}
+
+function validateCases(cases: EvalCaseInput[]): void {
+  if (!Array.isArray(cases)) {
+    throw new BadRequestError('cases must be an array');
+  }
+  cases.forEach((testCase, i) => {
+    const label = `cases[${i}]`;
+    if (!testCase?.name || !testCase.input) {
+      throw new BadRequestError(`${label}: name and input are required`);
+    }
+    testCase.assertions?.forEach((assertion, j) =>
+      validateAssertion(assertion, `${label}.assertions[${j}]`),
+    );
+    testCase.expectedToolCalls?.forEach((call, j) => {
+      if (!call?.name) {
+        throw new BadRequestError(
+          `${label}.expectedToolCalls[${j}]: name is required`,
+        );
+      }
+    });
+    if (!testCase.assertions?.length && !testCase.expectedToolCalls?.length) {
+      throw new BadRequestError(
+        `${label}: add at least one assertion or expected tool call`,
+      );
+    }
+  });
+}
+
+function validateMinPassRate(minPassRate: number | undefined): void {
+  if (
+    minPassRate !== undefined &&
+    (typeof minPassRate !== 'number' || minPassRate < 0 || minPassRate > 1)
+  ) {
+    throw new BadRequestError('minPassRate must be between 0 and 1');
+  }
+}
+
+/**
+ * List a company's eval suites
+ */
+export async function listEvalSuites(
+  companyId: string,
+  assistantId?: string,
+): Promise<IEvalSuite[]> {
+  const filter: Record<string, unknown> = { companyId };
+  if (assistantId) {
+    filter.assistantId = assistantId;
+  }
+  return EvalSuite.find(filter).sort({ createdAt: -1 });
+}
+
+/**
+ * Get a suite owned by the company
+ */
+export async function getEvalSuite(
+  companyId: string,
+  suiteId: string,
+): Promise<IEvalSuite | null> {
+  if (!mongoose.Types.ObjectId.isValid(suiteId)) {
+    return null;
+  }
+  return EvalSuite.findOne({ _id: suiteId, companyId });
+}
+
+/**
+ * Create an eval suite for an assistant
+ */
+export async function createEvalSuite(
+  companyId: string,
+  input: EvalSuiteInput,
+  userId: string,
+): Promise<IEvalSuite> {
+  if (!input.assistantId || !input.name) {
+    throw new BadRequestError('assistantId and name are required');
+  }
+  await assertAssistantInCompany(input.assistantId, companyId);
+  validateCases(input.cases || []);
+  validateMinPassRate(input.minPassRate);
+
+  return EvalSuite.create({
+    companyId,
+    assistantId: input.assistantId,
+    name: input.name,
+    description: input.description,
+    cases: input.cases || [],
+    minPassRate: input.minPassRate,
+    createdBy: userId,
+  });
+}
+
+/**
+ * Update a suite. `cases` replaces the whole list; cases keep their IDs
+ * when `_id` is passed back, so results stay comparable across runs.
+ */
+export async function updateEvalSuite(
+  companyId: string,
+  suiteId: string,
+  input: EvalSuiteInput,
+): Promise<IEvalSuite> {
+  const suite = await getEvalSuite(companyId, suiteId);
+  if (!suite) {
+    throw new NotFoundError('Eval suite');
+  }
+
+  if (input.cases !== undefined) {
+    validateCases(input.cases);
+    suite.set('cases', input.cases);
+  }
+  validateMinPassRate(input.minPassRate);
+
+  if (input.name !== undefined) suite.name = input.name;
+  if (input.description !== undefined) suite.description = input.description;
+  if (input.minPassRate !== undefined) suite.minPassRate = input.minPassRate;
+
+  return suite.save();
+}
+
+/**
+ * Delete a suite and its runs
+ */
+export async function deleteEvalSuite(
+  companyId: string,
+  suiteId: string,
+): Promise<boolean> {
+  const suite = await getEvalSuite(companyId, suiteId);
+  if (!suite) {
+    return false;
+  }
+  await EvalRun.deleteMany({ suiteId: suite._id });
+  await suite.deleteOne();
+  return true;
+}
+
+/**
+ * Runs of a suite, newest first
+ */
+export async function listEvalRuns(
+  companyId: string,
+  suiteId: string,
+  limit: number = 20,
+): Promise<IEvalRun[]> {
+  if (!mongoose.Types.ObjectId.isValid(suiteId)) {
+    return [];
+  }
+  return EvalRun.find({ suiteId, companyId })
+    .select('-results.output')
+    .sort({ startedAt: -1 })
+    .limit(limit);
+}
+
+/**
+ * Get a run with its case results
+ */
+export async function getEvalRun(
+  companyId: string,
+  runId: string,
+): Promise<IEvalRun | null> {
+  if (!mongoose.Types.ObjectId.isValid(runId)) {
+    return null;
+  }
+  return EvalRun.findOne({ _id: runId, companyId });
+}
+
+/**
+ * JSON in a model response: the whole text, a fenced block or the
+ * outermost object/array
+ */
+export function extractJson(output: string): unknown {
+  const candidates = [output.trim()];
+  const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+  const start = output.search(/[{[]/);
+  const end = Math.max(output.lastIndexOf('}'), output.lastIndexOf(']'));
+  if (start !== -1 && end > start) {
+    candidates.push(output.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error('Output does not contain valid JSON');
+}
+
+const result = (
+  type: IEvalCheckResult['type'],
+  passed: boolean,
+  reason?: string,
+): IEvalCheckResult => ({ type, passed, score: passed ? 1 : 0, reason });
+
+/**
+ * Ask a grader model to score an output against a rubric
+ */
+async function judgeOutput(
+  companyId: string,
+  assertion: IEvalAssertion,
+  input: string,
+  output: string,
+): Promise<IEvalCheckResult> {
+  const apiKey = await getApiKey(companyId, 'openai_api_key');
+  if (!apiKey) {
+    return result('llm_judge', false, 'No OpenAI API key for the judge');
+  }
+
+  const openai = new OpenAI({ apiKey });
+  const response = await openai.chat.completions.create({
+    model: assertion.model || DEFAULT_JUDGE_MODEL,
+    temperature: 0,
+    response_format: { type: 'json_object' },
+    messages: [
+      {
+        role: 'system',
+        content: `You grade AI assistant responses against a rubric.
+Reply with a JSON object: {"score": <number from 0 to 1>, "reason": "<one sentence>"}.
+1 means the response fully satisfies the rubric, 0 means it does not at all.`,
+      },
+      {
+        role: 'user',
+        content: `RUBRIC:\n${assertion.rubric}\n\nUSER INPUT:\n${input}\n\nRESPONSE:\n${output}`,
+      },
+    ],
+  });
+
+  const verdict = JSON.parse(response.choices[0]?.message?.content || '{}');
+  const score = Math.min(Math.max(Number(verdict.score) || 0, 0), 1);
+  const threshold = assertion.threshold ?? DEFAULT_JUDGE_THRESHOLD;
+  return {
+    type: 'llm_judge',
+    passed: score >= threshold,
+    score,
+    reason: verdict.reason,
+  };
+}
+
+/**
+ * Apply one assertion to a case output
+ */
+export async function evaluateAssertion(
+  companyId: string,
+  assertion: IEvalAssertion,
+  input: string,
+  output: string,
+): Promise<IEvalCheckResult> {
+  try {
+    switch (assertion.type) {
+      case 'contains': {
+        const found = assertion.caseSensitive
+          ? output.includes(assertion.value)
+          : output.toLowerCase().includes(assertion.value.toLowerCase());
+        const passed = assertion.negate ? !found : found;
+        return result(
+          'contains',
+          passed,
+          passed
+            ? undefined
+            : `Output ${assertion.negate ? 'contains' : 'does not contain'} "${assertion.value}"`,
+        );
+      }
+      case 'regex': {
+        const matched = new RegExp(assertion.pattern, assertion.flags).test(
+          output,
+        );
+        const passed = assertion.negate ? !matched : matched;
+        return result(
+          'regex',
+          passed,
+          passed
+            ? undefined
+            : `Output ${assertion.negate ? 'matches' : 'does not match'} /${assertion.pattern}/`,
+        );
+      }
+      case 'json_schema': {
+        const parsed = z
+          .fromJSONSchema(assertion.schema)
+          .safeParse(extractJson(output));
+        return result(
+          'json_schema',
+          parsed.success,
+          parsed.success
+            ? undefined
+            : parsed.error.issues
+                .map(
+                  (issue) => `${issue.path.join('.') || '$'}: ${issue.message}`,
+                )
+                .join('; '),
+        );
+      }
+      case 'llm_judge':
+        return await judgeOutput(companyId, assertion, input, output);
+      default:
+        return result(assertion.type, false, 'Unknown assertion type');
+    }
+  } catch (error: any) {
+    return result(assertion.type, false, error.message || String(error));
+  }
+}
+
+function isSubset(expected: unknown, actual: unknown): boolean {
+  if (expected === null || typeof expected !== 'object') {
+    return expected === actual;
+  }
+  if (actual === null || typeof actual !== 'object') {
+    return false;
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      expected.length === actual.length &&
+      expected.every((item, i) => isSubset(item, actual[i]))
+    );
+  }
+  return Object.entries(expected).every(([key, value]) =>
+    isSubset(value, (actual as Record<string, unknown>)[key]),
+  );
+}
+
+/**
+ * Match expected tool calls against the calls the assistant made. Names
+ * may be given as tool names (`sendgrid_sendEmail`) or action IDs
+ * (`sendgrid.sendEmail`).
+ */
+export function checkToolCalls(
+  expected: IEvalExpectedToolCall[],
+  actual: EvalToolCall[],
+): IEvalCheckResult[] {
+  return expected.map((call) => {
+    const sameName = actual.filter(
+      (made) =>
+        made.name === call.name ||
+        convertOpenAIFunctionName(made.name) === call.name,
+    );
+    if (sameName.length === 0) {
+      return result('tool_call', false, `${call.name} was not called`);
+    }
+    if (
+      call.arguments &&
+      !sameName.some((made) => isSubset(call.arguments, made.arguments ?? {}))
+    ) {
+      return result(
+        'tool_call',
+        false,
+        `${call.name} was called with different arguments`,
+      );
+    }
+    return result('tool_call', true);
+  });
+}
+
+/**
+ * Tool calls of a stateless response, from all steps
+ */
+function getToolCalls(response: unknown): EvalToolCall[] {
+  const calls = (response as any)?.data?.toolCalls;
+  if (!Array.isArray(calls)) {
+    return [];
+  }
+  return calls.map((call) => ({
+    name: call.toolName,
+    arguments: call.input ?? call.args,
+  }));
+}
+
+/**
+ * Score a case from its checks. It passes when every check passes.
+ */
+export function scoreCase(
+  checks: IEvalCheckResult[],
+): Pick<IEvalCaseResult, 'passed' | 'score'> {
+  if (checks.length === 0) {
+    return { passed: false, score: 0 };
+  }
+  return {
+    passed: checks.every((check) => check.passed),
+    score: checks.reduce((sum, check) => sum + check.score, 0) / checks.length,
+  };
+}
+
+async function runCase(
+  suite: IEvalSuite,
+  assistant: IAssistant,
+  testCase: IEvalCase,
+  promptContent: string,
+  run: IEvalRun,
+  userId: string,
+): Promise<IEvalCaseResult> {
+  const startedAt = Date.now();
+  const companyId = suite.companyId.toString();
+  const base = {
+    caseId: testCase._id,
+    name: testCase.name,
+  };
+
+  try {
+    const response = await executeAssistantStateless(
+      assistant,
+      testCase.input,
+      companyId,
+      userId,
+      undefined,
+      undefined,
+      undefined,
+      promptContent,
+      { evalSuiteId: suite._id.toString(), evalRunId: run._id.toString() },
+    );
+    const output = statelessResponseToText(response);
+    const toolCalls = getToolCalls(response);
+
+    const checks = [
+      ...checkToolCalls(testCase.expectedToolCalls || [], toolCalls),
+    ];
+    for (const assertion of testCase.assertions || []) {
+      checks.push(
+        await evaluateAssertion(companyId, assertion, testCase.input, output),
+      );
+    }
+
+    return {
+      ...base,
+      ...scoreCase(checks),
+      output: output.slice(0, MAX_STORED_OUTPUT_CHARS),
+      toolCalls,
+      checks,
+      duration: Date.now() - startedAt,
+    };
+  } catch (error: any) {
+    return {
+      ...base,
+      passed: false,
+      score: 0,
+      toolCalls: [],
+      checks: [],
+      duration: Date.now() - startedAt,
+      error: error.message || String(error),
+    };
+  }
+}
+
+/**
+ * Resolve the prompt a run evaluates
+ */
+async function resolvePrompt(
+  suite: IEvalSuite,
+  assistant: IAssistant,
+  options: EvalRunOptions,
+): Promise<{ promptContent: string; promptVersion?: number; draft: boolean }> {
+  if (options.promptContent) {
+    return { promptContent: options.promptContent, draft: true };
+  }
+
+  const filter: Record<string, unknown> = { assistantId: suite.assistantId };
+  if (options.promptVersion !== undefined) {
+    filter.version = options.promptVersion;
+  }
+  const version = await PromptHistory.findOne(filter).sort({ version: -1 });
+
+  if (version) {
+    return {
+      promptContent: version.promptContent,
+      promptVersion: version.version,
+      draft: false,
+    };
+  }
+  if (options.promptVersion !== undefined) {
+    throw new NotFoundError(`Prompt version ${options.promptVersion}`);
+  }
+  // No history yet: evaluate the live prompt
+  return { promptContent: assistant.llmPrompt, draft: false };
+}
+
+async function executeEvalRun(
+  suite: IEvalSuite,
+  assistant: IAssistant,
+  promptContent: string,
+  run: IEvalRun,
+  userId: string,
+): Promise<IEvalRun> {
+  try {
+    // Cases run one at a time to stay within provider rate limits
+    for (const testCase of suite.cases) {
+      run.results.push(
+        await runCase(suite, assistant, testCase, promptContent, run, userId),
+      );
+    }
+
+    const total = run.results.length;
+    const passedCount = run.results.filter((r) => r.passed).length;
+    run.passRate = total > 0 ? passedCount / total : 0;
+    run.score =
+      total > 0 ? run.results.reduce((sum, r) => sum + r.score, 0) / total : 0;
+    run.passed = total > 0 && run.passRate >= suite.minPassRate;
+    run.status = 'completed';
+  } catch (error: any) {
+    run.status = 'failed';
+    run.error = error.message || String(error);
+  }
+
+  run.finishedAt = new Date();
+  return run.save();
+}
+
+/**
+ * Start a run of a suite. Returns the run once started; the run document
+ * is updated when all cases have been scored. Cases run through stateless
+ * execution, so the assistant's tools really execute.
+ */
+export async function startEvalRun(
+  companyId: string,
+  suiteId: string,
+  options: EvalRunOptions,
+  userId: string,
+): Promise<IEvalRun> {
+  const suite = await getEvalSuite(companyId, suiteId);
+  if (!suite) {
+    throw new NotFoundError('Eval suite');
+  }
+  if (suite.cases.length === 0) {
+    throw new BadRequestError('The suite has no cases');
+  }
+
+  const assistant = await Assistant.findOne({
+    _id: suite.assistantId,
+    companyId,
+  });
+  if (!assistant) {
+    throw new NotFoundError('Assistant');
+  }
+
+  const { promptContent, promptVersion, draft } = await resolvePrompt(
+    suite,
+    assistant,
+    options,
+  );
+
+  const run = await EvalRun.create({
+    suiteId: suite._id,
+    companyId,
+    assistantId: suite.assistantId,
+    promptVersion,
+    draft,
+    triggeredBy: userId,
+  });
+
+  executeEvalRun(suite, assistant, promptContent, run, userId).catch((error) =>
+    console.error(`[EVAL] Run ${run._id} of suite ${suiteId} failed:`, error),
+  );
+  return run;
+}
+
+async function latestCompletedRun(
+  suiteId: mongoose.Types.ObjectId | string,
+  promptVersion: number,
+): Promise<IEvalRun | null> {
+  return EvalRun.findOne({
+    suiteId,
+    promptVersion,
+    draft: false,
+    status: 'completed',
+  }).sort({ startedAt: -1 });
+}
+
+/**
+ * Compare the latest completed runs of a suite for two prompt versions,
+ * case by case
+ */
+export async function compareEvalVersions(
+  companyId: string,
+  suiteId: string,
+  baseVersion: number,
+  candidateVersion: number,
+) {
+  const suite = await getEvalSuite(companyId, suiteId);
+  if (!suite) {
+    throw new NotFoundError('Eval suite');
+  }
+
+  const [base, candidate] = await Promise.all([
+    latestCompletedRun(suite._id, baseVersion),
+    latestCompletedRun(suite._id, candidateVersion),
+  ]);
+  if (!base || !candidate) {
+    throw new NotFoundError(
+      `Completed run for prompt version ${!base ? baseVersion : candidateVersion}`,
+    );
+  }
+
+  const baseResults = new Map(
+    base.results.map((r) => [r.caseId.toString(), r]),
+  );
+  const cases = candidate.results.map((after) => {
+    const before = baseResults.get(after.caseId.toString());
+    let change: 'fixed' | 'regressed' | 'unchanged' | 'new' = 'unchanged';
+    if (!before) change = 'new';
+    else if (!before.passed && after.passed) change = 'fixed';
+    else if (before.passed && !after.passed) change = 'regressed';
+
+    return {
+      caseId: after.caseId,
+      name: after.name,
+      change,
+      base: before ? { passed: before.passed, score: before.score } : null,
+      candidate: { passed: after.passed, score: after.score },
+    };
+  });
+
+  return {
+    suiteId: suite._id,
+    base: {
+      version: baseVersion,
+      runId: base._id,
+      score: base.score,
+      passRate: base.passRate,
+      passed: base.passed,
+    },
+    candidate: {
+      version: candidateVersion,
+      runId: candidate._id,
+      score: candidate.score,
+      passRate: candidate.passRate,
+      passed: candidate.passed,
+    },
+    scoreDelta: (candidate.score ?? 0) - (base.score ?? 0),
+    passRateDelta: (candidate.passRate ?? 0) - (base.passRate ?? 0),
+    regressions: cases.filter((c) => c.change === 'regressed').length,
+    fixes: cases.filter((c) => c.change === 'fixed').length,
+    cases,
+  };
+}
+
+/**
+ * Whether a prompt version passes every eval suite of its assistant,
+ * judged by each suite's latest completed run for that version. Suites
+ * without a run for the version count as not passing.
+ */
+export async function getPromptEvalStatus(
+  companyId: string,
+  assistantId: string,
+  promptVersion: number,
+) {
+  const suites = await listEvalSuites(companyId, assistantId);
+  const statuses = await Promise.all(
+    suites.map(async (suite) => {
+      const run = await latestCompletedRun(suite._id, promptVersion);
+      return {
+        suiteId: suite._id,
+        name: suite.name,
+        runId: run?._id,
+        passed: run?.passed ?? false,
+        score: run?.score,
+        passRate: run?.passRate,
+        evaluated: !!run,
+      };
+    }),
+  );
+
+  return {
+    assistantId,
+    promptVersion,
+    passed: statuses.every((status) => status.passed),
+    suites: statuses,
+  };
+}
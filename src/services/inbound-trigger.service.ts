@@ -0,0 +1,615 @@
+// file path: /src/services/inbound-trigger.service.ts
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import {
+  InboundTrigger,
+  IInboundTrigger,
+  ITriggerVerification,
+  TriggerResponseMode,
+  TriggerVerificationType,
+} from '../models/InboundTrigger';
+import {
+  InboundTriggerRun,
+  IInboundTriggerRun,
+} from '../models/InboundTriggerRun';
+import { Assistant } from '../models/Assistant';
+import {
+  executeAssistantStateless,
+  statelessResponseToText,
+} from './assistant/stateless-execution.service';
+import { renderTemplate } from './template.service';
+import { encryptData, decryptData } from './encryption.service';
+import {
+  AuthenticationError,
+  BadRequestError,
+  NotFoundError,
+} from '../utils/errors';
+
+const VERIFICATION_TYPES: TriggerVerificationType[] = [
+  'none',
+  'token',
+  'hmac_sha256',
+  'github',
+  'stripe',
+];
+
+const DEFAULT_TEMPLATE =
+  'A "{{trigger.name}}" event was received.\n\nPayload:\n{{json body}}';
+
+const DEFAULT_HEADERS: Partial<Record<TriggerVerificationType, string>> = {
+  token: 'x-trigger-token',
+  hmac_sha256: 'x-signature',
+  github: 'x-hub-signature-256',
+  stripe: 'stripe-signature',
+};
+
+const DEFAULT_STRIPE_TOLERANCE_SECONDS = 300;
+
+// Headers never exposed to templates
+const HIDDEN_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+const MAX_INPUT_CHARS = 50000;
+const MAX_STORED_CHARS = 20000;
+
+/**
+ * Fields accepted when creating or updating a trigger
+ */
+export interface InboundTriggerInput {
+  assistantId?: string;
+  name?: string;
+  description?: string;
+  template?: string;
+  responseMode?: TriggerResponseMode;
+  verification?: {
+    type: TriggerVerificationType;
+    header?: string;
+    encoding?: 'hex' | 'base64';
+    toleranceSeconds?: number;
+    secret?: string; // Generated for token and hmac_sha256 when omitted
+  };
+  enabled?: boolean;
+}
+
+/**
+ * The parts of an incoming HTTP request a trigger uses
+ */
+export interface InboundRequest {
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, unknown>;
+  body: unknown;
+  rawBody?: Buffer;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function headerValue(
+  headers: InboundRequest['headers'],
+  name: string,
+): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function hmacSha256(
+  secret: string,
+  payload: string | Buffer,
+  encoding: 'hex' | 'base64' = 'hex',
+): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest(encoding);
+}
+
+/**
+ * Check an incoming request against a trigger's verification settings.
+ * Returns an error message, or null when the request is authentic.
+ */
+export function verifyInboundRequest(
+  verification: Omit<ITriggerVerification, 'secret'>,
+  secret: string | undefined,
+  request: InboundRequest,
+  now: Date = new Date(),
+): string | null {
+  if (verification.type === 'none') {
+    return null;
+  }
+  if (!secret) {
+    return 'Trigger has no verification secret';
+  }
+
+  const header = verification.header || DEFAULT_HEADERS[verification.type];
+  const received = headerValue(request.headers, header);
+  const rawBody = request.rawBody ?? Buffer.alloc(0);
+
+  switch (verification.type) {
+    case 'token': {
+      const token = received ?? request.query.token;
+      return typeof token === 'string' && safeEqual(token, secret)
+        ? null
+        : 'Invalid token';
+    }
+
+    case 'hmac_sha256':
+    case 'github': {
+      if (!received) {
+        return `Missing ${header} header`;
+      }
+      const encoding =
+        verification.type === 'github' ? 'hex' : verification.encoding;
+      const expected = hmacSha256(secret, rawBody, encoding);
+      return safeEqual(received.replace(/^sha256=/, ''), expected)
+        ? null
+        : 'Invalid signature';
+    }
+
+    case 'stripe': {
+      if (!received) {
+        return `Missing ${header} header`;
+      }
+      const parts = received.split(',').map((part) => part.split('='));
+      const timestamp = parts.find(([key]) => key === 't')?.[1];
+      const signatures = parts
+        .filter(([key]) => key === 'v1')
+        .map(([, value]) => value);
+      if (!timestamp || signatures.length === 0) {
+        return 'Malformed signature header';
+      }
+
+      const tolerance =
+        verification.toleranceSeconds ?? DEFAULT_STRIPE_TOLERANCE_SECONDS;
+      if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > tolerance) {
+        return 'Signature timestamp outside the tolerance window';
+      }
+
+      const expected = hmacSha256(secret, `${timestamp}.${rawBody}`);
+      return signatures.some((signature) => safeEqual(signature, expected))
+        ? null
+        : 'Invalid signature';
+    }
+
+    default:
+      return 'Unsupported verification type';
+  }
+}
+
+/**
+ * Data available to trigger templates
+ */
+export function buildTemplateData(
+  trigger: Pick<IInboundTrigger, '_id' | 'name' | 'verification'>,
+  request: InboundRequest,
+  receivedAt: Date = new Date(),
+): Record<string, unknown> {
+  const hidden = [...HIDDEN_HEADERS];
+  if (trigger.verification?.type && trigger.verification.type !== 'none') {
+    hidden.push(
+      (
+        trigger.verification.header ||
+        DEFAULT_HEADERS[trigger.verification.type]
+      ).toLowerCase(),
+    );
+  }
+
+  const headers = Object.fromEntries(
+    Object.entries(request.headers).filter(
+      ([name]) => !hidden.includes(name.toLowerCase()),
+    ),
+  );
+  // ?token= may carry the verification secret
+  const query = Object.fromEntries(
+    Object.entries(request.query).filter(([name]) => name !== 'token'),
+  );
+
+  return {
+    body: request.body,
+    query,
+    headers,
+    method: request.method,
+    trigger: { id: trigger._id.toString(), name: trigger.name },
+    receivedAt: receivedAt.toISOString(),
+  };
+}
+
+function renderTriggerInput(
+  trigger: Pick<IInboundTrigger, '_id' | 'name' | 'verification' | 'template'>,
+  request: InboundRequest,
+): string {
+  let input: string;
+  try {
+    input = renderTemplate(
+      trigger.template,
+      buildTemplateData(trigger, request),
+    );
+  } catch (error: any) {
+    throw new BadRequestError(`Template error: ${error.message}`);
+  }
+
+  if (!input.trim()) {
+    throw new BadRequestError('Template rendered an empty input');
+  }
+  return input.length > MAX_INPUT_CHARS
+    ? `${input.slice(0, MAX_INPUT_CHARS)}\n\n[Input truncated]`
+    : input;
+}
+
+function generateToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+function generateSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+async function assertAssistantInCompany(
+  assistantId: string,
+  companyId: string,
+): Promise<void> {
+  const exists =
+    mongoose.Types.ObjectId.isValid(assistantId) &&
+    (await Assistant.exists({ _id: assistantId, companyId }));
+  if (!exists) {
+    throw new NotFoundError('Assistant');
+  }
+}
+
+/**
+ * Validate a verification config and resolve the secret to store.
+ * Returns the plain secret when one was generated, so it can be shown once.
+ */
+function prepareVerification(
+  input: NonNullable<InboundTriggerInput['verification']>,
+  existing?: ITriggerVerification,
+): { verification: ITriggerVerification; generatedSecret?: string } {
+  if (!VERIFICATION_TYPES.includes(input.type)) {
+    throw new BadRequestError(
+      `verification.type must be one of: ${VERIFICATION_TYPES.join(', ')}`,
+    );
+  }
+  if (input.encoding && !['hex', 'base64'].includes(input.encoding)) {
+    throw new BadRequestError('verification.encoding must be hex or base64');
+  }
+
+  const verification: ITriggerVerification = {
+    type: input.type,
+    header: input.header,
+    encoding: input.encoding,
+    toleranceSeconds: input.toleranceSeconds,
+  };
+  if (input.type === 'none') {
+    return { verification };
+  }
+
+  if (input.secret) {
+    return {
+      verification: { ...verification, secret: encryptData(input.secret) },
+    };
+  }
+  if (existing?.secret) {
+    return { verification: { ...verification, secret: existing.secret } };
+  }
+  if (input.type === 'github' || input.type === 'stripe') {
+    // The sender issues these secrets; they have to be provided
+    throw new BadRequestError(
+      `verification.secret is required for ${input.type}`,
+    );
+  }
+
+  const generatedSecret = generateSecret();
+  return {
+    verification: { ...verification, secret: encryptData(generatedSecret) },
+    generatedSecret,
+  };
+}
+
+/**
+ * List a company's inbound triggers
+ */
+export async function listInboundTriggers(
+  companyId: string,
+  assistantId?: string,
+): Promise<IInboundTrigger[]> {
+  return InboundTrigger.find({
+    companyId,
+    ...(assistantId && { assistantId }),
+  })
+    .sort({ createdAt: -1 })
+    .lean<IInboundTrigger[]>();
+}
+
+/**
+ * Get an inbound trigger, scoped to the company
+ */
+export async function getInboundTrigger(
+  companyId: string,
+  triggerId: string,
+): Promise<IInboundTrigger | null> {
+  if (!mongoose.Types.ObjectId.isValid(triggerId)) {
+    return null;
+  }
+  return InboundTrigger.findOne({ _id: triggerId, companyId });
+}
+
+/**
+ * Create an inbound trigger. A generated verification secret is returned
+ * only here and on rotation.
+ */
+export async function createInboundTrigger(
+  companyId: string,
+  input: InboundTriggerInput,
+  userId: string,
+): Promise<{ trigger: IInboundTrigger; secret?: string }> {
+  if (!input.name || !input.assistantId) {
+    throw new BadRequestError('name and assistantId are required');
+  }
+  if (input.responseMode && !['sync', 'async'].includes(input.responseMode)) {
+    throw new BadRequestError('responseMode must be sync or async');
+  }
+  await assertAssistantInCompany(input.assistantId, companyId);
+
+  const { verification, generatedSecret } = prepareVerification(
+    input.verification || { type: 'none' },
+  );
+
+  const trigger = await new InboundTrigger({
+    companyId,
+    assistantId: input.assistantId,
+    name: input.name,
+    description: input.description,
+    token: generateToken(),
+    template: input.template || DEFAULT_TEMPLATE,
+    responseMode: input.responseMode || 'async',
+    verification,
+    enabled: input.enabled ?? true,
+    createdBy: userId,
+  }).save();
+
+  trigger.set('verification.secret', undefined);
+  return { trigger, secret: generatedSecret };
+}
+
+/**
+ * Update an inbound trigger. Changing the verification type keeps the
+ * stored secret unless a new one is given.
+ */
+export async function updateInboundTrigger(
+  companyId: string,
+  triggerId: string,
+  input: InboundTriggerInput,
+): Promise<{ trigger: IInboundTrigger; secret?: string }> {
+  if (!mongoose.Types.ObjectId.isValid(triggerId)) {
+    throw new NotFoundError('Trigger');
+  }
+  const trigger = await InboundTrigger.findOne({
+    _id: triggerId,
+    companyId,
+  }).select('+verification.secret');
+  if (!trigger) {
+    throw new NotFoundError('Trigger');
+  }
+
+  if (input.assistantId) {
+    await assertAssistantInCompany(input.assistantId, companyId);
+    trigger.set('assistantId', input.assistantId);
+  }
+  if (input.responseMode && !['sync', 'async'].includes(input.responseMode)) {
+    throw new BadRequestError('responseMode must be sync or async');
+  }
+  if (input.name !== undefined) trigger.name = input.name;
+  if (input.description !== undefined) trigger.description = input.description;
+  if (input.template !== undefined) {
+    trigger.template = input.template || DEFAULT_TEMPLATE;
+  }
+  if (input.responseMode !== undefined) {
+    trigger.responseMode = input.responseMode;
+  }
+  if (input.enabled !== undefined) trigger.enabled = input.enabled;
+
+  let secret: string | undefined;
+  if (input.verification) {
+    const prepared = prepareVerification(
+      input.verification,
+      trigger.verification,
+    );
+    trigger.verification = prepared.verification;
+    secret = prepared.generatedSecret;
+  }
+
+  await trigger.save();
+  trigger.set('verification.secret', undefined);
+  return { trigger, secret };
+}
+
+/**
+ * Replace a trigger's verification secret with a generated one
+ */
+export async function rotateInboundTriggerSecret(
+  companyId: string,
+  triggerId: string,
+): Promise<string> {
+  const trigger = await getInboundTrigger(companyId, triggerId);
+  if (!trigger) {
+    throw new NotFoundError('Trigger');
+  }
+  if (trigger.verification.type === 'none') {
+    throw new BadRequestError('Trigger does not use a verification secret');
+  }
+  const secret = generateSecret();
+  await updateInboundTrigger(companyId, triggerId, {
+    verification: {
+      type: trigger.verification.type,
+      header: trigger.verification.header,
+      encoding: trigger.verification.encoding,
+      toleranceSeconds: trigger.verification.toleranceSeconds,
+      secret,
+    },
+  });
+  return secret;
+}
+
+/**
+ * Delete an inbound trigger and its run history
+ */
+export async function deleteInboundTrigger(
+  companyId: string,
+  triggerId: string,
+): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(triggerId)) {
+    return false;
+  }
+  const result = await InboundTrigger.deleteOne({ _id: triggerId, companyId });
+  if (result.deletedCount > 0) {
+    await InboundTriggerRun.deleteMany({ triggerId, companyId });
+  }
+  return result.deletedCount > 0;
+}
+
+/**
+ * Recent runs of a trigger, newest first
+ */
+export async function listInboundTriggerRuns(
+  companyId: string,
+  triggerId: string,
+  limit = 20,
+): Promise<IInboundTriggerRun[]> {
+  if (!mongoose.Types.ObjectId.isValid(triggerId)) {
+    return [];
+  }
+  return InboundTriggerRun.find({ triggerId, companyId })
+    .sort({ startedAt: -1 })
+    .limit(limit)
+    .lean<IInboundTriggerRun[]>();
+}
+
+/**
+ * Render a trigger's template against a sample request without running
+ * the assistant
+ */
+export async function previewInboundTrigger(
+  companyId: string,
+  triggerId: string,
+  sample: Partial<InboundRequest>,
+): Promise<string> {
+  const trigger = await getInboundTrigger(companyId, triggerId);
+  if (!trigger) {
+    throw new NotFoundError('Trigger');
+  }
+  return renderTriggerInput(trigger, {
+    method: sample.method || 'POST',
+    headers: sample.headers || {},
+    query: sample.query || {},
+    body: sample.body ?? {},
+  });
+}
+
+/**
+ * Run the assistant for a received request and record the outcome
+ */
+async function executeTriggerRun(
+  trigger: IInboundTrigger,
+  run: IInboundTriggerRun,
+  userInput: string,
+): Promise<IInboundTriggerRun> {
+  try {
+    const assistant = await Assistant.findOne({
+      _id: trigger.assistantId,
+      companyId: trigger.companyId,
+    });
+    if (!assistant) {
+      throw new Error('Assistant not found');
+    }
+
+    const response = await executeAssistantStateless(
+      assistant,
+      userInput,
+      trigger.companyId.toString(),
+      trigger.createdBy.toString(),
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      {
+        inboundTriggerId: trigger._id.toString(),
+        inboundTriggerRunId: run._id.toString(),
+      },
+    );
+
+    run.status = 'succeeded';
+    run.output = statelessResponseToText(response);
+  } catch (error: any) {
+    console.error(`[INBOUND_TRIGGER] Run ${run._id} failed:`, error);
+    run.status = 'failed';
+    run.error = error.message || String(error);
+  }
+
+  run.finishedAt = new Date();
+  run.duration = run.finishedAt.getTime() - run.startedAt.getTime();
+  const fullOutput = run.output;
+  if (run.output && run.output.length > MAX_STORED_CHARS) {
+    run.output = `${run.output.slice(0, MAX_STORED_CHARS)}\n\n[Output truncated]`;
+  }
+  await run.save();
+
+  // Sync callers get the untruncated output
+  run.output = fullOutput;
+  return run;
+}
+
+/**
+ * Handle a request to a trigger URL: verify it, render the template and
+ * start a run. Sync triggers resolve once the run finishes; async ones as
+ * soon as it has started.
+ */
+export async function handleInboundRequest(
+  token: string,
+  request: InboundRequest,
+): Promise<{ mode: TriggerResponseMode; run: IInboundTriggerRun }> {
+  const trigger = await InboundTrigger.findOne({
+    token,
+    enabled: true,
+  }).select('+verification.secret');
+  if (!trigger) {
+    throw new NotFoundError('Trigger');
+  }
+
+  const storedSecret = trigger.verification?.secret;
+  const verificationError = verifyInboundRequest(
+    trigger.verification,
+    storedSecret ? decryptData(storedSecret) : undefined,
+    request,
+  );
+  if (verificationError) {
+    throw new AuthenticationError(verificationError);
+  }
+
+  const userInput = renderTriggerInput(trigger, request);
+
+  const [run] = await Promise.all([
+    new InboundTriggerRun({
+      triggerId: trigger._id,
+      companyId: trigger.companyId,
+      assistantId: trigger.assistantId,
+      status: 'running',
+      input: userInput.slice(0, MAX_STORED_CHARS),
+      startedAt: new Date(),
+    }).save(),
+    InboundTrigger.updateOne(
+      { _id: trigger._id },
+      { $set: { lastTriggeredAt: new Date() } },
+    ),
+  ]);
+
+  if (trigger.responseMode === 'sync') {
+    return {
+      mode: 'sync',
+      run: await executeTriggerRun(trigger, run, userInput),
+    };
+  }
+
+  executeTriggerRun(trigger, run, userInput).catch((error) =>
+    console.error(`[INBOUND_TRIGGER] Run ${run._id} crashed:`, error),
+  );
+  return { mode: 'async', run };
+}
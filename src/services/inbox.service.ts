@@ -1,15 +1,87 @@
-import { IInbox, Inbox } from '../models/Inbox';
+import {
+  IInbox,
+  IInboxReply,
+  Inbox,
+  INBOX_PRIORITIES,
+  InboxPriority,
+} from '../models/Inbox';
 import { Session } from '../models/Session';
 import { Assistant } from '../models/Assistant';
+import { User } from '../models/User';
+import { Team } from '../models/Team';
 import mongoose from 'mongoose';
+import { emitWebhookEvent } from './webhook.service';
+import { emitToUser } from './websocket';
+import { BadRequestError, NotFoundError } from '../utils/errors';
 
 interface IInboxInput {
   message: string;
   sessionId: string;
   type: 'human_agent_request' | 'human_agent_response' | 'notification';
   companyId: string;
+  priority?: InboxPriority;
 }
 
+// Time to the first human response, per priority
+export const SLA_MINUTES: Record<InboxPriority, number> = {
+  urgent: 15,
+  high: 60,
+  normal: 4 * 60,
+  low: 24 * 60,
+};
+
+// Items stop escalating after this many missed SLAs
+export const MAX_ESCALATION_LEVEL = 3;
+
+const ESCALATION_INTERVAL_MS = 60 * 1000;
+const DEFAULT_QUEUE_LIMIT = 50;
+const MAX_QUEUE_LIMIT = 200;
+
+export const isInboxPriority = (value: unknown): value is InboxPriority =>
+  INBOX_PRIORITIES.includes(value as InboxPriority);
+
+export const computeSlaDueAt = (priority: InboxPriority, from: Date): Date =>
+  new Date(from.getTime() + SLA_MINUTES[priority] * 60 * 1000);
+
+/**
+ * The escalation due for an item, or null when its SLA is met or still
+ * running. An escalation raises the priority one step and restarts the SLA
+ * timer at the new priority.
+ */
+export const nextEscalation = (
+  item: Pick<
+    IInbox,
+    'status' | 'priority' | 'slaDueAt' | 'firstResponseAt' | 'escalationLevel'
+  >,
+  now: Date,
+): Pick<IInbox, 'priority' | 'slaDueAt' | 'escalationLevel'> | null => {
+  if (
+    item.status === 'closed' ||
+    item.firstResponseAt ||
+    !item.slaDueAt ||
+    item.slaDueAt > now ||
+    (item.escalationLevel || 0) >= MAX_ESCALATION_LEVEL
+  ) {
+    return null;
+  }
+
+  const index = INBOX_PRIORITIES.indexOf(item.priority || 'normal');
+  const priority =
+    INBOX_PRIORITIES[Math.min(index + 1, INBOX_PRIORITIES.length - 1)];
+  return {
+    priority,
+    slaDueAt: computeSlaDueAt(priority, now),
+    escalationLevel: (item.escalationLevel || 0) + 1,
+  };
+};
+
+const toObjectId = (id: string, label: string) => {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw new BadRequestError(`Invalid ${label}`);
+  }
+  return new mongoose.Types.ObjectId(id);
+};
+
 export const addMessageToInbox = async (inboxInput: IInboxInput) => {
   const session = await Session.findById(inboxInput.sessionId);
   if (!session) {
@@ -21,20 +93,72 @@ export const addMessageToInbox = async (inboxInput: IInboxInput) => {
     throw new Error('Assistant not found');
   }
 
+  // Only requests for a human are answered under an SLA
+  const priority = inboxInput.priority || 'normal';
+  const now = new Date();
   const inboxMessage = new Inbox({
     ...inboxInput,
     senderId: assistant._id,
     status: 'open',
     companyId: inboxInput.companyId,
+    priority,
+    createdAt: now,
+    ...(inboxInput.type === 'human_agent_request' && {
+      slaDueAt: computeSlaDueAt(priority, now),
+    }),
   });
 
   return await inboxMessage.save();
 };
 
-export const getInboxMessages = async (companyId: string) => {
+/**
+ * Queue filters. `assignedTo` is a user ID or "unassigned".
+ */
+export interface InboxQueueFilter {
+  status?: IInbox['status'];
+  type?: IInbox['type'];
+  priority?: InboxPriority;
+  assignedTo?: string;
+  teamId?: string;
+}
+
+const buildQueueMatch = (companyId: string, filter: InboxQueueFilter) => {
+  const match: Record<string, unknown> = {
+    companyId: new mongoose.Types.ObjectId(companyId),
+  };
+  if (filter.status) {
+    match.status = filter.status;
+  }
+  if (filter.type) {
+    match.type = filter.type;
+  }
+  if (filter.priority) {
+    if (!isInboxPriority(filter.priority)) {
+      throw new BadRequestError(
+        `priority must be one of ${INBOX_PRIORITIES.join(', ')}`,
+      );
+    }
+    match.priority = filter.priority;
+  }
+  if (filter.assignedTo === 'unassigned') {
+    match['assignee.userId'] = { $exists: false };
+    match['assignee.teamId'] = { $exists: false };
+  } else if (filter.assignedTo) {
+    match['assignee.userId'] = toObjectId(filter.assignedTo, 'assignedTo');
+  }
+  if (filter.teamId) {
+    match['assignee.teamId'] = toObjectId(filter.teamId, 'teamId');
+  }
+  return match;
+};
+
+export const getInboxMessages = async (
+  companyId: string,
+  filter: InboxQueueFilter = {},
+) => {
   const aggregationPipeline: any[] = [
     {
-      $match: { companyId: new mongoose.Types.ObjectId(companyId) },
+      $match: buildQueueMatch(companyId, filter),
     },
     {
       $lookup: {
@@ -44,7 +168,7 @@ export const getInboxMessages = async (companyId: string) => {
         as: 'sessionInfo',
       },
     },
-    { $unwind: '$sessionInfo' },
+    { $unwind: { path: '$sessionInfo', preserveNullAndEmptyArrays: true } },
     {
       $lookup: {
         from: 'assistants',
@@ -62,7 +186,7 @@ export const getInboxMessages = async (companyId: string) => {
         as: 'userInfo',
       },
     },
-    { $unwind: '$userInfo' },
+    { $unwind: { path: '$userInfo', preserveNullAndEmptyArrays: true } },
     {
       $group: {
         _id: '$sessionId',
@@ -78,6 +202,12 @@ export const getInboxMessages = async (companyId: string) => {
             assistantName: '$assistantInfo.name',
             senderId: '$senderId',
             type: '$type',
+            status: '$status',
+            approval: '$approval',
+            priority: '$priority',
+            assignee: '$assignee',
+            slaDueAt: '$slaDueAt',
+            handoff: '$handoff',
           },
         },
       },
@@ -109,3 +239,273 @@ export const updateInboxMessageStatus = async (
 export const getInboxMessage = async (id: string) => {
   return Inbox.findById(id);
 };
+
+/**
+ * One page of handoff requests (by default), most urgent SLA first
+ */
+export const listInboxQueue = async (
+  companyId: string,
+  filter: InboxQueueFilter & { page?: number; limit?: number } = {},
+) => {
+  const page = Math.max(filter.page || 1, 1);
+  const limit = Math.min(
+    Math.max(filter.limit || DEFAULT_QUEUE_LIMIT, 1),
+    MAX_QUEUE_LIMIT,
+  );
+  const match = buildQueueMatch(companyId, {
+    type: 'human_agent_request',
+    ...filter,
+  });
+
+  const [items, total] = await Promise.all([
+    Inbox.find(match)
+      .sort({ slaDueAt: 1, createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean<IInbox[]>(),
+    Inbox.countDocuments(match),
+  ]);
+  return { items, total, page, limit };
+};
+
+/**
+ * An inbox item of the company, or NotFoundError
+ */
+export const getCompanyInboxItem = async (id: string, companyId: string) => {
+  const item = mongoose.Types.ObjectId.isValid(id)
+    ? await Inbox.findOne({ _id: id, companyId })
+    : null;
+  if (!item) {
+    throw new NotFoundError('Inbox item');
+  }
+  return item;
+};
+
+/**
+ * Assign an item to a user and/or team of the company; neither unassigns it.
+ * The assigned user is notified over the WebSocket.
+ */
+export const assignInboxItem = async (
+  id: string,
+  companyId: string,
+  assignee: { userId?: string; teamId?: string },
+  assignedBy?: string,
+) => {
+  const item = await getCompanyInboxItem(id, companyId);
+
+  if (assignee.userId) {
+    const user = await User.exists({
+      _id: toObjectId(assignee.userId, 'userId'),
+      companyId,
+    });
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+  }
+  if (assignee.teamId) {
+    const team = await Team.exists({
+      _id: toObjectId(assignee.teamId, 'teamId'),
+      companyId,
+    });
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+  }
+
+  if (!assignee.userId && !assignee.teamId) {
+    item.set('assignee', undefined);
+  } else {
+    item.set('assignee', {
+      userId: assignee.userId,
+      teamId: assignee.teamId,
+      assignedBy,
+      assignedAt: new Date(),
+    });
+  }
+  item.updatedAt = new Date();
+  await item.save();
+
+  if (assignee.userId && assignee.userId !== assignedBy) {
+    emitToUser(assignee.userId, 'inbox_assigned', {
+      inboxId: item._id.toString(),
+      sessionId: item.sessionId?.toString(),
+      priority: item.priority,
+      slaDueAt: item.slaDueAt,
+      message: item.message,
+    });
+  }
+  return item;
+};
+
+/**
+ * Change an item's priority. An SLA that is still running is recomputed
+ * from the item's creation at the new priority.
+ */
+export const setInboxPriority = async (
+  id: string,
+  companyId: string,
+  priority: InboxPriority,
+) => {
+  if (!isInboxPriority(priority)) {
+    throw new BadRequestError(
+      `priority must be one of ${INBOX_PRIORITIES.join(', ')}`,
+    );
+  }
+  const item = await getCompanyInboxItem(id, companyId);
+  item.priority = priority;
+  if (item.slaDueAt && !item.firstResponseAt) {
+    item.slaDueAt = computeSlaDueAt(priority, item.createdAt);
+  }
+  item.updatedAt = new Date();
+  return await item.save();
+};
+
+/**
+ * Change an item's status. A session that was taken over has to be handed
+ * back to the assistant before its item is closed.
+ */
+export const setInboxStatus = async (
+  id: string,
+  companyId: string,
+  status: IInbox['status'],
+) => {
+  if (!['open', 'in_progress', 'closed'].includes(status)) {
+    throw new BadRequestError(
+      'status must be one of open, in_progress, closed',
+    );
+  }
+  const item = await getCompanyInboxItem(id, companyId);
+  if (status === 'closed' && item.handoff?.active) {
+    throw new BadRequestError(
+      'Hand the session back to the assistant before closing this item',
+    );
+  }
+  item.status = status;
+  item.updatedAt = new Date();
+  return await item.save();
+};
+
+/**
+ * Add a reply or an internal note to an item's thread. The first reply
+ * that is not internal stops the SLA timer.
+ */
+export const addInboxReply = async (
+  id: string,
+  companyId: string,
+  reply: Pick<IInboxReply, 'authorType' | 'message'> & {
+    authorId?: string;
+    internal?: boolean;
+  },
+) => {
+  if (!reply.message || typeof reply.message !== 'string') {
+    throw new BadRequestError('message is required');
+  }
+  const item = await getCompanyInboxItem(id, companyId);
+  const now = new Date();
+  item.replies.push({
+    authorType: reply.authorType,
+    authorId: reply.authorId
+      ? new mongoose.Types.ObjectId(reply.authorId)
+      : undefined,
+    message: reply.message,
+    internal: reply.internal === true,
+    createdAt: now,
+  } as IInboxReply);
+  if (reply.authorType === 'user' && !reply.internal && !item.firstResponseAt) {
+    item.firstResponseAt = now;
+  }
+  item.updatedAt = now;
+  await item.save();
+  return item;
+};
+
+/**
+ * Escalate every item whose SLA passed without a human response. Each
+ * escalation is claimed atomically, so concurrent sweeps on several
+ * instances escalate an item once.
+ */
+export const escalateOverdueInboxItems = async (): Promise<number> => {
+  const now = new Date();
+  const overdue = await Inbox.find({
+    status: { $ne: 'closed' },
+    firstResponseAt: { $exists: false },
+    slaDueAt: { $lte: now },
+    escalationLevel: { $lt: MAX_ESCALATION_LEVEL },
+  })
+    .limit(100)
+    .lean<IInbox[]>();
+
+  let escalated = 0;
+  for (const item of overdue) {
+    const escalation = nextEscalation(item, now);
+    if (!escalation) {
+      continue;
+    }
+    const claimed = await Inbox.findOneAndUpdate(
+      {
+        _id: item._id,
+        escalationLevel: item.escalationLevel || 0,
+        firstResponseAt: { $exists: false },
+      },
+      { $set: { ...escalation, escalatedAt: now, updatedAt: now } },
+      { new: true },
+    );
+    if (!claimed) {
+      continue;
+    }
+    escalated++;
+
+    const payload = {
+      inboxId: claimed._id.toString(),
+      sessionId: claimed.sessionId?.toString(),
+      priority: claimed.priority,
+      escalationLevel: claimed.escalationLevel,
+      slaDueAt: claimed.slaDueAt,
+      assignee: claimed.assignee && {
+        userId: claimed.assignee.userId?.toString(),
+        teamId: claimed.assignee.teamId?.toString(),
+      },
+      message: claimed.message,
+    };
+    emitWebhookEvent(
+      claimed.companyId.toString(),
+      'inbox.escalated',
+      payload,
+      claimed.senderId.toString(),
+    );
+    if (claimed.assignee?.userId) {
+      emitToUser(
+        claimed.assignee.userId.toString(),
+        'inbox_escalated',
+        payload,
+      );
+    }
+  }
+  return escalated;
+};
+
+let escalationTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start checking inbox SLAs
+ */
+export const startInboxEscalation = (): void => {
+  if (escalationTimer) {
+    return;
+  }
+  escalationTimer = setInterval(() => {
+    escalateOverdueInboxItems().catch((error) => {
+      console.error('[INBOX] SLA escalation sweep failed:', error);
+    });
+  }, ESCALATION_INTERVAL_MS);
+  console.log(
+    `[INBOX] SLA escalation started, checking every ${ESCALATION_INTERVAL_MS / 1000}s`,
+  );
+};
+
+export const stopInboxEscalation = (): void => {
+  if (escalationTimer) {
+    clearInterval(escalationTimer);
+    escalationTimer = null;
+  }
+};
@@ -42,6 +42,7 @@ export type IntegrationConfigLean = {
   enabled: boolean;
   configuredAt: Date;
   configuredBy?: string;
+  approvalRequiredActions?: string[];
   updatedAt: Date;
   createdAt: Date;
 };
@@ -138,6 +139,27 @@ export async function saveIntegrationConfig(
   return config;
 }
 
+/**
+ * Set which actions of an integration wait for human approval.
+ * Entries are action names ("deleteTicket" or "jira.deleteTicket") or "*"
+ * for every action of the integration.
+ */
+export async function setApprovalRequiredActions(
+  companyId: string,
+  integrationId: string,
+  actions: string[],
+): Promise<IIntegrationConfig> {
+  const config = await IntegrationConfig.findOneAndUpdate(
+    { companyId, integrationId },
+    { $set: { approvalRequiredActions: actions } },
+    { upsert: true, new: true },
+  );
+
+  invalidateIntegrationConfigCache(companyId, integrationId);
+
+  return config;
+}
+
 /**
  * Delete an integration config
  */
@@ -270,6 +292,7 @@ export interface IntegrationConfigStatus {
   enabled: boolean;
   configuredAt?: Date;
   configuredKeys: string[]; // List of key names that are configured
+  approvalRequiredActions: string[];
 }
 
 export async function getIntegrationConfigStatuses(
@@ -287,6 +310,7 @@ export async function getIntegrationConfigStatuses(
       enabled: config?.enabled ?? false,
       configuredAt: config?.configuredAt,
       configuredKeys: config?.apiKeys.map((k) => k.key) ?? [],
+      approvalRequiredActions: config?.approvalRequiredActions ?? [],
     };
   });
 }
@@ -0,0 +1,339 @@
+// file path: /src/services/llm-provider.service.ts
+import NodeCache from 'node-cache';
+import axios from 'axios';
+import {
+  LlmProvider,
+  ILlmProvider,
+  LlmProviderType,
+} from '../models/LlmProvider';
+import {
+  saveIntegrationConfig,
+  deleteIntegrationConfig,
+  getIntegrationApiKey,
+  isIntegrationConfigured,
+} from './integration-config.service';
+import { isBuiltInProvider } from '../types/assistant.types';
+
+// Cache with 15-minute TTL (same as integration-config.service)
+const llmProviderCache = new NodeCache({ stdTTL: 900 });
+
+/**
+ * Name of the key inside the provider's IntegrationConfig entry
+ */
+export const LLM_PROVIDER_API_KEY_NAME = 'api_key';
+
+/**
+ * IntegrationConfig ID under which a custom provider's API key is stored
+ */
+export function getLlmProviderIntegrationId(providerKey: string): string {
+  return `llm_provider:${providerKey}`;
+}
+
+/**
+ * Lean version of a custom provider for caching (without mongoose methods)
+ */
+export type LlmProviderLean = {
+  _id: string;
+  companyId: string;
+  key: string;
+  name: string;
+  type: LlmProviderType;
+  baseUrl: string;
+  models: string[];
+  headers?: Record<string, string>;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export interface LlmProviderInput {
+  key: string;
+  name: string;
+  type?: LlmProviderType;
+  baseUrl: string;
+  models?: string[];
+  headers?: Record<string, string>;
+  enabled?: boolean;
+  apiKey?: string; // Plain-text key, stored encrypted in IntegrationConfig
+}
+
+/**
+ * Public view of a custom provider (never includes the API key)
+ */
+export interface LlmProviderView extends LlmProviderLean {
+  hasApiKey: boolean;
+}
+
+const LLM_PROVIDER_TYPES: LlmProviderType[] = [
+  'openai-compatible',
+  'azure-openai',
+];
+
+/**
+ * Validate the fields shared by create and update. Returns the problem, or
+ * null when the input is valid.
+ */
+export function validateLlmProviderInput(
+  body: Partial<LlmProviderInput>,
+  isCreate: boolean,
+): string | null {
+  if (isCreate) {
+    if (!body.key || typeof body.key !== 'string') {
+      return 'key is required';
+    }
+    if (!/^[a-z0-9][a-z0-9_-]{1,48}$/.test(body.key)) {
+      return 'key must be 2-49 lowercase letters, digits, "-" or "_"';
+    }
+    if (!body.name || typeof body.name !== 'string') {
+      return 'name is required';
+    }
+    if (!body.baseUrl) {
+      return 'baseUrl is required';
+    }
+  }
+  if (body.baseUrl !== undefined) {
+    try {
+      const url = new URL(body.baseUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'baseUrl must be an http(s) URL';
+      }
+    } catch {
+      return 'baseUrl must be a valid URL';
+    }
+  }
+  if (body.type !== undefined && !LLM_PROVIDER_TYPES.includes(body.type)) {
+    return `type must be one of: ${LLM_PROVIDER_TYPES.join(', ')}`;
+  }
+  if (body.models !== undefined && !Array.isArray(body.models)) {
+    return 'models must be an array of model IDs';
+  }
+  return null;
+}
+
+function getCacheKey(companyId: string, providerKey: string): string {
+  return `llm_provider:${companyId}:${providerKey}`;
+}
+
+function invalidateLlmProviderCache(companyId: string, providerKey: string) {
+  llmProviderCache.del(getCacheKey(companyId, providerKey));
+}
+
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '');
+}
+
+async function toView(provider: LlmProviderLean): Promise<LlmProviderView> {
+  const hasApiKey = await isIntegrationConfigured(
+    provider.companyId.toString(),
+    getLlmProviderIntegrationId(provider.key),
+  );
+  return { ...provider, hasApiKey };
+}
+
+/**
+ * Get a custom provider by key (cached)
+ */
+export async function getLlmProvider(
+  companyId: string,
+  providerKey: string,
+): Promise<LlmProviderLean | null> {
+  const cacheKey = getCacheKey(companyId, providerKey);
+  const cached = llmProviderCache.get<LlmProviderLean>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const provider = await LlmProvider.findOne({
+    companyId,
+    key: providerKey,
+  }).lean();
+
+  if (provider) {
+    llmProviderCache.set(cacheKey, provider);
+  }
+
+  return provider as unknown as LlmProviderLean | null;
+}
+
+/**
+ * Get the decrypted API key for a custom provider, if one was configured.
+ * Local endpoints (Ollama, LM Studio) usually don't need one.
+ */
+export async function getLlmProviderApiKey(
+  companyId: string,
+  providerKey: string,
+): Promise<string | null> {
+  return getIntegrationApiKey(
+    companyId,
+    getLlmProviderIntegrationId(providerKey),
+    LLM_PROVIDER_API_KEY_NAME,
+  );
+}
+
+/**
+ * List all custom providers registered by a company
+ */
+export async function listLlmProviders(
+  companyId: string,
+): Promise<LlmProviderView[]> {
+  const providers = (await LlmProvider.find({ companyId })
+    .sort({ createdAt: 1 })
+    .lean()) as unknown as LlmProviderLean[];
+
+  return Promise.all(providers.map(toView));
+}
+
+/**
+ * Register a new custom provider for a company
+ */
+export async function createLlmProvider(
+  companyId: string,
+  input: LlmProviderInput,
+  userId?: string,
+): Promise<LlmProviderView> {
+  if (isBuiltInProvider(input.key)) {
+    throw new Error(`"${input.key}" is a built-in provider key`);
+  }
+
+  const existing = await LlmProvider.findOne({ companyId, key: input.key });
+  if (existing) {
+    throw new Error(`Provider "${input.key}" already exists`);
+  }
+
+  const provider = await LlmProvider.create({
+    companyId,
+    key: input.key,
+    name: input.name,
+    type: input.type || 'openai-compatible',
+    baseUrl: normalizeBaseUrl(input.baseUrl),
+    models: input.models || [],
+    headers: input.headers,
+    enabled: input.enabled ?? true,
+    ...(userId && { createdBy: userId }),
+  });
+
+  if (input.apiKey) {
+    await saveIntegrationConfig(
+      companyId,
+      getLlmProviderIntegrationId(input.key),
+      [{ key: LLM_PROVIDER_API_KEY_NAME, value: input.apiKey }],
+      userId,
+    );
+  }
+
+  return toView(provider.toObject() as unknown as LlmProviderLean);
+}
+
+/**
+ * Update a custom provider. Passing `apiKey: ''` removes the stored key.
+ */
+export async function updateLlmProvider(
+  companyId: string,
+  providerKey: string,
+  input: Partial<Omit<LlmProviderInput, 'key'>>,
+  userId?: string,
+): Promise<LlmProviderView | null> {
+  const update: Partial<ILlmProvider> = {};
+  if (input.name !== undefined) update.name = input.name;
+  if (input.type !== undefined) update.type = input.type;
+  if (input.baseUrl !== undefined)
+    update.baseUrl = normalizeBaseUrl(input.baseUrl);
+  if (input.models !== undefined) update.models = input.models;
+  if (input.headers !== undefined) update.headers = input.headers;
+  if (input.enabled !== undefined) update.enabled = input.enabled;
+
+  const provider = await LlmProvider.findOneAndUpdate(
+    { companyId, key: providerKey },
+    { $set: update },
+    { new: true, runValidators: true },
+  ).lean();
+
+  if (!provider) {
+    return null;
+  }
+
+  const integrationId = getLlmProviderIntegrationId(providerKey);
+  if (input.apiKey === '') {
+    await deleteIntegrationConfig(companyId, integrationId);
+  } else if (input.apiKey) {
+    await saveIntegrationConfig(
+      companyId,
+      integrationId,
+      [{ key: LLM_PROVIDER_API_KEY_NAME, value: input.apiKey }],
+      userId,
+    );
+  }
+
+  invalidateLlmProviderCache(companyId, providerKey);
+
+  return toView(provider as unknown as LlmProviderLean);
+}
+
+/**
+ * Delete a custom provider and its stored API key
+ */
+export async function deleteLlmProvider(
+  companyId: string,
+  providerKey: string,
+): Promise<boolean> {
+  const result = await LlmProvider.deleteOne({ companyId, key: providerKey });
+  await deleteIntegrationConfig(
+    companyId,
+    getLlmProviderIntegrationId(providerKey),
+  );
+  invalidateLlmProviderCache(companyId, providerKey);
+  return result.deletedCount > 0;
+}
+
+/**
+ * Build the HTTP headers used to talk to a custom provider
+ */
+export function buildLlmProviderHeaders(
+  provider: Pick<LlmProviderLean, 'type' | 'headers'>,
+  apiKey: string | null,
+): Record<string, string> {
+  const headers: Record<string, string> = { ...(provider.headers || {}) };
+  if (apiKey && provider.type === 'azure-openai') {
+    headers['api-key'] = apiKey;
+  }
+  return headers;
+}
+
+/**
+ * Test connectivity to a custom provider by listing its models.
+ * Most OpenAI-compatible servers expose GET {baseUrl}/models.
+ */
+export async function testLlmProviderConnection(
+  companyId: string,
+  providerKey: string,
+): Promise<{ success: boolean; models?: string[]; error?: string }> {
+  const provider = await getLlmProvider(companyId, providerKey);
+  if (!provider) {
+    return { success: false, error: `Provider "${providerKey}" not found` };
+  }
+
+  const apiKey = await getLlmProviderApiKey(companyId, providerKey);
+  const headers = buildLlmProviderHeaders(provider, apiKey);
+  if (apiKey && provider.type !== 'azure-openai') {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  try {
+    const response = await axios.get(`${provider.baseUrl}/models`, {
+      headers,
+      timeout: 10000,
+    });
+    const models = Array.isArray(response.data?.data)
+      ? response.data.data.map((m: any) => m.id).filter(Boolean)
+      : [];
+    return { success: true, models };
+  } catch (error: any) {
+    return {
+      success: false,
+      error:
+        error.response?.data?.error?.message ||
+        error.message ||
+        'Failed to reach provider',
+    };
+  }
+}
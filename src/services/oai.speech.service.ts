@@ -2,6 +2,24 @@ import { uploadFile } from './google.storage.service';
 import { getOpenAIClient } from './assistant.service';
 import { getCompletionResponse, summarizeText } from './oai.completion.service';
 
+/**
+ * Speak text as MP3 audio, without summarizing or uploading it
+ */
+export const synthesizeSpeech = async (
+  apiKey: string,
+  text: string,
+  voice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer' = 'alloy',
+  model: 'tts-1-hd' | 'tts-1' = 'tts-1',
+): Promise<Buffer> => {
+  const openaiClient = getOpenAIClient(apiKey);
+  const mp3 = await openaiClient.audio.speech.create({
+    input: text,
+    model,
+    voice,
+  });
+  return Buffer.from(await mp3.arrayBuffer());
+};
+
 export const generateSpeech = async (
   apiKey: string,
   text: string,
@@ -17,14 +35,7 @@ export const generateSpeech = async (
     const summarizedText = await summarizeText(apiKey, text, textLimit);
     text = summarizedText;
   }
-  const openaiClient = getOpenAIClient(apiKey);
-  const mp3 = await openaiClient.audio.speech.create({
-    input: text,
-    model,
-    voice,
-  });
-
-  const buffer = Buffer.from(await mp3.arrayBuffer());
+  const buffer = await synthesizeSpeech(apiKey, text, voice, model);
 
   // Use provided filename if available, otherwise generate timestamp-based name
   const finalFilename = filename
@@ -1,12 +1,100 @@
 /**
- * OAuth 2.1 Wrapper for MCP Server
+ * OAuth 2.1 Authorization Server for the MCP Server
  *
- * Lightweight OAuth implementation that wraps existing API key authentication
- * Makes the MCP server compatible with Claude Code and other OAuth-expecting clients
+ * MCP clients register dynamically, send the user through the authorization
+ * page (where the user approves the client with one of their API keys) and
+ * receive short-lived access tokens with rotating refresh tokens. Tokens act
+ * with the granted scopes, narrowed to the permissions of the approving key.
  */
 
 import crypto from 'crypto';
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { ApiKey } from '../models/ApiKey';
+import { ICompany } from '../models/Company';
+import { IOAuthClient, OAuthClient } from '../models/OAuthClient';
+import { IOAuthGrant, OAuthGrant } from '../models/OAuthGrant';
+import { IOAuthToken, OAuthToken } from '../models/OAuthToken';
+import { IUser } from '../models/User';
+import { ApiKeyService } from './apiKey.service';
+import { OAuthError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { intersectPermissions, isValidPermission } from '../utils/permissions';
+
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+const AUTHORIZATION_CODE_TTL_SECONDS = 60;
+
+const ACCESS_TOKEN_PREFIX = 'mcp_at_';
+const REFRESH_TOKEN_PREFIX = 'mcp_rt_';
+const AUTHORIZATION_CODE_PREFIX = 'mcp_ac_';
+const CLIENT_SECRET_PREFIX = 'mcp_cs_';
+
+const SUPPORTED_GRANT_TYPES = [
+  'authorization_code',
+  'refresh_token',
+  'client_credentials',
+];
+
+/**
+ * Named scopes and the API key permissions they map to. Any permission from
+ * utils/permissions (e.g. `assistants:execute:<assistantId>`) is also
+ * accepted as a scope of its own.
+ */
+export const OAUTH_SCOPES: Record<
+  string,
+  { description: string; permissions: string[] }
+> = {
+  'mcp:read': {
+    description: 'Read agents, teams, sessions, workspace, evals and workflows',
+    permissions: [
+      'assistants:read',
+      'company:read',
+      'sessions:read',
+      'workspace:read',
+      'evals:read',
+      'workflows:read',
+    ],
+  },
+  'mcp:execute': {
+    description: 'Execute agents and send messages on your behalf',
+    permissions: ['assistants:execute', 'sessions:write'],
+  },
+  'mcp:write': {
+    description:
+      'Create, update and delete agents, teams, workspace entries, evals and workflows',
+    permissions: [
+      'assistants:write',
+      'company:write',
+      'sessions:write',
+      'workspace:write',
+      'evals:write',
+      'workflows:write',
+    ],
+  },
+};
+
+// Requested when a client asks for no scope, matching what clients got
+// before scopes were enforced
+const DEFAULT_SCOPES = ['mcp:read', 'mcp:execute'];
+
+export interface AccessTokenContext {
+  user: IUser;
+  company: ICompany;
+  apiKeyId: mongoose.Types.ObjectId;
+  clientId: string;
+  scopes: string[];
+  permissions: string[];
+}
+
+export interface AuthorizedClient {
+  clientId: string;
+  clientName: string;
+  clientUri?: string;
+  scopes: string[];
+  authorizedAt: Date;
+  lastUsedAt?: Date;
+}
 
 /**
  * Get the base URL from the request, handling proxies and different environments
@@ -26,6 +114,136 @@ export function getBaseUrl(req: Request): string {
   return `${protocol}://${host}`;
 }
 
+const hashToken = (value: string): string =>
+  crypto.createHash('sha256').update(value).digest('hex');
+
+const generateToken = (prefix: string): string =>
+  prefix + crypto.randomBytes(32).toString('hex');
+
+const safeEqual = (a: string, b: string): boolean =>
+  a.length === b.length &&
+  crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Split a space-delimited scope parameter into distinct scopes
+ */
+export const parseScope = (scope: unknown): string[] =>
+  typeof scope === 'string'
+    ? [...new Set(scope.split(' ').filter(Boolean))]
+    : [];
+
+/**
+ * Whether a scope is a named scope or a permission
+ */
+export const isSupportedScope = (scope: string): boolean =>
+  scope in OAUTH_SCOPES || isValidPermission(scope);
+
+/**
+ * The API key permissions a set of scopes maps to
+ */
+export const scopesToPermissions = (scopes: string[]): string[] => [
+  ...new Set(
+    scopes.flatMap((scope) => OAUTH_SCOPES[scope]?.permissions ?? [scope]),
+  ),
+];
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const isLoopbackHttp = (url: URL): boolean =>
+  url.protocol === 'http:' && LOOPBACK_HOSTS.includes(url.hostname);
+
+/**
+ * Whether a redirect URI may be registered: https, http on a loopback host,
+ * or a private-use scheme for native apps (RFC 8252). Fragments and
+ * script-capable schemes are refused.
+ */
+export const isValidRedirectUri = (uri: unknown): boolean => {
+  if (typeof uri !== 'string') {
+    return false;
+  }
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return false;
+  }
+  if (url.hash || uri.includes('#')) {
+    return false;
+  }
+  if (url.protocol === 'https:') {
+    return true;
+  }
+  if (url.protocol === 'http:') {
+    return isLoopbackHttp(url);
+  }
+  return !['javascript:', 'data:', 'file:', 'vbscript:', 'blob:'].includes(
+    url.protocol,
+  );
+};
+
+/**
+ * Whether a redirect URI matches one the client registered. Matching is
+ * exact, except that loopback redirects may use any port (RFC 8252 §7.3).
+ */
+export const matchesRedirectUri = (
+  registered: string[],
+  uri: string,
+): boolean => {
+  if (registered.includes(uri)) {
+    return true;
+  }
+  let requested: URL;
+  try {
+    requested = new URL(uri);
+  } catch {
+    return false;
+  }
+  if (!isLoopbackHttp(requested)) {
+    return false;
+  }
+  return registered.some((candidate) => {
+    const url = new URL(candidate);
+    if (!isLoopbackHttp(url)) {
+      return false;
+    }
+    url.port = requested.port;
+    return url.toString() === requested.toString();
+  });
+};
+
+/**
+ * Verify a PKCE code verifier against an S256 challenge
+ */
+export const verifyPkce = (verifier: unknown, challenge: string): boolean =>
+  typeof verifier === 'string' &&
+  /^[A-Za-z0-9\-._~]{43,128}$/.test(verifier) &&
+  safeEqual(
+    crypto.createHash('sha256').update(verifier).digest('base64url'),
+    challenge,
+  );
+
+const sendOAuthError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof OAuthError) {
+    return res.status(error.statusCode).json({
+      error: error.code,
+      error_description: error.message,
+    });
+  }
+  logger.error(`OAuth ${context} failed`, { error });
+  return res.status(500).json({
+    error: 'server_error',
+    error_description: `Failed to process ${context}`,
+  });
+};
+
 /**
  * OAuth Protected Resource Metadata (RFC 9728)
  * Required by MCP June 2025 specification
@@ -35,7 +253,7 @@ export function getProtectedResourceMetadata(req: Request) {
   return {
     resource: baseUrl,
     authorization_servers: [baseUrl],
-    scopes_supported: ['mcp:execute', 'mcp:read'],
+    scopes_supported: Object.keys(OAUTH_SCOPES),
     bearer_methods_supported: ['header'],
     resource_signing_alg_values_supported: [],
     resource_documentation: `${baseUrl}/docs/mcp`,
@@ -53,11 +271,18 @@ export function getAuthorizationServerMetadata(req: Request) {
     authorization_endpoint: `${baseUrl}/oauth/authorize`,
     token_endpoint: `${baseUrl}/oauth/token`,
     registration_endpoint: `${baseUrl}/oauth/register`,
+    revocation_endpoint: `${baseUrl}/oauth/revoke`,
+    introspection_endpoint: `${baseUrl}/oauth/introspect`,
     token_endpoint_auth_methods_supported: ['none', 'client_secret_post'],
-    grant_types_supported: ['authorization_code', 'client_credentials'],
+    revocation_endpoint_auth_methods_supported: ['none', 'client_secret_post'],
+    introspection_endpoint_auth_methods_supported: [
+      'none',
+      'client_secret_post',
+    ],
+    grant_types_supported: SUPPORTED_GRANT_TYPES,
     response_types_supported: ['code'],
     code_challenge_methods_supported: ['S256'],
-    scopes_supported: ['mcp:execute', 'mcp:read'],
+    scopes_supported: Object.keys(OAUTH_SCOPES),
     service_documentation: `${baseUrl}/docs/oauth`,
     ui_locales_supported: ['en-US'],
   };
@@ -65,43 +290,311 @@ export function getAuthorizationServerMetadata(req: Request) {
 
 /**
  * Dynamic Client Registration (RFC 7591)
- * Returns static client configuration - we don't actually store clients
- * since we validate against API keys directly
+ * Persists the client with its redirect URIs and the scopes it may request.
+ * Confidential clients (`client_secret_post`) get a secret that is only
+ * returned here.
  */
-export function registerClient(req: Request) {
-  // Generate a client ID (can be static since we validate via API key)
-  const clientId = crypto.randomBytes(16).toString('hex');
+export async function registerClient(body: Record<string, any>) {
+  const redirectUris = body.redirect_uris;
+  if (!Array.isArray(redirectUris) || redirectUris.length === 0) {
+    throw new OAuthError(
+      'invalid_redirect_uri',
+      'At least one redirect URI is required',
+    );
+  }
+  const invalidUris = redirectUris.filter((uri) => !isValidRedirectUri(uri));
+  if (invalidUris.length > 0) {
+    throw new OAuthError(
+      'invalid_redirect_uri',
+      `Redirect URIs must use https, http on localhost or a private-use scheme, without a fragment: ${invalidUris.join(', ')}`,
+    );
+  }
+
+  const grantTypes: string[] = body.grant_types ?? [
+    'authorization_code',
+    'refresh_token',
+  ];
+  if (
+    !Array.isArray(grantTypes) ||
+    grantTypes.some((type) => !SUPPORTED_GRANT_TYPES.includes(type))
+  ) {
+    throw new OAuthError(
+      'invalid_client_metadata',
+      `grant_types must be a subset of: ${SUPPORTED_GRANT_TYPES.join(', ')}`,
+    );
+  }
+
+  const scopes =
+    body.scope !== undefined
+      ? parseScope(body.scope)
+      : Object.keys(OAUTH_SCOPES);
+  const unsupported = scopes.filter((scope) => !isSupportedScope(scope));
+  if (scopes.length === 0 || unsupported.length > 0) {
+    throw new OAuthError(
+      'invalid_client_metadata',
+      `Unsupported scopes: ${unsupported.join(', ') || '(none requested)'}`,
+    );
+  }
+
+  const authMethod = body.token_endpoint_auth_method ?? 'none';
+  if (!['none', 'client_secret_post'].includes(authMethod)) {
+    throw new OAuthError(
+      'invalid_client_metadata',
+      'token_endpoint_auth_method must be none or client_secret_post',
+    );
+  }
+
+  const clientSecret =
+    authMethod === 'client_secret_post'
+      ? generateToken(CLIENT_SECRET_PREFIX)
+      : undefined;
+
+  const client = await OAuthClient.create({
+    clientId: crypto.randomBytes(16).toString('hex'),
+    clientSecretHash: clientSecret ? hashToken(clientSecret) : undefined,
+    clientName: String(body.client_name || 'MCP Client').slice(0, 200),
+    clientUri: isValidRedirectUri(body.client_uri)
+      ? body.client_uri
+      : undefined,
+    redirectUris,
+    grantTypes,
+    scopes,
+    tokenEndpointAuthMethod: authMethod,
+  });
 
   return {
-    client_id: clientId,
-    client_id_issued_at: Math.floor(Date.now() / 1000),
-    client_name: req.body.client_name || 'MCP Client',
-    client_uri: req.body.client_uri,
-    grant_types: ['authorization_code', 'client_credentials'],
+    client_id: client.clientId,
+    ...(clientSecret && {
+      client_secret: clientSecret,
+      client_secret_expires_at: 0,
+    }),
+    client_id_issued_at: Math.floor(client.createdAt.getTime() / 1000),
+    client_name: client.clientName,
+    client_uri: client.clientUri,
+    grant_types: client.grantTypes,
     response_types: ['code'],
-    token_endpoint_auth_method: 'none', // Public client (PKCE protects it)
-    redirect_uris: req.body.redirect_uris || [],
-    scope: 'mcp:execute mcp:read',
+    token_endpoint_auth_method: client.tokenEndpointAuthMethod,
+    redirect_uris: client.redirectUris,
+    scope: client.scopes.join(' '),
   };
 }
 
+/**
+ * The scopes a client gets for a request: the requested ones (or the
+ * defaults it registered for), all of which it must have registered
+ */
+const resolveRequestedScopes = (
+  client: IOAuthClient,
+  scope: unknown,
+): string[] => {
+  let scopes = parseScope(scope);
+  if (scopes.length === 0) {
+    scopes = DEFAULT_SCOPES.filter((s) => client.scopes.includes(s));
+    if (scopes.length === 0) {
+      scopes = client.scopes;
+    }
+  }
+  const notAllowed = scopes.filter((s) => !client.scopes.includes(s));
+  if (notAllowed.length > 0) {
+    throw new OAuthError(
+      'invalid_scope',
+      `Client is not registered for scopes: ${notAllowed.join(', ')}`,
+    );
+  }
+  return scopes;
+};
+
+/**
+ * Authenticate a client at the token, revocation or introspection endpoint
+ */
+const authenticateClient = async (
+  body: Record<string, any>,
+): Promise<IOAuthClient> => {
+  const { client_id, client_secret } = body;
+  if (!client_id) {
+    throw new OAuthError('invalid_client', 'client_id is required', 401);
+  }
+
+  const client = await OAuthClient.findOne({ clientId: String(client_id) });
+  if (!client) {
+    throw new OAuthError('invalid_client', 'Unknown client', 401);
+  }
+  if (
+    client.tokenEndpointAuthMethod === 'client_secret_post' &&
+    (!client_secret ||
+      !client.clientSecretHash ||
+      !safeEqual(hashToken(String(client_secret)), client.clientSecretHash))
+  ) {
+    throw new OAuthError('invalid_client', 'Invalid client secret', 401);
+  }
+  return client;
+};
+
+/**
+ * Revoke a grant with all of its codes and tokens
+ */
+const revokeGrant = async (grantId: mongoose.Types.ObjectId) => {
+  const now = new Date();
+  await OAuthGrant.updateOne(
+    { _id: grantId, revokedAt: { $exists: false } },
+    { revokedAt: now },
+  );
+  await OAuthToken.updateMany(
+    { grantId, revokedAt: { $exists: false } },
+    { revokedAt: now },
+  );
+};
+
+/**
+ * A grant of `scopes` to a client, backed by the user's API key. Fails
+ * when the key allows none of the requested scopes.
+ */
+const createGrant = async (
+  clientId: string,
+  apiKey: { _id: any; userId: any; companyId: any; permissions?: string[] },
+  scopes: string[],
+): Promise<IOAuthGrant> => {
+  const permissions = intersectPermissions(
+    scopesToPermissions(scopes),
+    apiKey.permissions,
+  );
+  if (permissions.length === 0) {
+    throw new OAuthError(
+      'invalid_scope',
+      'The API key does not allow any of the requested scopes',
+    );
+  }
+
+  return OAuthGrant.create({
+    clientId,
+    userId: apiKey.userId._id ?? apiKey.userId,
+    companyId: apiKey.companyId._id ?? apiKey.companyId,
+    apiKeyId: apiKey._id,
+    scopes,
+    permissions,
+  });
+};
+
+/**
+ * Issue an access token, and a refresh token unless `withRefreshToken` is
+ * false, as a token endpoint response
+ */
+const issueTokens = async (
+  grant: IOAuthGrant,
+  withRefreshToken: boolean = true,
+) => {
+  const now = Date.now();
+  const accessToken = generateToken(ACCESS_TOKEN_PREFIX);
+  const refreshToken = withRefreshToken
+    ? generateToken(REFRESH_TOKEN_PREFIX)
+    : undefined;
+
+  await OAuthToken.create([
+    {
+      tokenHash: hashToken(accessToken),
+      type: 'access_token',
+      grantId: grant._id,
+      clientId: grant.clientId,
+      expiresAt: new Date(now + ACCESS_TOKEN_TTL_SECONDS * 1000),
+    },
+    ...(refreshToken
+      ? [
+          {
+            tokenHash: hashToken(refreshToken),
+            type: 'refresh_token',
+            grantId: grant._id,
+            clientId: grant.clientId,
+            expiresAt: new Date(now + REFRESH_TOKEN_TTL_SECONDS * 1000),
+          },
+        ]
+      : []),
+  ]);
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    ...(refreshToken && { refresh_token: refreshToken }),
+    scope: grant.scopes.join(' '),
+  };
+};
+
+/**
+ * Mark a single-use code or refresh token as used. A token that was already
+ * used is being replayed, so the whole grant is revoked (OAuth 2.1 §4.3.1).
+ */
+const consumeToken = async (
+  value: unknown,
+  type: 'authorization_code' | 'refresh_token',
+  client: IOAuthClient,
+): Promise<{ token: IOAuthToken; grant: IOAuthGrant }> => {
+  const label =
+    type === 'authorization_code' ? 'Authorization code' : 'Refresh token';
+  if (typeof value !== 'string' || !value) {
+    throw new OAuthError('invalid_request', `${label} is required`);
+  }
+
+  const token = await OAuthToken.findOne({ tokenHash: hashToken(value), type });
+  if (!token || token.clientId !== client.clientId) {
+    throw new OAuthError('invalid_grant', `Invalid ${label.toLowerCase()}`);
+  }
+  if (token.revokedAt || token.expiresAt <= new Date()) {
+    throw new OAuthError('invalid_grant', `${label} expired or revoked`);
+  }
+
+  const claimed = await OAuthToken.findOneAndUpdate(
+    { _id: token._id, usedAt: { $exists: false } },
+    { usedAt: new Date() },
+  );
+  if (!claimed) {
+    logger.warn('OAuth token replayed, revoking grant', {
+      type,
+      clientId: client.clientId,
+      grantId: token.grantId,
+    });
+    await revokeGrant(token.grantId);
+    throw new OAuthError('invalid_grant', `${label} was already used`);
+  }
+
+  const grant = await OAuthGrant.findById(token.grantId);
+  if (!grant || grant.revokedAt) {
+    throw new OAuthError('invalid_grant', 'Authorization was revoked');
+  }
+  return { token, grant };
+};
+
 /**
  * Generate the authorization page HTML
- * This page asks the user to enter their API key to authorize the MCP client
+ * This page asks the user to approve the client with their API key
  */
 function generateAuthorizationPage(params: {
-  client_id: string;
+  client: IOAuthClient;
   redirect_uri: string;
+  scopes: string[];
   state?: string;
   code_challenge: string;
-  code_challenge_method?: string;
   error?: string;
   baseUrl: string;
 }): string {
   const errorHtml = params.error
-    ? `<div style="background: #fee2e2; border: 1px solid #ef4444; color: #dc2626; padding: 12px; border-radius: 8px; margin-bottom: 16px;">${params.error}</div>`
+    ? `<div style="background: #fee2e2; border: 1px solid #ef4444; color: #dc2626; padding: 12px; border-radius: 8px; margin-bottom: 16px;">${escapeHtml(params.error)}</div>`
     : '';
 
+  const scopeItems = params.scopes
+    .map(
+      (scope) => `
+      <div class="permission-item">
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+          <polyline points="20 6 9 17 4 12"/>
+        </svg>
+        ${escapeHtml(OAUTH_SCOPES[scope]?.description ?? scope)}
+      </div>`,
+    )
+    .join('');
+
+  const hidden = (name: string, value: string) =>
+    `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`;
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -263,43 +756,34 @@ function generateAuthorizationPage(params: {
     ${errorHtml}
 
     <div class="client-info">
-      <p><strong>Client:</strong> MCP Client</p>
-      <p><strong>Redirect:</strong> ${params.redirect_uri.split('?')[0]}</p>
+      <p><strong>Client:</strong> ${escapeHtml(params.client.clientName)}</p>
+      <p><strong>Redirect:</strong> ${escapeHtml(params.redirect_uri.split('?')[0])}</p>
     </div>
 
     <div class="permissions">
-      <h3>This application will be able to:</h3>
-      <div class="permission-item">
-        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-          <polyline points="20 6 9 17 4 12"/>
-        </svg>
-        Execute AI assistants on your behalf
-      </div>
-      <div class="permission-item">
-        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-          <polyline points="20 6 9 17 4 12"/>
-        </svg>
-        Read assistant configurations and workspace
-      </div>
+      <h3>This application will be able to:</h3>${scopeItems}
     </div>
 
     <form method="POST" action="/oauth/authorize">
-      <input type="hidden" name="client_id" value="${params.client_id}">
-      <input type="hidden" name="redirect_uri" value="${params.redirect_uri}">
-      <input type="hidden" name="state" value="${params.state || ''}">
-      <input type="hidden" name="code_challenge" value="${params.code_challenge}">
-      <input type="hidden" name="code_challenge_method" value="${params.code_challenge_method || 'S256'}">
+      ${hidden('client_id', params.client.clientId)}
+      ${hidden('redirect_uri', params.redirect_uri)}
+      ${hidden('response_type', 'code')}
+      ${hidden('scope', params.scopes.join(' '))}
+      ${hidden('state', params.state || '')}
+      ${hidden('code_challenge', params.code_challenge)}
+      ${hidden('code_challenge_method', 'S256')}
 
       <label for="api_key">API Key</label>
       <input type="password" id="api_key" name="api_key" placeholder="sk_live_..." required autocomplete="off">
       <p class="help-text">
-        Enter your Agent Hub API key. You can create one in
-        <a href="${params.baseUrl}/admin/settings" target="_blank">Settings → API Keys</a>.
+        Enter your Agent Hub API key. The client can only do what both the
+        scopes above and the key allow. You can create a key in
+        <a href="${escapeHtml(params.baseUrl)}/admin/settings" target="_blank">Settings → API Keys</a>.
       </p>
 
       <div class="buttons">
-        <button type="button" class="btn-secondary" onclick="window.close()">Cancel</button>
-        <button type="submit" class="btn-primary">Authorize</button>
+        <button type="submit" name="decision" value="deny" class="btn-secondary" formnovalidate>Deny</button>
+        <button type="submit" name="decision" value="approve" class="btn-primary">Authorize</button>
       </div>
     </form>
   </div>
@@ -307,207 +791,485 @@ function generateAuthorizationPage(params: {
 </html>`;
 }
 
+/**
+ * Redirect an authorization error back to the client (RFC 6749 §4.1.2.1)
+ */
+const redirectWithError = (
+  res: Response,
+  redirectUri: string,
+  error: OAuthError,
+  state?: string,
+) => {
+  const url = new URL(redirectUri);
+  url.searchParams.set('error', error.code);
+  url.searchParams.set('error_description', error.message);
+  if (state) url.searchParams.set('state', state);
+  return res.redirect(url.toString());
+};
+
 /**
  * Authorization endpoint - GET shows the form, POST processes it
+ *
+ * The client and redirect URI are checked before anything is redirected;
+ * later errors are reported to the client through the redirect URI.
  */
-export function handleAuthorization(req: Request, res: Response) {
+export async function handleAuthorization(req: Request, res: Response) {
   const baseUrl = getBaseUrl(req);
-
-  if (req.method === 'GET') {
-    // Show authorization form
-    const {
-      client_id,
-      redirect_uri,
-      state,
-      code_challenge,
-      code_challenge_method,
-    } = req.query;
-
-    // Validate required parameters
-    if (!client_id || !redirect_uri || !code_challenge) {
-      return res.status(400).json({
-        error: 'invalid_request',
-        error_description: 'Missing required parameters',
-      });
-    }
-
-    const html = generateAuthorizationPage({
-      client_id: client_id as string,
-      redirect_uri: redirect_uri as string,
-      state: state as string,
-      code_challenge: code_challenge as string,
-      code_challenge_method: code_challenge_method as string,
-      baseUrl,
-    });
-
-    return res.type('html').send(html);
-  }
-
-  // POST - process the authorization
+  const params = (req.method === 'GET' ? req.query : req.body) as Record<
+    string,
+    any
+  >;
   const {
     client_id,
     redirect_uri,
+    response_type,
+    scope,
     state,
     code_challenge,
     code_challenge_method,
-    api_key,
-  } = req.body;
-
-  // Validate required parameters
-  if (!client_id || !redirect_uri || !code_challenge) {
-    return res.status(400).json({
-      error: 'invalid_request',
-      error_description: 'Missing required parameters',
-    });
-  }
+  } = params;
 
-  // Validate API key format
-  if (!api_key || !api_key.startsWith('sk_live_')) {
-    const html = generateAuthorizationPage({
-      client_id,
-      redirect_uri,
-      state,
-      code_challenge,
-      code_challenge_method,
-      baseUrl,
-      error: 'Invalid API key. API keys must start with sk_live_',
-    });
-    return res.type('html').send(html);
+  try {
+    if (!client_id || !redirect_uri) {
+      throw new OAuthError(
+        'invalid_request',
+        'client_id and redirect_uri are required',
+      );
+    }
+    const client = await OAuthClient.findOne({ clientId: String(client_id) });
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Unknown client');
+    }
+    if (!matchesRedirectUri(client.redirectUris, String(redirect_uri))) {
+      throw new OAuthError(
+        'invalid_request',
+        'redirect_uri is not registered for this client',
+      );
+    }
+
+    try {
+      if (response_type !== 'code') {
+        throw new OAuthError(
+          'unsupported_response_type',
+          'Only the code response type is supported',
+        );
+      }
+      if (!client.grantTypes.includes('authorization_code')) {
+        throw new OAuthError(
+          'unauthorized_client',
+          'Client is not registered for the authorization_code grant',
+        );
+      }
+      if (!code_challenge || (code_challenge_method ?? 'S256') !== 'S256') {
+        throw new OAuthError(
+          'invalid_request',
+          'PKCE with code_challenge_method S256 is required',
+        );
+      }
+      const scopes = resolveRequestedScopes(client, scope);
+
+      const page = (error?: string) =>
+        res.type('html').send(
+          generateAuthorizationPage({
+            client,
+            redirect_uri,
+            scopes,
+            state,
+            code_challenge,
+            error,
+            baseUrl,
+          }),
+        );
+
+      if (req.method === 'GET') {
+        return page();
+      }
+
+      if (params.decision === 'deny') {
+        throw new OAuthError('access_denied', 'The user denied the request');
+      }
+
+      const apiKey = String(params.api_key || '');
+      const validated = apiKey.startsWith('sk_live_')
+        ? await ApiKeyService.validateApiKey(apiKey)
+        : null;
+      if (!validated) {
+        return page('Invalid or expired API key');
+      }
+
+      let grant: IOAuthGrant;
+      try {
+        grant = await createGrant(client.clientId, validated.apiKeyDoc, scopes);
+      } catch (error) {
+        if (error instanceof OAuthError) {
+          return page(error.message);
+        }
+        throw error;
+      }
+
+      const code = generateToken(AUTHORIZATION_CODE_PREFIX);
+      await OAuthToken.create({
+        tokenHash: hashToken(code),
+        type: 'authorization_code',
+        grantId: grant._id,
+        clientId: client.clientId,
+        expiresAt: new Date(Date.now() + AUTHORIZATION_CODE_TTL_SECONDS * 1000),
+        redirectUri: redirect_uri,
+        codeChallenge: code_challenge,
+      });
+
+      // Redirect back with code
+      const redirectUrl = new URL(redirect_uri);
+      redirectUrl.searchParams.set('code', code);
+      if (state) redirectUrl.searchParams.set('state', state);
+      return res.redirect(redirectUrl.toString());
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        return redirectWithError(res, redirect_uri, error, state);
+      }
+      throw error;
+    }
+  } catch (error) {
+    return sendOAuthError(res, error, 'authorization');
   }
+}
 
-  // Generate authorization code with API key encrypted inside
-  const codeData = {
-    api_key, // Store the API key to return as access token
-    challenge: code_challenge,
-    method: code_challenge_method || 'S256',
-    client_id,
-    redirect_uri,
-    expires: Date.now() + 60000, // 1 minute
-  };
+/**
+ * Token endpoint
+ * Supports authorization_code (with PKCE), refresh_token (rotating) and
+ * client_credentials (an API key in the Authorization header)
+ */
+export async function handleTokenRequest(req: Request, res: Response) {
+  res.setHeader('Cache-Control', 'no-store');
 
-  const encodedCode = Buffer.from(JSON.stringify(codeData)).toString(
-    'base64url',
+  try {
+    const { grant_type } = req.body;
+    const client = await authenticateClient(req.body);
+
+    if (!SUPPORTED_GRANT_TYPES.includes(grant_type)) {
+      throw new OAuthError(
+        'unsupported_grant_type',
+        `grant_type must be one of: ${SUPPORTED_GRANT_TYPES.join(', ')}`,
+      );
+    }
+    if (!client.grantTypes.includes(grant_type)) {
+      throw new OAuthError(
+        'unauthorized_client',
+        `Client is not registered for the ${grant_type} grant`,
+      );
+    }
+
+    if (grant_type === 'authorization_code') {
+      return res.json(await exchangeAuthorizationCode(req.body, client));
+    }
+    if (grant_type === 'refresh_token') {
+      return res.json(await refreshTokens(req.body, client));
+    }
+    return res.json(await issueClientCredentialsToken(req, client));
+  } catch (error) {
+    return sendOAuthError(res, error, 'token request');
+  }
+}
+
+/**
+ * Handle authorization code grant (with PKCE)
+ */
+async function exchangeAuthorizationCode(
+  body: Record<string, any>,
+  client: IOAuthClient,
+) {
+  const { token, grant } = await consumeToken(
+    body.code,
+    'authorization_code',
+    client,
   );
 
-  // Redirect back with code
-  const redirectUrl = new URL(redirect_uri);
-  redirectUrl.searchParams.set('code', encodedCode);
-  if (state) redirectUrl.searchParams.set('state', state);
+  if (body.redirect_uri !== token.redirectUri) {
+    throw new OAuthError('invalid_grant', 'redirect_uri does not match');
+  }
+  if (!verifyPkce(body.code_verifier, token.codeChallenge || '')) {
+    throw new OAuthError('invalid_grant', 'Invalid code verifier');
+  }
 
-  res.redirect(redirectUrl.toString());
+  return issueTokens(grant);
 }
 
 /**
- * Token endpoint
- * Exchanges authorization code or API key for access token
+ * Handle refresh token grant. The refresh token is rotated: it is used up
+ * and a new one is returned with the new access token.
  */
-export function handleTokenRequest(req: Request, res: Response) {
-  const { grant_type, code, code_verifier } = req.body;
+async function refreshTokens(body: Record<string, any>, client: IOAuthClient) {
+  const { grant } = await consumeToken(
+    body.refresh_token,
+    'refresh_token',
+    client,
+  );
 
-  // Support two grant types:
-  // 1. authorization_code (OAuth flow)
-  // 2. client_credentials (direct API key)
+  const requested = parseScope(body.scope);
+  if (requested.some((scope) => !grant.scopes.includes(scope))) {
+    throw new OAuthError(
+      'invalid_scope',
+      'Scopes cannot be extended on refresh',
+    );
+  }
+
+  if (!(await findActiveApiKey(grant.apiKeyId))) {
+    await revokeGrant(grant._id as mongoose.Types.ObjectId);
+    throw new OAuthError('invalid_grant', 'The approving API key was revoked');
+  }
 
-  if (grant_type === 'authorization_code') {
-    return handleAuthorizationCodeGrant(req, res, code, code_verifier);
+  return issueTokens(grant);
+}
+
+/**
+ * Handle client credentials grant: the API key in the Authorization header
+ * authorizes the client directly. No refresh token is issued.
+ */
+async function issueClientCredentialsToken(req: Request, client: IOAuthClient) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer sk_live_')) {
+    throw new OAuthError(
+      'invalid_client',
+      'API key required in Authorization header',
+      401,
+    );
   }
 
-  if (grant_type === 'client_credentials') {
-    return handleClientCredentialsGrant(req, res);
+  const validated = await ApiKeyService.validateApiKey(authHeader.substring(7));
+  if (!validated) {
+    throw new OAuthError('invalid_client', 'Invalid or expired API key', 401);
   }
 
-  return res.status(400).json({
-    error: 'unsupported_grant_type',
-    error_description:
-      'Only authorization_code and client_credentials are supported',
+  const scopes = resolveRequestedScopes(client, req.body.scope);
+
+  // Reuse the key's existing grant to this client for the same scopes
+  const existing = await OAuthGrant.findOne({
+    clientId: client.clientId,
+    apiKeyId: validated.apiKeyDoc._id,
+    revokedAt: { $exists: false },
+    scopes: { $all: scopes, $size: scopes.length },
   });
+  const grant =
+    existing ??
+    (await createGrant(client.clientId, validated.apiKeyDoc, scopes));
+
+  return issueTokens(grant, false);
 }
 
+const findActiveApiKey = (apiKeyId: mongoose.Types.ObjectId) =>
+  ApiKey.findOne({
+    _id: apiKeyId,
+    isActive: true,
+    expiresAt: { $gt: new Date() },
+  })
+    .populate('userId')
+    .populate('companyId');
+
 /**
- * Handle authorization code grant (with PKCE)
+ * Token revocation (RFC 7009). Revoking a refresh token revokes its whole
+ * grant; revoking an access token revokes only that token. Unknown tokens
+ * are not an error.
  */
-function handleAuthorizationCodeGrant(
-  req: Request,
-  res: Response,
-  code: string,
-  codeVerifier: string,
-) {
+export async function handleRevocation(req: Request, res: Response) {
   try {
-    // Decode the authorization code
-    const codeData = JSON.parse(
-      Buffer.from(code, 'base64url').toString('utf-8'),
-    );
+    const client = await authenticateClient(req.body);
+    const { token } = req.body;
+    if (!token || typeof token !== 'string') {
+      throw new OAuthError('invalid_request', 'token is required');
+    }
 
-    // Verify code hasn't expired
-    if (Date.now() > codeData.expires) {
-      return res.status(400).json({
-        error: 'invalid_grant',
-        error_description: 'Authorization code expired',
-      });
+    const stored = await OAuthToken.findOne({ tokenHash: hashToken(token) });
+    if (stored && stored.clientId === client.clientId) {
+      if (stored.type === 'access_token') {
+        await OAuthToken.updateOne(
+          { _id: stored._id, revokedAt: { $exists: false } },
+          { revokedAt: new Date() },
+        );
+      } else {
+        await revokeGrant(stored.grantId);
+      }
     }
 
-    // Verify PKCE challenge
-    const hash = crypto
-      .createHash('sha256')
-      .update(codeVerifier)
-      .digest('base64url');
+    return res.status(200).end();
+  } catch (error) {
+    return sendOAuthError(res, error, 'revocation');
+  }
+}
 
-    if (hash !== codeData.challenge) {
-      return res.status(400).json({
-        error: 'invalid_grant',
-        error_description: 'Invalid code verifier',
-      });
+/**
+ * Token introspection (RFC 7662). Clients may introspect their own tokens;
+ * anything else is reported as inactive.
+ */
+export async function handleIntrospection(req: Request, res: Response) {
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    const client = await authenticateClient(req.body);
+    const { token } = req.body;
+    if (!token || typeof token !== 'string') {
+      throw new OAuthError('invalid_request', 'token is required');
+    }
+
+    const stored = await OAuthToken.findOne({ tokenHash: hashToken(token) });
+    if (
+      !stored ||
+      stored.type === 'authorization_code' ||
+      stored.clientId !== client.clientId ||
+      stored.revokedAt ||
+      stored.usedAt ||
+      stored.expiresAt <= new Date()
+    ) {
+      return res.json({ active: false });
+    }
+
+    const grant = await OAuthGrant.findById(stored.grantId);
+    if (
+      !grant ||
+      grant.revokedAt ||
+      !(await findActiveApiKey(grant.apiKeyId))
+    ) {
+      return res.json({ active: false });
     }
 
-    // Return the API key as the access token
-    // This way, the existing auth middleware will recognize it
     return res.json({
-      access_token: codeData.api_key,
-      token_type: 'Bearer',
-      expires_in: 86400 * 30, // 30 days (API keys don't expire)
-      scope: 'mcp:execute mcp:read',
+      active: true,
+      scope: grant.scopes.join(' '),
+      client_id: stored.clientId,
+      token_type: stored.type,
+      exp: Math.floor(stored.expiresAt.getTime() / 1000),
+      iat: Math.floor(stored.createdAt.getTime() / 1000),
+      sub: grant.userId.toString(),
+      iss: getBaseUrl(req),
+      permissions: grant.permissions,
     });
   } catch (error) {
-    return res.status(400).json({
-      error: 'invalid_grant',
-      error_description: 'Invalid authorization code',
-    });
+    return sendOAuthError(res, error, 'introspection');
   }
 }
 
 /**
- * Handle client credentials grant (direct API key)
- * This allows customers to use their API key directly
+ * Whether a bearer token is an OAuth access token issued here
  */
-function handleClientCredentialsGrant(req: Request, res: Response) {
-  // Extract API key from Authorization header
-  const authHeader = req.headers.authorization;
+export const isOAuthAccessToken = (token: string): boolean =>
+  token.startsWith(ACCESS_TOKEN_PREFIX);
 
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({
-      error: 'invalid_client',
-      error_description: 'API key required in Authorization header',
-    });
+/**
+ * Validate an access token. Returns the user, company and effective
+ * permissions it acts with, or null when the token is unknown, expired or
+ * revoked, its grant was revoked, or the approving API key is no longer
+ * active.
+ */
+export async function validateAccessToken(
+  token: string,
+): Promise<AccessTokenContext | null> {
+  if (!isOAuthAccessToken(token)) {
+    return null;
   }
 
-  const apiKey = authHeader.substring(7);
+  const stored = await OAuthToken.findOne({
+    tokenHash: hashToken(token),
+    type: 'access_token',
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+  if (!stored) {
+    return null;
+  }
 
-  // Return the API key as the access token
-  // Our existing middleware already validates API keys
-  return res.json({
-    access_token: apiKey,
-    token_type: 'Bearer',
-    expires_in: 86400 * 30, // 30 days (API keys don't expire)
-    scope: 'mcp:execute mcp:read',
+  const grant = await OAuthGrant.findById(stored.grantId);
+  if (!grant || grant.revokedAt) {
+    return null;
+  }
+
+  const apiKey = await findActiveApiKey(grant.apiKeyId);
+  if (!apiKey) {
+    return null;
+  }
+
+  // Follow the key's current permissions; never fall back to unrestricted
+  const permissions = intersectPermissions(
+    grant.permissions,
+    apiKey.permissions,
+  );
+  if (permissions.length === 0) {
+    return null;
+  }
+
+  await OAuthGrant.updateOne({ _id: grant._id }, { lastUsedAt: new Date() });
+
+  return {
+    user: apiKey.userId as unknown as IUser,
+    company: apiKey.companyId as unknown as ICompany,
+    apiKeyId: apiKey._id as mongoose.Types.ObjectId,
+    clientId: grant.clientId,
+    scopes: grant.scopes,
+    permissions,
+  };
+}
+
+/**
+ * The clients a user has authorized and not revoked, one entry per client
+ */
+export async function listAuthorizedClients(
+  userId: string,
+): Promise<AuthorizedClient[]> {
+  const grants = await OAuthGrant.find({
+    userId,
+    revokedAt: { $exists: false },
+  }).sort({ createdAt: 1 });
+  if (grants.length === 0) {
+    return [];
+  }
+
+  const clients = await OAuthClient.find({
+    clientId: { $in: [...new Set(grants.map((g) => g.clientId))] },
   });
+  const clientsById = new Map(clients.map((c) => [c.clientId, c]));
+
+  const byClient = new Map<string, AuthorizedClient>();
+  for (const grant of grants) {
+    const client = clientsById.get(grant.clientId);
+    if (!client) {
+      continue;
+    }
+    const entry = byClient.get(grant.clientId);
+    if (!entry) {
+      byClient.set(grant.clientId, {
+        clientId: client.clientId,
+        clientName: client.clientName,
+        clientUri: client.clientUri,
+        scopes: [...grant.scopes],
+        authorizedAt: grant.createdAt,
+        lastUsedAt: grant.lastUsedAt,
+      });
+      continue;
+    }
+    entry.scopes = [...new Set([...entry.scopes, ...grant.scopes])];
+    if (
+      grant.lastUsedAt &&
+      (!entry.lastUsedAt || grant.lastUsedAt > entry.lastUsedAt)
+    ) {
+      entry.lastUsedAt = grant.lastUsedAt;
+    }
+  }
+  return [...byClient.values()];
 }
 
 /**
- * Validate access token
- * This integrates with our existing API key validation
+ * Revoke all of a user's grants to a client. Returns false when the user
+ * had not authorized the client.
  */
-export function validateAccessToken(token: string): boolean {
-  // For authorization_code tokens, the token IS the API key
-  // For client_credentials (API keys), our existing middleware validates them
-  return true; // Delegate to existing middleware
+export async function revokeClientAuthorization(
+  userId: string,
+  clientId: string,
+): Promise<boolean> {
+  const grants = await OAuthGrant.find({
+    userId,
+    clientId,
+    revokedAt: { $exists: false },
+  });
+  for (const grant of grants) {
+    await revokeGrant(grant._id as mongoose.Types.ObjectId);
+  }
+  return grants.length > 0;
 }
@@ -0,0 +1,637 @@
+// file path: /src/services/scheduler.service.ts
+import mongoose from 'mongoose';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  ScheduledJob,
+  IScheduledJob,
+  IJobOutput,
+  IJobWorkspaceInput,
+  JobWorkspaceScope,
+} from '../models/ScheduledJob';
+import {
+  ScheduledJobRun,
+  IScheduledJobRun,
+  IJobRunDelivery,
+  IJobRunCost,
+} from '../models/ScheduledJobRun';
+import { Assistant } from '../models/Assistant';
+import { Inbox } from '../models/Inbox';
+import { CostTracking } from '../models/CostTracking';
+import {
+  executeAssistantStateless,
+  statelessResponseToText,
+} from './assistant/stateless-execution.service';
+import { getWorkspaceService } from './unified-workspace.service';
+import { sendEmail } from './sendgrid.service';
+import { getNextCronRun, validateCronSchedule } from '../utils/cron';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+
+// How often the scheduler looks for due jobs
+const POLL_INTERVAL_MS = 30 * 1000;
+
+// A claimed job is not picked up by another instance until this passes
+const RUN_LOCK_MS = 30 * 60 * 1000;
+
+// Stored run output is capped; the full output goes to the destination
+const MAX_STORED_OUTPUT_CHARS = 20000;
+
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+/**
+ * Fields accepted when creating or updating a job
+ */
+export interface ScheduledJobInput {
+  assistantId?: string;
+  name?: string;
+  description?: string;
+  schedule?: string;
+  timezone?: string;
+  prompt?: string;
+  workspaceInputs?: IJobWorkspaceInput[];
+  output?: IJobOutput;
+  enabled?: boolean;
+  maxRetries?: number;
+  retryDelayMs?: number;
+}
+
+const JOB_INPUT_FIELDS: (keyof ScheduledJobInput)[] = [
+  'assistantId',
+  'name',
+  'description',
+  'schedule',
+  'timezone',
+  'prompt',
+  'workspaceInputs',
+  'output',
+  'enabled',
+  'maxRetries',
+  'retryDelayMs',
+];
+
+/**
+ * Keep only the fields callers may set
+ */
+function pickJobInput(input: ScheduledJobInput): ScheduledJobInput {
+  return Object.fromEntries(
+    JOB_INPUT_FIELDS.filter((field) => input[field] !== undefined).map(
+      (field) => [field, input[field]],
+    ),
+  );
+}
+
+function validateOutput(output: IJobOutput): void {
+  switch (output.type) {
+    case 'none':
+    case 'inbox':
+      return;
+    case 'workspace':
+      if (!output.path) {
+        throw new BadRequestError('output.path is required for workspace');
+      }
+      return;
+    case 'email':
+      if (!output.to?.length) {
+        throw new BadRequestError('output.to is required for email');
+      }
+      return;
+    default:
+      throw new BadRequestError(
+        'output.type must be one of: none, workspace, inbox, email',
+      );
+  }
+}
+
+async function assertAssistantInCompany(
+  assistantId: string,
+  companyId: string,
+): Promise<void> {
+  const exists =
+    mongoose.Types.ObjectId.isValid(assistantId) &&
+    (await Assistant.exists({ _id: assistantId, companyId }));
+  if (!exists) {
+    throw new NotFoundError('Assistant');
+  }
+}
+
+function computeNextRunAt(
+  job: Pick<IScheduledJob, 'schedule' | 'timezone' | 'enabled'>,
+  after: Date = new Date(),
+): Date | undefined {
+  return job.enabled
+    ? getNextCronRun(job.schedule, after, job.timezone)
+    : undefined;
+}
+
+/**
+ * List a company's scheduled jobs
+ */
+export async function listScheduledJobs(
+  companyId: string,
+  assistantId?: string,
+): Promise<IScheduledJob[]> {
+  return ScheduledJob.find({
+    companyId,
+    ...(assistantId && { assistantId }),
+  })
+    .sort({ createdAt: -1 })
+    .lean<IScheduledJob[]>();
+}
+
+/**
+ * Get a scheduled job, scoped to the company
+ */
+export async function getScheduledJob(
+  companyId: string,
+  jobId: string,
+): Promise<IScheduledJob | null> {
+  if (!mongoose.Types.ObjectId.isValid(jobId)) {
+    return null;
+  }
+  return ScheduledJob.findOne({ _id: jobId, companyId });
+}
+
+/**
+ * Create a scheduled job and compute its first run time
+ */
+export async function createScheduledJob(
+  companyId: string,
+  input: ScheduledJobInput,
+  userId: string,
+): Promise<IScheduledJob> {
+  input = pickJobInput(input);
+  if (!input.name || !input.prompt || !input.schedule || !input.assistantId) {
+    throw new BadRequestError(
+      'name, assistantId, schedule and prompt are required',
+    );
+  }
+
+  const timezone = input.timezone || 'UTC';
+  const scheduleError = validateCronSchedule(input.schedule, timezone);
+  if (scheduleError) {
+    throw new BadRequestError(scheduleError);
+  }
+  const output = input.output || { type: 'none' };
+  validateOutput(output);
+  await assertAssistantInCompany(input.assistantId, companyId);
+
+  const job = new ScheduledJob({
+    ...input,
+    timezone,
+    output,
+    companyId,
+    createdBy: userId,
+  });
+  job.nextRunAt = computeNextRunAt(job);
+
+  return job.save();
+}
+
+/**
+ * Update a scheduled job. The next run time is recomputed when the
+ * schedule, time zone or enabled flag changes.
+ */
+export async function updateScheduledJob(
+  companyId: string,
+  jobId: string,
+  input: ScheduledJobInput,
+): Promise<IScheduledJob> {
+  input = pickJobInput(input);
+  const job = await getScheduledJob(companyId, jobId);
+  if (!job) {
+    throw new NotFoundError('Scheduled job');
+  }
+
+  const schedule = input.schedule ?? job.schedule;
+  const timezone = input.timezone ?? job.timezone;
+  const scheduleError = validateCronSchedule(schedule, timezone);
+  if (scheduleError) {
+    throw new BadRequestError(scheduleError);
+  }
+  if (input.output) {
+    validateOutput(input.output);
+  }
+  if (input.assistantId) {
+    await assertAssistantInCompany(input.assistantId, companyId);
+  }
+
+  const rescheduled =
+    input.schedule !== undefined ||
+    input.timezone !== undefined ||
+    input.enabled !== undefined;
+
+  job.set(input);
+  if (rescheduled) {
+    job.nextRunAt = computeNextRunAt(job);
+  }
+
+  return job.save();
+}
+
+/**
+ * Delete a scheduled job and its run history
+ */
+export async function deleteScheduledJob(
+  companyId: string,
+  jobId: string,
+): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(jobId)) {
+    return false;
+  }
+  const result = await ScheduledJob.deleteOne({ _id: jobId, companyId });
+  if (result.deletedCount > 0) {
+    await ScheduledJobRun.deleteMany({ jobId, companyId });
+  }
+  return result.deletedCount > 0;
+}
+
+/**
+ * Recent runs of a job, newest first
+ */
+export async function listScheduledJobRuns(
+  companyId: string,
+  jobId: string,
+  limit = 20,
+): Promise<IScheduledJobRun[]> {
+  if (!mongoose.Types.ObjectId.isValid(jobId)) {
+    return [];
+  }
+  return ScheduledJobRun.find({ jobId, companyId })
+    .sort({ startedAt: -1 })
+    .limit(limit)
+    .lean<IScheduledJobRun[]>();
+}
+
+function workspacePath(
+  scope: JobWorkspaceScope | undefined,
+  path: string,
+  job: IScheduledJob,
+): string {
+  const itemPath = path.startsWith('/') ? path : `/${path}`;
+  return scope === 'company'
+    ? `/company/${job.companyId}${itemPath}`
+    : `/agent/${job.assistantId}${itemPath}`;
+}
+
+/**
+ * Job prompt followed by the content of its workspace inputs
+ */
+async function buildJobInput(job: IScheduledJob): Promise<string> {
+  if (!job.workspaceInputs.length) {
+    return job.prompt;
+  }
+
+  const workspace = getWorkspaceService();
+  const sections = await Promise.all(
+    job.workspaceInputs.map(async (input) => {
+      const content = await workspace.get(
+        workspacePath(input.scope, input.path, job),
+      );
+      if (content === undefined || content === null) {
+        return `## ${input.path}\n[not found]`;
+      }
+      return `## ${input.path}\n${
+        typeof content === 'string' ? content : JSON.stringify(content, null, 2)
+      }`;
+    }),
+  );
+
+  return `${job.prompt}\n\n# Workspace inputs\n\n${sections.join('\n\n')}`;
+}
+
+async function deliverOutput(
+  job: IScheduledJob,
+  output: string,
+  runAt: Date,
+): Promise<IJobRunDelivery> {
+  const destination = job.output || { type: 'none' };
+
+  try {
+    switch (destination.type) {
+      case 'workspace': {
+        const date = formatInTimeZone(runAt, job.timezone, 'yyyy-MM-dd');
+        const path = workspacePath(
+          destination.scope,
+          destination.path!.replace(/\{date\}/g, date),
+          job,
+        );
+        await getWorkspaceService().set(path, output, {
+          contentType: 'text/markdown',
+          scheduledJobId: job._id.toString(),
+          updatedAt: runAt,
+        });
+        return { type: 'workspace', status: 'delivered', location: path };
+      }
+      case 'inbox': {
+        const item = await new Inbox({
+          senderId: job.assistantId,
+          companyId: job.companyId,
+          type: 'notification',
+          message: `[${job.name}]\n\n${output}`,
+        }).save();
+        return {
+          type: 'inbox',
+          status: 'delivered',
+          location: item._id.toString(),
+        };
+      }
+      case 'email': {
+        const subject = destination.subject || job.name;
+        const html = `<pre style="white-space: pre-wrap; font-family: inherit">${output
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')}</pre>`;
+        for (const to of destination.to!) {
+          const result = await sendEmail(job.companyId.toString(), {
+            to,
+            subject,
+            text: output,
+            html,
+          });
+          if (!result.success) {
+            throw new Error(result.error || `Failed to email ${to}`);
+          }
+        }
+        return {
+          type: 'email',
+          status: 'delivered',
+          location: destination.to!.join(', '),
+        };
+      }
+      default:
+        return { type: 'none', status: 'skipped' };
+    }
+  } catch (error: any) {
+    console.error(
+      `[SCHEDULER] Failed to deliver output of job ${job._id} to ${destination.type}:`,
+      error,
+    );
+    return { type: destination.type, status: 'failed', error: error.message };
+  }
+}
+
+/**
+ * Sum the cost records produced by a run
+ */
+async function getRunCost(runId: string): Promise<IJobRunCost> {
+  const [totals] = await CostTracking.aggregate([
+    { $match: { 'metadata.scheduledJobRunId': runId } },
+    {
+      $group: {
+        _id: null,
+        inputTokens: { $sum: '$inputTokens' },
+        outputTokens: { $sum: '$outputTokens' },
+        totalTokens: { $sum: '$totalTokens' },
+        totalCost: { $sum: '$totalCost' },
+      },
+    },
+  ]);
+  return {
+    inputTokens: totals?.inputTokens || 0,
+    outputTokens: totals?.outputTokens || 0,
+    totalTokens: totals?.totalTokens || 0,
+    totalCost: totals?.totalCost || 0,
+  };
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Execute a run: call the assistant (with retries), deliver the output and
+ * record the outcome and cost on the run and the job. A failure after the
+ * assistant ran tools is not retried, so their side effects happen once.
+ * `lockedUntil` is the lock a scheduled run claimed; it is released only
+ * while it still holds that value.
+ */
+async function executeRun(
+  job: IScheduledJob,
+  run: IScheduledJobRun,
+  lockedUntil?: Date,
+): Promise<IScheduledJobRun> {
+  const runId = run._id.toString();
+  const companyId = job.companyId.toString();
+  let output: string | undefined;
+  let lastError: string | undefined;
+  let toolsRan = false;
+
+  try {
+    const assistant = await Assistant.findOne({
+      _id: job.assistantId,
+      companyId: job.companyId,
+    });
+    if (!assistant) {
+      throw new Error('Assistant not found');
+    }
+    const userInput = await buildJobInput(job);
+
+    for (let attempt = 1; attempt <= job.maxRetries + 1; attempt++) {
+      run.attempts = attempt;
+      try {
+        const response = await executeAssistantStateless(
+          assistant,
+          userInput,
+          companyId,
+          job.createdBy.toString(),
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { scheduledJobId: job._id.toString(), scheduledJobRunId: runId },
+          {
+            onToolCalls: () => {
+              toolsRan = true;
+            },
+          },
+        );
+        output = statelessResponseToText(response);
+        break;
+      } catch (error: any) {
+        lastError = error.message || String(error);
+        console.error(
+          `[SCHEDULER] Job ${job._id} attempt ${attempt} failed: ${lastError}`,
+        );
+        if (toolsRan) {
+          console.error(
+            `[SCHEDULER] Job ${job._id} not retried: tools already ran`,
+          );
+          break;
+        }
+        if (attempt <= job.maxRetries) {
+          await sleep(
+            Math.min(job.retryDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS),
+          );
+        }
+      }
+    }
+  } catch (error: any) {
+    lastError = error.message || String(error);
+  }
+
+  const finishedAt = new Date();
+  run.finishedAt = finishedAt;
+  run.duration = finishedAt.getTime() - run.startedAt.getTime();
+  run.cost = await getRunCost(runId);
+
+  if (output !== undefined) {
+    run.status = 'succeeded';
+    run.output = output.slice(0, MAX_STORED_OUTPUT_CHARS);
+    run.error = undefined;
+    run.delivery = await deliverOutput(job, output, run.startedAt);
+  } else {
+    run.status = 'failed';
+    run.error = lastError;
+  }
+  await run.save();
+
+  await ScheduledJob.updateOne(
+    { _id: job._id },
+    { $set: { lastRunAt: run.startedAt, lastRunStatus: run.status } },
+  );
+  if (lockedUntil) {
+    // A run that outlived its lock may have been claimed again meanwhile
+    await ScheduledJob.updateOne(
+      { _id: job._id, lockedUntil },
+      { $unset: { lockedUntil: 1 } },
+    );
+  }
+
+  console.log(
+    `[SCHEDULER] Job ${job._id} (${job.name}) ${run.status} after ${run.attempts} attempt(s), cost $${run.cost.totalCost.toFixed(4)}`,
+  );
+
+  return run;
+}
+
+async function startRun(
+  job: IScheduledJob,
+  trigger: IScheduledJobRun['trigger'],
+): Promise<IScheduledJobRun> {
+  return new ScheduledJobRun({
+    jobId: job._id,
+    companyId: job.companyId,
+    assistantId: job.assistantId,
+    trigger,
+    status: 'running',
+    startedAt: new Date(),
+  }).save();
+}
+
+/**
+ * Run a job now, outside its schedule. Returns the run once started;
+ * the run document is updated when execution finishes.
+ */
+export async function triggerScheduledJob(
+  companyId: string,
+  jobId: string,
+): Promise<IScheduledJobRun> {
+  const job = await getScheduledJob(companyId, jobId);
+  if (!job) {
+    throw new NotFoundError('Scheduled job');
+  }
+
+  const run = await startRun(job, 'manual');
+  executeRun(job, run).catch((error) =>
+    console.error(`[SCHEDULER] Manual run of job ${jobId} failed:`, error),
+  );
+  return run;
+}
+
+/**
+ * Atomically claim the next due job, advancing its nextRunAt so no other
+ * instance (or poll) runs the same occurrence
+ */
+async function claimDueJob(now: Date): Promise<IScheduledJob | null> {
+  const candidate = await ScheduledJob.findOne({
+    enabled: true,
+    nextRunAt: { $lte: now },
+    $or: [
+      { lockedUntil: { $exists: false } },
+      { lockedUntil: null },
+      { lockedUntil: { $lte: now } },
+    ],
+  }).sort({ nextRunAt: 1 });
+  if (!candidate) {
+    return null;
+  }
+
+  let nextRunAt: Date | undefined;
+  try {
+    nextRunAt = computeNextRunAt(candidate, now);
+  } catch (error) {
+    console.error(
+      `[SCHEDULER] Disabling job ${candidate._id}: invalid schedule`,
+      error,
+    );
+    await ScheduledJob.updateOne(
+      { _id: candidate._id },
+      { $set: { enabled: false }, $unset: { nextRunAt: 1 } },
+    );
+    return claimDueJob(now);
+  }
+
+  const claimed = await ScheduledJob.findOneAndUpdate(
+    { _id: candidate._id, nextRunAt: candidate.nextRunAt },
+    {
+      $set: {
+        nextRunAt,
+        lockedUntil: new Date(now.getTime() + RUN_LOCK_MS),
+        lastRunStatus: 'running',
+      },
+    },
+    { new: true },
+  );
+  // Another instance claimed it first; try the next one
+  return claimed ?? claimDueJob(now);
+}
+
+/**
+ * Run every job that is due. Missed occurrences (e.g. while the server was
+ * down) are collapsed into a single run.
+ */
+export async function processDueJobs(): Promise<number> {
+  if (polling) {
+    return 0;
+  }
+  polling = true;
+  let processed = 0;
+
+  try {
+    let job: IScheduledJob | null;
+    while ((job = await claimDueJob(new Date()))) {
+      const run = await startRun(job, 'schedule');
+      await executeRun(job, run, job.lockedUntil);
+      processed++;
+    }
+  } catch (error) {
+    console.error('[SCHEDULER] Error processing due jobs:', error);
+  } finally {
+    polling = false;
+  }
+
+  return processed;
+}
+
+/**
+ * Start polling for due jobs
+ */
+export function startScheduler(): void {
+  if (pollTimer) {
+    return;
+  }
+  pollTimer = setInterval(() => {
+    void processDueJobs();
+  }, POLL_INTERVAL_MS);
+  console.log(`[SCHEDULER] Started, polling every ${POLL_INTERVAL_MS / 1000}s`);
+}
+
+/**
+ * Stop polling. Runs already in progress finish on their own.
+ */
+export function stopScheduler(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
@@ -0,0 +1,248 @@
+import mongoose from 'mongoose';
+import { IInbox } from '../models/Inbox';
+import { IMessage, Message } from '../models/Message';
+import { ISession, Session } from '../models/Session';
+import { addInboxReply, getCompanyInboxItem } from './inbox.service';
+import { publishSessionMessage } from './session-messaging.service';
+import { emitMessageCreated } from './webhook.service';
+import { emitToUser } from './websocket';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+
+export const HUMAN_AGENT_REPLY_MESSAGE_TYPE = 'human_agent_reply';
+export const HANDOFF_SUMMARY_MESSAGE_TYPE = 'handoff_summary';
+
+/**
+ * The system prompt with the latest handoff summary of the session
+ * appended, so the assistant continues where the human operator left off
+ */
+export function withHandoffSummary(
+  systemPrompt: string,
+  dbMessages: Pick<IMessage, 'messageType' | 'content'>[],
+): string {
+  const summary = [...dbMessages]
+    .reverse()
+    .find((msg) => msg.messageType === HANDOFF_SUMMARY_MESSAGE_TYPE);
+  if (!summary?.content) {
+    return systemPrompt;
+  }
+  return `${systemPrompt}\n\nA human operator handled part of this conversation and handed it back to you with this summary:\n${summary.content}`;
+}
+
+async function saveSessionEvent(
+  session: ISession,
+  messageType: string,
+  content: string,
+  data: Record<string, unknown>,
+): Promise<void> {
+  await new Message({
+    sessionId: session._id,
+    sender: 'system',
+    content,
+    assistantId: session.assistantId,
+    userId: session.userId,
+    timestamp: new Date(),
+    messageType,
+    data,
+  }).save();
+}
+
+/**
+ * Pause the assistant of an item's session: until the session is released,
+ * user messages go to the item's thread and the operator answers them.
+ */
+export async function takeOverSession(
+  inboxId: string,
+  companyId: string,
+  userId: string,
+): Promise<IInbox> {
+  const item = await getCompanyInboxItem(inboxId, companyId);
+  if (!item.sessionId) {
+    throw new BadRequestError('Inbox item is not tied to a session');
+  }
+  if (item.handoff?.active) {
+    if (item.handoff.userId.toString() === userId) {
+      return item;
+    }
+    throw new BadRequestError('Session was already taken over by another user');
+  }
+
+  const now = new Date();
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: item.sessionId,
+      companyId,
+      active: true,
+      handoff: { $exists: false },
+    },
+    { $set: { handoff: { inboxId: item._id, userId, startedAt: now } } },
+    { new: true },
+  );
+  if (!session) {
+    const existing = await Session.findOne({ _id: item.sessionId, companyId });
+    if (!existing || !existing.active) {
+      throw new NotFoundError('Active session');
+    }
+    throw new BadRequestError(
+      'Session is already handled by a human operator from another item',
+    );
+  }
+
+  item.set('handoff', { active: true, userId, startedAt: now });
+  item.status = 'in_progress';
+  item.firstResponseAt = item.firstResponseAt || now;
+  if (!item.assignee?.userId) {
+    item.set('assignee', {
+      userId,
+      teamId: item.assignee?.teamId,
+      assignedBy: userId,
+      assignedAt: now,
+    });
+  }
+  item.updatedAt = now;
+  await item.save();
+
+  await saveSessionEvent(
+    session,
+    'handoff_started',
+    'A human operator joined the conversation',
+    { inboxId, userId },
+  );
+  await publishSessionMessage(session._id.toString(), 'handoff_started', {
+    inboxId,
+    userId,
+    timestamp: now.toISOString(),
+  });
+  return item;
+}
+
+/**
+ * Send the operator's reply into the taken-over session, as an assistant
+ * turn the assistant sees in its history once it is back in control
+ */
+export async function sendHandoffReply(
+  inboxId: string,
+  companyId: string,
+  userId: string,
+  message: string,
+): Promise<IInbox> {
+  if (!message || typeof message !== 'string') {
+    throw new BadRequestError('message is required');
+  }
+  const item = await getCompanyInboxItem(inboxId, companyId);
+  if (!item.handoff?.active || item.handoff.userId.toString() !== userId) {
+    throw new BadRequestError('Take over the session before replying to it');
+  }
+  const session = await Session.findById(item.sessionId);
+  if (!session) {
+    throw new NotFoundError('Session');
+  }
+
+  const reply = await new Message({
+    sessionId: session._id,
+    sender: 'assistant',
+    content: message,
+    assistantId: session.assistantId,
+    userId: session.userId,
+    timestamp: new Date(),
+    messageType: HUMAN_AGENT_REPLY_MESSAGE_TYPE,
+    data: { inboxId, agentUserId: userId },
+  }).save();
+  emitMessageCreated(session.companyId, reply);
+
+  await publishSessionMessage(session._id.toString(), 'chat_message', {
+    type: 'assistant',
+    content: message,
+    humanAgent: true,
+    timestamp: reply.timestamp.toISOString(),
+  });
+
+  return await addInboxReply(inboxId, companyId, {
+    authorType: 'user',
+    authorId: userId,
+    message,
+  });
+}
+
+/**
+ * Store a user message sent while the session is taken over and pass it to
+ * the operator instead of the assistant
+ */
+export async function forwardToHandoff(
+  session: ISession,
+  content: string,
+  data?: Record<string, unknown>,
+): Promise<void> {
+  const handoff = session.handoff!;
+  const userMessage = await new Message({
+    sessionId: session._id,
+    sender: 'user',
+    content,
+    assistantId: session.assistantId,
+    userId: session.userId,
+    timestamp: new Date(),
+    messageType: 'text',
+    data: { ...data, inboxId: handoff.inboxId.toString() },
+  }).save();
+  emitMessageCreated(session.companyId, userMessage);
+
+  await addInboxReply(
+    handoff.inboxId.toString(),
+    session.companyId.toString(),
+    { authorType: 'customer', message: content },
+  );
+  emitToUser(handoff.userId.toString(), 'inbox_reply', {
+    inboxId: handoff.inboxId.toString(),
+    sessionId: session._id.toString(),
+    message: content,
+    createdAt: userMessage.timestamp,
+  });
+}
+
+/**
+ * Hand the session back to the assistant and close the item. The summary
+ * is added to the assistant's system prompt from then on.
+ */
+export async function releaseSession(
+  inboxId: string,
+  companyId: string,
+  userId: string,
+  summary?: string,
+): Promise<IInbox> {
+  const item = await getCompanyInboxItem(inboxId, companyId);
+  if (!item.handoff?.active) {
+    throw new BadRequestError('Session is not taken over');
+  }
+
+  const now = new Date();
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: item.sessionId,
+      'handoff.inboxId': new mongoose.Types.ObjectId(inboxId),
+    },
+    { $unset: { handoff: 1 } },
+    { new: true },
+  );
+
+  item.handoff.active = false;
+  item.handoff.endedAt = now;
+  item.handoff.summary = summary || undefined;
+  item.status = 'closed';
+  item.updatedAt = now;
+  await item.save();
+
+  // The session may have ended while the operator was in control
+  if (session) {
+    if (summary) {
+      await saveSessionEvent(session, HANDOFF_SUMMARY_MESSAGE_TYPE, summary, {
+        inboxId,
+        userId,
+      });
+    }
+    await publishSessionMessage(session._id.toString(), 'handoff_ended', {
+      inboxId,
+      userId,
+      timestamp: now.toISOString(),
+    });
+  }
+  return item;
+}
@@ -4,6 +4,7 @@ import { CustomError, NotFoundError, BadRequestError } from '../utils/errors';
 // OpenAI thread service calls removed as it's deprecated in favor of Vercel AI
 import { getApiKey, ApiKeyType } from './api.key.service';
 import { SupportedLanguage } from './discovery.service';
+import { emitWebhookEvent } from './webhook.service';
 import mongoose from 'mongoose'; // Added for ObjectId generation
 
 export const sessionFriendlyAggreationQuery = [
@@ -260,6 +261,16 @@ export const endSession = async (
     // OpenAI thread deletion removed as it's deprecated in favor of Vercel AI
     session.active = false;
     await session.save();
+    emitWebhookEvent(
+      session.companyId,
+      'session.ended',
+      {
+        sessionId,
+        assistantId: session.assistantId?.toString(),
+        userId: session.userId?.toString(),
+      },
+      session.assistantId,
+    );
 
     console.log(
       `Session ended locally, sessionId: ${sessionId}, userId: ${session.userId}`,
@@ -0,0 +1,133 @@
+import { EventEmitter } from 'events';
+import { logger } from '../../utils/logger';
+import { SharedStateHandler, SharedStateStore } from './shared-state';
+
+const SWEEP_INTERVAL = 60 * 1000;
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+/**
+ * Shared state kept in this process. Only suitable for a single API
+ * instance: nothing is visible to other instances.
+ */
+export class MemorySharedStateStore implements SharedStateStore {
+  readonly name = 'memory';
+  readonly distributed = false;
+
+  private entriesByNamespace = new Map<string, Map<string, MemoryEntry>>();
+  private emitter = new EventEmitter();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(private readonly nodeId: string) {
+    this.emitter.setMaxListeners(0);
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL);
+    this.sweepTimer.unref();
+  }
+
+  private namespaceEntries(namespace: string): Map<string, MemoryEntry> {
+    let entries = this.entriesByNamespace.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.entriesByNamespace.set(namespace, entries);
+    }
+    return entries;
+  }
+
+  private liveEntry(namespace: string, key: string): MemoryEntry | undefined {
+    const entries = this.entriesByNamespace.get(namespace);
+    const entry = entries?.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      entries!.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const entries of this.entriesByNamespace.values()) {
+      for (const [key, entry] of entries) {
+        if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+          entries.delete(key);
+        }
+      }
+    }
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | null> {
+    const entry = this.liveEntry(namespace, key);
+    // Copies keep callers from mutating stored state, as with Mongo
+    return entry ? structuredClone(entry.value as T) : null;
+  }
+
+  async set<T>(
+    namespace: string,
+    key: string,
+    value: T,
+    ttlMs?: number,
+  ): Promise<void> {
+    this.namespaceEntries(namespace).set(key, {
+      value: structuredClone(value),
+      expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined,
+    });
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.entriesByNamespace.get(namespace)?.delete(key);
+  }
+
+  async increment(
+    namespace: string,
+    key: string,
+    ttlMs: number,
+  ): Promise<number> {
+    const entry = this.liveEntry(namespace, key);
+    if (entry) {
+      entry.value = (entry.value as number) + 1;
+      return entry.value as number;
+    }
+    this.namespaceEntries(namespace).set(key, {
+      value: 1,
+      expiresAt: Date.now() + ttlMs,
+    });
+    return 1;
+  }
+
+  async entries<T>(namespace: string): Promise<Array<[string, T]>> {
+    const result: Array<[string, T]> = [];
+    for (const key of this.entriesByNamespace.get(namespace)?.keys() ?? []) {
+      const entry = this.liveEntry(namespace, key);
+      if (entry) {
+        result.push([key, structuredClone(entry.value as T)]);
+      }
+    }
+    return result;
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    // Deliver asynchronously, as a distributed store would
+    setImmediate(() => this.emitter.emit(channel, message, this.nodeId));
+  }
+
+  subscribe(channel: string, handler: SharedStateHandler): () => void {
+    const listener = (message: any, origin: string) => {
+      try {
+        handler(message, origin);
+      } catch (error) {
+        logger.error(`Shared state: Handler for ${channel} failed`, error);
+      }
+    };
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    this.emitter.removeAllListeners();
+  }
+}
@@ -0,0 +1,192 @@
+import mongoose from 'mongoose';
+import { SharedStateEntry } from '../../models/SharedStateEntry';
+import { SharedStateEvent } from '../../models/SharedStateEvent';
+import { logger } from '../../utils/logger';
+import { SharedStateHandler, SharedStateStore } from './shared-state';
+
+const RETRY_DELAY = 1000; // Before re-opening a dead tailable cursor
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isConnected = (): boolean => mongoose.connection.readyState === 1;
+
+const liveFilter = (now: Date) => ({
+  $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: now } }],
+});
+
+/**
+ * Shared state in MongoDB: entries in `shared_state` (expired by a TTL
+ * index) and messages in the capped `shared_state_events` collection,
+ * which every instance follows with a tailable cursor.
+ */
+export class MongoSharedStateStore implements SharedStateStore {
+  readonly name = 'mongo';
+  readonly distributed = true;
+
+  private handlers = new Map<string, Set<SharedStateHandler>>();
+  private following = false;
+  private closed = false;
+  private cursor?: { close(): Promise<void> };
+  private eventsReady?: Promise<void>;
+
+  constructor(private readonly nodeId: string) {}
+
+  async get<T>(namespace: string, key: string): Promise<T | null> {
+    const entry = await SharedStateEntry.findOne({
+      namespace,
+      key,
+      ...liveFilter(new Date()),
+    }).lean();
+    return entry ? (entry.value as T) : null;
+  }
+
+  async set<T>(
+    namespace: string,
+    key: string,
+    value: T,
+    ttlMs?: number,
+  ): Promise<void> {
+    await SharedStateEntry.updateOne(
+      { namespace, key },
+      ttlMs !== undefined
+        ? { $set: { value, expiresAt: new Date(Date.now() + ttlMs) } }
+        : { $set: { value }, $unset: { expiresAt: 1 } },
+      { upsert: true },
+    );
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await SharedStateEntry.deleteOne({ namespace, key });
+  }
+
+  async increment(
+    namespace: string,
+    key: string,
+    ttlMs: number,
+  ): Promise<number> {
+    const now = new Date();
+    const live = { $gt: ['$expiresAt', now] };
+    // One atomic update: count on in a live window, restart an expired one
+    const entry = await SharedStateEntry.findOneAndUpdate(
+      { namespace, key },
+      [
+        {
+          $set: {
+            value: { $cond: [live, { $add: ['$value', 1] }, 1] },
+            expiresAt: {
+              $cond: [live, '$expiresAt', new Date(now.getTime() + ttlMs)],
+            },
+          },
+        },
+      ],
+      { upsert: true, new: true },
+    ).lean();
+    return entry?.value ?? 1;
+  }
+
+  async entries<T>(namespace: string): Promise<Array<[string, T]>> {
+    const entries = await SharedStateEntry.find({
+      namespace,
+      ...liveFilter(new Date()),
+    }).lean();
+    return entries.map((entry) => [entry.key, entry.value as T]);
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    // Nothing can be listening before the database is connected
+    if (!isConnected()) {
+      logger.debug(`Shared state: Not connected, dropped ${channel} message`);
+      return;
+    }
+    await this.ensureEventsCollection();
+    await SharedStateEvent.collection.insertOne({
+      channel,
+      message,
+      origin: this.nodeId,
+      createdAt: new Date(),
+    });
+  }
+
+  subscribe(channel: string, handler: SharedStateHandler): () => void {
+    let handlers = this.handlers.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(channel, handlers);
+    }
+    handlers.add(handler);
+
+    if (!this.following) {
+      this.following = true;
+      void this.follow();
+    }
+
+    return () => {
+      this.handlers.get(channel)?.delete(handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.cursor?.close();
+  }
+
+  private ensureEventsCollection(): Promise<void> {
+    if (!this.eventsReady) {
+      this.eventsReady = SharedStateEvent.createCollection()
+        .then(() => undefined)
+        .catch((error: any) => {
+          if (error?.codeName !== 'NamespaceExists') {
+            this.eventsReady = undefined;
+            throw error;
+          }
+        });
+    }
+    return this.eventsReady;
+  }
+
+  private dispatch(channel: string, message: any, origin: string): void {
+    for (const handler of this.handlers.get(channel) ?? []) {
+      try {
+        handler(message, origin);
+      } catch (error) {
+        logger.error(`Shared state: Handler for ${channel} failed`, error);
+      }
+    }
+  }
+
+  /**
+   * Follow the events collection for as long as the store is open. Starts
+   * with messages published from now on; after a dead cursor it resumes
+   * after the last message seen.
+   */
+  private async follow(): Promise<void> {
+    if (!isConnected()) {
+      await new Promise((resolve) => mongoose.connection.once('open', resolve));
+    }
+
+    let filter: Record<string, unknown> = {
+      createdAt: { $gte: new Date() },
+    };
+    while (!this.closed) {
+      try {
+        await this.ensureEventsCollection();
+        const cursor = SharedStateEvent.collection.find(filter, {
+          tailable: true,
+          awaitData: true,
+        });
+        this.cursor = cursor;
+        for await (const event of cursor) {
+          filter = { _id: { $gt: event._id } };
+          this.dispatch(event.channel, event.message, event.origin);
+        }
+      } catch (error) {
+        if (!this.closed) {
+          logger.error('Shared state: Event cursor failed', error);
+        }
+      }
+      if (!this.closed) {
+        await sleep(RETRY_DELAY);
+      }
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { logger } from '../../utils/logger';
+import { MemorySharedStateStore } from './memory-shared-state.store';
+import { MongoSharedStateStore } from './mongo-shared-state.store';
+
+export type SharedStateHandler = (message: any, origin: string) => void;
+
+/**
+ * State and messages shared by all API instances. Values must be
+ * JSON-compatible; keys live in namespaces so that features cannot clash.
+ */
+export interface SharedStateStore {
+  readonly name: string;
+  // Whether other instances see this store's state and messages
+  readonly distributed: boolean;
+  get<T>(namespace: string, key: string): Promise<T | null>;
+  // Replace a value, expiring after ttlMs when given
+  set<T>(
+    namespace: string,
+    key: string,
+    value: T,
+    ttlMs?: number,
+  ): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+  // Add one to a counter and return the new count. A missing or expired
+  // counter starts at 1 and expires ttlMs later (a fixed window).
+  increment(namespace: string, key: string, ttlMs: number): Promise<number>;
+  // Live entries of a namespace
+  entries<T>(namespace: string): Promise<Array<[string, T]>>;
+  // Deliver a message to the subscribers of a channel on every instance,
+  // including this one
+  publish(channel: string, message: unknown): Promise<void>;
+  subscribe(channel: string, handler: SharedStateHandler): () => void;
+  close?(): Promise<void>;
+}
+
+/**
+ * ID of this API instance, attached to published messages
+ */
+export const nodeId = `${process.pid}-${crypto.randomBytes(6).toString('hex')}`;
+
+let instance: SharedStateStore | null = null;
+
+/**
+ * Create the shared-state store selected by SHARED_STATE ('memory' or
+ * 'mongo'). The memory store, the default, is for single-node deployments;
+ * deployments with several instances opt in to Mongo to share state.
+ */
+export function createSharedStateStore(): SharedStateStore {
+  const backend = process.env.SHARED_STATE || 'memory';
+
+  if (backend === 'mongo') {
+    logger.info('Shared state: Using MongoDB store');
+    return new MongoSharedStateStore(nodeId);
+  }
+
+  if (backend !== 'memory') {
+    logger.warn(`Unknown SHARED_STATE "${backend}", using memory`);
+  }
+  logger.info('Shared state: Using in-memory store (single node)');
+  return new MemorySharedStateStore(nodeId);
+}
+
+/**
+ * The process-wide shared-state store
+ */
+export function getSharedState(): SharedStateStore {
+  if (!instance) {
+    instance = createSharedStateStore();
+  }
+  return instance;
+}
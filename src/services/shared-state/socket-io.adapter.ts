@@ -0,0 +1,74 @@
+import {
+  ClusterAdapterWithHeartbeat,
+  ClusterAdapterOptions,
+  ClusterMessage,
+  ClusterResponse,
+  ServerId,
+} from 'socket.io-adapter';
+import { logger } from '../../utils/logger';
+import { SharedStateStore } from './shared-state';
+
+const MESSAGE_CHANNEL = 'socket.io:message';
+const RESPONSE_CHANNEL = 'socket.io:response';
+
+/**
+ * Socket.IO adapter that relays room broadcasts, joins and fetches to the
+ * other instances through the shared-state store, so that `io.to(room)`
+ * reaches sockets connected to any instance. Packets must be
+ * JSON-compatible.
+ */
+class SharedStateAdapter extends ClusterAdapterWithHeartbeat {
+  private unsubscribers: Array<() => void>;
+
+  constructor(
+    nsp: any,
+    private readonly store: SharedStateStore,
+    opts: ClusterAdapterOptions,
+  ) {
+    super(nsp, opts);
+    this.unsubscribers = [
+      store.subscribe(MESSAGE_CHANNEL, (message: ClusterMessage) =>
+        this.onMessage(message),
+      ),
+      store.subscribe(
+        RESPONSE_CHANNEL,
+        (payload: { requesterUid: ServerId; response: ClusterResponse }) => {
+          if (payload.requesterUid === this.uid) {
+            this.onResponse(payload.response);
+          }
+        },
+      ),
+    ];
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    await this.store.publish(MESSAGE_CHANNEL, message);
+    return '';
+  }
+
+  protected async doPublishResponse(
+    requesterUid: ServerId,
+    response: ClusterResponse,
+  ): Promise<void> {
+    await this.store.publish(RESPONSE_CHANNEL, { requesterUid, response });
+  }
+
+  close(): void {
+    super.close();
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }
+}
+
+/**
+ * Adapter constructor for `io.adapter()`, relaying through `store`
+ */
+export const createSharedStateAdapter = (
+  store: SharedStateStore,
+  opts: ClusterAdapterOptions = {},
+) =>
+  function (nsp: any) {
+    logger.info(
+      `Socket.IO: Using ${store.name} cluster adapter for namespace ${nsp.name}`,
+    );
+    return new SharedStateAdapter(nsp, store, opts);
+  };
@@ -1,7 +1,38 @@
 //file_path:src/services/speech.recognition.service.ts
 import axios from 'axios';
-import FormData from 'form-data';
-import speech from '@google-cloud/speech';
+import { getApiKey } from './api.key.service';
+import { STTFactory } from './speech/stt.factory';
+import { GoogleSTTProvider } from './speech/providers/google.stt.provider';
+import { WhisperSTTProvider } from './speech/providers/whisper.stt.provider';
+import { TranscriptionOptions, TranscriptionResult } from './speech/types';
+import { BadRequestError } from '../utils/errors';
+
+/**
+ * Transcribe audio with a company's speech-to-text provider, by default
+ * the one set in STT_PROVIDER
+ */
+export const transcribeAudio = async (
+  companyId: string,
+  audio: Buffer,
+  options: TranscriptionOptions & { provider?: string } = {},
+): Promise<TranscriptionResult> => {
+  const provider = options.provider || STTFactory.getDefaultProvider();
+  if (!STTFactory.getProviderNames().includes(provider)) {
+    throw new BadRequestError(
+      `Unsupported speech-to-text provider: ${provider}. Supported: ${STTFactory.getProviderNames().join(', ')}`,
+    );
+  }
+
+  const apiKeyType = STTFactory.getApiKeyType(provider);
+  const apiKey = apiKeyType ? await getApiKey(companyId, apiKeyType) : null;
+  if (apiKeyType && !apiKey) {
+    throw new BadRequestError(
+      `No API key configured for speech-to-text provider ${provider}`,
+    );
+  }
+
+  return STTFactory.getProvider(provider, apiKey).transcribe(audio, options);
+};
 
 export const transcribeAudioWhisper = async (
   apiKey: string,
@@ -9,25 +40,12 @@ export const transcribeAudioWhisper = async (
   language: string = 'en',
 ) => {
   try {
-    const formData = new FormData();
-    formData.append('file', audioBuffer, {
-      filename: 'audio.webm',
-      contentType: 'audio/webm',
-    });
-    formData.append('model', 'whisper-1');
-    formData.append('language', language);
-
-    const result = await axios({
-      method: 'post',
-      url: 'https://api.openai.com/v1/audio/transcriptions',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        ...formData.getHeaders(),
-      },
-      data: formData,
-    });
-
-    return result.data.text;
+    const result = await new WhisperSTTProvider({ apiKey }).transcribe(
+      audioBuffer,
+      // Recordings from browsers are WebM when their header is missing
+      { language, mimeType: 'audio/webm' },
+    );
+    return result.text;
   } catch (error) {
     console.error('Error transcribing audio:', error);
     throw error;
@@ -59,41 +77,18 @@ export const transcribeAudioGoogle = async (
   language: string = 'en-US',
 ) => {
   try {
-    const client = new speech.SpeechClient();
-
     const audioResponse = await axios({
       method: 'get',
       url: audioURL,
       responseType: 'arraybuffer',
     });
 
-    const audioBytes = audioResponse.data.toString('base64');
-
-    const audio = {
-      content: audioBytes,
-    };
-
-    const request = {
-      audio: audio,
-      config: {
-        encoding: 'LINEAR16' as const,
-        sampleRateHertz: 8000,
-        languageCode: language,
-        useEnhanced: true, // Use enhanced model if available
-      },
-    };
-
-    const [response] = await client.recognize(request);
-
-    // extract the transcription
-    const transcription =
-      response.results
-        ?.map(
-          (result) => result.alternatives?.[0]?.transcript ?? 'Unknown segment',
-        )
-        .join('\n') ?? 'No transcription available';
-
-    return transcription;
+    // Headerless audio is taken as 8 kHz PCM (telephony recordings)
+    const result = await new GoogleSTTProvider().transcribe(
+      Buffer.from(audioResponse.data),
+      { language, mimeType: 'audio/l16', sampleRate: 8000 },
+    );
+    return result.text || 'No transcription available';
   } catch (error) {
     console.error(`Error transcribing audio with Google: ${error}`);
     throw error;
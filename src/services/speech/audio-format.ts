@@ -0,0 +1,123 @@
+import { BadRequestError } from '../../utils/errors';
+import { pcm16ToWav } from '../voice/wav';
+import { AudioFormat, TranscriptionOptions } from './types';
+
+export const AUDIO_FORMATS: Record<
+  AudioFormat,
+  { mimeType: string; extension: string }
+> = {
+  wav: { mimeType: 'audio/wav', extension: 'wav' },
+  mp3: { mimeType: 'audio/mpeg', extension: 'mp3' },
+  ogg: { mimeType: 'audio/ogg', extension: 'ogg' },
+  webm: { mimeType: 'audio/webm', extension: 'webm' },
+  flac: { mimeType: 'audio/flac', extension: 'flac' },
+  mp4: { mimeType: 'audio/mp4', extension: 'm4a' },
+};
+
+const MIME_TYPES: Record<string, AudioFormat> = {
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'ogg',
+  'audio/webm': 'webm',
+  'video/webm': 'webm',
+  'audio/flac': 'flac',
+  'audio/x-flac': 'flac',
+  'audio/mp4': 'mp4',
+  'audio/m4a': 'mp4',
+  'audio/x-m4a': 'mp4',
+};
+
+const EXTENSIONS: Record<string, AudioFormat> = {
+  wav: 'wav',
+  mp3: 'mp3',
+  ogg: 'ogg',
+  oga: 'ogg',
+  opus: 'ogg',
+  webm: 'webm',
+  flac: 'flac',
+  m4a: 'mp4',
+  mp4: 'mp4',
+};
+
+// Headerless 16-bit PCM, which is wrapped in WAV before transcription
+const RAW_PCM_TYPES = ['audio/pcm', 'audio/l16'];
+
+/**
+ * The container format of audio, from its first bytes
+ */
+export function sniffAudioFormat(audio: Buffer): AudioFormat | null {
+  const ascii = (start: number, end: number) =>
+    audio.length >= end ? audio.toString('latin1', start, end) : '';
+
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') {
+    return 'wav';
+  }
+  if (ascii(0, 4) === 'OggS') {
+    return 'ogg';
+  }
+  if (ascii(0, 4) === 'fLaC') {
+    return 'flac';
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    return 'mp4';
+  }
+  if (
+    audio.length >= 4 &&
+    audio[0] === 0x1a &&
+    audio[1] === 0x45 &&
+    audio[2] === 0xdf &&
+    audio[3] === 0xa3
+  ) {
+    return 'webm';
+  }
+  if (
+    ascii(0, 3) === 'ID3' ||
+    (audio.length >= 2 && audio[0] === 0xff && (audio[1] & 0xe0) === 0xe0)
+  ) {
+    return 'mp3';
+  }
+  return null;
+}
+
+/**
+ * Audio ready to send to a provider: its sniffed format (falling back to
+ * the MIME type and file name), with raw PCM wrapped in WAV
+ */
+export function prepareAudio(
+  audio: Buffer,
+  options: Pick<TranscriptionOptions, 'mimeType' | 'filename' | 'sampleRate'>,
+): { audio: Buffer; format: AudioFormat } {
+  const mimeType = options.mimeType?.split(';')[0].trim().toLowerCase();
+  // Checked before sniffing: PCM samples can look like an MP3 frame sync
+  if (mimeType && RAW_PCM_TYPES.includes(mimeType)) {
+    const rate = /rate=(\d+)/.exec(options.mimeType!)?.[1];
+    return {
+      audio: pcm16ToWav(audio, options.sampleRate || Number(rate) || 16000),
+      format: 'wav',
+    };
+  }
+
+  const sniffed = sniffAudioFormat(audio);
+  if (sniffed) {
+    return { audio, format: sniffed };
+  }
+
+  const extension = options.filename?.split('.').pop()?.toLowerCase();
+  const format =
+    (mimeType && MIME_TYPES[mimeType]) || (extension && EXTENSIONS[extension]);
+  if (!format) {
+    throw new BadRequestError('Unrecognized audio format');
+  }
+  return { audio, format };
+}
+
+/**
+ * Sample rate of a WAV file, from its header
+ */
+export function wavSampleRate(audio: Buffer): number | undefined {
+  return audio.length >= 28 ? audio.readUInt32LE(24) : undefined;
+}
@@ -1,5 +1,8 @@
-import { generateSpeech as elevenLabsGenerateSpeech } from '../../../integrations/elevenlabs/elevenlabs.service';
-import { SpeechProvider, SpeechGenerationOptions } from '../types';
+import {
+  generateSpeech as elevenLabsGenerateSpeech,
+  synthesizeSpeech as elevenLabsSynthesizeSpeech,
+} from '../../../integrations/elevenlabs/elevenlabs.service';
+import { SpeechProvider, SpeechGenerationOptions, SpeechAudio } from '../types';
 
 export class ElevenLabsSpeechProvider implements SpeechProvider {
   constructor(private readonly apiKey: string) {}
@@ -18,4 +21,15 @@ export class ElevenLabsSpeechProvider implements SpeechProvider {
       },
     );
   }
+
+  async synthesizeSpeech(
+    text: string,
+    options?: Partial<SpeechGenerationOptions>,
+  ): Promise<SpeechAudio> {
+    const audio = await elevenLabsSynthesizeSpeech(
+      { apiKey: this.apiKey },
+      { text, voiceId: options?.voice, modelId: options?.model },
+    );
+    return { audio, mimeType: 'audio/mpeg' };
+  }
 }
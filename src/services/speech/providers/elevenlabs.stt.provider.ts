@@ -0,0 +1,78 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import { AUDIO_FORMATS, prepareAudio } from '../audio-format';
+import {
+  STTProvider,
+  TranscriptionOptions,
+  TranscriptionResult,
+} from '../types';
+
+const ELEVENLABS_STT_URL = 'https://api.elevenlabs.io/v1/speech-to-text';
+
+/**
+ * ElevenLabs Scribe: word timestamps, speaker diarization and language
+ * detection
+ */
+export class ElevenLabsSTTProvider implements STTProvider {
+  readonly name = 'elevenlabs';
+  readonly features = {
+    wordTimestamps: true,
+    diarization: true,
+    languageDetection: true,
+  };
+
+  constructor(private readonly apiKey: string) {}
+
+  async transcribe(
+    input: Buffer,
+    options: TranscriptionOptions = {},
+  ): Promise<TranscriptionResult> {
+    const { audio, format } = prepareAudio(input, options);
+    const { mimeType, extension } = AUDIO_FORMATS[format];
+
+    const formData = new FormData();
+    formData.append('file', audio, {
+      filename: `audio.${extension}`,
+      contentType: mimeType,
+    });
+    formData.append('model_id', 'scribe_v1');
+    formData.append('timestamps_granularity', 'word');
+    formData.append('diarize', options.diarization ? 'true' : 'false');
+    if (options.diarization && options.speakerCount) {
+      formData.append('num_speakers', String(options.speakerCount));
+    }
+    if (options.language) {
+      formData.append('language_code', options.language.split('-')[0]);
+    }
+
+    const result = await axios({
+      method: 'post',
+      url: ELEVENLABS_STT_URL,
+      headers: { 'xi-api-key': this.apiKey, ...formData.getHeaders() },
+      data: formData,
+      maxBodyLength: Infinity,
+    });
+
+    const data = result.data;
+    const words = (data.words || []).filter(
+      (word: any) => word.type === 'word',
+    );
+    return {
+      text: (data.text || '').trim(),
+      provider: this.name,
+      language: data.language_code,
+      duration: words.length > 0 ? words[words.length - 1].end : undefined,
+      words:
+        options.wordTimestamps || options.diarization
+          ? words.map((word: any) => ({
+              text: word.text,
+              start: word.start,
+              end: word.end,
+              speaker: word.speaker_id || undefined,
+              confidence:
+                word.logprob !== undefined ? Math.exp(word.logprob) : undefined,
+            }))
+          : undefined,
+    };
+  }
+}
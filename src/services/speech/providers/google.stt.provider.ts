@@ -0,0 +1,106 @@
+import speech from '@google-cloud/speech';
+import { BadRequestError } from '../../../utils/errors';
+import { prepareAudio, wavSampleRate } from '../audio-format';
+import {
+  AudioFormat,
+  STTProvider,
+  TranscriptionOptions,
+  TranscriptionResult,
+  TranscriptionWord,
+} from '../types';
+
+const ENCODINGS: Partial<
+  Record<AudioFormat, 'LINEAR16' | 'FLAC' | 'MP3' | 'OGG_OPUS' | 'WEBM_OPUS'>
+> = {
+  wav: 'LINEAR16',
+  flac: 'FLAC',
+  mp3: 'MP3',
+  ogg: 'OGG_OPUS',
+  webm: 'WEBM_OPUS',
+};
+
+const seconds = (
+  duration?: {
+    seconds?: number | string | { toString(): string } | null;
+    nanos?: number | null;
+  } | null,
+): number =>
+  Number(duration?.seconds?.toString() || 0) + (duration?.nanos || 0) / 1e9;
+
+/**
+ * Google Cloud Speech-to-Text, authenticated with the application default
+ * credentials. Google needs a language; without one it recognizes en-US.
+ */
+export class GoogleSTTProvider implements STTProvider {
+  readonly name = 'google';
+  readonly features = {
+    wordTimestamps: true,
+    diarization: true,
+    languageDetection: false,
+  };
+
+  private client = new speech.SpeechClient();
+
+  async transcribe(
+    input: Buffer,
+    options: TranscriptionOptions = {},
+  ): Promise<TranscriptionResult> {
+    const { audio, format } = prepareAudio(input, options);
+    const encoding = ENCODINGS[format];
+    if (!encoding) {
+      throw new BadRequestError(`Google cannot transcribe ${format} audio`);
+    }
+
+    const [response] = await this.client.recognize({
+      audio: { content: audio.toString('base64') },
+      config: {
+        encoding,
+        // Opus streams are 48 kHz unless re-sampled; WAV and FLAC say so
+        sampleRateHertz:
+          format === 'wav'
+            ? wavSampleRate(audio)
+            : format === 'ogg' || format === 'webm'
+              ? 48000
+              : undefined,
+        languageCode: options.language || 'en-US',
+        enableAutomaticPunctuation: true,
+        enableWordTimeOffsets: options.wordTimestamps || options.diarization,
+        ...(options.diarization && {
+          diarizationConfig: {
+            enableSpeakerDiarization: true,
+            ...(options.speakerCount && {
+              minSpeakerCount: options.speakerCount,
+              maxSpeakerCount: options.speakerCount,
+            }),
+          },
+        }),
+      },
+    });
+
+    const results = response.results || [];
+    const text = results
+      .map((result) => result.alternatives?.[0]?.transcript?.trim() || '')
+      .filter(Boolean)
+      .join(' ');
+
+    // With diarization the last result repeats every word with its speaker
+    const wordResults = options.diarization ? results.slice(-1) : results;
+    const words: TranscriptionWord[] = wordResults.flatMap((result) =>
+      (result.alternatives?.[0]?.words || []).map((word) => ({
+        text: word.word || '',
+        start: seconds(word.startTime),
+        end: seconds(word.endTime),
+        speaker: word.speakerTag ? String(word.speakerTag) : undefined,
+        confidence: word.confidence || undefined,
+      })),
+    );
+
+    return {
+      text,
+      provider: this.name,
+      language: results[0]?.languageCode || options.language || 'en-US',
+      duration: seconds(response.totalBilledTime) || undefined,
+      words: options.wordTimestamps || options.diarization ? words : undefined,
+    };
+  }
+}
@@ -1,7 +1,11 @@
-import { generateSpeech as openAiGenerateSpeech } from '../../oai.speech.service';
+import {
+  generateSpeech as openAiGenerateSpeech,
+  synthesizeSpeech as openAiSynthesizeSpeech,
+} from '../../oai.speech.service';
 import {
   SpeechProvider,
   SpeechGenerationOptions,
+  SpeechAudio,
   OpenAIVoice,
   OpenAIModel,
 } from '../types';
@@ -22,4 +26,17 @@ export class OpenAISpeechProvider implements SpeechProvider {
       options?.filename,
     );
   }
+
+  async synthesizeSpeech(
+    text: string,
+    options?: Partial<SpeechGenerationOptions>,
+  ): Promise<SpeechAudio> {
+    const audio = await openAiSynthesizeSpeech(
+      this.apiKey,
+      text,
+      (options?.voice || 'alloy') as OpenAIVoice,
+      (options?.model || 'tts-1') as OpenAIModel,
+    );
+    return { audio, mimeType: 'audio/mpeg' };
+  }
 }
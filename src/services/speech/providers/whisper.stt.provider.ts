@@ -0,0 +1,83 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import { AUDIO_FORMATS, prepareAudio } from '../audio-format';
+import {
+  STTProvider,
+  TranscriptionOptions,
+  TranscriptionResult,
+} from '../types';
+
+export interface WhisperSTTConfig {
+  name?: string;
+  apiKey?: string | null;
+  baseUrl?: string; // An OpenAI-compatible API, e.g. a local Whisper server
+  model?: string;
+}
+
+/**
+ * Whisper through the OpenAI transcription API, or any server implementing
+ * it (the local provider). Detects the language when none is given.
+ */
+export class WhisperSTTProvider implements STTProvider {
+  readonly name: string;
+  readonly features = {
+    wordTimestamps: true,
+    diarization: false,
+    languageDetection: true,
+  };
+
+  constructor(private readonly config: WhisperSTTConfig) {
+    this.name = config.name || 'openai';
+  }
+
+  async transcribe(
+    input: Buffer,
+    options: TranscriptionOptions = {},
+  ): Promise<TranscriptionResult> {
+    const { audio, format } = prepareAudio(input, options);
+    const { mimeType, extension } = AUDIO_FORMATS[format];
+
+    const formData = new FormData();
+    formData.append('file', audio, {
+      filename: `audio.${extension}`,
+      contentType: mimeType,
+    });
+    formData.append('model', this.config.model || 'whisper-1');
+    formData.append('response_format', 'verbose_json');
+    if (options.language) {
+      formData.append('language', options.language.split('-')[0]);
+    }
+    if (options.wordTimestamps) {
+      formData.append('timestamp_granularities[]', 'word');
+    }
+
+    const baseUrl = this.config.baseUrl || 'https://api.openai.com/v1';
+    const result = await axios({
+      method: 'post',
+      url: `${baseUrl.replace(/\/$/, '')}/audio/transcriptions`,
+      headers: {
+        ...(this.config.apiKey && {
+          Authorization: `Bearer ${this.config.apiKey}`,
+        }),
+        ...formData.getHeaders(),
+      },
+      data: formData,
+      maxBodyLength: Infinity,
+    });
+
+    const data = result.data;
+    return {
+      text: (data.text || '').trim(),
+      provider: this.name,
+      language: data.language,
+      duration: data.duration,
+      words: options.wordTimestamps
+        ? (data.words || []).map((word: any) => ({
+            text: word.word,
+            start: word.start,
+            end: word.end,
+          }))
+        : undefined,
+    };
+  }
+}
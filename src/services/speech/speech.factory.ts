@@ -1,24 +1,70 @@
 import { OpenAISpeechProvider } from './providers/openai.provider';
 import { ElevenLabsSpeechProvider } from './providers/elevenlabs.provider';
-import { SpeechProvider } from './types';
+import { OPENAI_VOICES, OpenAIVoice, SpeechProvider } from './types';
+import { ApiKeyType } from '../api.key.service';
+
+interface SpeechProviderRegistration {
+  create: (apiKey: string) => SpeechProvider;
+  apiKeyType: ApiKeyType; // Company key the provider is created with
+}
 
 export class SpeechFactory {
   private static providers: Map<string, SpeechProvider> = new Map();
+  private static registrations: Map<string, SpeechProviderRegistration> =
+    new Map([
+      [
+        'openai',
+        {
+          create: (apiKey: string) => new OpenAISpeechProvider(apiKey),
+          apiKeyType: 'openai_api_key',
+        },
+      ],
+      [
+        'elevenlabs',
+        {
+          create: (apiKey: string) => new ElevenLabsSpeechProvider(apiKey),
+          apiKeyType: 'labs11_api_key',
+        },
+      ],
+    ]);
+
+  /**
+   * Make another provider available under `provider`
+   */
+  static registerProvider(
+    provider: string,
+    registration: SpeechProviderRegistration,
+  ): void {
+    this.registrations.set(provider, registration);
+  }
+
+  static getApiKeyType(provider: string): ApiKeyType {
+    const registration = this.registrations.get(provider);
+    if (!registration) {
+      throw new Error(`Unsupported speech provider: ${provider}`);
+    }
+    return registration.apiKeyType;
+  }
+
+  /**
+   * The provider an assistant's voice belongs to: OpenAI voices have
+   * well-known names, anything else is taken as an ElevenLabs voice ID
+   */
+  static providerForVoice(voice?: string): string {
+    return !voice || OPENAI_VOICES.includes(voice as OpenAIVoice)
+      ? 'openai'
+      : 'elevenlabs';
+  }
 
   static getProvider(provider: string, apiKey: string): SpeechProvider {
     const key = `${provider}-${apiKey}`;
 
     if (!this.providers.has(key)) {
-      switch (provider) {
-        case 'openai':
-          this.providers.set(key, new OpenAISpeechProvider(apiKey));
-          break;
-        case 'elevenlabs':
-          this.providers.set(key, new ElevenLabsSpeechProvider(apiKey));
-          break;
-        default:
-          throw new Error(`Unsupported speech provider: ${provider}`);
+      const registration = this.registrations.get(provider);
+      if (!registration) {
+        throw new Error(`Unsupported speech provider: ${provider}`);
       }
+      this.providers.set(key, registration.create(apiKey));
     }
 
     return this.providers.get(key)!;
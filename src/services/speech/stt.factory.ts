@@ -0,0 +1,92 @@
+import { ElevenLabsSTTProvider } from './providers/elevenlabs.stt.provider';
+import { GoogleSTTProvider } from './providers/google.stt.provider';
+import { WhisperSTTProvider } from './providers/whisper.stt.provider';
+import { STTProvider } from './types';
+import { ApiKeyType } from '../api.key.service';
+
+interface STTProviderRegistration {
+  create: (apiKey: string | null) => STTProvider;
+  // Company key the provider is created with; unset for providers that
+  // authenticate themselves (Google credentials) or need none (local)
+  apiKeyType?: ApiKeyType;
+}
+
+export class STTFactory {
+  private static providers: Map<string, STTProvider> = new Map();
+  private static registrations: Map<string, STTProviderRegistration> = new Map<
+    string,
+    STTProviderRegistration
+  >([
+    [
+      'openai',
+      {
+        create: (apiKey) => new WhisperSTTProvider({ apiKey }),
+        apiKeyType: 'openai_api_key',
+      },
+    ],
+    ['google', { create: () => new GoogleSTTProvider() }],
+    [
+      'elevenlabs',
+      {
+        create: (apiKey) => new ElevenLabsSTTProvider(apiKey!),
+        apiKeyType: 'labs11_api_key',
+      },
+    ],
+    [
+      // Offline: a self-hosted server with the OpenAI transcription API
+      // (e.g. faster-whisper-server) at LOCAL_STT_URL
+      'local',
+      {
+        create: () =>
+          new WhisperSTTProvider({
+            name: 'local',
+            baseUrl: process.env.LOCAL_STT_URL || 'http://localhost:8000/v1',
+            model: process.env.LOCAL_STT_MODEL || 'whisper-1',
+          }),
+      },
+    ],
+  ]);
+
+  /**
+   * Make another provider available under `provider`
+   */
+  static registerProvider(
+    provider: string,
+    registration: STTProviderRegistration,
+  ): void {
+    this.registrations.set(provider, registration);
+  }
+
+  static getProviderNames(): string[] {
+    return [...this.registrations.keys()];
+  }
+
+  /**
+   * The provider used when a request names none (STT_PROVIDER)
+   */
+  static getDefaultProvider(): string {
+    return process.env.STT_PROVIDER || 'openai';
+  }
+
+  static getApiKeyType(provider: string): ApiKeyType | undefined {
+    const registration = this.registrations.get(provider);
+    if (!registration) {
+      throw new Error(`Unsupported speech-to-text provider: ${provider}`);
+    }
+    return registration.apiKeyType;
+  }
+
+  static getProvider(provider: string, apiKey: string | null): STTProvider {
+    const key = `${provider}-${apiKey || ''}`;
+
+    if (!this.providers.has(key)) {
+      const registration = this.registrations.get(provider);
+      if (!registration) {
+        throw new Error(`Unsupported speech-to-text provider: ${provider}`);
+      }
+      this.providers.set(key, registration.create(apiKey));
+    }
+
+    return this.providers.get(key)!;
+  }
+}
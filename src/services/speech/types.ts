@@ -1,30 +1,96 @@
 export type OpenAIVoice =
-  | 'alloy'
-  | 'echo'
-  | 'fable'
-  | 'onyx'
-  | 'nova'
-  | 'shimmer';
+  'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
 export type OpenAIModel = 'tts-1' | 'tts-1-hd';
 
+export const OPENAI_VOICES: OpenAIVoice[] = [
+  'alloy',
+  'echo',
+  'fable',
+  'onyx',
+  'nova',
+  'shimmer',
+];
+
 export interface SpeechGenerationOptions {
   text: string;
   voice?: string;
   model?: string;
   textLimit?: number;
   filename?: string;
-  provider?: 'openai' | 'elevenlabs';
+  provider?: string;
 }
 
-export interface OpenAISpeechOptions
-  extends Omit<SpeechGenerationOptions, 'voice' | 'model'> {
+export interface OpenAISpeechOptions extends Omit<
+  SpeechGenerationOptions,
+  'voice' | 'model'
+> {
   voice?: OpenAIVoice;
   model?: OpenAIModel;
 }
 
+/**
+ * Audio produced by a provider, returned to the caller as is
+ */
+export interface SpeechAudio {
+  audio: Buffer;
+  mimeType: string;
+}
+
 export interface SpeechProvider {
+  // Upload the audio and return its public URL
   generateSpeech(
     text: string,
     options?: Partial<SpeechGenerationOptions>,
   ): Promise<string>;
+  // Return the audio itself, e.g. to stream it to a client
+  synthesizeSpeech(
+    text: string,
+    options?: Partial<SpeechGenerationOptions>,
+  ): Promise<SpeechAudio>;
+}
+
+export type AudioFormat = 'wav' | 'mp3' | 'ogg' | 'webm' | 'flac' | 'mp4';
+
+export interface TranscriptionOptions {
+  language?: string; // ISO 639-1 or BCP-47; detected when unset, if supported
+  mimeType?: string; // Used when the format cannot be sniffed
+  filename?: string;
+  sampleRate?: number; // Only for raw 16-bit PCM (audio/pcm, audio/l16)
+  wordTimestamps?: boolean;
+  diarization?: boolean;
+  speakerCount?: number; // Expected number of speakers when diarizing
+}
+
+export interface TranscriptionWord {
+  text: string;
+  start: number; // Seconds
+  end: number;
+  speaker?: string;
+  confidence?: number;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  provider: string;
+  language?: string; // As reported by the provider
+  duration?: number; // Seconds
+  words?: TranscriptionWord[]; // With wordTimestamps or diarization
+}
+
+/**
+ * What a speech-to-text provider can do beyond plain transcription
+ */
+export interface STTFeatures {
+  wordTimestamps: boolean;
+  diarization: boolean;
+  languageDetection: boolean;
+}
+
+export interface STTProvider {
+  readonly name: string;
+  readonly features: STTFeatures;
+  transcribe(
+    audio: Buffer,
+    options?: TranscriptionOptions,
+  ): Promise<TranscriptionResult>;
 }
@@ -1,6 +1,11 @@
 import Handlebars from 'handlebars';
 import { getSessionContextData } from './session-context.service';
 
+// {{json value}} pretty-prints a value as JSON
+Handlebars.registerHelper('json', (value: unknown) =>
+  JSON.stringify(value, null, 2),
+);
+
 export const processTemplate = async (
   template: string,
   sessionId: string,
@@ -14,3 +19,15 @@ export const processTemplate = async (
     return template; // Return original template if there's an error
   }
 };
+
+/**
+ * Render a template against arbitrary data, without HTML escaping.
+ * Unlike processTemplate, errors are thrown to the caller.
+ */
+export const renderTemplate = (
+  template: string,
+  data: Record<string, unknown>,
+): string => {
+  const compiledTemplate = Handlebars.compile(template, { noEscape: true });
+  return compiledTemplate(data);
+};
@@ -0,0 +1,157 @@
+import { handleSessionMessage } from './assistant/message-handling.service';
+import { getSessionOrCreate } from './session.service';
+import { findUserByIdentifierAndCompany } from './user.service';
+import { getApiKey } from './api.key.service';
+import {
+  downloadTwilioMedia,
+  getTwilioCredentials,
+  sendTwilioMessage,
+  TwilioChannel,
+} from '../integrations/twilio/twilio.service';
+
+// The user identifier key phone numbers are matched against
+export const PHONE_IDENTIFIER_KEY = 'phone';
+
+const UNKNOWN_SENDER_REPLY =
+  "Sorry, we couldn't find an account linked to this number.";
+const ERROR_REPLY =
+  'Sorry, something went wrong while handling your message. Please try again later.';
+
+/**
+ * The form fields Twilio posts for an incoming message (subset)
+ */
+export interface TwilioInboundMessage {
+  MessageSid?: string;
+  AccountSid?: string;
+  From: string;
+  To?: string;
+  Body?: string;
+  NumMedia?: string;
+  [key: string]: string | undefined; // MediaUrl{N}, MediaContentType{N}, ...
+}
+
+interface Attachment {
+  fileId?: string;
+  url?: string;
+  data?: string; // Base64 encoded data
+  mimeType: string;
+  fileName: string;
+}
+
+/**
+ * Split a Twilio address into channel and E.164 number
+ */
+export const parseTwilioAddress = (
+  address: string,
+): { channel: TwilioChannel; phone: string } => {
+  if (address?.startsWith('whatsapp:')) {
+    return { channel: 'whatsapp', phone: address.slice('whatsapp:'.length) };
+  }
+  return { channel: 'sms', phone: address };
+};
+
+const extensionFor = (mimeType: string) =>
+  (mimeType.split('/')[1] || 'bin').split(';')[0].split('+')[0];
+
+/**
+ * Download the media of an incoming message as base64 attachments
+ */
+export const getInboundAttachments = async (
+  companyId: string,
+  message: TwilioInboundMessage,
+): Promise<Attachment[]> => {
+  const count = Math.min(Number(message.NumMedia) || 0, 10);
+  if (count === 0) {
+    return [];
+  }
+
+  const credentials = await getTwilioCredentials(companyId);
+  const attachments: Attachment[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const mediaUrl = message[`MediaUrl${i}`];
+    if (!mediaUrl) {
+      continue;
+    }
+    const mimeType =
+      message[`MediaContentType${i}`] || 'application/octet-stream';
+    const data = await downloadTwilioMedia(credentials, mediaUrl);
+    attachments.push({
+      url: mediaUrl,
+      data: data.toString('base64'),
+      mimeType,
+      fileName: `${message.MessageSid || 'media'}-${i}.${extensionFor(mimeType)}`,
+    });
+  }
+
+  return attachments;
+};
+
+/**
+ * Handle an SMS/WhatsApp message delivered to a company's Twilio webhook:
+ * the sender's number is matched to a user through their `phone`
+ * identifier, the message is routed to that user's active session and the
+ * assistant's reply is sent back on the same channel.
+ */
+export const handleIncomingTwilioMessage = async (
+  companyId: string,
+  message: TwilioInboundMessage,
+): Promise<void> => {
+  const { channel, phone } = parseTwilioAddress(message.From);
+
+  const user = await findUserByIdentifierAndCompany(
+    PHONE_IDENTIFIER_KEY,
+    phone,
+    companyId,
+  );
+  if (!user) {
+    console.warn(
+      `[Twilio] No user with phone ${phone} in company ${companyId}`,
+    );
+    await sendTwilioMessage(companyId, {
+      to: phone,
+      body: UNKNOWN_SENDER_REPLY,
+      channel,
+    });
+    return;
+  }
+
+  try {
+    const apiKey = (await getApiKey(companyId, 'openai_api_key')) as string;
+    const session = await getSessionOrCreate(
+      apiKey,
+      user._id.toString(),
+      companyId,
+      'en',
+    );
+
+    const attachments = await getInboundAttachments(companyId, message);
+    const reply = await handleSessionMessage(
+      message.Body || '',
+      session._id.toString(),
+      { channel, from: phone },
+      attachments.length > 0 ? attachments : undefined,
+    );
+
+    if (typeof reply !== 'string') {
+      throw new Error('Expected a text reply from handleSessionMessage');
+    }
+    if (!reply.trim()) {
+      return;
+    }
+
+    await sendTwilioMessage(companyId, { to: phone, body: reply, channel });
+  } catch (error) {
+    console.error(
+      `[Twilio] Failed to handle message ${message.MessageSid} from ${phone}:`,
+      error,
+    );
+    await sendTwilioMessage(companyId, {
+      to: phone,
+      body: ERROR_REPLY,
+      channel,
+    }).catch((sendError) =>
+      console.error('[Twilio] Failed to send error reply:', sendError),
+    );
+  }
+};
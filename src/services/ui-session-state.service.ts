@@ -4,10 +4,13 @@
  * Tracks real-time UI state for each user/session to enable programmatic
  * UI querying and control from Claude Code and other external tools.
  *
- * This service maintains an in-memory cache of UI state that is updated
- * via WebSocket events from the frontend.
+ * State is updated via WebSocket events from the frontend and kept in the
+ * shared-state store, so any API instance can read it. Change listeners are
+ * local to an instance but hear about updates made on every instance.
  */
 
+import { getSharedState } from './shared-state/shared-state';
+
 export interface WorkspaceDocument {
   path: string;
   content: string;
@@ -36,21 +39,28 @@ export interface UISessionState {
 
 type StateChangeCallback = (state: UISessionState) => void;
 
-class UISessionStateService {
-  // In-memory storage: userId -> UISessionState
-  private stateByUser: Map<string, UISessionState> = new Map();
+const USER_NAMESPACE = 'ui-state:user'; // userId -> UISessionState
+const SESSION_NAMESPACE = 'ui-state:session'; // sessionId -> userId
+const STATE_CHANNEL = 'ui-state:changed';
 
-  // In-memory storage: sessionId -> UISessionState
-  private stateBySession: Map<string, UISessionState> = new Map();
+// UI state of users who stop sending updates expires after a day
+const UI_STATE_TTL_MS = 24 * 60 * 60 * 1000;
 
-  // State change listeners: userId -> callbacks
+class UISessionStateService {
+  // State change listeners on this instance: userId -> callbacks
   private listeners: Map<string, Set<StateChangeCallback>> = new Map();
 
+  private unsubscribe?: () => void;
+
   /**
    * Update UI state for a user/session
    */
-  updateUIState(userId: string, state: Partial<UISessionState>): void {
-    const existingState = this.stateByUser.get(userId);
+  async updateUIState(
+    userId: string,
+    state: Partial<UISessionState>,
+  ): Promise<void> {
+    const store = getSharedState();
+    const existingState = await this.getUIState(userId);
 
     const newState: UISessionState = {
       userId,
@@ -67,37 +77,51 @@ class UISessionStateService {
       assistantId: state.assistantId || existingState?.assistantId,
     };
 
-    // Update both maps
-    this.stateByUser.set(userId, newState);
+    await store.set(USER_NAMESPACE, userId, newState, UI_STATE_TTL_MS);
+    if (
+      existingState?.sessionId &&
+      existingState.sessionId !== newState.sessionId
+    ) {
+      await store.delete(SESSION_NAMESPACE, existingState.sessionId);
+    }
     if (newState.sessionId) {
-      this.stateBySession.set(newState.sessionId, newState);
+      await store.set(
+        SESSION_NAMESPACE,
+        newState.sessionId,
+        userId,
+        UI_STATE_TTL_MS,
+      );
     }
 
-    // Notify listeners
-    this.notifyListeners(userId, newState);
+    // Notify listeners on every instance
+    await store.publish(STATE_CHANNEL, newState);
   }
 
   /**
    * Get current UI state for a user
    */
-  getUIState(userId: string): UISessionState | null {
-    return this.stateByUser.get(userId) || null;
+  async getUIState(userId: string): Promise<UISessionState | null> {
+    return getSharedState().get<UISessionState>(USER_NAMESPACE, userId);
   }
 
   /**
    * Get UI state by session ID
    */
-  getUIStateBySession(sessionId: string): UISessionState | null {
-    return this.stateBySession.get(sessionId) || null;
+  async getUIStateBySession(sessionId: string): Promise<UISessionState | null> {
+    const userId = await getSharedState().get<string>(
+      SESSION_NAMESPACE,
+      sessionId,
+    );
+    return userId ? this.getUIState(userId) : null;
   }
 
   /**
    * Update current route for a session
    */
-  updateRoute(sessionId: string, route: string): void {
-    const state = this.stateBySession.get(sessionId);
+  async updateRoute(sessionId: string, route: string): Promise<void> {
+    const state = await this.getUIStateBySession(sessionId);
     if (state) {
-      this.updateUIState(state.userId, {
+      await this.updateUIState(state.userId, {
         sessionId,
         currentRoute: route,
       });
@@ -107,13 +131,13 @@ class UISessionStateService {
   /**
    * Update open workspace document
    */
-  updateWorkspaceDocument(
+  async updateWorkspaceDocument(
     sessionId: string,
     document: WorkspaceDocument | undefined,
-  ): void {
-    const state = this.stateBySession.get(sessionId);
+  ): Promise<void> {
+    const state = await this.getUIStateBySession(sessionId);
     if (state) {
-      this.updateUIState(state.userId, {
+      await this.updateUIState(state.userId, {
         sessionId,
         openWorkspaceDocument: document,
       });
@@ -123,10 +147,13 @@ class UISessionStateService {
   /**
    * Update UI context (filters, tabs, etc.)
    */
-  updateContext(sessionId: string, context: Partial<UIContext>): void {
-    const state = this.stateBySession.get(sessionId);
+  async updateContext(
+    sessionId: string,
+    context: Partial<UIContext>,
+  ): Promise<void> {
+    const state = await this.getUIStateBySession(sessionId);
     if (state) {
-      this.updateUIState(state.userId, {
+      await this.updateUIState(state.userId, {
         sessionId,
         uiContext: context,
       });
@@ -136,10 +163,13 @@ class UISessionStateService {
   /**
    * Update active assistant
    */
-  updateActiveAssistant(sessionId: string, assistantId: string): void {
-    const state = this.stateBySession.get(sessionId);
+  async updateActiveAssistant(
+    sessionId: string,
+    assistantId: string,
+  ): Promise<void> {
+    const state = await this.getUIStateBySession(sessionId);
     if (state) {
-      this.updateUIState(state.userId, {
+      await this.updateUIState(state.userId, {
         sessionId,
         assistantId,
       });
@@ -149,22 +179,23 @@ class UISessionStateService {
   /**
    * Clear UI state for a user (on disconnect)
    */
-  clearUIState(userId: string): void {
-    const state = this.stateByUser.get(userId);
+  async clearUIState(userId: string): Promise<void> {
+    const store = getSharedState();
+    const state = await this.getUIState(userId);
     if (state?.sessionId) {
-      this.stateBySession.delete(state.sessionId);
+      await store.delete(SESSION_NAMESPACE, state.sessionId);
     }
-    this.stateByUser.delete(userId);
+    await store.delete(USER_NAMESPACE, userId);
     this.listeners.delete(userId);
   }
 
   /**
    * Clear UI state by session ID
    */
-  clearUIStateBySession(sessionId: string): void {
-    const state = this.stateBySession.get(sessionId);
+  async clearUIStateBySession(sessionId: string): Promise<void> {
+    const state = await this.getUIStateBySession(sessionId);
     if (state) {
-      this.clearUIState(state.userId);
+      await this.clearUIState(state.userId);
     }
   }
 
@@ -172,6 +203,13 @@ class UISessionStateService {
    * Listen for state changes for a specific user
    */
   onStateChange(userId: string, callback: StateChangeCallback): () => void {
+    if (!this.unsubscribe) {
+      this.unsubscribe = getSharedState().subscribe(
+        STATE_CHANNEL,
+        (state: UISessionState) => this.notifyListeners(state.userId, state),
+      );
+    }
+
     if (!this.listeners.has(userId)) {
       this.listeners.set(userId, new Set());
     }
@@ -208,28 +246,30 @@ class UISessionStateService {
   /**
    * Get all active sessions
    */
-  getActiveSessions(): string[] {
-    return Array.from(this.stateBySession.keys());
+  async getActiveSessions(): Promise<string[]> {
+    const sessions = await getSharedState().entries<string>(SESSION_NAMESPACE);
+    return sessions.map(([sessionId]) => sessionId);
   }
 
   /**
    * Get all active users
    */
-  getActiveUsers(): string[] {
-    return Array.from(this.stateByUser.keys());
+  async getActiveUsers(): Promise<string[]> {
+    const users = await getSharedState().entries(USER_NAMESPACE);
+    return users.map(([userId]) => userId);
   }
 
   /**
    * Get statistics about tracked UI state
    */
-  getStats(): {
+  async getStats(): Promise<{
     activeUsers: number;
     activeSessions: number;
     listeners: number;
-  } {
+  }> {
     return {
-      activeUsers: this.stateByUser.size,
-      activeSessions: this.stateBySession.size,
+      activeUsers: (await this.getActiveUsers()).length,
+      activeSessions: (await this.getActiveSessions()).length,
       listeners: Array.from(this.listeners.values()).reduce(
         (sum, set) => sum + set.size,
         0,
@@ -240,9 +280,14 @@ class UISessionStateService {
   /**
    * Clear all state (for testing)
    */
-  clearAll(): void {
-    this.stateByUser.clear();
-    this.stateBySession.clear();
+  async clearAll(): Promise<void> {
+    const store = getSharedState();
+    for (const userId of await this.getActiveUsers()) {
+      await store.delete(USER_NAMESPACE, userId);
+    }
+    for (const sessionId of await this.getActiveSessions()) {
+      await store.delete(SESSION_NAMESPACE, sessionId);
+    }
     this.listeners.clear();
   }
 }
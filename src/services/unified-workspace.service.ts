@@ -8,10 +8,19 @@ import {
 } from './storage-providers/local-storage.provider';
 import { createS3Provider } from './storage-providers/s3-storage.provider';
 import { getVectorSearchService } from './vector-search.service';
+import { getSharedState, nodeId } from './shared-state/shared-state';
 import * as path from 'path';
 import * as fs from 'fs';
 import crypto from 'crypto';
 import mongoose from 'mongoose';
+import { NotFoundError } from '../utils/errors';
+import { createUnifiedDiff } from '../utils/text-diff';
+import { WorkspaceAccess } from '../models/WorkspaceAcl';
+import {
+  assertWorkspaceAccess,
+  createWorkspaceAccessChecker,
+  WorkspacePrincipal,
+} from './workspace-acl.service';
 
 /**
  * Unified Workspace Service - Complete Storage Solution
@@ -36,6 +45,39 @@ export interface WorkspaceOptions {
   cacheSize?: number;
   storageProvider?: StorageProvider;
   enableS3?: boolean;
+  versionRetention?: Partial<
+    Record<FileScopeType, Partial<VersionRetentionPolicy>>
+  >;
+}
+
+export interface VersionRetentionPolicy {
+  maxVersions: number;
+  maxAgeDays?: number; // The latest version is always kept
+}
+
+export interface WorkspaceVersionAuthor {
+  type: 'user' | 'assistant' | 'system';
+  id?: string;
+}
+
+export interface WorkspaceVersion {
+  version: number;
+  author: WorkspaceVersionAuthor;
+  createdAt: Date;
+  size: number;
+  contentType?: string;
+  restoredFrom?: number;
+}
+
+export interface WorkspaceVersionDiff {
+  path: string;
+  fromVersion: number;
+  toVersion: number;
+  changed: boolean;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  diff: string; // Unified diff, empty for binary content
 }
 
 export interface WorkspaceEntry {
@@ -68,6 +110,21 @@ export interface WorkspaceService {
   >;
   findByPattern: (pattern: RegExp) => Promise<string[]>;
   clear: (prefix?: string) => Promise<void>;
+
+  // Version history: every set() records a version
+  listVersions: (path: string) => Promise<WorkspaceVersion[]>;
+  getVersion: (path: string, version: number) => Promise<any>;
+  diffVersions: (
+    path: string,
+    fromVersion: number,
+    toVersion?: number,
+  ) => Promise<WorkspaceVersionDiff>;
+  restoreVersion: (
+    path: string,
+    version: number,
+    metadata?: any,
+  ) => Promise<WorkspaceVersion>;
+
   export: (prefix?: string) => Promise<Record<string, any>>;
   import: (data: Record<string, any>) => Promise<void>;
   getInfo: () => { entries: number; cacheSize: number; provider: string };
@@ -92,6 +149,75 @@ export interface WorkspaceService {
   deleteFile: (fileId: string) => Promise<boolean>;
 }
 
+// Version retention per scope, overridable with the
+// WORKSPACE_VERSION_RETENTION env var (JSON, e.g. {"session":{"maxVersions":5}})
+const DEFAULT_VERSION_RETENTION: Record<FileScopeType, VersionRetentionPolicy> =
+  {
+    session: { maxVersions: 10, maxAgeDays: 7 },
+    agent: { maxVersions: 50, maxAgeDays: 90 },
+    team: { maxVersions: 50, maxAgeDays: 90 },
+    company: { maxVersions: 100, maxAgeDays: 365 },
+  };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shared-state channel announcing changed entries: { namespace, key? }
+const WORKSPACE_CACHE_CHANNEL = 'workspace:cache-invalidate';
+
+interface VersionHistory {
+  versions: WorkspaceVersion[]; // Oldest first
+}
+
+const parseRetentionOverrides = (): WorkspaceOptions['versionRetention'] => {
+  try {
+    return JSON.parse(process.env.WORKSPACE_VERSION_RETENTION || '{}');
+  } catch {
+    logger.warn('Workspace: Invalid WORKSPACE_VERSION_RETENTION, ignoring');
+    return {};
+  }
+};
+
+/**
+ * Split a version history into versions to keep and versions past the
+ * retention policy
+ */
+const applyRetention = (
+  history: WorkspaceVersion[],
+  retention: VersionRetentionPolicy,
+): { kept: WorkspaceVersion[]; expired: WorkspaceVersion[] } => {
+  const cutoff = retention.maxAgeDays
+    ? Date.now() - retention.maxAgeDays * DAY_MS
+    : undefined;
+  const firstKept = Math.max(0, history.length - retention.maxVersions);
+  const kept: WorkspaceVersion[] = [];
+  const expired: WorkspaceVersion[] = [];
+
+  history.forEach((entry, index) => {
+    const isLatest = index === history.length - 1;
+    const isTooOld =
+      cutoff !== undefined && new Date(entry.createdAt).getTime() < cutoff;
+    if (isLatest || (index >= firstKept && !isTooOld)) {
+      kept.push(entry);
+    } else {
+      expired.push(entry);
+    }
+  });
+  return { kept, expired };
+};
+
+const resolveAuthor = (metadata: any): WorkspaceVersionAuthor => {
+  if (metadata.author?.type) {
+    return metadata.author;
+  }
+  if (metadata.userId) {
+    return { type: 'user', id: metadata.userId };
+  }
+  if (metadata.assistantId) {
+    return { type: 'assistant', id: metadata.assistantId };
+  }
+  return { type: 'system' };
+};
+
 /**
  * Create a unified workspace service with functional composition
  */
@@ -185,10 +311,60 @@ export const createWorkspaceService = (
     logger.info(`Workspace: Using JSON file storage at ${diskStorePath}`);
   }
 
+  // Entries of the unified workspace in MongoDB are chunked and embedded for
+  // vector search whenever they change
+  const namespace = options.namespace || 'workspace';
+  const vectorIndexed =
+    store instanceof KeyvMongo && namespace === 'unified-workspace';
+
+  const getVectorKey = (key: string): string => `${namespace}:${key}`;
+
+  // Version history lives in its own namespace, outside the key range that
+  // list() and the vector index scan. Keys: path -> VersionHistory and
+  // path@version -> stored document snapshot.
+  const versions = new Keyv({
+    store:
+      store instanceof KeyvMongo
+        ? new KeyvMongo(options.mongoUrl as string)
+        : new KeyvFile({
+            filename: path.join(
+              process.cwd(),
+              '.workspace-data',
+              `${namespace}-versions.json`,
+            ),
+          }),
+    namespace: `${namespace}-versions`,
+  });
+  const retentionOverrides = parseRetentionOverrides();
+
   // Memory cache for hot data
   const cache = new Map<string, { value: any; expiry?: number }>();
   const maxCacheSize = options.cacheSize || 1000;
 
+  // Other API instances drop their cached copy of entries changed here
+  const sharedState = getSharedState();
+  const invalidateElsewhere = (key?: string): void => {
+    if (!sharedState.distributed) return;
+    sharedState
+      .publish(WORKSPACE_CACHE_CHANNEL, { namespace, key })
+      .catch((error) =>
+        logger.warn('Workspace: Failed to publish cache invalidation', error),
+      );
+  };
+  if (sharedState.distributed) {
+    sharedState.subscribe(
+      WORKSPACE_CACHE_CHANNEL,
+      (message: { namespace: string; key?: string }, origin) => {
+        if (origin === nodeId || message.namespace !== namespace) return;
+        if (message.key) {
+          cache.delete(message.key);
+        } else {
+          cache.clear();
+        }
+      },
+    );
+  }
+
   // File storage provider
   let fileStorage: StorageProvider;
   if (options.storageProvider) {
@@ -265,6 +441,16 @@ export const createWorkspaceService = (
       const existingRef = await keyv.get(key);
       const isUpdate = !!existingRef;
 
+      // Continue numbering from the history so versions stay unique after
+      // an entry is deleted and re-created
+      const history: VersionHistory | undefined = await versions.get(key);
+      const version =
+        Math.max(
+          existingRef?.metadata?.version || 0,
+          history?.versions[history.versions.length - 1]?.version || 0,
+        ) + 1;
+      const author = resolveAuthor(metadata);
+
       let document;
 
       // Use external storage for large files (> 1MB)
@@ -290,7 +476,8 @@ export const createWorkspaceService = (
               metadata.contentType || detectContentType(sanitized, content),
             createdAt: isUpdate ? existingRef?.metadata?.createdAt : new Date(),
             updatedAt: new Date(),
-            version: isUpdate ? (existingRef?.metadata?.version || 0) + 1 : 1,
+            version,
+            author,
             isBuffer: Buffer.isBuffer(content),
           },
         };
@@ -320,7 +507,8 @@ export const createWorkspaceService = (
               metadata.contentType || detectContentType(sanitized, content),
             createdAt: isUpdate ? existingRef?.metadata?.createdAt : new Date(),
             updatedAt: new Date(),
-            version: isUpdate ? (existingRef?.metadata?.version || 0) + 1 : 1,
+            version,
+            author,
             isBuffer: Buffer.isBuffer(content),
           },
         };
@@ -355,12 +543,86 @@ export const createWorkspaceService = (
         expiry: metadata.ttl ? Date.now() + metadata.ttl * 1000 : undefined,
       });
       pruneCache();
+      invalidateElsewhere(key);
+
+      // History is best-effort: the write itself has already succeeded
+      try {
+        await recordVersion(key, sanitized, document, contentBuffer, history);
+      } catch (versionError) {
+        logger.error(
+          `Workspace: Failed to record version of ${sanitized}`,
+          versionError,
+        );
+      }
+
+      // Re-ingest for vector search (fire-and-forget)
+      if (vectorIndexed) {
+        const vectorKey = getVectorKey(key);
+        setImmediate(() => {
+          getVectorSearchService()
+            .embedDocument(vectorKey, metadata.companyId)
+            .catch((error) => {
+              logger.error('Async embedding failed', {
+                key: vectorKey,
+                error: error.message,
+              });
+            });
+        });
+      }
     } catch (error) {
       logger.error(`Workspace: Failed to set ${sanitized}`, error);
       throw error;
     }
   };
 
+  /**
+   * Content of a stored document, reading external storage if needed
+   */
+  const readDocument = async (
+    document: any,
+    sanitized: string,
+  ): Promise<any> => {
+    // Handle external storage (for large files > 1MB)
+    if (document.type === 'external' && document.path) {
+      logger.debug(
+        `Workspace: Retrieving large file from external storage: ${sanitized}`,
+      );
+      const buffer = await fileStorage.download(document.path);
+      return parseContent(buffer, sanitized, document.metadata?.contentType);
+    }
+
+    // Content is embedded directly in the document (for small files < 1MB)
+    // Check for undefined/null explicitly - empty string "" is valid content
+    if (
+      document.type === 'embedded' &&
+      document.content !== undefined &&
+      document.content !== null
+    ) {
+      // Handle base64 encoded buffers
+      if (
+        document.content.type === 'buffer' &&
+        document.content.encoding === 'base64'
+      ) {
+        const buffer = Buffer.from(document.content.data, 'base64');
+        // Parse based on content type
+        return parseContent(buffer, sanitized, document.metadata?.contentType);
+      }
+      // Return JSON/text content directly
+      return document.content;
+    }
+
+    // Fallback for old format (shouldn't happen with new storage)
+    if (document.type === 'file' && document.path) {
+      logger.warn(
+        `Legacy file reference found for ${sanitized}, attempting disk read`,
+      );
+      const buffer = await fileStorage.download(document.path);
+      return parseContent(buffer, sanitized, document.metadata?.contentType);
+    }
+
+    return undefined;
+  };
+
   const get = async (path: string): Promise<any> => {
     const sanitized = sanitizePath(path);
     const key = getCacheKey(sanitized);
@@ -388,49 +650,7 @@ export const createWorkspaceService = (
         return undefined;
       }
 
-      // Handle external storage (for large files > 1MB)
-      if (document.type === 'external' && document.path) {
-        logger.debug(
-          `Workspace: Retrieving large file from external storage: ${sanitized}`,
-        );
-        const buffer = await fileStorage.download(document.path);
-        return parseContent(buffer, sanitized, document.metadata?.contentType);
-      }
-
-      // Content is embedded directly in the document (for small files < 1MB)
-      // Check for undefined/null explicitly - empty string "" is valid content
-      if (
-        document.type === 'embedded' &&
-        document.content !== undefined &&
-        document.content !== null
-      ) {
-        // Handle base64 encoded buffers
-        if (
-          document.content.type === 'buffer' &&
-          document.content.encoding === 'base64'
-        ) {
-          const buffer = Buffer.from(document.content.data, 'base64');
-          // Parse based on content type
-          return parseContent(
-            buffer,
-            sanitized,
-            document.metadata?.contentType,
-          );
-        }
-        // Return JSON/text content directly
-        return document.content;
-      }
-
-      // Fallback for old format (shouldn't happen with new storage)
-      if (document.type === 'file' && document.path) {
-        logger.warn(
-          `Legacy file reference found for ${sanitized}, attempting disk read`,
-        );
-        const buffer = await fileStorage.download(document.path);
-        return parseContent(buffer, sanitized, document.metadata?.contentType);
-      }
-
-      return undefined;
+      return await readDocument(document, sanitized);
     } catch (error) {
       logger.error(`Workspace: Failed to get ${sanitized}`, error);
       throw error;
@@ -548,6 +768,11 @@ export const createWorkspaceService = (
 
       // Delete from cache
       cache.delete(key);
+      invalidateElsewhere(key);
+
+      if (vectorIndexed) {
+        await getVectorSearchService().removeDocument(getVectorKey(key));
+      }
 
       logger.debug(`Workspace: Deleted ${sanitized}`);
       return true;
@@ -557,6 +782,216 @@ export const createWorkspaceService = (
     }
   };
 
+  // Version history
+
+  const getVersionKey = (key: string, version: number): string =>
+    `${key}@${version}`;
+
+  const getRetention = (sanitized: string): VersionRetentionPolicy => {
+    const [first, second] = sanitized.split('/').filter(Boolean);
+    const pathScope = (first === 'files' ? second : first) as FileScopeType;
+    const scope =
+      pathScope in DEFAULT_VERSION_RETENTION ? pathScope : 'company';
+    return {
+      ...DEFAULT_VERSION_RETENTION[scope],
+      ...retentionOverrides?.[scope],
+      ...options.versionRetention?.[scope],
+    };
+  };
+
+  const deleteSnapshot = async (key: string, version: number) => {
+    const versionKey = getVersionKey(key, version);
+    const snapshot = await versions.get(versionKey);
+    if (snapshot?.type === 'external') {
+      await fileStorage.delete(snapshot.path).catch((error) => {
+        logger.warn(
+          `Workspace: Failed to delete version file ${snapshot.path}`,
+          error,
+        );
+      });
+    }
+    await versions.delete(versionKey);
+  };
+
+  /**
+   * Store a snapshot of a newly written document and apply the retention
+   * policy of its scope
+   */
+  const recordVersion = async (
+    key: string,
+    sanitized: string,
+    document: any,
+    contentBuffer: Buffer,
+    history: VersionHistory = { versions: [] },
+  ): Promise<void> => {
+    const { version, author, size, contentType, updatedAt, restoredFrom } =
+      document.metadata;
+    const retention = getRetention(sanitized);
+    const ttl = retention.maxAgeDays
+      ? retention.maxAgeDays * DAY_MS
+      : undefined;
+
+    // External files are overwritten in place, so snapshots get a copy
+    let snapshot = document;
+    if (document.type === 'external') {
+      const versionPath = `/.versions${sanitized}@${version}`;
+      await fileStorage.upload(versionPath, contentBuffer);
+      snapshot = { ...document, path: versionPath };
+    }
+    await versions.set(getVersionKey(key, version), snapshot, ttl);
+
+    const { kept, expired } = applyRetention(
+      [
+        ...history.versions,
+        {
+          version,
+          author,
+          createdAt: updatedAt,
+          size,
+          contentType,
+          restoredFrom,
+        },
+      ],
+      retention,
+    );
+    await versions.set(key, { versions: kept }, ttl);
+    await Promise.all(
+      expired.map((entry) => deleteSnapshot(key, entry.version)),
+    );
+  };
+
+  /**
+   * Versions of an entry, newest first. History outlives deletion of the
+   * entry until it expires, so deleted entries can be restored.
+   */
+  const listVersions = async (path: string): Promise<WorkspaceVersion[]> => {
+    const sanitized = sanitizePath(path);
+    const history: VersionHistory | undefined = await versions.get(
+      getCacheKey(sanitized),
+    );
+    if (!history) {
+      return [];
+    }
+    return applyRetention(
+      history.versions,
+      getRetention(sanitized),
+    ).kept.reverse();
+  };
+
+  const getVersion = async (path: string, version: number): Promise<any> => {
+    const sanitized = sanitizePath(path);
+    const snapshot = await versions.get(
+      getVersionKey(getCacheKey(sanitized), version),
+    );
+    return snapshot ? readDocument(snapshot, sanitized) : undefined;
+  };
+
+  /**
+   * Line diff between two versions; `toVersion` defaults to the latest
+   */
+  const diffVersions = async (
+    path: string,
+    fromVersion: number,
+    toVersion?: number,
+  ): Promise<WorkspaceVersionDiff> => {
+    const sanitized = sanitizePath(path);
+    const target = toVersion ?? (await listVersions(sanitized))[0]?.version;
+    const [before, after] = await Promise.all([
+      getVersion(sanitized, fromVersion),
+      target === undefined ? undefined : getVersion(sanitized, target),
+    ]);
+    if (before === undefined) {
+      throw new NotFoundError(`Version ${fromVersion} of ${sanitized}`);
+    }
+    if (after === undefined) {
+      throw new NotFoundError(`Version ${target ?? 'latest'} of ${sanitized}`);
+    }
+
+    const result = {
+      path: sanitized,
+      fromVersion,
+      toVersion: target as number,
+    };
+    const isBinary = (content: any) =>
+      Buffer.isBuffer(content) || content?.type === 'file';
+    if (isBinary(before) || isBinary(after)) {
+      const toBuffer = (content: any) =>
+        Buffer.isBuffer(content)
+          ? content
+          : Buffer.from(JSON.stringify(content));
+      return {
+        ...result,
+        changed: !toBuffer(before).equals(toBuffer(after)),
+        binary: true,
+        additions: 0,
+        deletions: 0,
+        diff: '',
+      };
+    }
+
+    const toText = (content: any): string =>
+      typeof content === 'string' ? content : JSON.stringify(content, null, 2);
+    const diff = createUnifiedDiff(toText(before), toText(after), {
+      fromLabel: `${sanitized}@${fromVersion}`,
+      toLabel: `${sanitized}@${target}`,
+    });
+    return {
+      ...result,
+      changed: diff.unified !== '',
+      binary: false,
+      additions: diff.additions,
+      deletions: diff.deletions,
+      diff: diff.unified,
+    };
+  };
+
+  /**
+   * Write an old version back as a new version, so restoring never
+   * discards history
+   */
+  const restoreVersion = async (
+    path: string,
+    version: number,
+    metadata: any = {},
+  ): Promise<WorkspaceVersion> => {
+    const sanitized = sanitizePath(path);
+    const snapshot = await versions.get(
+      getVersionKey(getCacheKey(sanitized), version),
+    );
+    if (!snapshot) {
+      throw new NotFoundError(`Version ${version} of ${sanitized}`);
+    }
+
+    // Restore the original bytes for binary content rather than the
+    // parsed form returned by get()
+    let content;
+    if (snapshot.metadata?.isBuffer && snapshot.type === 'external') {
+      content = await fileStorage.download(snapshot.path);
+    } else if (snapshot.content?.type === 'buffer') {
+      content = Buffer.from(snapshot.content.data, 'base64');
+    } else {
+      content = await readDocument(snapshot, sanitized);
+    }
+
+    const {
+      version: _version,
+      author: _author,
+      restoredFrom: _restoredFrom,
+      size: _size,
+      isBuffer: _isBuffer,
+      updatedAt: _updatedAt,
+      ...snapshotMetadata
+    } = snapshot.metadata || {};
+    await set(sanitized, content, {
+      ...snapshotMetadata,
+      ...metadata,
+      restoredFrom: version,
+    });
+
+    const [restored] = await listVersions(sanitized);
+    return restored;
+  };
+
   const findByPattern = async (pattern: RegExp): Promise<string[]> => {
     try {
       const namespace = options.namespace || 'workspace';
@@ -827,9 +1262,11 @@ export const createWorkspaceService = (
         const keys = await list(prefix);
         await Promise.all(keys.map((key) => deleteItem(key)));
       } else {
-        // Clear everything
+        // Clear everything, including version history
         await keyv.clear();
+        await versions.clear();
         cache.clear();
+        invalidateElsewhere();
       }
 
       logger.info(`Workspace: Cleared ${prefix || 'all'}`);
@@ -1059,6 +1496,10 @@ export const createWorkspaceService = (
     listWithMetadata,
     findByPattern,
     clear,
+    listVersions,
+    getVersion,
+    diffVersions,
+    restoreVersion,
     export: exportData,
     import: importData,
     getInfo,
@@ -1128,6 +1569,8 @@ export class UnifiedWorkspaceService {
         messageId?: string;
         timestamp?: Date;
       };
+      author?: WorkspaceVersionAuthor;
+      principal?: WorkspacePrincipal;
     } = { scope: 'session' },
   ): Promise<{ version: number }> {
     const scopePath = this.buildScopePath(
@@ -1137,6 +1580,7 @@ export class UnifiedWorkspaceService {
       options.agentId,
       options.companyId,
     );
+    await this.authorize(options.principal, scopePath, 'write');
 
     // Get existing metadata to track version and preserve creation context
     let version = 1;
@@ -1158,29 +1602,94 @@ export class UnifiedWorkspaceService {
       scope: options.scope,
       sessionId,
       agentId: options.agentId,
+      companyId: options.companyId,
+      author: options.author,
       // Only set creation context on first create (version 1)
       creationContext:
         version === 1 ? options.creationContext : existingCreationContext,
     });
 
-    // Trigger async embedding (fire-and-forget)
-    // Pass companyId to avoid expensive database lookups in embedDocument
-    const companyId = options.companyId;
-    setImmediate(() => {
-      const vectorSearch = getVectorSearchService();
-      // Build full MongoDB key format: unified-workspace:/agent/id/path
-      const namespace = 'unified-workspace';
-      const fullKey = `${namespace}:/${scopePath}`;
-      vectorSearch.embedDocument(fullKey, companyId).catch((error) => {
-        logger.error('Async embedding failed', {
-          fullKey,
-          companyId,
-          error: error.message,
-        });
-      });
-    });
+    const [latest] = await this.workspace.listVersions(scopePath);
+    return { version: latest?.version ?? version };
+  }
+
+  /**
+   * List the versions of an entry, newest first
+   */
+  async listVersions(
+    sessionId: string,
+    path: string,
+    options: {
+      scope: string;
+      agentId?: string;
+      companyId?: string;
+      principal?: WorkspacePrincipal;
+    },
+  ): Promise<WorkspaceVersion[]> {
+    const scopePath = this.buildScopePath(
+      options.scope,
+      sessionId,
+      path,
+      options.agentId,
+      options.companyId,
+    );
+    await this.authorize(options.principal, scopePath, 'read');
+    return this.workspace.listVersions(scopePath);
+  }
 
-    return { version };
+  /**
+   * Diff two versions of an entry (toVersion defaults to the latest)
+   */
+  async diffVersions(
+    sessionId: string,
+    path: string,
+    fromVersion: number,
+    toVersion: number | undefined,
+    options: {
+      scope: string;
+      agentId?: string;
+      companyId?: string;
+      principal?: WorkspacePrincipal;
+    },
+  ): Promise<WorkspaceVersionDiff> {
+    const scopePath = this.buildScopePath(
+      options.scope,
+      sessionId,
+      path,
+      options.agentId,
+      options.companyId,
+    );
+    await this.authorize(options.principal, scopePath, 'read');
+    return this.workspace.diffVersions(scopePath, fromVersion, toVersion);
+  }
+
+  /**
+   * Restore a version of an entry as its new latest version
+   */
+  async restoreVersion(
+    sessionId: string,
+    path: string,
+    version: number,
+    options: {
+      scope: string;
+      agentId?: string;
+      companyId?: string;
+      author?: WorkspaceVersionAuthor;
+      principal?: WorkspacePrincipal;
+    },
+  ): Promise<WorkspaceVersion> {
+    const scopePath = this.buildScopePath(
+      options.scope,
+      sessionId,
+      path,
+      options.agentId,
+      options.companyId,
+    );
+    await this.authorize(options.principal, scopePath, 'write');
+    return this.workspace.restoreVersion(scopePath, version, {
+      companyId: options.companyId,
+      author: options.author,
+    });
   }
 
   /**
@@ -1190,7 +1699,11 @@ export class UnifiedWorkspaceService {
     sessionId: string,
     path: string,
     agentId?: string,
-    options?: { scope?: string; companyId?: string },
+    options?: {
+      scope?: string;
+      companyId?: string;
+      principal?: WorkspacePrincipal;
+    },
   ): Promise<{ found: boolean; content?: any; metadata?: any }> {
     // If explicit scope is provided, use it directly
     if (options?.scope) {
@@ -1201,6 +1714,7 @@ export class UnifiedWorkspaceService {
         agentId,
         options.companyId,
       );
+      await this.authorize(options.principal, scopePath, 'read');
       try {
         const result = await this.workspace.get(scopePath);
         if (result !== undefined && result !== null) {
@@ -1223,6 +1737,7 @@ export class UnifiedWorkspaceService {
     // Legacy behavior: Try agent scope first if agentId provided
     if (agentId) {
       const agentPath = this.buildScopePath('agent', sessionId, path, agentId);
+      await this.authorize(options?.principal, agentPath, 'read');
       try {
         const result = await this.workspace.get(agentPath);
         if (result !== undefined && result !== null) {
@@ -1244,6 +1759,7 @@ export class UnifiedWorkspaceService {
       path,
       undefined,
     );
+    await this.authorize(options?.principal, sessionPath, 'read');
     try {
       const result = await this.workspace.get(sessionPath);
       if (result !== undefined && result !== null) {
@@ -1267,7 +1783,11 @@ export class UnifiedWorkspaceService {
     sessionId: string,
     prefix?: string,
     agentId?: string,
-    options?: { scope?: string; companyId?: string },
+    options?: {
+      scope?: string;
+      companyId?: string;
+      principal?: WorkspacePrincipal;
+    },
   ): Promise<{ paths: string[]; count: number }> {
     // Determine scope: explicit > agentId inference > session default
     const scope = options?.scope || (agentId ? 'agent' : 'session');
@@ -1280,7 +1800,11 @@ export class UnifiedWorkspaceService {
     );
     const fullPrefix = prefix ? `${basePath}${prefix}` : basePath;
 
-    const paths = await this.workspace.list(fullPrefix);
+    let paths = await this.workspace.list(fullPrefix);
+    if (options?.principal) {
+      const checker = await createWorkspaceAccessChecker(options.principal);
+      paths = checker.filter(paths, 'read');
+    }
 
     // Strip the base path from results for cleaner output
     const cleanPaths = paths.map((p) => p.replace(basePath, ''));
@@ -1295,7 +1819,11 @@ export class UnifiedWorkspaceService {
     sessionId: string,
     path: string,
     agentId?: string,
-    options?: { scope?: string; companyId?: string },
+    options?: {
+      scope?: string;
+      companyId?: string;
+      principal?: WorkspacePrincipal;
+    },
   ): Promise<{ deleted: boolean }> {
     // Determine scope: explicit > agentId inference > session default
     const scope = options?.scope || (agentId ? 'agent' : 'session');
@@ -1306,11 +1834,25 @@ export class UnifiedWorkspaceService {
       agentId,
       options?.companyId,
     );
+    await this.authorize(options?.principal, fullPath, 'delete');
 
     const deleted = await this.workspace.delete(fullPath);
     return { deleted };
   }
 
+  /**
+   * Enforce workspace ACLs for callers that identify themselves
+   */
+  private async authorize(
+    principal: WorkspacePrincipal | undefined,
+    scopePath: string,
+    access: WorkspaceAccess,
+  ): Promise<void> {
+    if (principal) {
+      await assertWorkspaceAccess(principal, scopePath, access);
+    }
+  }
+
   /**
    * Build a scoped path
    */
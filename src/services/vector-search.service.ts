@@ -2,8 +2,21 @@ import OpenAI from 'openai';
 import mongoose from 'mongoose';
 import { logger } from '../utils/logger';
 import pLimit from 'p-limit';
-import { getApiKey } from './api.key.service';
 import crypto from 'crypto';
+import { getApiKey } from './api.key.service';
+import { chunkText, TextChunk } from '../utils/text-chunker';
+import { reciprocalRankFusion } from '../utils/search-ranking';
+import {
+  detectDocumentFormat,
+  extractDocument,
+} from './document-extraction/document-extractor';
+import {
+  createVectorStore,
+  VectorFilter,
+  VectorMatch,
+  VectorStore,
+} from './vector-stores/vector-store';
+import { createEmbedder, Embedder } from './embedders/embedder';
 
 // Rate limiter: 100 requests per minute (OpenAI tier 2 limit)
 const embeddingLimiter = pLimit(100);
@@ -39,6 +52,33 @@ export interface MultiScopeSearchOptions {
   userId?: string; // Required for team filtering
 }
 
+export interface HybridSearchOptions {
+  companyId: string;
+  userId?: string; // Required for team scope
+  scopes?: Array<'company' | 'team' | 'agent' | 'session'>; // Default: whole company
+  agentIds?: string[] | 'all'; // Default: all agents
+  teamIds?: string[] | 'all'; // Default: all of the user's teams
+  sessionId?: string; // Required for session scope
+  contentTypes?: string[];
+  tags?: string[]; // Documents must carry all of these
+  createdAfter?: Date;
+  createdBefore?: Date;
+  limit?: number;
+  minScore?: number; // Vector similarity threshold (keyword matches are not thresholded)
+  rerank?: boolean;
+}
+
+export interface VectorSearchChunk {
+  index: number;
+  snippet: string;
+  start: number; // Character offsets into the document text
+  end: number;
+  heading?: string;
+  score: number;
+  vectorScore?: number; // Hybrid search only
+  keywordScore?: number; // Hybrid search only
+}
+
 export interface VectorSearchResult {
   path: string;
   score: number;
@@ -48,12 +88,27 @@ export interface VectorSearchResult {
     contentType: string;
     size: number;
     createdAt: Date;
+    tags?: string[];
   };
+  chunks: VectorSearchChunk[]; // Best-matching chunks, highest score first
+  rerankScore?: number;
 }
 
-class VectorSearchService {
-  private readonly EMBEDDING_MODEL = 'text-embedding-3-small';
+type RankedChunk = VectorMatch & {
+  vectorScore?: number;
+  keywordScore?: number;
+};
+
+export class VectorSearchService {
   private readonly MAX_TEXT_LENGTH = 8000; // OpenAI limit
+  private readonly MAX_CHUNKS_PER_DOCUMENT = 500;
+  private readonly MAX_CHUNKS_PER_RESULT = 3;
+  private readonly RERANK_MODEL = 'gpt-4o-mini';
+  private readonly RERANK_CANDIDATES = 20;
+  private readonly RERANK_SNIPPET_LENGTH = 1000;
+
+  // Ingestion per document key, so an older run never replaces newer chunks
+  private pendingIngestions = new Map<string, Promise<void>>();
 
   // Embedding cache (1-hour TTL)
   private embeddingCache = new Map<string, CachedEmbedding>();
@@ -69,69 +124,17 @@ class VectorSearchService {
   private readonly CIRCUIT_BREAKER_TIMEOUT = 60000; // 1 minute cooldown
   private readonly CIRCUIT_BREAKER_HALF_OPEN_TIMEOUT = 30000; // 30s in half-open
 
-  /**
-   * Get OpenAI client for a specific company
-   */
-  private async getOpenAIClient(companyId: string): Promise<OpenAI> {
-    const apiKey = await getApiKey(companyId, 'openai_api_key');
-
-    if (!apiKey) {
-      throw new Error('OpenAI API key not configured for this company');
-    }
-
-    return new OpenAI({ apiKey });
-  }
+  constructor(
+    private readonly store: VectorStore = createVectorStore(),
+    private readonly embedder: Embedder = createEmbedder(),
+  ) {}
 
   /**
-   * Ensure vector search index exists in MongoDB Atlas
+   * Ensure the vector store's search index exists
    * Safe to call multiple times (idempotent)
    */
   async ensureVectorIndex(): Promise<void> {
-    try {
-      const collection = mongoose.connection.db.collection('keyv');
-
-      // Check if index already exists
-      const indexes = await collection.listSearchIndexes().toArray();
-      const existingIndex = indexes.find(
-        (idx: any) => idx.name === 'workspace_vector_index',
-      );
-
-      if (existingIndex) {
-        logger.info('Vector search index already exists');
-        return;
-      }
-
-      logger.info('Creating vector search index...');
-
-      // Create vector search index
-      const indexDefinition = {
-        name: 'workspace_vector_index',
-        definition: {
-          mappings: {
-            dynamic: false,
-            fields: {
-              embedding: {
-                type: 'knnVector',
-                dimensions: 1536,
-                similarity: 'cosine',
-              },
-            },
-          },
-        },
-      };
-
-      await collection.createSearchIndex(indexDefinition);
-
-      logger.info(
-        'Vector search index created successfully. Note: It may take a few minutes to build in Atlas.',
-      );
-    } catch (error: any) {
-      // Don't fail if we can't create the index - it might already exist or require manual setup
-      logger.warn('Could not ensure vector search index', {
-        error: error.message,
-        note: 'You may need to create the index manually in MongoDB Atlas',
-      });
-    }
+    await this.store.ensureIndex?.(this.embedder.dimensions);
   }
 
   /**
@@ -151,7 +154,7 @@ class VectorSearchService {
         this.circuitBreaker.failures = 0;
       } else {
         throw new Error(
-          'Circuit breaker is open - OpenAI API temporarily unavailable',
+          'Circuit breaker is open - embedding provider temporarily unavailable',
         );
       }
     }
@@ -189,7 +192,7 @@ class VectorSearchService {
   private getCacheKey(text: string): string {
     return crypto
       .createHash('sha256')
-      .update(`${text}:${this.EMBEDDING_MODEL}`)
+      .update(`${text}:${this.embedder.model}`)
       .digest('hex');
   }
 
@@ -198,46 +201,60 @@ class VectorSearchService {
    * With caching and circuit breaker
    */
   async generateEmbedding(text: string, companyId: string): Promise<number[]> {
-    const truncated = text.slice(0, this.MAX_TEXT_LENGTH);
+    const [embedding] = await this.generateEmbeddings([text], companyId);
+    return embedding;
+  }
 
-    // Check cache first
-    const cacheKey = this.getCacheKey(truncated);
-    const cached = this.embeddingCache.get(cacheKey);
+  /**
+   * Generate embeddings for several texts, embedding the uncached ones in
+   * one embedder call
+   */
+  async generateEmbeddings(
+    texts: string[],
+    companyId: string,
+  ): Promise<number[][]> {
+    const truncated = texts.map((text) => text.slice(0, this.MAX_TEXT_LENGTH));
+    const embeddings: Array<number[] | undefined> = truncated.map((text) => {
+      const cached = this.embeddingCache.get(this.getCacheKey(text));
+      return cached && Date.now() - cached.timestamp < this.CACHE_TTL
+        ? cached.embedding
+        : undefined;
+    });
 
-    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-      logger.debug('Embedding cache hit', {
-        cacheKey: cacheKey.substring(0, 8),
-      });
-      return cached.embedding;
+    const missing = embeddings.flatMap((embedding, index) =>
+      embedding ? [] : [index],
+    );
+    if (missing.length === 0) {
+      logger.debug('Embedding cache hit', { count: texts.length });
+      return embeddings as number[][];
     }
 
     // Check circuit breaker
     this.checkCircuitBreaker();
 
     try {
-      const openai = await this.getOpenAIClient(companyId);
-
-      const response = await openai.embeddings.create({
-        model: this.EMBEDDING_MODEL,
-        input: truncated,
-        encoding_format: 'float',
-      });
+      const generated = await this.embedder.embed(
+        missing.map((index) => truncated[index]),
+        companyId,
+      );
 
-      const embedding = response.data[0].embedding;
+      missing.forEach((index, i) => {
+        embeddings[index] = generated[i];
 
-      // Cache the result
-      this.embeddingCache.set(cacheKey, {
-        embedding,
-        timestamp: Date.now(),
+        // Cache the result
+        this.embeddingCache.set(this.getCacheKey(truncated[index]), {
+          embedding: generated[i],
+          timestamp: Date.now(),
+        });
       });
 
-      // Clean up old cache entries periodically (every 100 embeddings)
+      // Clean up old cache entries once the cache grows large
       if (this.embeddingCache.size > 1000) {
         this.cleanupCache();
       }
 
       this.recordSuccess();
-      return embedding;
+      return embeddings as number[][];
     } catch (error: any) {
       this.recordFailure();
       logger.error('Embedding generation failed', {
@@ -271,7 +288,7 @@ class VectorSearchService {
   }
 
   /**
-   * Vector search using MongoDB aggregation
+   * Vector search over workspace chunks
    */
   async search(
     query: string,
@@ -282,72 +299,12 @@ class VectorSearchService {
     // Generate query embedding using company-specific API key
     const queryEmbedding = await this.generateEmbedding(query, companyId);
 
-    // Build aggregation pipeline
-    const pipeline: any[] = [
-      {
-        $vectorSearch: {
-          index: 'workspace_vector_index',
-          path: 'embedding',
-          queryVector: queryEmbedding,
-          numCandidates: limit * 10,
-          limit: limit * 2,
-          // Note: Atlas Search filter doesn't support $regex, so we filter in $match stage
-        },
-      },
-      {
-        $addFields: {
-          score: { $meta: 'vectorSearchScore' },
-        },
-      },
-      {
-        $match: {
-          score: { $gte: minScore },
-          // Filter by scope if provided
-          ...(scope &&
-            scopeId && {
-              key: {
-                $regex: new RegExp(`^unified-workspace:/${scope}/${scopeId}/`),
-              },
-            }),
-          // Exclude expired documents
-          $or: [
-            { expiresAt: { $exists: false } },
-            { expiresAt: null },
-            { expiresAt: { $gt: new Date() } },
-          ],
-        },
-      },
-      { $limit: limit },
-      {
-        $project: {
-          key: 1,
-          score: 1,
-          value: 1,
-        },
-      },
-    ];
-
-    const results = await mongoose.connection.db
-      .collection('keyv')
-      .aggregate(pipeline)
-      .toArray();
-
-    return results.map((doc) => {
-      // Deserialize the value
-      const value =
-        typeof doc.value === 'string' ? JSON.parse(doc.value) : doc.value;
-
-      return {
-        path: this.stripScopePrefix(doc.key),
-        score: doc.score,
-        scope: this.extractScope(doc.key),
-        scopeId: this.extractScopeId(doc.key),
-        metadata: {
-          contentType: value.value.metadata.contentType,
-          size: value.value.metadata.size,
-          createdAt: value.value.metadata.createdAt,
-        },
-      };
+    return this.findSimilarChunks(queryEmbedding, {
+      scope,
+      scopeId,
+      limit,
+      minScore,
+      companyId,
     });
   }
 
@@ -382,6 +339,7 @@ class VectorSearchService {
           scopeId: companyId,
           limit: limit * 2, // Request more to account for deduplication
           minScore,
+          companyId,
         }),
       );
     }
@@ -396,6 +354,7 @@ class VectorSearchService {
             scopeId: agentId,
             limit: limit * 2,
             minScore,
+            companyId,
           }),
         );
       }
@@ -415,6 +374,7 @@ class VectorSearchService {
             scopeId: teamId,
             limit: limit * 2,
             minScore,
+            companyId,
           }),
         );
       }
@@ -450,80 +410,314 @@ class VectorSearchService {
       scopeId: string;
       limit: number;
       minScore: number;
+      companyId: string;
     },
   ): Promise<VectorSearchResult[]> {
-    const { scope, scopeId, limit, minScore } = options;
-
-    const pipeline: any[] = [
-      {
-        $vectorSearch: {
-          index: 'workspace_vector_index',
-          path: 'embedding',
-          queryVector: queryEmbedding,
-          numCandidates: limit * 10,
-          limit: limit * 2,
-        },
-      },
-      {
-        $addFields: {
-          score: { $meta: 'vectorSearchScore' },
-        },
-      },
-      {
-        $match: {
-          score: { $gte: minScore },
-          key: {
-            $regex: new RegExp(`^unified-workspace:/${scope}/${scopeId}/`),
-          },
-          $or: [
-            { expiresAt: { $exists: false } },
-            { expiresAt: null },
-            { expiresAt: { $gt: new Date() } },
-          ],
-        },
-      },
-      { $limit: limit },
-      {
-        $project: {
-          key: 1,
-          score: 1,
-          value: 1,
-        },
-      },
-    ];
-
     try {
-      const results = await mongoose.connection.db
-        .collection('keyv')
-        .aggregate(pipeline)
-        .toArray();
+      return await this.findSimilarChunks(queryEmbedding, options);
+    } catch (error: any) {
+      logger.error('Vector search failed for scope', {
+        scope: options.scope,
+        scopeId: options.scopeId,
+        error: error.message,
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Search chunk embeddings and group the matches by document. Documents
+   * are ranked by their best chunk.
+   */
+  private async findSimilarChunks(
+    queryEmbedding: number[],
+    options: {
+      scope?: string;
+      scopeId?: string;
+      limit: number;
+      minScore: number;
+      companyId: string;
+    },
+  ): Promise<VectorSearchResult[]> {
+    const { scope, scopeId, limit, minScore, companyId } = options;
 
-      return results.map((doc) => {
-        const value =
-          typeof doc.value === 'string' ? JSON.parse(doc.value) : doc.value;
+    const chunks = await this.store.query({
+      embedding: queryEmbedding,
+      companyId,
+      // Filter by scope if provided
+      filter:
+        scope && scopeId
+          ? { keyPrefixes: [this.getScopeKeyPrefix(scope, scopeId)] }
+          : undefined,
+      limit: limit * this.MAX_CHUNKS_PER_RESULT,
+      minScore,
+    });
 
-        return {
-          path: this.stripScopePrefix(doc.key),
-          score: doc.score,
-          scope: this.extractScope(doc.key),
-          scopeId: this.extractScopeId(doc.key),
-          metadata: {
-            contentType: value.value.metadata.contentType,
-            size: value.value.metadata.size,
-            createdAt: value.value.metadata.createdAt,
+    return this.groupByDocument(chunks, limit);
+  }
+
+  /**
+   * Hybrid search: keyword (full-text) and vector matches over workspace
+   * chunks fused with reciprocal-rank fusion, so exact identifiers such as
+   * ticket keys are found alongside semantic matches. Optionally reranked
+   * by an LLM.
+   */
+  async hybridSearch(
+    query: string,
+    options: HybridSearchOptions,
+  ): Promise<VectorSearchResult[]> {
+    const { companyId, limit = 10, minScore = 0.5, rerank = false } = options;
+
+    const keyPrefixes = await this.resolveKeyPrefixes(options);
+    if (keyPrefixes?.length === 0) {
+      return [];
+    }
+
+    const filter: VectorFilter = {
+      keyPrefixes,
+      contentTypes: options.contentTypes,
+      tags: options.tags,
+      createdAfter: options.createdAfter,
+      createdBefore: options.createdBefore,
+    };
+    const candidates = limit * this.MAX_CHUNKS_PER_RESULT * 2;
+
+    // Keyword results still count when embeddings are unavailable
+    const vectorSearch = this.generateEmbedding(query, companyId).then(
+      (embedding) =>
+        this.store.query({
+          embedding,
+          companyId,
+          filter,
+          limit: candidates,
+          minScore,
+        }),
+    );
+    const [vectorMatches, keywordMatches] = await Promise.all([
+      vectorSearch.catch((error: any) => {
+        logger.warn('Hybrid search: vector search failed, using keywords', {
+          error: error.message,
+        });
+        return [] as VectorMatch[];
+      }),
+      this.store.keywordSearch({
+        text: query,
+        companyId,
+        filter,
+        limit: candidates,
+      }),
+    ]);
+
+    const chunkId = (chunk: VectorMatch) => `${chunk.key}#${chunk.chunkIndex}`;
+    const chunks = new Map<string, RankedChunk>();
+    for (const chunk of vectorMatches) {
+      chunks.set(chunkId(chunk), { ...chunk, vectorScore: chunk.score });
+    }
+    for (const chunk of keywordMatches) {
+      const id = chunkId(chunk);
+      chunks.set(id, {
+        ...(chunks.get(id) ?? chunk),
+        keywordScore: chunk.score,
+      });
+    }
+
+    const fused = reciprocalRankFusion([
+      vectorMatches.map(chunkId),
+      keywordMatches.map(chunkId),
+    ]);
+    const ranked = Array.from(fused, ([id, score]) => ({
+      ...chunks.get(id)!,
+      score,
+    }));
+
+    const results = this.groupByDocument(
+      ranked,
+      rerank ? Math.max(limit, this.RERANK_CANDIDATES) : limit,
+    );
+
+    logger.info('Hybrid search completed', {
+      query,
+      vectorMatches: vectorMatches.length,
+      keywordMatches: keywordMatches.length,
+      results: results.length,
+    });
+
+    if (!rerank) {
+      return results;
+    }
+    return (await this.rerankResults(query, results, companyId)).slice(
+      0,
+      limit,
+    );
+  }
+
+  /**
+   * Key prefixes for the requested scopes, or undefined to search the whole
+   * company
+   */
+  private async resolveKeyPrefixes(
+    options: HybridSearchOptions,
+  ): Promise<string[] | undefined> {
+    const { scopes, companyId, userId } = options;
+    if (!scopes) {
+      return undefined;
+    }
+
+    const prefixes: string[] = [];
+
+    if (scopes.includes('company')) {
+      prefixes.push(this.getScopeKeyPrefix('company', companyId));
+    }
+
+    if (scopes.includes('agent')) {
+      // Chunks are already limited to the company, so "all" needs no lookup
+      if (!options.agentIds || options.agentIds === 'all') {
+        prefixes.push('unified-workspace:/agent/');
+      } else {
+        for (const agentId of options.agentIds) {
+          prefixes.push(this.getScopeKeyPrefix('agent', agentId));
+        }
+      }
+    }
+
+    if (scopes.includes('team') && userId) {
+      const teamIds = await this.resolveTeamIds(
+        options.teamIds ?? 'all',
+        companyId,
+        userId,
+      );
+      for (const teamId of teamIds) {
+        prefixes.push(this.getScopeKeyPrefix('team', teamId));
+      }
+    }
+
+    if (scopes.includes('session') && options.sessionId) {
+      prefixes.push(this.getScopeKeyPrefix('session', options.sessionId));
+    }
+
+    return prefixes;
+  }
+
+  /**
+   * Reorder the top results by LLM-judged relevance. Falls back to the
+   * original order if reranking fails.
+   */
+  private async rerankResults(
+    query: string,
+    results: VectorSearchResult[],
+    companyId: string,
+  ): Promise<VectorSearchResult[]> {
+    const candidates = results.slice(0, this.RERANK_CANDIDATES);
+    if (candidates.length < 2) {
+      return results;
+    }
+
+    try {
+      const apiKey = await getApiKey(companyId, 'openai_api_key');
+      if (!apiKey) {
+        throw new Error('OpenAI API key not configured for this company');
+      }
+      const openai = new OpenAI({ apiKey });
+
+      const passages = candidates
+        .map(
+          (result, i) =>
+            `[${i}] ${result.path}\n${(result.chunks[0]?.snippet ?? '').slice(0, this.RERANK_SNIPPET_LENGTH)}`,
+        )
+        .join('\n\n');
+
+      const response = await openai.chat.completions.create({
+        model: this.RERANK_MODEL,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You rate how relevant passages are to a search query. Respond with JSON {"scores": [number, ...]} containing one score from 0 (irrelevant) to 1 (exactly what was asked for) per passage, in passage order.',
           },
-        };
+          {
+            role: 'user',
+            content: `Query: ${query}\n\nPassages:\n${passages}`,
+          },
+        ],
+      });
+
+      const { scores } = JSON.parse(
+        response.choices[0]?.message?.content || '{}',
+      );
+      if (!Array.isArray(scores)) {
+        throw new Error('Reranker returned no scores');
+      }
+
+      candidates.forEach((result, i) => {
+        result.rerankScore = Number(scores[i]) || 0;
       });
+      // Stable sort keeps fused order between equal scores
+      const reranked = [...candidates].sort(
+        (a, b) => (b.rerankScore ?? 0) - (a.rerankScore ?? 0),
+      );
+      return [...reranked, ...results.slice(candidates.length)];
     } catch (error: any) {
-      logger.error('Vector search failed for scope', {
-        scope,
-        scopeId,
+      logger.warn('Hybrid search: rerank failed, keeping fused order', {
         error: error.message,
       });
-      return [];
+      return results;
     }
   }
 
+  /**
+   * Group ranked chunks by document. Chunks arrive best first, so the first
+   * chunk of a document sets its score.
+   */
+  private groupByDocument(
+    chunks: RankedChunk[],
+    limit: number,
+  ): VectorSearchResult[] {
+    const results = new Map<string, VectorSearchResult>();
+    for (const chunk of chunks) {
+      let result = results.get(chunk.key);
+      if (!result) {
+        result = {
+          path: this.stripScopePrefix(chunk.key),
+          score: chunk.score,
+          scope: this.extractScope(chunk.key),
+          scopeId: this.extractScopeId(chunk.key),
+          metadata: {
+            contentType: chunk.contentType,
+            size: chunk.size,
+            createdAt: chunk.sourceCreatedAt,
+            ...(chunk.tags?.length && { tags: chunk.tags }),
+          },
+          chunks: [],
+        };
+        results.set(chunk.key, result);
+      }
+      if (result.chunks.length < this.MAX_CHUNKS_PER_RESULT) {
+        result.chunks.push({
+          index: chunk.chunkIndex,
+          snippet: chunk.text,
+          start: chunk.start,
+          end: chunk.end,
+          ...(chunk.heading && { heading: chunk.heading }),
+          score: chunk.score,
+          ...(chunk.vectorScore !== undefined && {
+            vectorScore: chunk.vectorScore,
+          }),
+          ...(chunk.keywordScore !== undefined && {
+            keywordScore: chunk.keywordScore,
+          }),
+        });
+      }
+    }
+
+    return Array.from(results.values()).slice(0, limit);
+  }
+
+  private getScopeKeyPrefix(scope: string, scopeId: string): string {
+    return `unified-workspace:/${scope}/${scopeId}/`;
+  }
+
   /**
    * Deduplicate results by path, keeping highest score
    */
@@ -604,176 +798,266 @@ class VectorSearchService {
   }
 
   /**
-   * Embed a document (async, rate-limited)
+   * Split a document into chunks and embed each one (async, rate-limited).
+   * Re-embedding a document replaces its previous chunks.
    */
   async embedDocument(key: string, companyId?: string): Promise<void> {
-    return embeddingLimiter(async () => {
-      try {
-        logger.debug('Starting embedDocument', {
-          key,
-          companyIdProvided: !!companyId,
-        });
+    const previous = this.pendingIngestions.get(key) ?? Promise.resolve();
+    const ingestion = previous.then(() =>
+      embeddingLimiter(() => this.ingestDocument(key, companyId)),
+    );
+    this.pendingIngestions.set(key, ingestion);
 
-        const doc = await mongoose.connection.db
-          .collection('keyv')
-          .findOne({ key });
+    try {
+      await ingestion;
+    } finally {
+      if (this.pendingIngestions.get(key) === ingestion) {
+        this.pendingIngestions.delete(key);
+      }
+    }
+  }
 
-        if (!doc?.value) {
-          logger.debug('No document found for embedding', { key });
-          return;
-        }
+  /**
+   * Remove a document's chunks from the vector index
+   */
+  async removeDocument(key: string): Promise<void> {
+    await this.store.remove(key);
+  }
+
+  /**
+   * Chunk and embed a document's text, replacing any chunks stored for its
+   * key. Returns the number of chunks stored.
+   */
+  async indexText(
+    key: string,
+    text: string,
+    companyId: string,
+    metadata: {
+      contentType?: string;
+      size?: number;
+      tags?: string[];
+      createdAt?: Date | string;
+      expiresAt?: Date;
+    } = {},
+  ): Promise<number> {
+    const chunks = chunkText(text).slice(0, this.MAX_CHUNKS_PER_DOCUMENT);
+    const embeddings = await this.generateEmbeddings(
+      chunks.map((chunk) => this.getChunkEmbeddingInput(chunk)),
+      companyId,
+    );
 
-        // Deserialize the value (keyv stores it as a JSON string)
-        const value =
-          typeof doc.value === 'string' ? JSON.parse(doc.value) : doc.value;
+    await this.store.replace(
+      key,
+      chunks.map((chunk, i) => ({
+        key,
+        companyId,
+        chunkIndex: chunk.index,
+        text: chunk.text,
+        start: chunk.start,
+        end: chunk.end,
+        heading: chunk.heading,
+        embedding: embeddings[i],
+        contentType: metadata.contentType,
+        size: metadata.size,
+        tags: metadata.tags,
+        sourceCreatedAt: metadata.createdAt
+          ? new Date(metadata.createdAt)
+          : undefined,
+        expiresAt: metadata.expiresAt,
+      })),
+    );
 
-        if (!value?.value?.content) {
-          logger.debug('No content to embed', {
-            key,
-            hasValue: !!value,
-            hasValueValue: !!value?.value,
-          });
-          return;
-        }
+    return chunks.length;
+  }
 
-        // Extract text from content
-        let text = '';
-        const content = value.value.content;
-
-        // Handle different content structures
-        if (typeof content === 'string') {
-          text = content;
-        } else if (content?.type === 'file' && content?.content) {
-          // File reference with base64 content - skip binary files, embed text files
-          if (
-            content.mimeType?.startsWith('text/') ||
-            content.mimeType === 'application/json'
-          ) {
-            try {
-              text = Buffer.from(content.content, 'base64').toString('utf-8');
-            } catch {
-              logger.debug('Could not decode file content', {
-                key,
-                mimeType: content.mimeType,
-              });
-              return;
-            }
-          } else {
-            logger.debug('Skipping binary file embedding', {
-              key,
-              mimeType: content.mimeType,
-            });
-            return;
-          }
-        } else if (typeof content === 'object') {
-          text = JSON.stringify(content);
-        }
+  /**
+   * Raw bytes of file content stored in the workspace: base64 file
+   * references and embedded buffers
+   */
+  private getFileBuffer(content: any): Buffer | undefined {
+    if (content?.type === 'file' && typeof content.content === 'string') {
+      return Buffer.from(content.content, 'base64');
+    }
+    if (content?.type === 'buffer' && typeof content.data === 'string') {
+      return Buffer.from(content.data, 'base64');
+    }
+    return undefined;
+  }
+
+  private async ingestDocument(key: string, companyId?: string): Promise<void> {
+    try {
+      logger.debug('Starting embedDocument', {
+        key,
+        companyIdProvided: !!companyId,
+      });
+
+      const doc = await mongoose.connection.db
+        .collection('keyv')
+        .findOne({ key });
 
-        if (!text || text.length < 10) {
-          logger.debug('Content too short for embedding', {
+      if (!doc?.value) {
+        logger.debug('No document found for embedding', { key });
+        await this.removeDocument(key);
+        return;
+      }
+
+      // Deserialize the value (keyv stores it as a JSON string)
+      const value =
+        typeof doc.value === 'string' ? JSON.parse(doc.value) : doc.value;
+
+      if (!value?.value?.content) {
+        logger.debug('No content to embed', {
+          key,
+          hasValue: !!value,
+          hasValueValue: !!value?.value,
+        });
+        await this.removeDocument(key);
+        return;
+      }
+
+      // Extract text from content
+      let text = '';
+      const content = value.value.content;
+      const fileBuffer = this.getFileBuffer(content);
+
+      // Handle different content structures
+      if (typeof content === 'string') {
+        text = content;
+      } else if (fileBuffer) {
+        // Binary files and documents: extract text from PDF, DOCX, PPTX,
+        // HTML, Markdown and text files, skip anything else
+        const source = {
+          fileName: content.filename || key.split('/').pop(),
+          mimeType: content.mimeType || value.value.metadata?.contentType,
+        };
+        if (!detectDocumentFormat(fileBuffer, source)) {
+          logger.debug('Skipping binary file embedding', {
             key,
-            length: text?.length,
+            mimeType: source.mimeType,
           });
+          await this.removeDocument(key);
           return;
         }
+        text = (await extractDocument(fileBuffer, source)).text;
+      } else if (typeof content === 'object') {
+        text = JSON.stringify(content);
+      }
 
-        // Get companyId if not provided
-        let resolvedCompanyId = companyId;
-        if (!resolvedCompanyId) {
-          // Extract from key: unified-workspace:/scope/scopeId/path
-          const scope = this.extractScope(key);
-          const scopeId = this.extractScopeId(key);
+      if (!text || text.length < 10) {
+        logger.debug('Content too short for embedding', {
+          key,
+          length: text?.length,
+        });
+        await this.removeDocument(key);
+        return;
+      }
 
-          logger.debug('Resolving companyId from scope', {
-            key,
-            scope,
-            scopeId,
-          });
+      // Get companyId if not provided
+      let resolvedCompanyId = companyId;
+      if (!resolvedCompanyId) {
+        // Extract from key: unified-workspace:/scope/scopeId/path
+        const scope = this.extractScope(key);
+        const scopeId = this.extractScopeId(key);
 
-          if (scope === 'agent') {
-            // Validate scopeId is a valid ObjectId
-            if (!mongoose.Types.ObjectId.isValid(scopeId)) {
-              logger.warn('Invalid agent ID for embedding', { key, scopeId });
-              return;
-            }
-            // Look up agent to get companyId
-            const Assistant = mongoose.connection.db.collection('assistants');
-            const agent = await Assistant.findOne({
-              _id: new mongoose.Types.ObjectId(scopeId),
-            });
-            if (!agent) {
-              logger.warn('Agent not found for embedding', { key, scopeId });
-              return;
-            }
-            resolvedCompanyId = agent.companyId.toString();
-          } else if (scope === 'session') {
-            // Validate scopeId is a valid ObjectId (skip "stateless_execution" etc.)
-            if (!mongoose.Types.ObjectId.isValid(scopeId)) {
-              logger.debug('Skipping session embedding - invalid ObjectId', {
-                key,
-                scopeId,
-              });
-              return;
-            }
-            // Look up session to get companyId
-            const Session = mongoose.connection.db.collection('sessions');
-            const session = await Session.findOne({
-              _id: new mongoose.Types.ObjectId(scopeId),
+        logger.debug('Resolving companyId from scope', {
+          key,
+          scope,
+          scopeId,
+        });
+
+        if (scope === 'agent') {
+          // Validate scopeId is a valid ObjectId
+          if (!mongoose.Types.ObjectId.isValid(scopeId)) {
+            logger.warn('Invalid agent ID for embedding', { key, scopeId });
+            return;
+          }
+          // Look up agent to get companyId
+          const Assistant = mongoose.connection.db.collection('assistants');
+          const agent = await Assistant.findOne({
+            _id: new mongoose.Types.ObjectId(scopeId),
+          });
+          if (!agent) {
+            logger.warn('Agent not found for embedding', { key, scopeId });
+            return;
+          }
+          resolvedCompanyId = agent.companyId.toString();
+        } else if (scope === 'session') {
+          // Validate scopeId is a valid ObjectId (skip "stateless_execution" etc.)
+          if (!mongoose.Types.ObjectId.isValid(scopeId)) {
+            logger.debug('Skipping session embedding - invalid ObjectId', {
+              key,
+              scopeId,
             });
-            if (!session) {
-              logger.warn('Session not found for embedding', { key, scopeId });
-              return;
-            }
-            resolvedCompanyId = session.companyId.toString();
-          } else if (scope === 'company') {
-            // scopeId is the companyId
-            resolvedCompanyId = scopeId;
-          } else {
-            logger.warn('Unknown scope for embedding', { key, scope });
             return;
           }
+          // Look up session to get companyId
+          const Session = mongoose.connection.db.collection('sessions');
+          const session = await Session.findOne({
+            _id: new mongoose.Types.ObjectId(scopeId),
+          });
+          if (!session) {
+            logger.warn('Session not found for embedding', { key, scopeId });
+            return;
+          }
+          resolvedCompanyId = session.companyId.toString();
+        } else if (scope === 'company') {
+          // scopeId is the companyId
+          resolvedCompanyId = scopeId;
+        } else {
+          logger.warn('Unknown scope for embedding', { key, scope });
+          return;
         }
+      }
 
-        // Generate embedding using company-specific API key
-        logger.debug('Generating embedding', {
-          key,
-          textLength: text.length,
-          companyId: resolvedCompanyId,
-        });
-        const embedding = await this.generateEmbedding(text, resolvedCompanyId);
+      // Generate embeddings using company-specific API key
+      logger.debug('Generating chunk embeddings', {
+        key,
+        textLength: text.length,
+        companyId: resolvedCompanyId,
+      });
+      const metadata = value.value.metadata || {};
+      const chunkCount = await this.indexText(key, text, resolvedCompanyId, {
+        contentType: metadata.contentType,
+        size: metadata.size,
+        tags: Array.isArray(metadata.tags)
+          ? metadata.tags.filter((tag: unknown) => typeof tag === 'string')
+          : undefined,
+        createdAt: metadata.createdAt,
+        expiresAt: doc.expiresAt ?? undefined,
+      });
 
-        // Update the deserialized value with embedding metadata
-        if (!value.value.metadata) {
-          value.value.metadata = {};
-        }
-        value.value.metadata.embeddedAt = new Date();
+      // Record ingestion on the entry without rewriting its value, which
+      // may have been updated since it was read. Whole-document
+      // embeddings are superseded by chunks.
+      await mongoose.connection.db.collection('keyv').updateOne(
+        { key },
+        {
+          $set: { embeddedAt: new Date(), chunkCount },
+          $unset: { embedding: '' },
+        },
+      );
 
-        // Store embedding in root level field for vector search + inside value for metadata
-        await mongoose.connection.db.collection('keyv').updateOne(
-          { key },
-          {
-            $set: {
-              value: JSON.stringify(value),
-              embedding: embedding, // Separate field for vector search index
-              embeddedAt: new Date(),
-            },
-          },
-        );
+      logger.info('Document embedded successfully', {
+        key,
+        companyId: resolvedCompanyId,
+        textLength: text.length,
+        chunkCount,
+      });
+    } catch (error: any) {
+      logger.error('Embed failed', {
+        key,
+        error: error.message,
+        stack: error.stack?.split('\n').slice(0, 3).join('\n'),
+      });
+    }
+  }
 
-        logger.info('Document embedded successfully', {
-          key,
-          companyId: resolvedCompanyId,
-          textLength: text.length,
-          embeddingDimensions: embedding.length,
-        });
-      } catch (error: any) {
-        logger.error('Embed failed', {
-          key,
-          error: error.message,
-          stack: error.stack?.split('\n').slice(0, 3).join('\n'),
-        });
-      }
-    });
+  /**
+   * Text embedded for a chunk. The heading trail gives chunks from the
+   * middle of a section their context.
+   */
+  private getChunkEmbeddingInput(chunk: TextChunk): string {
+    return chunk.heading ? `${chunk.heading}\n\n${chunk.text}` : chunk.text;
   }
 
   // Helper methods
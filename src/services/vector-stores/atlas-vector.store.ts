@@ -0,0 +1,175 @@
+import mongoose from 'mongoose';
+import { logger } from '../../utils/logger';
+import WorkspaceChunk from '../../models/WorkspaceChunk';
+import {
+  KeywordQuery,
+  VectorFilter,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+} from './vector-store';
+
+const VECTOR_INDEX = 'workspace_chunk_vector_index';
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * $match conditions for a company and filter, excluding expired chunks
+ */
+const buildMatch = (companyId?: string, filter: VectorFilter = {}) => {
+  const createdAt = {
+    ...(filter.createdAfter && { $gte: filter.createdAfter }),
+    ...(filter.createdBefore && { $lte: filter.createdBefore }),
+  };
+
+  return {
+    ...(companyId && {
+      companyId: new mongoose.Types.ObjectId(companyId),
+    }),
+    ...(filter.keyPrefixes && {
+      key: {
+        $in: filter.keyPrefixes.map(
+          (prefix) => new RegExp(`^${escapeRegExp(prefix)}`),
+        ),
+      },
+    }),
+    ...(filter.contentTypes && { contentType: { $in: filter.contentTypes } }),
+    ...(filter.tags && { tags: { $all: filter.tags } }),
+    ...(Object.keys(createdAt).length > 0 && { sourceCreatedAt: createdAt }),
+    $or: [
+      { expiresAt: { $exists: false } },
+      { expiresAt: null },
+      { expiresAt: { $gt: new Date() } },
+    ],
+  };
+};
+
+const toMatch = (chunk: any): VectorMatch => ({
+  ...chunk,
+  companyId: chunk.companyId.toString(),
+});
+
+/**
+ * Vector store backed by MongoDB Atlas `$vectorSearch` over the
+ * workspace_chunks collection
+ */
+export class AtlasVectorStore implements VectorStore {
+  readonly name = 'atlas';
+
+  async replace(key: string, records: VectorRecord[]): Promise<void> {
+    await WorkspaceChunk.deleteMany({ key });
+    if (records.length > 0) {
+      await WorkspaceChunk.insertMany(records);
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await WorkspaceChunk.deleteMany({ key });
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    const { embedding, companyId, filter, limit, minScore } = query;
+
+    const pipeline: any[] = [
+      {
+        $vectorSearch: {
+          index: VECTOR_INDEX,
+          path: 'embedding',
+          queryVector: embedding,
+          numCandidates: limit * 10,
+          limit: limit * 2,
+          // Note: Atlas Search filter doesn't support $regex, so we filter in $match stage
+        },
+      },
+      {
+        $addFields: {
+          score: { $meta: 'vectorSearchScore' },
+        },
+      },
+      {
+        $match: {
+          score: { $gte: minScore },
+          ...buildMatch(companyId, filter),
+        },
+      },
+      { $limit: limit },
+      { $project: { embedding: 0 } },
+    ];
+
+    const chunks = await WorkspaceChunk.aggregate(pipeline);
+    return chunks.map(toMatch);
+  }
+
+  /**
+   * Full-text search using the collection's text index. Leading hyphens
+   * and quotes are stripped so queries can't negate terms or force
+   * phrases.
+   */
+  async keywordSearch(query: KeywordQuery): Promise<VectorMatch[]> {
+    const { text, companyId, filter, limit } = query;
+    const search = text.replace(/["]/g, ' ').replace(/(^|\s)-+/g, '$1');
+
+    const chunks = await WorkspaceChunk.aggregate([
+      {
+        $match: {
+          $text: { $search: search },
+          ...buildMatch(companyId, filter),
+        },
+      },
+      { $addFields: { score: { $meta: 'textScore' } } },
+      { $sort: { score: -1 } },
+      { $limit: limit },
+      { $project: { embedding: 0 } },
+    ]);
+    return chunks.map(toMatch);
+  }
+
+  /**
+   * Ensure the Atlas vector search index exists. Safe to call multiple
+   * times (idempotent).
+   */
+  async ensureIndex(dimensions: number): Promise<void> {
+    try {
+      const collection = mongoose.connection.db.collection(
+        WorkspaceChunk.collection.collectionName,
+      );
+
+      // Check if index already exists
+      const indexes = await collection.listSearchIndexes().toArray();
+      if (indexes.some((idx: any) => idx.name === VECTOR_INDEX)) {
+        logger.info('Vector search index already exists');
+        return;
+      }
+
+      logger.info('Creating vector search index...');
+
+      await collection.createSearchIndex({
+        name: VECTOR_INDEX,
+        definition: {
+          mappings: {
+            dynamic: false,
+            fields: {
+              embedding: {
+                type: 'knnVector',
+                dimensions,
+                similarity: 'cosine',
+              },
+            },
+          },
+        },
+      });
+
+      logger.info(
+        'Vector search index created successfully. Note: It may take a few minutes to build in Atlas.',
+      );
+    } catch (error: any) {
+      // Don't fail if we can't create the index - it might already exist or require manual setup
+      logger.warn('Could not ensure vector search index', {
+        error: error.message,
+        note: 'You may need to create the index manually in MongoDB Atlas',
+      });
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { logger } from '../../utils/logger';
+import {
+  Bm25Document,
+  createBm25Document,
+  scoreBm25,
+} from '../../utils/search-ranking';
+import {
+  KeywordQuery,
+  VectorFilter,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+} from './vector-store';
+
+const SAVE_DELAY = 1000; // Batch writes from bursts of ingestion
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const matchesFilter = (
+  record: VectorRecord,
+  companyId: string | undefined,
+  filter: VectorFilter = {},
+  now: number,
+): boolean => {
+  const createdAt = record.sourceCreatedAt?.getTime();
+  return (
+    (!companyId || record.companyId === companyId) &&
+    (!record.expiresAt || record.expiresAt.getTime() > now) &&
+    (!filter.keyPrefixes ||
+      filter.keyPrefixes.some((prefix) => record.key.startsWith(prefix))) &&
+    (!filter.contentTypes ||
+      filter.contentTypes.includes(record.contentType ?? '')) &&
+    (!filter.tags || filter.tags.every((tag) => record.tags?.includes(tag))) &&
+    (!filter.createdAfter ||
+      (createdAt !== undefined &&
+        createdAt >= filter.createdAfter.getTime())) &&
+    (!filter.createdBefore ||
+      (createdAt !== undefined && createdAt <= filter.createdBefore.getTime()))
+  );
+};
+
+const withoutEmbedding = (
+  { embedding: _embedding, ...record }: VectorRecord,
+  score: number,
+): VectorMatch => ({ ...record, score });
+
+const reviveRecord = (record: VectorRecord): VectorRecord => ({
+  ...record,
+  sourceCreatedAt: record.sourceCreatedAt && new Date(record.sourceCreatedAt),
+  expiresAt: record.expiresAt && new Date(record.expiresAt),
+});
+
+/**
+ * In-process vector store with brute-force cosine search. Vectors are kept
+ * in memory and, when a file path is given, persisted to disk as JSON.
+ * Scores use the same 0..1 scale as Atlas cosine similarity.
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly name = 'local';
+
+  private records = new Map<string, VectorRecord[]>();
+  private termIndex = new WeakMap<VectorRecord, Bm25Document>();
+  private loading?: Promise<void>;
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(private readonly filePath?: string) {}
+
+  async replace(key: string, records: VectorRecord[]): Promise<void> {
+    await this.load();
+    if (records.length > 0) {
+      this.records.set(key, records);
+    } else {
+      this.records.delete(key);
+    }
+    this.scheduleSave();
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.load();
+    if (this.records.delete(key)) {
+      this.scheduleSave();
+    }
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    const { embedding, limit, minScore } = query;
+    const matches: VectorMatch[] = [];
+
+    for (const record of await this.findRecords(query)) {
+      const score = (1 + cosineSimilarity(embedding, record.embedding)) / 2;
+      if (score >= minScore) {
+        matches.push(withoutEmbedding(record, score));
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async keywordSearch(query: KeywordQuery): Promise<VectorMatch[]> {
+    const records = await this.findRecords(query);
+    const scores = scoreBm25(
+      query.text,
+      records.map((record) => this.getTerms(record)),
+    );
+
+    return records
+      .map((record, i) => withoutEmbedding(record, scores[i]))
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.limit);
+  }
+
+  /**
+   * Write pending changes to disk now
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (!this.filePath) {
+      return;
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(
+      tempPath,
+      JSON.stringify(Object.fromEntries(this.records)),
+    );
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private async findRecords(query: {
+    companyId?: string;
+    filter?: VectorFilter;
+  }): Promise<VectorRecord[]> {
+    await this.load();
+    const now = Date.now();
+    return Array.from(this.records.values())
+      .flat()
+      .filter((record) =>
+        matchesFilter(record, query.companyId, query.filter, now),
+      );
+  }
+
+  private getTerms(record: VectorRecord): Bm25Document {
+    let terms = this.termIndex.get(record);
+    if (!terms) {
+      terms = createBm25Document(record.text);
+      this.termIndex.set(record, terms);
+    }
+    return terms;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      const data: Record<string, VectorRecord[]> = JSON.parse(
+        await fs.readFile(this.filePath, 'utf-8'),
+      );
+      for (const [key, records] of Object.entries(data)) {
+        this.records.set(key, records.map(reviveRecord));
+      }
+      logger.info(`LocalVectorStore: Loaded ${this.records.size} documents`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error('LocalVectorStore: Failed to load vectors', error);
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.filePath || this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.flush().catch((error) => {
+        logger.error('LocalVectorStore: Failed to save vectors', error);
+      });
+    }, SAVE_DELAY);
+    this.saveTimer.unref();
+  }
+}
@@ -0,0 +1,82 @@
+import * as path from 'path';
+import { logger } from '../../utils/logger';
+import { AtlasVectorStore } from './atlas-vector.store';
+import { LocalVectorStore } from './local-vector.store';
+
+/**
+ * One embedded chunk of a workspace document
+ */
+export interface VectorRecord {
+  key: string; // Full workspace key of the document
+  companyId: string;
+  chunkIndex: number;
+  text: string;
+  start: number;
+  end: number;
+  heading?: string;
+  embedding: number[];
+  contentType?: string;
+  size?: number;
+  tags?: string[];
+  sourceCreatedAt?: Date;
+  expiresAt?: Date;
+}
+
+export interface VectorFilter {
+  keyPrefixes?: string[]; // Key must start with one of these
+  contentTypes?: string[];
+  tags?: string[]; // Chunk must carry all of these
+  createdAfter?: Date;
+  createdBefore?: Date;
+}
+
+export interface VectorQuery {
+  embedding: number[];
+  companyId?: string;
+  filter?: VectorFilter;
+  limit: number;
+  minScore: number; // Cosine similarity scaled to 0..1
+}
+
+export interface KeywordQuery {
+  text: string;
+  companyId?: string;
+  filter?: VectorFilter;
+  limit: number;
+}
+
+export type VectorMatch = Omit<VectorRecord, 'embedding'> & { score: number };
+
+export interface VectorStore {
+  readonly name: string;
+  // Replace every chunk stored for a document
+  replace(key: string, records: VectorRecord[]): Promise<void>;
+  remove(key: string): Promise<void>;
+  // Best matches first, expired chunks excluded
+  query(query: VectorQuery): Promise<VectorMatch[]>;
+  // Full-text matches on chunk text, best first
+  keywordSearch(query: KeywordQuery): Promise<VectorMatch[]>;
+  ensureIndex?(dimensions: number): Promise<void>;
+}
+
+/**
+ * Create the vector store selected by VECTOR_STORE ('atlas' or 'local').
+ * Atlas needs MongoDB Atlas vector search; the local store keeps vectors in
+ * memory and persists them to VECTOR_STORE_PATH.
+ */
+export function createVectorStore(): VectorStore {
+  const backend = process.env.VECTOR_STORE || 'atlas';
+
+  if (backend === 'local') {
+    const filePath =
+      process.env.VECTOR_STORE_PATH ||
+      path.join(process.cwd(), '.workspace-data', 'vectors.json');
+    logger.info(`Vector search: Using local vector store at ${filePath}`);
+    return new LocalVectorStore(filePath);
+  }
+
+  if (backend !== 'atlas') {
+    logger.warn(`Unknown VECTOR_STORE "${backend}", using atlas`);
+  }
+  return new AtlasVectorStore();
+}
@@ -0,0 +1,39 @@
+// End of a sentence: terminal punctuation (with closing quotes or brackets)
+// followed by whitespace, or a line break
+const SENTENCE_END = /[.!?。！？]+["'”’)\]]*\s+|\n+/g;
+
+/**
+ * Splits streamed text into sentences, so each can be spoken as soon as it
+ * is complete. Sentences shorter than `minLength` are joined with the next
+ * one to avoid choppy audio.
+ */
+export class SentenceChunker {
+  private buffer = '';
+
+  constructor(private readonly minLength = 20) {}
+
+  push(text: string): string[] {
+    this.buffer += text;
+    const sentences: string[] = [];
+    let start = 0;
+
+    for (const match of this.buffer.matchAll(SENTENCE_END)) {
+      const end = match.index! + match[0].length;
+      const sentence = this.buffer.slice(start, end).trim();
+      if (sentence.length >= this.minLength) {
+        sentences.push(sentence);
+        start = end;
+      }
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  // The rest of the text once the stream has ended
+  flush(): string | null {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest || null;
+  }
+}
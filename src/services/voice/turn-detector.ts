@@ -0,0 +1,92 @@
+export interface TurnDetectorOptions {
+  sampleRate: number;
+  threshold: number; // RMS level (0-1) counted as speech
+  minSpeechMs: number; // Speech needed before a turn starts
+  silenceMs: number; // Silence that ends a turn
+  maxTurnMs: number; // A turn longer than this ends regardless
+}
+
+export type TurnEvent = 'speech_start' | 'speech_end';
+
+export const DEFAULT_TURN_DETECTOR_OPTIONS: TurnDetectorOptions = {
+  sampleRate: 16000,
+  threshold: 0.02,
+  minSpeechMs: 150,
+  silenceMs: 700,
+  maxTurnMs: 30000,
+};
+
+/**
+ * RMS level of 16-bit little-endian mono PCM, from 0 to 1
+ */
+export function pcm16Level(frame: Buffer): number {
+  const samples = Math.floor(frame.length / 2);
+  if (samples === 0) {
+    return 0;
+  }
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = frame.readInt16LE(i * 2) / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+/**
+ * Energy-based voice activity detection on 16-bit mono PCM. Frames are
+ * pushed as they arrive; a turn starts after `minSpeechMs` of speech and
+ * ends after `silenceMs` of silence.
+ */
+export class TurnDetector {
+  private readonly options: TurnDetectorOptions;
+  private speaking = false;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private turnMs = 0;
+
+  constructor(options: Partial<TurnDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_TURN_DETECTOR_OPTIONS, ...options };
+  }
+
+  get inTurn(): boolean {
+    return this.speaking;
+  }
+
+  frameMs(frame: Buffer): number {
+    return (frame.length / 2 / this.options.sampleRate) * 1000;
+  }
+
+  push(frame: Buffer): TurnEvent | null {
+    const ms = this.frameMs(frame);
+    const voiced = pcm16Level(frame) >= this.options.threshold;
+
+    if (!this.speaking) {
+      this.speechMs = voiced ? this.speechMs + ms : 0;
+      if (this.speechMs >= this.options.minSpeechMs) {
+        this.speaking = true;
+        this.silenceMs = 0;
+        this.turnMs = this.speechMs;
+        return 'speech_start';
+      }
+      return null;
+    }
+
+    this.turnMs += ms;
+    this.silenceMs = voiced ? 0 : this.silenceMs + ms;
+    if (
+      this.silenceMs >= this.options.silenceMs ||
+      this.turnMs >= this.options.maxTurnMs
+    ) {
+      this.reset();
+      return 'speech_end';
+    }
+    return null;
+  }
+
+  reset(): void {
+    this.speaking = false;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.turnMs = 0;
+  }
+}
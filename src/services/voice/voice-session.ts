@@ -0,0 +1,381 @@
+import { Socket } from 'socket.io';
+import { Assistant } from '../../models/Assistant';
+import { logger } from '../../utils/logger';
+import { BudgetExceededError } from '../../utils/errors';
+import { getApiKey } from '../api.key.service';
+import { handleSessionMessage } from '../assistant/message-handling.service';
+import { getSessionOrCreate } from '../session.service';
+import { transcribeAudio } from '../speech.recognition.service';
+import { SpeechFactory } from '../speech/speech.factory';
+import { SpeechProvider } from '../speech/types';
+import { SentenceChunker } from './sentence-chunker';
+import { TurnDetector, TurnDetectorOptions } from './turn-detector';
+import { pcm16ToWav } from './wav';
+
+// Audio kept from before a turn is detected, so its first syllable is not lost
+const PRE_ROLL_MS = 300;
+
+// Server-side bounds of client-supplied audio settings; a turn is buffered
+// in memory until it ends, so its length must stay bounded
+const SAMPLE_RATE_RANGE: [number, number] = [8000, 48000];
+const TURN_DETECTOR_RANGES: Record<
+  keyof Omit<TurnDetectorOptions, 'sampleRate'>,
+  [number, number]
+> = {
+  threshold: [0.001, 1],
+  minSpeechMs: [0, 2000],
+  silenceMs: [100, 5000],
+  maxTurnMs: [1000, 60000],
+};
+
+const clamp = (
+  value: unknown,
+  [min, max]: [number, number],
+): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(Math.max(value, min), max)
+    : undefined;
+
+/**
+ * Turn detector options from `voice:start`, with unknown keys dropped and
+ * values clamped to TURN_DETECTOR_RANGES
+ */
+function turnDetectorOptions(
+  vad: VoiceStartParams['vad'],
+  sampleRate: number,
+): Partial<TurnDetectorOptions> {
+  const options: Partial<TurnDetectorOptions> = { sampleRate };
+  for (const [key, range] of Object.entries(TURN_DETECTOR_RANGES)) {
+    const value = clamp(vad?.[key as keyof typeof TURN_DETECTOR_RANGES], range);
+    if (value !== undefined) {
+      options[key as keyof typeof TURN_DETECTOR_RANGES] = value;
+    }
+  }
+  return options;
+}
+
+export interface VoiceSessionContext {
+  userId: string;
+  companyId: string;
+}
+
+/**
+ * `voice:start` parameters. Audio is 16-bit little-endian mono PCM at
+ * `sampleRate`; the speech provider defaults to the one of the assistant's
+ * voice, the speech-to-text provider to STT_PROVIDER.
+ */
+export interface VoiceStartParams {
+  sampleRate?: number;
+  provider?: string;
+  sttProvider?: string;
+  vad?: Partial<Omit<TurnDetectorOptions, 'sampleRate'>>;
+}
+
+/**
+ * One duplex voice conversation on a socket. Incoming audio is split into
+ * turns by the turn detector; each turn is transcribed, answered through
+ * handleSessionMessage and spoken back sentence by sentence. Speech during
+ * an answer interrupts it (barge-in).
+ */
+export class VoiceSession {
+  private detector?: TurnDetector;
+  private speechProvider?: SpeechProvider;
+  private sttProvider?: string;
+  private sessionId = '';
+  private voice?: string;
+  private language = 'en';
+  private sampleRate = 16000;
+
+  private preRoll: Buffer[] = [];
+  private preRollMs = 0;
+  private turnFrames: Buffer[] = [];
+
+  // Bumped to cancel the answer in progress; stale work checks it and stops
+  private responseId = 0;
+  private responding = false;
+  private speechQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly socket: Socket,
+    private readonly context: VoiceSessionContext,
+  ) {}
+
+  async start(params: VoiceStartParams = {}) {
+    const { userId, companyId } = this.context;
+    const apiKeyForSession = (await getApiKey(
+      companyId,
+      'openai_api_key',
+    )) as string;
+    const session = await getSessionOrCreate(
+      apiKeyForSession,
+      userId,
+      companyId,
+    );
+    const assistant = await Assistant.findById(session.assistantId)
+      .select('voice language')
+      .lean();
+
+    const provider =
+      params.provider || SpeechFactory.providerForVoice(assistant?.voice);
+    const speechKey = await getApiKey(
+      companyId,
+      SpeechFactory.getApiKeyType(provider),
+    );
+    if (!speechKey) {
+      throw new Error(`No API key configured for speech provider ${provider}`);
+    }
+
+    this.sttProvider = params.sttProvider;
+    this.sessionId = session._id.toString();
+    this.voice = assistant?.voice;
+    this.language = assistant?.language || session.language || 'en';
+    this.sampleRate = clamp(params.sampleRate, SAMPLE_RATE_RANGE) || 16000;
+    this.speechProvider = SpeechFactory.getProvider(provider, speechKey);
+    this.detector = new TurnDetector(
+      turnDetectorOptions(params.vad, this.sampleRate),
+    );
+
+    return {
+      sessionId: this.sessionId,
+      provider,
+      voice: this.voice,
+      language: this.language,
+      sampleRate: this.sampleRate,
+    };
+  }
+
+  pushAudio(frame: Buffer): void {
+    if (!this.detector) {
+      return;
+    }
+
+    const wasInTurn = this.detector.inTurn;
+    const event = this.detector.push(frame);
+
+    if (event === 'speech_start') {
+      this.turnFrames = [...this.preRoll, frame];
+      this.preRoll = [];
+      this.preRollMs = 0;
+      if (this.responding) {
+        this.cancel('barge_in');
+      }
+      this.socket.emit('voice:speech_started', {});
+      return;
+    }
+
+    if (wasInTurn) {
+      this.turnFrames.push(frame);
+      if (event === 'speech_end') {
+        const audio = Buffer.concat(this.turnFrames);
+        this.turnFrames = [];
+        this.socket.emit('voice:speech_stopped', {});
+        void this.respond(audio);
+      }
+      return;
+    }
+
+    this.preRoll.push(frame);
+    this.preRollMs += this.detector.frameMs(frame);
+    while (this.preRollMs > PRE_ROLL_MS && this.preRoll.length > 1) {
+      this.preRollMs -= this.detector.frameMs(this.preRoll.shift()!);
+    }
+  }
+
+  /**
+   * Stop speaking the current answer. It is still completed and stored in
+   * the session history.
+   */
+  cancel(reason: 'barge_in' | 'cancelled' | 'closed'): void {
+    if (!this.responding) {
+      return;
+    }
+    this.responseId++;
+    this.responding = false;
+    this.socket.emit('voice:interrupted', { reason });
+  }
+
+  close(): void {
+    this.cancel('closed');
+    this.detector = undefined;
+    this.turnFrames = [];
+    this.preRoll = [];
+  }
+
+  private emitError(error: unknown): void {
+    this.socket.emit('voice:error', {
+      message: error instanceof Error ? error.message : 'Voice error',
+      ...(error instanceof BudgetExceededError && {
+        code: error.code,
+        budget: error.details,
+      }),
+    });
+  }
+
+  private async respond(pcm: Buffer): Promise<void> {
+    const id = ++this.responseId;
+    this.responding = true;
+
+    try {
+      const transcript = await transcribeAudio(
+        this.context.companyId,
+        pcm16ToWav(pcm, this.sampleRate),
+        { provider: this.sttProvider, language: this.language },
+      );
+      const text = transcript.text.trim();
+      if (id !== this.responseId) {
+        return;
+      }
+      if (!text) {
+        this.responding = false;
+        return;
+      }
+      this.socket.emit('voice:transcript', { responseId: id, text });
+
+      const result = await handleSessionMessage(text, this.sessionId, {
+        'X-Experimental-Stream': 'true',
+        channel: 'voice',
+      });
+
+      const chunker = new SentenceChunker();
+      if (typeof result === 'string') {
+        // Plain text, or nothing while a human operator has the session
+        chunker
+          .push(result)
+          .forEach((sentence) => this.enqueueSpeech(id, sentence));
+        if (result && id === this.responseId) {
+          this.socket.emit('voice:response_text', {
+            responseId: id,
+            text: result,
+          });
+        }
+      } else {
+        // Read the whole stream even after an interruption, so the answer
+        // is stored
+        for await (const chunk of result.textStream) {
+          if (id !== this.responseId) {
+            continue;
+          }
+          this.socket.emit('voice:response_text', {
+            responseId: id,
+            text: chunk,
+          });
+          chunker
+            .push(chunk)
+            .forEach((sentence) => this.enqueueSpeech(id, sentence));
+        }
+      }
+
+      const rest = chunker.flush();
+      if (rest) {
+        this.enqueueSpeech(id, rest);
+      }
+      await this.speechQueue;
+
+      if (id === this.responseId) {
+        this.responding = false;
+        this.socket.emit('voice:response_done', { responseId: id });
+      }
+    } catch (error) {
+      logger.error(`[Voice] Turn failed for session ${this.sessionId}:`, error);
+      if (id === this.responseId) {
+        this.responding = false;
+        this.emitError(error);
+      }
+    }
+  }
+
+  /**
+   * Start synthesizing a sentence right away, but send the audio in order
+   */
+  private enqueueSpeech(id: number, text: string): void {
+    if (id !== this.responseId || !this.speechProvider) {
+      return;
+    }
+    const audio = this.speechProvider.synthesizeSpeech(text, {
+      voice: this.voice,
+    });
+    audio.catch(() => undefined); // Reported when its turn comes
+
+    this.speechQueue = this.speechQueue.then(async () => {
+      try {
+        const speech = await audio;
+        if (id === this.responseId) {
+          this.socket.emit('voice:audio', {
+            responseId: id,
+            text,
+            mimeType: speech.mimeType,
+            audio: speech.audio,
+          });
+        }
+      } catch (error) {
+        logger.error('[Voice] Speech synthesis failed:', error);
+        if (id === this.responseId) {
+          this.emitError(error);
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Handle `voice:*` events on a socket: `voice:start`, binary `voice:audio`
+ * frames, `voice:cancel` and `voice:stop`
+ */
+export function registerVoiceHandlers(
+  socket: Socket,
+  context: VoiceSessionContext,
+): void {
+  let voiceSession: VoiceSession | undefined;
+
+  socket.on('voice:start', async (params: VoiceStartParams) => {
+    voiceSession?.close();
+    const starting = new VoiceSession(socket, context);
+    voiceSession = starting;
+    try {
+      const info = await starting.start(params || {});
+      socket.emit('voice:started', info);
+    } catch (error) {
+      logger.error('[Voice] Failed to start voice session:', error);
+      if (voiceSession === starting) {
+        voiceSession = undefined;
+      }
+      socket.emit('voice:error', {
+        message:
+          error instanceof Error ? error.message : 'Failed to start voice',
+      });
+    }
+  });
+
+  socket.on('voice:audio', (frame: unknown) => {
+    // A throwing listener would take down the process, so frames that are
+    // not binary are dropped and errors are only logged
+    try {
+      if (Buffer.isBuffer(frame)) {
+        voiceSession?.pushAudio(frame);
+      } else if (frame instanceof ArrayBuffer) {
+        voiceSession?.pushAudio(Buffer.from(frame));
+      } else if (frame instanceof Uint8Array) {
+        voiceSession?.pushAudio(
+          Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength),
+        );
+      }
+    } catch (error) {
+      logger.error('[Voice] Failed to process audio frame:', error);
+    }
+  });
+
+  socket.on('voice:cancel', () => {
+    voiceSession?.cancel('cancelled');
+  });
+
+  socket.on('voice:stop', () => {
+    voiceSession?.close();
+    voiceSession = undefined;
+    socket.emit('voice:stopped', {});
+  });
+
+  socket.on('disconnect', () => {
+    voiceSession?.close();
+    voiceSession = undefined;
+  });
+}
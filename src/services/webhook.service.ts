@@ -0,0 +1,596 @@
+// file path: /src/services/webhook.service.ts
+import crypto from 'crypto';
+import axios from 'axios';
+import mongoose from 'mongoose';
+import NodeCache from 'node-cache';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Webhook,
+  IWebhook,
+  WEBHOOK_EVENTS,
+  WebhookEvent,
+} from '../models/Webhook';
+import {
+  WebhookDelivery,
+  IWebhookDelivery,
+  WebhookDeliveryStatus,
+} from '../models/WebhookDelivery';
+import { Assistant } from '../models/Assistant';
+import { IMessage } from '../models/Message';
+import { encryptData, decryptData } from './encryption.service';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+
+const TEST_EVENT = 'webhook.test';
+
+// Attempts per delivery, including the first one
+const MAX_DELIVERY_ATTEMPTS = 6;
+
+// Retry delays double from the base delay up to the max
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// A claimed delivery is not retried by another instance until this passes
+const DELIVERY_LOCK_MS = 2 * 60 * 1000;
+
+const POLL_INTERVAL_MS = 15 * 1000;
+
+const MAX_RESPONSE_BODY_CHARS = 2000;
+
+// Active webhooks per company, consulted on every event
+const webhookCache = new NodeCache({ stdTTL: 900 });
+
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+/**
+ * Fields accepted when creating or updating a webhook
+ */
+export interface WebhookInput {
+  name?: string;
+  url?: string;
+  events?: string[];
+  assistantId?: string | null;
+  active?: boolean;
+  secret?: string; // Generated when omitted on create
+}
+
+/**
+ * Envelope sent as the request body of every delivery.
+ * `id` is shared by all deliveries of the same event.
+ */
+export interface WebhookEventPayload {
+  id: string;
+  type: string;
+  createdAt: string;
+  companyId: string;
+  data: Record<string, unknown>;
+}
+
+type WebhookTarget = Pick<IWebhook, 'events' | 'assistantId'>;
+
+/**
+ * Whether a webhook subscribes to an event from the given assistant
+ */
+export function matchesWebhook(
+  webhook: WebhookTarget,
+  event: string,
+  assistantId?: string,
+): boolean {
+  if (!webhook.events.includes('*') && !webhook.events.includes(event)) {
+    return false;
+  }
+  return !webhook.assistantId || webhook.assistantId.toString() === assistantId;
+}
+
+/**
+ * HMAC-SHA256 of `${timestamp}.${body}`, hex encoded.
+ * Receivers verify the X-Webhook-Signature header by recomputing it.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+function getRetryDelayMs(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+async function validateWebhookInput(
+  input: WebhookInput,
+  companyId: string,
+): Promise<void> {
+  if (input.url !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(input.url);
+    } catch {
+      throw new BadRequestError('url must be a valid URL');
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new BadRequestError('url must use http or https');
+    }
+  }
+
+  if (input.events !== undefined) {
+    if (!Array.isArray(input.events) || input.events.length === 0) {
+      throw new BadRequestError('events must be a non-empty array');
+    }
+    const unknown = input.events.filter(
+      (event) =>
+        event !== '*' && !WEBHOOK_EVENTS.includes(event as WebhookEvent),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestError(
+        `Unknown events: ${unknown.join(', ')}. Supported: ${WEBHOOK_EVENTS.join(', ')} or "*"`,
+      );
+    }
+  }
+
+  if (input.secret !== undefined && input.secret.length < 16) {
+    throw new BadRequestError('secret must be at least 16 characters');
+  }
+
+  if (input.assistantId) {
+    const exists =
+      mongoose.Types.ObjectId.isValid(input.assistantId) &&
+      (await Assistant.exists({ _id: input.assistantId, companyId }));
+    if (!exists) {
+      throw new NotFoundError('Assistant');
+    }
+  }
+}
+
+async function getActiveWebhooks(companyId: string): Promise<IWebhook[]> {
+  const cached = webhookCache.get<IWebhook[]>(companyId);
+  if (cached) {
+    return cached;
+  }
+  const webhooks = await Webhook.find({ companyId, active: true }).lean<
+    IWebhook[]
+  >();
+  webhookCache.set(companyId, webhooks);
+  return webhooks;
+}
+
+function invalidateWebhookCache(companyId: string): void {
+  webhookCache.del(companyId);
+}
+
+/**
+ * List a company's webhooks. Secrets are never returned.
+ */
+export async function listWebhooks(companyId: string): Promise<IWebhook[]> {
+  return Webhook.find({ companyId }).sort({ createdAt: -1 }).lean<IWebhook[]>();
+}
+
+/**
+ * Get a webhook, scoped to the company
+ */
+export async function getWebhook(
+  companyId: string,
+  webhookId: string,
+): Promise<IWebhook | null> {
+  if (!mongoose.Types.ObjectId.isValid(webhookId)) {
+    return null;
+  }
+  return Webhook.findOne({ _id: webhookId, companyId });
+}
+
+/**
+ * Register a webhook. The signing secret is returned only here and on
+ * rotation.
+ */
+export async function createWebhook(
+  companyId: string,
+  input: WebhookInput,
+  userId?: string,
+): Promise<{ webhook: IWebhook; secret: string }> {
+  if (!input.url || !input.events) {
+    throw new BadRequestError('url and events are required');
+  }
+  await validateWebhookInput(input, companyId);
+
+  const secret = input.secret || generateWebhookSecret();
+  const webhook = await new Webhook({
+    companyId,
+    name: input.name || new URL(input.url).host,
+    url: input.url,
+    events: input.events,
+    assistantId: input.assistantId || undefined,
+    active: input.active ?? true,
+    secret: encryptData(secret),
+    createdBy: userId,
+  }).save();
+
+  invalidateWebhookCache(companyId);
+  webhook.set('secret', undefined);
+  return { webhook, secret };
+}
+
+/**
+ * Update a webhook. Pass `assistantId: null` to remove the assistant filter.
+ */
+export async function updateWebhook(
+  companyId: string,
+  webhookId: string,
+  input: WebhookInput,
+): Promise<IWebhook> {
+  const webhook = await getWebhook(companyId, webhookId);
+  if (!webhook) {
+    throw new NotFoundError('Webhook');
+  }
+  await validateWebhookInput(input, companyId);
+
+  if (input.name !== undefined) webhook.name = input.name;
+  if (input.url !== undefined) webhook.url = input.url;
+  if (input.events !== undefined) webhook.events = input.events;
+  if (input.active !== undefined) webhook.active = input.active;
+  if (input.assistantId !== undefined) {
+    webhook.set('assistantId', input.assistantId || undefined);
+  }
+  if (input.secret !== undefined) {
+    webhook.secret = encryptData(input.secret);
+  }
+
+  await webhook.save();
+  invalidateWebhookCache(companyId);
+  webhook.set('secret', undefined);
+  return webhook;
+}
+
+/**
+ * Replace a webhook's signing secret and return the new one
+ */
+export async function rotateWebhookSecret(
+  companyId: string,
+  webhookId: string,
+): Promise<string> {
+  const secret = generateWebhookSecret();
+  await updateWebhook(companyId, webhookId, { secret });
+  return secret;
+}
+
+/**
+ * Delete a webhook and its delivery log
+ */
+export async function deleteWebhook(
+  companyId: string,
+  webhookId: string,
+): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(webhookId)) {
+    return false;
+  }
+  const result = await Webhook.deleteOne({ _id: webhookId, companyId });
+  if (result.deletedCount > 0) {
+    await WebhookDelivery.deleteMany({ webhookId, companyId });
+    invalidateWebhookCache(companyId);
+  }
+  return result.deletedCount > 0;
+}
+
+/**
+ * Recent deliveries of a webhook, newest first
+ */
+export async function listWebhookDeliveries(
+  companyId: string,
+  webhookId: string,
+  options: { status?: WebhookDeliveryStatus; limit?: number } = {},
+): Promise<IWebhookDelivery[]> {
+  if (!mongoose.Types.ObjectId.isValid(webhookId)) {
+    return [];
+  }
+  return WebhookDelivery.find({
+    webhookId,
+    companyId,
+    ...(options.status && { status: options.status }),
+  })
+    .sort({ createdAt: -1 })
+    .limit(options.limit || 50)
+    .lean<IWebhookDelivery[]>();
+}
+
+/**
+ * Send one attempt of a delivery and record the outcome. Failed attempts
+ * are rescheduled with exponential backoff until attempts run out.
+ */
+async function attemptDelivery(
+  delivery: IWebhookDelivery,
+): Promise<IWebhookDelivery> {
+  const webhook = await Webhook.findById(delivery.webhookId).select('+secret');
+  if (!webhook || (!webhook.active && delivery.event !== TEST_EVENT)) {
+    delivery.status = 'failed';
+    delivery.error = webhook ? 'Webhook is disabled' : 'Webhook was deleted';
+    delivery.nextAttemptAt = undefined;
+    return delivery.save();
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = signWebhookPayload(
+    decryptData(webhook.secret),
+    timestamp,
+    body,
+  );
+
+  delivery.attempts += 1;
+  const startTime = Date.now();
+
+  try {
+    const response = await axios.post(webhook.url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'sb-agent-portal-webhooks',
+        'X-Webhook-Id': delivery.payload.id,
+        'X-Webhook-Delivery': delivery._id.toString(),
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signature}`,
+      },
+      timeout: REQUEST_TIMEOUT_MS,
+      maxRedirects: 0,
+      responseType: 'text',
+      transformResponse: (data) => data,
+      validateStatus: () => true,
+    });
+
+    delivery.responseStatus = response.status;
+    delivery.responseBody =
+      typeof response.data === 'string'
+        ? response.data.slice(0, MAX_RESPONSE_BODY_CHARS)
+        : undefined;
+    delivery.error =
+      response.status >= 200 && response.status < 300
+        ? undefined
+        : `Endpoint responded with HTTP ${response.status}`;
+  } catch (error) {
+    delivery.responseStatus = undefined;
+    delivery.responseBody = undefined;
+    delivery.error =
+      error instanceof Error ? error.message : 'Webhook request failed';
+  }
+
+  delivery.duration = Date.now() - startTime;
+
+  if (!delivery.error) {
+    delivery.status = 'succeeded';
+    delivery.deliveredAt = new Date();
+    delivery.nextAttemptAt = undefined;
+  } else if (delivery.attempts >= MAX_DELIVERY_ATTEMPTS) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = undefined;
+  } else {
+    delivery.status = 'pending';
+    delivery.nextAttemptAt = new Date(
+      Date.now() + getRetryDelayMs(delivery.attempts),
+    );
+  }
+
+  await delivery.save();
+
+  if (delivery.status !== 'pending') {
+    await Webhook.updateOne(
+      { _id: webhook._id },
+      {
+        $set: {
+          lastDeliveryAt: new Date(),
+          lastDeliveryStatus: delivery.status,
+        },
+      },
+    );
+  }
+
+  return delivery;
+}
+
+/**
+ * Create a delivery that this instance owns and send its first attempt
+ */
+async function deliver(
+  webhook: Pick<IWebhook, '_id' | 'companyId'>,
+  payload: WebhookEventPayload,
+): Promise<IWebhookDelivery> {
+  const delivery = await new WebhookDelivery({
+    webhookId: webhook._id,
+    companyId: webhook.companyId,
+    event: payload.type,
+    payload,
+    status: 'pending',
+    nextAttemptAt: new Date(Date.now() + DELIVERY_LOCK_MS),
+  }).save();
+
+  return attemptDelivery(delivery);
+}
+
+function buildPayload(
+  companyId: string,
+  event: string,
+  data: Record<string, unknown>,
+): WebhookEventPayload {
+  return {
+    id: uuidv4(),
+    type: event,
+    createdAt: new Date().toISOString(),
+    companyId,
+    data,
+  };
+}
+
+async function queueWebhookEvent(
+  companyId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  assistantId?: string,
+): Promise<void> {
+  const webhooks = (await getActiveWebhooks(companyId)).filter((webhook) =>
+    matchesWebhook(webhook, event, assistantId),
+  );
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const payload = buildPayload(companyId, event, data);
+  await Promise.all(webhooks.map((webhook) => deliver(webhook, payload)));
+}
+
+/**
+ * Send an event to every matching webhook of the company.
+ * Fire-and-forget: delivery problems never affect the caller.
+ */
+export function emitWebhookEvent(
+  companyId: string | mongoose.Types.ObjectId | undefined,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  assistantId?: string | mongoose.Types.ObjectId,
+): void {
+  if (!companyId) {
+    return;
+  }
+  queueWebhookEvent(
+    companyId.toString(),
+    event,
+    data,
+    assistantId?.toString(),
+  ).catch((error) => {
+    console.error(`[WEBHOOKS] Failed to queue ${event} event:`, error);
+  });
+}
+
+/**
+ * Send a test event to a webhook and wait for the first attempt's outcome
+ */
+export async function sendTestWebhook(
+  companyId: string,
+  webhookId: string,
+): Promise<IWebhookDelivery> {
+  const webhook = await getWebhook(companyId, webhookId);
+  if (!webhook) {
+    throw new NotFoundError('Webhook');
+  }
+  return deliver(
+    webhook,
+    buildPayload(companyId, TEST_EVENT, {
+      webhookId: webhook._id.toString(),
+      message: 'This is a test event',
+    }),
+  );
+}
+
+/**
+ * Send a delivery again with a fresh set of attempts
+ */
+export async function redeliverWebhookDelivery(
+  companyId: string,
+  deliveryId: string,
+): Promise<IWebhookDelivery> {
+  const delivery = mongoose.Types.ObjectId.isValid(deliveryId)
+    ? await WebhookDelivery.findOneAndUpdate(
+        { _id: deliveryId, companyId, status: { $ne: 'pending' } },
+        {
+          $set: {
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: new Date(Date.now() + DELIVERY_LOCK_MS),
+          },
+        },
+        { new: true },
+      )
+    : null;
+  if (!delivery) {
+    throw new NotFoundError('Completed delivery');
+  }
+  return attemptDelivery(delivery);
+}
+
+async function claimDueDelivery(now: Date): Promise<IWebhookDelivery | null> {
+  return WebhookDelivery.findOneAndUpdate(
+    { status: 'pending', nextAttemptAt: { $lte: now } },
+    { $set: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LOCK_MS) } },
+    { sort: { nextAttemptAt: 1 }, new: true },
+  );
+}
+
+/**
+ * Retry every delivery whose next attempt is due
+ */
+export async function processPendingDeliveries(): Promise<number> {
+  if (polling) {
+    return 0;
+  }
+  polling = true;
+  let processed = 0;
+
+  try {
+    let delivery: IWebhookDelivery | null;
+    while ((delivery = await claimDueDelivery(new Date()))) {
+      await attemptDelivery(delivery);
+      processed++;
+    }
+  } catch (error) {
+    console.error('[WEBHOOKS] Error retrying deliveries:', error);
+  } finally {
+    polling = false;
+  }
+
+  return processed;
+}
+
+/**
+ * Start polling for deliveries to retry
+ */
+export function startWebhookDispatcher(): void {
+  if (pollTimer) {
+    return;
+  }
+  pollTimer = setInterval(() => {
+    void processPendingDeliveries();
+  }, POLL_INTERVAL_MS);
+  console.log(
+    `[WEBHOOKS] Retry dispatcher started, polling every ${POLL_INTERVAL_MS / 1000}s`,
+  );
+}
+
+export function stopWebhookDispatcher(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+/**
+ * Emit message.created for a saved session message
+ */
+export function emitMessageCreated(
+  companyId: string | mongoose.Types.ObjectId | undefined,
+  message: IMessage,
+): void {
+  emitWebhookEvent(
+    companyId,
+    'message.created',
+    {
+      messageId: message._id.toString(),
+      sessionId: message.sessionId?.toString(),
+      assistantId: message.assistantId?.toString(),
+      userId: message.userId?.toString(),
+      sender: message.sender,
+      messageType: message.messageType,
+      content: message.content,
+      timestamp: message.timestamp,
+    },
+    message.assistantId,
+  );
+}
@@ -10,6 +10,8 @@ import http from 'http';
 import { logger } from '../utils/logger';
 import { verifyToken } from './token.service';
 import { IUser } from '../models/User';
+import { getSharedState } from './shared-state/shared-state';
+import { createSharedStateAdapter } from './shared-state/socket-io.adapter';
 
 let io: Server | null = null;
 
@@ -68,8 +70,14 @@ async function authenticateSocket(
 export function initializeWebSocket(server: http.Server): Server {
   logger.info('Initializing WebSocket server...');
 
+  // With a distributed shared-state store, rooms span all API instances
+  const sharedState = getSharedState();
+
   // Create Socket.io server with CORS configuration
   io = new Server(server, {
+    ...(sharedState.distributed && {
+      adapter: createSharedStateAdapter(sharedState),
+    }),
     cors: {
       origin: process.env.FRONTEND_URL || 'http://localhost:5173',
       methods: ['GET', 'POST'],
@@ -106,6 +114,17 @@ export function initializeWebSocket(server: http.Server): Server {
       logger.error('Failed to register socket for UI RPC:', error);
     }
 
+    // Duplex voice conversations (voice:* events)
+    try {
+      const { registerVoiceHandlers } = await import('./voice/voice-session');
+      registerVoiceHandlers(socket, {
+        userId: authSocket.userId,
+        companyId: authSocket.companyId,
+      });
+    } catch (error) {
+      logger.error('Failed to register voice handlers:', error);
+    }
+
     // Handle JSON-RPC messages (requests and responses)
     socket.on('message', async (rawMessage: string) => {
       try {
@@ -166,7 +185,7 @@ export function initializeWebSocket(server: http.Server): Server {
         const { uiSessionStateService } = await import(
           '../services/ui-session-state.service'
         );
-        uiSessionStateService.updateUIState(authSocket.userId, {
+        await uiSessionStateService.updateUIState(authSocket.userId, {
           sessionId: payload.sessionId,
           currentRoute: payload.currentRoute,
           assistantId: payload.assistantId,
@@ -57,7 +57,7 @@ const setupEventHandlers = (io: SocketServer): void => {
         const { uiSessionStateService } = await import(
           '../ui-session-state.service'
         );
-        uiSessionStateService.updateUIState(userId, {
+        await uiSessionStateService.updateUIState(userId, {
           sessionId: payload.sessionId,
           currentRoute: payload.currentRoute,
           assistantId: payload.assistantId,
@@ -0,0 +1,50 @@
+import { AuthenticatedSocket } from '../../types';
+import { registerRpcMethod } from '../utils';
+import { approveAction, rejectAction } from '../../../action-approval.service';
+
+/**
+ * Approve a paused action; it runs with the proposed arguments
+ */
+registerRpcMethod(
+  'approveAction',
+  async (socket: AuthenticatedSocket, params: any) => {
+    const { userId, companyId } = socket.decodedToken!;
+
+    if (!params?.approvalId) {
+      throw new Error('approvalId is required');
+    }
+
+    const approval = await approveAction(params.approvalId, companyId, userId);
+    return {
+      approvalId: params.approvalId,
+      status: approval.approval?.status,
+      result: approval.approval?.result,
+      error: approval.approval?.error,
+    };
+  },
+);
+
+/**
+ * Reject a paused action; it is never run
+ */
+registerRpcMethod(
+  'rejectAction',
+  async (socket: AuthenticatedSocket, params: any) => {
+    const { userId, companyId } = socket.decodedToken!;
+
+    if (!params?.approvalId) {
+      throw new Error('approvalId is required');
+    }
+
+    const approval = await rejectAction(
+      params.approvalId,
+      companyId,
+      userId,
+      params.reason,
+    );
+    return {
+      approvalId: params.approvalId,
+      status: approval.approval?.status,
+    };
+  },
+);
@@ -4,5 +4,7 @@ import './completion';
 import './speech';
 import './journal';
 import './workspace';
+import './approval';
+import './workflow';
 
 // Add other method imports as needed
@@ -36,12 +36,15 @@ const processSessionMessage = async (
   // Process the message and get response
   const response = await handleSessionMessage(userInput, socket.sessionId!);
 
-  // Notify UI about assistant response
-  await publishSessionMessage(socket.sessionId!, 'chat_message', {
-    type: 'assistant',
-    content: response,
-    timestamp: new Date().toISOString(),
-  });
+  // Notify UI about assistant response. There is none while a human
+  // operator has taken over the session.
+  if (response !== '') {
+    await publishSessionMessage(socket.sessionId!, 'chat_message', {
+      type: 'assistant',
+      content: response,
+      timestamp: new Date().toISOString(),
+    });
+  }
 
   return {
     response,
@@ -2,6 +2,7 @@ import { AuthenticatedSocket } from '../../types';
 import { SpeechFactory } from '../../../speech/speech.factory';
 import { registerRpcMethod } from '../utils';
 import { getApiKey } from '../../../api.key.service';
+import { transcribeAudio } from '../../../speech.recognition.service';
 
 // Register the RPC method
 registerRpcMethod(
@@ -22,12 +23,10 @@ registerRpcMethod(
     const { companyId } = socket.decodedToken!;
 
     // Get appropriate API key based on provider
-    let apiKey;
-    if (provider === 'elevenlabs') {
-      apiKey = (await getApiKey(companyId, 'labs11_api_key')) as string;
-    } else {
-      apiKey = (await getApiKey(companyId, 'openai_api_key')) as string;
-    }
+    const apiKey = (await getApiKey(
+      companyId,
+      SpeechFactory.getApiKeyType(provider),
+    )) as string;
 
     const speechProvider = SpeechFactory.getProvider(provider, apiKey);
     const audioUrl = await speechProvider.generateSpeech(text, {
@@ -43,3 +42,28 @@ registerRpcMethod(
     };
   },
 );
+
+/**
+ * Transcribe base64 audio with a speech-to-text provider (STT_PROVIDER by
+ * default)
+ */
+registerRpcMethod(
+  'transcribeAudio',
+  async (socket: AuthenticatedSocket, params: any) => {
+    if (!params?.audio) {
+      throw new Error('audio is required');
+    }
+
+    const { companyId } = socket.decodedToken!;
+    return transcribeAudio(companyId, Buffer.from(params.audio, 'base64'), {
+      provider: params.provider,
+      language: params.language,
+      mimeType: params.mimeType,
+      filename: params.filename,
+      sampleRate: params.sampleRate,
+      wordTimestamps: params.wordTimestamps === true,
+      diarization: params.diarization === true,
+      speakerCount: params.speakerCount,
+    });
+  },
+);
@@ -0,0 +1,196 @@
+import { AuthenticatedSocket } from '../../types';
+import { registerRpcMethod } from '../utils';
+import {
+  listWorkflows,
+  startWorkflowRun,
+  getWorkflowRun,
+  listWorkflowRuns,
+  cancelWorkflowRun,
+  decideWorkflowApproval,
+  onWorkflowRunUpdate,
+} from '../../../workflow/workflow.service';
+
+// Sockets following a run's progress, by run id
+const runSubscribers = new Map<string, Set<AuthenticatedSocket>>();
+
+const unsubscribe = (runId: string, socket: AuthenticatedSocket): void => {
+  const sockets = runSubscribers.get(runId);
+  if (!sockets) {
+    return;
+  }
+  sockets.delete(socket);
+  if (sockets.size === 0) {
+    runSubscribers.delete(runId);
+  }
+};
+
+// Push run and step updates to subscribers as `workflowRunUpdated`
+// notifications
+onWorkflowRunUpdate((update) => {
+  const sockets = runSubscribers.get(update.runId);
+  if (!sockets) {
+    return;
+  }
+  const notification = JSON.stringify({
+    jsonrpc: '2.0',
+    method: 'workflowRunUpdated',
+    params: update,
+  });
+  for (const socket of sockets) {
+    if (socket.decodedToken?.companyId === update.companyId) {
+      socket.emit('message', notification);
+    }
+  }
+});
+
+/**
+ * List the company's workflows
+ */
+registerRpcMethod(
+  'listWorkflows',
+  async (socket: AuthenticatedSocket, _params: any) => {
+    const { companyId } = socket.decodedToken!;
+    return listWorkflows(companyId);
+  },
+);
+
+/**
+ * Start a workflow run; follow it with subscribeWorkflowRun
+ */
+registerRpcMethod(
+  'startWorkflowRun',
+  async (socket: AuthenticatedSocket, params: any) => {
+    const { userId, companyId } = socket.decodedToken!;
+
+    if (!params?.workflowId) {
+      throw new Error('workflowId is required');
+    }
+
+    return startWorkflowRun(companyId, params.workflowId, params.input, userId);
+  },
+);
+
+/**
+ * Get a run with the state of each step
+ */
+registerRpcMethod(
+  'getWorkflowRun',
+  async (socket: AuthenticatedSocket, params: any) => {
+    const { companyId } = socket.decodedToken!;
+
+    if (!params?.runId) {
+      throw new Error('runId is required');
+    }
+
+    const run = await getWorkflowRun(companyId, params.runId);
+    if (!run) {
+      throw new Error('Workflow run not found');
+    }
+    return run;
+  },
+);
+
+/**
+ * Recent runs, optionally of one workflow or in one status
+ */
+registerRpcMethod(
+  'listWorkflowRuns',
+  async (socket: AuthenticatedSocket, params: any) => {
+    const { companyId } = socket.decodedToken!;
+    return listWorkflowRuns(companyId, {
+      workflowId: params?.workflowId,
+      status: params?.status,
+      limit: params?.limit,
+    });
+  },
+);
+
+/**
+ * Cancel a running or paused run
+ */
+registerRpcMethod(
+  'cancelWorkflowRun',
+  async (socket: AuthenticatedSocket, params: any) => {
+    const { companyId } = socket.decodedToken!;
+
+    if (!params?.runId) {
+      throw new Error('runId is required');
+    }
+
+    return cancelWorkflowRun(companyId, params.runId);
+  },
+);
+
+/**
+ * Approve or reject an approval step: { runId, step, approved, reason? }
+ */
+registerRpcMethod(
+  'decideWorkflowStep',
+  async (socket: AuthenticatedSocket, params: any) => {
+    const { userId, companyId } = socket.decodedToken!;
+
+    if (!params?.runId || !params?.step) {
+      throw new Error('runId and step are required');
+    }
+    if (typeof params.approved !== 'boolean') {
+      throw new Error('approved must be a boolean');
+    }
+
+    return decideWorkflowApproval(
+      companyId,
+      params.runId,
+      params.step,
+      params.approved,
+      userId,
+      params.reason,
+    );
+  },
+);
+
+/**
+ * Receive `workflowRunUpdated` notifications for a run until unsubscribed
+ * or disconnected
+ */
+registerRpcMethod(
+  'subscribeWorkflowRun',
+  async (socket: AuthenticatedSocket, params: any) => {
+    const { companyId } = socket.decodedToken!;
+
+    if (!params?.runId) {
+      throw new Error('runId is required');
+    }
+
+    const run = await getWorkflowRun(companyId, params.runId);
+    if (!run) {
+      throw new Error('Workflow run not found');
+    }
+
+    const runId = run._id.toString();
+    let sockets = runSubscribers.get(runId);
+    if (!sockets) {
+      sockets = new Set();
+      runSubscribers.set(runId, sockets);
+    }
+    if (!sockets.has(socket)) {
+      sockets.add(socket);
+      socket.once('disconnect', () => unsubscribe(runId, socket));
+    }
+
+    return { runId, status: run.status };
+  },
+);
+
+/**
+ * Stop receiving updates for a run
+ */
+registerRpcMethod(
+  'unsubscribeWorkflowRun',
+  async (socket: AuthenticatedSocket, params: any) => {
+    if (!params?.runId) {
+      throw new Error('runId is required');
+    }
+
+    unsubscribe(params.runId, socket);
+    return { runId: params.runId };
+  },
+);
@@ -1,9 +1,18 @@
 import { AuthenticatedSocket } from '../../types';
 import { registerRpcMethod } from '../utils';
 import { UnifiedWorkspaceService } from '../../../unified-workspace.service';
+import { WorkspacePrincipal } from '../../../workspace-acl.service';
 
 const workspaceService = new UnifiedWorkspaceService();
 
+// Workspace ACLs apply to the user the socket is authenticated as
+const getSocketPrincipal = (
+  socket: AuthenticatedSocket,
+): WorkspacePrincipal => {
+  const { userId, companyId } = socket.decodedToken!;
+  return { type: 'user', id: userId, companyId };
+};
+
 /**
  * Save search result to workspace
  */
@@ -25,6 +34,7 @@ registerRpcMethod(
       {
         scope: 'agent',
         agentId: params.agentId || 'default',
+        principal: getSocketPrincipal(socket),
       },
     );
 
@@ -57,6 +67,7 @@ registerRpcMethod(
       JSON.stringify(params.value),
       {
         scope: 'session', // Use session scope for UI state
+        principal: getSocketPrincipal(socket),
       },
     );
 
@@ -85,6 +96,7 @@ registerRpcMethod(
       socket.id, // Use socket ID as session ID
       params.path,
       params.agentId, // Optional agent ID for agent scope
+      { principal: getSocketPrincipal(socket) },
     );
 
     if (!result.found) {
@@ -117,6 +129,7 @@ registerRpcMethod(
       socket.id, // Use socket ID as session ID
       params?.prefix || '/',
       params?.agentId, // Optional agent ID for agent scope
+      { principal: getSocketPrincipal(socket) },
     );
 
     return {
@@ -226,6 +239,7 @@ registerRpcMethod(
         {
           scope: 'agent',
           agentId: params.assistantId,
+          principal: getSocketPrincipal(socket),
         },
       );
     }
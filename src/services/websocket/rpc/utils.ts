@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { AuthenticatedSocket } from '../types';
+import { BudgetExceededError } from '../../../utils/errors';
 import {
   JsonRpcRequest,
   JsonRpcResponse,
@@ -29,9 +30,10 @@ const createJsonRpcErrorResponse = (
   id: string,
   code: JsonRpcErrorCode,
   message: string,
+  data?: any,
 ): JsonRpcResponse => ({
   jsonrpc: '2.0',
-  error: { code, message },
+  error: { code, message, ...(data !== undefined && { data }) },
   id,
 });
 
@@ -131,6 +133,9 @@ export const handleRpcRequest = async (
           request.id,
           RPC_ERROR_CODES.INTERNAL_ERROR,
           error instanceof Error ? error.message : 'Internal error',
+          error instanceof BudgetExceededError
+            ? { code: error.code, budget: error.details }
+            : undefined,
         ),
       ),
     );
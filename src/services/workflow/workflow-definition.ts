@@ -0,0 +1,335 @@
+import { isDeepStrictEqual } from 'util';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import {
+  IWorkflowCondition,
+  IWorkflowDefinition,
+  IWorkflowStep,
+  WorkflowConditionOperator,
+  WorkflowSourceFormat,
+  WorkflowStepType,
+} from '../../models/Workflow';
+import { BadRequestError } from '../../utils/errors';
+
+/**
+ * Workflow definitions: parsing JSON/YAML sources, validation, `{{...}}`
+ * templates and conditions
+ */
+
+const STEP_TYPES: WorkflowStepType[] = [
+  'assistant',
+  'action',
+  'condition',
+  'parallel',
+  'loop',
+  'approval',
+];
+
+const CONDITION_OPERATORS: WorkflowConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'exists',
+  'not_exists',
+  'greater_than',
+  'less_than',
+  'contains',
+];
+
+const STEP_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+
+/**
+ * Values templates and conditions can reference
+ */
+export interface WorkflowScope {
+  input: unknown;
+  steps: Record<string, { status: string; output?: unknown }>;
+  item?: unknown; // Current loop item
+  index?: number; // Current loop index
+}
+
+export interface ParsedWorkflowSource {
+  format: WorkflowSourceFormat;
+  source: string;
+  definition: IWorkflowDefinition;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const assertJsonSchema = (schema: unknown, label: string): void => {
+  if (schema === undefined) {
+    return;
+  }
+  try {
+    z.fromJSONSchema(schema as Record<string, unknown>);
+  } catch {
+    throw new BadRequestError(`${label} is not a valid JSON schema`);
+  }
+};
+
+function validateCondition(condition: unknown, label: string): void {
+  if (!isObject(condition)) {
+    throw new BadRequestError(`${label} must be an object`);
+  }
+  for (const key of ['all', 'any'] as const) {
+    if (condition[key] !== undefined) {
+      if (!Array.isArray(condition[key]) || condition[key].length === 0) {
+        throw new BadRequestError(`${label}.${key} must be a non-empty list`);
+      }
+      condition[key].forEach((nested: unknown, i: number) =>
+        validateCondition(nested, `${label}.${key}[${i}]`),
+      );
+      return;
+    }
+  }
+  if (typeof condition.path !== 'string' || !condition.path) {
+    throw new BadRequestError(`${label}.path is required`);
+  }
+  if (
+    condition.operator !== undefined &&
+    !CONDITION_OPERATORS.includes(condition.operator)
+  ) {
+    throw new BadRequestError(
+      `${label}.operator must be one of: ${CONDITION_OPERATORS.join(', ')}`,
+    );
+  }
+}
+
+function validateSteps(steps: unknown, label: string, ids: Set<string>): void {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new BadRequestError(`${label} must be a non-empty list of steps`);
+  }
+  steps.forEach((step, i) => validateStep(step, `${label}[${i}]`, ids));
+}
+
+function validateStep(step: unknown, label: string, ids: Set<string>): void {
+  if (!isObject(step)) {
+    throw new BadRequestError(`${label} must be an object`);
+  }
+  if (typeof step.id !== 'string' || !STEP_ID_PATTERN.test(step.id)) {
+    throw new BadRequestError(
+      `${label}.id is required and may only contain letters, digits, "_" and "-"`,
+    );
+  }
+  if (ids.has(step.id)) {
+    throw new BadRequestError(`${label}: duplicate step id "${step.id}"`);
+  }
+  ids.add(step.id);
+
+  const at = `Step "${step.id}"`;
+  const requireString = (field: string) => {
+    if (typeof step[field] !== 'string' || !step[field].trim()) {
+      throw new BadRequestError(
+        `${at}: ${field} is required for ${step.type} steps`,
+      );
+    }
+  };
+
+  switch (step.type) {
+    case 'assistant':
+      requireString('assistantId');
+      requireString('prompt');
+      assertJsonSchema(step.outputSchema, `${at}: outputSchema`);
+      return;
+    case 'action':
+      requireString('action');
+      if (!step.action.includes('.')) {
+        throw new BadRequestError(
+          `${at}: action must be "<integration>.<action>"`,
+        );
+      }
+      if (step.args !== undefined && !isObject(step.args)) {
+        throw new BadRequestError(`${at}: args must be an object`);
+      }
+      return;
+    case 'condition':
+      validateCondition(step.if, `${at}: if`);
+      validateSteps(step.then, `${at}: then`, ids);
+      if (step.else !== undefined) {
+        validateSteps(step.else, `${at}: else`, ids);
+      }
+      return;
+    case 'parallel':
+      if (!Array.isArray(step.branches) || step.branches.length === 0) {
+        throw new BadRequestError(
+          `${at}: branches must be a non-empty list of step lists`,
+        );
+      }
+      step.branches.forEach((branch: unknown, i: number) =>
+        validateSteps(branch, `${at}: branches[${i}]`, ids),
+      );
+      return;
+    case 'loop':
+      requireString('over');
+      validateSteps(step.steps, `${at}: steps`, ids);
+      return;
+    case 'approval':
+      requireString('message');
+      return;
+    default:
+      throw new BadRequestError(
+        `${at}: type must be one of: ${STEP_TYPES.join(', ')}`,
+      );
+  }
+}
+
+/**
+ * Check a definition's structure: known step types with their required
+ * fields, unique step ids and valid JSON schemas
+ * @throws BadRequestError naming the offending step
+ */
+export function validateWorkflowDefinition(
+  definition: unknown,
+): IWorkflowDefinition {
+  if (!isObject(definition)) {
+    throw new BadRequestError('Workflow definition must be an object');
+  }
+  assertJsonSchema(definition.inputSchema, 'inputSchema');
+  validateSteps(definition.steps, 'steps', new Set());
+  return definition as IWorkflowDefinition;
+}
+
+/**
+ * Parse and validate a definition given as an object, JSON text or YAML
+ * text. Text starting with `{` is read as JSON unless a format is given.
+ */
+export function parseWorkflowSource(
+  source: string | Record<string, unknown>,
+  format?: WorkflowSourceFormat,
+): ParsedWorkflowSource {
+  if (typeof source !== 'string') {
+    return {
+      format: 'json',
+      source: JSON.stringify(source, null, 2),
+      definition: validateWorkflowDefinition(source),
+    };
+  }
+
+  const resolvedFormat =
+    format || (source.trim().startsWith('{') ? 'json' : 'yaml');
+  let parsed: unknown;
+  try {
+    parsed =
+      resolvedFormat === 'json' ? JSON.parse(source) : yaml.safeLoad(source);
+  } catch (error: any) {
+    throw new BadRequestError(
+      `Invalid workflow ${resolvedFormat.toUpperCase()}: ${error.message}`,
+    );
+  }
+  return {
+    format: resolvedFormat,
+    source,
+    definition: validateWorkflowDefinition(parsed),
+  };
+}
+
+/**
+ * Visit every step, including those nested in conditions, branches and loops
+ */
+export function forEachWorkflowStep(
+  steps: IWorkflowStep[],
+  visit: (step: IWorkflowStep) => void,
+): void {
+  for (const step of steps) {
+    visit(step);
+    const nested = [
+      step.then,
+      step.else,
+      step.steps,
+      ...(step.branches || []),
+    ].filter(Boolean);
+    nested.forEach((children) => forEachWorkflowStep(children, visit));
+  }
+}
+
+/**
+ * Read a dotted path ("steps.fetch.output.items.0") from the scope
+ */
+export function getScopeValue(scope: WorkflowScope, path: string): unknown {
+  return path
+    .trim()
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === 'object'
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      scope,
+    );
+}
+
+/**
+ * Replace `{{path}}` references in strings, arrays and objects. A string
+ * that is a single reference resolves to the referenced value itself, so
+ * objects and arrays keep their type.
+ */
+export function resolveTemplate(value: unknown, scope: WorkflowScope): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_TEMPLATE_PATTERN);
+    if (whole) {
+      return getScopeValue(scope, whole[1]);
+    }
+    return value.replace(TEMPLATE_PATTERN, (_, path: string) => {
+      const resolved = getScopeValue(scope, path);
+      if (resolved === undefined || resolved === null) {
+        return '';
+      }
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplate(item, scope));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolveTemplate(item, scope),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Evaluate a condition against the scope. Without an operator, `equals`
+ * is used.
+ */
+export function evaluateCondition(
+  condition: IWorkflowCondition,
+  scope: WorkflowScope,
+): boolean {
+  if (condition.all) {
+    return condition.all.every((nested) => evaluateCondition(nested, scope));
+  }
+  if (condition.any) {
+    return condition.any.some((nested) => evaluateCondition(nested, scope));
+  }
+
+  const actual = getScopeValue(scope, condition.path || '');
+  const expected = resolveTemplate(condition.value, scope);
+  switch (condition.operator || 'equals') {
+    case 'equals':
+      return isDeepStrictEqual(actual, expected);
+    case 'not_equals':
+      return !isDeepStrictEqual(actual, expected);
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'not_exists':
+      return actual === undefined || actual === null;
+    case 'greater_than':
+      return Number(actual) > Number(expected);
+    case 'less_than':
+      return Number(actual) < Number(expected);
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some((item) => isDeepStrictEqual(item, expected));
+      }
+      return typeof actual === 'string' && actual.includes(String(expected));
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,615 @@
+import { Assistant } from '../../models/Assistant';
+import { CostTracking } from '../../models/CostTracking';
+import { IJobRunCost } from '../../models/ScheduledJobRun';
+import { IWorkflowStep } from '../../models/Workflow';
+import {
+  IWorkflowRun,
+  IWorkflowStepState,
+  WorkflowRun,
+  WorkflowRunStatus,
+} from '../../models/WorkflowRun';
+import { executeFunctionCallWithContext } from '../../integrations/actions/executors';
+import { sanitizeFunctionName } from '../../integrations/actions/utils';
+import {
+  executeAssistantStateless,
+  statelessResponseToText,
+} from '../assistant/stateless-execution.service';
+import {
+  buildDelegationPrompt,
+  parseDelegationOutput,
+} from '../delegation.service';
+import {
+  evaluateCondition,
+  resolveTemplate,
+  WorkflowScope,
+} from './workflow-definition';
+
+/**
+ * Workflow run execution.
+ *
+ * A run is executed by walking its definition from the top. Every step's
+ * state is written to the run document as it changes, and finished steps
+ * are reused instead of re-run, so a run interrupted by a crash resumes
+ * where it stopped: the instance executing a run holds a lease that it
+ * renews, and runs whose lease expired are picked up by the poller. A step
+ * that was in progress when the crash happened runs again.
+ *
+ * Approval steps pause the run (`waiting_approval`); deciding the approval
+ * resumes it the same way.
+ */
+
+// How often to look for runs to resume
+const POLL_INTERVAL_MS = 30 * 1000;
+
+// A run whose lease is not renewed for this long is resumed elsewhere
+const RUN_LEASE_MS = 2 * 60 * 1000;
+const LEASE_RENEW_MS = 30 * 1000;
+
+const MAX_LOOP_ITERATIONS = 100;
+
+const STEP_KEY_SEPARATOR = '/';
+
+let pollTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Published whenever a run or one of its steps changes state
+ */
+export interface WorkflowRunUpdate {
+  runId: string;
+  companyId: string;
+  status: WorkflowRunStatus;
+  stepKey?: string;
+  step?: IWorkflowStepState;
+}
+
+type WorkflowRunListener = (update: WorkflowRunUpdate) => void;
+
+const listeners = new Set<WorkflowRunListener>();
+
+/**
+ * Subscribe to run updates. Returns a function that unsubscribes.
+ */
+export function onWorkflowRunUpdate(listener: WorkflowRunListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function publishWorkflowRunUpdate(update: WorkflowRunUpdate): void {
+  for (const listener of listeners) {
+    try {
+      listener(update);
+    } catch (error) {
+      console.error('[WORKFLOW] Run update listener failed:', error);
+    }
+  }
+}
+
+/**
+ * Thrown when a step waits for approval; the run pauses
+ */
+class WorkflowPaused extends Error {
+  constructor() {
+    super('Workflow is waiting for approval');
+  }
+}
+
+/**
+ * Thrown when the run was cancelled or deleted while executing
+ */
+class WorkflowStopped extends Error {
+  constructor() {
+    super('Workflow run is no longer running');
+  }
+}
+
+interface RunContext {
+  run: IWorkflowRun;
+  runId: string;
+  companyId: string;
+}
+
+async function saveStepState(
+  context: RunContext,
+  key: string,
+  state: IWorkflowStepState,
+): Promise<void> {
+  context.run.steps[key] = state;
+  const { matchedCount } = await WorkflowRun.updateOne(
+    { _id: context.run._id, status: 'running' },
+    { $set: { [`steps.${key}`]: state } },
+  );
+  if (matchedCount === 0) {
+    throw new WorkflowStopped();
+  }
+  publishWorkflowRunUpdate({
+    runId: context.runId,
+    companyId: context.companyId,
+    status: 'running',
+    stepKey: key,
+    step: state,
+  });
+}
+
+async function runAssistantStep(
+  context: RunContext,
+  step: IWorkflowStep,
+  scope: WorkflowScope,
+  key: string,
+): Promise<unknown> {
+  const assistant = await Assistant.findOne({
+    _id: step.assistantId,
+    companyId: context.companyId,
+  });
+  if (!assistant) {
+    throw new Error(`Assistant ${step.assistantId} not found`);
+  }
+
+  const prompt = buildDelegationPrompt({
+    instructions: String(resolveTemplate(step.prompt, scope)),
+    outputSchema: step.outputSchema,
+  });
+  const response = await executeAssistantStateless(
+    assistant,
+    prompt,
+    context.companyId,
+    context.run.createdBy.toString(),
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    { workflowRunId: context.runId, workflowStepKey: key },
+  );
+  const text = statelessResponseToText(response);
+  return step.outputSchema
+    ? parseDelegationOutput(text, step.outputSchema)
+    : text;
+}
+
+async function runActionStep(
+  context: RunContext,
+  step: IWorkflowStep,
+  scope: WorkflowScope,
+): Promise<unknown> {
+  const args = resolveTemplate(step.args || {}, scope);
+  const { result, error } = await executeFunctionCallWithContext(
+    {
+      function: {
+        name: sanitizeFunctionName(step.action!),
+        arguments: JSON.stringify(args),
+      },
+    },
+    {
+      sessionId: 'stateless_execution',
+      companyId: context.companyId,
+      language: 'en',
+      userId: context.run.createdBy.toString(),
+      isStateless: true,
+    },
+    [step.action!],
+  );
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (typeof result === 'string' && result.startsWith('Error:')) {
+    throw new Error(result.replace(/^Error:\s*/, ''));
+  }
+  return result;
+}
+
+/**
+ * Run an assistant, action or approval step unless it already finished
+ */
+async function runLeafStep(
+  context: RunContext,
+  step: IWorkflowStep,
+  scope: WorkflowScope,
+  key: string,
+): Promise<unknown> {
+  const existing = context.run.steps[key];
+  if (existing?.status === 'succeeded') {
+    return existing.output;
+  }
+  if (existing?.status === 'waiting_approval') {
+    throw new WorkflowPaused();
+  }
+
+  const startedAt = new Date();
+  if (step.type === 'approval') {
+    await saveStepState(context, key, {
+      status: 'waiting_approval',
+      type: step.type,
+      message: String(resolveTemplate(step.message, scope)),
+      startedAt,
+    });
+    throw new WorkflowPaused();
+  }
+
+  await saveStepState(context, key, {
+    status: 'running',
+    type: step.type,
+    startedAt,
+  });
+  try {
+    const output =
+      step.type === 'assistant'
+        ? await runAssistantStep(context, step, scope, key)
+        : await runActionStep(context, step, scope);
+    await saveStepState(context, key, {
+      status: 'succeeded',
+      type: step.type,
+      output,
+      startedAt,
+      finishedAt: new Date(),
+    });
+    return output;
+  } catch (error: any) {
+    if (error instanceof WorkflowStopped) {
+      throw error;
+    }
+    await saveStepState(context, key, {
+      status: 'failed',
+      type: step.type,
+      error: error.message || String(error),
+      startedAt,
+      finishedAt: new Date(),
+    });
+    throw new Error(`Step "${step.id}" failed: ${error.message || error}`);
+  }
+}
+
+/**
+ * Run the branches of a parallel step. Branches keep running when another
+ * pauses for approval; the step pauses once all of them settled.
+ */
+async function runParallelStep(
+  context: RunContext,
+  step: IWorkflowStep,
+  scope: WorkflowScope,
+  prefix: string,
+): Promise<unknown[]> {
+  const results = await Promise.allSettled(
+    step.branches!.map((branch) =>
+      executeSteps(context, branch, scope, prefix),
+    ),
+  );
+  const failure = results.find(
+    (result): result is PromiseRejectedResult =>
+      result.status === 'rejected' &&
+      !(result.reason instanceof WorkflowPaused),
+  );
+  if (failure) {
+    throw failure.reason;
+  }
+  if (results.some((result) => result.status === 'rejected')) {
+    throw new WorkflowPaused();
+  }
+  return results.map(
+    (result) => (result as PromiseFulfilledResult<unknown>).value,
+  );
+}
+
+/**
+ * Run a loop's steps once per item, in order. Each iteration sees the
+ * outputs of earlier steps plus its own, with `item` and `index` set.
+ */
+async function runLoopStep(
+  context: RunContext,
+  step: IWorkflowStep,
+  scope: WorkflowScope,
+  key: string,
+): Promise<unknown[]> {
+  const items = resolveTemplate(step.over, scope);
+  if (!Array.isArray(items)) {
+    throw new Error(`Step "${step.id}": "${step.over}" is not an array`);
+  }
+  if (items.length > MAX_LOOP_ITERATIONS) {
+    throw new Error(
+      `Step "${step.id}": ${items.length} items exceed the limit of ${MAX_LOOP_ITERATIONS}`,
+    );
+  }
+
+  const outputs: unknown[] = [];
+  for (const [index, item] of items.entries()) {
+    const iterationScope: WorkflowScope = {
+      ...scope,
+      steps: { ...scope.steps },
+      item,
+      index,
+    };
+    outputs.push(
+      await executeSteps(
+        context,
+        step.steps!,
+        iterationScope,
+        `${key}#${index}${STEP_KEY_SEPARATOR}`,
+      ),
+    );
+  }
+  return outputs;
+}
+
+async function executeStep(
+  context: RunContext,
+  step: IWorkflowStep,
+  scope: WorkflowScope,
+  prefix: string,
+): Promise<unknown> {
+  const key = `${prefix}${step.id}`;
+  if (
+    step.type === 'assistant' ||
+    step.type === 'action' ||
+    step.type === 'approval'
+  ) {
+    return runLeafStep(context, step, scope, key);
+  }
+
+  // Containers are walked again on resume; their finished children are
+  // reused, so conditions and loops see the same outputs as before
+  const existing = context.run.steps[key];
+  const startedAt = existing?.startedAt ?? new Date();
+  if (!existing) {
+    await saveStepState(context, key, {
+      status: 'running',
+      type: step.type,
+      startedAt,
+    });
+  }
+
+  let output: unknown;
+  if (step.type === 'condition') {
+    const branch = evaluateCondition(step.if!, scope) ? step.then : step.else;
+    output = branch ? await executeSteps(context, branch, scope, prefix) : null;
+  } else if (step.type === 'parallel') {
+    output = await runParallelStep(context, step, scope, prefix);
+  } else {
+    output = await runLoopStep(context, step, scope, key);
+  }
+
+  if (existing?.status !== 'succeeded') {
+    await saveStepState(context, key, {
+      status: 'succeeded',
+      type: step.type,
+      output,
+      startedAt,
+      finishedAt: new Date(),
+    });
+  }
+  return output;
+}
+
+/**
+ * Run steps in order, recording each output in the scope. Returns the
+ * output of the last step.
+ */
+async function executeSteps(
+  context: RunContext,
+  steps: IWorkflowStep[],
+  scope: WorkflowScope,
+  prefix: string,
+): Promise<unknown> {
+  let output: unknown;
+  for (const step of steps) {
+    output = await executeStep(context, step, scope, prefix);
+    scope.steps[step.id] = { status: 'succeeded', output };
+  }
+  return output;
+}
+
+/**
+ * Sum the cost records produced by a run's assistant steps
+ */
+async function getRunCost(runId: string): Promise<IJobRunCost> {
+  const [totals] = await CostTracking.aggregate([
+    { $match: { 'metadata.workflowRunId': runId } },
+    {
+      $group: {
+        _id: null,
+        inputTokens: { $sum: '$inputTokens' },
+        outputTokens: { $sum: '$outputTokens' },
+        totalTokens: { $sum: '$totalTokens' },
+        totalCost: { $sum: '$totalCost' },
+      },
+    },
+  ]);
+  return {
+    inputTokens: totals?.inputTokens || 0,
+    outputTokens: totals?.outputTokens || 0,
+    totalTokens: totals?.totalTokens || 0,
+    totalCost: totals?.totalCost || 0,
+  };
+}
+
+/**
+ * Record the end of a run, unless it was cancelled meanwhile
+ */
+async function finishRun(
+  context: RunContext,
+  status: 'succeeded' | 'failed',
+  result: { output?: unknown; error?: string },
+): Promise<void> {
+  const finishedAt = new Date();
+  const cost = await getRunCost(context.runId);
+  await WorkflowRun.updateOne(
+    { _id: context.run._id, status: 'running' },
+    {
+      $set: {
+        status,
+        ...result,
+        cost,
+        finishedAt,
+        duration: finishedAt.getTime() - context.run.startedAt.getTime(),
+      },
+      $unset: { lockedUntil: 1 },
+    },
+  );
+  publishWorkflowRunUpdate({
+    runId: context.runId,
+    companyId: context.companyId,
+    status,
+  });
+  console.log(
+    `[WORKFLOW] Run ${context.runId} (${context.run.workflowName}) ${status}, cost $${cost.totalCost.toFixed(4)}`,
+  );
+}
+
+/**
+ * Pause a run for approval. An approval decided while the run was still
+ * walking may have found the run running; if nothing is left waiting, the
+ * run resumes straight away.
+ */
+async function pauseRun(context: RunContext): Promise<void> {
+  await WorkflowRun.updateOne(
+    { _id: context.run._id, status: 'running' },
+    { $set: { status: 'waiting_approval' }, $unset: { lockedUntil: 1 } },
+  );
+  publishWorkflowRunUpdate({
+    runId: context.runId,
+    companyId: context.companyId,
+    status: 'waiting_approval',
+  });
+
+  const current = await WorkflowRun.findById(context.run._id).lean();
+  const waiting = Object.values(current?.steps || {}).some(
+    (state) => state.status === 'waiting_approval',
+  );
+  if (current?.status === 'waiting_approval' && !waiting) {
+    await WorkflowRun.updateOne(
+      { _id: context.run._id, status: 'waiting_approval' },
+      { $set: { status: 'running' } },
+    );
+    await executeWorkflowRun(context.runId);
+  }
+}
+
+/**
+ * Execute or resume a run. Does nothing if the run is not running or
+ * another instance holds its lease.
+ */
+export async function executeWorkflowRun(runId: string): Promise<void> {
+  const now = new Date();
+  const run = await WorkflowRun.findOneAndUpdate(
+    {
+      _id: runId,
+      status: 'running',
+      $or: [
+        { lockedUntil: { $exists: false } },
+        { lockedUntil: null },
+        { lockedUntil: { $lte: now } },
+      ],
+    },
+    { $set: { lockedUntil: new Date(now.getTime() + RUN_LEASE_MS) } },
+    { new: true },
+  );
+  if (!run) {
+    return;
+  }
+
+  const context: RunContext = {
+    run,
+    runId: run._id.toString(),
+    companyId: run.companyId.toString(),
+  };
+  run.steps = run.steps || {};
+
+  const heartbeat = setInterval(() => {
+    WorkflowRun.updateOne(
+      { _id: run._id, status: 'running' },
+      { $set: { lockedUntil: new Date(Date.now() + RUN_LEASE_MS) } },
+    ).catch((error) =>
+      console.error(`[WORKFLOW] Failed to renew lease of run ${runId}:`, error),
+    );
+  }, LEASE_RENEW_MS);
+
+  let outcome:
+    | { type: 'done'; output: unknown }
+    | { type: 'paused' }
+    | { type: 'stopped' }
+    | { type: 'failed'; error: string };
+  try {
+    const scope: WorkflowScope = { input: run.input, steps: {} };
+    const last = await executeSteps(context, run.definition.steps, scope, '');
+    outcome = {
+      type: 'done',
+      output:
+        run.definition.output !== undefined
+          ? resolveTemplate(run.definition.output, scope)
+          : last,
+    };
+  } catch (error: any) {
+    if (error instanceof WorkflowPaused) {
+      outcome = { type: 'paused' };
+    } else if (error instanceof WorkflowStopped) {
+      outcome = { type: 'stopped' };
+    } else {
+      outcome = { type: 'failed', error: error.message || String(error) };
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  switch (outcome.type) {
+    case 'done':
+      await finishRun(context, 'succeeded', { output: outcome.output });
+      break;
+    case 'failed':
+      await finishRun(context, 'failed', { error: outcome.error });
+      break;
+    case 'paused':
+      await pauseRun(context);
+      break;
+    case 'stopped':
+      console.log(`[WORKFLOW] Run ${runId} stopped`);
+      break;
+  }
+}
+
+/**
+ * Resume runs whose executing instance went away
+ */
+export async function resumeStaleWorkflowRuns(): Promise<number> {
+  const stale = await WorkflowRun.find({
+    status: 'running',
+    $or: [
+      { lockedUntil: { $exists: false } },
+      { lockedUntil: null },
+      { lockedUntil: { $lte: new Date() } },
+    ],
+  })
+    .select('_id')
+    .lean();
+
+  for (const { _id } of stale) {
+    executeWorkflowRun(_id.toString()).catch((error) =>
+      console.error(`[WORKFLOW] Failed to resume run ${_id}:`, error),
+    );
+  }
+  return stale.length;
+}
+
+/**
+ * Start polling for runs to resume, beginning with those interrupted by
+ * the last shutdown
+ */
+export function startWorkflowRuntime(): void {
+  if (pollTimer) {
+    return;
+  }
+  const poll = () =>
+    resumeStaleWorkflowRuns().catch((error) =>
+      console.error('[WORKFLOW] Error resuming runs:', error),
+    );
+  void poll();
+  pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+  console.log(`[WORKFLOW] Started, polling every ${POLL_INTERVAL_MS / 1000}s`);
+}
+
+/**
+ * Stop polling. Runs in progress continue; if the process exits, their
+ * leases expire and another instance resumes them.
+ */
+export function stopWorkflowRuntime(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
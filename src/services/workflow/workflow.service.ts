@@ -0,0 +1,391 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { Assistant } from '../../models/Assistant';
+import {
+  IWorkflow,
+  IWorkflowDefinition,
+  Workflow,
+  WorkflowSourceFormat,
+} from '../../models/Workflow';
+import {
+  IWorkflowRun,
+  WorkflowRun,
+  WorkflowRunStatus,
+} from '../../models/WorkflowRun';
+import { BadRequestError, NotFoundError } from '../../utils/errors';
+import {
+  forEachWorkflowStep,
+  parseWorkflowSource,
+} from './workflow-definition';
+import {
+  executeWorkflowRun,
+  publishWorkflowRunUpdate,
+} from './workflow-runtime';
+
+export {
+  onWorkflowRunUpdate,
+  startWorkflowRuntime,
+  stopWorkflowRuntime,
+} from './workflow-runtime';
+export type { WorkflowRunUpdate } from './workflow-runtime';
+
+/**
+ * Fields accepted when creating or updating a workflow. The definition is
+ * given either as an object (`definition`) or as JSON/YAML text (`source`).
+ */
+export interface WorkflowInput {
+  name?: string;
+  description?: string;
+  definition?: Record<string, unknown>;
+  source?: string;
+  format?: WorkflowSourceFormat;
+}
+
+export interface WorkflowRunFilter {
+  workflowId?: string;
+  status?: WorkflowRunStatus;
+  limit?: number;
+}
+
+const ACTIVE_RUN_STATUSES: WorkflowRunStatus[] = [
+  'running',
+  'waiting_approval',
+];
+
+/**
+ * Every assistant step must name an assistant of the company
+ */
+async function assertDefinitionAssistants(
+  companyId: string,
+  definition: IWorkflowDefinition,
+): Promise<void> {
+  const assistantSteps: { id: string; assistantId: string }[] = [];
+  forEachWorkflowStep(definition.steps, (step) => {
+    if (step.type === 'assistant') {
+      assistantSteps.push({ id: step.id, assistantId: step.assistantId! });
+    }
+  });
+
+  for (const step of assistantSteps) {
+    const exists =
+      mongoose.Types.ObjectId.isValid(step.assistantId) &&
+      (await Assistant.exists({ _id: step.assistantId, companyId }));
+    if (!exists) {
+      throw new BadRequestError(
+        `Step "${step.id}": assistant ${step.assistantId} not found`,
+      );
+    }
+  }
+}
+
+async function parseWorkflowInput(
+  companyId: string,
+  input: WorkflowInput,
+): Promise<ReturnType<typeof parseWorkflowSource>> {
+  const source = input.source ?? input.definition;
+  if (!source) {
+    throw new BadRequestError('definition or source is required');
+  }
+  const parsed = parseWorkflowSource(source, input.format);
+  await assertDefinitionAssistants(companyId, parsed.definition);
+  return parsed;
+}
+
+/**
+ * List a company's workflows
+ */
+export async function listWorkflows(companyId: string): Promise<IWorkflow[]> {
+  return Workflow.find({ companyId }).sort({ name: 1 });
+}
+
+/**
+ * Get a workflow, scoped to the company
+ */
+export async function getWorkflow(
+  companyId: string,
+  workflowId: string,
+): Promise<IWorkflow | null> {
+  if (!mongoose.Types.ObjectId.isValid(workflowId)) {
+    return null;
+  }
+  return Workflow.findOne({ _id: workflowId, companyId });
+}
+
+/**
+ * Create a workflow
+ */
+export async function createWorkflow(
+  companyId: string,
+  input: WorkflowInput,
+  userId: string,
+): Promise<IWorkflow> {
+  if (!input.name?.trim()) {
+    throw new BadRequestError('name is required');
+  }
+  const parsed = await parseWorkflowInput(companyId, input);
+  if (await Workflow.exists({ companyId, name: input.name.trim() })) {
+    throw new BadRequestError(
+      `A workflow named "${input.name}" already exists`,
+    );
+  }
+
+  return new Workflow({
+    companyId,
+    name: input.name.trim(),
+    description: input.description,
+    ...parsed,
+    createdBy: userId,
+  }).save();
+}
+
+/**
+ * Update a workflow. A new definition bumps the version; runs in progress
+ * keep the definition they started with.
+ */
+export async function updateWorkflow(
+  companyId: string,
+  workflowId: string,
+  input: WorkflowInput,
+): Promise<IWorkflow> {
+  const workflow = await getWorkflow(companyId, workflowId);
+  if (!workflow) {
+    throw new NotFoundError('Workflow');
+  }
+
+  if (input.name !== undefined) {
+    const name = input.name.trim();
+    if (!name) {
+      throw new BadRequestError('name cannot be empty');
+    }
+    if (
+      name !== workflow.name &&
+      (await Workflow.exists({ companyId, name }))
+    ) {
+      throw new BadRequestError(`A workflow named "${name}" already exists`);
+    }
+    workflow.name = name;
+  }
+  if (input.description !== undefined) {
+    workflow.description = input.description;
+  }
+  if (input.source !== undefined || input.definition !== undefined) {
+    const parsed = await parseWorkflowInput(companyId, input);
+    workflow.format = parsed.format;
+    workflow.source = parsed.source;
+    workflow.definition = parsed.definition;
+    workflow.markModified('definition');
+    workflow.version += 1;
+  }
+  return workflow.save();
+}
+
+/**
+ * Delete a workflow and its run history. Runs in progress stop at their
+ * next step.
+ */
+export async function deleteWorkflow(
+  companyId: string,
+  workflowId: string,
+): Promise<boolean> {
+  const workflow = await getWorkflow(companyId, workflowId);
+  if (!workflow) {
+    return false;
+  }
+  await WorkflowRun.deleteMany({ workflowId: workflow._id });
+  await workflow.deleteOne();
+  return true;
+}
+
+/**
+ * Start a run. Returns the run once created; it executes in the background
+ * and its document is updated as steps progress.
+ * @throws BadRequestError if the input does not match the input schema
+ */
+export async function startWorkflowRun(
+  companyId: string,
+  workflowId: string,
+  input: unknown,
+  userId: string,
+): Promise<IWorkflowRun> {
+  const workflow = await getWorkflow(companyId, workflowId);
+  if (!workflow) {
+    throw new NotFoundError('Workflow');
+  }
+
+  if (workflow.definition.inputSchema) {
+    const parsed = z
+      .fromJSONSchema(workflow.definition.inputSchema)
+      .safeParse(input ?? {});
+    if (!parsed.success) {
+      throw new BadRequestError(
+        `Input does not match the workflow's input schema: ${parsed.error.issues
+          .map((issue) => `${issue.path.join('.') || '$'}: ${issue.message}`)
+          .join('; ')}`,
+      );
+    }
+  }
+
+  const run = await new WorkflowRun({
+    companyId,
+    workflowId: workflow._id,
+    workflowName: workflow.name,
+    workflowVersion: workflow.version,
+    definition: workflow.definition,
+    input: input ?? {},
+    status: 'running',
+    steps: {},
+    createdBy: userId,
+    startedAt: new Date(),
+  }).save();
+
+  executeWorkflowRun(run._id.toString()).catch((error) =>
+    console.error(`[WORKFLOW] Run ${run._id} failed:`, error),
+  );
+  return run;
+}
+
+/**
+ * Get a run, scoped to the company
+ */
+export async function getWorkflowRun(
+  companyId: string,
+  runId: string,
+): Promise<IWorkflowRun | null> {
+  if (!mongoose.Types.ObjectId.isValid(runId)) {
+    return null;
+  }
+  return WorkflowRun.findOne({ _id: runId, companyId }).select('-definition');
+}
+
+/**
+ * Recent runs, newest first, optionally of one workflow or in one status
+ */
+export async function listWorkflowRuns(
+  companyId: string,
+  filter: WorkflowRunFilter = {},
+): Promise<IWorkflowRun[]> {
+  if (
+    filter.workflowId &&
+    !mongoose.Types.ObjectId.isValid(filter.workflowId)
+  ) {
+    return [];
+  }
+  return WorkflowRun.find({
+    companyId,
+    ...(filter.workflowId && { workflowId: filter.workflowId }),
+    ...(filter.status && { status: filter.status }),
+  })
+    .select('-definition -steps')
+    .sort({ startedAt: -1 })
+    .limit(Math.min(filter.limit || 20, 100));
+}
+
+/**
+ * Cancel a run that is running or waiting for approval. A step in progress
+ * finishes, but no further steps start.
+ */
+export async function cancelWorkflowRun(
+  companyId: string,
+  runId: string,
+): Promise<IWorkflowRun> {
+  const run = await getWorkflowRun(companyId, runId);
+  if (!run) {
+    throw new NotFoundError('Workflow run');
+  }
+
+  const finishedAt = new Date();
+  const cancelled = await WorkflowRun.findOneAndUpdate(
+    { _id: run._id, status: { $in: ACTIVE_RUN_STATUSES } },
+    {
+      $set: {
+        status: 'cancelled',
+        finishedAt,
+        duration: finishedAt.getTime() - run.startedAt.getTime(),
+      },
+      $unset: { lockedUntil: 1 },
+    },
+    { new: true },
+  ).select('-definition');
+  if (!cancelled) {
+    throw new BadRequestError(`Workflow run is already ${run.status}`);
+  }
+
+  publishWorkflowRunUpdate({ runId, companyId, status: 'cancelled' });
+  return cancelled;
+}
+
+/**
+ * Approve or reject an approval step. Approving resumes the run; rejecting
+ * fails the step and the run.
+ */
+export async function decideWorkflowApproval(
+  companyId: string,
+  runId: string,
+  stepKey: string,
+  approved: boolean,
+  userId: string,
+  reason?: string,
+): Promise<IWorkflowRun> {
+  const run = await getWorkflowRun(companyId, runId);
+  if (!run) {
+    throw new NotFoundError('Workflow run');
+  }
+  const state = run.steps?.[stepKey];
+  if (!state || state.type !== 'approval') {
+    throw new NotFoundError('Approval step');
+  }
+
+  const now = new Date();
+  const decided = {
+    ...state,
+    decidedBy: userId,
+    decidedAt: now,
+    finishedAt: now,
+    ...(approved
+      ? { status: 'succeeded', output: { approved: true, reason } }
+      : {
+          status: 'failed',
+          error: `Rejected${reason ? `: ${reason}` : ''}`,
+        }),
+  };
+
+  const updated = await WorkflowRun.findOneAndUpdate(
+    {
+      _id: run._id,
+      status: { $in: ACTIVE_RUN_STATUSES },
+      [`steps.${stepKey}.status`]: 'waiting_approval',
+    },
+    {
+      $set: {
+        [`steps.${stepKey}`]: decided,
+        ...(approved
+          ? { status: 'running' }
+          : {
+              status: 'failed',
+              error: `Step "${stepKey}" was rejected${reason ? `: ${reason}` : ''}`,
+              finishedAt: now,
+              duration: now.getTime() - run.startedAt.getTime(),
+            }),
+      },
+      ...(!approved && { $unset: { lockedUntil: 1 } }),
+    },
+    { new: true },
+  ).select('-definition');
+  if (!updated) {
+    throw new BadRequestError('Approval step is not waiting for a decision');
+  }
+
+  publishWorkflowRunUpdate({
+    runId,
+    companyId,
+    status: updated.status,
+    stepKey,
+    step: updated.steps[stepKey],
+  });
+  if (approved) {
+    executeWorkflowRun(runId).catch((error) =>
+      console.error(`[WORKFLOW] Failed to resume run ${runId}:`, error),
+    );
+  }
+  return updated;
+}
@@ -0,0 +1,435 @@
+// file path: /src/services/workspace-acl.service.ts
+import mongoose from 'mongoose';
+import NodeCache from 'node-cache';
+import { Assistant } from '../models/Assistant';
+import { Team } from '../models/Team';
+import { User } from '../models/User';
+import {
+  IWorkspaceAcl,
+  WORKSPACE_ACCESS_LEVELS,
+  WorkspaceAccess,
+  WorkspaceAcl,
+  WorkspaceAclPrincipalType,
+} from '../models/WorkspaceAcl';
+import {
+  AuthorizationError,
+  BadRequestError,
+  NotFoundError,
+} from '../utils/errors';
+import { logger } from '../utils/logger';
+import { hasPermission, permission } from '../utils/permissions';
+import { getSharedState, nodeId } from './shared-state/shared-state';
+
+/**
+ * Workspace access control lists.
+ *
+ * Entries grant read/write/delete on a path prefix to a user, a team (its
+ * assistants) or an assistant. Paths without entries keep the implicit
+ * scope rules, so any company member can access them. For a path with
+ * entries on one or more of its prefixes, the most specific prefix decides
+ * and only the principals listed there get access. An entry with no
+ * permissions protects a prefix without granting anything.
+ *
+ * Company admins always have full access, and assistants always have full
+ * access to their own agent scope. Requests made with an API key are also
+ * limited to the workspace scopes the key was granted.
+ */
+
+/**
+ * Who is accessing the workspace. Team grants apply to the teams an
+ * assistant belongs to.
+ */
+export interface WorkspacePrincipal {
+  type: 'user' | 'assistant';
+  id: string;
+  companyId: string;
+}
+
+export interface WorkspaceAclRule {
+  pathPrefix: string;
+  principalType: WorkspaceAclPrincipalType;
+  principalId: string;
+  permissions: WorkspaceAccess[];
+}
+
+export interface ResolvedWorkspacePrincipal extends WorkspacePrincipal {
+  isAdmin: boolean;
+  teamIds: string[];
+}
+
+export interface EffectiveWorkspacePermissions {
+  path: string;
+  permissions: Record<WorkspaceAccess, boolean>;
+  source: 'admin' | 'owner' | 'acl' | 'default';
+  matchedPrefix?: string; // Prefix whose entries decided, for `acl`
+  grants: WorkspaceAclRule[]; // Entries that apply to the principal
+}
+
+export interface WorkspaceAccessChecker {
+  principal: ResolvedWorkspacePrincipal;
+  effective: (path: string) => EffectiveWorkspacePermissions;
+  can: (path: string, access: WorkspaceAccess) => boolean;
+  /** @throws AuthorizationError when access is denied */
+  assert: (path: string, access: WorkspaceAccess) => void;
+  filter: <T>(
+    items: T[],
+    access: WorkspaceAccess,
+    getPath?: (item: T) => string,
+  ) => T[];
+}
+
+export interface WorkspaceAclInput {
+  pathPrefix: string;
+  principalType: WorkspaceAclPrincipalType;
+  principalId: string;
+  permissions: WorkspaceAccess[];
+}
+
+const aclCache = new NodeCache({ stdTTL: 60 });
+const ACL_CACHE_CHANNEL = 'workspace-acl:cache-invalidate';
+let watchingRuleChanges = false;
+
+/**
+ * Drop cached rules of other API instances when a company's rules change.
+ * Only an instance that has cached rules needs to listen.
+ */
+const watchRuleChanges = (): void => {
+  if (watchingRuleChanges) return;
+  watchingRuleChanges = true;
+  const sharedState = getSharedState();
+  if (sharedState.distributed) {
+    sharedState.subscribe(
+      ACL_CACHE_CHANNEL,
+      (message: { companyId: string }, origin) => {
+        if (origin !== nodeId) aclCache.del(message.companyId);
+      },
+    );
+  }
+};
+
+/**
+ * Drop a company's cached rules here and on every other API instance
+ */
+const invalidateRules = (companyId: string): void => {
+  aclCache.del(companyId);
+  const sharedState = getSharedState();
+  if (!sharedState.distributed) return;
+  sharedState
+    .publish(ACL_CACHE_CHANNEL, { companyId })
+    .catch((error) =>
+      logger.warn('Workspace ACL: Failed to publish cache invalidation', error),
+    );
+};
+
+/**
+ * Normalize a workspace path to `/a/b` form so prefixes compare by segment
+ */
+export const normalizeWorkspacePath = (path: string): string => {
+  const trimmed = path
+    .trim()
+    .replace(/\/{2,}/g, '/')
+    .replace(/\/$/, '');
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+};
+
+/**
+ * Scope of a workspace path (`company`, `agent`, `session`, `team`), its
+ * first segment. It qualifies `workspace:*` API key permissions; the root
+ * has none, so only unqualified grants cover it.
+ */
+export const getWorkspacePathScope = (path: string): string =>
+  normalizeWorkspacePath(path).split('/')[1] || '*';
+
+const prefixCovers = (prefix: string, path: string): boolean =>
+  prefix === '/' || path === prefix || path.startsWith(`${prefix}/`);
+
+const allPermissions = (value: boolean): Record<WorkspaceAccess, boolean> => ({
+  read: value,
+  write: value,
+  delete: value,
+});
+
+const ruleMatches = (
+  rule: WorkspaceAclRule,
+  principal: ResolvedWorkspacePrincipal,
+): boolean => {
+  if (rule.principalType === 'team') {
+    return principal.teamIds.includes(rule.principalId);
+  }
+  return (
+    rule.principalType === principal.type && rule.principalId === principal.id
+  );
+};
+
+/**
+ * Effective permissions of a principal on a path given a company's rules
+ */
+export const evaluateWorkspaceAccess = (
+  rules: WorkspaceAclRule[],
+  principal: ResolvedWorkspacePrincipal,
+  path: string,
+): EffectiveWorkspacePermissions => {
+  const normalized = normalizeWorkspacePath(path);
+
+  if (principal.isAdmin) {
+    return {
+      path: normalized,
+      permissions: allPermissions(true),
+      source: 'admin',
+      grants: [],
+    };
+  }
+  if (
+    principal.type === 'assistant' &&
+    prefixCovers(`/agent/${principal.id}`, normalized)
+  ) {
+    return {
+      path: normalized,
+      permissions: allPermissions(true),
+      source: 'owner',
+      grants: [],
+    };
+  }
+
+  const covering = rules.filter((rule) =>
+    prefixCovers(rule.pathPrefix, normalized),
+  );
+  if (covering.length === 0) {
+    return {
+      path: normalized,
+      permissions: allPermissions(true),
+      source: 'default',
+      grants: [],
+    };
+  }
+
+  const matchedPrefix = covering.reduce(
+    (longest, rule) =>
+      rule.pathPrefix.length > longest.length ? rule.pathPrefix : longest,
+    '',
+  );
+  const grants = covering.filter(
+    (rule) => rule.pathPrefix === matchedPrefix && ruleMatches(rule, principal),
+  );
+  const granted = new Set(grants.flatMap((rule) => rule.permissions));
+
+  return {
+    path: normalized,
+    permissions: {
+      // Like API key permissions, write implies read
+      read: granted.has('read') || granted.has('write'),
+      write: granted.has('write'),
+      delete: granted.has('delete'),
+    },
+    source: 'acl',
+    matchedPrefix,
+    grants,
+  };
+};
+
+const loadRules = async (companyId: string): Promise<WorkspaceAclRule[]> => {
+  watchRuleChanges();
+  const cached = aclCache.get<WorkspaceAclRule[]>(companyId);
+  if (cached) {
+    return cached;
+  }
+  const rules = await WorkspaceAcl.find({ companyId })
+    .select('pathPrefix principalType principalId permissions')
+    .lean<WorkspaceAclRule[]>();
+  aclCache.set(companyId, rules);
+  return rules;
+};
+
+/**
+ * Load the admin flag of a user or the teams of an assistant
+ */
+export const resolveWorkspacePrincipal = async (
+  principal: WorkspacePrincipal,
+): Promise<ResolvedWorkspacePrincipal> => {
+  const resolved = { ...principal, isAdmin: false, teamIds: [] as string[] };
+  if (!mongoose.Types.ObjectId.isValid(principal.id)) {
+    return resolved;
+  }
+
+  if (principal.type === 'user') {
+    const user = await User.findById(principal.id).select('role').lean();
+    resolved.isAdmin = user?.role === 'Admin';
+  } else {
+    const assistant = await Assistant.findById(principal.id)
+      .select('teams')
+      .lean();
+    resolved.teamIds = (assistant?.teams || []).map((team) => team.toString());
+  }
+  return resolved;
+};
+
+/**
+ * Load a principal and its company's rules once to check many paths. With
+ * `apiKeyPermissions`, paths outside the key's workspace scopes are denied.
+ */
+export const createWorkspaceAccessChecker = async (
+  principal: WorkspacePrincipal,
+  apiKeyPermissions?: string[],
+): Promise<WorkspaceAccessChecker> => {
+  const [resolved, rules] = await Promise.all([
+    resolveWorkspacePrincipal(principal),
+    principal.companyId ? loadRules(principal.companyId) : [],
+  ]);
+
+  const keyPermission = (path: string, access: WorkspaceAccess) =>
+    permission(
+      'workspace',
+      access === 'read' ? 'read' : 'write',
+      getWorkspacePathScope(path),
+    );
+  const effective = (path: string) =>
+    evaluateWorkspaceAccess(rules, resolved, path);
+  const can = (path: string, access: WorkspaceAccess) =>
+    hasPermission(apiKeyPermissions, keyPermission(path, access)) &&
+    effective(path).permissions[access];
+
+  return {
+    principal: resolved,
+    effective,
+    can,
+    assert: (path, access) => {
+      const required = keyPermission(path, access);
+      if (!hasPermission(apiKeyPermissions, required)) {
+        throw new AuthorizationError(`API key lacks permission: ${required}`);
+      }
+      if (!can(path, access)) {
+        throw new AuthorizationError(
+          `No ${access} access to workspace path: ${normalizeWorkspacePath(path)}`,
+        );
+      }
+    },
+    filter: (items, access, getPath = (item) => item as unknown as string) =>
+      items.filter((item) => can(getPath(item), access)),
+  };
+};
+
+/**
+ * Check a single path
+ * @throws AuthorizationError when access is denied
+ */
+export const assertWorkspaceAccess = async (
+  principal: WorkspacePrincipal,
+  path: string,
+  access: WorkspaceAccess,
+): Promise<void> => {
+  (await createWorkspaceAccessChecker(principal)).assert(path, access);
+};
+
+/**
+ * Effective permissions of a principal on a path, for admin inspection
+ */
+export const getEffectiveWorkspacePermissions = async (
+  principal: WorkspacePrincipal,
+  path: string,
+): Promise<
+  EffectiveWorkspacePermissions & { principal: ResolvedWorkspacePrincipal }
+> => {
+  const checker = await createWorkspaceAccessChecker(principal);
+  return { ...checker.effective(path), principal: checker.principal };
+};
+
+/**
+ * List a company's ACL entries, optionally only those under a prefix
+ */
+export const listWorkspaceAcls = async (
+  companyId: string,
+  pathPrefix?: string,
+): Promise<IWorkspaceAcl[]> => {
+  const entries = await WorkspaceAcl.find({ companyId })
+    .sort({ pathPrefix: 1, principalType: 1 })
+    .lean<IWorkspaceAcl[]>();
+  if (!pathPrefix) {
+    return entries;
+  }
+  const prefix = normalizeWorkspacePath(pathPrefix);
+  return entries.filter((entry) => prefixCovers(prefix, entry.pathPrefix));
+};
+
+const assertPrincipalInCompany = async (
+  companyId: string,
+  principalType: WorkspaceAclPrincipalType,
+  principalId: string,
+): Promise<void> => {
+  const filter = { _id: principalId, companyId };
+  const valid = mongoose.Types.ObjectId.isValid(principalId);
+  if (principalType === 'user') {
+    if (!valid || !(await User.exists(filter))) throw new NotFoundError('User');
+  } else if (principalType === 'team') {
+    if (!valid || !(await Team.exists(filter))) throw new NotFoundError('Team');
+  } else if (!valid || !(await Assistant.exists(filter))) {
+    throw new NotFoundError('Assistant');
+  }
+};
+
+/**
+ * Create or replace the entry for a principal on a prefix
+ */
+export const setWorkspaceAcl = async (
+  companyId: string,
+  input: WorkspaceAclInput,
+  userId?: string,
+): Promise<IWorkspaceAcl> => {
+  if (!input.pathPrefix || !input.principalType || !input.principalId) {
+    throw new BadRequestError(
+      'pathPrefix, principalType and principalId are required',
+    );
+  }
+  if (!['user', 'team', 'assistant'].includes(input.principalType)) {
+    throw new BadRequestError(
+      'principalType must be "user", "team" or "assistant"',
+    );
+  }
+  if (
+    !Array.isArray(input.permissions) ||
+    input.permissions.some((p) => !WORKSPACE_ACCESS_LEVELS.includes(p))
+  ) {
+    throw new BadRequestError(
+      `permissions must be a list of: ${WORKSPACE_ACCESS_LEVELS.join(', ')}`,
+    );
+  }
+
+  await assertPrincipalInCompany(
+    companyId,
+    input.principalType,
+    input.principalId,
+  );
+
+  const pathPrefix = normalizeWorkspacePath(input.pathPrefix);
+  const entry = await WorkspaceAcl.findOneAndUpdate(
+    {
+      companyId,
+      pathPrefix,
+      principalType: input.principalType,
+      principalId: input.principalId,
+    },
+    {
+      $set: { permissions: [...new Set(input.permissions)] },
+      $setOnInsert: { createdBy: userId },
+    },
+    { upsert: true, new: true, runValidators: true },
+  );
+
+  invalidateRules(companyId);
+  return entry;
+};
+
+/**
+ * Delete an ACL entry, scoped to the company
+ */
+export const deleteWorkspaceAcl = async (
+  companyId: string,
+  aclId: string,
+): Promise<void> => {
+  const deleted =
+    mongoose.Types.ObjectId.isValid(aclId) &&
+    (await WorkspaceAcl.findOneAndDelete({ _id: aclId, companyId }));
+  if (!deleted) {
+    throw new NotFoundError('Workspace ACL entry');
+  }
+  invalidateRules(companyId);
+};
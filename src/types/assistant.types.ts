@@ -1 +1,11 @@
-export type ProviderKey = 'openai' | 'google' | 'anthropic';
+export const BUILT_IN_PROVIDERS = ['openai', 'google', 'anthropic'] as const;
+
+export type BuiltInProviderKey = (typeof BUILT_IN_PROVIDERS)[number];
+
+// Built-in provider, or the key of a provider registered by the company
+export type ProviderKey = BuiltInProviderKey | string;
+
+export const isBuiltInProvider = (
+  providerKey: string,
+): providerKey is BuiltInProviderKey =>
+  (BUILT_IN_PROVIDERS as readonly string[]).includes(providerKey);
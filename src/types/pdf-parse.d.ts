@@ -7,7 +7,15 @@ declare module 'pdf-parse' {
     version: string;
   }
 
-  function parse(dataBuffer: Buffer | Uint8Array): Promise<PDFData>;
+  interface PDFOptions {
+    pagerender?: (pageData: any) => Promise<string>;
+    max?: number;
+  }
+
+  function parse(
+    dataBuffer: Buffer | Uint8Array,
+    options?: PDFOptions,
+  ): Promise<PDFData>;
 
   export = parse;
 }
@@ -0,0 +1,69 @@
+import {
+  getNextCronRun,
+  parseCronExpression,
+  validateCronSchedule,
+} from '../cron';
+
+describe('cron', () => {
+  it('parses lists, ranges, steps and aliases', () => {
+    const schedule = parseCronExpression('*/15 9-17 * * 1,3,5');
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toHaveLength(9);
+    expect([...schedule.daysOfWeek]).toEqual([1, 3, 5]);
+
+    expect(parseCronExpression('@daily')).toEqual(
+      parseCronExpression('0 0 * * *'),
+    );
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects invalid expressions and time zones', () => {
+    expect(validateCronSchedule('0 9 * *')).toMatch(/5 fields/);
+    expect(validateCronSchedule('60 9 * * *')).toMatch(/minute/);
+    expect(validateCronSchedule('0 9 * * *', 'Mars/Olympus')).toMatch(
+      /time zone/,
+    );
+    expect(validateCronSchedule('0 9 * * 1-5', 'Asia/Jerusalem')).toBeNull();
+  });
+
+  it('finds the next run in UTC', () => {
+    const after = new Date('2026-10-19T09:30:00Z'); // Monday
+    expect(getNextCronRun('0 9 * * *', after).toISOString()).toBe(
+      '2026-10-20T09:00:00.000Z',
+    );
+    expect(getNextCronRun('*/20 * * * *', after).toISOString()).toBe(
+      '2026-10-19T09:40:00.000Z',
+    );
+    expect(getNextCronRun('0 8 * * 1', after).toISOString()).toBe(
+      '2026-10-26T08:00:00.000Z',
+    );
+    expect(getNextCronRun('0 0 1 * *', after).toISOString()).toBe(
+      '2026-11-01T00:00:00.000Z',
+    );
+  });
+
+  it('evaluates the schedule in the given time zone', () => {
+    const after = new Date('2026-10-19T05:00:00Z');
+    // 09:00 in Jerusalem (UTC+3 in October)
+    expect(
+      getNextCronRun('0 9 * * *', after, 'Asia/Jerusalem').toISOString(),
+    ).toBe('2026-10-19T06:00:00.000Z');
+    // After the switch to winter time the offset is +2
+    expect(
+      getNextCronRun(
+        '0 9 * * *',
+        new Date('2026-11-01T12:00:00Z'),
+        'Asia/Jerusalem',
+      ).toISOString(),
+    ).toBe('2026-11-02T07:00:00.000Z');
+  });
+
+  it('uses OR semantics when both day fields are restricted', () => {
+    // 15th of the month or any Sunday
+    const next = getNextCronRun(
+      '0 12 15 * 0',
+      new Date('2026-10-19T00:00:00Z'),
+    );
+    expect(next.toISOString()).toBe('2026-10-25T12:00:00.000Z');
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  canGrantPermissions,
+  hasPermission,
+  hasPermissionForAnyQualifier,
+  intersectPermissions,
+  isValidPermission,
+} from '../permissions';
+
+describe('permissions', () => {
+  it('validates permissions against the vocabulary', () => {
+    expect(isValidPermission('*')).toBe(true);
+    expect(isValidPermission('assistants:read')).toBe(true);
+    expect(
+      isValidPermission('assistants:execute:64b000000000000000000001'),
+    ).toBe(true);
+    expect(isValidPermission('workspace:write:company')).toBe(true);
+    expect(isValidPermission('costs:*')).toBe(true);
+
+    expect(isValidPermission('costs:write')).toBe(false);
+    expect(isValidPermission('inbox:read:abc')).toBe(false);
+    expect(isValidPermission('unknown:read')).toBe(false);
+    expect(isValidPermission('assistants:read:')).toBe(false);
+    expect(isValidPermission(42)).toBe(false);
+  });
+
+  it('treats keys without permissions as unrestricted', () => {
+    expect(hasPermission(undefined, 'keys:manage')).toBe(true);
+    expect(hasPermission([], 'workspace:write:company')).toBe(true);
+  });
+
+  it('applies action implication and qualifiers', () => {
+    const granted = [
+      'sessions:write',
+      'integrations:manage',
+      'workspace:read:agent',
+      'assistants:execute:64b000000000000000000001',
+    ];
+
+    expect(hasPermission(granted, 'sessions:read')).toBe(true);
+    expect(hasPermission(granted, 'integrations:execute')).toBe(true);
+    expect(hasPermission(granted, 'workspace:read:agent')).toBe(true);
+    expect(hasPermission(granted, 'workspace:read:company')).toBe(false);
+    expect(hasPermission(granted, 'workspace:write:agent')).toBe(false);
+    expect(
+      hasPermission(granted, 'assistants:execute:64b000000000000000000001'),
+    ).toBe(true);
+    expect(
+      hasPermission(granted, 'assistants:execute:64b000000000000000000002'),
+    ).toBe(false);
+    expect(hasPermission(granted, 'assistants:read')).toBe(false);
+    expect(hasPermission(['*'], 'keys:manage')).toBe(true);
+  });
+
+  it('matches any qualifier when asked to', () => {
+    const granted = ['workspace:write:agent'];
+
+    expect(hasPermissionForAnyQualifier(granted, 'workspace:read')).toBe(true);
+    expect(hasPermission(granted, 'workspace:read')).toBe(false);
+    expect(hasPermissionForAnyQualifier(granted, 'sessions:read')).toBe(false);
+    expect(hasPermissionForAnyQualifier(undefined, 'workspace:write')).toBe(
+      true,
+    );
+  });
+
+  it('prevents restricted keys from escalating', () => {
+    const granted = ['assistants:write', 'keys:manage'];
+
+    expect(canGrantPermissions(granted, ['assistants:read'])).toBe(true);
+    expect(canGrantPermissions(granted, ['costs:read'])).toBe(false);
+    expect(canGrantPermissions(granted, [])).toBe(false);
+    expect(canGrantPermissions(granted, ['*'])).toBe(false);
+    expect(canGrantPermissions(undefined, [])).toBe(true);
+  });
+
+  it('intersects permission sets', () => {
+    const scoped = ['assistants:execute', 'sessions:write', 'company:read'];
+
+    expect(intersectPermissions(scoped, [])).toEqual(scoped);
+    expect(intersectPermissions(undefined, ['costs:read'])).toEqual([
+      'costs:read',
+    ]);
+    expect(
+      intersectPermissions(scoped, [
+        'assistants:execute:64b000000000000000000001',
+        'sessions:read',
+        'company:write',
+      ]),
+    ).toEqual([
+      'company:read',
+      'assistants:execute:64b000000000000000000001',
+      'sessions:read',
+    ]);
+    expect(intersectPermissions(['*'], ['costs:read'])).toEqual(['costs:read']);
+    expect(intersectPermissions(scoped, ['keys:manage'])).toEqual([]);
+  });
+});
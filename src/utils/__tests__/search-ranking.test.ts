@@ -0,0 +1,45 @@
+import {
+  createBm25Document,
+  reciprocalRankFusion,
+  scoreBm25,
+  tokenizeForSearch,
+} from '../search-ranking';
+
+describe('search-ranking', () => {
+  it('keeps identifiers whole and indexes their parts', () => {
+    expect(tokenizeForSearch('Fixed in PROJ-123 (SKU_88A).')).toEqual([
+      'fixed',
+      'in',
+      'proj-123',
+      'proj',
+      '123',
+      'sku_88a',
+      'sku',
+      '88a',
+    ]);
+  });
+
+  it('ranks documents with rarer matching terms higher', () => {
+    const documents = [
+      'The invoice for order PROJ-123 is attached.',
+      'Every order ships with an invoice.',
+      'Nothing relevant here.',
+    ].map(createBm25Document);
+
+    const scores = scoreBm25('invoice PROJ-123', documents);
+
+    expect(scores[0]).toBeGreaterThan(scores[1]);
+    expect(scores[1]).toBeGreaterThan(0);
+    expect(scores[2]).toBe(0);
+  });
+
+  it('fuses rankings so items found by both lists come first', () => {
+    const fused = reciprocalRankFusion([
+      ['a', 'b', 'c'],
+      ['c', 'd', 'a'],
+    ]);
+
+    expect(Array.from(fused.keys())).toEqual(['a', 'c', 'b', 'd']);
+    expect(fused.get('a')).toBeCloseTo(1 / 61 + 1 / 63);
+  });
+});
@@ -0,0 +1,57 @@
+import { chunkText } from '../text-chunker';
+
+const paragraph = (words: number, word = 'lorem') =>
+  Array.from({ length: words }, (_, i) => `${word}${i}`).join(' ') + '.';
+
+describe('chunkText', () => {
+  it('keeps short text in a single chunk', () => {
+    const text = '  Short note about refunds.\n';
+
+    expect(chunkText(text)).toEqual([
+      { index: 0, text: 'Short note about refunds.', start: 2, end: 27 },
+    ]);
+  });
+
+  it('splits long text into overlapping chunks with exact offsets', () => {
+    const text = [paragraph(60), paragraph(60, 'ipsum'), paragraph(60)].join(
+      '\n\n',
+    );
+    const chunks = chunkText(text, { chunkSize: 400, overlap: 80 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    chunks.forEach((chunk, i) => {
+      expect(chunk.index).toBe(i);
+      expect(chunk.text.length).toBeLessThanOrEqual(400);
+      expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+    });
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+      expect(chunks[i].start).toBeGreaterThan(chunks[i - 1].start);
+    }
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+  });
+
+  it('starts new chunks at headings and records the heading trail', () => {
+    const text = [
+      '# Guide',
+      'Intro text.',
+      '## Install',
+      paragraph(40),
+      '## Configure',
+      paragraph(40, 'opt'),
+    ].join('\n');
+    const chunks = chunkText(text, { chunkSize: 300, overlap: 0 });
+
+    expect(chunks[0]).toMatchObject({
+      text: '# Guide\nIntro text.',
+      heading: 'Guide',
+    });
+    expect(chunks[1].text.startsWith('## Install')).toBe(true);
+    expect(chunks[1].heading).toBe('Guide > Install');
+    const configure = chunks.find((chunk) =>
+      chunk.text.startsWith('## Configure'),
+    );
+    expect(configure?.heading).toBe('Guide > Configure');
+    expect(chunks.every((chunk) => chunk.text.length <= 300)).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import { createUnifiedDiff, diffLines } from '../text-diff';
+
+describe('text diff', () => {
+  it('matches unchanged lines and reports edits', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'context', text: 'a' },
+      { type: 'remove', text: 'b' },
+      { type: 'add', text: 'x' },
+      { type: 'context', text: 'c' },
+    ]);
+    expect(diffLines('', 'new')).toEqual([{ type: 'add', text: 'new' }]);
+  });
+
+  it('renders unified hunks with surrounding context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join(
+      '\n',
+    );
+    const after = ['1', '2', '3', '4', '5', 'six', '7', '8', '9', '10'].join(
+      '\n',
+    );
+
+    const diff = createUnifiedDiff(before, after, {
+      fromLabel: 'v1',
+      toLabel: 'v2',
+      context: 1,
+    });
+
+    expect(diff.additions).toBe(1);
+    expect(diff.deletions).toBe(1);
+    expect(diff.unified).toBe(
+      ['--- v1', '+++ v2', '@@ -5,3 +5,3 @@', ' 5', '-6', '+six', ' 7'].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('merges nearby changes into one hunk and returns nothing for equal text', () => {
+    const diff = createUnifiedDiff('a\nb\nc\nd', 'A\nb\nc\nD', { context: 1 });
+
+    expect(diff.unified.match(/^@@/gm)).toHaveLength(1);
+    expect(diff.unified).toContain('@@ -1,4 +1,4 @@');
+    expect(createUnifiedDiff('same', 'same')).toEqual({
+      additions: 0,
+      deletions: 0,
+      unified: '',
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { ModelMessage } from 'ai';
+import { countMessageTokens, splitForSummary } from '../tokenWindow';
+
+const message = (role: 'user' | 'assistant', words: number): ModelMessage => ({
+  role,
+  content: Array(words).fill('word').join(' '),
+});
+
+describe('splitForSummary', () => {
+  const messages = [
+    message('user', 50),
+    message('assistant', 50),
+    message('user', 50),
+    message('assistant', 50),
+  ];
+  const perMessage = countMessageTokens(messages[0]);
+
+  it('keeps the newest messages that fit and returns the rest as older', () => {
+    const { older, recent } = splitForSummary(messages, perMessage * 2);
+    expect(older).toEqual(messages.slice(0, 2));
+    expect(recent).toEqual(messages.slice(2));
+  });
+
+  it('always keeps the last message', () => {
+    const { older, recent } = splitForSummary(messages, 1);
+    expect(older).toHaveLength(3);
+    expect(recent).toEqual([messages[3]]);
+  });
+
+  it('returns nothing to summarize when everything fits', () => {
+    const { older, recent } = splitForSummary(messages, perMessage * 10);
+    expect(older).toHaveLength(0);
+    expect(recent).toEqual(messages);
+  });
+});
@@ -75,6 +75,12 @@ export interface CostTrackingInfo {
   toolCalls?: number; // Number of tool calls made
   cached?: boolean; // Whether cached tokens were used
   requestType?: 'streaming' | 'non-streaming' | 'stateless';
+  status?: 'success' | 'failed'; // Failed model attempts are recorded with zero tokens
+  attempt?: number; // 1-based attempt within the model fallback chain
+  fallbackFrom?: string; // Primary model when a fallback model answered
+  errorType?: string;
+  errorMessage?: string;
+  metadata?: Record<string, any>; // Attribution, e.g. the scheduled job run that made the call
 }
 
 export function calculateCost(
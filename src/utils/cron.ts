@@ -0,0 +1,193 @@
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+/**
+ * Minimal 5-field cron support: "minute hour day-of-month month day-of-week".
+ * Fields accept "*", numbers, lists (1,15), ranges (1-5) and steps
+ * (star/15, 0-30/10). Day-of-week is 0-6 (Sunday = 0; 7 is also Sunday).
+ * As in standard cron, when both day fields are restricted a day matching
+ * either one matches.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Upper bound for the search; covers leap-day schedules
+const MAX_SEARCH_YEARS = 5;
+
+function parseField(
+  value: string,
+  field: (typeof FIELDS)[number],
+): Set<number> {
+  const result = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${part}" in cron ${field.name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map(Number);
+    } else {
+      start = Number(rangePart);
+      // "5/15" means from 5 to the end of the range
+      end = stepPart === undefined ? start : field.max;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < field.min ||
+      end > field.max ||
+      start > end
+    ) {
+      throw new Error(`Invalid value "${part}" in cron ${field.name} field`);
+    }
+
+    for (let n = start; n <= end; n += step) {
+      result.add(n);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a cron expression; throws on invalid input
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] || expression;
+  const parts = normalized.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got "${expression}"`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, i) => parseField(part, FIELDS[i]),
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*',
+  };
+}
+
+/**
+ * Check whether a cron expression and time zone are valid.
+ * Returns an error message, or null when valid.
+ */
+export function validateCronSchedule(
+  expression: string,
+  timeZone = 'UTC',
+): string | null {
+  try {
+    parseCronExpression(expression);
+  } catch (error: any) {
+    return error.message;
+  }
+  try {
+    formatInTimeZone(new Date(), timeZone, 'yyyy');
+  } catch {
+    return `Invalid time zone "${timeZone}"`;
+  }
+  return null;
+}
+
+function dayMatches(schedule: CronSchedule, wall: Date): boolean {
+  const dom = schedule.daysOfMonth.has(wall.getUTCDate());
+  const dow = schedule.daysOfWeek.has(wall.getUTCDay());
+  if (schedule.anyDayOfMonth) return dow;
+  if (schedule.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+/**
+ * Next time after `after` at which the expression fires, evaluated in the
+ * given IANA time zone. Wall-clock times are walked as UTC dates so the
+ * server's own time zone never matters.
+ */
+export function getNextCronRun(
+  expression: string,
+  after: Date,
+  timeZone = 'UTC',
+): Date {
+  const schedule = parseCronExpression(expression);
+
+  // Wall-clock time in the target zone, truncated to the minute, plus one
+  const wallString = formatInTimeZone(after, timeZone, "yyyy-MM-dd'T'HH:mm");
+  const wall = new Date(`${wallString}:00Z`);
+  wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+
+  const limit = new Date(wall);
+  limit.setUTCFullYear(limit.getUTCFullYear() + MAX_SEARCH_YEARS);
+
+  while (wall < limit) {
+    if (!schedule.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const next = fromZonedTime(wall.toISOString().slice(0, 19), timeZone);
+    if (next > after) {
+      return next;
+    }
+    // Repeated wall-clock time after a DST change; keep looking
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+  }
+
+  throw new Error(`Cron expression "${expression}" never fires`);
+}
@@ -32,3 +32,30 @@ export class BadRequestError extends CustomError {
     super(message, 400);
   }
 }
+
+/**
+ * A request refused because a hard budget limit was reached. `code` lets
+ * clients tell it apart from other failures.
+ */
+export class BudgetExceededError extends CustomError {
+  readonly code = 'BUDGET_EXCEEDED';
+  details: Record<string, unknown>;
+
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super(message, 402);
+    this.details = details;
+  }
+}
+
+/**
+ * An OAuth protocol error, answered as `{ error, error_description }` with
+ * `code` as the RFC 6749 error code (e.g. `invalid_grant`)
+ */
+export class OAuthError extends CustomError {
+  code: string;
+
+  constructor(code: string, message: string, statusCode: number = 400) {
+    super(message, statusCode);
+    this.code = code;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * API key permission vocabulary.
+ *
+ * A permission is `<resource>:<action>` with an optional `:<qualifier>`,
+ * e.g. `assistants:read`, `assistants:execute:<assistantId>` or
+ * `workspace:write:company`. `*` may replace the action or qualifier, and
+ * `*` alone grants everything.
+ *
+ * Within a resource `manage` implies every action and `write` implies
+ * `read`. A grant without a qualifier covers all qualifiers; a qualified
+ * grant only covers requests for that qualifier.
+ */
+
+export const PERMISSION_RESOURCES = {
+  assistants: {
+    actions: ['read', 'write', 'execute'],
+    qualifier: 'assistantId',
+    description: 'Agents, their prompts and prompt history',
+  },
+  sessions: {
+    actions: ['read', 'write'],
+    description: 'Chat sessions, messages and UI state',
+  },
+  workspace: {
+    actions: ['read', 'write'],
+    qualifier: 'scope',
+    description: 'Workspace files, memory and vector search',
+  },
+  inbox: {
+    actions: ['read', 'write'],
+    description: 'Inbox items',
+  },
+  costs: {
+    actions: ['read'],
+    description: 'Cost tracking and usage reports',
+  },
+  budgets: {
+    actions: ['read', 'write'],
+    description: 'Spend budgets with soft and hard limits',
+  },
+  integrations: {
+    actions: ['read', 'execute', 'manage'],
+    description: 'Integration configuration, credentials and actions',
+  },
+  schedules: {
+    actions: ['read', 'write'],
+    description: 'Scheduled agent runs',
+  },
+  webhooks: {
+    actions: ['read', 'write'],
+    description: 'Outbound webhooks',
+  },
+  triggers: {
+    actions: ['read', 'write'],
+    description: 'Inbound webhook triggers',
+  },
+  evals: {
+    actions: ['read', 'write'],
+    description: 'Eval suites and runs',
+  },
+  workflows: {
+    actions: ['read', 'write'],
+    description: 'Workflow definitions, runs and approvals',
+  },
+  company: {
+    actions: ['read', 'write'],
+    description: 'Company settings, users, teams, invites and LLM providers',
+  },
+  keys: {
+    actions: ['manage'],
+    description: 'API keys',
+  },
+} as const;
+
+export type PermissionResource = keyof typeof PERMISSION_RESOURCES;
+
+/**
+ * Build a permission string
+ */
+export const permission = (
+  resource: PermissionResource,
+  action: string,
+  qualifier?: string,
+): string =>
+  qualifier ? `${resource}:${action}:${qualifier}` : `${resource}:${action}`;
+
+/**
+ * Whether a string is a well-formed permission from the vocabulary
+ */
+export const isValidPermission = (value: unknown): boolean => {
+  if (value === '*') {
+    return true;
+  }
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const [resource, action, qualifier, ...rest] = value.split(':');
+  const definition = PERMISSION_RESOURCES[resource as PermissionResource];
+  if (!definition || rest.length > 0 || qualifier === '') {
+    return false;
+  }
+  if (
+    action !== '*' &&
+    !(definition.actions as readonly string[]).includes(action)
+  ) {
+    return false;
+  }
+  return qualifier === undefined || 'qualifier' in definition;
+};
+
+const actionCovers = (granted: string, required: string): boolean =>
+  granted === '*' ||
+  granted === required ||
+  granted === 'manage' ||
+  (granted === 'write' && required === 'read');
+
+const grantCovers = (grant: string, required: string): boolean => {
+  if (grant === '*') {
+    return true;
+  }
+  const [grantResource, grantAction, grantQualifier] = grant.split(':');
+  const [resource, action, qualifier] = required.split(':');
+
+  if (grantResource !== resource || !actionCovers(grantAction, action)) {
+    return false;
+  }
+  if (grantQualifier === undefined || grantQualifier === '*') {
+    return true;
+  }
+  return grantQualifier === qualifier;
+};
+
+/**
+ * Whether granted permissions cover a required one. Keys created before
+ * permissions were enforced have none and stay unrestricted.
+ */
+export const hasPermission = (
+  granted: string[] | undefined,
+  required: string,
+): boolean => {
+  if (!granted || granted.length === 0) {
+    return true;
+  }
+  return granted.some((grant) => grantCovers(grant, required));
+};
+
+/**
+ * Whether granted permissions cover a required one for at least one
+ * qualifier, e.g. `workspace:write:agent` for `workspace:write`
+ */
+export const hasPermissionForAnyQualifier = (
+  granted: string[] | undefined,
+  required: string,
+): boolean => {
+  if (!granted || granted.length === 0) {
+    return true;
+  }
+  return granted.some((grant) =>
+    grantCovers(grant.split(':').slice(0, 2).join(':'), required),
+  );
+};
+
+/**
+ * Whether a key holding `granted` may hand out `requested`: every requested
+ * permission must already be covered, and an unrestricted (empty) set can
+ * only come from an unrestricted key.
+ */
+export const canGrantPermissions = (
+  granted: string[] | undefined,
+  requested: string[] | undefined,
+): boolean => {
+  if (!granted || granted.length === 0) {
+    return true;
+  }
+  if (!requested || requested.length === 0) {
+    return false;
+  }
+  // Wildcards in a request only match equally broad grants
+  return requested.every((required) =>
+    granted.some((grant) => grantCovers(grant, required)),
+  );
+};
+
+/**
+ * Permissions covered by both sets: the grants of each set that the other
+ * covers. An empty set is unrestricted, so the result of intersecting two
+ * restricted sets can be empty and must then be treated as no access.
+ */
+export const intersectPermissions = (
+  a: string[] | undefined,
+  b: string[] | undefined,
+): string[] => {
+  if (!a || a.length === 0) {
+    return [...(b || [])];
+  }
+  if (!b || b.length === 0) {
+    return [...a];
+  }
+  const result = new Set<string>();
+  for (const grant of a) {
+    if (hasPermission(b, grant)) {
+      result.add(grant);
+    }
+  }
+  for (const grant of b) {
+    if (hasPermission(a, grant)) {
+      result.add(grant);
+    }
+  }
+  return [...result];
+};
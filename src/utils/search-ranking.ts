@@ -0,0 +1,97 @@
+/**
+ * Keyword ranking helpers for workspace search: a tokenizer that keeps
+ * identifiers such as `PROJ-123` or `SKU_88A` intact, Okapi BM25 and
+ * reciprocal-rank fusion.
+ */
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[-_.:/#][\p{L}\p{N}]+)*/gu;
+const SEPARATOR_PATTERN = /[-_.:/#]/;
+
+// BM25 parameters (common defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Reciprocal-rank fusion constant from the original RRF paper
+const RRF_K = 60;
+
+export interface Bm25Document {
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Lowercase search terms. Compound identifiers are kept whole and also
+ * split into their parts, so `PROJ-123` matches both exactly and by part.
+ */
+export const tokenizeForSearch = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const [match] of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    tokens.push(match);
+    if (SEPARATOR_PATTERN.test(match)) {
+      tokens.push(...match.split(SEPARATOR_PATTERN).filter(Boolean));
+    }
+  }
+  return tokens;
+};
+
+export const createBm25Document = (text: string): Bm25Document => {
+  const termFrequencies = new Map<string, number>();
+  const tokens = tokenizeForSearch(text);
+  for (const token of tokens) {
+    termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+  }
+  return { termFrequencies, length: tokens.length };
+};
+
+/**
+ * BM25 score of each document for a query, in document order. Documents
+ * sharing no term with the query score 0.
+ */
+export const scoreBm25 = (
+  query: string,
+  documents: Bm25Document[],
+): number[] => {
+  const terms = Array.from(new Set(tokenizeForSearch(query)));
+  if (terms.length === 0 || documents.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const averageLength =
+    documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const inverseFrequencies = terms.map((term) => {
+    const frequency = documents.filter((doc) =>
+      doc.termFrequencies.has(term),
+    ).length;
+    return Math.log(
+      1 + (documents.length - frequency + 0.5) / (frequency + 0.5),
+    );
+  });
+
+  return documents.map((doc) =>
+    terms.reduce((score, term, i) => {
+      const tf = doc.termFrequencies.get(term) ?? 0;
+      if (tf === 0) {
+        return score;
+      }
+      const norm = K1 * (1 - B + (B * doc.length) / averageLength);
+      return score + (inverseFrequencies[i] * (tf * (K1 + 1))) / (tf + norm);
+    }, 0),
+  );
+};
+
+/**
+ * Fuse ranked lists of IDs: each list contributes 1 / (k + rank) per ID.
+ * Returns fused scores, highest first.
+ */
+export const reciprocalRankFusion = (
+  rankings: string[][],
+  k: number = RRF_K,
+): Map<string, number> => {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + rank + 1));
+    });
+  }
+  return new Map([...scores.entries()].sort((a, b) => b[1] - a[1]));
+};
@@ -0,0 +1,137 @@
+/**
+ * Split text into overlapping chunks for embedding.
+ *
+ * Markdown headings start new sections; small neighbouring sections are
+ * merged up to the chunk size and long sections are split at paragraph,
+ * line, sentence or word boundaries. Offsets index into the original text.
+ */
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  heading?: string;
+}
+
+export interface ChunkOptions {
+  chunkSize?: number; // Max characters per chunk
+  overlap?: number; // Characters repeated between consecutive chunks
+}
+
+interface Section {
+  start: number;
+  end: number;
+  heading?: string;
+}
+
+const DEFAULT_CHUNK_SIZE = 2000;
+const DEFAULT_OVERLAP = 200;
+
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/gm;
+
+// Preferred split points, best first
+const BREAK_PATTERNS = [/\n\s*\n/g, /\n/g, /[.!?][ \t]+/g, /[ \t]+/g];
+
+/**
+ * Split text into sections at markdown headings. Each section's heading is
+ * its heading trail, e.g. "Setup > Install".
+ */
+const splitSections = (text: string): Section[] => {
+  const sections: Section[] = [];
+  const trail: string[] = [];
+  let start = 0;
+  let heading: string | undefined;
+
+  for (const match of text.matchAll(HEADING_PATTERN)) {
+    const offset = match.index ?? 0;
+    if (offset > start) {
+      sections.push({ start, end: offset, heading });
+    }
+    const level = match[1].length;
+    trail.length = Math.min(trail.length, level - 1);
+    trail[level - 1] = match[2].trim();
+    heading = trail.filter(Boolean).join(' > ');
+    start = offset;
+  }
+  sections.push({ start, end: text.length, heading });
+
+  return sections;
+};
+
+/**
+ * Find the best split point in (start + size / 2, start + size]
+ */
+const findBreak = (text: string, start: number, size: number): number => {
+  const limit = start + size;
+  const floor = start + Math.floor(size / 2);
+  const window = text.slice(floor, limit);
+
+  for (const pattern of BREAK_PATTERNS) {
+    let best = -1;
+    for (const match of window.matchAll(pattern)) {
+      best = floor + (match.index ?? 0) + match[0].length;
+    }
+    if (best > floor) {
+      return best;
+    }
+  }
+  return limit;
+};
+
+/**
+ * Split text into overlapping, heading-aware chunks
+ */
+export const chunkText = (
+  text: string,
+  options: ChunkOptions = {},
+): TextChunk[] => {
+  const chunkSize = Math.max(options.chunkSize ?? DEFAULT_CHUNK_SIZE, 100);
+  const overlap = Math.min(
+    Math.max(options.overlap ?? DEFAULT_OVERLAP, 0),
+    Math.floor(chunkSize / 2),
+  );
+
+  // Merge neighbouring sections while they fit in one chunk
+  const merged: Section[] = [];
+  for (const section of splitSections(text)) {
+    const last = merged[merged.length - 1];
+    if (last && section.end - last.start <= chunkSize) {
+      last.end = section.end;
+    } else {
+      merged.push({ ...section });
+    }
+  }
+
+  const chunks: TextChunk[] = [];
+  const pushChunk = (start: number, end: number, heading?: string) => {
+    // Trim whitespace so offsets point at the snippet itself
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end > start) {
+      chunks.push({
+        index: chunks.length,
+        text: text.slice(start, end),
+        start,
+        end,
+        ...(heading && { heading }),
+      });
+    }
+  };
+
+  for (const section of merged) {
+    let start = section.start;
+    while (section.end - start > chunkSize) {
+      const end = findBreak(text, start, chunkSize);
+      pushChunk(start, end, section.heading);
+
+      // Step back by the overlap, then forward to the next word
+      let next = Math.max(end - overlap, start + 1);
+      while (next < end && !/\s/.test(text[next - 1])) next++;
+      start = next;
+    }
+    pushChunk(start, section.end, section.heading);
+  }
+
+  return chunks;
+};
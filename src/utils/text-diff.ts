@@ -0,0 +1,149 @@
+/**
+ * Line-based text diff (longest common subsequence) with unified diff
+ * output, used to compare workspace entry versions
+ */
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+}
+
+export interface TextDiff {
+  additions: number;
+  deletions: number;
+  /** Unified diff, empty when the texts are equal */
+  unified: string;
+}
+
+// Above this many line comparisons, the changed region is reported as a
+// whole replacement instead of computing an exact diff
+const MAX_DIFF_CELLS = 4000000;
+
+const splitLines = (text: string): string[] =>
+  text === '' ? [] : text.split(/\r?\n/);
+
+const line =
+  (type: DiffLine['type']) =>
+  (text: string): DiffLine => ({ type, text });
+
+const diffChangedRegion = (a: string[], b: string[]): DiffLine[] => {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0 || n * m > MAX_DIFF_CELLS) {
+    return [...a.map(line('remove')), ...b.map(line('add'))];
+  }
+
+  // lcs[i * width + j] = length of the LCS of a[i..] and b[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      lines.push(line('context')(a[i]));
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      lines.push(line('remove')(a[i++]));
+    } else {
+      lines.push(line('add')(b[j++]));
+    }
+  }
+  return [
+    ...lines,
+    ...a.slice(i).map(line('remove')),
+    ...b.slice(j).map(line('add')),
+  ];
+};
+
+/**
+ * Diff two texts line by line. Common leading and trailing lines are
+ * matched up front so typical edits stay cheap on large files.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return [
+    ...a.slice(0, start).map(line('context')),
+    ...diffChangedRegion(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(line('context')),
+  ];
+};
+
+/**
+ * Unified diff of two texts with `context` unchanged lines around each
+ * change
+ */
+export const createUnifiedDiff = (
+  before: string,
+  after: string,
+  options: { fromLabel?: string; toLabel?: string; context?: number } = {},
+): TextDiff => {
+  const { fromLabel = 'a', toLabel = 'b', context = 3 } = options;
+  const lines = diffLines(before, after);
+  const changed = lines
+    .map((diffLine, index) => (diffLine.type === 'context' ? -1 : index))
+    .filter((index) => index >= 0);
+
+  // Merge the context windows around changes into hunks
+  const ranges: [number, number][] = [];
+  for (const index of changed) {
+    const from = Math.max(0, index - context);
+    const to = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last[1] + 1) {
+      last[1] = to;
+    } else {
+      ranges.push([from, to]);
+    }
+  }
+
+  // Line numbers of the first line of each hunk in the old and new text
+  const hunks = ranges.map(([from, to]) => {
+    const preceding = lines.slice(0, from);
+    const hunk = lines.slice(from, to + 1);
+    const oldBefore = preceding.filter((l) => l.type !== 'add').length;
+    const newBefore = preceding.filter((l) => l.type !== 'remove').length;
+    const oldCount = hunk.filter((l) => l.type !== 'add').length;
+    const newCount = hunk.filter((l) => l.type !== 'remove').length;
+    const header = `@@ -${oldCount ? oldBefore + 1 : oldBefore},${oldCount} +${
+      newCount ? newBefore + 1 : newBefore
+    },${newCount} @@`;
+    const body = hunk.map(
+      (l) =>
+        `${l.type === 'add' ? '+' : l.type === 'remove' ? '-' : ' '}${l.text}`,
+    );
+    return [header, ...body].join('\n');
+  });
+
+  return {
+    additions: lines.filter((l) => l.type === 'add').length,
+    deletions: lines.filter((l) => l.type === 'remove').length,
+    unified:
+      hunks.length > 0
+        ? [`--- ${fromLabel}`, `+++ ${toLabel}`, ...hunks].join('\n')
+        : '',
+  };
+};
@@ -1,4 +1,10 @@
-import { ModelMessage, ImagePart, TextPart } from 'ai';
+import {
+  ModelMessage,
+  ImagePart,
+  TextPart,
+  ToolCallPart,
+  ToolResultPart,
+} from 'ai';
 import { encode } from 'gpt-tokenizer';
 
 // Estimated token counts for images based on OpenAI's documentation
@@ -21,6 +27,35 @@ function estimateImageTokens(imagePart: ImagePart): number {
   return BASE_HIGH_DETAIL_TOKENS + 2 * HIGH_DETAIL_IMAGE_TOKENS_PER_TILE; // Example: 2 tiles
 }
 
+// Estimate the tokens a message takes in the prompt
+export function countMessageTokens(m: ModelMessage): number {
+  let messageTokens = 0;
+  if (typeof m.content === 'string') {
+    messageTokens = encode(m.content).length;
+  } else if (Array.isArray(m.content)) {
+    // Handle array content (multimodal)
+    for (const part of m.content) {
+      if (part.type === 'text') {
+        messageTokens += encode((part as TextPart).text).length;
+      } else if (part.type === 'image') {
+        messageTokens += estimateImageTokens(part as ImagePart);
+      } else if (part.type === 'tool-call') {
+        messageTokens += encode(
+          JSON.stringify((part as ToolCallPart).input ?? {}),
+        ).length;
+      } else if (part.type === 'tool-result') {
+        const output = (part as ToolResultPart).output;
+        const value = 'value' in output ? output.value : '';
+        messageTokens += encode(
+          typeof value === 'string' ? value : JSON.stringify(value ?? ''),
+        ).length;
+      }
+    }
+  }
+  // Add a small buffer for message metadata (role, etc.)
+  return messageTokens + 4;
+}
+
 export function trimToWindow(
   messages: ModelMessage[],
   maxTokens: number,
@@ -30,21 +65,7 @@ export function trimToWindow(
   const kept: ModelMessage[] = [];
 
   for (const m of reversed) {
-    let messageTokens = 0;
-    if (typeof m.content === 'string') {
-      messageTokens = encode(m.content).length;
-    } else if (Array.isArray(m.content)) {
-      // Handle array content (multimodal)
-      for (const part of m.content) {
-        if (part.type === 'text') {
-          messageTokens += encode((part as TextPart).text).length;
-        } else if (part.type === 'image') {
-          messageTokens += estimateImageTokens(part as ImagePart);
-        }
-      }
-    }
-    // Add a small buffer for message metadata (role, etc.)
-    const cost = messageTokens + 4;
+    const cost = countMessageTokens(m);
 
     if (totalTokens + cost > maxTokens) {
       // If adding the current message exceeds maxTokens, and it's the *only* message considered so far,
@@ -87,6 +108,12 @@ export function trimToWindow(
   // and the original messages array was not empty, this indicates an issue.
   // The calling code should handle this (e.g., by erroring or sending a truncated message).
   // For now, trimToWindow will return an empty array as per its logic.
+  // A tool message whose assistant tool-call was trimmed away is rejected by
+  // providers; drop it (kept is newest-first, so it's at the end)
+  while (kept.length > 0 && kept[kept.length - 1].role === 'tool') {
+    totalTokens -= countMessageTokens(kept.pop()!);
+  }
+
   if (kept.length === 0 && messages.length > 0) {
     console.warn(
       `trimToWindow: No messages kept. First message might be too large. Max tokens: ${maxTokens}, First message cost estimate: (see logs above if any)`,
@@ -95,3 +122,28 @@ export function trimToWindow(
 
   return { trimmedMessages: kept.reverse(), tokensInPrompt: totalTokens };
 }
+
+// Split messages for rolling summarization: `recent` is the newest run of
+// messages that fits in keepTokens (always at least the last message),
+// `older` is everything before it.
+export function splitForSummary(
+  messages: ModelMessage[],
+  keepTokens: number,
+): { older: ModelMessage[]; recent: ModelMessage[] } {
+  let totalTokens = 0;
+  let splitIndex = messages.length;
+
+  while (splitIndex > 0) {
+    const cost = countMessageTokens(messages[splitIndex - 1]);
+    if (splitIndex < messages.length && totalTokens + cost > keepTokens) {
+      break;
+    }
+    totalTokens += cost;
+    splitIndex--;
+  }
+
+  return {
+    older: messages.slice(0, splitIndex),
+    recent: messages.slice(splitIndex),
+  };
+}